@@ -0,0 +1,220 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { useToast } from '@/hooks/use-toast';
+import type { DetectOptions } from '@/lib/pii-detector';
+import { DetectionCancelledError, type DetectorClient } from '@/lib/detector-client';
+import { parseCalibration, profileForModels, type CalibrationProfile } from '@/lib/pii/calibration';
+import type { AnnotatedDocument } from '@/lib/pii/evaluate/calibrate';
+import { Download, Upload, Play, Trash2, Check } from 'lucide-react';
+
+interface CalibrationPanelProps {
+  detector: DetectorClient | null;  // calibration runs in its worker, on the models loaded there
+  models: string[];         // ids of the loaded models: the profile is fitted to their scores
+  options: DetectOptions;   // ensemble weights and context cues, as detection uses them
+  profile: CalibrationProfile | null;
+  onChange: (profile: CalibrationProfile | null) => void;
+}
+
+const percent = (x: number) => `${Math.round(x * 100)}%`;
+
+function ProfileTable({ profile }: { profile: CalibrationProfile }) {
+  const rows = Object.entries(profile.labels);
+  if (rows.length === 0) return <p className="text-sm text-muted-foreground">No model labels could be fitted from this corpus.</p>;
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-muted-foreground">
+          <th className="font-normal">Label</th>
+          <th className="font-normal">Threshold</th>
+          <th className="font-normal">Temperature</th>
+          <th className="font-normal">Recall</th>
+          <th className="font-normal">Precision</th>
+          <th className="font-normal">Annotated</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(([label, cal]) => cal && (
+          <tr key={label}>
+            <td className="font-mono">{label}</td>
+            <td>{cal.threshold.toFixed(3)}</td>
+            <td>{cal.temperature.toFixed(2)}</td>
+            <td className={cal.recall < profile.targetRecall ? 'text-destructive' : ''}>{percent(cal.recall)}</td>
+            <td>{percent(cal.precision)}</td>
+            <td>{cal.support}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+/** Fits per-label thresholds on an annotated corpus and manages the profile detection uses. */
+export function CalibrationPanel({ detector, models, options, profile, onChange }: CalibrationPanelProps) {
+  const { toast } = useToast();
+  const [corpus, setCorpus] = useState<{ name: string; documents: AnnotatedDocument[] } | null>(null);
+  const [targetRecall, setTargetRecall] = useState(0.9);
+  const [fitted, setFitted] = useState<CalibrationProfile | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+
+  const handleCorpus = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const { parseCorpus } = await import('@/lib/pii/evaluate/calibrate');
+      const documents = parseCorpus(await file.text());
+      setCorpus({ name: file.name, documents });
+      setFitted(null);
+    } catch (e) {
+      toast({
+        title: 'Corpus Rejected',
+        description: e instanceof Error ? e.message : 'Failed to read corpus',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleRun = async () => {
+    if (!corpus || !detector) return;
+    setProgress(0);
+    try {
+      setFitted(await detector.calibrate(corpus.documents, targetRecall, options, p => setProgress(Math.round(p))));
+    } catch (e) {
+      if (e instanceof DetectionCancelledError) return;  // a detection started meanwhile
+      toast({
+        title: 'Calibration Failed',
+        description: e instanceof Error ? e.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleExport = () => {
+    if (!profile) return;
+    const blob = new Blob([JSON.stringify(profile, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `calibration-${Date.now()}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      onChange(parseCalibration(await file.text()));
+      toast({ title: 'Calibration Imported', description: 'Detection now uses the imported thresholds', duration: 3000 });
+    } catch (e) {
+      toast({
+        title: 'Import Failed',
+        description: e instanceof Error ? e.message : 'Failed to import calibration',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const mismatch = profile && models.length > 0 && !profileForModels(profile, models);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Confidence Calibration</CardTitle>
+        <CardDescription>
+          Load an annotated corpus (JSON: documents with their PII marked) and fit a confidence threshold per label
+          that keeps the target share of annotated items. Labels the profile doesn't cover keep the built-in thresholds.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-3 p-4 border rounded-lg bg-muted/30">
+          <h3 className="font-semibold text-sm">Active Profile</h3>
+          {profile ? (
+            <>
+              <p className="text-xs text-muted-foreground">
+                Fitted {profile.created.slice(0, 10)} for {percent(profile.targetRecall)} recall with {profile.models.join(', ') || 'unknown models'}
+              </p>
+              {mismatch && (
+                <p className="text-xs text-destructive">
+                  Fitted with different models than those loaded ({models.join(', ')}): not applied until they are loaded again.
+                </p>
+              )}
+              <ProfileTable profile={profile} />
+            </>
+          ) : (
+            <p className="text-sm text-muted-foreground">None: built-in thresholds apply.</p>
+          )}
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" size="sm" onClick={handleExport} disabled={!profile}>
+              <Download className="h-4 w-4 mr-2" />
+              Export
+            </Button>
+            <label htmlFor="calibration-upload">
+              <Button variant="outline" size="sm" asChild>
+                <span className="cursor-pointer flex items-center gap-2">
+                  <Upload className="h-4 w-4" />
+                  Import
+                </span>
+              </Button>
+              <input id="calibration-upload" type="file" accept=".json" onChange={handleImport} className="hidden" />
+            </label>
+            <Button variant="ghost" size="sm" onClick={() => onChange(null)} disabled={!profile}>
+              <Trash2 className="h-4 w-4 mr-2" />
+              Clear
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-end gap-3">
+            <label htmlFor="corpus-upload">
+              <Button variant="outline" size="sm" asChild>
+                <span className="cursor-pointer flex items-center gap-2">
+                  <Upload className="h-4 w-4" />
+                  Load Corpus
+                </span>
+              </Button>
+              <input id="corpus-upload" type="file" accept=".json" onChange={handleCorpus} className="hidden" />
+            </label>
+            <label className="space-y-1 text-sm">
+              <span>Target recall</span>
+              <Input
+                type="number" min={0.5} max={1} step={0.01} className="h-9 w-24"
+                value={targetRecall}
+                onChange={e => setTargetRecall(Math.min(1, Math.max(0.5, Number(e.target.value) || 0.9)))}
+              />
+            </label>
+            <Button size="sm" onClick={handleRun} disabled={!corpus || !detector || models.length === 0 || progress !== null}>
+              <Play className="h-4 w-4 mr-2" />
+              Run Calibration
+            </Button>
+          </div>
+          {corpus && (
+            <p className="text-xs text-muted-foreground">
+              {corpus.name}: {corpus.documents.length} documents,{' '}
+              {corpus.documents.reduce((n, d) => n + d.annotations.length, 0)} annotations
+            </p>
+          )}
+          {progress !== null && <Progress value={progress} />}
+          {fitted && (
+            <div className="space-y-3">
+              <ProfileTable profile={fitted} />
+              <Button size="sm" onClick={() => { onChange(fitted); setFitted(null); }}>
+                <Check className="h-4 w-4 mr-2" />
+                Use This Profile
+              </Button>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
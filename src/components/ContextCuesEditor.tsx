@@ -0,0 +1,182 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import {
+  DEFAULT_CUES, CUE_DISTANCE, cueError, parseContextCues, serializeContextCues,
+  type ContextCue, type CueEffect, type CuePosition,
+} from '@/lib/pii/context';
+import { Download, Upload, Trash2, Plus, RotateCcw } from 'lucide-react';
+
+interface ContextCuesEditorProps {
+  cues: ContextCue[];
+  onChange: (cues: ContextCue[]) => void;
+}
+
+const emptyCue = (): ContextCue => ({ phrase: '', label: 'PERSON', effect: 'boost', position: 'before', weight: 0.3 });
+
+const POSITIONS: Record<CuePosition, string> = {
+  before: 'Just before',
+  after: 'Just after',
+  line: 'Same line',
+};
+
+const selectClass = 'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm';
+
+export function ContextCuesEditor({ cues, onChange }: ContextCuesEditorProps) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<ContextCue>(emptyCue);
+  const [filter, setFilter] = useState('');
+
+  const error = draft.phrase ? cueError(draft) : null;
+  const visible = cues
+    .map((cue, index) => ({ cue, index }))
+    .filter(({ cue }) => !filter || `${cue.phrase} ${cue.label}`.toLowerCase().includes(filter.toLowerCase()));
+
+  const update = (patch: Partial<ContextCue>) => setDraft(d => ({ ...d, ...patch }));
+
+  const handleAdd = () => {
+    const err = cueError(draft);
+    if (err) {
+      toast({ title: 'Invalid Cue', description: err, variant: 'destructive' });
+      return;
+    }
+    onChange([...cues, { ...draft, phrase: draft.phrase.trim() }]);
+    setDraft(d => ({ ...emptyCue(), label: d.label, effect: d.effect, position: d.position, weight: d.weight }));
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([serializeContextCues(cues)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `context-cues-${Date.now()}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseContextCues(await file.text());
+      // Shared lexicons are merged; identical cues are not duplicated
+      const key = (c: ContextCue) => `${c.effect}|${c.position}|${c.label}|${c.weight}|${c.phrase.toLowerCase()}`;
+      const existing = new Set(cues.map(key));
+      const added = imported.filter(c => !existing.has(key(c)));
+      onChange([...cues, ...added]);
+      toast({ title: 'Cues Imported', description: `Added ${added.length} cues`, duration: 3000 });
+    } catch (e) {
+      toast({
+        title: 'Import Failed',
+        description: e instanceof Error ? e.message : 'Failed to import cues',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Context Cues</CardTitle>
+        <CardDescription>
+          Phrases near an AI detection that raise its confidence (field labels such as "Client name:") or lower it
+          (fund names, document headings). "Just before" and "just after" mean within {CUE_DISTANCE} characters on
+          the same line. Column titles in table header rows are always lowered.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={handleExport} disabled={cues.length === 0}>
+            <Download className="h-4 w-4 mr-2" />
+            Export
+          </Button>
+          <label htmlFor="cues-upload">
+            <Button variant="outline" size="sm" asChild>
+              <span className="cursor-pointer flex items-center gap-2">
+                <Upload className="h-4 w-4" />
+                Import
+              </span>
+            </Button>
+            <input id="cues-upload" type="file" accept=".json" onChange={handleImport} className="hidden" />
+          </label>
+          <Button variant="ghost" size="sm" onClick={() => onChange(DEFAULT_CUES)}>
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Reset to Defaults
+          </Button>
+        </div>
+
+        <div className="space-y-3 p-4 border rounded-lg bg-muted/30">
+          <h3 className="font-semibold text-sm">New Cue</h3>
+          <div className="grid gap-3 sm:grid-cols-[1fr_8rem_8rem_9rem_6rem]">
+            <label className="space-y-1 text-sm">
+              <span>Phrase</span>
+              <Input value={draft.phrase} placeholder="Spouse" onChange={e => update({ phrase: e.target.value })} />
+            </label>
+            <label className="space-y-1 text-sm">
+              <span>Label (* for any)</span>
+              <Input
+                value={draft.label}
+                placeholder="PERSON"
+                className="font-mono"
+                onChange={e => update({ label: e.target.value.toUpperCase() as ContextCue['label'] })}
+              />
+            </label>
+            <label className="space-y-1 text-sm">
+              <span>Effect</span>
+              <select value={draft.effect} onChange={e => update({ effect: e.target.value as CueEffect })} className={selectClass}>
+                <option value="boost">Raise</option>
+                <option value="suppress">Lower</option>
+              </select>
+            </label>
+            <label className="space-y-1 text-sm">
+              <span>Where</span>
+              <select value={draft.position} onChange={e => update({ position: e.target.value as CuePosition })} className={selectClass}>
+                {Object.entries(POSITIONS).map(([value, name]) => <option key={value} value={value}>{name}</option>)}
+              </select>
+            </label>
+            <label className="space-y-1 text-sm">
+              <span>By</span>
+              <Input
+                type="number" min={0} max={1} step={0.05}
+                value={draft.weight}
+                onChange={e => update({ weight: Number(e.target.value) })}
+              />
+            </label>
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          <Button size="sm" onClick={handleAdd} disabled={!draft.phrase || !!error}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Cue
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <Input value={filter} placeholder={`Filter ${cues.length} cues`} onChange={e => setFilter(e.target.value)} />
+          <div className="max-h-96 overflow-y-auto space-y-1">
+            {visible.map(({ cue, index }) => (
+              <div key={index} className="flex items-center justify-between px-3 py-1.5 border rounded-md">
+                <div className="flex items-center gap-2 min-w-0">
+                  <Badge variant={cue.effect === 'suppress' ? 'destructive' : 'secondary'}>
+                    {cue.effect === 'boost' ? '+' : '-'}{cue.weight}
+                  </Badge>
+                  <Badge variant="outline">{cue.label}</Badge>
+                  <code className="text-sm truncate">{cue.phrase}</code>
+                  <span className="text-xs text-muted-foreground">{POSITIONS[cue.position].toLowerCase()}</span>
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => onChange(cues.filter((_, i) => i !== index))}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
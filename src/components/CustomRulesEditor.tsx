@@ -0,0 +1,209 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { matchRules } from '@/lib/pii/detectStructured';
+import {
+  customLabel, newCustomRule, ruleError, toPatternRule, parseRuleSet, serializeRuleSet,
+  type ChecksumKind, type CustomRule,
+} from '@/lib/pii/customRules';
+import { Download, Upload, Trash2, Plus } from 'lucide-react';
+
+interface CustomRulesEditorProps {
+  rules: CustomRule[];
+  onChange: (rules: CustomRule[]) => void;
+}
+
+export function CustomRulesEditor({ rules, onChange }: CustomRulesEditorProps) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<CustomRule>(newCustomRule);
+  const [sample, setSample] = useState('');
+
+  const error = draft.label || draft.pattern ? ruleError(draft) : null;
+  const compiled = toPatternRule({ ...draft, enabled: true });
+  const matches = compiled && sample ? matchRules(sample, [compiled]) : [];
+  const isEditing = rules.some(r => r.id === draft.id);
+
+  const update = (patch: Partial<CustomRule>) => setDraft(d => ({ ...d, ...patch }));
+
+  const handleSave = () => {
+    const rule = { ...draft, cues: draft.cues.map(c => c.trim()).filter(Boolean) };
+    const err = ruleError(rule);
+    if (err) {
+      toast({ title: 'Invalid Rule', description: err, variant: 'destructive' });
+      return;
+    }
+    onChange(isEditing ? rules.map(r => r.id === rule.id ? rule : r) : [...rules, rule]);
+    setDraft(newCustomRule());
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([serializeRuleSet(rules)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `custom-rules-${Date.now()}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseRuleSet(await file.text());
+      // Imported rules replace same-id rules and are appended otherwise
+      const ids = new Set(imported.map(r => r.id));
+      onChange([...rules.filter(r => !ids.has(r.id)), ...imported]);
+      toast({ title: 'Rules Imported', description: `Loaded ${imported.length} rules`, duration: 3000 });
+    } catch (e) {
+      toast({
+        title: 'Import Failed',
+        description: e instanceof Error ? e.message : 'Failed to import rules',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Custom Rules</CardTitle>
+        <CardDescription>
+          Add your own identifiers (client IDs, policy numbers, file references). Rules run alongside the built-in detectors.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={handleExport} disabled={rules.length === 0}>
+            <Download className="h-4 w-4 mr-2" />
+            Export Rules
+          </Button>
+          <label htmlFor="rules-upload">
+            <Button variant="outline" size="sm" asChild>
+              <span className="cursor-pointer flex items-center gap-2">
+                <Upload className="h-4 w-4" />
+                Import Rules
+              </span>
+            </Button>
+            <input id="rules-upload" type="file" accept=".json" onChange={handleImport} className="hidden" />
+          </label>
+        </div>
+
+        {rules.length > 0 && (
+          <div className="space-y-2">
+            {rules.map(rule => (
+              <div key={rule.id} className="flex items-center justify-between p-3 border rounded-lg">
+                <label className="flex items-center gap-3 cursor-pointer min-w-0">
+                  <input
+                    type="checkbox"
+                    checked={rule.enabled}
+                    onChange={e => onChange(rules.map(r => r.id === rule.id ? { ...r, enabled: e.target.checked } : r))}
+                    className="h-4 w-4 rounded border-gray-300"
+                  />
+                  <Badge variant="secondary">{customLabel(rule)}</Badge>
+                  <code className="text-sm bg-muted px-2 py-1 rounded truncate">{rule.pattern}</code>
+                </label>
+                <div className="flex gap-1 shrink-0">
+                  <Button variant="ghost" size="sm" onClick={() => setDraft(rule)}>Edit</Button>
+                  <Button variant="ghost" size="sm" onClick={() => onChange(rules.filter(r => r.id !== rule.id))}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-3 p-4 border rounded-lg bg-muted/30">
+          <h3 className="font-semibold text-sm">{isEditing ? 'Edit Rule' : 'New Rule'}</h3>
+          <div className="grid gap-3 sm:grid-cols-2">
+            <label className="space-y-1 text-sm">
+              <span>Label</span>
+              <Input value={draft.label} placeholder="Client ID" onChange={e => update({ label: e.target.value })} />
+            </label>
+            <label className="space-y-1 text-sm">
+              <span>Pattern (regular expression)</span>
+              <Input value={draft.pattern} placeholder="CL-\d{6}" className="font-mono" onChange={e => update({ pattern: e.target.value })} />
+            </label>
+            <label className="space-y-1 text-sm">
+              <span>Cue words (comma separated, optional)</span>
+              <Input
+                value={draft.cues.join(', ')}
+                placeholder="client, CRM"
+                onChange={e => update({ cues: e.target.value.split(',').map(c => c.trimStart()) })}
+              />
+            </label>
+            <div className="grid grid-cols-2 gap-3">
+              <label className="space-y-1 text-sm">
+                <span>Checksum</span>
+                <select
+                  value={draft.checksum ?? ''}
+                  onChange={e => update({ checksum: (e.target.value || undefined) as ChecksumKind | undefined })}
+                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                >
+                  <option value="">None</option>
+                  <option value="luhn">Luhn</option>
+                  <option value="mod11">Mod-11</option>
+                  <option value="mod97">Mod-97</option>
+                </select>
+              </label>
+              <label className="space-y-1 text-sm">
+                <span>Confidence</span>
+                <Input
+                  type="number" min={0} max={1} step={0.05}
+                  value={draft.confidence}
+                  onChange={e => update({ confidence: Number(e.target.value) })}
+                />
+              </label>
+            </div>
+          </div>
+          <label className="flex items-center gap-2 text-sm cursor-pointer">
+            <input
+              type="checkbox"
+              checked={draft.caseInsensitive}
+              onChange={e => update({ caseInsensitive: e.target.checked })}
+              className="h-4 w-4 rounded border-gray-300"
+            />
+            <span>Case insensitive</span>
+          </label>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <div className="space-y-1">
+            <span className="text-sm">Test against sample text</span>
+            <Textarea
+              value={sample}
+              placeholder="Paste sample text to see what this rule matches"
+              onChange={e => setSample(e.target.value)}
+              className="min-h-[80px]"
+            />
+            {sample && compiled && (
+              <div className="flex flex-wrap gap-2 text-sm">
+                <span className="text-muted-foreground">{matches.length} match{matches.length === 1 ? '' : 'es'}</span>
+                {matches.map((m, i) => (
+                  <code key={i} className="bg-muted px-2 py-0.5 rounded">{m.text}</code>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="flex gap-2">
+            <Button size="sm" onClick={handleSave} disabled={!!error || !draft.label || !draft.pattern}>
+              <Plus className="h-4 w-4 mr-2" />
+              {isEditing ? 'Update Rule' : 'Add Rule'}
+            </Button>
+            {isEditing && (
+              <Button size="sm" variant="ghost" onClick={() => setDraft(newCustomRule())}>Cancel</Button>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
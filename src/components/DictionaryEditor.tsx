@@ -0,0 +1,171 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import {
+  DEFAULT_DICTIONARY, entryError, parseDictionary, serializeDictionary,
+  type DictionaryEntry, type DictionaryKind,
+} from '@/lib/pii/dictionaries';
+import { Download, Upload, Trash2, Plus, RotateCcw } from 'lucide-react';
+
+interface DictionaryEditorProps {
+  entries: DictionaryEntry[];
+  onChange: (entries: DictionaryEntry[]) => void;
+}
+
+const emptyEntry = (): DictionaryEntry => ({ term: '', label: '*', kind: 'allow', caseSensitive: false });
+
+export function DictionaryEditor({ entries, onChange }: DictionaryEditorProps) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<DictionaryEntry>(emptyEntry);
+  const [filter, setFilter] = useState('');
+
+  const error = draft.term ? entryError(draft) : null;
+  const visible = entries
+    .map((entry, index) => ({ entry, index }))
+    .filter(({ entry }) => !filter || `${entry.term} ${entry.label}`.toLowerCase().includes(filter.toLowerCase()));
+
+  const update = (patch: Partial<DictionaryEntry>) => setDraft(d => ({ ...d, ...patch }));
+
+  const handleAdd = () => {
+    const err = entryError(draft);
+    if (err) {
+      toast({ title: 'Invalid Entry', description: err, variant: 'destructive' });
+      return;
+    }
+    onChange([...entries, { ...draft, term: draft.term.trim() }]);
+    setDraft(d => ({ ...emptyEntry(), kind: d.kind, label: d.label }));
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([serializeDictionary(entries)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `dictionary-${Date.now()}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseDictionary(await file.text());
+      // Shared dictionaries are merged; identical entries are not duplicated
+      const key = (e: DictionaryEntry) => `${e.kind}|${e.label}|${e.caseSensitive}|${e.scope ?? 'all'}|${e.term}`;
+      const existing = new Set(entries.map(key));
+      const added = imported.filter(e => !existing.has(key(e)));
+      onChange([...entries, ...added]);
+      toast({ title: 'Dictionary Imported', description: `Added ${added.length} entries`, duration: 3000 });
+    } catch (e) {
+      toast({
+        title: 'Import Failed',
+        description: e instanceof Error ? e.message : 'Failed to import dictionary',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Allow &amp; Deny Lists</CardTitle>
+        <CardDescription>
+          Allowlisted terms are never redacted; denylisted terms (e.g. known client names) are always redacted.
+          Use * for any text and ? for one character.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={handleExport} disabled={entries.length === 0}>
+            <Download className="h-4 w-4 mr-2" />
+            Export
+          </Button>
+          <label htmlFor="dictionary-upload">
+            <Button variant="outline" size="sm" asChild>
+              <span className="cursor-pointer flex items-center gap-2">
+                <Upload className="h-4 w-4" />
+                Import
+              </span>
+            </Button>
+            <input id="dictionary-upload" type="file" accept=".json" onChange={handleImport} className="hidden" />
+          </label>
+          <Button variant="ghost" size="sm" onClick={() => onChange(DEFAULT_DICTIONARY)}>
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Reset to Defaults
+          </Button>
+        </div>
+
+        <div className="space-y-3 p-4 border rounded-lg bg-muted/30">
+          <h3 className="font-semibold text-sm">New Entry</h3>
+          <div className="grid gap-3 sm:grid-cols-[1fr_10rem_8rem]">
+            <label className="space-y-1 text-sm">
+              <span>Term</span>
+              <Input value={draft.term} placeholder="Arcadia Wealth*" onChange={e => update({ term: e.target.value })} />
+            </label>
+            <label className="space-y-1 text-sm">
+              <span>Label (* for any)</span>
+              <Input
+                value={draft.label}
+                placeholder="PERSON"
+                className="font-mono"
+                onChange={e => update({ label: e.target.value.toUpperCase() as DictionaryEntry['label'] })}
+              />
+            </label>
+            <label className="space-y-1 text-sm">
+              <span>List</span>
+              <select
+                value={draft.kind}
+                onChange={e => update({ kind: e.target.value as DictionaryKind })}
+                className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+              >
+                <option value="allow">Allow</option>
+                <option value="deny">Deny</option>
+              </select>
+            </label>
+          </div>
+          <label className="flex items-center gap-2 text-sm cursor-pointer">
+            <input
+              type="checkbox"
+              checked={draft.caseSensitive}
+              onChange={e => update({ caseSensitive: e.target.checked })}
+              className="h-4 w-4 rounded border-gray-300"
+            />
+            <span>Exact case</span>
+          </label>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          <Button size="sm" onClick={handleAdd} disabled={!draft.term || !!error}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Entry
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <Input value={filter} placeholder={`Filter ${entries.length} entries`} onChange={e => setFilter(e.target.value)} />
+          <div className="max-h-96 overflow-y-auto space-y-1">
+            {visible.map(({ entry, index }) => (
+              <div key={index} className="flex items-center justify-between px-3 py-1.5 border rounded-md">
+                <div className="flex items-center gap-2 min-w-0">
+                  <Badge variant={entry.kind === 'deny' ? 'destructive' : 'secondary'}>{entry.kind}</Badge>
+                  <Badge variant="outline">{entry.label}</Badge>
+                  <code className="text-sm truncate">{entry.term}</code>
+                  {entry.caseSensitive && <span className="text-xs text-muted-foreground">exact case</span>}
+                  {entry.scope === 'names' && <span className="text-xs text-muted-foreground">name checks only</span>}
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => onChange(entries.filter((_, i) => i !== index))}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
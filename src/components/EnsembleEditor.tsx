@@ -0,0 +1,76 @@
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { modelLabels, type NerModel } from '@/lib/ner-models';
+import { agreementFor, voteWeight, DEFAULT_ENSEMBLE, type EnsembleSettings } from '@/lib/pii/ensemble';
+import type { Label } from '@/lib/pii/types';
+import { RotateCcw } from 'lucide-react';
+
+interface EnsembleEditorProps {
+  models: NerModel[];
+  settings: EnsembleSettings;
+  onChange: (settings: EnsembleSettings) => void;
+}
+
+const cell = 'h-8 w-20 text-sm';
+
+/** Per-label vote weights for each loaded model, and the share of the vote each label needs. */
+export function EnsembleEditor({ models, settings, onChange }: EnsembleEditorProps) {
+  const labels = [...new Set(models.flatMap(modelLabels))];
+
+  const setWeight = (model: string, label: Label, value: number) =>
+    onChange({ ...settings, weights: { ...settings.weights, [model]: { ...settings.weights[model], [label]: value } } });
+  const setAgreement = (label: Label, value: number) =>
+    onChange({ ...settings, agreement: { ...settings.agreement, [label]: value } });
+  const number = (value: string, max: number) => Math.min(max, Math.max(0, Number(value) || 0));
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">Model voting</span>
+        <Button variant="ghost" size="sm" onClick={() => onChange(DEFAULT_ENSEMBLE)} title="Equal weights, half the vote">
+          <RotateCcw className="h-4 w-4" />
+        </Button>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="text-sm">
+          <thead>
+            <tr className="text-left text-muted-foreground">
+              <th className="pr-3 font-normal">Weight</th>
+              {labels.map(label => <th key={label} className="pr-2 font-normal">{label}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {models.map(model => (
+              <tr key={model.id}>
+                <td className="pr-3">{model.name}</td>
+                {labels.map(label => (
+                  <td key={label} className="pr-2 py-0.5">
+                    {modelLabels(model).includes(label) ? (
+                      <Input
+                        type="number" min={0} max={10} step={0.5} className={cell}
+                        value={voteWeight(settings, model.id, label)}
+                        onChange={e => setWeight(model.id, label, number(e.target.value, 10))}
+                      />
+                    ) : <span className="text-muted-foreground">-</span>}
+                  </td>
+                ))}
+              </tr>
+            ))}
+            <tr>
+              <td className="pr-3" title="Share of the weight that must find an entity for it to be kept">Agreement needed</td>
+              {labels.map(label => (
+                <td key={label} className="pr-2 py-0.5">
+                  <Input
+                    type="number" min={0} max={1} step={0.05} className={cell}
+                    value={agreementFor(settings, label)}
+                    onChange={e => setAgreement(label, number(e.target.value, 1))}
+                  />
+                </td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
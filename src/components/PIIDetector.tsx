@@ -6,16 +6,32 @@ import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useToast } from '@/hooks/use-toast';
-import { BrowserPIIDetector } from '@/lib/pii-detector';
+import { DetectorClient, DetectionCancelledError } from '@/lib/detector-client';
+import {
+  NER_MODELS, DEFAULT_MODEL, loadBundledModels, folderModel, loadModelChoice, saveModelChoice, type NerModel,
+} from '@/lib/ner-models';
 import type { Entity } from '@/lib/pii/types';
+import { LOCALE_PACKS, loadActiveLocales, saveActiveLocales, type LocaleId } from '@/lib/pii/locales';
+import { loadCustomRules, saveCustomRules, type CustomRule } from '@/lib/pii/customRules';
+import { loadDictionary, saveDictionary, type DictionaryEntry } from '@/lib/pii/dictionaries';
+import { parseRosterCsv, type Roster } from '@/lib/pii/roster';
 import { encryptJSON, decryptJSON } from '@/lib/pii/crypto';
 import { makePlaceholder } from '@/lib/pii/placeholders';
 // import { redactText } from '@/lib/pii/redact'; // Old index-based redactor
 import { redactTextSemantic } from '@/lib/pii/semanticRedact';
+import { unredactTextSemantic } from '@/lib/pii/semanticUnredact';
 import type { RedactionMap as SemanticRedactionMap } from '@/lib/pii/semanticTypes';
 import { Download, Upload, AlertCircle, CheckCircle2, Sparkles, Info, X } from 'lucide-react';
 import { AccuracyDisclaimer } from '@/components/AccuracyDisclaimer';
 import { TermsOfUse } from '@/components/TermsOfUse';
+import { CustomRulesEditor } from '@/components/CustomRulesEditor';
+import { DictionaryEditor } from '@/components/DictionaryEditor';
+import { EnsembleEditor } from '@/components/EnsembleEditor';
+import { ContextCuesEditor } from '@/components/ContextCuesEditor';
+import { loadContextCues, saveContextCues, type ContextCue } from '@/lib/pii/context';
+import { CalibrationPanel } from '@/components/CalibrationPanel';
+import { loadCalibration, saveCalibration, type CalibrationProfile } from '@/lib/pii/calibration';
+import { loadEnsemble, saveEnsemble, type EnsembleSettings } from '@/lib/pii/ensemble';
 import {
   Table,
   TableBody,
@@ -33,6 +49,7 @@ export function PIIDetector() {
   const [inputText, setInputText] = useState('');
   const [detectedEntities, setDetectedEntities] = useState<Entity[]>([]);
   const [isDetecting, setIsDetecting] = useState(false);
+  const [detectProgress, setDetectProgress] = useState(0);
   const [isInitializing, setIsInitializing] = useState(false);
   const [initProgress, setInitProgress] = useState(0);
   const [redactedText, setRedactedText] = useState('');
@@ -44,7 +61,18 @@ export function PIIDetector() {
   const [selectionEnd, setSelectionEnd] = useState(0);
   const [irreversible, setIrreversible] = useState(false);
   const [deterministic, setDeterministic] = useState(true);
-  const detectorRef = useRef<BrowserPIIDetector | null>(null);
+  const [activeLocales, setActiveLocales] = useState<LocaleId[]>(loadActiveLocales);
+  const [customRules, setCustomRules] = useState<CustomRule[]>(loadCustomRules);
+  const [dictionary, setDictionary] = useState<DictionaryEntry[]>(loadDictionary);
+  const [roster, setRoster] = useState<Roster | null>(null); // CRM export: kept in memory only, never persisted
+  const [models, setModels] = useState<NerModel[]>(NER_MODELS);
+  const [modelIds, setModelIds] = useState(loadModelChoice); // primary first; more than one votes
+  const [modelFolder, setModelFolder] = useState<ReturnType<typeof folderModel> | null>(null); // in memory only
+  const [loadedModels, setLoadedModels] = useState<NerModel[]>([]);
+  const [ensemble, setEnsemble] = useState<EnsembleSettings>(loadEnsemble);
+  const [contextCues, setContextCues] = useState<ContextCue[]>(loadContextCues);
+  const [calibration, setCalibration] = useState<CalibrationProfile | null>(loadCalibration);
+  const detectorRef = useRef<DetectorClient | null>(null);
   const redactedTextareaRef = useRef<HTMLTextAreaElement>(null);
   const { toast } = useToast();
 
@@ -56,21 +84,61 @@ export function PIIDetector() {
   }, [activeTab]);
 
   useEffect(() => {
-    detectorRef.current = new BrowserPIIDetector();
+    // Detection runs in a Web Worker so long documents don't freeze the page
+    const detector = new DetectorClient();
+    detectorRef.current = detector;
+    return () => detector.terminate();
+  }, []);
+
+  useEffect(() => {
+    // Models deployed under /models/ alongside the hub ones
+    loadBundledModels().then(bundled => {
+      if (bundled.length) setModels([...NER_MODELS, ...bundled]);
+    });
   }, []);
 
+  const modelOptions = modelFolder ? [...models, modelFolder.model] : models;
+  const chosenModels = modelIds
+    .map(id => modelOptions.find(m => m.id === id))
+    .filter((m): m is NerModel => m !== undefined);
+  if (chosenModels.length === 0) chosenModels.push(DEFAULT_MODEL);
+  const chosenModel = chosenModels[0];
+  const modelNames = (ids: string[]) => ids.map(id => loadedModels.find(m => m.id === id)?.name ?? id).join(', ');
+
+  const handleModelFolder = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    if (picked.length === 0) return;
+    try {
+      const folder = folderModel(picked);
+      setModelFolder(folder);
+      // A new folder replaces the previous one and becomes the primary model
+      setModelIds(ids => [folder.model.id, ...ids.filter(id => !modelFolder || id !== modelFolder.model.id)]);
+    } catch (error) {
+      toast({
+        title: 'Model Folder Rejected',
+        description: error instanceof Error ? error.message : 'Failed to read model folder',
+        variant: 'destructive',
+      });
+    }
+  };
+
   const handleInitialize = async () => {
     if (!detectorRef.current) return;
     
+    const models = chosenModels;
     setIsInitializing(true);
     setInitProgress(0);
     try {
-      await detectorRef.current.initialize((progress) => {
-        setInitProgress(Math.round(progress));
-      });
+      await detectorRef.current.initialize(
+        models.map(model => ({ model, files: model.source === 'folder' ? modelFolder?.files : undefined })),
+        (progress) => setInitProgress(Math.round(progress)),
+      );
+      saveModelChoice(models);
+      setLoadedModels(models);
       toast({
         title: 'AI Model Ready',
-        description: 'PII detection model loaded successfully',
+        description: `${models.map(m => m.name).join(' + ')} loaded successfully`,
         duration: 3000,
       });
     } catch (error) {
@@ -98,12 +166,17 @@ export function PIIDetector() {
     }
 
     setIsDetecting(true);
+    setDetectProgress(0);
     try {
       if (!detectorRef.current) {
         throw new Error('Detector not initialized');
       }
 
-      const entities = await detectorRef.current.detectAll(inputText);
+      const entities = await detectorRef.current.detectAll(
+        inputText,
+        { locales: activeLocales, customRules, dictionary, roster: roster ?? undefined, ensemble, contextCues, calibration },
+        (progress) => setDetectProgress(Math.round(progress)),
+      );
       setDetectedEntities(entities);
       setSelectedEntities(new Set(entities.map((_, i) => i)));
       
@@ -113,6 +186,8 @@ export function PIIDetector() {
         duration: 3000,
       });
     } catch (error) {
+      // Cancelled because the input changed: the results would be stale, nothing to report
+      if (error instanceof DetectionCancelledError) return;
       const errorMessage = error instanceof Error ? error.message : 'Failed to detect PII';
       toast({
         title: 'Detection Failed',
@@ -185,24 +260,10 @@ export function PIIDetector() {
 
   const handleUnredact = () => {
     if (useSemantic) {
-      // Semantic unredaction uses the map stored in redactionMap (Record format)
-      let result = redactedText;
-      Object.entries(redactionMap).forEach(([key, entry]) => {
-        // Replace all variants: [LABEL_ID:FULL], [LABEL_ID:FIRST], [LABEL_ID:LAST]
-        const fullPattern = `[${key}:FULL]`;
-        result = result.split(fullPattern).join(entry.full);
-        
-        if ('first' in entry) {
-          const firstPattern = `[${key}:FIRST]`;
-          result = result.split(firstPattern).join(entry.first);
-        }
-        
-        if ('last' in entry) {
-          const lastPattern = `[${key}:LAST]`;
-          result = result.split(lastPattern).join(entry.last);
-        }
-      });
-      
+      // Semantic unredaction restores every placeholder variant (FULL, FIRST, LAST, INITIALS, NICK…)
+      // from the embedded front-matter map, falling back to the map in state
+      const { unredacted: result } = unredactTextSemantic(redactedText, redactionMap);
+
       setRedactedText(result);
       toast({
         title: 'Unredaction Complete',
@@ -281,6 +342,27 @@ export function PIIDetector() {
     });
   };
 
+  const handleRosterUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const parsed = parseRosterCsv(await file.text());
+      setRoster(parsed);
+      toast({
+        title: 'Roster Loaded',
+        description: `${parsed.records.length} known people/entities will always be redacted`,
+        duration: 3000,
+      });
+    } catch (error) {
+      toast({
+        title: 'Import Failed',
+        description: error instanceof Error ? error.message : 'Failed to read roster',
+        variant: 'destructive',
+      });
+    }
+  };
+
   const handleCopy = () => {
     navigator.clipboard.writeText(redactedText);
     toast({
@@ -609,6 +691,7 @@ export function PIIDetector() {
           return;
         }
         
+        detectorRef.current?.cancel();  // a detection of the previous text is now stale
         setInputText(content);
         toast({
           title: 'File Loaded',
@@ -640,18 +723,45 @@ export function PIIDetector() {
       'PERSON': 'bg-red-500',
       'EMAIL': 'bg-orange-500',
       'PHONE': 'bg-yellow-500',
+      'IP_ADDRESS': 'bg-stone-500',
+      'URL': 'bg-stone-600',
+      'HANDLE': 'bg-stone-700',
       'ABN': 'bg-green-500',
       'TFN': 'bg-blue-500',
+      'ACN': 'bg-emerald-500',
+      'ARBN': 'bg-emerald-600',
+      'ARSN': 'bg-emerald-700',
       'MEDICARE': 'bg-indigo-500',
+      'CRN': 'bg-indigo-600',
+      'DVA': 'bg-indigo-700',
+      'IHI': 'bg-violet-500',
       'CREDIT_CARD': 'bg-purple-500',
       'BANK_ACCT': 'bg-pink-500',
       'BSB': 'bg-pink-600',
+      'IBAN': 'bg-pink-700',
+      'SWIFT_BIC': 'bg-pink-800',
+      'USI': 'bg-lime-600',
+      'SPIN': 'bg-lime-700',
+      'SUPER_MEMBER': 'bg-lime-800',
+      'HIN': 'bg-sky-600',
+      'SRN': 'bg-sky-700',
+      'INVESTMENT_ACCT': 'bg-sky-800',
       'LOC': 'bg-cyan-500',
       'ORG': 'bg-teal-500',
       'ADDRESS': 'bg-blue-600',
       'AFSL': 'bg-green-600',
       'AR': 'bg-green-700',
       'DOB': 'bg-red-600',
+      'AGE': 'bg-red-400',
+      'DRIVERS_LICENCE': 'bg-amber-600',
+      'LICENCE_CARD': 'bg-amber-700',
+      'PASSPORT': 'bg-rose-500',
+      'IRD': 'bg-fuchsia-500',
+      'NHI': 'bg-fuchsia-600',
+      'NINO': 'bg-slate-500',
+      'NHS': 'bg-slate-600',
+      'SSN': 'bg-zinc-500',
+      'ITIN': 'bg-zinc-600',
     };
     return colors[label] || 'bg-gray-500';
   };
@@ -728,14 +838,15 @@ export function PIIDetector() {
                   variant="ghost"
                   size="sm"
                   onClick={async () => {
+                    if (!detectorRef.current) return;
                     try {
                       const { runEval } = await import('@/lib/pii/evaluate/harness');
                       toast({
                         title: 'Running Evaluation',
-                        description: 'Testing detection accuracy...',
+                        description: `Testing detection accuracy with ${loadedModels.map(m => m.name).join(' + ')}...`,
                         duration: 2000,
                       });
-                      const res = await runEval();
+                      const res = await runEval(detectorRef.current, ensemble);
                       console.table(res);
                       const passing = res.filter(r => r.ok).length;
                       toast({
@@ -745,6 +856,7 @@ export function PIIDetector() {
                       });
                       alert(`Eval complete: ${passing}/${res.length} passing\n\nCheck console for details.`);
                     } catch (error) {
+                      if (error instanceof DetectionCancelledError) return;  // a detection started meanwhile
                       toast({
                         title: 'Evaluation Failed',
                         description: error instanceof Error ? error.message : 'Unknown error',
@@ -766,7 +878,58 @@ export function PIIDetector() {
               <AlertCircle className="h-5 w-5 text-muted-foreground" />
               <div className="flex-1">
                 <p className="text-sm font-medium">AI Model Not Loaded</p>
-                <p className="text-xs text-muted-foreground">Initialize the AI model to start detecting PII (one-time download ~50MB)</p>
+                <p className="text-xs text-muted-foreground">
+                  {chosenModel.source === 'hub'
+                    ? 'Initialize the AI model to start detecting PII (one-time download, then cached in this browser)'
+                    : 'Initialize the AI model to start detecting PII (loaded locally, nothing is downloaded)'}
+                </p>
+                <div className="mt-2 flex flex-wrap items-center gap-2">
+                  <select
+                    value={chosenModel.id}
+                    onChange={e => setModelIds(ids => [e.target.value, ...ids.slice(1).filter(id => id !== e.target.value)])}
+                    className="flex h-9 rounded-md border border-input bg-background px-3 py-1 text-sm"
+                    title={chosenModel.description}
+                  >
+                    {modelOptions.map(m => (
+                      <option key={m.id} value={m.id}>
+                        {m.name}{m.source === 'hub' ? '' : m.source === 'bundled' ? ' (bundled)' : ' (local folder)'}
+                      </option>
+                    ))}
+                  </select>
+                  <label htmlFor="model-folder">
+                    <Button variant="outline" size="sm" asChild>
+                      <span className="cursor-pointer flex items-center gap-2">
+                        <Upload className="h-4 w-4" />
+                        Load Model Folder
+                      </span>
+                    </Button>
+                    <input
+                      id="model-folder"
+                      type="file"
+                      // Not in React's input props: lets the picker choose a directory
+                      ref={el => el?.setAttribute('webkitdirectory', '')}
+                      onChange={handleModelFolder}
+                      className="hidden"
+                    />
+                  </label>
+                </div>
+                <p className="mt-1 text-xs text-muted-foreground">{chosenModel.description}</p>
+                {modelOptions.length > 1 && (
+                  <div className="mt-2 flex flex-wrap items-center gap-4">
+                    <span className="text-xs font-medium" title="Run several models and keep what enough of them agree on">Also run</span>
+                    {modelOptions.filter(m => m.id !== chosenModel.id).map(m => (
+                      <label key={m.id} className="flex items-center gap-2 text-xs cursor-pointer" title={m.description}>
+                        <input
+                          type="checkbox"
+                          checked={modelIds.slice(1).includes(m.id)}
+                          onChange={e => setModelIds(ids => e.target.checked ? [...ids, m.id] : ids.filter(id => id !== m.id))}
+                          className="h-4 w-4 rounded border-gray-300"
+                        />
+                        <span>{m.name}</span>
+                      </label>
+                    ))}
+                  </div>
+                )}
               </div>
               <Button onClick={handleInitialize}>
                 Initialize AI Model
@@ -776,7 +939,7 @@ export function PIIDetector() {
 
           {isInitializing && (
             <div className="space-y-2">
-              <p className="text-sm text-muted-foreground">Downloading AI model... {initProgress}%</p>
+              <p className="text-sm text-muted-foreground">Loading {chosenModels.map(m => m.name).join(' + ')}... {initProgress}%</p>
               <Progress value={initProgress} />
             </div>
           )}
@@ -784,15 +947,24 @@ export function PIIDetector() {
           {initProgress > 0 && !isInitializing && (
             <div className="flex items-center gap-2 p-3 border rounded-lg bg-green-50 dark:bg-green-950">
               <CheckCircle2 className="h-5 w-5 text-green-600 dark:text-green-400" />
-              <p className="text-sm font-medium text-green-600 dark:text-green-400">AI Model Ready</p>
+              <p className="flex-1 text-sm font-medium text-green-600 dark:text-green-400">
+                AI Model Ready{loadedModels.length > 0 && ` - ${loadedModels.map(m => m.name).join(' + ')}`}
+              </p>
+              <Button variant="ghost" size="sm" onClick={() => setInitProgress(0)} disabled={isDetecting}>
+                Change Model
+              </Button>
             </div>
           )}
 
           {initProgress > 0 && !isInitializing && (
             <Tabs value={activeTab} onValueChange={setActiveTab} className="mt-6">
-              <TabsList className="grid w-full grid-cols-3">
+              <TabsList className="grid w-full grid-cols-7">
                 <TabsTrigger value="redact">Redaction</TabsTrigger>
                 <TabsTrigger value="unredact">Unredaction</TabsTrigger>
+                <TabsTrigger value="rules">Custom Rules</TabsTrigger>
+                <TabsTrigger value="dictionary">Allow/Deny</TabsTrigger>
+                <TabsTrigger value="context">Context Cues</TabsTrigger>
+                <TabsTrigger value="calibration">Calibration</TabsTrigger>
                 <TabsTrigger value="info">How It Works</TabsTrigger>
               </TabsList>
 
@@ -831,6 +1003,62 @@ export function PIIDetector() {
                           </span>
                         </label>
                       </div>
+                      <div className="space-y-1">
+                        <span className="text-sm font-medium">Identifier packs</span>
+                        <div className="flex flex-wrap gap-4">
+                          {Object.values(LOCALE_PACKS).map(pack => (
+                            <label key={pack.id} className="flex items-center gap-2 text-sm cursor-pointer" title={pack.labels.join(', ')}>
+                              <input
+                                type="checkbox"
+                                checked={activeLocales.includes(pack.id)}
+                                onChange={e => {
+                                  const next = e.target.checked
+                                    ? [...activeLocales, pack.id]
+                                    : activeLocales.filter(id => id !== pack.id);
+                                  setActiveLocales(next);
+                                  saveActiveLocales(next);
+                                }}
+                                className="h-4 w-4 rounded border-gray-300"
+                              />
+                              <span>{pack.name}</span>
+                            </label>
+                          ))}
+                        </div>
+                      </div>
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="text-sm font-medium">Client roster</span>
+                        {roster ? (
+                          <>
+                            <span className="text-sm text-muted-foreground">
+                              {roster.records.length} records
+                              {roster.ignoredColumns.length > 0 && ` (ignored: ${roster.ignoredColumns.join(', ')})`}
+                            </span>
+                            <Button variant="ghost" size="sm" onClick={() => setRoster(null)}>
+                              <X className="h-4 w-4" />
+                            </Button>
+                          </>
+                        ) : (
+                          <label htmlFor="roster-upload">
+                            <Button variant="outline" size="sm" asChild>
+                              <span className="cursor-pointer flex items-center gap-2">
+                                <Upload className="h-4 w-4" />
+                                Import CSV
+                              </span>
+                            </Button>
+                            <input id="roster-upload" type="file" accept=".csv,text/csv" onChange={handleRosterUpload} className="hidden" />
+                          </label>
+                        )}
+                      </div>
+                      {loadedModels.length > 1 && (
+                        <EnsembleEditor
+                          models={loadedModels}
+                          settings={ensemble}
+                          onChange={settings => {
+                            setEnsemble(settings);
+                            saveEnsemble(settings);
+                          }}
+                        />
+                      )}
                     </div>
 
                     <div className="space-y-2">
@@ -842,6 +1070,7 @@ export function PIIDetector() {
                               variant="ghost" 
                               size="sm"
                               onClick={() => {
+                                detectorRef.current?.cancel();  // its result would land on the cleared text
                                 setInputText('');
                                 setDetectedEntities([]);
                                 setSelectedEntities(new Set());
@@ -870,7 +1099,11 @@ export function PIIDetector() {
                       </div>
                       <Textarea
                         value={inputText}
-                        onChange={(e) => setInputText(e.target.value)}
+                        onChange={(e) => {
+                          // Editing the text makes an in-flight detection stale
+                          if (isDetecting) detectorRef.current?.cancel();
+                          setInputText(e.target.value);
+                        }}
                         placeholder="Paste or type text containing potential PII..."
                         className="min-h-[200px] font-mono text-sm"
                       />
@@ -883,6 +1116,12 @@ export function PIIDetector() {
                     >
                       {isDetecting ? 'Detecting PII...' : 'Detect PII'}
                     </Button>
+                    {isDetecting && (
+                      <div className="space-y-1">
+                        <p className="text-xs text-muted-foreground">Analysing text... {detectProgress}%</p>
+                        <Progress value={detectProgress} />
+                      </div>
+                    )}
                   </CardContent>
                 </Card>
 
@@ -920,9 +1159,25 @@ export function PIIDetector() {
                                 <code className="text-sm bg-muted px-2 py-1 rounded">
                                   {entity.text}
                                 </code>
+                                {entity.agreed && (
+                                  <span className="text-xs text-muted-foreground" title={`Found by ${modelNames(entity.agreed)}`}>
+                                    {entity.agreed.length}/{loadedModels.length} models
+                                  </span>
+                                )}
+                                {entity.metadata?.age !== undefined && (
+                                  <span className="text-xs text-muted-foreground">
+                                    age {entity.metadata.age}
+                                  </span>
+                                )}
                               </div>
                               {entity.score !== undefined && entity.score < 1 && (
-                                <span className="text-xs text-muted-foreground">
+                                <span
+                                  className="text-xs text-muted-foreground"
+                                  title={[
+                                    entity.model && `Detected by ${entity.model}`,
+                                    entity.metadata?.context && `Context: ${entity.metadata.context.join(', ')}`,
+                                  ].filter(Boolean).join('\n') || undefined}
+                                >
                                   {Math.round(entity.score * 100)}% confidence
                                 </span>
                               )}
@@ -1154,6 +1409,53 @@ export function PIIDetector() {
                 )}
               </TabsContent>
 
+              {/* CUSTOM RULES TAB */}
+              <TabsContent value="rules" className="space-y-6 mt-6">
+                <CustomRulesEditor
+                  rules={customRules}
+                  onChange={rules => {
+                    setCustomRules(rules);
+                    saveCustomRules(rules);
+                  }}
+                />
+              </TabsContent>
+
+              {/* ALLOW/DENY TAB */}
+              <TabsContent value="dictionary" className="space-y-6 mt-6">
+                <DictionaryEditor
+                  entries={dictionary}
+                  onChange={entries => {
+                    setDictionary(entries);
+                    saveDictionary(entries);
+                  }}
+                />
+              </TabsContent>
+
+              {/* CONTEXT CUES TAB */}
+              <TabsContent value="context" className="space-y-6 mt-6">
+                <ContextCuesEditor
+                  cues={contextCues}
+                  onChange={cues => {
+                    setContextCues(cues);
+                    saveContextCues(cues);
+                  }}
+                />
+              </TabsContent>
+
+              {/* CALIBRATION TAB */}
+              <TabsContent value="calibration" className="space-y-6 mt-6">
+                <CalibrationPanel
+                  detector={detectorRef.current}
+                  models={loadedModels.map(model => model.id)}
+                  options={{ ensemble, contextCues }}
+                  profile={calibration}
+                  onChange={profile => {
+                    setCalibration(profile);
+                    saveCalibration(profile);
+                  }}
+                />
+              </TabsContent>
+
               {/* HOW IT WORKS TAB */}
               <TabsContent value="info" className="space-y-6 mt-6">
                 <Card>
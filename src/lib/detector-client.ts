@@ -0,0 +1,130 @@
+import type { DetectOptions } from './pii-detector';
+import { DEFAULT_MODEL, type ModelFiles } from './ner-models';
+import type { DetectorRequest, DetectorResponse } from './detector-protocol';
+import type { Entity } from './pii/types';
+import type { CalibrationProfile } from './pii/calibration';
+import type { AnnotatedDocument } from './pii/evaluate/calibrate';
+
+/** Rejection reason when a detection was cancelled, so callers can tell it from a failure. */
+export class DetectionCancelledError extends Error {
+  constructor() {
+    super('Detection cancelled');
+    this.name = 'DetectionCancelledError';
+  }
+}
+
+interface Pending {
+  resolve: (value: unknown) => void;
+  reject: (reason: Error) => void;
+  onProgress?: (progress: number) => void;
+}
+
+/**
+ * Main-thread handle on detector.worker.ts. Same calls as BrowserPIIDetector, but
+ * detection runs in the worker; a new detectAll() or calibrate() cancels the one in flight.
+ */
+export class DetectorClient {
+  private worker = new Worker(new URL('./detector.worker.ts', import.meta.url), { type: 'module' });
+  private pending = new Map<number, Pending>();
+  private nextId = 1;
+  private activeDetect: number | null = null;
+
+  constructor() {
+    this.worker.onmessage = (event: MessageEvent<DetectorResponse>) => this.receive(event.data);
+    this.worker.onerror = (event) => {
+      // The worker itself failed (script error): nothing in flight can finish
+      const error = new Error(event.message || 'Detection worker failed');
+      this.pending.forEach(p => p.reject(error));
+      this.pending.clear();
+      this.activeDetect = null;
+    };
+  }
+
+  /**
+   * Loads models in the worker, replacing any others; progress is 0..100.
+   * Primary first; more than one makes detectAll() vote across them.
+   */
+  initialize(models: ModelFiles[] = [{ model: DEFAULT_MODEL }], onProgress?: (progress: number) => void): Promise<void> {
+    this.cancel();  // results from the old models would arrive after the switch
+    return this.request<void>({ type: 'init', id: this.nextId++, models }, onProgress);
+  }
+
+  /** Progress is the percentage of text chunks the model has processed. */
+  detectAll(text: string, options: DetectOptions = {}, onProgress?: (progress: number) => void): Promise<Entity[]> {
+    this.cancel();
+    const id = this.nextId++;
+    this.activeDetect = id;
+    return this.request<Entity[]>({ type: 'detect', id, text, options }, onProgress);
+  }
+
+  /**
+   * Fits a calibration profile on an annotated corpus with the models loaded in the
+   * worker; progress is the percentage of documents run.
+   */
+  calibrate(
+    corpus: AnnotatedDocument[],
+    targetRecall: number,
+    options: DetectOptions = {},
+    onProgress?: (progress: number) => void,
+  ): Promise<CalibrationProfile> {
+    this.cancel();
+    const id = this.nextId++;
+    this.activeDetect = id;
+    return this.request<CalibrationProfile>({ type: 'calibrate', id, corpus, targetRecall, options }, onProgress);
+  }
+
+  /** Stops the detection or calibration in flight (its promise rejects with DetectionCancelledError). */
+  cancel(): void {
+    if (this.activeDetect === null) return;
+    const id = this.activeDetect;
+    this.activeDetect = null;
+    this.worker.postMessage({ type: 'cancel', id } satisfies DetectorRequest);
+    // Settle now: the worker only notices between chunks, and the caller has moved on
+    this.pending.get(id)?.reject(new DetectionCancelledError());
+    this.pending.delete(id);
+  }
+
+  terminate(): void {
+    this.worker.terminate();
+    this.pending.forEach(p => p.reject(new DetectionCancelledError()));
+    this.pending.clear();
+  }
+
+  private request<T>(message: DetectorRequest, onProgress?: (progress: number) => void): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.pending.set(message.id, { resolve: resolve as (value: unknown) => void, reject, onProgress });
+      this.worker.postMessage(message);
+    });
+  }
+
+  private receive(message: DetectorResponse): void {
+    const pending = this.pending.get(message.id);
+    if (!pending) return; // cancelled already
+
+    switch (message.type) {
+      case 'init-progress':
+        pending.onProgress?.(message.progress);
+        return;
+      case 'detect-progress':
+        pending.onProgress?.(message.total ? (message.done / message.total) * 100 : 0);
+        return;
+      case 'ready':
+        pending.resolve(undefined);
+        break;
+      case 'result':
+        pending.resolve(message.entities);
+        break;
+      case 'calibration':
+        pending.resolve(message.profile);
+        break;
+      case 'cancelled':
+        pending.reject(new DetectionCancelledError());
+        break;
+      case 'error':
+        pending.reject(new Error(message.message));
+        break;
+    }
+    this.pending.delete(message.id);
+    if (this.activeDetect === message.id) this.activeDetect = null;
+  }
+}
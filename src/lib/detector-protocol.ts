@@ -0,0 +1,23 @@
+import type { DetectOptions } from './pii-detector';
+import type { ModelFiles } from './ner-models';
+import type { Entity } from './pii/types';
+import type { CalibrationProfile } from './pii/calibration';
+import type { AnnotatedDocument } from './pii/evaluate/calibrate';
+
+// Messages between DetectorClient (main thread) and detector.worker.ts.
+// Every request carries an id; every response echoes the id it belongs to.
+
+export type DetectorRequest =
+  | { type: 'init'; id: number; models: ModelFiles[] }  // primary first
+  | { type: 'detect'; id: number; text: string; options: DetectOptions }
+  | { type: 'calibrate'; id: number; corpus: AnnotatedDocument[]; targetRecall: number; options: DetectOptions }
+  | { type: 'cancel'; id: number };  // id of the detect or calibrate request to stop
+
+export type DetectorResponse =
+  | { type: 'init-progress'; id: number; progress: number }          // 0..100
+  | { type: 'ready'; id: number }
+  | { type: 'detect-progress'; id: number; done: number; total: number }  // model chunks; documents when calibrating
+  | { type: 'result'; id: number; entities: Entity[] }
+  | { type: 'calibration'; id: number; profile: CalibrationProfile }
+  | { type: 'cancelled'; id: number }
+  | { type: 'error'; id: number; message: string };
@@ -0,0 +1,64 @@
+import { BrowserPIIDetector } from './pii-detector';
+import type { DetectorRequest, DetectorResponse } from './detector-protocol';
+import { runCalibration } from './pii/evaluate/calibrate';
+
+// Runs the model and every regex pass off the main thread, so long statements
+// don't freeze the UI. One detector (and its models) per worker; choosing other
+// models replaces it.
+let detector = new BrowserPIIDetector();
+const running = new Map<number, AbortController>();
+// Loads run one at a time: each points the shared transformers env at its own model
+// files, so a second load starting mid-way would fetch the first one's from the wrong place
+let loading: Promise<void> = Promise.resolve();
+
+const send = (message: DetectorResponse) => self.postMessage(message);
+
+async function load(request: Extract<DetectorRequest, { type: 'init' }>): Promise<void> {
+  const ids = (models: { id: string }[]) => models.map(m => m.id).join('\n');
+  if (ids(request.models.map(c => c.model)) !== ids(detector.models) || request.models.some(c => c.files)) {
+    detector = new BrowserPIIDetector(request.models);
+  }
+  try {
+    await detector.initialize(progress => send({ type: 'init-progress', id: request.id, progress }));
+    send({ type: 'ready', id: request.id });
+  } catch (error) {
+    send({ type: 'error', id: request.id, message: error instanceof Error ? error.message : 'Failed to load AI model' });
+  }
+}
+
+self.onmessage = async (event: MessageEvent<DetectorRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'cancel') {
+    running.get(request.id)?.abort();
+    return;
+  }
+
+  if (request.type === 'init') {
+    loading = loading.then(() => load(request));
+    return;
+  }
+
+  const controller = new AbortController();
+  running.set(request.id, controller);
+  const control = {
+    signal: controller.signal,
+    onProgress: (done: number, total: number) => send({ type: 'detect-progress', id: request.id, done, total }),
+  };
+  try {
+    if (request.type === 'calibrate') {
+      // Fitted on the models loaded here, so the profile matches the scores detection sees
+      const profile = await runCalibration(detector, request.corpus, request.targetRecall, request.options, control);
+      send(controller.signal.aborted ? { type: 'cancelled', id: request.id } : { type: 'calibration', id: request.id, profile });
+      return;
+    }
+    const entities = await detector.detectAll(request.text, request.options, control);
+    send(controller.signal.aborted ? { type: 'cancelled', id: request.id } : { type: 'result', id: request.id, entities });
+  } catch (error) {
+    send(controller.signal.aborted
+      ? { type: 'cancelled', id: request.id }
+      : { type: 'error', id: request.id, message: error instanceof Error ? error.message : 'Failed to detect PII' });
+  } finally {
+    running.delete(request.id);
+  }
+};
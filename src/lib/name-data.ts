@@ -0,0 +1,3883 @@
+// Bundled offline name lists: gzip-compressed, base64-encoded text of lowercase names
+// separated by spaces, most common first. A name's frequency rank is its position, so
+// no per-name numbers are stored.
+//   FIRST_NAMES_GZ: the 8,000 given names with the most US Social Security birth
+//     registrations 1930-2013, male and female counts combined (public domain,
+//     via the gender-guess 1.0.4 package)
+//   LAST_NAMES_GZ: all 88,799 surnames of the 1990 US Census, in census rank order
+//     (public domain, via the node-random-name 1.0.1 package)
+// Bump NAME_DATA_VERSION whenever either list is regenerated.
+export const NAME_DATA_VERSION = '2';
+
+export const FIRST_NAMES_GZ = `
+H4sIAAAAAAACA02dCZLjSK5Er6KrhcRIMcRNw0VZ1Ok//DmY/c3GprurMiUyFiwOh2Nqj77U8fYqU91u63Kv6357Lf1868qndbffNo6tTLeprOdt1Q+vXfz9
+Vt/97dGvbduXd1/X294vU9nil+YWn6YfG+PzprLvff29vcsev9vK7VXnuf3Ez49t7oo+dbjdyxr/K7cyx4fM523b66fOtzq2b7nXvY+/6Nb4kPjW/ii3+9pK
+PN0yl7G7DfXT5vj4Y4x/nWf99HZs8fd7m5a9j0f2z73qtrVHfH/Zlvk2lDW+4FV/ftZ6xqNs5TaX+RFfHc/R39YzPuCpF67dr973WZf1WeNv40HKrcar3OZY
+imWMNy5bP8aHvMpjud+GNsUCjrxDLMt8m+LH6jjWePi57L0ffC63sazx8Y+yLuNteyz7fitT0Yq8jm2PN5ri7bd4rDq1+LT7Gn8Xz93V+6IH5NO10rctFjr+
+Yq33+ojXe671ueiDz1jLxvrGe9Q9vu/QCk/xWXXfz1iBPR47HrDMzzqW3KDYizrHSYgHuMcKxeNsZTpiPztt2xYrpqd+x1GJX9nPMfYx1mGJ1ytj/RfPGH+w
+9W3VgvzEMw964vjetZzTMnf6NG1yib0a47V8ftocv85bdMvx1JL2NZ4uPmotWjxOW6xvbK4X7Iyn7uJIdnEOKm8SOxL/9i06dudt5ylfxxjr8667HtJLH6sR
+a9ItKyejaB+GU3tT4s1fyxqH9++ZSnzX9cFaPJ2X5XzEDx9d23X263qOsU/Por+J//u0x76snPG1TqdPrV5VP75VnclyjssaezrFkizPeLD8Nn1EefwvVlpf
+F09cNx3VWNsaizHH2/R62j4O4qrTrNWO7Sg+K/FEp3aobZUDHHunA6yFWbVWOpJ5MfWycROqXl6LOcZTr882N/3SwbeNVZvf9r3EVaysGzag3n7LqMXUsusA
+/8aaaD3iuFQtrfZ1GdtHnxUXmFugx46NfY4szFS6pusXlkGfpz+83ZtOwnrEGmm59eJ7+/nRl+sFYjfLFIuprdPGv5YqIxVvHZ/9Gwc/Vjle/hzjMcvIW8e/
+3x7rue1l5BDoTmmBtQPaz5uuTCzibzl18uK5D05I0TPtceZi6+7tWdp4uy/3+xmWINZDRm0t7am72Ol8z0vshwxlPGn81kf7MZ66s1yp+N1ZF5Sj9O61gm/u
+xKPKSsajj4uOjv4q/iYWTK+3L113eyydViS2aRzjM22RddRjD+PLSnyUVvHVtDDPeOAav3Ks+xxPFdbwUeewJqPOzrrIxkxVl0s2srDnyxbX4vmMZYtzlMeW
+Bdbn8NC/Vav6aPr/OHBh6lfdwS1MfSzneLSNDY+1DNN5j8cs2phRVyv+6hMfqw/7xDNrPcZFv1CPZ51tKOIpxnq/hUmQSX73p94olkDWUWdrCmvLVSxdfHGn
+98Loz1rbWUavtvjK8o4zIYs+6db4jmuffjGkslG2kJgDGe14/Vim+CrcUxjd2B45HDmCuM1xLvV845/ZjiN6zjKR8VNtiSu21kE+cDjlnF6x/2n24s7FQpTH
+bdB1llUd8XbjMVS7M63X44gj0uG9wk+En/ryNvGcev5+wdWs4QJxjN7iOAE9rqI/Zl2+uL3xKXG2Z53BuKZh8+OB5a5iLTobhHJ08muySvHB+r7KW8WF4ojH
+qQjfNcpprbWLNQ+DLTO3aPN0WLRUYw2PpQfSasZj/OhH9X8VRzEv68Rx0k6Px6NwJOSMw+Tf48/qGrsfjqfGMj0W+1mFEtzcWWeToza1WCLuReO9HtrrZRlk
+ovR25aNv2fSy8YzxsV0XvzXYSCt0WPG9g5ZLpzeO8m+YFzzyGUbxtp2jTFLsT4sniVOhZ9yKXn+XsYwfi5WyZ+Ec6cVmrL881CiDc4QV2BddtwgI4tflEHRb
+ypYhQXj3G9dgOzmuVab1PpZBL/iUB8Up6An0sPG7HYEL9p/XZn3mTi86YbJYqvDCERrEMa8yh22XjYjLo18tLJ+OafgW2c4lbp9u8Ihfj2M/xlNviogIoqa2
+E4rEOj5lk+LeD+32GIvNeIeDWutnka9YV/0kP9cXfXksid5CB0rXhvsh+6qwqvqkxRHUc8XxGOIGa30HPdt5a9q5sA1h78P2yQIVfHS7laYdUmQTEYJupTzT
+yElbtvjBW9xzvcz5WXSSJ/lhvVscCtxhfOLqy1NYIkWXJZ2k/rjTt8RhDXvRtQxuIwCoOjun3j0ejUhn537KQdkFx24t098xSxNWicp0O7VYs4KjMEvxT5mW
+tVuwoQveRieX7YzX6pawTxExhlGMixdWLkxxe2qnVrybDmH8/lTlErTfBaeoT+Nabke9Lb/VHozVD8sfDx9eMkKW2Iqx04Kll8Kif5r9Pz5FbxYnyiG53o3g
+vbGea0Q9sX/lI/MXq8ON1/fwc7oYinufOg9xDrW18vzEonEsXjr8y3V7H0us84q3klUt+AzSBhIIwsSwqUVXlNgoDPWquOqnKEKa4l7U+etYgth3PCPUuCkO
+KdqrQ//10CWNO9SmitnWnZc1fPjXCC50nJb4/X9xHsNkxm4rmIwIdwvnmWtwyBVpO7X2ca/a7AsRLxuLyuvpMBPE6i+3t27JKiugzZIpxmLES5yR4xB21OpA
+XY51WGS77KhloDudh5Ezd+76Mz0FW8IL/wvDEqscLxYWQ3ey3M5ltB9rWOAwdRzxucRxCkMvExq+X67+2I8pPPGHECj8kVYibGxcCgyg4gRFwrGojyYbZQMQ
+EVAsVRiIe3EEGpcRi3M+fNMcQGg/F79XkyGUc+syjDvCWI+s/VMRA5H5GHYt7EjTptiQcBK5J1oInY2Wce/p+EkH8LjLQ/z2jSgmbiG2YhyXs3PY3oc1ka3/
+hj2+Ox4dtEzvynrWWBFdwdimuNlxnGf+UAfr2RxCxRbFASXYue5KId7TF7Y88g+uzJ24VwHBb5hnxYZaT6ycAounguLaEY6QQrC8cc7iO8McrgrBF5xgHFf9
+4VQcls5aBS1KZA5z2DblrHIfVxjRMnjUj8WSs33h7p6L4x85K440+WgrxHS6yD+6ubEBCp/iPxx8aG2d92zLT/z3D4s5yDM5aotfXwcF9GH0tVdtIyMl8GAZ
+XwpE/UAREER+v/Lr3Mk5ftE5on1NnO24TvqFyEQHObFH7Fk8dveMvG1it4eIvuIb4nceGZe1y8Qq+uAkRALYnRtRNquj0OMRlqA6KdHpiD/Sce28JJHoKxoj
+LpNpD5Ner2yKhCHOrT7t1ALY1ylL8eOzoWFKFeHJh47KzEoiIhmucKM3p3vvKoOnwDU+Pn7yCCd5RDI6Hm8iB2XFEdgQETWyraI9VFp+K37eeCjyan2qXz6C
+sfhtIA6yaWXA5Qsm0+kqnuSC5MxNB8sBkl4uErN44EJ20jmfiWfhGII6nEIndmdcMlmYXQVq/37x774GcYQzXQp79Kn5WFgeGe7wF46cVt8nruOMt5CJqFo2
+xXSHDj/RT8lgPdZsAvGQA9SCFT3uo8bSkCT+YUDx2/E4W41DvYBlDEJhyo+2QRCGb5Ls8GC7sR3TJGtcV++oQgbFhRGdPfs9Pho4g9jbtzweYFfONmKVJr1A
++IhN3lPrc48/eOhRQKtKWI8wj/p0rNtde8rB5TNjTVaMc7zKpjvR1iF+Z+IGRlx0CojS4Y3IrUygMzLWx+n44pRBVP5Twj+cSiLiePbxoW+7hrAPJ68dDtWx
+9oY7fWP/dOyrbZVut1yJXA+wkpZJixtP3iVAlUmb/qEkX9ADgdxjiTO3xvqE2VTw89Qah7WXBT/18friSkygvH4rRN0RUTiKj8MegUzt4x8j9qLoTAsuiVjN
+EaIPQSXek4ENW57+9IrfDRx2LFF4512RYpjb+FetIgc2zE2LMCGuQSaa8SJhb2PRY+PiJGOcZPbGkQTknyzJ48JUIvXlEioIUYAqbENhyT/nRV3x/hSH1k0A
+zb3tWPqKEyk8gOz8aD84YsZBGjvFcpW4SMH6Yh+CAW/AVXJrYVeaYzaFGlv4okWhayNtb34Z3UvBDIoWermHjzOL1imdjy3cZe8NVX5IPp1gFx08sk05MRk5
+WV/dBA6NAMTYLb2xHclD5gkT+F0SDtKJj31Rejyv3NAH9krBJRZRofECYrLi8uX+5wVMbiavU47RtlUX1RBKfFvEZhVrRdKiz5uu0O7pNYpDo/8oioIrtsnW
+rcq9n4Ad2jeCvsp91UP9B8w5ERpwUnHwF0KfdT8UjMZ7/4t9kld/gCqPhQ3UwixKN9nC/nj2giucLRD02v3Ehj4E3CpA28B06uMK4bWoMjvhXfz9xIgsUn6M
+FnZtx+YYliuhJWHVtdaxYJP813mlq3Ullyrai1+d4kf9i6xLRuI6PnqccP2fmpkhYXghMme9BM5G4Hoqk5Lni4uJPT+1CZnKL/zuYVQ+3vWnnNVBf8d3rEti
+1Wv9ZwxxJ5AeyTNZ/bhLp05R2ZfT4Qe/CRZHwM8ez4I2p7PYiMmbgQgPTfsRiZWML5jl4nSuyQLsMh4yA+1KHJqeTkH7WMOqh3vw9ZWZFST1Knxl4hFNcEQ8
+tBYWSN4oltycEaJ4qyJUKczMGNb79r+jzbLEylBZXV175VrbobcYm5d5IK5fVrIe2UZeOHaMsDdiNJs/xczAZbEgRF8dgVLdJpLRwjOdAA+fEu9NSKKrC0K2
+8iWTH3DknirV1Z0ij93AQIX1N13BGfvLfYk4IkydAkRHbPK4+g1g3TH+lPx8BOVeehuoLt1zlmTmNggIKPykrLUj1jHSeA4O0byMYvm3GAvWfQGCjg97xjVJ
+rGexnQCmnwTQTYvMxq3eBbKtRUUdQR1O8R545ok46FF4mVirR+30eZeXwpZhylwJisV+KTBhCd7lHrZ/yIP5Kl/t8giePOrrz7rVmUBYbxbRRSUI2MPLXYWa
+enpHdkEnkYtjReM0TexeGMldJQSFzPgJr/lofOlbAO90zXdOwUBA+2wbl0hbp1wrHuJmiFSHprO5rwlNgyLs9QdvIYTpetAiCAkAbXUm4bpQxUts5YKrXPF5
+3pYd6I7wCi+MtVo5mqNtf5PPGytxS9f+xUc2hatlMnwflqePxI1ERx5WZk3mG9chsNd1Fd0nR+5VCLdwjqlUGyotjdZEVRCSWJ40rNEsqE5PRGy7AnC+M0Ib
+D7Jz/fig6AV7qXVWTUzuT2jLVHes6jMWoXwuxEGJT1HkFrnvqcwvQoG3VmjBeLr2pSesB5FqZGH2QsokFKf2TTezv4DlK8BgDeLux3dtl/Eucu/UsCaCwclx
+wTvCtp845doofd8Ra7/b+7NXP8u8LXk08XWtZFVrFGi1vh3EEsM6cH+VM9NSbrfqmrK4iq/CZPy7fqRelSqjDNeS3ZxoD9U7EEFF+ERtsy2SEMeWTlE/F7nF
+SjhDraVQ7Hqu7eenOYPonOUDn06FOqB2mKpD56LMtoyx60q45RsUk+1lx3KqdBlhEcZY9nuoNVH9Vdfw6aBXuxXxyNDYsfj8msgUn0HgAP4G5mS0U2B4pws3
+OUZ96zHkUXALsRyyPx0ovK6rnq3wGiResnAK2pS8zsBkF4gbXw5Q4F3PpD9c2b4qCnmVuCTOFW9GQ1RblD0kMIoFAY6LDxrkSuNhfpbbfjwGwljXYLry7hW6
+G/ekwH2r3XToSurmCO69ZVYQManvchyUg+daxicPyZWQ4eiL4QT5AjlJyjDgW709vKCGdpWNM4jVSSZ8UDqvkimVj+XXntLubFG0H383CL3rsfiOyiiZUKar
+BmlUTLlKyU+VkyL1oGikzF3gf6YqTam5a8A9J/zXcAmlxe3CKrVCv+nBjbCFlRt15XD1ERaEjdvjo/6Rza6PPgs8U5YVhJu4nELgHpk15bG0tZUcTj5a3myI
+TJq0Nb2t7qBi2xEvKMfwe1YKY8pcsL+yV22OIA6Lem9XbUi7KDMZD7iFTdqbSyMqBESeGoctEWv9IUZxNfar33weylHWyZ6McoVzHx/Q9K2g2cDyESyozF5Z
+t4fRps0WL9Le4/ZuMiqU0IHlhH/We+JCYR7rtw5UM23aQfa4K2x9LPU+uhoghLZfFO/Gio4XMqUkoX7JjE7f60k1m5euyA+hS4S1Am/W2jqCLG2z05xxOXTE
+5noVQh965nknOKTSksSGCAlHsqVMu+KPf5Wn7pQ8iSEc21biHrDpeFC9gJYu9uipgB6iSWxU3A95j/GIu34DXO2wxHGyCyyMSXVyOf44G6qSvuqv6ogXcFhn
+IJg4jHFPq3GWSCCWK7/jzK0mnsj/EdzuZTVCcz9W6iEUfRSY9Ib95KFfrudrmVjEuUVoGDGDK22dLt2m7UwsT2Fy86WfjV+Ox1fRIyW+RQkfvuo+AmeAz8Xe
+foWL18KFG67kONZobcLYCAMg75hAIbDnx+48EoUquKvpXHOZI2ig+OS6TEfZe7A5w70Cp8XJv+lOqv78IFjeZPGF8BsYdcjvsEHrV104jAut5BbLWIBAjXMp
+qosfH2/lHwe3c9wlL30oJOC44vDbnSq0wt04i7rZ7evql4I9PSll0wj0IlV8yUuKhyE3teMXB3su7U0xF4IQSWWPhDINbfzvgH5xF9ZYBIFifcPKvful3imI
+aU9lZZcZbo+qXQRsIrnE4tevklR8qA5SGFXg3YhAHUtRnxD0F+bNqIUzEJsbFdqTmGGw/WLyCBSm9qYUTcc29lcLNVLn0WPs4XPCPsWzqkwsaEfMpmVclIRd
+QRvkmTj5QhQ6HVSn9nqZyk24YA/98AQDxJliGPgwPYr0BVLMu6MM7WukD9xPB5zvoshO++BzVa4Mk+QUkpIZBBQh4rLEIl136Be7qhOo4qT+rJh2ElHN6ZA4
+vJwukKrYoLKyDloTk69KFsrWsItCre94URV2I7xwoFSwJB9FyTNVKIe88SjktkTw6/ETViV+jYsVdmb/j6mg3Vs21/CEkOhSPdbjS/UMeEGJ+1Wx+2nKLlhG
+Dl1YlEO330nj7FBKJ63y1FRhulopS2pXu275J7u7KNSI+GfzsuzlrrDO3KDbdIATY6UKKwyqyj8FkoCDYQkFM1yVUDkpZ39T1f5FdHdMN5h5sj+Fv8TQZKVr
+phouYtxMHBMuFWesk7I1/t7VJUG9y28stBhOjbpnpKKkCAZ+9GA67BEcKGHj5i6Px3I7ndBPTr6UicY+ZPA2G1Ooifzqax+6DDxnuBWdEwh3XD0gg1nYwKmK
+2MKjZejKF1PSErivnYQWFyZpw/k1woW4sOFO9TsOqe8qsgjA2Kk0P0Yj9xsnF5sfFwNsA7qclrTPgy0rvR6Ct5Vbq6IUawTbQwkiiKx+zVWi2QDJxL1ciayH
+WoD+I6TRxXYZOPOXav4NsHusUqzRA1hA6U/EHnPyAuElEKQfuvR9nKyqJxhO4KIk2RiWjwAvFmd5F5VFlC4DGekUmWTzCePcp8N4EmKdLszq1455mJff+S8P
+FxqoHM6W4pwMsXRGLNckOq4JTJgnKQsF9lR1ou4iISrYG1m5zNAVfZ9wrIxsPhSggrL8lnGgIvL0OU/2oqlA2pXuCBcqhglhRhduUgFRud9xILGeP6IeCIEj
+pe7NCuNgyI6cm7Nt0Xx4zk8TMavaN/cmc2k3DgUEc8bWkQbdT+AgRVZiK5F7F4gWShUUQRtSDZ+kj3+Vz+IkRnhxHKXMLHTdXAb5UrBNZ1uhxcTJPEaVMlxq
+dKInYgr8EpWF3wosDS8tW5Z/yVhHuIqzFiDuH4hTuLaXqD+mcOV6DvJa5KoKq9tlaKrCmTJ/IfWUzNP/tUnUqHnP8r08vfZaa6MVT1xKxrXAhZsAo+Pn9Cbx
+X04k4I2Mh6KU+Os40u05F5kZB2YFd7n8Rug2Oaw0EaQmdwyY84wLSILdLhuivTfXsKsvkq6TQH6ilv7Q6VTWnMXC3yWcVXyHGFFQdIarSms+hB4O3vGZRmYW
+PGD/J9T7RrauOgtwd9ytNXLGAqU6i3RK1eWKDv5hrNwkjziefdxLgpC5/bsYQzOUj4sKUkeicZ0vKj0cO6UjT5CiTvQJVydU6XB+MZdT94p8lVCmc2Jnpma7
+2csnLUAxpEHIl6kUerMd8KB1MJTAKIixFWRHmK6NA1hMWiFZjy+9TFacyI+BKyHuGzS3CLD9bGKFU1DTG62YZQG/TZVYfYHpvvUiwFAwKLHMH0pDKweFSh8l
+NH4DKFVM2vYX1fC3iv3i/+W3Ty7Mxdh9kUwPOkOjwg9SqVX4QTzyDheI7Xc2XATTq0541cfA8bTH+3JXlagagvXlHMgjVDWGBNcvnHmdwV3gzdd2Swuzlit/
+Ou18QZR7iMeCoQ32+SrNWaFRHR2kQjtNGDmVp3ih1EzqBY1ErlwhNimi4hBz4G4OKRqf945YgJKzvUDEJmtHsVkHM57PmYFy6HiO1V44TNrNELUo+XUifVE4
+8gkDQGZfffdh0u7HZggI73kWkNjzlmWYc4WAoy+4Z91qEgI23sK+1DljweSKxc73zeRk5VJxWWeHnPcMboeLUQtaAZw9FtPQSGqbKYKrOcnbu79FZK21+Cxr
+Uhi54YrTAMP44/hMomxlkGNT1W/2x0N0j+UVBrvCx3A8DDSnLx9UrBGBXLz4yMoXiHk6871sgmzDmKE58QdUNGW2+r5TKLpJI/N/mYyiqbZkBahBydxcne5M
+q8eyTa73EiHZ+v0VVLU1u7MaUR0dJ3Jyniaiqt5ubtv4V3fAs3e/ioQePuE6nQNlPfmu8K3yz4e41HF8lu1DYCYWMmAqhXZZoM85JzNN3KeLA8NdmyGKqYog
+lve4uOtCfNmPYaVG58mBZzthPSm7iR1sJqnbVsZRGskWYDcDbskLl/+PyJjVTphYBlZguugPYm6F6RJEIRQ6wWfexgQpl4xJYrTgmGjXnRQJ8zuQL2G1lJp8
+GPml1QUFTIMYcIeq4MSRwuPCIE5LH6sasUKEAWc8oAKp+o+AkVKxVyX+CXAF1CCuEg4gqcphOOBHLH89EVk6D1PWc0UirjPnKUmMy3lbHnv5wNPTqh1docrq
+dgv5wiliWKjLSUclrsN8PHVw3qv465s5V3G1FYaInEqQEw4Gw/pcF23j7lUe0k/2ZJ0DTONXMs/P5IZHuC9vP38o3srNwoWaa29Orix1XGkFLaOpSxWe3L0+
+Mj7JXaH7JrsjVK0Ej1eJmMA6tlnenH20tVeCNG/2OjBilSrM5vL5GtkIz66UjcXc9YHyNWmKbKc4x0W+vXaca1nt2LopvOQvbEgBU+GcjU4cq8i0gzZAuZuK
+RYct/bz/ukPCkfCAZda9uQllkiWEgDLH13B+FEvEhrmjIk4H9N9sFBAqKvsrYuLdhGdYvkAdmyvmzzzo7hOQZ4PUFl/RpgUGpFZAqKCY6fg6gcu+Bb7GsTEZ
+XBieLCZDdnSIca1U/9IDNdM1uIqxnE5z5Pchawv2DLutAEvkL63WF+J6AjxF1IRwZ9sBifsehlvZWm+SmPjVBkBM4NFXP0mCFI6Iwj4mFAWTLVl+DUYvW2jI
+SMWyiFZqFkyyTaa6kBLb+bSvcavL7F4OcVugekQO9VBu70KgvHNX3e5yKoU8uIneNvZvzYM9ntm+5jy/sprNLi2O6QkDEAbTSJj0KmD7rpgp6jrTgpPLOFqS
+v53D3BGdkLzFX5TV9qEkczlMsq+6InjaExbK8XCpqWYZ+VVsAr8Q+m4W+7yV1TiEHAMnrCV9+YcVlpvca9oMxY/VTV0+oQpRIQf9UOeva1icuBUirHS0/wFQ
+6eIKXHJCQK1Vh1XoXiPQSsZ1aRM8994p1GqO8WNRkkeNMk4CIeF0BbolvJLrJXCd5B+yZYmmoocXLnzhWS6MutBcJgSMwmShd8KNQCqqniyz6J8tsgYchQNx
+yFCnAH4MUcFBvsqXbG5xeejq3HD6QGVJJYj+oHZCTZLcgobEviaJMAP3RtyzUfV6cEj/ShRXGEAQC+uQa6Udfipc+4/oJbjURX4lVzqZXAxX0i4i9Hpmp5Py
+YP0n6K0gjAh29ATmvEe6KaBzdRkIixhJFeSTxZWWyKHOQvtCWlbzyDkbJDbzdfG2evGAHce3q5XI67E6KFQouPgXbc8TIY8jCDFXRGbKbwS7Jp0ZoYQSsRM6
+wZqjQUZRq3LF5A0mDiEIzHy0WA79PzTrpsMpNu6HFo3DG2ZuSzjJh2vUrnqJHEJ3YnFKGbZih6QtNjP2XgQVlYNlaU278fed5DPqSItlbcZm4wxnNMWNsYkj
+QZ6EdTjIHsxxznL06CVW0uNYYNGOx1H7ZF/Tw8v+v6uhglqjGLUDLRNeFJlVkj9lC0RVH/lWWzud97gGn0KqAZWg4dAgP8qvUUo95iSHLCoDrVp5PYkgcwC5
+23MZO2hQ60orl5CKnzA1oz4f9mqzWYg71GWS/YycpfPX6j7zTvRtTWQ4YBgn1uAiYu/nf12err32/y+k0DtljrX1EWv1Mr1fApRZaSKEuaYsGT7hCqFfx4lT
+F+u9rkAwS3chILIMG4bHpXoV9vo/foOK1oD+ne4Kyf6YTIww3vCeOgP961Ld6+jGpJOCW3NuJs4Hfa9OrFQHgIw5Jyo8Q1MUIl6/t/0XLtCRAYWex+0oX3gS
+ahSpChZMNJxVIrqABUgRqhUDUNGvc3WpLL4k1W10N30Fdk4phRj+y/wtIz+kiKZEAP3Xp5K+x0VZVePazvUi+fnrw3V2UjPmBaShos5BpV4tkoTZBGao6QXi
+d9XRMsIiXLlyriAr4jB3Nawji7QS2UCcgs5aIq7dzOmErYaTN767iyVxc3ltSBzzVbJvCvIKvQPQBTZ1PGzmIJlkozi4b+L5j4IpXq63rIkJmVE9ZzsijLpb
+I66cFKUoT3NXuVqbiupmPwt8l8FFhpdTiSYSc6MycDVrQDxLePvWX2XLsBD49FsCyGpHNpdOllgMjUFuPFnvSYWIVQTYI/AkpN/68+oF9Z0utssvU0OoGakh
+IJ3uqI4OVV0wnsv95pQlzvEH3NjnNhadbuT20KUXDXQg0HTV1iTiyFX7ZjIduGb864F3mChfPenunsorNhWMeobiEomrmuAPlfCe6jmOg0plalDJD47NrOrD
+6Z7LSzWgk6cXyWkB6tXR3BLmpnr0bLroPwVydQ+TxcT8cDxNGQK1ct9++MBXp0l1yi7LQKpVDZrMSsB5NUC72Cv6eJQcLY6ENkhmEclRJhS6K6aIG40WzNPo
+ZE3ndjO2pTYFkc2LfaXMlXpQFDYtkyLNZHdfzOpm0D+24J7CCqf7ktTMrnDJTQBCfDaDhPRHga2syxlPDR9JFjvZim4fI8sErZ6KuDyx/uPtMr4FCpJI1Jgd
+oG35ZZP1ynei9XJ634EIy3rV7+kl/y4t27kc+S8OU7Wxa5U3hY/posasUB6gbvmvSnpr8w/NXKPrlqb5G/oyyJxNLdikO136k8vmRO1/yHu5fetVxZe/Uv0j
+nPcoPvusMpnKmt7fY5Yv3tEkEL4oX0CO5SopZVAVlWBtqd0QS3ZuNIY3+D9uXl1NJCfXzA6HCB7qSWFQ18sVAQdXp3ma+9L548hhsKg+LOSxPRth6yOVA2oa
+U4E5peIFtRZ6bfXxScjz5QC6j7dzW9BWHTVkPzBtHEpmZI/jqJlircOzUSLiZFIC2/9aDrBawmLaWwn65u6alW65sIEgwwUG+utC8hRCLwaN3anWvEB0e0z8
+Qy3w4ZEaReqF0K9C6f5xnI6xVQTQuKQKoSHXu+98NaSkko16CiNnmvernIFAR+EyLSnl4N4VPe1phF+poMiuEWYL+HbgNySgIrqL4jfO4Gg+GmBwX8Bn4Xzu
+YoZ0zm5dO9H+X2xw5fBdBubg/ZADhVbrTD0vlrKfuGVdgpiTg9fDYwi7GVseNwTuwm7VET1HsyeBPz7bA0ESKYRMHS4/ciRIx8ZIYVPT60k1z21WQvYe+d2L
+W5l17Gb8B6ToV7nryGZPBal3XqExO71u8t4T7AYV8VQVxGvMZ9LCT6A8QF3t8EIf99Xf7Q5JcZM6N6/SC8CJu3II/MIO7Vn9h1eOZcoa7YGR18Yzxnv+aLM3
+oRi6/DqjMM7jXmkPvxCizYhW0Vt+wln+22TBI3u0EsMUOV31i0mnVf3QqOjMmzLn9nEPkvsihquylSZQXfrhBCmbLlevXE1A50lqG75S9Y6RSgsIs1UrTOHs
+TD57mUVuuquuY1PzHbF1MenJvaEQ9LEtSaWmGx74VWiyGRRu1ckUc1G3XCL4Zr0O9mRmPRSC1AyRFBYcdw6BbM++EE230+2Y8si35YfD1SXgMNDp/CE23dyo
+PrQJVv/plnAuZZbKuCND9pbtseDPXKerz2NxuPglOBIgLMT3QYZVsuIeoZeKJ4BKcCjkpyMGubBo/JTMkhFq8qSrp7+kUM3mWpdadyLFjXP7ry3ESM+r+Wdw
+/Wxry713p7AJeI8BNhBXCzDYGi9EMrqiirx2IZtJGpSxfuC2wY5l1weO5c8CqlAhaYhMCDvQsEqTTT05DnN12UqkFpCm2+YihHuJ3P6g6+uvjqtWrc2iGrgv
+1nA1KDRIXyjkrBkqSgmqZUskNCrs3iFIYKaXoVlkAVOXDCYRUCgL/XHt47LPywM6su/F7GLyk05DJQSvdAhjMTQ4VociaspMVldzS7ercAsQ+UpO4944Cmd0
+E23F9BCIBxvdJhUSGICu6IlbzR71uL6VZj3c9st0rC0SOUWQddUv6qxTPBmTja+DDy7bie+iQ/LXRwK7F82YhkCJQ1nak5rj/UubomQFCvM7NPz6SQQkc9Gy
+ib65WbOLi3AqbmkZgo01P/oGOWtWkSO+ktLxI29R2XZRGi3atRBFm3RpuYM9SdMVljSo+wdqOfXSmRslu4wYj1TFjCyPZpOZsErnXMnq/HKXrZYNpBtYok9o
+N9H4lUWtvl27Swl4dlc8NZiGxNLU1M/f6GmONwxDGwnwMgBZoDMjeNBspTMC+rsfl9xptsROwXwIv4pA4IC4Cop0t/HLColyxUn3eq/ZZRSveCYh8OEY2jEw
+hXxSYSSJ1vrJLoVNob6oTtn/X4g2VolT/NfDvtjJ9y4y1dkSF0gkcd0lffGLE4jLbbNC5I/gjeWLvsuN/xuygcs4JORsHSf1W5wJyuDM1BdOdMN9cjhgtS79
+SzbLE9LGS0REOYRfI4yarnXcf2VaaKaaHQqAEsvBl1QK2P7eqhmEUaI8IAnV0f0mOiXlVTrF40LpHXWGVVXcFgXxckqK/U7d8J/ksA4Q9w0qORPBrgpiyGaO
+qyrgFigU37R8B1goVEkZv2bJN2VhJqb/xtOLAnWpps3QIMU3PklOANiUTmXHqCj5VlEJwzJwM9DFy8SPhFtuaHKnH/w2/uNQIzXUradT01hQ5cR0Sg6GUbZx
+QfWnPzc3x6t/KHHxdcuqGWeukVimmsfHLR6vxaHleiZqK45nnMlqDQZXPePH/30tkBBJJK2Go9u0y6Rwpl0qMu6Xj/+I0GeL0Ffu8ogYREH8XI0AfAbR6uky
+hz6pRHNP+JkSqSrnK1HAZsqmYHvrAcqs7XkaJ6P4ER+J4/SpLkwCH5SMPXXk4i7ErXpIqO8rG09u39GQrg8VV4N042GK2aUBWGV5h2SeVjqAANaTwH+VYqyF
+lHA91DGC2B/Ms4w+pdjxEmnM7jxxslzNm+g2UJdRNne3jbbMbVTsbpuxOgKioKkO+kOskklHiWwn2QScuUGRy+uYUxeQv3VNcTII/hTZQWRRbre2XOCmln6A
+686BLhnyR4KrnVPmuH+lxcYKawHNOJOwiuFCBEriG+rXfR2zm/nsRWXl60Qoz/oSklkJ7uSNlASRRizOH0ZT4GTWe5sX8eIsfCj8SCeZOwJpzy9nJh3+S4zv
+eEepytTsXYEpCqReqzPWbTJVSOcedi71gA+UT1iBneBaiTudV6z7BymgRaCYmqxaaVDJdgSRG4cUq6lgIhE7I6xjOltxdV7pId1A1LE/tCINFioakODMoPL1
+p26SqNVmu9JRYKipnSSwiedmqbJOQ5tE+59dYrVgVHFU5SST00+/+4nVGrMz7W42GhbxYTE3K+wU6zJRjbL9LJckJ78WOzkoVha3l3bRjc9IYaKrgNScppvd
+WMOKUwWDSTWTB5d7FxZD0Vu10zvLq7iTYkalR/QFtZnDCc2KebgFOGKdm+BkU5SJ2dqjB5JMQ0UPILXC/vkqNxy6vuBK7r1QU43DtYm9trsEf1u2X/NlXBJF
+UIKgWB/6P3qNku54JqtlFmXg3Z+YZd15qjx/XDJhnY1CDW3HkV1QpVRPtEvi9Sm2erb9zeZLeLsNtHe7muKSnKHy6ssrfI+NibQqQ+75r4WAVTejpi6m5e0F
+9KsYLVJnSYfMWNx1MiIZuOoupvovGXG6hs5d3AkbCxmOUsQWRF6VMZ8GbyhKq3nF1ikcwm2x3iclCFEX4Hs6DnFOAC0xxS0zvigwy7gjENIGJYnhgGmio4qA
+SgeidhC8sS1C6d3RvbvtV7VctkK6Z8d2/GRmJTfj1iG7wM4kgbm8l5S8inuMp7gjnUk9IDlbWHx6Nxc3DC+ggq6eqQkqHlNSaCnACu1HRLP4zW+5ysDSCzKO
+665EwW+Kumi1jEsO73Y3i7dk6nUBDlK/E4mQWtIGpQlRzsiKXWjmBeY/ss1o+Y6wwBslDhVe/iklxFjPJiAsEhKTBVbe/DtjcSybktcLuOwrG6+Yog0pKLLd
+rsRidrQBwfeY3eTBYfAdE32IlFaxi7wnlvC9NtcmrrhI1/7Xzf+oa2Q/oSzSpzlnb3/aUrPXTUl8ZyQaspX6DsRt+yOL1K/Qwc55sFPaBR8V4RCSMmelRCpU
+4XjrUEWWF+8ay93dXNOupLWo4Z3/8Topymw0vn+MYQjarkYxzQkjLFeLkQiHKEHGGZN8xKWqZAlX4SUn1/zHbqskdNanN4zU+GE9RDqhv6ID1bIdq92pnqnF
+GU+mz6M/YDcO0B8tI+xGTmXB9xmtGGF/UgnzHRjgjKmByTLPy4VEQVXZUuQuTtSSdIjZZe1eNVuYFGXNXuBizT/lzKthCWJLOhlEOu8qTXQOIWciBNX8UZ7e
+sk4VMajIAmLtKyRs9FllnSUFubblT103a2eXZu1s5mHKdF4xmH548WpONINFXtwv5242iZWk6HGXrEY8V8naauKH8Q7hk6fYGQXW7CnNExUx7AbgvHpXjXi4
+8K1WgjoiV1hAdI5CFjaSeLiYsqRmrfxLampODT414NVW32/1XqcUYmodSKhHP4p93RHbTvTaNOok0ZzOXklQe9zqC0By6diN9l9J6qaelXWxOsO7XwX7F7CH
+x0V+d5+Nzn+xSBl3vrdv3NESlqiJ2QljoTo91IKWF6d7UAgV5kYtJnumTH/K57GWH/SL5s0eFL6D9N1OSijaw8fFTo/DOcNlNSoY6R9d9VMt3fKrJyZ1Koa5
+6IKgitxZdmamyG1qm9meSm52B9SL7G1Pc68+eaSsgYXTNT1Si3qBwOOecCHa++mA4/l7zlZaJ/tK4QwpiEQMIVk0eLqoMycRVwZjleprR3mMlaaL7eO8t/ZH
+BwNs/g9uMFgVO5IIAXrJpA3odbh8fYkoWjHCIYf6d6yp2F8XY/HFdhswzTJLtgnhz91JJtQ2kgKi+97ixy4HdC1tC5Jqqx057JCwBmPekiuQFoTkTsm5ZIdC
+Aplq19ssy7tKW33Kwphq4WFmdfvdpwT5XN/xb3nIerl/ZLmVJE26O61QjKnlkd0D6gOmyFZMREo5SsX4Kb72wxVSfcq5Xibl2hHO0lQzJP+MRZUCkZ8VRsKc
+UJgFHvFLufNbLmVNqzLJiJ5V/ZwiVssgmw094wtETjoNLMuUTAoZf6zPTKGZUOqveb1c4qWoECAq27htUjlAjqPFcnd0BWUzu6WaN6smTca83w8ogj4XAhbk
+NztUmx4t0WWCqxNAALH27r+aNzqMLcEUGewcbuCKpnH+OTUEL9iRTDIZy09zMdVAFYf9/K8Ru6YYqImT0JWWP8Eq5cZaWoOYL3EZxLG0LBza+GS2X1Yp5cHi
+I2jrmpd/15GmNZRQd8nALzmpkd3KKnblr1l+scaE7oY10rJohap67/wHmRoAbFpEN1HFlHh/zixLtOxAUucl4VgsitGUHmMA0Zq4K3+eg4zyrCBDV1co58EP
+UaDjbiWLymFj58OJhZKzxXIW4aksN/lwk+SaQDvJCOxa7K3PmRBJE2YueSMSuTAvJjgqScwOp/NPaDCFyuSECgE6iBEWfZN/mN79paalWC81UyV6hqAzRDmj
+/lbpf6ojeDgtVdkllqaQfFlTfBweYdiqeQE7hZsqu/cVMRnToVv4ZFsfeNpGFY2cW0F4+ipKEnIQ7UYF4S4Byra4iFiggXKUiiTQIrtCtF2N9rsZ9DtyX7t4
+IV+CaomFCNGjuSWVy4Z0n/AgrKXxSImRPenp7XN1rD1qCltnyiI2ufCGOCZ0h4PrmrrADQMb6RF+SOFe7OvZNi/wsboo2HAvK/vwSQry4ioeYE41xdUVBKlC
+MNGBWmw4OUiyJObgPKP8o2W9O7rGSrI3LcJzQjkkqdGpPN3T3/bTrSR/t1J9mWKQyFlV+jrR7HPNXqSkW39xeo0aDESJk3Bq8RFuCRaphGKyFfXafRkhjNKf
+PhtiyRZwQbeXPKqw8FNbgMN0WQxPG855Eb2keS7DXJFgqCpUI94B3ZbCJQEJdZ47Ok1z7VHh/BSCCWHqNFel9lFqg5HoTndTsmW27L21roOqTsQLapoFsKpZ
+gU+aCoqVoAVT1mjey2o6ImbyWy2AJeSV+FNBXhn8LID+KLjEGf/f4bJovLl6J69Kbw650Oc/wzE11wd3qYcqIqTneVEs1sOuN3m4Q3kN8Ki4BUHp+rn+l6Wh
+Sy8OxT3cRdJ9UgSGX33dUmRXx4bzowVaqWPyego44pBQZq74CgdQ5j1wkRzjuhfQ4hPFAWsqNUMmGbL1OY7VD8E3PCldgV+N66lhxmFxUOzyIbZGPMqk5+KI
+XcjupYR3zi7Gb+mh1Lks4lif/KJTsMOqns66wW3D2f3phjpicmlE0v3biBzH56pmK99mchBUacsq3dvV591u2Zm8OhzSo7eahAKpUJg0m4qCqi6jIBLm1vCK
+Nk4p12JmFF1/gqzGRODXgXD62ZuyGScuNat0MX7dq+Qcwz0He46/8W9CBmteb8UBvxQlTSH+oTCdDBkpHp1Xr4IOZTxMp/WjV4skcGW6RxixjYqKFHFEET5N
+HkIKVRKip4y7B9tkg+4LbOZeMT5CWVBKsU4ntL7RtYcKVvBsz0bkVu43t7IBPlmuxrUziFiXGNqCeRThS30Bt6ud5WnE4GLwElPsPY5OQYFqdu+rAUOL/RTk
+j0SoRHXwAR19+663uiuqkawviEgr5bjH1VjeVwCvWmLP8TD2lwE1EyVMBqZBVXZw8wwfRWiW298p7EZCpwtc/l8/vHARkyzhz7rVrk7FhnuVJ9xFOOieclhr
++aPn6wEojqzum/UiMrZmJlMV2khMplJKTrlA9cE1+nef2WNxs7X0Yd7SDZs5zCkJYintW5YQ94USMfgmMGZ1Q146OvGSE/ANg32GPbldMZwf4eUet5xslS1T
+8kY4q4iLdk3lklHKLK9bD4RekdCIdOojiw7jvFLRnBvH/JU4+3ioBKgARLRSH3JzZdyR5BuNxmwSKnoAr9HyX9KFre4HEA08Ze+Up/22BEFmdUSYV9NdFb+h
+Elh7lsj/S7ZhejHTxQ2Tp000dDaUGY77erpVRSocv5wJZPAvD/jrapNrklzfnBBzfP8UTlUGcxLFU1oc4wZBsdICsXr+wFzd6EUpWGW0nj4CvSAlFFeDbS2a
+GgwQBxNx5JjuNFeetA1cPeTW2FK3T5W4y+OUIXIQWaA+A0Ocya7tTP1rRAxqGmFSwuv4LZd2PfptnLKnofeUQr5DK3064XUTSfYDi6z+m1KEFVJI0WiUPT3a
+bty54yrdl+zxq6kzCaqzq0e1SUDcs3dulwS0wYjIQqyCAtkwXD5QwDXY53tp8FVKUogS01dKK0r9m5XlZo5cWYJu3Tvn/pE75OyN3WuuYG/+iyUUwdo6h+XV
+dRr+VPJEbssZdRd6jFGjvmLf6Sa6i3GuOzpNSe4hNycl93SRWi5qF5Uas25ErYAL7ho/P2uFMQNqHGTguLytFxb1rQN5EIrDcHFF/FF4t3JJWV+3cAyuggy/
+sWIR+IW3X245cytW++Ouv2oh03P+a5bL9icn7aUaFY3smH6PeMAhB9xl95YihOWAQRDWNiIEU873SxuAkjzB/wd9ekTkJJbWxJcZ3GacDZ1rTrnohduCgMk2
+HKo+mv76MkKLV9yzVUENgzJ9Ys00J4PFySC6lre/sRq9Mk/dM3zaozhigyPzyoRI5XlBzkxxA6B4l7bTWh7Bo032mDPd1GOnCNKeZL9NxgfDauxII51Z/3pW
+BBuIC19/w2juY/bOC/PINseN8KJ3nZsvGmoOmZBSkxP+3fTvtCjp2nf3a68c0OeCvhVCSjmrr15foessQhryDTn+a+sl93UrWRV+UFKrNJRul3y4TveZoxJl
+y/vk3XMBB1F0x8xd9U7NbNVBtXHR7XTMTe0xogLVaU+cnOlbvzmDUA4lpybCmihWz0miDwJgkvM8PUXDDODBM1XsLZYrJIOXZiYopAKM2H5ibux9KLJpmJBI
+XVz9w2p+D9uLwTqXJ4piRMR9jbzdQxGrDpaX6H/HchGPADQ29aA+ZcN4v7MYaHORwiNtDuOf3+MBq+H4+TkJ1aRymOKQozXDhwulHOpqepq84z9TZQ4Yz9M5
+ENiywfkc8Q77KFwj3tsaE/InHsvpFmr50t/mwYv6Ko2OGOGKfDxVslBO0oFskIEaMkkQMB0SWCO5Jk0Z8kTKgkZ4JtFLNFfQgdVfYmngOQz67ox1e6VacJ01
+GMvD8jQ9baAUZEE5xWddoUToMzrnjEulnPVkPAPlQZSEs8PTLZCls4aLhZlXNdRuJiRK7zz74qxbcL+w48jPFw8ko5FiE3iRo8ooEu+YWhgj8bVvLpU8X+wH
+6uYR4R5/Zg8pq5RkZQoQ1f8UtyPpoLklVvywlvIvxWI3NjpZ/phSaazpaoWqFaSjXQwmF/KxeWdi2znqg+w8gd+n27PUdOyf7FWVusaXHhtTJzwvzOGLGPC/
+4smYwU04xrgwaldg5Mx/KW5ddSYVyxch71Mg7myG0/eQ/sYNcpOge5CKjkjjdrb9G78yWBuYlnNdfuaKWuoEboYlaYCrSYUssgPSK4+HKN3herp6VpAeqe4V
+LiRFCq9MP+pTH0vlHn6i5qsA1f1zE7+0Khx2MluDitzTQHWvbO7MISQ6a6QHkYW8Gdeh+gaSi/iDx9J5YppU1draEZrQXSL4ZE5G8ZSc5awkUYy8UwODIopo
+Y3jD23dZL2IVTiLraEwEEcjxoXqO4smx7iC0cyq+FRuC6er3YDuoPUtrVQ1TvXQf668ylIm0o81XHdB9IlrQgvaIVV3LF4c5Q+CMkMhwNSOoyAs0zQuBggXV
+tYX+0A1u/jJWsXqJqDs6gxJcU8A3uz601p/jSffU1QBhzX8rMFZIh1kwvBRTUPnR0XxL9Kel2i+5XBhJRLESfmEelmA5wEPHKsqg70lut6D61/XG5Rocs/U0
+5txcsurV0zp7nlodN4dF8+6+p9FO+kSkE+Fpty88rDRsJaWa8aRAEvUbo3QMVCGlDlEP3Tx23haRUzdrsAkajTAwdRdR5WnZgcfwJlp04nR4KCyqRp5sO7X5
+v7q9ppXB0hZMT0w31dTMmHN+hGcq2shkdXzLliWnaLwQ5RdVhXroTk98fqyylq73DOmLCpqcThjqWamrZQOhv2YN0C2M8SwWTLZtr6bkl86yyeZuM57LncgP
+l6CYN2ll54dZNLJn8Doi/5xwqIL/pIpCyuyumGVFtbTGSa20jO5OImjZiH/QoCFJK8tHIBp2yZz5yeR8PnX8VJr7ZziX9UZVeuBsPGwhY6PTS1qE7JLCs1pp
+HEfz0zoLaw0mq5Z71yyPY8qBBFMX0Wct5yUalibFnIJQpRr2NwdZoWOKNxwQIcIUuOW5A5xer1ZlseeJZk1VmerzWbL7QVZUpzN2slP9ZsxBtZIXelZ3Cf8K
+1jmu9O1kFhtpyM1OUGp5vdFV9wO6av9Uj8bNfmAXHgW2mll0fVg0f73mjs8XVxu5kR1AdUaF8YT99rRWY/ier+y5SexvVVzc6ZFUfnMvLEqwfqzrgC3GC6bv
+3MtFlK6M+9uovK+a+bq3bHWewGhEz7+0miKcsfi950erNZZZghTOVJtNWZhLUhtOUofojILZRwZ9nov+A+fKgpJD3Q+iskW6Fst2B83ayjWur7uoQ+PxQFCG
+FomyHnmy9B9Mf3N/Mv+p9Mfz/qp5nQZMalY4yjUiQVeZuv6C6NjFU59fDT0tRkiUZjVEl4RgTeuzduhZUJ6Vxc5m1ZOKpzzYfPVh2bxUMOVwHx1HjkEQyJCa
+nqmeVRj/4BKdwb2HR8CpyRQR2o9nCYh/d97KfwkAPStYH9qjYdE1uCJ3j+IW5uWyMXS+IqibVuvkaafO9i1TyBxBV92U3MBaqlFj+VNr6jZ482u2cnNFLmJ0
+atZkNyUN0tZdno3+7FmNxe4dnr0gBdgvba/vZf1pcg+TRXFmtPg7JoPN5pmAfjNE5avulpwVoJnrKrKSQRpYVvnHwtBuzPoWQvTOokDH27rn55IDd9Rhh5rH
+sVFpwIW/XAgPW6SFV24zOl0nsYT+Wd01Jb0WGEbyppT9m+cypVBZmPiwHO+3IFFUwiJMbpBrmZlqLS1PEnHLJaCOVCHj4D2bs9Tz5jqqiGwqlH0KIyRliyRy
+YiXpF/ztgSDG80zSJs0MOHQkSUeXxa6/gkZwsYyEQV26zNaObLjD4fQUYSQS3fNCUdTPYv6Typ4bE1JFLojddom1z8acEp/wsYg8hawCVba4ji4vNHA6IoPb
+7HhPW2z1PiKpbzbLk0nP0sE/PdDjXB0DaQSUuL/aEjOoT+T1S5ynqjmgB8r3MnIpwFnZ9Yg9qY38++dOmXaJABGmWmc2NbrGixb2l50oPI3d3HRy2l+rL3Fo
+HJDaFd/MHuW0xwO2arn6M5DKhg58d3eTkJJqC6JsZzdjRgq012hVp9Akvcl/o/Ov/qe+4v5DjgEZcayXG+FmwfAefG2e7E9LfZdi9raG0Y7Hx3nVkA4wmw6r
+8weSHc0Ros3rHy0r/QE5JzG2x7LKEjH2o7qVx0bIc7cS6ufGLgzdG8+UI02DVkeAc+QdZAy1NjLOZtp2lU4A5ciyhfgq3KC2YBZiPp4XZIvcp3SVlMekrnuy
+yCPCdLEUQKreUuhRB9pUdiqgl6JYMa1U6yoTS3dkzYDR86pIgD11UVGzx92/Uc13bwmDSNab23i3855SiDfSqr+ZxvSUj06jK4Q9CaZ5MquhGKc6dokJG9E3
+MYL5kBkr7/tjM9OkomuHtvH8n1t3u+mZ5VetFBVdPavDb31t+9CiqPCXeZRtNV10zlhK5fhYYAhbJ1M11KO0ZIqOdFrzKJfNzGEz4LV7Thc1fnoz8C2Qxmyl
+OQXUPKLXJK7yj4uIyn1xpUx0AyaQAB/qySiEuUdjGBYut+ADtH7sHeBkh+u3dgY0hMZ4hPHHbfk96xlLpOei5UfhDPpnatcUEVADZCOSsHCly/26UwqHUhfe
+rQ4dwxXd2hdZ6377hW5vjGvwtZLMS+cRohzRV8ms6dez4/lt5Rhmw1FBstNUHy5NQib0LAZNXcjZmR1pvqEZAdUa9y+UWE7RrdGsgpMv6s3b/cdbFphHt9Zf
+b6fQfjKNVgNhKJNRTMgmjDgE4HOOuGVPaPUwR8Dy7GFONg+lmLdl0lTK8S+aJ7fV9L9Lgljd9I/sklROP19DecBMTpF5Pmw4PIfsFNM8GSJ2d8zXv8mzdbzS
+3iy4yxwuGmXhIaSKC++KwLO13pJMnRGlX7GThCWiJ+fZuuT90oo/LTlyitTz7k9G/HjoBGjW/zxmg2HS5A0z/cHC6VpWSYdkZtSaAF+fJRVGAYb/nswhQf5E
+XeYKQbdfWU5r+pesrdEBOqv8AGZyvxQBYmvVaOdZjrOHChOWn8XXUMG0VTw0k8cKFDTE77Qzu06ERqnBCTeqgja/yhfxPatgeoKBJzZaQ/A0HdKVw9vA5Bvw
+mQha+hygoaVdqLkRVMQtWh7VLHGn8nxyYsDLrRWKiB+LwiFfsJvqQAO5Oc28YPvTWeVop16Rw7/8tE0AzwaAQebyWTxUjERGMD+pWDx8pKRNAxbC2VlNCn2Q
+xT3BCB+ha/axIOHkdtpUT4PvaaAHTH8zX+txCcEIngIVS43Zd/iOlSl57Wpd7Rm3LZCc9/4mrbNLco5HzlVDtjfrARZb3UF5dCdqAJklkdGWCqEaUXMaF2k3
+pvhRzOjMNouNeuPrjkilYuGVRhNFWUDMzXsKoj1l/TZofKhO3t/pjb9h2EuFBH4vDLMiSq9XgmDmnbkBZu54eGPPLnbuGFzbj87ogDDvRlirEWXhNCL000A6
+09DCItMExuEzOER+IZ2pxXwkj1y2ymoybLIbfqbQKJsE05ufNgthyQETJgJ23W05WpfyPQLAOvdDunWsI28+r1nobvhmpDBxA9rvE2G/5bAd6Wno0d/AouJ1
+a2jDlyQyKgtZPHewnS6iOZWenxuMBXSHaYp+qX5Vfi/I40R/LYd19arwA09Y7XOhK9dQpphWd/yq4u8lL6D+1uPEY92Xe3bGjQyfqWtWgm57y+oNe7ke5pJO
+p/slnw5eh2vozupxPykH8WMu7VxeNTXzUcVrdP9LJkWqMfXriRCQvn58/Dzca7vGgMRT06XkVI4WjceAEKWwErQBjfTaJlHP3pCeMuw55gjovZi456b7yWlA
+Vz6nVcA4YtD4IyC4W39hkaz0VsTefyWGOFJnxiWkZvKLJpnJDmM/6hb+RYdEHXpXEaN+MRIfZPDMtgCy6S9dDmr5DhxWrKwNmqLv6orS+ic2TsD4uJhyjGq0
+8pCSuOOedTTNQ6i7jjm6jBdOv2V3loJAWo63PsXDCrS5jmB0eRD5fRF8cSXoO3pUHUlITrvSTg1XdhLpyNfaJMJSLOVZ3WR9Eu1hvKD93CNP/9DbZDWzx3IH
+xHQnhqSL1UzuOWA6JGGw6oVUizUsxRZgSWnyN0nWxIMlb7l4fK1UBsPF1sLeDx7Z4CMuyKn+O3OAHAPR7838KkU+P/DNpGurejwyZpU5uNSQTYFQj9yTfGta
+bk+lErdtUrz8XC+RLuuevyxxmOOrFXL9GvFPUzrSFALfxPxzp4GaSu4+mjVC9F83eFqiViIS8kZbm6hQy1IkscW9Pp7jpS5+RI7P6nqpl+dREHaC0jTS+JXT
+ooT2fb+nNRoF+3zWpY9wbqjfjBiZauKzV1zlklk+4VEUkxH7Y03zbEWByOORdLiH+Zqt/h4H+lftmufFj8vieeoBSgijGtNJfsyKPoPehUbAzqO/tz4n6MwZ
+1Wa4AArWFetLPiSNkOOHKd/ODNcp20PtYD+XCDITkyI/3Go2z4FuMpYwAiZdlU7KaIqJUrmRIEl10Ls7+8ccsLW4j5dQvIPuIjzPWqDSN/jTY72kMeLYJm72
+cV+n/B/Rn/UzdEiZnzfB3bl1/Xp8XBZyx6+XR95e2f6R/XR45yXiAbSoPtg2y2zF/VfdPLMkfGQcSEdH7aq6CKDvX38xzWpyH8YoPPeF+yBJ/KHLCoFnWV8r
+Vw8uCT9o9zS0ESda0uU73Yhzy+LzZrEHZGAYWeoB8pV22izOpSCCmtjd9Cf6v924pv3BFjEPu3VWTRB6IAk8pjft3uVCH5GZRzcAgggZDNtM1/jlzo5nSp26
++i9fHj0flDFhrLpfIJ59esi4HPS1gQc0aTCdH3cGNiCrAhv6wZFe81gKQLa0ITR+TyajWkrIAWng0R7WP7rSmiT8W5axINkukHBJcttXJZrK1L0dPLQ/Vyqa
+hpCHiyZVi1X0UzvMVtUiO2pDoRC8Mti8zP8BT/hvDwQz/lKs6cl8Th7aQtjllvDhmQOD75K//VL1ph/7Gl6bkwwhiRSp1tGssdMpu+YUG0M0ib4qndqTm3Ws
+JeOl3pNyzJwLr/tLxxrRDRptbpYaDaat6pR0pZS+TA2sLBkAmh118yjfuf1b5ktQoaT0GKNl65yiyVSwLp25Icx3oxz4ccs6qduIOOZ6gGRyBApJWGTJdDwo
+UVtNAZO9nR0y/rQxbcT9GqIlDjhSLu7+pvFUESIIUJaRahgxcON9oRXyZvWGgvadtEhzmlt1QPVUUcKLCnn3hN9zWkYbgQ6rfmifKsoDSmlP93tsf6bQSDjJ
+C2VPUePIt67W8vDyCiKzRxg63Na6rkc/9lEYD1pHd3XMNwdYa4Evbl6lJcBFfHjBOf9Yz2tetqyWb2p9c7+00J67lTJND/ojVNKU5bBVXUVlTWSyet5f2zwd
+Mszw4mLQy5xpyC7s162XiD15ipSyHs5nRxvvtfzwFuhzXMqIqNroTCsn8+z0jSGiyBsp6TRicJi0vdCgqtoRRqJ9RSd6uR6QEwRyAJP52e/eCC/IX6xXIXKq
+nlaimzfH6hYzUpqHX7BfGyPsrYuB6D+q6LnWrgmLhZeD/cJsDr9/2qQ7wyok00eYejDWjClDHixJQy5tov9Qy2qe3KPoi2iN2xNr+a+mas+0pKZXKioVt2hP
+Fpz+ZaQK4qPVpklBy+SpQKgxYn7OFFBBYAYzYqpSTnBzna/nfBILaCbbyKgM/vwF50NVWeKHDYpa8XATeavFHT8aeHd3V62KUNLFrxrqIL2ZEwEZdbe68a8y
+z2qiTCA7heDxZLI1PSziocy0rt0boXIFHz1uDunO5ZifsTCmyibMuJcfMr9dDDqEQe4wk+qI7M81jeRBb4W+Sq2AUjlWQ6WYRLN4rsoqIMqtedcWUbjq3cK1
+KA9TF8CQVZdklUMrBPkSJajINaTcBFJPqOkbf44rxzF1KCs5BjfkWvTw9GeeNCzmBPoPsjQyt29nAuekAeyxKjkQe7QMw8GU7pp8TtrIjHnEA/6aC2xljTXP
+tTuiDKA+4pXutHAMqtHqniLoRtarg6dTbXE1/chgQZvVyrdMNs4oL47+mC2htM2ogdfj4k+bKqZ95ZiqagKJxb7K8c++/NBFkHgaYhwMLM4B83JXA8y0LD1q
+Poqes22edK4IPPwdsg+d8XIP2nCty0qKrhTf674h4nPsdKJadVBWEUzX457u8afyqkWfFcaxucGgZDNN2EYxr5NcebN2x0/O4kyNikVGl+bjGWxsS9sdJwmC
+9yubKiYTWGhPZ4YpE6A0qvrQ6KZ88JK5pKdteKySqig1fnXplJaBOKgxRbaUYaOe/bZJ2lgBTpdTlONzs74lM+DUZwbbvcbg0AFZeZkf8y+tfIz2Sc6mR9WZ
+pI2tROW0oSfi6auPFDoA53gpLDjVjuL827LXdpcqxnNS0AWGkFNzUHL2VFPk2i0b9SpuPsY+wumu1spkbpoGKXo6aPmvm0uXJ55RMcyyaQt3TkviMk/mA8Bl
+9hxpIbfmVNDXS0oz0WQ1pA7WInwAwljEhQO4O3PpTaYwT1a8klPhj3LNauU5avnrHz38QQ2KQX+0+/SHIsf2pLsnO/6VjX+Uv4IEDeQfWjG1tj6ruwVOt8o+
+EukD6tvEhDBZAgGxh8hV0AVSsOH41D/1To/jaGG1qVUlFgQGWX23FeQyWYlPulkE1H322JMypzTVJY5TYTa2nHZVYRozksNTjaCYmbAn6tIy/6m7ei4gEe1K
+wRk52wY3htRtlpY6clg6Zf20HF3OIFLIN3uWpirv2o8KnWv3S2/alt2SgtBbi0dRnX4ZqdQdt5xVgwVCWC0D2cgAJSRGQLR5dremnSyK2a6J7+ADOxwF1zVb
+px380BR2cpIPgZZJmyLOjmwHQa6PsO9PsaRuin+7X3RZTMUxg57aYgRAltilVKyCOKIZa+oKM9WamXBxRDpr4FeSb5dRPfc+MbvfQnvDMp7TG86KCBAme3mY
+tkyXcmdhqif6cgOBcySRq3VLqbVShOxb0bxzGs8EakNRUjuJcJCHYmYmltVx04TDoU3AwHk8r4lZTqiMTEyqXxYyGRrww9l5MmsEvgherJLRiB/xRI6evnyd
+E9MfiSjcpbA4oRfwumSJQCv0H7+AoStE5HRhi3vZ8L0gdT+mnJNLzR6Ldl/Oi3kmqHuFLQN6+GqpGFqvGbLJ/xOYtacKKC063UrdHYZKfESOepe4Z0WSjq6p
+RmYinAVBHYOxP7orrrfAS0vy+7EafXzUHLVMpfz2UAToWt2WHYt0u20QbiEA6MJMh4mYjIr40Dx+FVgNds/l2zyGXFXHyEz7Rpcl/CkxipzE13LNgoaxeDov
+Ij2bPExYV/aWDSNVbVKHKXCqnruGTsrnQU8kKf6QhQDDg85qXf/WcqY8D2bKjDgFR08VgBDU4MsjsPyYIR25VlFhnxnj2mwP8ykUEvswXfZjBtKWzRjAmKOB
+FagSSE4ncu7ZPq+S1yoPoDxDg4YoHuwZbBUUwiNfNMkFBbBXSlI/XD9nUCaVPPqINQJpZmb5mc1bv1nCdFuSuriL+0esbOv5VOg+0Awm90Oh3YCrW0Dpiv5F
+RN2tIzSf2cLhsCN72i0tBqopubw2bnI32+BYW9Raq7qc/kjBOzNSWI9enkA2wsN6OjUO50yuK01KSjJ8JuYov+rer4ub6hsMrMQSLilNtkF/zNlK/l6W98my
+r3KyfL1aTj0WMRXyhzPn06gM5Iv98BjJJdWbfJary07aLUb+RbB/mkepoLv2Yg+sYuFwso0Ybe0pSWrcQU/fvQmvHq+pMBHTflsYR2jpGfJNBl3GW2hEyUmv
+bteW9Zq8ekkbxMscd2xyXDG8p+fqAB6tVv+WaD9xBHTiarWoTWCYkiEhGZ2JANJVGKdltepKznQsVxNsA4IA8Fd5HBVwI+arxrWPxVCBR2ypxlPtHx4aGfSS
+mJzZtuIUlZdH7d2g4UpKzCJ+ioa64hpzJFMo4p9s7pkdGYwCvJMTlauqTNmsiN49ck0gB/U5nOBhdhOLmwT17WpNGcerYy9+IS3GourRXH+QiFmznjCkkPoq
+BUPFj7L3YF/o4Y8f3zuXnHZddzXMDO0Kq+AaodF3ocYPG254t0jsd3MqK0pWmnnUM2mCPvfFtMdyy7SzPs/3Lu4JYgJxV/fyn8i1CnYtFXJHC5CBAFh4fEbZ
+RcyV08wABuR2FFDZvAeTkM1v7M4y56hKS0hkI7D+H57oz9Xg4UQimyW1fBd1J6FEk4rj7QaIRN96P6wJhHDMReKi8GXA8uHfmAyHTlam8fzlFLKsdnrMg3Sj
+YquiT5fsSSJnmRAQv+VEyByUW1wBixeZ3vRQRYzxZgqBxls2j/CCAj8/b+Np/EDoi+iEf1Goc3LN57SkdqJC4NunqiO8oOdgPnK0LxqPiNk20w1RXB+Zcutm
+2D4SPEaOEFpngzSFaSQBxpNCAEJzwtY2gQIj03Afx2oW0WCIadBUsU6l3u6wQgk5x8acllwQCyJJGGD5qFnqb2wx3Nv4JE9/laCAdWcST2dv7/HzzDe/ZAce
+Uth5wEtHm0cM/yeCs+tkHXPTxkb3p5zkK223hhWict8lojXGLpwWDzJjRLzIloQJ3eeUR7JUZcd4vjsj8Yh3YnFptkon/J98QBb34s0ys5nseSWgOqos9pMD
+aWcXialQTcV6eC35b24t2HJONjRBz0FYmI2wc1AVXEeQe0caxYpQty7HtBRUSC4dpHRLCDV9mAwhG8Z22aCiK2PJxovoZQFi7zCgA5bFE1doZlTUqxsQm/Nl
+8JvIPMxL1RVQMkXBSL+kU/BNOLOXXtAzlSjmrAfOqa9QNOuvGVJCfF5DmjsLyK7WAnVWEgGfZ5ZrMZn8ZtoWm25CToG5IF27HN5leRhF7++rOQUH0KMfSQPw
+eMkDbHSjabAvZ669vfg5FRCBMNOFJ/qEw9TkfJMEJZql03/Q0YirsToOYTK3g5JC0bdxX2YPsnuWpD0Za1A7wws+EFMH8J4IKiDAouY6sQdSwGIonpzooc/u
+6/221M7fhJ4I2qiahvZt7/diQT8LMC3Z5EpzqqQOLk+MfuZmYj7pNw1FoLD9ss5Wff4yNPy+EizBe3+F+fvSwnRoXNH6aJFlKVF5xo2S6Dfys4ciAQv6ciEe
+ulCjuwmTDF95DIaC7Z6pBR12sIQB9FexM9TOLVHE3lR2egcezU0vd+YnawD2peO9ujbk/kOmbWs8N8LZ1q97W9jCsZQiGuLRJW6RwuoJfc1ISXbgG337jI7p
+0iygT0WZKv/X+fy/vxk85/w3ILekHKt0r6ndz8oAI4v8VebbkWhqx6sp4lC71CyNGaJLHdj11/O/MDP4zd/wkHGOnrdYc949fdxAIwnc+ztMPU+HszY/w8rH
+nDtdXUhUFV5NIfJf2deAbMyZPV9/WjYVxSQLyEeAXj0i4sxmeYIzneHyp3tNxSC8yYcBSM7pInCvV6h0KQHfUpVUxrB4loc0a4EfIvZiipSoRkyFsFCZ99he
+kuB06RhtDe71m33Hy+Cen+83Td1Kl3vExJTYIv+4GlmgSv260Y1EoyZ1Dv81MvN6ZliO6ImPS00TGTg7w/iIl++kiAXFSqiHUhPPDWse6TgI6FC5ba4Yt4VW
+vE0qfQWEU5HryJFZrNSfiKS5PNCT4jhaORVHFt+UnTfVeoqIgddsiDWo5gL9g2kx6pcIF+w5ze4FwH7an5wuu4+XzD2zt8RblLM8FRD9xJruMPPpfXWqLCKr
+a5cfztIrkob+9teo4GEb4bxn5maZDTzSmpizhxnNgZriZLVzNc5kB/zDhPzn0zIQo3NTX9Z/KVIwnFbyV15KIyeTk9R1GHd1oR36nl1NNDBTShzdBa69bvqj
+sGh9e2t43pIDenxDdqhG6B3RDYzGBOM8RXXR8SSEMAUEPAcfswn0f0u3WF8+mppBBugIorqqTYM/QEUWa3EaEcleGt3Z0nbm5KHCCD/RUYFnIGNfLcrV0188
+ssyDK6zYRk/aXRoJNWtKypIsdr4uFn1Q/OiZttUYh1dUc0aUu8NSPa21n2oeZk5d8oMMuVCVXC9CelP/USQT35nQ3+oeL4KIT/uoVI8ksY62VLgZOzJYU+Tx
+N791B8+1krtqBjY+b/XSGrnbU7jYupjSoWCYz7qkUkgzTFUBeaTIcr5TfQ1lz0Knp/2EAZfRjvVHXfivHLy0MOwBwfGSUtUO77TIcao12ikC731dbDY754FA
+Zr9XiwutwJ4wmz2AzNb6T8CqKP+7hx3856qcJzdEYsuUHmmn0nkJE0IkXZX3flSxpFQh4V8hh0VV2M7NXrMn3kiH18JH5A9InDFCGUVe090Gty/cr2G3cYvD
+qjDVW7OlqGXnkJLZ+GOfzUYIlRLMKDaYHo9YuEM24Z1kO/fzXHzwY0vrql9xLnaq7zByW6R6+0x05rzlPxZOk2hAanwu29VnZy5q0k2RTx/g6TENSa7nLbQP
+BN26aCQNloRXPF3+2tAphwym4ZgQ4PLNmkMd0Mo3v9vEWtj7GxN9PTFZOAryiAPpGd1Km836hHqLsFQzbctzMbGkjiKIrJAEO4+rUdkBRfp4pPsp6YvJAmYd
+hJ5yKS1dQ46zId8gvpvvx9OKGg/sTn+Fiq/mQc6ZA6ldoctcUgWn1KfzuabIdvN8lmzfyubGljpGxpE1JK50tJGuMKx0+eS6JE/bWxdno5tpqusfRwGjS02q
+z6jkzJFQMAN1li2lsx5b79G6lRHjT/WDzu48Gd0aNC53aeFORAsMIF9Ok4F3rOZMmooE2o4Uo6dFPmKvVojxzl2Ha6AnLSFUj62cwZu/4nv/d6wZ3YhST7+n
+Lr9CeDWnUKPvkltfFSTqcZh8x5AH1XeviSKrB+EBD1rH+oC8pkxnYcJ2qrSUOZt3ToMBmAGG69SRzHn2SaFBa0LlRaq2BCxWyq0WwaPT5J/e8FHdElgt08uA
+mIqV6w+hlDryvZn97nfHY4+pNSnPzQyZuP5TcVlfY5+rx+FpUfh55vtlfLD6Uf6AlxYnRBk5o25GBfQjxfWXcPAK+XLHjpbU6XkICDtdG/upAJ5bBFIDZxkA
+X4welIGm5vZnxRsdQ4tOT0Z1y9WZFOuceOtGm8JJEtvrjeQMKHql+9UzxVWrFA19p2Qdmxzh0rddkXG84evWnkKOCX4eoO1aUQ+pHRhSu/z8UPuYENNDGwky
+W2d59OriIToq2tL+yPGY4wfof92duq6CZ1b493P1eBFduw5weK7XuspQ+ds9iO9jOc7e4qaJvTgUBz5URztiJJt3yomHwgw8nL7CeF1c4+b+VnuLUdBDrPty
+De1D/3o3mPFFYWWRcJwU1caUeiqacA3T7MWYSN2HfxYTnD3DfBSzejqZhVF8nDz7hostdVV3Mj0Yw+62J4aX1E/2uQm8OzUkt11iriJxkkAmY9uN1qb6ymDW
+Yg5ZBOzv5f0+CecbVvbhaalWmR0PNYU+q5dx1YDkS7fRJXTxYC+0XK1+RIr7zn3LzcnCec9IA+sv2Oftbh+u+rPPNVI35xgy8VGSLkOzDSwMCFbjaj/mEZNw
+24zotGlbZimMC6LQqNaQ81fILiynVmy3CN2aadPphn44wX2eRwuAu/E4J9C4yZQwR4eMBegqfgQt5C0M0U8CX3Etn0V3Vu+gO+dxCAhs0YyTuvEEKAvYoy3Y
+JabRKXNR8lNgD1RInNf4qtnSeSbS37hwVJMc+ZHUoj81ZOENccHT3f+VvuTSb1gbGmUjX7bGvGpeD4/2wksxk4f5KKrNMSEGQ+HRknHlu5bMPcLuTxvENXsi
+/YxTd8f7ulC3k/SM3Y11T6R2ydhr61oo3YqIHSToLgDxow8hT8EhE/CeTkbGOM//JH9yZH8XDH6hWHeUg9xFMBcL+xhGd6FYhmdh/PovPUptg72IIJ8y6VTP
+ndDIccvGshksWjdk8SQ7HEm1br97ZJ6ocGlYk+CPPttjreJZzDhSOfOsPU3tStROzfbNMc2W2HuKfa9kVDpLM89eEPtZL4WvGb1Z7fpLjCiwMvOIlQITZCoP
+PJnNmN3lHj27DRaedTk4HpuLdxCpvZuwEuUZAKbu1u74VvdxxRYOpzlp83/DiCxn+G4eamvJhTvsXR/37ZzevUcTiO+iXagmOQrnU5CzHRODUecvbfkqkPyD
+8kFH8SeCF6IkxnxpqG6EORFje/IBaPph5q1Bg/jTSwioCRgMQ+vo2GHrh44U+yqbuDAd0AO3bG3XHN2VeTyYdtruUhs6ZxLGPXS+CJVgBKXkqpQux/IpaB2h
+9VoU3yzJwc1ZLm+RbOAvPc9v2UyN7xUpN4ZGzgB0qdb0R5h1WieOjLZbIEGKs0mT/pbeafawYSoxGtWHBINbBsKMPhcqnZ68TZrVfK4u8G5IUlKYj3/Vwvyr
+dV9zDIMbYVvOtWaCRUe97SQG59B5Bo5M52Zgrr6YRatHD8N9TJ7jbSQS9ldFteS71GrpOCQPaZ8b62/OgD2Nsm3I80zMGRCB8fQEn835JIc/8v4vEybk0WlY
+Gq2LtXp6VIVhhx43KsSI8U6LESeNbu7MAW6KChDZUbeTWXtQgWYQI2Jjq0aHrQY3lPyPhWY2+emfw/MDl3XJGSGzknZJMeMyjdcygUe66suciRfyZGPxwMbT
+gyKVmPdUJuipLNdMX7E2c2IVr74ujJt3FpLQbEfeMRAPbXtyb8I0PHAgqQXrSNvL4Hn3Hg7ZL4xtIq39NCLUiA1M/1zvGWC4SovsCWWpvbkfk66XziSlqZ6M
+lbiZet5y2vlPgyh+oHSYDjQT997ccFaEiGiE5iY+khlZp0Vm9LwTieiyWgS+FbHUs+NWXKINhpuaGhrkdJ7VuroSqHGSBqkpebI0YfVoFF6U0M5I3eLyLMPO
+XjlPYy6qGjZU/Jf513DrY3HamZ3uW/v/Wip/oLAQCyZeD2ciTEOctps0tT0YyjpKPkpMe1f1eXT7w8iQuWqQpruUCtfM12f0py2Sbu3u2NWBNuGeDsyOKdmd
+5SZS4gOGaHiyPav3bn2A67j149UaBlFwSkX7nVCYyh8sVnl/STFxysYxxWbRk16/FuKYG5PH46LtUNgfqXUSV1btCRalVbWD5WUE46WWRVv3CHHl3kZDpgIp
+nCxBHnWvQDYnxZl6RvR3ekKjmmTEov6RhXWJZj9xfK/jbg0VFxxFjWtx4l/lTA/+p0VmxCZV8atv7JAjsSWWB8Bw5hjztSso8CpSYULtTOP2Btl3z/FP6iSY
+4dDIJXlk27/so12+5pro8qtZUmhS5Hgpfy7KhzCljsnmDeXzE+9kPpjHA5slsHqyoqz7BCmBdV2LC3rVhsZUSo7iWnPklPuaYrdvXS6VoKc7ja+qJBSPSRNx
+zkpF6+m/YQD1rpauajAEOgQ++6R30uIEV2i+0STjypMiBgaXidnsksIXlY9KCkxX6aWtygkVLh3u+cs0IuFOJYd6ndvi1jsFvXG1NC/Fo9PL97BilCsppoBe
+pBDB1B8ZJQV7WBWoDEixSsaz/dcWLVk0UV49/FaQQllgnw/WKT3dIF3oRzz/H124uhyWQyq7pPoqVh6PETWiWfFwvOoo56jg2ZJLg3FNqHUymjK8OiXszrK9
+a5+CYzotEzImRQDdIwfukg7pGYAnUhpqS40EoeXSkxNtWyxZS+zLCxypIJW0OutIju5uTmENWKX30WMB1DQ3euR6TgzAQjFtEtEL8wDofhpSgdIizTtLKjq3
+uo2sCUlFeFjWa0JbV+bkY3IkNlfPLLCpdMtDyRiMlVr4qO1aqYHncePMZD6qXYwS8X0u4MSFEaO/rOkfh3ZPUuH0iKD6izvZScvvp7sW40HWA/Koe0jPHLbi
+3sgu5TYivU9REY76Q/KQyEGfKjn2Vpvc9YBCxzYk8F2lLHNsw4Cpk61zR+VxdVnS9+dczAyr/2r7KmB/UmWmfb85n03EdAq967zt6pJA2qKrX5gC2a4/kqOq
+eNdmFJbiDpEpkgPdPtk2zvMw/2U0z4P8j2BIeJ8oNR4BpD2/0yaYM/3GXciNpZg6Fsa+bG7bflUGyWXfxdIgijXe8jWXFC5S2T5Pl1KsutCsrN17HAC4nQRQ
+rjpwRB7o0oAghol50plJ28w4nNnLZdaq0HdlCAP3dyzPVbSCr5dYziusr5ofXZRaAaQWJNSbqX1fs2YUZTMMLY5/+L9UAGV8kCt9qZqD668IiuokCHnd7f4U
+AsLQWLfepV+EUOFNUKmVYdkJoGp3aDdjB5gN66AgoelHnAKEgVC4yeIjUwBWY/tdLDDTuKuk/QQhzh5ihcI8zaY144HeDeWL1S2017LC2Ur7vcQkXKAREVEr
+IBUiyRB5oOgjQd+/2t7f5PHZrQNjzsMEmzHGpXNrrQTOiBJQNShUKlYphwN44z0plxxKpYlVT3RHdDD9CB0ItN0rLipwj6GBaP1PB+3x3r42LokjDCOlBo0h
+RMbmI3RX7undH2LA0YuhTMfCw2udst3dNVvul4HGNaeX6xa/KNXi859txdU/JKwD+KMjc8welaE7Wmfx7V0BxY5lmR/11Yj7+yYVQHeJTdXnUkijAun4RKtj
+anQS+kg1tdQ8qr0loPHj5ivXXDivU+Neb+YE7adFZh6XkMSHUcZhof7rpL5G/PQ3s9vj5ZJKlIFxhtmKaZ6tPDRjgaYAUR+UFi5SJwujDE1RXlU1GwJDPNzG
+RDZHafGb1PCgS5SNXhj1XS/FsSpVFvsEoSXiy4/ObtWSVBynyeWSu4gLvIFuprwQ81kTl/Nt3YUdDnVY6BR/Hr7KFNqYBhLhoYfnLBowrjnXi8asPBcaqDKw
+PidEccm8djfJfuXrT9IDpJnOLdmNKq5829fS9cTOclDnWP4Gdi7bzencO+UF6ZaTqTvQWhONXMFg54zfBlM4weT4PTMwNaToSIC8UA0zogw1yfOMXYz1DSGD
+vjp6ONjI7oDgnsbMdMi4fmS060KnqceWx798zBZ7XMd4XqyYWz8Gsf4GXDFGXqgYrZQC6F1giHxv0bw+dZ6qZ8figpuac+isMiOUc7i7v6qae+MJpJfg8SXc
+WKyZvR6PsKcmxqotE+KiteQNeA8tJ6iDiv/Kbedwoto9ucI6K1VQlLLRDQvfNysFsLtA181zXGjlRH8COOpVrL4zajyK48XO9ZTmeuY6ZMHJg6XdXzPBcGHC
+elP4/bSkVefh1M3aI6vpIQqeBktJMQQ663YGNk/xRjWgNrsZn6kqE0/MqJU9wZQ9+6w/2hp9QVMRNmXuFX7i3hPvteIbAgAvq1jGz//Q3JUNCQ8Nnzjdg8J0
+pM1DKUz76Gng2S3TXq0t9TD5MScNORNemJIBD0OdOEdh+z5tfYIKDG3y7GFXC0YPX3v8P1K4Bo+gqTmWP1HeersSTWCBJUeEqkjd9GuiTm0egjLl4NW7KQ1X
+IxKDsxnJIsRRMbk1u5lk/CfduDhJhE3gMl2qiY63ZWyuPa0VkRVd/4cV8oyh1Z3BQui2y16kLe0txgtyv3yTIOcI/e4inDCOMbnaMkHu0I5TxXCBa9Tpy9ou
+ung5EpD0aQey9tAXOFd3Roay72GTwEbExLY+yQ47xnJUVoP1EFVPzLGY3UKpEF4wPuzMXgjT3HKAWVy0L9XvQu/rrEHRUBhMoGqUt2PRN1fS4NnGGjuEehWy
+bGRXsgvf2YMfMv78RRHb9x1HYd0ZDSpXQLmsb4JLqlHh5xV23OgzwkurDRP971jDw1zywdOOv2iZ0KgA0fSq12yOA2TIjr8hLoyjNaoxnO6pLTmiwsrDihev
+3osHUQmC96aTeIBb5w6X4h42k0jH5bDOs5tFGDRzUwpCkcN8tO7Z9hSHq9YpjB9xm+ksvS1DW/PVh7RdQyhzYBw37mOi4PIn7jI3j0+qppBnwVxdwnJuJUuk
+BBQbg+vaZEVEJFhSkHnRgKvCCEyb3wI6e/Op7Rp9ChtQR68CouyboiU6lVcRSegtQ7BnyFneTCA/ut/ICEoq2Jo0JHVDbQtT084IBB6E9eoSkI3nlGvlqJzR
+itq28/8AyJ1bTCbcAAA=
+`;
+
+export const LAST_NAMES_GZ = `
+H4sIAAAAAAACA0yd6YKbSrKEX0WvVkAJqgUUw9Ky9PQ3v4iiz/0xtue4LUEtuURGRh5LOafHT53Wo66Pd5nnkpYj/sOaj0e31/f6GNJvOR5L/FXe+Ql+cKl1
+z48zfea6P9I65J3/ek51SfGPU//Sp03lzI8p7Tv/Pu1n8Y9s/OWY9r6k9p/z97HXrugZ+jntr/i/w17GK/5izu/453POj3eaX/EIU5rnR/wvr49PvdbxMeV9
+5Rm+j1eJ//uOfzidj7lu8V+meOzH0dfzfIx7jn+SBt6vS3zSWNdvmuOn1qy36uNh4j/HkvRTjn+35d1PlvfzeJzXvsbfbnxk2Y746WXr9GPxwPEX+TetxyMP
+77QP8bc1fir+/3Hm+A/n40hrfOg3Vk7Lsdcx1uwRjzTEj9YX/31M60MfuFz7Nn3iIcucP4+9/OY98VPxPPH/+okv4HHrv8dU+bqHfjnjo2PXtnx6O8Y9xb9O
+S+EtftISf/dOJ38TG1tfx+MVX/bhydi/xxYfneMB1jXHar1rHeIJds7BXo8jVvne5ni1vMSz/uT1xSvGY+2fx1bfPPtcYwu2dLZnmK5xik94xjnR1x9TbNHJ
+I1wn5+koy1LjM571OP/bEY7eJ61nbHP+p8d77Ndx8PnjXp7POEhDSbG76RM/u3x4/GeNJZjibefT7x5/fhxX7ELsC2dnTvF6vJY2J/6YjzMO+j7EX8ezr+zG
+Z61z/P2zHBM7Gv/4aAeYzyydzn4/1DXNsW/79eUAHzqRNQ7yN15gYZOvnbV/xvayUCxMvHzuOt5Xxz/e9pevPK+es7NVnbzpWvVbiQsUH5/efqm8xvp29TPE
+t/n27VqkF3s1fNj9PbMk/+IvY8OrXoVVjCN7xDPtA185pXecl5lzoK1uB1u7FGvdxQK94ravJW5DbGH84K5rfzzWOHQ1fo9VjR98rbpgz7yPF/86jkeOFwqT
+EWv11pEYrnXlXOj/TJeO67HltWeP46xykWIJtok12NIn/ulW8q7zx2Fa4gBN+X084gDGjsQbjqutDzvC2sZJ1ofX++buceH43j4W/Fg/gyxFXLw+HiXOHKeh
+29PAjZpTfF8cq51v2K/CQdq5XM+4UbsuXdqX49w5yz1/pW155/TL82NHcnzIe+eFdEqwL3Evf2PvY4fjsa8Da+erqHuWOQ5pfYVR4J/y0M9Y6Dhs43XGq8vS
+fHj2flrKcOqVHr/p+B9GsE/xefNcw6bmzL2JL9s4WnXGOsSJWE+O3v75MxB/xjy+SfZdty6eIC5MHI790cUhr1sc575+sCNZZvU37X9WipMRNi2O1vPPxMbu
+fRPr9ctCljNuMcfs1JlOK++5jtcn/s2Yw6RlvEHtOJBlCPu8PJ6XHMn8CXv4GHLiXs0cRD56x/TsvEjl1sRPhDfQWu3pW3joK2ytnqrimeKkhFmq8UTxxHmt
+cUveLMuSh7Km2M8339XFRnMc6vPJX8bK6tAcJd429sjfEAc8zsXwGOo1zgmTlRfcSVg5ViDWZYz/2n3iQuIRB/+bTYdwiQc5dXAndjKs9TsNcSfqWbE8OgR9
+LFKc3TWnOZ5gHpq1fGe+gRN62NzKU8VJCj9a4uXwYdXLGz7Je+hlqt1e8qqjEat1XKftXo7rHsvSx4OtbNEVP8A1zrIoZbRr9amKS9HxbPHu4TD1f05eHP+3
+c8VOHurMGMHY532qgxxMLG2Xw1isWas9cYEPDKOMh/YkPr67jinWLTzAKh8ZZsEHPzzOWdJYH6udIec1nrT+YkY43yxWcynxdHEjrvn88uLy2teXL91SHK7l
+Wit/EUupS6aLsQ6KVHLHMcthq+Ug53iY+YOvCQt5xMq86/zMfPgaR5M7dNljhwc8bC73jfOEZfV7xQPwmf21LNqv8GUYWTazrM0znbzyzOtPV9fx1Uea0zft
++Ppf+cC9Wb9ff1Ec6TGHg2VVwnKfsd6xU7jc0T8abxsnGuO88F8jhNpX9nrg3LDsYwRHz7BY8bNDnsc01EcarxJX5/Gbx/QYWVp/Die6r2F2WfRFxntwJFI7
+AjC2lM8+6zDgEQreaBz5m/insXK8Rpj7sLKrrnyYm5fuzRmxYlyUIXbttCuvWhbOv77nzb1dNv4P3i6eizCBD3n7Ov+EH9kmmcm+HPoA3eVYztjEeKmPjiIn
+D+fMN/sSxhvg0iqOfWXF0qBrGUdAUUUcs/ZB9lGEHAMxiY5XmKeOgDaO4P+uuDS8dtiYJf3TFd0i7OJnw/vWo4ulD1eVrhm7Ge4lwrSIUrnzNazhOnCwIq4I
+R5MUWNU4DAQOYQHPzyzvwR7GOfnGshNFhF1+xeMPNf6aO65HPdLloCxi30y4ovDjNtCsBV4o4oY0xH9NOB0C7iRLs15YDS6Fjl8/EYCGTe/DYIRVmuolX9BP
+cfdOW7fXnHFXe2xIWMvYcLwyZpHjNXOF8VvfCNb8fE9c3xRHl+uWHJEQGG5ZZ2EPj7KFb+BHcbofeZl9iR2TnY2g9UMQGv93q8Rico1hAcYWi8XTH4djq8ew
+sx3vKlv8fDquxJ7wrbxI6jr872EbE4eKk8Gmnwptnk9yig//J8InNmjWbj7JL/aa8Ae6hz4OiooO21ndBN4M2+hA0NFr2NRMSMZ56jnNX+ctHJtzisN7xA+G
+HXVOpcPYp7I6rH1obxVgT3rjMNZ5DffmpAGrdYWFjeBo3nS9r4jgyXiKY/ei887n+kHXiKrD/rM3EXk4LIq/JT1gE3Qr8MuxnDL7RIXys44U4q/jKLB9U7wV
+zi2vxKPxcPGEo+4cC/hIn8RRS2+ih3DSCa/41UcOpW8Po9v4CJ8f0UBcm0/cp3xsZcVHtzBSEey61ywTrFijviM2IO2L06P0bg0rt36UQipVq9zsyDUPuTV8
+UyzJEtFPLFT8y+6jjb7Pm8JmXg6vF/eG4CBuGFabp61ywt1+9YRxsohLXNBXmDfChBxbSIjRcz5HrtE4KW6VuQ+/wCGM31mjdzOObDvRZJzzmY2ODKL5UPLP
+hV8Xu29C3lmHh2CDpez5WvnuQmweb3oSQxzthhYyiI9uZvqHOTvWWK5wBXxKGIw4J/G2xElY9SpT3+Wkv44zuN5haG4Zebzf4BCQyBSHNd4Zzm+JgDYi/MjS
+FJriaWLDf3G1sXFZ0Wls3B1cK7mJU8IpWi474FdeNtxQ1pWq8fFxI7NinrA8ug/YyKRrFPuX4/z+Er7rfikoyoeToWWbIo/hrsfjhSG4OKXTFdGJoYIJtznU
+XXcxvDf7FddX+WNOCtS05BGuxcGNNJCkp2C3SHVk3T81Tp3CY/7jGvcw3n2LS59jLSq+O06Yc/1KinzFhWLt2SdOxkT8GhlK1pk+60ex8UA4gFtIyhb1TWFl
+2K8zTg+nk3MVoZry6uM/M+FF48THmdj1ZUWXol1sOU/cvHzgVHEsW6TWslRJV+O1cvFTHL++/iVZHK8Zm7rXn3ifg2eL91tkMsk32cocNouFPt5kODysMqBt
+51joaF87Rmp9KwEjro3Pix2O+FdR1vPeQUwpV3KPFHtVWvrOhdhlv36Ux+RmzY65giRcyjoiXJADC5dDXsB71zkignaWuCu/uLv4kmQHDCAQBza+i3RJn/zi
+ACed7vjJxH11qJL/nXIc8SoRT3LM2PHeKBdx0W84L6db8fVxSvBto9xlOGYd7kPxPT+7cswiv9BNjpswY1Bjy3p8Mz4wHinOK1knJkCx/S5DH+lSugTk/PKB
+EQUqmsdsKUPfwtnyKOSDBNBcBk750DL/Q1HCtimqzfmlwxmPWznzzg7iByMtJESV0yvDYFd0KNfhq+S8Z844VoYAIOvxFD/F2kzpVHbaDvP4CBcjc1OFiNxB
+QBh5zGs+fKNwLHfaSZawNm+JiRBC9Sx2RH0h1J0er8pzgMPEB9dF4ErPRWYNhkvJeuT/STHZam8V60YeFgGIAo/8U8IDkNBH3H4qivwAI1wRlsa/Jm/5EJHH
+X2JrljQMJPnXcVS2w1AGP00IyPeDeOAM4+XCq0QsMMbiCyWJU8798dG49nZCZFEUUC5hWGv4gGeEhy9uYvgZYrbXmrbt8ZKtY3s+4c2miDucGQsLDef6qxsT
+AbTiWple73QSBKTUDJfisx4Gh7SOhfzEncSwc2M5a7ILMxtknMr4yHpeSlGFL9a9OJ7ENccxvgA44nbGf3H0ucpGsaIs30au92L7E5nx3qDNMYKiuARDi8Mj
+UQQMII2JmDC+slMm3Oc9LK9ySKUAZXVYtus8CRN6fBMBZMT3cdKWnlWLeEYmgUAL/3WGL6tXHMilDyOjIPNIhtJ6sAiSfNDOeqRIBMiWGkgXV+A68RRCduNa
+KTUlagZVSHqKSOM3OfgWmZLB4EJ2GbU4UC1hi0Ujr4pFbKmAbrzcrTBKZS6VVMcP+HnJE60/aSkKJAHSN0Il4KKdQ3voRsbJqmBXc9pIpvEmcY2UlPaveKC+
+RsjxaSlHOM+307jqsx2XhRvi1Aeo22jGoIcmTn62fecU6A/PS35R0dks7IqUdTeWF5FndeowGXLudNZJj0GCBDFhUcJK/n6MhcSzR+hbh2Y9xiueleCSnFlO
+LPKFQQlb/DyIMG/B1SJjLf6ySNB1fWM3Y5Xia/DVJCJcsnjP+PQlvuf5/Ch7usN8Xe1vxB7JHpPjjfWPz9MZXnriI85JGP7fHNY5nrL+NkvJAU1Gn2LhMigV
+kHjEg8pT40j5ZhPos/5jnA9sQ3rGP4j3d7oTfxKI/WY9BZ8qgylkX2fSeT9WYQwsr+Ft2Z03a3OcFzjlhHWZHErsgOPE0Q3E4QviLh4Ce2I1SC7npCApTeG3
+lxuYX8OLCCM7CMG0bkRfeCT+KScifMYZDjfiyrh45+cP6rARsdU/0+yEoS9x38tOHh+fqsJFOucSKVWcRS4c9hT3kS4H33KcYyXnIivpqg4al1Y/J5eTldo/
+OkegEfZrEV9xqMJT7K8G0fHsA6gT0YBSpZkwXUEKPx++JL5KwSz4YzOd/8KTHMRg6w24AqzsBAnszK9c6Vsg0LFQUohnLjKw2gul8PFa8u17dooTB4xSlay5
+llXA/6+jsSH/5OOKnYtby7/pnHHIBY7XGRG8ig4nsfkFehTHLqwM4YzebUmTMKBeHiNS4inu32UTQW7CPkRE9xZ+R2SoMMVZFxtmFxkX7RfjGf4ixYcQsUyK
+Stihjzc1yyKwJEW4LjZax3mOPCjCbwKHMEOH0n2frdj8eocEYcIq0b0dFCmCbCf/gTCsq5cSnrTrt65ydevAvwRR9ZV3pSmWYs2OiYUKvXnyZyyU4J7OtvNN
+FgVWwD7mOTaW4CWObAT/pCaftEfgRpwwgokAXtT+rNh4YqI58k3iW9xKvPIo9K5XioN7v/JvIpdJ+dluZRiGyLcpDSp+GEFpwPB1P6hSPoQKFaxG+ktCYgV/
+W5BD8SgJfx0jLhNwx+s5CDGgCoanVIWT+66C9MLWvijOKRoeQN30gjupjf4kiCpcnZ+cjDG8JjGoPnCqvidKqjoQc+CDSIRU+xibBVUy3jJoor/hbLE2AYNz
+l8gI8FD9BwDyWuRrwpqRfMdqXuc3FjiSJWoXkYHUb0/4JEziFGAxVrkCJcg1Lo5SmDTotcKcxWPJHMfGH3UhDgO0bAC0Mmb2XZayLAvg3/AkX3rGf02jbG48
+VE8lK3YuHxE5pV1XGVd4hC0QVonTn66wm/uVtUB9ZOerwMRdGCkmjEKcPGVc1rhlBOtC609CdCDiyAqd4XIARkEwO5hABEtUPV57aheMpQsz2IVXzbJkt1fi
+4BZH2pTe/gOOIhgqynufOjNFUGl8/kRe0PJIwZQR76SRvCXCAl51qwRKWxHERG1vUoYbBpfYaCEd+VBfERbeXQQwJKT6wd3lFQFxYQUEIPFs1yowVPgk/ivy
+6KVeVJM+hot1eLMSim0WwBT/XmBKb6xkTIQDrmFOrrx28+Vinso2PMJaT9e64ie7AnSZdMPiGiumyvMNWVFqjP11Rq60VDi9DM1oEPeVTsNNLVnG2B3KLWIx
+v0o1dkF+YEoGUOomi8Ri65Gokoc3EBww50lGp1UIv1ckBCkMazK4kp46KEaWXMof5AIUJ0VmGwc6R8CwXi6kLOmE0xD2ZdZ1ICqJi9TF6YgLTWieVaTrwjBw
+cMOGvFSKpjqx6aCzLso6xioDs2NYHz0W6xBAXVutJZIwQre/lEGFFVAYfL+ukiOsKvjyoaOLZeDkCsk6IwjXeznlq4e2ofuQeLQyelgJRWUg3RfGnXiAEESX
+GQiPW1TEWzgbhhixNB+HT+Z+Yp4cqZ6XEoReL7Q1RLbPM2hxDxjs2lf9FeCoiAcsaAYYjQdovI7Bp4KbrYJvV6mBxL5943IRqESq/nyc1VHdkCNJIIIq8Zax
+afG3LrzFfcZDt1zit8SnheXbws9j0LQ5O8uEdzVWO2McgUQup3r5oUr7WRQqzizI69KxxftzN+sqk33myBr03ruStJHi+GQIf9VH95zJRGmlNy+BCxeLG3Yl
+1mArivi2qWwbkTEXPRUMtjgdWypxnUdTB1Q9FmoUD8FxMvh6COX2/axvrMyvEVugGiptO5wXg8Hx/uAoW9lkmmInlBBTQ2LB9/wmzMjkHHEcMXa4t9jkzkXV
+uEkC6veinI9ccTziEmNAKdLi/5f8TURwr0fLGT6KL/mCbr/CcZ91mRsfqO1kV/xJDz1qnIlWDj3kXLSLW67brMsR4REV6GRcTLQkHbaXAYixiHzhQ7c/fivx
+AQykwwaXo9ELhTtcO4kTF0ul3GBOYi8ogJpktIxK9C1m2nWCHxHMROZgF6A4LNIMH+DlCicWy9bV4222j3J2rvZJHLalMM+xhWJ3KAb+2Hfz7ZuoAo+yLl5+
+59rztZqsw6MQJ2Rq1SoKHUKj4OEIpz6LC8/HH2kL4FT4LTstbzWQj2TqLptxyDwUgXwucw3C/yO7h0gVC/zbin2q4hwKe0DClT6DfRdbbxUDIdbwMqJBkOkn
+xWV49E3EAsz2oPiRir0LBkLCIXpRx3ce3xtZwRb8UcUgiVFbr6pY7LZxWF99Va9ksKxGR0SAis0NN6zc9dD1KGGhY5+agyRYs308hZLeuEwcQ4gHJNWqXZf9
+aOX5p70cYTu5QNxIfXdYzZW082BRcMyvtM1Ocv6y5LlGdovjEmtkFSCnu8p5Pso3y+tSYoL7dG0EHD82ZdAYOKnx8lA7zojKni1ANUiuI0/so/RRWUefLgem
+ZnCNF7i00xmWEPrSCuYHj0ExPO4e4ImlBR7gAC/pJwLC4ohGNXG+/zhUQ9GZHv6yqsfzisveV1eethTGlHrtCL4eoXdPsD5hk8FfDke3G9cwr42skNIuD+f6
+Nj4mw5vB/DmSDYvo/IGF59UGJQ6RumFPwg/Mrn3yXNX5yKJSCNHd+3Eq6KIWDUykd0rYWyGP1QCniqxZlRWMim0K7h7QrzR2Cu8nYDSOo6Nfo9g4azkvpQ2x
+9bI8QPKXWHHiUa1y/eE8wVQgU3Z5LZQX0y4zDKIvfgeHKp7wAj7ByETW8ZMg+2G7IwTeIxAZy9YsKK/TKRcge4xgLgn0OY4SIWHY2kZj6SlARpwN5jQm+CVk
+b5zVQQERQfiGDwRDCIeaSdtnxda2epSwFjNGFZxdMuHUlRVQ7nFM4lAIA3iR/w6qFlIvP8+GPnHZawnXF94ubvTAlSHDiEeasJ8yDFP6yHHGBitpzOzUJ/ys
+uHQ4/OMTt8KIRzy1s6CNr7oomWCuwZTi4rjGa85CJFbNVe/AYcTRzmYvQVVwsMyqo3AjKqGgNiV7VKy191dkqYLQHU+R5yT9CZPJkZ7q53x8Sx5FgIRMIIh9
+Mjlt3PWEx7WI+3G5qvFNvyq+Ttgtbp9e/6dRgcJiHb34b2maRRDZzCUokBt3+6J4snNNZHZ/NN8lwvjsWwkqmBtTY+Gc/VQZyyOJTTNlp/2TlphfMeb4/Qhr
+VAiKu9s76VuP/+ygTON4FeohgiGLqKyK6HFq4pYWYquX/stAOQUWXcorlIV4YIo4Q9obCAEzl0tnNFKV89VVtlVowExQkZ3wU9iB5ogb23JSPTdf5sBFlmAa
+CBQWmxsFFjZPKtwsMPnmxo5VtLgn42WnQsHe6UEmzDobj7VOPO4ri2CzyPBBKRFH4ND7FPLzqxxKAp0TRyyZLuXgAmzwCddgc/CoCe/0uohCGv1BlUdTKOw/
+r7OQ4L/5pkNnnYOv59xc+Zk/HNxZkCRpIRs8xBFQDbpxNvfqSOEvC3E1/dO4EIm6IUEgkGUeL2qbOR5qrv+BVaarOm4L46f6sFgek/jGb5FsVA3X8Y38aitx
+zQQDxe4q7Vp19VVPm1wJjeXQJ8kzc+KSWN0if+M4h8fHqMwBbqkYkQD1PFo+JJa1jkCjjsQDQQb2CXTwGQZKX6GoBVbPW5nZbpoFid1x+hjcaUrSoRnNSHXY
+zbENo7UmorQIdq8IaGaoY7t4wSAPsftVUV5YNtdYwtdycKkQdjqhEZqerO4RFgL7ewn+mF03aZSATPUurE+YllNL+QaM/W3Usk24Id901kfEhx8vjaGLiHgi
+NNn1VHkYhBr5XWBjPE0vi8//RE57U0XAJj5EHsfbteQwcq5lQL8gExiu3yT7AxXjX6FsDCb89L6Vx+cCsIiVBr6VyakiEa61nECsc3aBRY9fevErxLbdRedT
+hEsiSU4vx0fMA3YuHsEaFyMu3Q0aC5eJi6PbFFtfSPwEWGMuiE9XlVo7hTGdab1xOoYrqxwhYNW8k5O2hGYhy2UGu8qcU8VREPfqTDa+RVj439qIeYCNWQVo
+jvNHER2dFYDRh4GjohM3G9qba8djpmsXhLeGWy02JayXUisxCiKkoqKx1XrfcHH+z1jI2KIId4eHA48lEck+srnb83W8Hu+LfzI5xItTdE6qlRwmWOIxdJqw
+U2oNyEn5r6L/SeSOdVW9LAuecj0zNgUKx2ORkSFQtSEhoOovQRSxM7Gy8sIK47TAWcHU2WLxs+oEhQPWv3YGtziAWLJYUa7CAHLFifhRPjQ564zlInOJLENc
+lP5SSMzdEjtCIHked9dI5En4uhaSiKE+zE67AcRIb2KbVe80x6GeROWtjF4jsAt3tv5xnpaPfONPfEor6ua10cIpA6nppLgYZwZRhtEIWFTJKl2BptpMJ8tg
+1nXDc+e0fNRQQxH6php8Hp/0hS/W7KapemGL7E96+8Y/9pCKHHmlUJdNMhY4HBahq5BZ4sP7m3hlkPgQO+nwNrHT4uWPuszhwwdWO17K6C6hKFtw/ajk/I57
++hPvIfRhuj7r5NqAkDOTlPepJh6lijKEeXkJzgAeXG+KhTcD3pbOnONvle26DjJcPAah9SA2pngxoypRNQLm0dvg3GSMEKyMqtJSaN/kKkCeNz02QbAz9/eL
+NLTG/63EoMLGd9/iVcXAOIuLgllfhbyqCQZvuSsLjg91iYH6SGIB90r9dRP3I33c2yDYR2F+b/pIRMlY31hrZZuvJA8eVsNMdrqKfOKmtnx1qdg1MXjm2Abg
+7iOrhCJ/bvgq4s/8/qM+mEX9pSwaNzA2v6NWUqdW9mZ/l4vSOE1PBGnlSKmPZYe2s2cR0p84IYqjStCPm9rBuVkTYASkJ/ipYYB2lcpaA8WuRK3lPgLFxTXI
+LYhSDYZUbC6Re6yX2BZPY5iDmaXTBUqDq4DPtme3dC0m22EwipKqXj+dlk49Kd+0gcdOIs9NkQEqbhA9QzFUfPgvru0a4tuvf3G209iMkzxD5Dk/LJVdPrW1
+XRHxPAC6TIojCZSIv39drC/iGsUhnBoZfdlsJyspBFAlhFfwpGyGs1Fyas+sGXz9CJ9FEAMfV3feUzEOUCyFw4PAPZ7XxNF+Bo6cFPrmI/Yg8rvYDPXlgSl4
+WUyfnq/hXUBRkoEnceSykAsXzqdLlTh9dP7yIw3Fwm5+VM9aY7lX8EuVvIns4/DoULPFoLEHsKUfYFcXztCY5b0qnmmjJODTTt6oaJCL8jZDe67mtyg82NM/
+Q5Z6ThMCi8GaeAmoFkD9hKFj654SqlHW+gPk+XT1PPygqZEC3Pk2PDHo9F9LiQxiV9+HA4Ew++QchVBFNrDZI+OXgiGuHi4B9VpYA4MyONOKLyizD/I1ksRE
+DyQgRzxeczAY9jUPpQeleLd4i0rYx1VhrC+/7sosnvQSsfRVocqCAdfbUqo2PTVWK9wN0DyZHWeh+5iH5apG/FExi0iD8jURsXzzBqosYLa9HuVOdRxeB35J
+DTM8opI1tQvAosS9x7Op2Lrmt4ry2rgd37ySfMc5YOGStoPsHkAsLtehgn75FfljdfWny73Cmg+YCX1f8ucq+g66QjlHuH6562f4mECPZRwj75kUxVINZDfg
+0MnX2VO4PNI4TeD7zzkZ9xk+ptyrba1/uXmJIIUMR5W5l3LBVWgi5+03fevRQkWT+Yp6NdTsKHZqpG+qvUYIVmeBe0Za+9owA6HKbwNjjTDS5RwLpV4NIkUx
+C7eW6tKfIU79dV6mf9tcXpD9ZDCHQXcLiIpQnQgSVC7vMGbOh7tDhtxQ9NPUn75RobDCqzI7UQyoVbk/FC7edSSnnxEfAoy7yFxI98SSjYeM+AzH/VcfGMTN
+MYeyJ71Z44eFZTjFeWvVMIOPa1bIfEzVHD12LdyQwdZOvWmLOKONtR+30WlEXb+0hcn/AmWf1+G+wzDK/4Mkb7e5kcpT4qNNV8ezd7Npnzrx42rrZNAdwbSf
+YqrqFNTdSYP6BDFYeWt5Y6QMU+MHFsUho2B6dd1+1dMXh20/1NUmNynuci12fhBjskK5/wFVA8cmQeUZCiT1NfJeRbaikWWjvCobxI+corvNajvUq8SZ20T4
+wV5OKSx77P07dgj7n49ORSB1Uanz1wxjGA5uzoUWurolQheOoNp0CtFSbdpXLpmpMOe1qivpyQvD6b5McVkvU2vyu7vbAVW7HYpY06vZTtnpZqfYv3Oa1jok
+VEBWf2UkO9t+iUfb0zYcj9btH5NpOd+7kL+3Y+fjbKE+3IL4olEJpL766N0cWyfT0cMyjdB4W9v5ynbT2jUSSnxzUaosRsV8NwcZzhX9AkTcibfYe/3dEf02
+t8aBwly67uMEFLpU+ab9piQ3x0EJQUxKMQ3pTT+M3ikgAVml7SJWKlZfeES88bEpuNGiNkSNLbl58YfwEYGij3wK7BvpnOM6KvQ4VH7AGIgQi/E8NrqGIjAU
+0sedqRHxcczp+BDSGP5ZxMNqjiDWRsFDucB6dfQnR2gTNtKgWjhVV/iGVth2XBI3XyUaEAnqGo39IxZY/OoLBJYrtqHxQ8yMSfoRk80lX+r7s+d4R07ulaAH
+Alsv40ttPy46Uda7KFVRa+yoUoc7Ih9/TUy6AzyY+iFy81GRLOXSZaeLcoLuOngQSIPhROQMknvtXXLHGnXzOow7pHrMsqzq3XsSZ+glZ8ap4pwoSo1M6eGj
+FwG2OlREs/+wQXB3R5my2EcZnzBc8uzx5CSooym3R+uvBgFmwXvV4P+Y1zy4+sO4ka2VenS0urggmSEDvDGTXJlZzBdAr0f9IR6Y5QcGky1iLyaaccChLjMi
+s2Kzm96p3uZD9T2cg50bh1cGkjz6GtUKjeGiy3uCRTKbvq0CNuCUNBnU2bDiPh53x0ScIZV4nMl+VL5yFYRIB6mHfBOWFW9GoKv24IU2DMGc82/l1P7Rcsz3
+HS5xFg6JPESYjWN+4crHpGLWU6W6sMKTw60I0WI3IplyFcnXwl1ZkwmO+KajsnVuxlZfiHvekiGmP/ZbK5+ouhkfZb6oqP2RBxlHfekMhTk5VRfIakM6ObxQ
+T+Rw3H0CBpwGXcF3tTG5BOVJTUMOOu4JfJpsn3951Y+phTy+QVQ/VAtplZ3VPTQGivFtKrGb8KqPj/u2ynWfezIPwK1WSvEcxeRWXv4x/iDlAGHoZfZ24vsi
+236k8nJfkWqZouQ9ZSJ3KgDxJb9qqYmkZxAU/RbpDId6QN8Jq4wN+ShWivs0Klhbue1ipKvhVllOxM4NjtbpoqhIl+bmHIMQXbVhWgGgLVE/dsuRevGvA8RD
+roK2bDqalvKNJ/icqmNZEcJ5ep/MNzaBoIRPVtZIwqSs+mg9tV3VkkyptW6abroSneIxlk0CGcdL+JwtgyveZkqKPJpkTkn9cF7CB8JTtkYiZQAiZarsWl85
+PzORVifulgLAJ07LtqRj1XSfVFL2zaIw1thbca1m46iE+pWe6leBHy+iIQBWGNu+ivofPwlVhi7DNSu9MtO14dgiDFA23t1Bw3a9PxbLMApM22pn1EJ3Cmt8
+yOdOCovFo1ybjEO49DDEk9Dj2AJsqY2p7jgxprQuOKjkf9u1qyf1PVl3Y3ENTu1QkgRxu63azDGi/MHMRXrbxZaQbo24bM8/aoqFI061f7aSKg1kR1jnz03W
+ECNIVQOzmHfh8s/akjz1GvUEyo7G1pHviDevUk4IGxuGTH1bYAE8rypVIL0RqhEdNokAbxnJq1qbWsylXmBa02Wy6b4Rp1Z+kOYstXuF5y9uOHdXKu1XWYQu
+HMuRZzY6CYVWaCiq6zW32KavzdFiJHwMja/Ij3u3RWo44+fVqUIaxaN5FbXVXNAX1PbJ0deYkFVp0gxEYZd6/mg+Uypw7ZsMuvnetLPKEJM6FpZObUy3UEha
+v+o1gUEN2yCW3eSY+If1JiquH0F+Z2+2+3V3ztjFqePUGPoutuV9Rz6ZRNetDJtx2K3Vw3hhVcUe2t/VrHxrphyCi/96izkk8ThxTBVeHkUlqGo+t5pABITv
+F5c7zpf5e9edOxAMCdZ46GvMpdJV6HQOR+Phl4QFxOuCkPnMRsYhXJFTZFPkOrghCx08NN8OAm2mEuFYnMynwwQ230oJYrjAl4D9J0iwSlmAuAFOmuUMdqxn
+mIqjgRMWpHmJGzMmPDAwsrqhI+0W1Fh6t+XPH8NVdbA6BBWJj+N6yK2N8ze7SQszBb3pcbfCu/FOSlNSTkl7Y+vLVSo1Xq9TYB32dJMPmHX9m5aV6SP5t3Fg
+DY1MaUuP30vFonQIWOc5IvcLn/LvbDI6Mhu0iAEUkiwXdYuf9Z8ZxRxSd4pPUJjoiwvnhbDP4WaQI61qOgqrCgv7ZY812uXEXxjUiwutZu2IqR6p0603bVWo
+u7qwbHkI+EFP3BfSOSD7NTNUFATZb/lMVTWrsn1ZTlGfJTZx9UlFnL+qz1EvdU+LYDde6aehUx81yKukRCu06IOxkd86GkTM4hu5s+Ytd9BCxFi6eJMf+F9Q
+RYfWeyfay+USqtHbjm7wh71ARIeK6s6ymy0kaRMqhZVvWl3qfq0EPtkZHysodtoti2BP+l5ntWyGy8ytIrCprT4OkMp7LU4vAjvkVp9PVj2ym1ZS6ty/u8uV
+nUk0kpnOV6QkdlOktmcuintw1Aq+smgNliub3Esp6aTSOgsWx8gTKj7OaOZsc/vvAfNF+Q8+2QZDF2/u+dH5knOCTUYJcxfH2qWjiD7U83361xz3NHId/91x
+mmMv+q+MXVVbtAo2MiWt01ad6OFRT3WiTOoTcJvAVMCXxuvmHsbnHp8w4RS5wTrjQLkWTF/j3rqiVTZvYOG1R5IWxuL7RTxG4l83a3FsoQSpcDJxWewuF0gn
+ZeTjJUBpLFL9qg91vbUmn8HMNpG9tjjwsB1A04U4ihLR9F2AZzvaZTIQr1ys4CEnLbufpglYxblVxnzrJxn4Cc/dKDl3WS6yyw+2KBaqz5wQ8ayWBvplUQuk
+gpNtrj4GfleM3Vvo7CHfe+8MpXz2rLaPWPr1ErCyxme4kY2qli6yFXx217mlVQfWQfabHOhbcUX6A6NVohDHYnHhGaiGvUeaLvW0iJJfew7j8WMChxgAq2te
+fjTsTjaxQB6cbpCDAEepCGDSzxU5qdgd7kkhY1SR8zTEsThLW3BacfvSP+DUksME0LWT1W6YgB+f1VyD2r6KvqYqfmVvERe3IhU4uGvPsjSe+9Q6XC3mJyRC
+pZy79v6I91Sb6dVY1pNqG88KRYGwH4Pcv8xnzgZYF1n+cD4fcVMPZRzhIWEKUqEDaow9aZWIdpXen9lV+oi7qgU+tsv4MAJtyVZcnGUZiE5UF85zvBQCIkSw
+ykXT/g9uN569uhrQqyAiqxm/3S2dcUbjY0cVd1V6lYOjYe2SvlY28v1WpgfN3gJk51S6OsgOrwLj5vRbaS0mfYHgqZRPCPAhovsgDiMCX0KBI2Z/xXOFhVgE
+GE67g4lI1iiB8QfD53kho5tm62+YJxKP4uOONlFsimqhtBfluObc7cQN+3vEcKThngYB7nGeiAH3XMwrttaemK3wpRp49nIUWo4dsi48NoqcT+zp2loVDrNJ
+SLZAVlQD2hLSklmeaKk/JXzl6/rcHXPxX+PDckT7izu7dD4/brdVY1K5EzMXcMI5xz98XFvrPo8XGrcsEaZExeZAngLP0oRsmjTJ7q0CjUDlZHLqMLacsBPn
+WIHnp6BYFsGTY6NDlIkMyG9QXMXtuY7HIGye8ObMlnZkkXpw+Q8006wGR3UREBs8pYFCTHHjmJGjvXT+uRnqFVCjkfoS381I3g1T7lXKbtTsJzdGC7sIl5Q3
+mB4DJ6rAahhO+gAx06cAbiUBx1HkS1eYA0sqLt5LjCktXU3qCKZrrAVrXVJgCikXTIpQoboAR5QQDlz1SMpAxcoOvZLmyPsEUp7JcaWF/ISJqI3cJnq83NIY
+IUeO80CsejTlr94klh4fJEpaY/VBO39H6OazEHloC6HR2WjwsE+nqotpRJaCpKfbr8XrHbbv09qOz4qiSHabxN2wPWe7doqQGPRRueez6YV1DjTDpf6XVP71
+c4hdHbboipXk2STjE8sxXotJ6Hdr8qJSW9zJvsxm26tdWCFrAddXV6KFQw3ykIs6AK2nVKJ0LDmNTc1IlP+47iZJ7Y0fCU/CJ2soCUraQsbMXl2b0DcljX9C
+ApiqZXmY4dDvjfEbD6hikajpYHenPN9JeHqU2YKkEeBEBnDoV9EOqTsJ0vPyujcsvMozS3PkEOWeLxXY7Sa/GdFIrMCsHAuEb2ytEMUF0LtxRykOpsBZLkxo
+k+ZEJjmMocZdfO715is2zauiXNNYE+C/jI8QUfxHfKeVMpP5iIMZf3u603fxARMBQrLyq3b/EydeTGUqchGsQJI6pCG6IVEGRpd89BfJraC2NN0+mDpM+Gk3
+oA0WrvmPsHSr4nFwm25A3EmZ+DBbA7qwSy5DY3y2szgZyg6nAnFrlO5blUaI+vPRiyKsBLWNmEEyoL8FbsZPjZiytPxFJOUd2/7C9iS3/3FWP6r8pKbGs9WB
+vhXBdNSDLrD1DcAhQmxHR3O4lhVFkFd5vJCA4A+TaBJrsgLaZT6Mw6sEIQxLhtoCYjtQClIYnhIZYrxKRDRiahjIDkd9uj/WLcIRait5nKvk+eAwsSDu8/oY
+G8E3i1K6iYAcNwF32Jv83qdORbRLVGyD9talbUbbPSPrJwurVmPHBV3H7Arq3TzaWJ+uBF0wPahNr2ejCTbymXyUJHjA7IBLtklNL5+G+lZV4aX6jLJmq8VL
+E+WXPtzwSqonPiMqc6nOV6K/5lvRNq6TuxlRwEX1To2ycQ/iG31e0t/PhreMpf2tltJodFSIPx+CiBMchUWJ4/4DuJ10urDrnG1pa9lGWeV6r2JCLWomVhga
+eXfs5JCJd6p6tcU8VqEKokST/RRjogmpFoswR45Ix0QYh3W2bqZ4zECo2NgeUHouEa9FyDxmiSFIXGtzttTTCXNYma6BX65MdJZ6ZrEBLCETCTDIjy8lRVFe
+GvUlW8QpzDOV5cNg+S6ZgWw0epN6TBwAfsDqm5i5cRTVIreSS/5V/SLNbudKulM9HclpWsKVpx7Nu6O6x6UVZQGA+AbJq7jUVkUnYRl+EvfRmisohhRVqLHf
+Pq9q4lCK7CZzQZKXlb+7tOFds5uOZTalzWoCvoRARaQQ7RQ23JyEAhE3uG93dM5Jot06isVEgRFNX5orxlux2iw1iKasEX4MQCLSQuESWZWWuJYfl1sgFS+K
+nBQT/yS1sU9UsIGan5hMgBebgT6clqrsg5aufGGXYd9YsFWy1JJv3HUg4xlF4Sf446rTs6ubmcLbiI+HnVgxXRSBH+6xa4pMtkkVBNeUVUhrtw7C6L642lLJ
+temy+QTi7ztc/7eweBjB07n6CenPPWxna2ykUK4VRiVAiRaYi6Vd1HK2kzI9yi9sI0NXLX+xnLYF2jaTEzeLLYXN/1Xvb4P8CMrVJKnAls6LPBjxhrbytdyG
+WsVTaY0q+Dn104G0EBZpu6VrJWPCtiJSmI4iVduCvKkRVnXTg2Ip6ZI+oC/h7ER+8jGe5QO5KHfRpilxm7N8FvILN4Z2WSGSeTANmhGX/IXNEWVXu7+EQdRz
+9hIr6y2rpSIqJdg6D1dPmEnpDRl/42BmP74fgIMWgUvQRY7SNSziKeJ9LzUTaCmzmHAqdou6JekV7j/mcSTBP5Amj2dSgCX2aN+C6SbebT7iN9EnRsXMlZxT
+PRqE4XDHJPFBvsYi/pp8EV4BrRYYEHN6zvmyBtO3pWhVuFLj1ma5gVanooFIEu3u/xcWdmtVQyCMFMM01bu7XrZ1t39LTXyGPdovdfOj4CuEr6AGbN/ifpfe
+RFIQ1KM6L3AyCccBBNi1uvmWfIlYW+Hcq6IZlhXZT4e7JxQvSnib/JyeTuvy3Bavo3NYofQdn8tWaiUhYVSXxNIlu2YlorCI0gzvCxIPq9sXk9MC3eO5WSDJ
+2RcsyLMKiy1f0cDV+aEGXXVlOKq/hiq0rpO7VOC/tzxo8yCIpTZyxlt3ApcGkSaO0vXvxgV5QTel/or2yYHTC72T8KLTIgWql7lctknhtiIZ6OgJAyAWOA0L
+KnsO+VZB3ne1C8+mN9IZa8aExRmQsLGiEaayKSYAmJ4Wz08fXejNoL2szUvSu0cjiYnokibOGBql4j1M6oF4XtLWt4xbfIM5I6euzOkKpmD3PNrObLdSq6qg
+lMaq1EDImIkJpQc74oalU6rne7bsWv5XRGexzYrDbwlz8lpq5Q7DWxHILDQJOfzhmPKSUpASeaAeUm2aDXNOjki6Bro6/H2bp9ssU0Q5v+7dpEf9ZdxbxcLD
+h+uWmteFrG5+X7IQWLkRs/IlMyIDNs4WkRqFmRWp06BKLNo2LkzCTqfl4I5mziLz1RrWJu21XEXVZMugzjaQr7t6C5vFBVdxFSSQZjoLuQ8Z4kfdxVTEPlDD
+RadzouW+cyTbJTGnDh7pASA/A4BBIWH0wYjgHQ105fwWbAUSkwL6WzyZ41q2pueQd2WbYQ6UGmRpXdGTLwSKXYBFyEmeDEa5nJFope3i0jUpv5ZDGkGZi/4r
+dlEEyVNqiqdU5GV6ic4PkBNLQMM2QRTIuZl0qYi5CIf4RYTxP9kT6ELEuaAYEVTuxjTi+fsm8aNo3X23ZY00bvAYA+IsQJuvErW1DY3JUtftyGC1Vz++sEWk
+W0slUXDKT04W5WElWLamg5TRrDTdtKWKAJvIJ2cKPg/I+fR+NxSTm3Ng3g6Hgmv6ocYjpTBDBtIO2Zyrj7Z3z1bkGqqJCerXUstX3yY9xK5JvwD+Y5ZMnCeR
+tCBo6ajYHYCpUrGmQCA168WF8Xe+OSR6DDNBOdqr2LPwSiDT0d8ZyyO7sIChiYOJpdj64j7wVjMiz25ayYY7wmGpZnKzg69NDXIq5jVxjaOV5Q8I7Icmmiy6
+C2pCOF6GZMK0CwSbr8Y3VnlZfiT+AFUEQV0hN+ksi9UYaAtcOoHmgii71g7uwq+UMmhcXxW1nheFNWi39MK7V4ako6wN/5HsSKOAu2ajyQefs2G1qte34t6g
+dweQOe8pCxGbSlnm2MzG2KvlrjkCESviYFZYzJsaANUsoAa8bOmRfH5no46S/hGcJJkA6oc/NLHHsXOv1/NpwcZ9Vw0BNYjIOn+vrAkY9dFO2ZY/LZgFnBcv
+QzzGS3QY9LbbsB+aPEiITL01m1oFlS73qwTQRPylbgAD4nQJ5qQgq7fWc+ZssPieAzNLWf5lQeCXcCy6SmPXRjX8VLVKo+shSVii+NrUWpXT3uocShc/6Gbi
+NavFAOMZJZulpkORk7D4UIrdh+epKvPipuedhgpVpEwvvJYxmX3ylVIvrU5UZYBGaSE/OQ7wHsJ+E1dS8HnsdzOm2FUaVRWuU/KaWdz+OCqD9FnQFUWzmrf5
+uFNUFq565IMUut+mMb0bTYUlFeFA37k+DJHjb+jd1HlQ9qQWoe9saOintiErjYGMEm9HSx1O2BdQ+pFbo0nog4squLDKKTOEVf1J0B8hfsR+la954ged4xHT
+EXh4GEWYLIGLGQ5l5yN0ZAu39pNk9MMyOjdFk4gqLjjxNZr6RfPSlNSyaNVwhdpOxZypfKxCP7ne/i7KvT+Pq/WCSI6aGKcxN+lwshC0OdyvsnnM1Sm+/G5d
+H5pb698wp5peTDlQQfM3qcK9iwURTpmi6wutHMmjiF7cpPatkafeolgAeALSZRP2AYnseHxzm3GmmgsdSsUp6WXFd5HEhfVJ8I0TrWykT65gLNIKmiUJ+JBG
+mPXl1dJ5UdgyfzdssyJRKTZEKiqs7qD6q6Iw1NaGtMefOLpWveaintaiXRrx6ciNra/hN1tj8Czp2kSwbtEeHExjdJ6hBTDgVN2SmtQLslRV/8ZxpUlyH7cQ
+sFgTFvjVRJiwu3Oheajeajlv6jERnR8vSTqoQYXDRmrY57ckpiEfPq//XYme5NxKzJblV7ygXkH4Ph+FCSL+q6cJUSP8cGz+kh1Rdk2uQ4b/EHdbtZ9f2og2
+zB6+PPz6pmYYylXUnSeJTVqQUYfjUHAmUgU1w8E9N79WW26Kdp+kSRzMPQkvZG2lN3Dq0Yhmfyi1aIaaSyOSKgMqmuBVXH3JT+8a+fOilCWxdsi9JoVKSiQu
+iFpVJjW4uw/jL6w/3jQbMjcEvTvTYwYz2a1oL1lVJUnLI7mE6nEN/P5biWe6KoF162viS0iCq8BwixjPYLJz6joEho7j2h4t0/fgJvdkNqaY2k57qRiuonMS
+IxQ0nyX7J32auSFUH1GW/R0YIYL8JNtGYWlXJFQ6efi6xKVTwepIjb2pi3YdVplZiA5b8UKttHezhTKSVYxH8UDmVkVTtGUUYPD0DYPQgF5/GkoFpVBJ04UJ
+KmZ+Cgbk7lhtc424tDwameVVVrctaA7CytwkfMRe0yB9/Dg8DeFKHxNq/KWbKpdbsurLwUgdtcCempmyY89FLRUNlUQiHF692hSxSRGTLm+1DtVIh1BSn6id
+9OChSpo31SgdgzTirSSD0Rd1VuQEBj91LoamCx39MAkIzUBKykIScKRlaAXRX4sdWsWdliaRT/kigfUvGATP3P3GW8TBiuumwVDx7hUatIW2byXfrEE5WaVv
+Hkeo5j2MJFuvUQBHHm4SBiblHnRIAhz/HlkplSGb3FltDl/c674ROzdzsWsbD4T+uYS06QX74CLj2QrZnSuWTdXHFlJWW6OSnhqmMnjdItdKt8TWXaQPJ53l
+0smwMFYWEVF0tfgsw/iyeVwqIdB1wz0XwGOdSKeSalKSiZDx1ho+dWxF6pSdAuhaRFBXXp+MqrUL0oOQz0kMnoZ8u81L/C616CJflUXxUsInckn4FVAX2FtN
+NIi0mfBYopZGg8RLieC11YnnDN2m3UYfP/UfdcQdtBqI/Ey3RNqb5MDpsEZgEBpZ2OfFEyMWyaE7h328gFHvcYgOcdFhzmbXDiIre96VDvbgEH9InusWe60i
+W5/EJOv2y0F/GrqG2ak/HeRYhaLYXMk4xW5QI16E/BzS50AQRFQaJNzFN84/ah1wLR+BRUDfMAA0T0jmBLRdbV7SQrPRnj1Nx8JV+62QuufLatar0uieRB8H
+pCdPKod0NU/gzpjOT3UPhPNn83MOx4ZV0YuL0YdAbfWDRnhyvBqS/yfYq1qUGjiTh21oUKcGEKjTdpdZHCV2iF7ibBxO8ivHQrjystwJdp9aLVgSKLJClThB
+/JGA5Ve5VUszD8Z+zebuSNYfDZLVcJunwIhuchH8g86YWulqoFrODQG8NOvxVX9BM9S5KL54kzYkMJqauHz4LH2x+0JWF/FhNFc1WRNcdrSng6q3lpa3M2Dm
+laD8QFvAyUlzgQSqGmNVJvfzSTF3z026jaa9HUmFJtP65WgY6VjDplc3uKu3i4yI+FyvZ7XoOdO4YS7woXERltqaXU2ePNphVBOuOmqtLRkWexRxVw3ZWlm4
+J5fUIltZ+inUXh5NajnoXC90T9BC0hQVm9wkruxwVbe2YTsqvV7a8LFm9GqeM3pz/eWkr59di7qbswxsYgKWNsEO3AWTTg0hDi/whXR+KNruVnCh9oYe2T2C
+VXO0GHGRVLMi+nuZQcOYOE1l5PZQMP6K4ndIRP1v0mcDb1vzxpsZUCZSicjtdhFPTxIznBGAc9PIYDuReLCqzsGgxY8odGHZiZiKOm3aRE9wmWexujSYCO7j
+0MuXB7aO6kdneiNd/47rW/wtbSlAZbHSkBDDxz6f6kneKUypaVMdxy8pQ3usTUaJ/CWJZEc7nviwH02v2ZTLi2K1BikQ2pavBB1QtdeIR40wjCd/KoA77hFF
+XfpBUqx+raVYy6FQWKUNZqbGNxU0pcZrrp42wtwhihtqGfJwxUSeT4m4okK4VNmeF+MPpXWdEbueLwszxjF3LS6W9amA+KTHXcNCdk+0rKhFy7pgQJmed3EH
+pTzMxZ1FIe6yR0SeoBZSjZsfqaiU+iH4yyI4njj841IGuouO3sg860dE97mpAna8gvrjfBrj8ZmFjTqTal0aral2AqQUS+uKWG8yrQ0NUy9uaea/CRhHk+QF
+ixqV8dyLv3S2TvurTe9w86RABvms+DmTLoXjKKSU6VXzr1L1CNU0UQJGk6o+bXoRoZEzfGm/ak4wW7/TX4G1ElG04LKtcFR+YXNZf2RVHRlIzmePWpvjVcZI
+XHRQaHxZ1lWwbENWNj802C1CUksFEn4JkxzNbLriiKVb2VltVJJMUkrDQMv1TDp0WA/YRmoRkT0UeDCLLoYDHASO0IRXKM3gfuI3Ja/xWuZa6Tqr4iTpptkN
+KXozh3yptbKuh7H+J6fnfbgLkE7wto69u797q7N2Ksl01gzsLI8B0VUYgw4GFFbsddPiIXzQCI/N8vwH3G+V4/ZVqB+YTp6tbiqzSCbiCZano9PZY241rkLB
+yvRpmluCVJO2hEKa0FB0ed3qsSMOfpHADoKNB3eIqNNGAhrlEMs3/RNnGVhEVZ0IgD7OB+RrkosW8XucPx3FYutZPHvVzVyCccYON7Qo0N7i8pqIFctD+T3B
+9aGhT/gbbwO1R7Vc4D8y83hjHeEnZttl3UImCef8UAUrNuQT933RsF08EXUgyZtLHtvV7sYPPbWgUMPgcf1U152+wjuHLNacmuoawVDDZJk9j995SdQuqxBC
+P7bcIk7TOGyrTV1Zg1uLl3Wjo4BYkyb0uyFTg7rCmOrCzsli3xawTpEerZdFoV9akrgYCg4s0Te1PiLqHGOcqGfqaC/IzBkBhUEtVyLpWQL1neGmNGN91Eah
+ZOM07e7UfTfTwjZ4Ux1D6NncJn5p6quYg97RqXVbzOH55H6JtE/Pj6Sob1XFMzshDzMtOrQ6kUSYEAr4lhSrBgoIvhHmfuj3AYQPE+aRng2WDovZ8MJNoFbD
+4zWddRMU2GIYxVhf5kGncb1asUr13lf90gidIpl+m4hn2QFqzSZJSD2+97xHAcyfw6ldvP0lSoIMLTTH1DCVDgmizc1e2lrEIyWW/qGVPjcpAgQPBAiiFjQr
+pcjycG5MIcFEUbqOHu/UkJ8wO1J7BiC75zWLpGqargDDp/rO36VNbNYkbcCyYrRscFmr6Ttp1OzexA5WNRsdGplS3cc3F4s9z2Ei5/RWDxBNhg/sOyNu5jZa
+agZ1ESlCEMlE9SZrroCkwGe1AofX8pSxRX2is+Y2WG9aQ6A8ta8zHW2RGRV9fDZJv1Mf74fDEO/ACnksEYfjnZNEW1fr8W/uCVQrZ+k8R2e0pHrrwDxNxFmT
+xpaQCRBZ/nM01gAMn5XBb0j3yAzztbpJxWTC3fq0imulAt9qnWLgd8RAkrL6dFLNieBNOLE4TKS4bYbU7vlJBtVnS+gYvb45M0TXXj9+p+XrqyEKpuXRbA5k
+fM+VNKjbNXVLzV+AVBc5wxclNKKsSDJPJwBEZRQ7H5TkF6m4xsfpwC9NoO3mYzS2ktWmpaVCyfXn8nBlprbLPAuPwEIjkyHFqvBdaGwNikOZaaOw+N0Eef2s
+X7HC0GWQ61fqp+FDChio6DVW84xF2OW8SefrEOZ3pTQj7kDY0N0sGgRcP9VzM32IEYHJH8mRVye1gxABSff/jZ13H1oseHxwVUNVAxQbdtS3MWHdZS0yjzkS
+zLemf4BnavaPA/DTjJ2wa0J3/cV4wRRIljr6iM8ZRuX4A9R2C0LS2KqiGWal1xS5DuRzEvRpBiRzAw83YWpTBvUfCgeZYcWpn/FQUUtxaFxyKaloKAFUwVE+
+hxzgsI4f/Tq96Py1DR4S813k5Bor7nfNe+utkO5VVrPCl8Yw3O1kORHr50p62riqrHVrZiTwbEQH6LFZSgbulgM+cY6+TUpS48fquX7cuGd4onoOpSwMqg+j
+mfF3eP2Q8KsE3a7enbwzjbrrX6Ub6pBRnqywp2uQ0WkugYvWNM7QQn2s0iPNXfLs3UMMoK2ZWIJkB5NMWdgN/bxNaFmyomX6ySpDhUZdIfcYXC22oaKDlYgI
+InwZzIXyT+BWTu79etL0DbLlKAYqKdioofEhqy/OgrQ/1bBusoViIpeEes0lBmRFnmo3iw66m5SbCSAoHFHQi9ul4japGQkn4lWIJJaN+nxXzeuNjGdUrzUX
+3ST59GahY+EHlLTLqBHyg8dMi1EleXkT+BczhKzh3KWb3tj9DVr4rfOXxGwxwxC0hZRFLfBTI0sy9VM9zIR7W+x7lY8/DRE4KGKKlgN5GFFeXBWIedLw8W60
+ePlL41ZZMqRckhTG85/tuZtoy4WWkGX3GO7RBBOPNvJ10LvUS73GR0XWTBBqONQFhSXG+EFbQiWwiNK0q49zK4pPNklkLm5yXDQfDtqYx0EAeF2HuvGYA6IB
+xyN9TXF339KjfjI2THL8LrveLeyzguXOwIWwOJSnvwIX7mkW5AsUwzWqExpFuLXwa1LHLBu2hjZrcV5mZx1/MxTnHGbhelpI5zgU9YafQeC9SrFSoMJ1TyZ3
+B1FYVpNC6erXDBnFvxxPikP5J2mwBDQPd/Cy/xqXIp7Gby0j57i+Pfo8rmlECrTxqb0GrgSo25C1pqDsalV4PdwuZSlk2rasGm9uPoo1w6kJZe7fTKO4Wdci
+qAFT6YL5M69KKp62wFkjLFe3OPRtcEPvaW2C5fv0Fb0F/hWzrBC0037kporQubdNN6AzzXU9uha+THS7oml23hOCY3fIB7Gaq2Sdekb/4PlOz1E/s5SNH56z
+QmevtdM0fDrd42wtU5bMMae+AIMyfi1LFnIEp6xpJGULn8QynPpNQEbJQ9P6iPgUjzSYrRA58Y+a0gnqpEUohayXJ1wKibPJ6Cy/07nVR8W6OWmKX1M6ccuX
+KmZozB19G3bhXkZNj95Mg6Q05sHGp6cBaCiA1fWXLJWCHXr4bB6iefsAxNnY90/WmSG89dyFXbRqHDVveg93Qcc7TjtE7BEikiEbaf88bgkj5mbuHtOyWxrx
+MP11bwKcVDPfagp8Vsmws8bOeVw6PlQjiDOqjpajjEu1GhJ1rTQonY7raCmaOKzV5H70vCXeMZEbTo3CKJTox9QfCAduZHa18Nla9F2s8qx1ox5L5/qNYNw8
+KHKJl25TA2+5TcjaTQhvm93X4P5mNJjfhtFQO8XsiE3ahIcrLsjaTxqwJ646MR8jn6Hr7DVr/jJ6HuI8vRTsXYdanD0VjeO9WgZ0v/cVLfVDTChoFypXpFYK
+eKqMNETQi0frrXTq2bl92uLmaJRQA0677JIeycXbEZziGZo2VklrpfBP4BxwptTEDaKwhdcTmbm2yNkqXjmN7i5sY7PcPmFgHYh5luDjnH5dDXztCY6i4f4H
+5BfvpDRI8wSZj6DvjxXQgCCJ2hWNXUmd81n1vqsoJ+YrttelDxRARTgtYr5Z+TM1fG2IREpT8wR9ueFHLuQd9kDamg9xHz9GVR4ev3LSSqJ0zB7l8qxhytDu
+SNRkiMYYPJpaLpKiszBHgAZzrHyFlzansRF5RIaHRkOW43ab9BXvd970foL3noxCRIlFPZMcpAiLgaGani/hqqb/kWfQABY+/SJlZmm/fNs7QUxGqTZ5eFck
+zOBuonERvBB9tHxZAyEP9edZPILkchG2JcGnNZ2eVfuq4iMZLN51XK++SIVO+4zXn2q89QuLpmIBwKMnNGqCRyR80tDNh8dzZM+lksnxbNzVYm6EJthPxpw5
+E428Dy8kRcGPdrVVtNzmlv4bHKCGkbqbm29g5a5vbbhT2jNQ/aaLc68bnBr48oeagnTQJW5EaeYC0+bukMSszck8Xteinn5X01zNWo0nv6yS+vJfTZF+anxk
+m6ZjRO0jnUb1W3DmT3U+lE6mWbiyLNDRZoR72Gb14Dp+KH3Ud5GEJWkahrlUIJnu5DpVIIsFAfF8HF/+I9fI7vhSaWCsIoVcgyUbpNEGtyhrEidK/BzkXQZA
+Eo4gUPNfb4r5yx91ISTony+idjToX/M1kkgLXiNUUtkSlVep4DITs4XUnxfXimhVcgwW1xty787NwYMeBsMhdKq68y01SmnHaClEoAxNT5QUejozZOW6jxln
+JwfGA0CkP/tu4rhZ/NxfddtJtZy1oZtLRDiIDTvQFES4pdnS7UmP2tbUGsyq1mDu9AWXy5q7iIIOCulrGHCm2Ktz0NLY82/dGxSviGVqdmLQAAH4DlnSQngj
+a2V5tizYjGrk9ZaygwbWSYegKP1zPQtuAKYA+LUI7PhCYsFbQ60Cp5lML+siZeqaVXuvvieHf5PoRNmtpzbXxsmefy3wUXAnLImu9O5F3D63PCJnBgjaoH67
+kw9AA+i4safUNJKmYQvv/VfbRMnD4680zlXh2j0YbUqf0QRHYj0C16yIDSjA046YuwAV/60Z0m0WPHKTmsBLPVzCDbHGE6lYk1UzXcKzYoUr0Kdq/RfpjlHT
+vwvmGzrRv3RYIMNCv2Cirtm8w/nVHyar5O8feBUbdpTc/9WOzprf2FIPnz0QKSD1VyB7SFBgVwPCMMQXcDZUOU/ymtc0u+3wY5lTHZxFydzTJbOhZrVNNmFo
+68cLHlS1urEpO+nFeKRQV6QG9/QQ1VUM+RWY6/0JGy+l612FWbNqDm8tGiPCWMJhN/asKOxiabS5yA/GkRVH9uoOgNZCVhvbvDFoJKGCOWs0queYqxbu9GtU
+JWpOrV3yhWr+a1cI8SPVgak0XyIdbckYz1S+NZAgDsTYJNKOXZxkAr15/0haunddkcHt9jNDlgh/pDWqWtQmFgRFjAuNPt/bo09OIcGqBVNTOJruuxZlR7Lm
+A5q7gagOIri5V5B6w6XmSEVKEQNInCj/1qb7TA7PUNVDLU9MaVekzuVAnif2QGkv728giMiY9HLEa0KIWsgwlakfmvSu7o7O7ZFdZj4C5K5LUO6lirT+sYY1
+zZJbOw9Wyom9pluDN+NSFw2Ygic/EsVWFDJ/4k/TrXgZVr+Nz9EYnEXK5pe+xy1IirSaNIGIwFLAz9U8EdoBqzRK0S/QzLwLqzm1v2TYnpJWE7tFvxkd/Esd
+SvqMTd7tKZ3kwb0l8OkkbLCaEL1nsVxNk4JK6KkFDCMQCeCjrlPWoiv/lOm03C43ejDXSf4mLuHFFGUsZ1yUydNsBUT9Fo/qPgHXn1cbTzqwohfVIOlL7BcO
+yIRSrw4A5q3DSTQacQdJDbegpbZLvilNUtxCqXcuiAbAEvFcdQmvna5cmE9mfCJWCLMvByQIVNi8Jseq5ghH7KEIQWD0UJrWBC5jdy7UqB0RIJbcAk6A7swg
+aWHymv3RiEeiU4Z5foktBWjQ2m8Hq6NbNfmbmj69MrY7bIuj9AvoYykUBS5hZYZsOhKn43Cvn5JHTaABRXAqc0g7ZL8kr7xrwv3eZn+qH3NITTTe45vIMRlm
+w8n7pb5wEbnqgCGx7rxAgiZaU2StDVJNd+QhQTHTlz8akxZxyCgG9Ug/UYR/Y258pqK52BZTyozmwEJn83KN6Kp1OOv0ttGMUhCQKIeO49VKINYu0YSTqQ2R
+lQ7RjbcY0O1MShIVa5UEgM42OWz8MqpQKd7nCXWQyNjdV0sT/8IxgO7FM62emCOtp9j7Iu6I1CA6lHHitA50bX4EA++i8EiVnlJPUXIzuLrLACuiI1VzhL1+
+LLdOHojc1Y9oyBLz99GtF1iNB5lZY9vN1koJTQwHEr/yqmq/CIWR2VN7ioWejRqGMaJ+61Fp4P9CrjY5w8uVGqtHmcLUZsGVfbl5Vup46BJV/m/6xDfFGd00
+uJog+XQ/F2RTFSHTV9R5j2WBlKjhtrNb/47GVWH67Y4wE7+Shq2u9CSVoQTfzeWliriEuxVaTQ2dAMgzEyLDzfaUkqePGiIwH4fSevtdNVTFAip4XG6m70wO
+ESzy1URAmta7YprB4DmLjo8HnxUxi+AKXt+4jBqrrsmSb9EhnD96JBQzVdN/g16VTlTCuS3HltMf1c7qSplbXP0VQLHU1mbisbW9dPNQFiKtiMD6auZPo9vT
+JmEkO0efor8J3FO7bszrkbQw0T3YgSeAYhTy/bvpFtL4Yk+yEtg8xbL1t0xmNTDM0YECqAaTNnGAgTDSofEcWJW8O0YbMJbo7lc39TLM7y84uWdKUzSTKka8
+3OdkMAxxJKX471oScEykYi4bmkJglHCe7xtqBesz3/MfPYRXI2guJS3nZCXw2AWmzKAKrV6qeOX6z7qJb4la1JkJ7+GywVer52I19KmNhLdi68t6g2Kkxv8r
+X7cHDLAuXp4Y8cPm0UrRxHptLS9r+aitg1YyTYMgB2rl08cQ/ye91FrKbIc9G+5/yup5yFSczDY5RdJIEaaKNEXCqAWNXwdmfAOx7h4Tkqhvn1ejANOFO5lU
+L90fUcA17zZRb2ReidjOlgGzzPOhMPVK8x2uSqDxZbGY+kXLpR7n3wjv2b0wyoXmKdwJaUIDwTTRj0L0T2x7tUhSukQu3z2svYksPiUiIeVlTT3ReMs+uV0z
+bm8j9xrNBVJsHZAKXqraXBElqRLVvWcQKvq61DN5fOFzHKl1nsTl31HajZss2T+1Y6KmyFBBk2W3LJZOjWs0tIGA4u4c0irR6CBfS6lwoSJzqSHTCIj6f4rl
+7l+5uVGpOU2RBowETWMdqtQeVE1pCtxxeQQLxw++8Pt5aHPrXaEcxLMc2ngaNVrNnqKQNCLplY11sj0VqqQdSni8H0LuKqTE0+/u0cj4wNdtq5XJvJsjnDWj
+dFdJl+JWdufMTM2bsYSepEGnZxXNxG33CycGAjT2qeqpX00gBeWfg92YLoERkzWd4vdI+aTN8c/qwoJ9PXCWAoSiXne0IkYvuRxKHGPVTX5SkTZLt6lAbJlA
+mDvKqK9FrD4BC9DQr8690xKQ3ulCI5RD3V3CFji0pu9+fa+GGg336CwWJA0SDkdBK5w3F4aRvvF7/2kyp+T6GzVWK8vrN3vANUEm0ozeiHZ7JCQ0JiP8HkX8
+F93dU1XJcPrTlZ10jlaV/bE4t+RAej5GAfvPa5KZeFqTQe3hEdE612tzyaUlIMsJJ/hw276HcFnQF5J39Rx5OolGskKN0NN1wGofGj2IUBsn2bMxZuET6pk9
+2sxA05+PIbzYO1nbh2CBYrw5YqeE2m8Tb3panFiPkjvqCziKkoCDXo9gaSq5CpuJglXavqW397TZ3V7zP1UWlHZ5gNJCh/JsqUg1b89NiaIJ6Hnkq9qmoSxf
+/jG1tsPRIy7LlH6m62/kKRzgMipH0yWgKGp2rHnXvsFr6zXJs3zFgBvxeCdVC6TvrNYFZwj75WK63YCAfH411OERvWS5Hlgfv2peE/3eStdnkOPUJk3eqjiO
+ZASmoZLyERv+itWaVk35It4qX8/e/nePv/LgbcvKHm1KENA7LAdL2jLiWq3O4tDMyYrTL4nzvKoU8YpnF/yURfymibK4b/OuTCx9lY6PuyeyjijxSDkwjssg
+7Xl1pWmg8K6MgVM2MHQQSHRBNACF8pUiFoCeCS8ihwylajXVYs74tCwpZiBh0PI8m9t6SM0SUovHfl/L9jQGaK3nKqJO1kTGNJxgO43os3lJ1xLnj5stN7Jm
+KQ7fsyzUflOk3+Dh4LFWTeF/vm5Bhf/HREVvL/966OeykSWUWZoHDKl7lPWpWG26IKIbBGBgXzhMcBEXFOIgCEd2bW9IUiLwvACSGk4WhuBG/Y7zbf0F+ns4
+VlOR+tQtnvdAE6k1MhRqRi7MhgUdEUehGvRRY+URedw9vQ4B+8M6a4vsN0X3WW3fp6MrNaPuo6Q5Z3X2qmNW5NKX216VhkKnQQnceYuUVQWLhOFz+1JCRcMd
+kvpcplZAlw17Y48JtBz3HKHeXiE1QUXLbTDgGpY4tVbJ+lW01Uu4b1UhujMAL1hFQzoNxP+Gp5uyBYPSP5BPCDYaeNdmnmpWONnYPfYWBEnjKAlLTQdQl1NE
+HR/RjrKn2A+SrHZohTeIyGmbdEbiWroSGJfxHnpVkjrR20Q5tABmLyXboB7DhwbmMSzMHOa45BH6/XJM4vfB3Y8O18ek0YMMKzkPtYu7IjL8N2lyUCVACBwV
+V55WCqrq/w0j2gRFNWyFySOrGGgs3V11LPbp7zbhFdPEnURUmBB1tAtRW81xyZUf6oy0RsnpVqoj3zN3qCHSn1Uq4+u3Njot/jAm04gAI9G2U2dBXEEpRoki
+OgigiQy0SL10q21UBvgrs7wOyeaGRxc2eShN1xTSQ+moo5YsPZuIZzfjdTI4Y2vIe86qphqgONwnsYtZIQG9/DbskVtDI5V4E6x2zTQnj4c/mKUcnD0q82jO
+gnp32a2AeSNkrozObfzjW51ZLLI4ZYd67EUbphlAJJYzQpi0EvABvh9UbswyOySgR21M/f71CUeB3hstKnqCK0faE6RUANL/7RdVeUWwJ0/d3AYUJ/QHsfBX
+9fa9ShOPeVFwnT5Dk4kpPoeq2VEM//6/+0535VNjL+VKYXjt2eFwnH9LVHrInsKajwpaHcV40VHcOaxJb430jaxH/enLS/Fwc5eUVzV1rBUtftWmP0g0ayhY
+OvGR1WCmvRUGoNz0alTIazIFyzVXNevNkieZ1Dh63PJV6t6OxMt3emeHkZ+ps7XjmAL176EpuBbGG9SIal17sxJn9VJGgJPVg0Wck6UXtfQqxMyOF+ZGdJ3N
+V5njyhYqtpWMNuPxfgz3eVzPLQBmEFb78FnVEoeOtYaYrKaGqfpNGgMRXhWp6aFJueIMWod4qE5TwPMVkQGtmsrG5w3Gp9mqj4ZAInanoTQ0znT/pXGDw8h7
+V9ZB/E9k8Od7HA3Npx4QpYZ/z4o57popsxDRMt01Ahg560fdFcoJwEenIP7Qum0itpCyM3wkzcBa+m0S77MfmOfgIVnvxiwvduDc5UWEOMQ9qzrlaZSX9KAk
+KlDleYlLZv2xCCePVhvvp/+nSiiu0u7xU+UHI0eU9OlkU1QH0RZlXYpWDYEeobS0b0Fkb41MVNv7pv78V0u9/g64YcxOrQrq4rTSxA37d9AwP0VjIEZLWkmf
+j6UFT+X/EA2kuz9QurSx+I33bPk1GvY9ielS1VNj6mDSXwsu35LW6pz/zSa1bGY2LJ7xuWh4gUmw4eSExJh2AK47UvIYQX3IhNSl84zYEnqXJStWNeoozfHM
+ddKdeGMD/YvZTnm4i4U7pTuNQ5ZPI95TE1iWazulHAi/QdsRh+xl7QNmShPtgT+UWRqKb2RCJWeonAt1wSYhT3dLYtj6KRb4mQczbLIZmUdY/6KcZ3Uc2nES
+I8F04EbNRI2BG20lHGa3qTOWtBJKkIWinRFRmgRLaFrvs4ELk5mwFbuU2Kw3T016lpTIQ1Jukot/0c+7C5ou6mf5q7K0cS/Vgk4qK05pnP/G/KJdGVkh3Y2w
+PWfzdbiSjMGIYMSxfGUorewfVkP2YUBWQjJEpn8Ir5aY8s4CdJHlTJKyUGValKvzY3r3WVWUrNTHXYZSDzLWnBGYu9g99ZZA23mah0R34m8mTdKKtBHGA8Y1
+TQ3vIUT4yJ358hAj0bBMG+8uef7WjvDbekyy+PpZ2kJz/smX4lxEr5M1CF2lItAVq/mmycRX6exPLaRoA5PpkVOzIquT4ZQ4I2oCly75Dzqi8U10WQ53MUr/
+N9YQpWs9pAbjSoF1tRbaXjqr8cKeXq3b0KRFy7EKPxJJSvIyFEmTRRfRBKW35yFJKk5kVmswPQxirIcF/d8FJ8zpOQaUzlJmTECcsB6qJwprzURz/JXsGSzT
+qSpVlP78ROmRpmAvdP4XfoKnVUClhlsx8Lje9XKPs3Vw1RvkWhGCFeDSZnG+pKPSWYQ6abb72XALB6dFEEq41svSv+Y5Hteye9TFzeI5xEU4LOFIg+fiAwaY
+QZeqLJmlg/+ncctrNpNX2E8/UrlvhGXPi0FGibmLkMJdaCvxAlPRhLvfJszpmZxgLjwNBTa6Clwie9I9ELcyUzh4uiWZ8VweWCVqQCS78sjx1oKGOH9PtfXX
+2JW+WGNS+qX5kNLH3pp6wml67mYdBs/h3T/SvEnEzfsfApEeyAt9xJz3YAlP//y1moRaFMNeu6HEQT7EiptPAbZwqMnEqP/WNKAPLM2lQsu+qE1Fspmi4RD4
+40hkJElOyBth4LZp6nBBJOPn+rkuepUE+EXxJYKevXWoikiEupqGCqvNsgVC6kllvLc0KXRn4c8h1HMHrmpFlE18v9z8d7a/MjkXWYgIBsLPHdlIh5A7jPpT
+o5gUP420hayTeF/MNj89EFwi1XH9To8snX+b3s/a1A4HyrhdI+lDVtYfRG6uj6/YHEV40Lm303Jq5q06ZXL55yodCm5uxNTRZr08XMBCXIph0avX8ND1lO5Q
+cjfc589T/Xs0DvzOBAZmFmcLd1kR2j0o6hdW1BXm4l/z94BB6IG3OcuImxiPCoPgfqE2w2mG4Ks21ltVgGJhSx1of9QMDhuzUVJtIyIJczZyrLKDURRrDI6a
+0S7FB3rdMhTBJ8zLLHBecjkm4+2qMirUYgw0QjSIMDJCUtJL+ygp+qoRLbW/CVBMYhLYolp1+U/VufwXjWl2QJeAY+GtwO871YbIN3/qpNhCB/p0kfW0/h6g
+P6B1cqs2pvw6t8m9t3KE5UUrr9ygZTCa9mjzY5KrFd1C4xMf6meOXYvsDa3AOJoecrTCnl9MhpqvS/O5MF1fVZrUvTl7gqrkrBo5HxzrEiIx+VWEaw9CBffz
++LsiMIE1Y69S+gDDfsWn46gdQAzX/y4lDyR9q4b2tJmkX4W4Iu8J21ELbVaX8hmeFIww0aMW22OhDFE5LMzrkaqEvc1T3KPMrHl4w8PEz1SH8+mmf45amLRe
+mnanLOcR8e11tgTQ/Y1nrZtYRW8n5voKPOhK6X/3lHMXjMHJdsmDtJD4rYbOW6DkJCCps3CJJ8DdpPpks06VuuRxuo1zthT8KwtejDXUCWfKwK1ohptAQUS0
+gvqre3DOnkFYGp7txt7Lo7ee8BYfzCEuxFcReRUBOHEvyuFBTgg3ZbUDPeOpV2Xoh6rRQ5O1BMEwm8MlBaHaEsXuLHrX/ZfkJRHyLSj8qQcjSR9yM2TjSJNZ
+7Oo6lQcy7AxXbfBIhxvxpI9xXReL5YgP9E1F0ZPE7qSwL9PW/yBuWwXJLFIBqWsY3fwMY/Rsxmib1H5igBcim5yL+2iJx6WfrFp9cfsmGo0/1JQj7Nm4IOmJ
+uqTHxZNTPH6SSZ456Qoc7mlTg1ITLSxguJRzAHtLM0ZjU+pjlDQaYfLoF4vQX3i2vnZMnALpkwBC9yEgkDly82eLu+OuS1Uv0wIQidwlb4BRp6dVa39lSfhZ
+7XOUQvI7Z6HgkQoz/pmdoJH6pFD3fHLaKz3bbeDvYfbAIQSvDZtEwZGZHxjYrcyiuqnlkn7zegDqr0WMmLVNOKwqQC4OnqnkrPfwL2qxMsqi3Lae7x752tUI
+X1MrJ0tX4JW065DuDqkyXfBuwi7CB5X3aIkOFMxVWsN26YfEa+VXxOVHt1zkp3hP9ZKhAYN5eiogsgpmbiqYguOYRPbclZseihTVxgJyZXC4dyWinz8aadNP
+J9QB7QtFf0hINBt806ISx/sebQsLT+23Vrfi+DtsOC1vjFeA7yRt3MORNkifd8U9SLFlu5nhEbr6N3EqWqnzYfaoirweeJvRZ32h2rL+SSHLU/+KEBWOg7X+
+VOABlDcc6DJ3COmjuN/kA0NVmiShJ4S/hOG8rEL3U5Z7yDzYZZPPdLa0r5L5pqDepmygIkTXHw6rqSWrr/UOlfHqxTqO2fknELdUGGg5uLZdI8UifYYVNnh6
+R+yEjH/XZgEji+Ax4OCejbtn6p7MpWW6StKIVvRcmxDjqZr16aa6M70SV714tpbUMJRBrFJamkyjrhJzoGyo/PSS3LDnaEqWIft3oihqthv8ef32EluNX7ak
+SmisXXms/1U+ljK8pFGQLfDI5ED6bCOmFMRoHHz4CDI0D5vK2WvVzIqiEoOjXP48XlucTZpDW5tj3IcmHHAx3VUaNYAyFAf5XTN/NL/AnXhCkcJXfHRBdvXu
+KoQgyPLvXbUQKQWca5a4JLNqGhXpo56ZulswTZp/jTCYdhGLqt4CmR6a2aWyrgI1FAgwApEcDq5/6weCJr+jFXp3x+0qsaFoJ75D4hZuSaNmJKBgIVh1iszz
+kbb4XU0ANk6QrbgqonS5DNlugqjvtc3uXbBJ0o9Lf2nki1Z3foVKkS53+b04J5MJW2qGdkMF/NJx9hkJW9QUup8NpI+0I14oi8g7ALYO5c78huTO7j3s+h9K
+ezZSifsI/tRF93umqJUDXq2lF5YgfAyGKzYdgR3BZYgNXDbVzWIHmjqLBduskLZKfNdYYoHtY65dBKCM6RbT+qS7jR5n0QsF875TLOdxeXsYESKbbcQ9vMQq
+0CGd4s9dGpkxWw9+rlXJ9suyO0AnL73Ox2MjmS9oJzVFBu4JMU2wPLnzQPJrXI0FuMuh6VPYBNLmWaEQT0UHzgAbGIxWiq3zXwKnaVYz0M5OvSKJdFGauh5A
+rQTRAZ46ZgWH596mjzUNxXRXL25uVeYuCy4nOTfRmG52PlrJucSvaXFYpBUk7a1B2klIL2s8crn7ObM1zpkPdBgoetEoo7UlqlVsi361pLOERxJPbFecOyKn
+jcYlTZgZHxWonylJnYTUFo31drc20k0QvCEiAQV9Hvdci8jY3M6rbC7JM9PuOKnsP0UE/mrje0erFUn9XGVJa38c7i9aD00rmz1kRK2UcQpXK5sXdWS7I7xw
+/1EIke6hxk7JxXD7JLnk0JVWLHaQ+ERTzMXTa8OO9C2xi01B5K7AubcpFvMj3KmYABEhl1gc6lOwABk6TjcJRqP0DlI+Nd+E7XoSd02nzJXNlgdLXPIr+jUD
+SKOWS5x11qZnfiardWn6xD3PqQHdyt37/fpKOkvMBg9a2lDnFkMVpyFtDMQtfzXHY6lvW7s0i7RrdYNiSb/lVmOkZ8KkkVsDZ4YOWP5Gt8nGuR9izhsc4Ehr
+NBjcQpLI2nEd6e9LJDKy4/EMlKly52RmGFXemlLrGt2Zv2ttJRrXL/XVRSApe+cJAEPL+YfGvB7anDCAFnHEB89opKBkDvE1t2GVgwQu94/5/oCb5C6oH3Rw
+35mhhU8g/mqFindibM8vLPvzA+Yv6EWe9nTD16Ful+Pan6mJHXtCI1O+JVeyuolarKRjtkbVUSS4dWD9qBurzIIgD8n8vzV93Mka20PJFlRWNGTm6FL4StKm
+WD1xYi3I12imzSGGyrMxsHvPglzgMYRrqhIv2i+bz8kIGQyA2XiuhQaAwmCuzV/Xc9XFVmbFy+YkCyNq3IWxiFv5ZGIkzIJYBYVhq8V/1yYCPNAciUZfMs/n
+9x6p8evRlmaCxBWU0HTL+w/1CwrtrZcMZGyoGJqaENP6wRuBlMYU0RTS5eidg6gE0jH7yXcmDR5K2CuNKRA1sHiWTpMnOcQJULozX1Jd3ohVaAuU0OH8iKsu
+/cm5KJytgkg+TTv20NRN3PySz4jEnlnDOprUb26sLI8sUgOy6VnolUnTTsNTJN/8Tz265uC+YEm9FKLGJdrQhdAo4QbDTvX9VQv669ZZpwnRbby0eJDMeppA
+BFvjdbSCRDZvt2GVoxZOPUnXpvCaiMazjB75RtehcKopYpDGgn6TrHOGbUjJbb9AVLqmOktaNjSJGUXC/l1b2ZrVGmijyWK8jhxz51EdXWpD/MRVoh/WFUyJ
+ud9ziEWKi92bN82A5lrW05PHwpOKedJQnMjy258SJEZmeNEuOtFNfWQXnntRT+ks1iAFbiFIWj0n4yL4xlinrYk7Sq7SyXBeLQ8oWIOGHf7hBkc/TotaYOhc
+tNjYaK5iPVuwKUsbcRj8RqYzsFVoy3gIHPcdeiuMK9tXPvO1c7E5W0q2djWZoLu7aVaHelEeZVF/ZKEv8uswqPVfrkYlSrZwiDSoni1BetIp1iSoNDHzld8P
+1RNOYnwpEwz1U5vuXbHeSlMK6i/L1vb+LE1okV6tRY661irfhbVlrqi4jZ8DiNVwHJrUTMk82/g+DObcWjNO+bxDOqleWVLfWy1HfQOTJnGp8OVJc4qFt6cp
+3JB8HXVsQkvqFTbmUZ0lrxUmXfEMg8bbGjRUU9Yi/ROUvbdez3w9aJ1ePXEtV5PNXtIyA2d/UWHIHgkgwowcoSA92v3iAtvaEqsWtwhNqU2bfJGRqRFi1PTZ
+0YH7KIs0ovLqIYNCvPdsfbSmB94q+mF9dS65mvtcjUrwK1nX3MRCZPPQuJWMIK0hktPt7zkTGgGu4RDzb6QFH0Ew6DYPrlYwN6EBsKr7hDOtusUaCTDtJrFr
+vZPSqI8CVbqO0qLxP6VB16cDGM82abUKdeVYUftQE7xk1zQ07EhJhfQcrkF5naCOs/G590TdaHXfrqk94TSPHveedGfbNLj5+HoYQOQaMuqal7SW+TDZ+ze7
+KULlZ4hSEGgVMTVBGwvbpFtXpE1C66lPW0jQgY3bHpsorPwvbjhu/oskplEJIeKqnzQtEhiZ40S8FDQi4cvV9lC5Pz59bvNhNuBLFkqyOJHs6VxclgSa20jI
+0VN4XYR25AxPVT240Exrky0oPi4RqIuOOm/xy3h9PQIcidjVUyuOe5w1JJXtnoGuC3+JmNUnSZ9tLYy+xzZa4b8NJ+nKv44irsr4HXGfSa1uRMqtCJ52qx+h
+SySvMJ9YRCotHKyPyhawH0geBDkjIZL/0VqT1SVhvmLrZLnHaJ3EJ8kVdQX98Tu6v6sUbyRuSgVzKrNSD7VXyBwNaJFr/lzSbA7mwj+bThtVgQm2h+FHFWKU
+0z7bmMi4QnYcmxAeT4ryLHaNwlkZ3WF4IR5E5eLVBP+lDjeru5XjPRUgPEbf3npJf9PhIhHoTGpBoezLEK94MJVyakcX4FTgLsnehD0wI3xq+vpTumnepzCY
+sU19kVmMJ3s2hDYOj8Utqnr4hppejQKJCeprS4yLLYkJ8cI0j6ZaYAHzn7oLQO8gmqnh1nMpVBeI7MlZFMG76PAWNFCT8/l2P4JH+RDsaYermz2aFBnj39tg
+qMNe5EPVWWo3JTfOXv61meD7jbKpMQrVrrWYP7Rc1g1BIl41BNMqFg/tbXtT1m+xIkJ9W11GOJF11MON+ZlQ78OHr8V0klUNWyJVgmTErf2R8P4E86tqoq2E
+WjnBY5WuDtLXvTpUQCn/j6qzXUwcaZrlrfjWBBIgIyRefZjBV38qIhvvc34sMLOeGRuk7uqqzMiQZv7LJY7ZtDaBaXlSgQ+1ResmNG88RzyGvDSRkTpHsJei
+WARom2vyk2W09pejTN+CPgW9LuRldiY79NHG4zGq4/bbtvrdk8cdMG11i/4SoiVeWPIW7Y5XQl+gUVm27+aoiHxMRJwl+55eUaxvzMij77cfnEADK/gwaoz3
+dl7BFKMDRb3mXWafMByMdQznWHdXTtBWjmdU62gzw7Wa+PLlC0dCEKz7kMDQKnrnNAVvIuuuXfTIShh5brO7SArrYmq2lGQqLq+GExl/dJvVTpA4xs4un2dn
+Jo3n3/edK6Tlgy05+38DB2PLIkT3Ro/pdjhVvzEOvDXZ/q0djK7HlDzktU9CCCnHVUfcaDBfh5ONuevn0HRZ/uUjvuQqooT89zUkeK2PMF2P9Nd5VGJ1FitH
+Qm8XVigCryz4AUrmxE2Fbxl2GuxcnfKpJ9jWv50F+6cznifO7vvXj8xU1uy6wOpqeNl83/AsJJSWn0WVQ9UOJxPg6jHtQWzKOpla6licRyZid+vFp77FHuKc
+5AJpUodm1qZbj7/G1dlBKIvDaL/sOXbmL2//d9hYGV3FnOsaWk4FME5t2jhOCfGqa+TWNdBYrpXHyawIXYcDwFGFEVhsJ3vKde3nMnEtvTNx5oxOvtLB0r0h
+qL0dveR/lvAcBgf7huarxOuPygdN5dDiDjqSVVBFREFEq7f3do2xsO9ukxDUKhWPx/+0OpWyK7Ncpv8zwb1eLFjAkWr785w/FYCJLGcdxq4qHuLXAEqUbS31
+P+GkcG3EsRGWEvEbXIsLw5nx19Q//uluYnn5DQLAIKchoK1X9vSfLpFvdbnbt/5qTEKeUGYmvHmIeC8y70/2JHv8+V2XCOriIfFKFKJMeUgtiC7dDg2HkOTt
+Ngykaa9fLQLJ1FGaXl/x4+9qPFv0X/e2N4Xtvx66k7TgGC8dHJEkxiL0WN7zKOiZg/We6Vybj9Y19MdfI3KkOwKeWdfjsph4Ru/AW9ojIytKzIiMMe4dotuA
+ILmQbtTbhqmTFNpKykRsK1z8i2a1TVBX0OK6oTNuCZJZKQdTN1f7LZlzazMqhm8/qu53Rpc9oS6XN4fZ86rEY0wO3drCvRs7LcFYS6OGqYA+q6I4KRJRt2vW
+OCNfjxwA+xhb1L3LYLRryRQr5wOoMS4wA8tGh9QSpBQe6/qXY2rh/ylCmJvmSqD8bQpbasuaEkKIeY6OKqs2iodFdPInz+zmYZXN9eRTBlLrMrQUwnW80tjL
+SUUoyNq1qdv60cGvEXDUCgOK52geXX4a9qk6aD5qX1JutXxmxfOHDI7ZiC6Dyb9b9i3dHSg5GUQZpqFXclPu7hDLE069U7QFj112Za+xbFpajkpdddraNo98
+2ZjQOo5bWzzrvBv31+c3GNF3n07/pqvYNpVz+betf92CJCVNjB9/DBDftpQ8Y/OK4fgAkqN2V6yJ7LKIidbWaUyqGCtmLbEnoUTnCHNss/1nKGEwxhSjxSxX
+CY8QD1+loInPtbi0mAH4JR9l12E1d1qSCN8U9t2eM3AHeUgT4CN4qc5qsZuIZ6RXUrUrqW0zqntjKhdN7IgLBqdjBFg1d+v2FycNxsBBP62DUPeqVh0h/z24
+JP6HSiWh4oclJd3/Z+4BOk8efb6Wy0WzBJ/cmC0H26PBXndVFW97l1QVzHfm5iUNZb75HAkoG9i7/sV4u/5dPOk2n98uRSqCd2uHWnrGxCC5ZN9GUba0tEEG
+Hm1G0yxC9JY7o1euMSpiDsfhJm9o+5+MnvAz/bdbtoHtyqlBO6hXwjWeakX6F6WxG3hf5ftEE4KJh3UKEINRUex6/9PUNI6KG9PeNcoY7tmcT9f0mqE76i8w
+ozpBHryVv9GbatuKkXpP1xK3mUkEP9aEez1zPe18Afma9jJ2+Y8tDyK3T44046WVuA65fWdqYaKBWR8LR8ityzhE91KVsUvjQkA6Vv6B6QhHUrOwM+QWyK/d
+C0kYt2LtPjbfHsO39O7z4/h47qi2OdfkcJnP32nR9iFiWcgwhRCqbiVcp4dnG9ViMU5Ggr1L/rp6kZjOhbEnq4JCqgxgb8MnCJdNx+Ht1FogXDUBfbpq2PYw
+muAqvAwPXxVD4qIxmZrox5Ct/vg5Wbok6rGapLk7JAa5z7rRD/WHnBQeCUM7g1l4h+vetiU/G548Ri1H4kZZAz7LSTC89LT/S6QAx6sZAhAXzZF22GLaqK6L
+Zse4/nkAaH38BsxswDWwRDaGju5ldCz0x4UKqIXfvn5x69Qi9DoSezlhkevjJO+uuZ5/fPNBJ+yY4lhooHg4Llk/kFgL7A5KxjZhYV7N4EQJo8TRDtk6BPrM
+cpTl/UnXuTGZnmpxdHRp01prPZzV/D943wZlFogrwozlInJhuSbMMnKbqVn0tKnVsnnHm3UKi/Fh9rjHp57Ds4SF+2Ck5PexoiGiPraqvTWExe3TAuHRWKLb
+x3TA3BlaOvXX1zWXzTLcJOqwcDwR5beUHolYTCYp+3oyNiiCnFIOTxWui1wnZl/jpA48MPLlletnS9JWH06mWfMI94T62SlpZ+5D+TwIjBOT4QxOljiY3sOh
+XoAsobvkECU/Nrno5NYahXQecX/93+5Wi5PNvqrd3sNNvrdg0ekSBG3e6Z9Fa8XP0gLN0JsjRfsXE8qK8dpkl83e2Mf09Il7vTETx4J6nWMqn1roVNddvqpg
+bUURWw3KWfU54/mMBm+kxMmME7CAvK79qHPb0kT8S4LvkSU4PomKsFYsL59/6b/8OExZE+jS1TdwlrXe1eF+sXNPBF7VBG2a3W1t5b+/6nz3eS0TWPrNdCJK
+TY7EzeRPsomC9HxnefppLbOsvwaws0Y1ZN1Q14mrlHW1J+8++exvMxtMahrG2Idg8n+lqTzQ5UO1UIW9S9EJic9LC8wn5SDAz1Nsvxq1kUi5OeDN9p5nglbf
+oYq6/UjohPcbKdkcdH7qINB/6OcBNlWFKlC2WUa2horcMgx2EW7xA1tEMA5nOBXNjdaxLm9Lgfqg6Tisrfqr2v74xzx7WBLa0UZonJV0EzxEMXgt0HULYXPs
+zSTSoBkX1zRQn9pQGxAEJdjpfnx3ry6ho36A6EMHh2O3g3q0PsabvPWTsJo5ckCKUXadZyjejzlPj2hQmqU2wXNVv18tcVkTIJqPse0kym9N2C7LRM7c3XSf
+JYkkmKLH/JtBmttMFxYQ363noyl901uXD/ZM/G6K0m52nZg/xWgzjCmEPxsNZ+P0tLzyNPWqspOZO0i9F/xcL0aV2r8Zj52ai4UVKNPzE+XCOyeIV8z7/Kzw
+1BQbddHl7gfNOj6sKs4X4kLCUv3MdK4tPCGmXvSreFIMQV1ayAkZuKa0qkmvH6NxZDq6hesbIJifAcqF9NWhIx5TnNYLv7hqeVArAOiD0zbBv1brocm2YFXd
+MXXy5meNB9sePC0b3nOoqrXImE9SX2OO9vCTzm9vPzf7+4MeLoWy3mIscSQc05HHZSYplL+cA56nKx/rGn2zzLOTsR0hoDmJKus/2XE/SsqvDS946ZISUx9z
+vIbSSu61o9xRgW13FqQHcoD0ToAxfShMiAI8KN8SLySY2IH/YRhJbW/i72jo41K9crtCXqqjSK7Z8E4ukQlcuqOtSwwYcRqw4zs0jLB6QJfQq9lpDWjOs6dm
+s3mE9D+g8XjSoYgAxG5zg3Uu08cBPS3v3qEBDRNGj8f0R8wWzVJLuMDVcxIJHUMKf+J+ykAhqTD93CXwQexRHa151GXJuZ0BZUv6c1xZVRSY86/3gVdBZ2OL
+BscCBwNJMtqrtfZeXCsKD4xn2dc2kKA1AHV/7JJPsb37rLJxltpJVFD/2EeW1COMVa2cJleiYvm8SmaasAzhkAKTuBU2e8LE2tWD4WGLIdDr+Hy+v1pyXD1V
+FbaijUmx/n+H2oTBIclC03gO4H+GACcY/9WOeomBtTkLrjXNsKk7okvZjciri2W2N3tfFRW7hNw7rpvv4RmmazzHMkhfvG5EbCYb3g0ea/f4j9ekRCzXr5bc
+jKNAee912bzYqtr3wHY1fQCN8hL23NDA79f6iQnUXRQtJ4pCB+XXQH4nLdWoOrtk3Bm8248Oa+sw9zIhg6iCOjYp8Yeub6UGbjiCzyR+W9Q37lOaA82KFBKS
+oPuqtNim52zT+xCXpT4PQx+3L1tGZB6+OJIk1LqBn5RCcAUOLYe4//CgFPXGJOB5kmANdnjLNhRrK43Q+Gf0VjbNOk6z6WpPe883XddZkpV7JybDZ9YONCRV
+4MrUue6wurJO8ky4nJyYPTEakDjAJQULbTBkXUhjrUJLVBmaK+Z3fjFXCWkA9wzC4Us1hBKYOoNoSgh4jjl72lb8g4/PcH1sdpFzU1FFykaJh/H90d0/ZJ3v
+ob1oPe86s+/GkgDQGMZm75xMyZ64EFh0cavcs/dr5xEUVreFoDAToHLo5CC72Wb/1aK4pUZYt0zga1tugciC7Wp5pVNO4ff08uyHJWO8PwI0LQ9KhwGp/SnM
+zBjv91ymta7WlUekoEeZ+qE+66qOyPoON9mOdFRb0hRb7u/yiZzCDby0n/pseJ8Yha7lrQ+rUQrM6uvM1SmUZFW9d68srm11ZckkYqHpXxuHdcoRdNLCW3u2
+8YbhmP923925jhfTEAns4iFUB0qjrtbPnuKBkVydKtIX2GXo4XE89kb3D6s8QhcqCKNp/gc6xySCMnRJqtdmSI/nkQhm3XICoEtz9gH3qom0iAidPv69zqk9
+ahtM5yPGjdNJrAXxEZpfhYa9w2TwQLs84TwlzakqhSXRG16dDGqViTQZLTOhUxCIkbRDjQVLXMsIAYHQxNV8+XGR0ghQfhBBQvxAu1Q3VZsQnz3f34+UubOz
+Y2SCkSHxQXhqOcCVRBZf7wfkRnUoVR38ZgmuiuABqPxHsHbVeqMCsP0wxvKiOZVpsg3G/giNpl8Qx4/XEfPhPCLFTYYYpYpqQEbFcPJw2K7PgxR4TmQUAnDF
+mCEZAYhMcXbHOyeF/lib8+EUtZtPbYa4XqNWqJJ2TlGb8WV43WqObM97GlYmIqm29di7YGF/DwuXV1MTKyzYsoAmZCJA9PqLFPiblPA0kiUzgSRKjA+1u8xD
+EBLm2pqabNLDrgF+A4fcHZn2Zu25dk8z5Nb4A1ELIgtUxBBz3IKUZ14iO4hh92M6RH8U1eDZOZH9YQJ1bdwpmufk6+LiILE9uRiS3Dw89Wll1nqnFz1g06pN
+u5vj22/zDx1aLUNWsRopG+7RdkvcsHOQv34WoeuhVZtYXs7uG+4tsbCzRiG3s9Zse4euOC1eWSq8RzJUm72/5wzMuDSKErGXw4BdqK6giGnAD417lq6xNew9
+2Z0OF6uhzjedSOODRjiBDZzU3npe3JTp5/GorAjSGsf330P5EGxebuLBA5HaZc5F3Cydh6r9hrZ/ZfPOIdu1qOrnoY+EwX6Klm6//1353v7n7tsEXdZTF2sr
+3A4voeW4k19wT+JoWvgmXKJ3jEZx47ule8x7o4bZLgo1/TpUMfbEy6/nux7oGROMcPrwbz3gdIFwYgQ4cdaqP/z7n/lpiz1wNuLCcThqBo7tDxQ0i7/RZwRw
+JnCIZxq5itwcDE4NaYagzSaKmL6VcpGm0X1cuTS+OcCqVmUcOccqSO5Md1YUVOuWpNlGrenUuPEpOj96pps3NKvIGkzzUV81URxzSs8hfbAfzP10UWl/GSNB
+u+i/+5/p0tfgN0svWBPCoMumP5KbS8VIwfg4kmzlVIYFr24pttw6xscAtMyXdshhih7ZH0/JPfUco4fuHGT/uXvtOn87wboijCKwwLA1HeTm2AAUIt1sjGSh
+cX/mfC+5BVTMpT4dksv7L3XONPZqZ+uciryi2OcicpRBkzjuISTUp1iI1kVWGltena/RldRt6Nu4v2sn2V9JZ7I2jF+YTBGz+WgfPT84mhF/5010lOXB1m2d
+1+7z2UZqmxSwe44sNz67nF12YB/fvJHPN5vuou3hI+Csq9pu821shOc1NSBCyCGUa4vs5R/zjLq8cJBy9SdCez7E3q0gwSANrVIFm2v8fPdNi1LDNJsmy157
+JxzRZhysipOaJ3yvlpMNJkSloftvtCN1cqHsotAOFZMhKWvtqXvu3CFf429t6iNZMSy0y6bY98YgR0o+gw+PPwnMYdF1zR1dGOhEvCPuxJFZq4ZSbb3knNAo
+HKFgcZQBzWRd4YEaqYdVTJWQt0/M8tkED5OHYAnrXKxisc/hBHVh5vFH03qGgNuQMSzES7bwRijjCaoCrvXbIXVrCS+gQfz/Zms5TXWr25gWUEd7nUnWxMF5
+OqEbhZlqWf+sVVHUeTCyfc03mh9QEVUdrojH6GxhDzY+jyH5QYz2QzV+xam1L16ZEL34+iFH/e340JUaYpbo7y3/3OaM7tbyrLchmLikT8it33B1mFD2aSqj
+6J6zB1a134sGpG9EeCZeNDtbAYIx2q2/aPzniDcRkAjXTedh0LvPqOGWPwHiouJ19qSVAd+gV8/vrk5YXOFjAOhaWwk1Wlvk+eECR26BwizN3AJ0UBZOiRCZ
+lMwRcTMxtZOhj7rye5HAppxktLg0P3lpez2aWe2XQUncjFxT2s3YVwRzN6eUJxo1Pj/kR7FmkpQ0eqn3gZ1uCci+mXPMe2/8gX1ELts5LfSrqAvOtrVu0Po+
+UyRQnFl5XJW49Z8Q8NoBkJ63SOiq1nud/hB3GelMbYD8Weer6sU35asUw0Mr3fvh22zoLkekMz2ZIfw6Jpbn5bqlr4v6HrJv3Wt1REMZFPzXLuN3S6gyDYVT
+Eq+aSPdjmKH2TR7gSUHAycbcqcoSW8KDDtAqbt5Gqn3ynFFtxjDrXgLNCExEf0+f49308rhKtyZZYHIv3jXYQPG2BP7e9mwbawD0o42GaDa2A1jaVgc26+Cj
+JefC1az6bfgIZOw2UIDQYkAIk/51AtkMN4x46m9CsDxrU4q/5q5SH5t3gh25onMJcQnDXqgaGNGRwlvhZC1GcYpldeiPc1zaZOh0Eptz0Ipk+S4o7L5INhb4
+8+0+Vlf5B3d/TWOV3votfrzb0CXiDPfVlSMDugZDdgAv1sV0/cSgXFtPoLtOmXpduHc3tHl1plNnBV4ECiK2dNysm8vVMNGwHLKBD86M+5XZMy2C2LR+Azla
+DgcME/CKIa1EiNIc4TCD9dTNUcxYpSQE9by8xOki4+Pb+Yg8dXH1bNZ2BTKXbrQJlibeaGba9XET8jeJKT8tzVs+/yW5YmhFP/xxh9hVIx6FgXaqkaqqjo10
+2a7WXu/aqj1HQrw6rtiRHeJsZ/49PKtGfHfPGNTrX4YJ+YHB0TOyuuHedISpxIJ0sH3NaIe5hcCC2sBC1tjH9Ap2L1PwjM0RVi9zq5M2NLWJBl+53JyAqY7f
+mvTYgebR57g3AjJjugmJnBRhyhuvF1qy+PbIgHxWQY6zLEKelkKgeoOci0cz9FR98NFe1O0xmKgcaQY8cjNmzCQjypjGbRiGi+5ippzvjxEA1Hu9o3Vt1yU2
+RXM8tLHnXP+u6Sj0DyKl/F4+K/xXpmirGVJCusYo96ocn0PuouGrSBGIWvZv6GktdurUqIhH66W3Pu+YVq4069wg3Bl1VV1W9oRLy6yvGqd+1Kz7NLfiJU6G
+GoeDweNuD4tcw+LKhH6AocFdEFcbqzMCoPXwkVktrccE5mQKH6TKuQ3h0pDwRf2jcy75Bm3jvHcChZ/+r1M9lm1mEISLQ1NMA2ObnMJN99qaEXJo+Ndqy/Hj
+rWhRpeLY9IoBHv9oLYsP/peEkPdASfKmkcZAwADk+qlS0cvGN+TpHjofclHv6Po3puT/9YB+EABU1by9Y616tZ5e3Xi15JnKSqPjzkx4zBzvGnD31VZXXfGf
+iB8OMlXgOIZr3Dh5NDpmaAO4p9S1Tn/PDvDzWMfL8tZe23AoTav2rJ/HSINn15JJcPUvWxK7YgGa39eO1WWWSI+I7ayLv+4RsoDSEB7g0lDZu22qYVM18Dg/
+PjraLqqTIZLIjxQS3yXe9qsyvmlICoyntXtdLxTzK7e8DkwJtotI2u+jb87Lu8nlq3GkdfzX50cbRRfN+tWKaEXaUQz85aoOim7npD95+135yK517s2WX+/9
+cukmborW7q0P7TR6P8w6YIf+P7uuViZ+ecgq71ZDpjHz1Z7McoSWeFPTRPtLDGm9yRxf40E6TwdhZN3mF3fPI3SL2WP4uQOAtUgDc7FfI786Let3FzYn1/TM
+9924VFzeZ/7K307j81OySMid0+XaCRhJZNcYg5vXL2W7ULwqygP7xYbr4vtWEiIO9Sv746bDyyDYXLD70Ld+i6CekQHbcNX3Su2etdxWE+o5fPoJBML220Ik
+FhDqVCigHMgNIHLJQKwniiglT8c0Eg0K9cUYWfKIhj3WTblYfKSIWzrXAbp+NAQWjLCYvoZgGXI/p2Zn/HHM44eSFVTDmRwH1nuCVjKuW5sUk3nymuxyL2QO
+o0k31q7O7zwM+Ti8Qe9Qu++CdmgEOoJLXBcIV1Qs9WMs/+pKdcZ0Cw711l3NIfD7vMITCQ4AhTimOYbid+udmMcmYUrXcIU4iqnyZA0xE/OTHPVGkqf7JAFL
+XNoMWNItrCVoRvnLyuIE75E0USoILgAGlXSkRwXBCIcQeg72bOQKrq0WADwA9eMeARaqrCl0XrHmJM/ejF72WRpzk15QCT3H+GDrmg9fJj62jw2W15rbUmKf
+lpCoT+AlsTFg5tWjBwnsBMuMp56hc63n40O3m71Eqpm6OF7jw9qA3mIC72XWgH25xgc3xszJ/A/H6A+T/GD16po95vsMB4bvo9Z6C4SdZvs/1/Zz/DNgIFj4
+IzzZ5C8ICjVylrr93cRbJOXY2vaIWCtJUoMlsZoMCj72h2mhMo1QqlcjJKIStOndNFeryUpPNcfPtto9F4/BEw3J54cn86ziJaQsV2SAiu+1y4jRggXH7pAk
+F3XlcWcd82aCSU40oAA7YcZnskcf0V2wGWwuJPgqBzXP3b4dSgIffzcWR55JNjfO+ASlXyKtmoZXKMUJDoNR1GT0Qoa6JM4pdo2M4+mJ9j4wa7/jH7k7QBTS
+fakzwLt2i/cWfv+xDXTFwk175Ojcayi9KYIyupOtS/W06McYaq7B9l7W5fH4DHIYiGcEcImw4eJ5OWdyDEBwc6p0k7yCWLJHsxzhK5csg8XhYwW6eis541Y9
+n0Dz38Csa2c6BJ7U7hDYcJ1E0Qic6qKMRAMP4eShpU5P29S68XqRT8iTHxnf0JeP2MaIPsohWr2PZglC9XoY+Ni1fE1uHE8eacpzo6xDBuhT8IfNUvLqGj8s
+DDFUqT/ReFH6dC1gyIY+kevvZF+tIinHtPPreNviXcXA5RPZXorFkqkdeyLknrq2ot+A8GY3j5Ffl4QZbapdvl9uJtgvRsEZNMMobdUS+WFx0oPwJAFazmVo
+7VB6O1DSk/xc6qhqxBFX1Ff9e1UMAQDkdDrHZzzm7vJ3qDCpg943E7d8ax5hmw3z9/ijuuk6+TW14ejSf3T/2razORwYA2actZiM3jLLK06ZtE38nXnw4DBl
+2jWNidxAFUWEKnleo3k4jww5GW4mJ6BW9GaJZMZ0n50Ck5MzBB1/Hxi11038Y1dKmNw3ax3F2JsHREyzbam90W2aT4VdzinXCbk5mWD1dB1SpHVRpsQvd4tI
+V5CYDVnHYk3AXXvgMEjRI8EOX+VVynd3kGB31Auo8O548jc4IF2WOsJcmtnPYQS2BkUxtdchfx3SbeDzuYb1vdTN5R5Ho/987KnCERUzLLN6PINZOS/cpLAo
+uNbc4YZXRCt0l23Y7qaXbZk0wGB5M32drgmvnFcX2U8XKrm98rCOCUMuO1yvZIk7G8nCaczpaFz3pCU3P4XIns/JXpsERIcWUgWnVDb1e+nunOGJ+2WwQwNq
+So7rJ4z1FZfPD/5L2Uy4KHpHtSYgIFGeQmkyHcdtZa99y7wXjajN7C9u6zlEY/CJfdwaA7CKxXdihWE4XUN21Py++d9g1hNxO++Yw9a92c3hmal8ztQuzuyt
+PpefOXvm/vsXbfoJkQJybTb5yYuObhj75RZ45CsmsYdcvCQHP+sUMHKbB3SyPJnXPke0KVWifPbFZ9Qa/oz3hD76dQjDPGppe1ZaNocz9jjQrTzGaWl4UFBG
+264HJCDOutN948EV0cyvn0VJ168URG/91agwLaxbnM5y+uqcTAwrQoOqStY1e2ItlfehVaBY9jkzoXn6ogQYLfIoIxgBrmj3GQOidb8tw50apu7QwzPVpG/p
+NnxQscSCpPGANpPHlrdIGPPK7bj0J82N3GeBiY86jU7cu7LqrnHIX2PnD4WxflIYc+PyEWw/MuBGwdNps7nwG3YAh4CqBzsoQ0umSnwbjfv+OAOX6n1P+lqP
+xxZ2JhCzHz4ZKN252dtG83icMZIV0wVgHkP5edWrRDvjbfpGcDyw5KV2NCcx1fkl9HnfdaKk2bFpE527U+IoJJ9/XCnjH3QUnXGi1FPZpeuh7bsBubugYWp5
+iOgXgvFpyZZPyWKHekgo9aLuWPVx9n/HYV9aVwF2Z9S+wqamOUMDBxcM3EMu7l8KfxLD6vZwCmxpPFobV1ky7gG5eYe9SHVHJceUQIiURDXEfa4lc13JuogN
+E9Qt1yb5b6MF24261e9gZ9i7KaiBWsIz7HyKd0Or5moA2G1IN6lBbNjuRxyfBHI6AvJ4aej0ukTiWwdS2CFjkFyhKwuyiRSv6+9q7AbtNJKknv9DYB50NjyH
+OuB0ZqaZ6lHf2HD/gr0NyWJx8P+T+aiAo+sxdgEC0zjxKMGE6MO1EZFdq7AMhsfZN8BxUayp1AIqme4NcpEcpcCB5w+a79ExhKE7RW+l55afFnw8CGtj7bHg
+IA/bP1D3lQmDvjsTyvhs9sf0bIX0u+U3sGncHflFOHCmKfeFue+GS355L4j1povT65uJ2YZA6e8x8fYaOPd1aYX0ctQ30VlHjwFDQ0rQkQMsB+1Vvd+fM6xJ
+RYfUlXr+jpXoMr1naKLzpgkgc8sLI4hhmz5oBXbk1dFUVZN4AnQNxSTI0HqIXzFhwZ57+m5pqmn260m+c5QFnl1/2nNYvEmBDTR/Sz6EzqKraRPnIb58bst3
+DqoBWftCa0rt4LOtOpxogB2dNkV/MAtjx45m21R6locYm/fMkoSOW3VTtawKDmJ/7HSj+MCn4RUyD/WmQ4Tf9PJv/HOLJgO39J+unwk73F8BOjPB5awalz+V
+eQ6sO+1AW0U0/tERfnIbkBSiW6Er9NLc9mqmhB06UlzeX1tovuBU0t4/WmhJ4ojYhbcxYk+ocU/q+vGSgRfmO7WE0Sx2sUxwJqbxvgaesbbA63UBG7+mKR8J
+wtJoAeCsbo/GrQL8OM6me39qhWfDETwnz+SMC9zZXSyX/7UJL3884dpso7N/N1oFi4CnX+77BltfOBokIAIIVC0A7y6n4LSyHsMptBtEPmNLtBf/XVcwRsLp
+IOhhWn4SWNcm0kbUcYt7006mgHGje7v/3ffnMJZ0cUYy9FxG89bog0V23vr/RGSeyJivpXp3IWjp3N35N0Dyb1OTdiv+OI499dwc1tCDTerjGrvPtQ2j9yax
+oCdrnXBLnXCJCbkuzna/G6hAHuXFIHUxeoPWiV4Zxt3cW8l9F9/+CwyW3PZVFTRtAvnqaWLdYl9+kwjQLtehqXM+7OxjNTa2H95UA9PPcK6q3XC0Hmdhb+w8
+f4Wt1XOt5Y2oudt+NIbrJ3t+Q0KbyD64+fO/g0WWWDkYr2E7V5V2srV1GjF8Rru1sb7T7Hq1TR9yqubp1qwwp6lNq79RyEX+ziH+WQuF+e/vr7fY7Xetaqov
+877U1ePxHUocP3N92z/strPUalzSmcMAkuZCi5wOLP4zt3MrVeomXqPCfAbkNTUPG2deslUSxl3bdN1doxPordsJccRmdHtzeFiHOmetg8AIB3Zm2nVoMEYc
+xM9uT3PXGEXHGB1QH9pRzUIUIgzn6zO1Rr0Yhe3u4cXVlilz92xezji3RlSQMXzQCvCY6Zsv1af+Tq2tZbaKYtWfXkBI3jgoH56G6wewC0dCYSx9FjIxq3MG
+/j1TCrO3M8aTTAA8LJMJ1r0blE+JzMM1XsdBiG+QzI0+N2mW3ZnG/RrhJyZsDrCQfgTX/TWW8+vo5SG00Ko6LWTJTpej7p766L2Rcgy4wIDxNvr3rx5oomTs
+NynzeP/J9kQGc/o3U+wrx46B1f8TPCMqwn1WmZrZlqPZll4+vU08dlou7X6ok4O+JW+yyYC5eh78FX+cEranG3iDd1n/xMmEWtATuRAQPYcrLZyptu1rslOS
+Dtv9dNmRszXPn1djCy+MBHCOtkp29lmYg8f0CKrqqqZJtkATsNKejiCATpNyD+ePg/Ef3dsJOtK8L+HANKH749u4rzsLb7LLxSz/Hk2nFIU0n/Ivpcur9qk2
+H2bs19RX/QaH6qUG5iO/yj6/7dfOVAvkdRzaxfavVn/1ZutuIVMRSk+MJ3sbKWwJCAuj3EWhNuac5Zq50BJc7kKjItSa3XZr4QhBZj+bn+XZcf9sC9zmt9bD
+OyTmgKLWd4t/AxCwhT3ptkJAlh+AsUqbE1EWifiWDVYleqa3K8f2jYIxIfZ7woaecWU64qyP7tnUik4ZpI0t2hCpPapMq32TcdKS/J+ZnTcSXbwEbfLPXN0i
+3WDTtTshe+FOfQy7fYh6vnFCeXje0RWtKAKhFxbqi8tKLbzNkDCFP8V5oS6fZ8ua/RmY7k3LRcs8opVpzIGh1pNng99Mw+X+BxjUUNMdyE6mBOMwPEn4wbH+
+kn2g5vU+tFCjjC7vnDBm+97ktn6RkXcstQxtdRKya+ei5b9yW8y2HS57MtpwiWGiChyVuj1ko2sdfK+3feJgX5uV/v1jck8g3lb+wzrYG08n6VKfD8pJP8aZ
+IdSytjb3pT6R9bPKoMJRGcwIyiVlUOWmj6g/Ztj+dfjtVIxpDKj6nSVj/I9q1XefsMyznY06ptMJSDg0q8Xf7PaM/QimxNs51LETBGQ1r41VNtJHIGZwAD9/
+0Jqx/qZUj6PmJLAGDbG4OVvtOXyz0nRH3Uk3W+u/nS1ejtjL1y9ZjHUVnQZwSbdQ+9AdvtgyqMXPy7/PIftKj+6uEe1tL+En+cnYZsacqL8XDMO0ZZOimkyV
+JWZ0Z/ayTlr8k807U15ZGcbIFHoTxZPRrCuCm8cG3H4djErfMC7VLb5+PsON4BD+QNPwGXLL4pI8NT4LsFE/jRL3H8VpbWCnthh4dtCmSG9g61odQg+mKoWE
+7RA5PI1SP/cuGJbkkqS2J5FNco9t40TlOiapl8/wilFxsEiAOPc2k1b7TtihP4fv6ry8Pn632VTYJRXvo1VPjzOn5nq6fTr2q0n1zYkQUcwDOAG/QEFGvWm5
+/st8C5MjN3sg/8ucIyGTVxkuLzaE+5gC6w6oWTI5puQxAXHWWLck5FKH1x3ZeZa6LdtHELQ091u9iHxoOUlLuI0TFUnCn3HSaSWpG5tNhuhFo7U44kmk7/qT
+FmZWQ+4Am+n25KaP5OhiIUTx7ei4FpJh9FDev5ES1c3rJUvCQJTR2MxXj+Nu+Yu7e193vQ34oe3sczPUnUJPpttj+hSiuVtqwA8JGMZmszFzQh+H7PjrVxve
+GyljH064FGU8XsBA1Lv5k5l0WpK7tjaKboRFB2f0aOuuf+kTy1eEJYxnnrmD6dBgy2PBendC6/CvbM2ex9CsTfrrmJ5wsMGf3NBP07r347J/MCA8oXXYQ/RX
+Rc3vVqHmgdvY0q2d2bc9ei0b7MEB/M/+Doo9Bj5KBM0wCuuOQByXbNYuChzG+b154bIVc68TKyEKhrQvHfllgUPWLY1zsW7ga6O/osFojqKVXFhv117dEoh/
+7k+TgcZ/kR+9ptZMr1dduAGT3TXSAH5YHpmv0dcgFAAYKoegnFfmBnzB6speS3X8aHFEHL7rho2pdZxMOw1VuvldwxMYhmZGCPJXshu9I6V+9WdUL/0bdSrg
+wUrjzXs9CmKyH4wXYGUdfAGf9N9Xy5xmSDcKamoSkbHdyJ8kVS1jGjhqKXguZn9022HmV73TehyuOZYLLDV3XaQtLf3WeCAOzFHoHVALy8XVIV39GONVafbX
+Ldv9wUSKdSJs4ijGF6tknprScNzzfDrR2leWecXMMgs5GBNxIL7oCgvU0fhiu441hqMnXb36d7+ycbCA5CzBgV7tib0XCT8KDKuORErOTXWtp1EByaBAWiVz
+bObw7VF/J0EUDccsUCpohNdo6m59Ptz+Y7IT+pQCazvRgk328F41pBXQWf3MWSCb7vM+UhQ2uEgVu8zcuyTI/uUlGwe/OY3DJNSizgFru3B0q3KpBkZXYGha
+AKz1fvnxdGAdMAoH+2WB7b7+HYzWf5JdSHsv4IVV4e2g0UAtIo7R13ANcuo/TdoP2vhdsjMGokitd1LB9s90m7+G63NXSEfnqlfflaJrw8tjOOrcp8Wgc84W
+ey1HpNgLzjPLPnkPDIx2u/J4+3RrqHe52QfoPo2AXXX6MPbhLLBqdBi4HdJb9mP4ac6N5TfCMPd9BeW414/H4Nyu0WShL9nKM7c4Kms79/TLnt1b9jduve40
+LabojnbrdDwGKavENTr3gVn9C6qLvL4rkJvH2v02rzw9Agi/euiNbcwBICa+v+zdfb+JdFNgPNVyjsFDbby24+fe3R3f2YRXSlaHL70gCDxk2KMXArzl8Fd9
+y/Q1/taHAZnyi97J1Pb5zNot252av4P7qBtma0w3i3ee49+DiSQil+H2T5NBzmGQY+x+SiXt8n+6uWHlr0v8N9esvMZCLVfE7yqKPavRdCBiW8Xk2768iV+9
+KxwNBNBvb6g2/buzom+Wv7qFtd9Pup0V1vU5EuDn6K0Me6U+Z71dhrpzj96iRTgnQe0c7AlTPDf8ZxsFnLsog07v1aSUVOgyntYhNGXHBm3Klp3fpu/HM03N
+zwlgTqMwozZHbmjBTov/M+S5qmTmBKhzAmiHaXiGyeI5WRfx5KNgvM5IV/H7V9DNN9+wzu8AvlYQzjL3d2899S+g+Kd0dbsJkSgnn7i4uGXeqWfew38rybQ3
+gNVomtxt1DNEj4BIue4RIk2VInUNKcRJbrCRPlb6ezffG+D3YScAzmIytTodXPTj6gpCrY+uhjJ+vCrCuQmK3Ybu0di+daNu6H6bU2V2MYAGcPRGZD/q/CkV
+LoL+Bo92m3kiKK5tklphCXK/qgVa5Ji7m1SkXnjQ4JNiZ1vqQsWfVzd/Awuk1z2P3vWHXjIdcRjCE8UCGWs0u52AkjCyhJQPFgXD3CN5k5wRcEa+LEm3IRCI
+SWwE6jE1A+23EYdjv9+tCuZNPgSjhFoYMDPuyfsEvqUFQdqw/pnnLSLTy5KKYEEcDbtcSiPI5rGWCofnVYZd9ffeGQ7ejiijl94B8i2R2zQcz2E+boTJ1QLR
+TZ9suCSmzDAUWf3935nZr3NMBGefHg9BkVC6ONJrQZdopJmgq9qEFvKJg8GtBQHiDQMduoHNP1Zvqv44dR7wududzv8hwGs7P85jJDmYGfvBliJbMm6bzhl/
+p0+/72Jqz0YfWuQUaBiQjrrMzn/EaSJ3l6hRhykpjv4xp7Jn/j6K/ffqYP64tjQFi4nTZy890Y2yz2ZV8B9oMomoOgJPZmovFCa1Ddk7pW4gFE3cgj0THO+6
+lHxxsqdw1TF6+kyTnTheRS+z4MbDqXX+rc5nYA2okvQRo1nam973ylq9809AQUhyfjKQ+Alm4VDdskPw2Z057Tjc6q5uQh+6zElla3EuBKs7D5wDv0mrAZ/G
+Vn9LPJy5M2FbnpgRBCxCP6f+ghNLAnimGyofADljj7vzvHxQ8gYQ1bGyNsrlK0t2/b1cuvQBmRp0a0gPOPDrnLRHtEPGzr1l0OSW4zwBZ6xJWBMsmuDfhyNa
+cocWMddoVrUq/4Fz4LLuun8eWvTPMlVzZ9+Gz619Sq716hGCEfDUFHvKdcTpiIuImV8gzvKTfh8n91W5nhMBDEWMTAeqBgr95JUJXZiA2t6P+ZcbX+fc8KwV
+JKBoA8y4Ae78e42uaL+ZjwrixOyoYjtpeV6aSArCTo4gDuZSM4zqYTsTnJlMXXnn0wiMSM9SoZN/msQSzgAEIGDB8wsIus1cT87UEo1P74wP7Twqvei7r0Z8
+u+hcjpXmNV3EQGR7kgQvi2I5MqvootciMrE4g6immA6/0aFeF/jfSaPehHsd4oXjh9GWgkrSLrOHqXsyvK9VZDxrYFLW2XfNpzeyv59XaTp95g3aN7YUIHVV
+pru4s8xMOUUwIMDNLTxLTvXw0QoEuZJpPlmlh75t24vRgp6c4i1YTp3y/ba0d9YDQgRPgzz5U8I6PA+R8ERQAA6PvUXHgg55uVvSQByS9iB6BYd5nRPe8rHr
+ft7CX6lyS//ePPyab5pFYz/8OffGT6FtWKeGfDw718XOmdRRvjnMzlacGdyTzRhk8q42ZovEcINdoT1Ekto2nse4z2oRsJMw1Eemza9ZWjOrOLe4YjoLDmYM
+5QzLDq1fkofDwqyieo1+A2ghudxU91dKCE9itXT0ohD6VBNZrWuPeWARfzBKWInHTXzZbkI0M9Jnt2Qo9LTW+KT5UCZVgZHouSopPJ+Ft7XHA20gO6N+7mlN
+U7kbH9ZeKIYpI36d/tcvN2Mm+0+DgrH848yx2LkkkqCxd3my3UD1jGzlkcrE923C5wCKizEDwRo7bYaWjjM+GzXcQ8ZQ6yxa+6p551MA9Nhbaln1NHJ/Lfd6
+QAewHtLnjmenurAWnudwTltSItIlAXmzWoF1btnkHmXug4MseEm0JOxnkrY14ndsOXqtJf3txHXc6J5NrFRJLl1igRByj19mXmhzk8AYeAN0CAaoKAzSW74J
+g7x9qmRt8MHssD693qFZE2ibUPrZXqd4sCmR54nvuXBEuCTEhkkp+EZb+kJ1XswpBiiy0y9Di0QYDd2aJ846R8KeiHWOzKCuvDQv1jQH+zGhduiQtr+4e19R
+cnfXJboDhAWHbXEBtYmhZpGUd2IMrLEGTae8tC7reWo8n9E8PPqT//U0okfnlKShgAof4VKedFw32qmrrKpkT0RHlrQ6Ak2cf6i3KGb+m4h25qWfGr0veuTh
+c4YxYdnjTVMnD9+Y44Pg606u478Ynd9NjGzfn0+l6QzHUAhc0/y06YU0GkUIp80moOdgeNYKh3ddH/08KmJeN+OALAFIyqnyp0eRZ/w8kSbIecWuUtvocIMx
+hN6JiCAORPR9dysJ+ybvZNSn3qla5ZQZh/u4Rmf1MqyHe+RPn05tFy47ekfxk5w3W4amfVeWSbPbthaRVVXT7E2vSdR+67XF9xn1sIqOXMffX1KZdPyfnZky
+kRkopRQUrLg5OjQXwF2/ZHI8DTh6RvxYy9mz+5lG2rF1zVwoAxaGKL/dl3bb5c6eNg+6Q00/voUZ/ThQxT6WX3s2Esg5u0jFqLXrJ0oJM50M+zpf/I50i7Yz
+k/4GfV5Tkrxt+6ZHMgZZ7o5B4JldlNhHmV/V0yv2htfwMQsZVOyCNmPGttF7r2+65f4saZ1qbYgg+46/aGNB+nXIEnQmSKXb8ZmxsDLdWJYuj0Zhug2vgAut
+pb4BzJzGExUULReOxleEI8ILjSK/ZrKmmCPPRsAtL6OkvH9onrY5GDKqMA3XGfnY1XdLr4PvzAVV8iXRi4g4rs3h16WmgmpHBTDYdB+krWxfMQLSWW15ZHF5
+uwr2rHyJuBz/5yS2LVw59YxWuhc7G4FHL90DNw3kGwpoBprwHbesTkPS8xIc3aoopRsaCc7xq/CE+8njU53YAly8LWRJ71oGa/P+dbizwgFhTHtbwmsWhoTs
+Um77cf5E5N4URydkTbfU6Lh2Cqq5MxKtyplafF61+CjIMEAL7dTqcvPGLXOz1DqmyyWUJ3sqY7yC5wTE4qzgQ6zl6SkGisl9WnK1Hj2C1Okm6GM/a7sCyScZ
+p3ih1u4LRQImC4p9GoP09llkGG/4TPfl0ZLajmeLattalsUgspfnzhEDS05Y0bRB6wCWs4IYcAe39SVL/+njmmW23Rpf3ji4uqrbxJaY6v5DX2j0vfneEnhq
+BfKGXRelCuxjrEYxWLTMglVW3Ap0gJxf1FwLS+jTIdFzYiQKrFzVxrCeR9qez87/iXUJsmEn8DRgXd4ttNaAeKyDjibdfeS8D44nDRtBV/VKnVEL1H2olIx5
+5DEMzHjPf1HBzoPUglHKO/hJorBDZ0qu26fosvPTyUytGlEJJvcgtMkR2JFlNotUeG10dO5bqi3dwir075C+vlHtzbB9t4PHcLO/reuq9o5IA9WnY5u/ce8a
+QdAtkeO39Jlvo1aamzYR8BF64uON57wR59WzdYsxurHIpKDqlUaCCDasEdD+FAThaMDTFW4QdtKQpaqY0nU1BmPC1Odul6hXTke7qwsNblVRVqsMeeb1lzAV
+YbSSnmsK/z71Vh+KR60e9S4aiNpa/mcCTrXT+0frxYnh75K4mbFr9KzVWe96UgV2at7Xk4lrJ5G5VbPUHsdhyw5M/ckj1Ysijt0srG7zaG0II/QtY/W2r+5f
+SMMs7N3xpWShoS8hSQiYIJ0IOzr24+HrXQvLewxCxZ7M8n0eq/7OMR0uBFNHbRZakTFJv9rhrftX/31WjvsQ2opFNiKPf6wUKmj3JWb+MA54Zs5zRPwlOkhe
+ZVUOv4P5nWuOaJaem6GS28IiMD687moZ8P4n53ZzKMcTwa11cV/81TzSrhlOnj2rBAnqqAr4Dq58ctlIYmGwAw7H4mQ1Qzrek7xSon1T/NU2rVo3/EISCaH7
+2NqhF/Bclzp8aGbeVHOc+L0B2BtFzE3hjnko8xA2ADqwrUGTW6t4He8AjlhbxpXKxZSeAxLHY8wqQqnber7OlA0ppp6ldmMlIVzl/GOmEaRk4+LO+hEb2y5Z
+Tt0Wv0bGxNoVJNzh2Pit9QJjhFPgL2Og6x+WoTyePaA5pGMeq3R7uKZj1P0TMyMuHH8Mv/X0k534Nu7WrSQArcY+EXScg9kptk3gApGQyBFXKfstpKOWyQPF
+cD1X4UfnTZt4HbmO9xCZa4sde2UN0hxwa7Oh2oWN1qK3xPxJdA0rURrKKlP17dNsbnlDv41WNo8BdTAApvXc8ocauYAgol48eR3ewNoYWZh5lcNCXnZWUGe7
+TYcA7Su9V458Dea32aa7Gm94zS10eV8GbSWjWc5qY+cW1TlR5upAU8T2Z0Vjcq32DyBI5tMhnn9ksM8jZ7//krLWMB/6xrDvx78Y2XHyYNqPnb0o2bj98Di9
+Q9KhkpqbJ+0ekI7wwAcc/8y+0L8cms349M+UMVxD55Y4ccY14TgbFUBCI28QAM8Cp2q9oSqud8Za6VjiKX95wAVDRSWVLlg630nzOy2697ChNR7J7PL6ORqu
+0cvmLjd3WqywckfEej92ozrLBBOl+8121vmAAUsPRBH27weY9GoM9jqQtrNeHGjI11faVjPlrQaz+qAGzap2gKOsWc1Z/KJCtCqi0x1tnI2RaF4BoJDQcgTd
+cMg3mYd7WJsuMa6WLSvM9FsbUSRbdgZYf7jEz2GwXFtenZ61JM3VmST6uEcT2t3MycweXGvcszP22lF5UkA2UvSS8cFZf0v1JVaLCfr5FitM4BFgtFl7m/5m
+dkHtMwNKnFTLALqxeNYd84xQjrW1zv3UYWJon9Mh1NbPMlhEaiQ66qPkLFSSiFRJaYlMhw5Zf0wUZ2Tufc2jMnHqrGVqiYlyIvbQIuYw6OuMJCtIDxzHIJU4
+69jM7/NvEhOZx9NFtxK72WLve41r7MCTI2Hyz1J5iZ9rvFAtsQjsOhUftT4ehCkwoLxPIK++D3l4AsnqT46PKbWWTHpwFHJatLMsryawUCrzyIveyKtFPYL/
+L2CuMTBG/gXWBBcxyqcm4SdDoRElnC5e1xCSeQsogoG8BJ5zFYNf+8oek85F0F89qufnynZNu0xBIJK4hrtWdc16FeJlEN8AVBftf78Gyw158XojXLTW5be6
+fCNE9tfQIhq255o6zLWoiT/PB7XDWcGcdJejAeLP9BxhLYbGY/V/vgX0BsQ0v+tMHP9W5zGN2vqkY+sT7XC0BZ12UwbS0d1mCL86uF+a+ajquK7XGHVaut9Q
+G5N0eBo+6py6VpWMuxBnlvYTiC+oLthg4BEhYXx1v+PvV/fCbXfsGjOo4bAAMHY3gvsE9us31fDv7TC+5+6QPVmAiJ48Or8wLiVdojZtm1XOTV51yza7vfKG
+FHcoyrXsjSn45i4nrtoMInD5cWDvSgYtV2g6o0+EXD1nRXcPRvTnhYCUp7btPcPsXdtchviM8O/debNLFSRNFZFRZW3JcnWJi6h/p2/j6bDJgJJdt7Fnha/N
+neJ9tjU5D6rMtrVliENESsJ5xUz+Tp2JKUnmRZhcD3NShB6WctBpWjTkM+x2qriUbXVvLZvcglpi3pHprn8wwnk5sQB8UUuMlHOO8+uBJXm2yTR3yHQA7j8Y
+voh85+CnuNPDHziOnOzO0QRtH0MeL74Tefk4I2SlvPsXN64cqWbTNz1rzAJ2PZQLTj9p5Xeq/4+H5yIm2or/U1MYe6ew3uVs+FBzZHxT9Nm672wWfNIK1vCm
+OMvD0qQvf/m6zw6H7rI6KN7vcASkyG603qkGvl1zx4z8j88nVmdLQWp1NuNg6dm9boSncddT+N9/ybPd2miMpnMknCO6oCNtquNxosV1NCVR73jQbC+Y9XUB
+oxIXvgZw7vohFQ7iCIfNnOdLxr8XJwwXuvF14akZbK0tDgqGJmFEejkWrLcN+fF2ZmYs2fPRHMEQRZgTDcY4ceKcHpuAKxT4LNq1Rm7WcERJODxc3f77URXz
+YHSb3E/6WP3wZAEdQrWLjnmrlVm1EoGLCcplT4UhMCd1bM00jHmix9c6IdSleDV4TEDfpnupyvSbBIEcZ5esnz0uKp2ltCNatOp5BL0gQDGQuKXrM2hcIMec
+luWX1XJyzeyF87OenIaP25iOqBqksU61SjgduTnxqrVINCLDFwlya6Lv4KXCzhrDzjq1gaOrllSZHxb/hfhd1p2fIAgAAUzvu67Da9bzHT1qjCG12N6pxjKQ
+xrtfm/reeS/v0AnEf7y69+8gg67/D6Jow4coV4lArYW+h5a3PeWHPsf4xH1BrbFNdLVJ3fQX3U9yTSL1x7SwiAFPrnKVBwOCZGMCEnQyNGZX/AvgTiA1YrTe
+YPJxIo6yh3OvSyMAEs9Iqz5o0z19HgUNHZtDSY4VInxFXRJaTbfYcGrWSSQN60CX8RljGhgvKV4pAurH47wLDfWDxnulcNtGKzf4BV/LzjiEy48nP97FGQF+
+2YVB/WIUrYAdl1lTRQdPdrMROaiulY/MDeOF3EbvZF0UU3AGtyGxtmKSNkyWb5fGo4FUKU5orTYUmIjIx+JUyORbj8/JmyR7Y3oYNenyWSu3S8a0DC+rvp9m
+dh53dBDTZ8Q9DTFM18ryT+hkXQAUhjFGw+qdAr2cIpzB2KFTows94z4nTQFYGo/8vbfH2IeNFD4ChQExMJwmjOPiGGygQjsSb+Z0P2PyXKYGaLstjTU2Cqoc
+xigxbNLWk7bwW3IFapkd+cX3gCgDwtOBLzRDNgpHod74i+AnLE2wPUBVAbWyqNfqAfPXH50yOTB4bo32eneseXV4acrFoAROdas15tC79h0eRg9xAAQmyU8R
+x53Au1oz+8Q2eprdXSXfcXxmThCMYj+EHUEayc4XG47QcyuefwmbPyd8qa6apwnA116j9dQSgMdnhtrQrkEXfgWKiIfrzUJaFxarzydWLINOYu7JDDvScT8d
+t9UCNMdWqm/ag+/No+3PoHJrE7Gs5frhpLOWqBMQPFfQ388cYWiq719VnX6OBueYfPc7xjVinu6p+2MyN7XWl4Of36T0vj81pbNCTKEefO8OFbbEm+euemXX
++BEVx8qasGv6OvtX/K+GwsJvMNVxD35tTwSxR4+9W9hRWV/rz7Xfyom3yovt4wd1iNmQzN2H2cAUctSiZrmN3lv0dMJm1S598npsfyR6deuefFz4ln6/Ms0m
+xXTQH558lYVKySHmoe9TiAOGS62f6r79LedmI6hbG7LPxspGxOGN9uSQeYA7ZHWcnKS5XDqjeEZ1z26QZZrZ+EC2F6+Yf5ppDrj19ysw5v8k4mv6g+KbjvGT
+q6Y/84GS59FYyg+2ngelsD70aQxyFPVo38eM/kjBjWh0GFoGeOsjdhnPPUjA7Kpc/AteIx4CByl2nKqRspS9Anao4sRwmC5l8T3Hijso34RYodkgyBql2HaT
+6wDJbUk0jC3+7wYP/UaJ/hWz/q1ZHm/x5rZgSX6FsQwUtRX/Lamrt3zmt+6aCLc6sf/Txz42I3vtACrpqgzYEBGLbV+0nwF1vna/DQEDWPHaBaVHn7yW2svS
+wgwu0zusKN1oNH4yAVW+ASfzAkyLnsGla7Vi3U4d5SH+X5t3WNQ9nfWIdVCgrsLF+/wEtVChKrXj2bcYLQhRzFzr6eFCFUVG0j1aRhxrYM7I4V0vuke1uoD9
+XYROJ/+j2djExw25e/SS7R8je9cYqTlqK5BxFbt2sbKZch6GRO3ITYNKdzbKsgbZPXGEj6vNQCy4Uacw5BHd87RtUbxPaNyvEbT36fRF5+EA9xRgVfO9qPYY
++sWTuE1FGIlhtdXBD5fLDw09WJJVF9C4qb2sV/1Bk8fY7PblzRDPAJa//s3G8q+T9PZC9K+edeas/ULOiR6ktsqPH97q/NXMMmxsPFoj/HyC7OqGoUw7NLvv
+8OB3em60Aucznr69Cciie7Ws3btDce2mEOBjmHeSzCqpAH7BptNUH5Ik+bCaoX5IyvNQ18Xg85wRbbjKe4PA7i1lFpu9rWjJ+Lrt/frnEOb3xnGjVt77slw1
+4YybtGVO45/E6Esj5Q0atbZa78JtVkxuVTQqwl8+BezcPLljEM0MsYa2Uv92SZ1OltBwORJg+RDWfNSGBJm8H81pqXW8AxuRQY+hwlVFsoKTEwRRcxobTRPj
+/trlV7QXPvgdY4lA8jcN9/OQ6v9cIjF84kmgM6Dcd5QEXceyiPM+CGhedTYn+UHrUXCIqIDOUOenOvYneqOvxmOqtf0Bx5rlXZ3uOyq7gyEnnYJX5HwpUuVQ
+PpbLpSOk2H3i4YSTpw/Yz0XeKoTR0C3GgM/K9WjsykeO1PEGRITc1dqhQHiliqXJ27pi+g74kaahEdNfSY0FXegY6GndeuNLEI/VQazqbeJkQvhEqYNsj6HR
+9+H47vu4TUQmTe9a++2DEBVW565vP47aCJaN/QCrkblet4Wu5tJnXQcYz6Dn3mY8CaWoD/9XxueaIPcZM58t0VcEemppEuc+N7ILopjEeNQHj6K93hPh6ViR
+k0yqn1BCu9s7AigS3secXy8TgsRaCi9MbCaflHddxsmJ5qX2dxtMxH7UgR/geWyHtcM0D0ccClX3XsYI9jwZ9Au+7zzZ4/HV1fYp2lAR8DYM/usFRL7Yt7u2
+bhw4WDALBqOkliQkrIZEUZ8a8Pf6i4piJ6GVfs69tDXBXxP2mfVLqZKtpe6JoAjBU6pnnpXKPJ5VACfb/PhkPJsf9TjFE/1o6/TJ87O5mQiTb8Yw1C3bfWbn
+oAhdOWm/Kec+hdabsBx9RadRf9WfXecEdumt5YkM6O4d53QrfuvlXcRZsgGnhKux53E4dCosEnU1K1D5YPYHs6qOSEn1CL7eMwkBdh7cAVDJ/tB6GH+Jylq+
+fnL9/yhAyUTo00jtW+7sfrSCOLR5p0GDSI19eN1TIFaxjPBZf8MLAuFLnhqoM1v82RRsOdSr3mbqI5tAUrxj9kLtZyoh9urliL36sdRCut2Z3W7jw6K64Z/q
+svBfHN6JWqV2qcdWZHenoI5ri48Y5zE0/XOtK3U+mHRf5w7h1flmL3LVSN2ZZz04ce8V6oJyzvONQfuKr3Sj+nZK3x2p4QGbD5PyQTqdz2OzhXu4qn6cMc9l
+/1HoU1tY7Q7JWgHFV/db5F1GhuxICJcXY4Yl0egSg+wvLJsHgioMrcSxdTVJPV2Ho2Udg/++1xMrO9I4gbp1mLHhC3j1FKuH0jyyK7KS07B+KEFvgKihMcon
+a/EulTg2MHjlgM2Nganfcbd5GGdjfN0SOvM8WqfLdO4M0ksfnwW9I52+RQROgtcw9mY8bIPiukWbzW1Pc3c3DB13sSv34ZV9tzCAzyzrpc5VLOezi/qdRf3+
+V/0a/BYPYF5a9Fep9s2V/A2vstZ7Vvv6Zr6Hy3npdhfwMTP7KYNeMmJbx5eAzyVZkBKO6gr4TRjN/28lqRfD3H2Sx/WS0YZMoCmAZ9vDq0bfjmya4SO7uirm
+uY5rMsnHJakGuiB4rr8uBwJWfUXsVzVHtDRiRHOaJvzjyo7lEK1dLrXq3iC1p9avZ/sZFw8xJHygvKlzhRO9yyRCNrvuRSKauTiTbeipKpmLbflB1CFdvNo9
+A8kkRMqNpDdDSjd6RJUqwrctpMljJb+rVzFJYjn3JJpKUs3xpNwlUndri1cwOGROuoKgQ3g2I1LvRw6JHiTAhJxpW1GanmU1eKLIgWLoPFU0WMbaTDN1u2iW
+psc8RzO1NCzWPAZc6/5IM1Ch+Gn47bZ2CGGYt2uPO2K2Z/PYRLwyCI4Y4MATYjqP20jVBXUdkBfL8xof7KwBDrTLqXbggUEx93YEnV0zyDmX4Ro+MWqu76eP
+woXJwxri2+9Ye0739dsOzgzoWpbxmysecs17qZrx5exUPdZFpv33Xlvq+bflwXO68IAHWwMKJ84ZMrAjRoBx2yXbs+79n2UnFkKrCxYKTlYqDRbMdPUmbubV
+SqhR1+l5ZQ8BZa9vaf1N6AodmuFy2THSNfLp9h605l815u/r+78TRjSd7Xluh77N2G096Tps0pU54sS7Da90anzUcoMjwP2KaDePDJwG2oxny9Scsj8Hi4gL
+lk+SdxUAWHTxoHm2XkNrXzlN0MGOQ//57HTVoJFoa9PzqIugTjdbZ+Ice95zDKdnvJrOZQ7jDXnWsw1dnoZYVBF/dO4kfjz1V48atAGD2AtalJjMAVHMaNtn
+6JHqDkysOCNEGFn/nR08YP8/lkmAZa24hH6J+5o+eK92GHxgRSbEFGcH2wRhQPB/2rQQE9rdV5YqL/YApw9Boply6l5CO6v7jA1VukdBKi/O8n96Mhp6iNrF
+kjm9vbartEbDcDzqTBKf4C0JkvMVBK7MX1Vhi3u08qDGFHtKE1OGMyUsTzRoiw4WPNJdvf8nLD7xR91dGu+zQ8WMIUmyQSW/x+MTp9W9oydYT0+vxu/g50lh
+fd622mOwhpMKn/OCFfxtmY4T2vnPFnVb6LLckvSoNNUiclNLQVKrjfCjicWirljro24TyCAQj9Fo4pHdYu0aJpGxI09Nqwp9yexLr3ZetfeOlrm7yGK1ex35
+MTiDeKC5Dsv1ZjrAtT5/Nx4SZi4Hmz3UcrtQApEoEi7OiFKpCDFJM9CcQD3s1P21VtV/Z1rqq7rXJB0bielJot4ZDhI/S1CJ7ZequPo0Yc2gcpbbdw9PEtQ+
+ecX88bf7bhArIIrj0PiJHi4cTJzXZWpAhbe99WuTlFnQ21KXr1D3Imv+23OXPamYiJ5BhrTwg44zPllVTqjtstOTqg1AvMF6tCQOKuiPzmMYfnVOs+Iv75hG
+T0t+jBMRTaLWBkkr75w2qkh0AtrMqKdoV06p8T82anRswyzzlJ1lsUE/qAJuVq1T9/5L7Wxe7sTEi0sPvw0biInPaakFoI4Be1d5M2vF3r5ko5qdwnoCGYqT
+/1DHFBp1HFLmsBg+ASlDIOqICYJ2JI0rbazpbhgDK76yEDbnH8m6P5xd62et6/uH5HXHqTM/2X649+7r8WG+vdQHLwZgAn+R/kJO0bGpA9ylO9QD3lfquiGJ
+K6vZpnuH7mUzkhu7QRIcBi0j7jbuC8uEjW+LLs3x6ZfRIlvLlGD4p0rulokTKuKGiPYT5PlqINRmNHQ9npqvQBMFjSgDXFaQditqEeYFUQ4fcN6WXbrUJ7Rl
+rF8iG1i1ZGl+/DEQEiPoHHQkLHNQ1LzyHNPlHLNsreXkOeZWddUQUQqVmUbKLBkeb/6mC3Iofj3loPLFvtDoW7WT/W1lNq7YKI4Le9dP5CyP0K84+NKkGm0i
+L78Kj5Y1B5+1736/0GTWbdqZzkedvITlNRPVeldlx9Cviu/hTCbxc1Rlx95GcfNAblUbmWtfPZ+UKqNdU1FX29ArONwYBcf0qeotMogiB6B1iuW0zjrGwz46
+4l6P+EmPsxvSarLF9CFO9xHetSlrvDiT3exBIR7O9chi7xoY7/VjPu+kOd10tj9r0+HKutsxvtfnNE5fbdu9h9jwrVUAeTLq5L1FOr2k787sjTB9dER8nBGf
+cHucFLp1P7q9EG0NDMwRRjbG5bImoaaFK99bQs2eAxDFdN9I94/A7Y9rrYykJzHfoHGpys9z6lU1BuYXMzDqi441pnhu8WvX64UPcS+aw0udwKamSj4+xLML
++cmE2MYvVUeVhzsluB3HHgMe9EsIwEpjQu+t7eeeZZXjSC7m/u1I99LOJOBw6k3u17wbtSU9pfW2Zhfpb1NV/xPdLqrkni5+J8HvB4WBegwVMVz58YCtjk2O
+JOx0YjrU3p5b9nAdjXWven7ghKJjhdPK3jabFUWWDlWPKyZ4Ofy42bK6qxykuoPNpZqaSW6LELUAOFEeAuRaovo+Lb1e1uwNADc5gSCq9gzi1vHH6+mOn87w
+5+54mqXxNnS9XQxEzB3b1yeE/kT4zFcVtsYyelw5H0gH57u/uvJzzoSu17f1+4pYrrYJAsx//wYPvxyp9Z4RFz0YwAEPn+e54bdp6HsVvuCD1T7xPwAwhe43
+9wuDShsY8MeRox7/uhztff0kEvQHXdzXsWVU7ONhINm+2FWpv/Yu7iP6nBMDIOJ+WjbW7oaZFADyfz9ZAHWuESrPHkKi+75+2mBjmyFz3jE4Eqr3BpKBWcZD
+Ic4t4Z/bEHmzS4nCm4dv8ual4jGFdWfriA7/wqrOXCI4McYRbBNYcjnf0+0KMzRUMc7B+k3M0ehagt4cS0ooxWv9vZtt5FoL3wboPZt/LWeZxevySRMYO5tK
+m2Xc0dw9x+08hjr9rGJv7dwNRJXVXkzKHr81LHxPz2G2+fWEmgWyhM+WccUtDJNaMrkwWdUWTtwLi0x4iGKPuMBp6C3XfF8z57zZzmGd3jn4oKJZXkSIeuqZ
+Y2pxnlCbjVPqHTKB3hZUFiMmucdjizLyTyKZq+zx1yJ6uFroV/aAxEZhtR9uSlMOP87qNx7nNPwgKw4cdlpvpTYU7vYHvbqwUhVsL0dSzjbDlscNIBLBpsgi
+T/VwYsbh+j+1NHjRSOJr7oSD3z3V1JGmFpU7q5Lsgrs2mYUS/Jt2Wj6U+p7tnLXYtrsE9Hu0yVXBOs671w7cIfXBO8PlVY+nBCIQhrY1Qmvc7seX8ELW+Sqr
+fg1puh26huvn+pAYk5eWHQq62/BuO9CuHHPobYUaDcrjGb9XaC2njzRobaymFNz029i+Wp12a+/MrSUu35IP4LPRt8eH/0YLkIi1+vTqWTQwW1Q7MkIaZN6S
+1KyGbRnCfj5kP1PEMXpUWFT7nq1pyAn+hvkAbGYjVd1fXzFQQ3YjlD47J6Q2LaKQmtrYgdf1cs9pip7a+OG/SBMZepOXG4w+Pmb6bzETxtjfi5lky7pCkh6T
+02vXDf1Sd3tsnpzSMAp4gbHLUxmSD10siGs6cN0uVmrJ9XIOPve8BDTd/YMkM4WDWs99i7M8N1J3ffSyZYb5b7T/bZZMMLWeRDTxDOZGzcfTllwCIPkAY3rO
+Aea4qvIOUsb8qENh2GlVY79mGVcZ2iIlkqU93OnNabFTc58sVaeK6ge2heA5DT9XUbj8OMqgju0z/OGZDApdo6grxtXmXQ5W7Vx1cmuMU/1E6ACxk8bVCX6g
+Xg0bYpFnxwR6hnTVtzwqgwnfg9PbejphyX7N+rKv3EVfqlFE5nOAGv8tD+WoW60V9YzCZbiHeSdE//3H0/wvyp7T1p5CFd0ASvwtjF6Bq4SL/Z6TmpM1luPJ
+ZjIbSZTGH+wH4Od6PLVopjZPMiFW3nRtqfvNuUC94jvel7ZYwNhkP3vXjz86Ymqc/dcoz2d7jVEMjC10uZF3Lpccy2ghCu4fmSchUNzMHP4jcoPufcd2xP7a
+uPxdzmaxNcRx9NtY3VNvupZDaPdrOkvsuMe0tcCuLhvtJrJzoxhclzaAujFWYtTkCroOjzZgConnPEJ2WFHQrB0m2SdUAEf8byKpW0xtPdwXNH3PxvbcVWpZ
+V9ZThK1zjJ3vJISAChD7CSIZ4v+x265dtjPgivXT2IcdTEuN9R+hv3QiQztxLO0IsB+fMJYHjNt4yk3xYZDEtEc092PMESu13gP5poeo8HhrCwR7PTe4cBRe
+zcEpppgRJaepBWAGd1HKdFkFnpqEyE0Lmx2xrpM5CHtYgYRPt8beEZs5L29xjt44cmHjqcrK41fVjlr11G9wDCOKk+hztrbj95HuX0LX6ziGshWWcJ0970j7
+zrXbfX3fmlJM2zdgglGw2B2BwCOhQPJJVVHdxkgQY4qKvLiuOVzpLA7tPJX9CqcU21J2qSmzI5mu8Z7zk9Df6zxdrYFmMOfklCWnzFSh2o8aliw4DYyglGzX
+ZSaY4cqCjtTGI8I1EuZrC1W7QmSJ7uwhq2yqd+HaueXBBxqNxbos3PDMktj4kA9LWtOQQBuwsz8/GLLiRlaXq1kpc+2qmzpb04cCJnITZ8NKeGFTN/QHeYT1
+BOP4t5e8EVj6E7nsXRfX8M1d1jMuePD/LrYIRSqD4gAhV1saJ5TzUedLsbduags8m3Ncgh6+8oQcS6laIg4fbTh+jkAcWu4VqL6hh0lAmrrPdkb+yScYrRaT
+sY2Tdh/7z5Apy8YZGgVahDr4oIU4B+hVnyRbmNtXtqm41U7k1CUcdSSVUP3A2pLPTquj0pOAttqs/k8kK+fBgOOEtS4tH5Et63fQ858NMmG5p0+iFce8WuQe
+ynaNS45owaPdQlwiequky6DgPVA41OdUb2VVZfCNBD2vMaLptSWCr3sIB+C9ZHSuhIGNvAqt96L46vWuC/j1ht0U3FECF5uU4jVmoMWJ8WEPcWhe5FcLNGiO
+MkpJtW8RQogkfpHksuZoODmF+BmFZweK9FOn9trcoMAyd8B6IvtixwVU29Z4qp/IXcu5VRhJLCNtC4CNVNvaEFjsMHCa2anMd90rg9LiOgFOe/BI7Qi4NC7J
+kqFxvdG3yOBmT1uKJM7HM3o4LbWK49CGbZD2kExMaTm2zIl1Bn66BeS8YT70FKkC7tz6jPL7w6zffQEqBhCtsvX4ayf51GP3wzffXtmVXOWcSIzfGgM+NeT6
+CQ3MC9UV6dasbThuUCX0hPCY6Eq+ZwOlh70TZ8liztBMFtD6B7fceHMVPpphgQ+kyyaZXFqMxDlvQlDZIotDB6aPbmxOEE+nt4MzZ7OEzMrrW7ylR4on3PiO
+56Fn3DbMZJlw9KxDf51MasFYqnqi7bh0Jl0OaqG5UGd0d1+zO8IjhNMHA1efpwguVO5z1pzC43co+SCmbW3Uu9oYPZ02652ZuHO4cpwoJ1Agj/OY8qhOkv2y
+hsTpgXLLE/aReEeS4vWb6Zq+PXSmTNa+h8ior4nSrgIKIO/CudJ6dDqGE2zeAzwDXt/uzN7bod1AhOVBc5wN3uN0MhmL5VgN6uDU6EdsuAqD7uzn90xElSrd
+ZZDcp5Edd/zTbNBW6/okbwL4jDrlTqKe4b21Pd6jSr6zN9Sxkx9Ld+InvneX05Cb7HZUQcHorUO+elv+AdBbsvfIiZlzar8tMWTe0ta74Rk393dd/4Qd64cp
+rrDj1OI+t6j6EIQE1xDhR/snumtzBBpVdjSRx+oxzL36QxCFHg6aLzlDJgkkmwSCn6fR6SMB/HRPuVsnJhL5RcPO8HjLwO6U5+asrst50vNis6jOpFPUHzQw
+LhMKcdg0YRYPSRHs/n3Rz/SMOSXvTBUVn6LuQaUdZ2YTw6llEqQtegQEsb4DmiMCjaapQCXBpDZSiS/aHqIa64Oti0Nqc73UcP0adF9XfXw0Go6jsb6hyvAa
+zkKS/y62XuD8uXbOpWWmhT26Gs/n1i81j3MsLdUtPVjHf0lFPSs1bJWAE72kcVVBALBU39iZ0Z1+FYsCQ9eqKI0F3DuxFlc291t9Nr/GspiuxjDfGSGoEtu4
+nm9PLH5MCgPmImJKjzgdmfR1t1d4y8vRVGyeYj2fMsoAQeFpdU2WC2BbRettWJiBIgmriWfoTcA5de7ryNIMSraDuzLt8tk9f/YX52F2BjhHinKmlqrLxFNu
+l2FBQ7JGttKaLpatgIAmtLRuqAbAMX7lkZJiFnxoLbAoYyQHXVOlGzqXtZh2pmx+crYC69U53MP3A/Hg1yuJENj4X4gaiY1PFhxvAjZMp1s/oFzC3fjEW/5g
+TaUPzJmoiSFvy3L5OmYtiUfatTu0FuiB4dTVqyug6Dry57sPfcjJBUfTxehIz61uWPUU0i/ZxgzsDIjdgjH7yOmPR6qBg94c5x+zgSkk1UruiUiVpDhqRlJ7
+xkwSBqPIm21KpLi5g1zG2tN/OeLSGeaJcjs9M2aSGpZO3W99ycAGDzLWCuBl3j0C+aE+fnr2VgrsmTE0jfLxqQEyR1mP3/oGO0MrwBy9HPyrk0lo1UxfSWNT
+QzPH44TpafIKBbUppWNc0oW2aBh6q8eVGPm1e00RR6yJZQsL5v8Ov9kqkp7YZOsBxgVED7Bbz7WWML30NHptLKKY6Rcht7CS+P4pEpT+MTp8XtDrVmFQR/fn
+0G2ZUtaXIkjvlGeSeq8v6ipYH2QF7SGKAsnkydhwnj0TFz6bgIf0kupgnVo2j7l6LoSPxdDO37W7jV8mRdGAfneWCZ6GHuMd0Re95of1wogK7nHGNeGI8nyl
+r+fvDa82wtxcAHnVMrrg1r2T7vMvsjmqB/B5MaMa34GXUoHO3vyosQc+jCrhFMMmqN9/8gAvSKDLKZeSgkohbjUml3Lhxo/AU7fWp3xIaW+jv/Z5RqfPxIGZ
+OMhI0T9cFcEpKpmpe908ttM79TTfsn9Q8WS++jDKNFg5nACQn9au+cbu06IH7I/NuzUhD2V8yw+i0z0+6pz/+0LO+t3dj1Mu2W8NKrJS3l8jS1/dkVWh1P44
+9klUvx19k/kcW0scm36/klmbX2JcEN57MZZktAEwtMHqQL/pNvShkL8/7YEGwLTaoD1gW+ARVNSdXvKN4XnVhoAIKWNq2ZfwUTVHqzvO+hPsGrQ5bdcCjBLU
+ATJqDTMKXzoaof6E3/o6WQRfpaSJC/Yv8nzL5OSqRHOxU6AsWCCnhQbqACIQyXG6LOYcJmx1bDBBkhJOqa3qJeVId21e3LfN8Do8HISptUY5B6y65AaiMYZz
+QwsbmbCijzTMPKNY+ZxBDEp1efCRUTIArK7ndkruuyOQdGero7DhXsTwEGJBbe2/XR/qufTN5aGB9jx55K4rv284jjO5lb0b/LvJSv/LUWoAqsntfwFNyx1p
+P6Af2O1bGvLmTk/KqKgW1sQYaV1lI9Xl3zs1HMxHRCSFvY78Fz8WfGznpLLgSUAoS7I6l/AptLPTkGCmlEhX4eo2ATJbSQng/LL2fXb9SfI6V/FKW+jUYYJD
+O0IKw85BpXNHoFwAljAa8tQIHb84oeod+GUVeoc4Uk+NGhO0aGfoq3IWwlfSAZB27OFfc4TT4t0ewHn5Z8v69kgju4sciQKALoJ9AeOhYBIMU4wQNDEIiyQS
+nqr17aH/Ez63nggF/PQ1ftp6VtcuMta3WzuD+Z1zckCDka/XUf+f8c67wNLuGdN97eQ2mXc9Q/V0T4+aE/STvW7j9uEszgkk7rRAGerK8tydnrW8GQ6Xm/lS
+AY/epDrRum7BUngZ4jgONYvoXk/5ME8lNbTe9mruTlIn82FnY29NOBoBhveBVc4/3j2a9nUaxRrKa3hTPa+5K0y0rp37gLKlLRlZwTrQp1IN27rfcwuotKTC
+x/ytWWK5ZGK826mn48398aS9ecUq0ZQaC6TAZaX5ZCoPPycvQB4+UAhJtVk8DLBrLDc7kouG/mUIo/70lpxzEIQ3h3k2a7Ca0xeZdf6ZitO5q+N+Wz7oQ2H2
+WzgPbuTX5IQ9XNVIy72ib1QrwsyYe5GdvD6b3nxtZnibkloEsWcn1MDsidFk0qsWaYoCGKccmC3kszFUrI0ArAip2aDX82fleogFm2olA1dSB32P++JYmSU7
+RP4xd2O+jrLwN3mL817l9PH4msR+QIlouXvwbIXv+MtOjA0BHF0Suxy4TkhXps7wFDDTm3jGZHYeMZvfZ6v1U6isKJo49ccThqg2x34wcO7II0H1UxoAq1l+
+1MgR22bLZlG7179378w7aszY+vnCJuJ3VER/H0OjyXJMq9vue5juMq3HcybUVxoHC8wZm/gqqbD2HVdPVPV81aG3vEI9m9VTZZS8JPCPZsIgZFbA7BjB/i36
+YZ8mxbtpH+x70kgT6814uvYTHYBN9Ns9+lhDIsHlZOdmXS+o8Ti5bXanVPDa2NctEn+IrpCA0mjjg00DI6h5XFxFbcqjgqbL+yL2ceXvuBzTk6l1y0N3hN1l
+GkmbP+nFiHzpC9PzZ25j/BJP7Op1/N3czNHosZMbhUwTZaSC/7oMaEYvbWJxaavUENqyuDV/fVYlOwSP3B8zB+T+CFRjHVDl9LYrlGOpEBbIMfru9mOzjAxj
+8pMobjCSTO7zL1LUar3VdXhno68bu3fHP2NUOiuggk0U2Mb61HBiZvuZ7E1Nhv6veRv7QCjnbLf14rToaOcUBr15dfKt/WQaXkC9U0X9CQwNXUq52V4A7nAJ
+O9eRy4E3ZulPhuNnRD6Eb1klxS1R7Y98KgiRk9ha/yi1AXshMSsKg9e4F2M0JOKtm2KUTzehi2+eMmDtet3seBwpTEI2JQt+PXXWGTdbDjenCnwhW7DRTnOG
+4zx6459qHbfjMA73yJIhzi37fwLlMSCmHm3ZHEidbaY6kSbnxZ7SXzGSFkX0yHxkp64h27vDBlrDw0MeqvXTbgQwJ6YVj+a1vx4JjxuGtCBCdkKrDKa4fvF7
+DArHf5fsmO/lvlCf1Atu1de7YaDsv7+wsdVDrDDs6VWZ/NUraVlMptu+3AN/BkcTU6Ik9c54xKhXlsOJoln++hC1Zv3ImDyu5v7siH/JPaorl/Po3pBhe50+
+migNAw2NFQASsdRYqnSmKqDBlCJF0WJ8za+xDSgNxtaV8Ky5gSswAXM3pm5fM5BYaAxJWw85r2415YZckHOE0fclT+Ogm2jbDa/m6YafP5MJiMSxfO63BtKD
+RJWIHPM1p0Q+kOloXk4//t8xavAXtaf0fFBFrXdHTcMfK3Rv1v49Bc2jDVyIWwJAxeQSJb7YlaZXskVRayFhEBbKK3m9+9d6S+x2HUxd6YnXdlhRF0ydPFQU
+rwk81NHPpKJui/pm5zNW/g6WCvP61fZtyFV9rDtVAeMLWuCxwAPeGVhc/USfGb1U8fMZQaz/GX7qoq0/y0Ya+yhr6nL81h9fPpEEwMHRxHlhm1hJXMWD8ems
+xXBGXzmPgwAgaLQyrcbo5kba7HOI8HVrpdRYFyqed1oXVdNy1g+SoKX8pD66kqNCc+MuHQDf0bA76Kr3UfILc86/kB/YMAPwaUYvo1VROrOkYnCm/pDoBcUk
+IWFvrJil6QhCkz5sPmyZgERyiAQzFJkp1ZBl0jXtFLAsMg27kxLuCLklHdc5lpHGcupM1/iRWf+BiEOh1orN6XKYLIVsSawRFKxSB3RRDkaYzj3TpXQm1sgM
+0pe+1zUBnjpSmjsBbLUC3Se9FNREKYjmd57oASyUPq98kLyQ16327v0Fn9ee1hCa69dY6/uXxx2Y+TxQw9A0WJrJ1Q2LZkVUwTANPpXIKLzrI3Std2Uabw1k
+wA1dJ4+f1DTvG6hPapqflrM6hPFlHziNjMboMngInMRPcAcLSg+qnV+PvxL1w0p8n9iikDCkDnICBhehHobbmqjlPpOQRXv9lVpCX+3YKGRXZ0j1dFGyd4IC
+5lji2qVvIR+sa7E6wAlU6m1DKh0qnG33UVF57qLL0ijCFxyJi7AdkP40YYEqvL8GLsQhaRSDAaxfddBnnD7UTt80qv2xIzOvLx34BcHZdDKui1GwJiXR2R5B
+8iwBjZ0WxyVMQEaPEVX3GNRbZ6yRRCt1fHpqh2f3K7F2Nnimt4Z5PxtE4R3XE2kB6xhn7KotiBDoxEIzvWBIV1veczGR5EGNRaWD3uBsOU1qJGULMu+fliz/
+pKvR0NpoHGgYLEl+21U1LMcrsrvbR7GQqcTasvAoPFg8faFigdCEqimGl+qHyVplUtR4unX3ndZF8iSHsBemiNNrZzzk7lT5S06BQQRPhcuSlL66NpdoTq+O
+hpljCOTnIXS93rHAvg00WVrgyT+V51EovW6LxdWLhh4TB/d5Z3+vWt7c+Ue/vVfDa6CycweleRFMz/5RFNOxaLZaTvVoFGTf0qsIxGGC5/9jEPPhAPJIwJnD
+Lok9r6Hfv/ZjqZsVz3DouGGMCftGjscGHU9Uy7hV346yIeYSxGdI3292u2sJ3VNm1DXwNvkOaRgnXYOzA869Tarbuxil4CTEpsTrPqq8uhDO4/P2oUDwfjUr
+lVoHpQ5VltgTea6NA/78/PFnGhfcFqlRLE3xXQ2/giNq997GNRL5EQ8RrMpxIn2vTV/GuEC2mxxSxiHq/jJIOStZsIgY2/DjFQA5/BEZ44txU7pPRALtcoD4
+MTr8gej/tGgt0iAYOVW9gzRxpQTmsW+i+yGa+/4T4r3NETs8U0+IZ63nSxfGBEWEoaJP7bvYtBxkrL/v09ty5Vn1Sqsq9DM+XRufSVAx/MEsrCfD4UcImMw2
+fsRURH4WRpBnhKjqR9spMF4SrLLgnGaw8Yaeb3R4N34BcZiUCzIFoD57LK91+Ejsfb4qOJQ9scZzDG0dzTA36WOBoCs+7nIZwQl9K9mjbxKFquXCiN/0gci5
+F7E5fC/W7wgj9r1ZuWJAppOf5+knz+pbbK806cR5sSJg5xky0vgNlnP193fhJ2oq/O3kVqy/8SevwbOLHo+44hofs50VRyE7cgp0+3TpJ3NbFS9G1T8+o5XY
+JGZM4i6ZewA28h2PT0yk0Zoy4mnojwYRFf4Ge9ntvx9ZSe6MZ6qsqzuBGhaF/406Yt6Cw4g72SmHAophtM5w77p3cS6bRjhi5P9m/suxgDLiTCphCEfvpymq
+LbjimGJpvsO++60Hqo2hxWEMqIeH8DF43LZG+GSS8ad4tPV5S/sYKkPyMVijSY9DVJF+681F/0oDQMPZ0sYYVg64Aw/mGT8NK+80/arL+tqweiSyNm6pKe5r
+ZhwIMMYp2KJ6pbjiBIWDs6ldlVvQS02kfB0+lA3j1rBDD7FFD53o5hHYXnRmutNavfAB05tNZqA4nZAmmlT3qNAikw6K5NrR6+TSKIM9SpyeFkit5rdU3a1G
+CLdPdT+P47/RIsF7gqFIl2TFLd0ResMNtoHJBj1FhJSPQwrpg1hRRBXnYe27hHCYQT8bMT2FAkgooJ6587tOpPqr17ciD4qKvUrnSTGFBgLmFDwaKFbVhalF
+aB7r0znhDNBpPVJJEUh9S8OYJkJAHVFPsCjyfLY3IjYvTMAFyvhbVPQfyEN8xxoe95nVZaWbK8KjHr9Hbc1vHo5fkx5dsp28GAZy0R63/g6/OR+iw0j8R3PV
+ndIm8XOg+zHRFUkFWnstb7xVir+Gv8AgxirlNyg51fEdgaYUMN0rKBBnMGvjhAyt38uwJ8VRHeCbK7pe9kskmmo1aiPqD+Ua4a0m//bUJdjtHGsCy8Ood/v3
+yyTS95clXFWn5/RBvrQk/BIK9oo0876Yrhuvbm28jo/YgG2DPGpleGkmfY3XTxWjUAPjC7jWWLrHOuiYvvNSZV9PmXFW8aMDHB1Kyzmp7f6vHMosVY6278RP
+lTN46n0xqeP45Tj+g71aF998W94JQ1EgxUs+uv3reBNy2dLTd/ZyKiBJMs3qh4s8xMJ9dHvFx2zzRAS6kJCjxVYe2u6Ox+PdMi4j4Fw/SiRkGesQCae2gecq
+Nlj1ppkC4ZM8uhY9oHqz0/qHZHMdLpcYyCPsGDx8bJbcjmS691KFAonsK82Lly5whF0hk4CJXhHN23LyFYEo/+e6SZOjaTCGf4ERDgI36mYlNHNIMWLochXq
+3kO18j2tVGbrlMuFMkUWGd6FZ5Uk1+gksP9u1iPzr/Zx6bNHxLtPfYJ1SlCpOUiIeo7Pe7Sadk+NrmLzegbhwhq1xQ6oGXCMw6EWmVGAoamATyTUtlrqIv79
+RevJW8LA6AeSGoMjVshlbQAbUbBheNPw6IEedpNOwW/mKO9tGlEY1ytdf2/rkUMn00M6pbOhKJ0edR3wq4mzmwUPLsmHH8qDd57C7NuxkbdN7RrKQsc7Mw3n
+R7Y3hv33Q1oxMJ3FgerlSYYt0yKXhcf5WlvfzS+43ixq+vCK6JS4SCZJ1P91GvRXvO0APFQdAWBBcU65wrznDfN5OjzxTNRvaD8tQKflVv9d1GAsrtjmSnLA
+mhBKJq3BfHYkWO/ZcVEcG3U2ffl4DITQJMSUmcSkIZlHDmdmd50bXeKuz7XKGZVU91XuyroMGRwdiYO7ewRs8yHpKyZRVr131154/yC/kI9Q9sSBZdsEfdBd
+ZiINzMWIweExdjeqnaH/GlWLNuFGPZ/e0ZRK7ToyC/qjgdUK1w5dN49QjIS2vzhBZaGEHeOitxMJaUg3ftcBMN9zJcZ7aBfE41g9p4bpfpRlrAE5Wb9koHad
+An2pgqRDdgHiAGnYZZU67qCGAbG2DLZQkgfrYrgoLrlY0wVMzh120U8o14s8+QxgQLR+9ZJlkWOOtZ8SEoPb/cHqsITZ1Vkn/AxXy4QxURUaje863mGyjED2
+62iXkOUDQR5OgdpIWiQqAxPzDLe9aSkzaz2nLabVcN/tRwztd5oG5byYgK36crTCMP9raaiFs7eJfsPR/OiJcWudQJfY7B+YN4OGuY34TlFq7pmisNC6ADXZ
+5i/TmQxhGufknMvK0LElYWMkUXd6v6xBpk/qmO6O9RMAtLQYV8No6pGki3AoOyoSZSDGMkcOioLjOL8VhPKh6XWsqum0vhndjE2XQnIQyOL1Y29cPgFAi5xI
+Wyfz1nooc8qTvqlDFtQhJx5BPNlPMSPD5krQMxZWVcUArKzHpGZYluwNCOBYpncTaCqxjowdf2p++vppu/kF6njGnPwLIUb9ZxwbnYLUd/js77pEiRLC5Dgk
+S8iZy08+HV6ekvStRnS1dH3FTvr/mDrTBEW1ZotOxamhoJB0Ppq0dPTvrLWPeb8fBVQ2pg0cInbsRtGBNciEJsTFIF0kRVhZkz/yRakpcgDjtJuQ+lCHrDWI
+aNVA2QHl77pudoO/WmwpGrG9pgq5ZBEjCJE6BE+GXYfN11t3TQOQ9OKyOGFqcc7x/TteUZKcesZAKkVlMseYuZYm/TfTctKTJsMc3Y/xY+QNnmoQrmOYrXlV
+P9NSFo8yQ49yFzOlzWrkSDibc+lSjFRgBDdgEnGPBlf78WvzJo/UymasfmpjhiP7kBg3PUjKsy+FamWxMkYaEv3Wh2TqdVFOPDHD3SKnugFh7fFAdymMuSsM
+BIa5frWXZrxtlcKi1QH4y7uqL0/Fl6tAjGdZOVjlpELQ2s47YSJnKYVuxnGuak1QRW2Oq03262IDekmOJpRfjEUEIDXzZFpzqsMsdS/iFw312U/ryQj9Wa7u
+82tqICUMgeZbUZp5cfBIS2Xx0bMN9MJhTuvOWsUSxUtgfZR71GW9V38QZ3gLFkPls1vW9gu5SFzh/V/iOVJ23RnmygZvZbZCKW96qU8+evSvYi2fNe4FEZ0c
+OZfnLusUVcaRIctowx8wpbPKOLHzvzGNZyqjKFzTHL+As00SoZSVxzL06/D8dtIpxTSIyVGTojaG5xVCYUCzRqgSJEZWKVrLuRmOSj3ty2skZBhMGyc4xSmc
+TVPgqIlyq5pEl7WvbL6qHwgvzU2fuGhJY6jQDB8MFTRcmtCXgL+YlXZoFXfNiOeoTrxyCTUdtf4wZICCqNmqTWmN7GRxnax1ZuIJyKQqpWvl64yeZ8RU1bGj
+YSqiM1NokCO+mx4MlZo6RPbBvipi8Eel4mmAcFLcdKbhjAnuAsuB9PK+/AzzkEgDUNHBB+4TPV6uq3I1X4BCIasS0GJYyxhWC2Vrr417jxNRYkyZ4yXjAFpN
+P1jq8LSrzLUBMuyVb3DL+awPTRw+FQmSEMNfEcntu8cjjFaHRk/dhMw+BQ1STfMon2HoMLNso4d434McQrYxq1uri10s7LrMhsqtXtFL5dEMxtvgm73f4pm6
+hCMTshFc1c/lfobxeKe3KG8ucT1K2/FNlaFq6VfqqFM7WYxRMTRYNBcKoUWH9o6zvGyZxZQXPjyQvZYnLmjjzyHuIjm1LNT8vH7KnYr4tnRKeASdyy04QUtv
+iqXQeWu04b7SHg0c+X8JMLe0Ra2Tt/Bcv9UZROQd4+k2GcG0wLhctN3N2VDXxGgLqa00msheKrXP9JkIZF41e3r7htlbqVVS7HalgnO6Ugo1U75gnfItWbo3
+w2hKEeWA9oZcuBWyQX5p/dMmizXMkSqUUgQjDlM+mj8zhwAwa/waFvPtSQUDfzn2OkTalMB8qSuxjC93GeUxqdk177S1LbVjhDNDxLKkcrD9WngbhN0xYMM+
+L3CMpF1WPnInYlvIsFi/B7N4rtUWQbtvIpm10mMLCczYxbh9C/I2acMpP3V/aUhiHjFNWnBNAbpiovz5xp80yWYEFWfta1rcsrEjmS6fDqUv/kkZZGGuZHFZ
+zug3eBC2Sg/cIqZmrEza/YvacC0GvkHc8+reDqM6kxpW/CDM53llzRLXAcmpc60OePaFDQnbNnWV+EbYLpspj798cNaH0wEbV28/37rfcg3+JmmynLv6x5a+
+F2M/LCK29eerHClVDkIccBsnV2XtwENihvVdrtByBtcEtcvh7P7opMoRYoEitydQbRaFwWeimkpY1iDPEa4BLYPAWwW6txqBO5h00YXr0j1iQuGQs9RQE3Yc
+1FZUKY6pvh6B7x1HWnzPp3Ihlr9UU+dLAbU6rJorCWZ4aFu3D21/huwSEEh2ogBUj2GBQRabliulakpft5fGZljr1GrsQvWtv49cx29FYotqZ/2AIvF5m0+e
+5ApBovPPKv3wdoynBRykbZ0zHt5W43c3Sa+J1gEXpfi/lEJGLU/fzYBKz4yx3hPG6VXm0zwpsTYmrJsKntQKxHg765LLgIhnwBBDevNzoE56DgvSM8Mu9uh2
+NUh4mpXMB41z1Kdsk8L+DJ8Y/rD5GV+jpac5o3wB394n47CGicq/y3ooJC93QqnGTC3UhRkvteIxYExGyvBltUgbvnUZOZsvyx1wpcG9NhKL/BfzOblLG6mR
+bPQTuwts2S2SVl1x17+WDvNCVoU5dTkft1iROdDlvq6p4hzKxNxV5Qeg0aB4ff7WSgYLD1PMN2yaSmXyV6ChT+crBAmDRg6OJpl7bXEkyPAr4RwH90UKNYPo
+XD1nZ9YEEm/nA/Uwoh8oI5RdS7je01q93WnQHH9RepD6rqEtkVBDbVum7ndzMlY+rFwkDOiNMoZr03HXwFNRqo1wzgkJWGnUeOpmZp1lMsO4NY3zsAX/m0WH
+RSChdTYfXleaceCGpod8E6N43D6Go09kvLmbP6XX6immugTGl/NavnFDsCZEYnHB/lyOagjQK/49B0OUcT6hjKqR7ioCe7NWYBBYZC01TsQYvKAXWDTW8Pgp
+tlnDdYkJPVOeHlw3/OKYY3VxqA/OVH4zLlhxuOyNzMTSg7fJ4RnuRH8eIng0lpbc6HXtRLpENMNZx02axOYmJiNo26L/WRzMPnxTPhEGxZePQ/cakoQC9CAb
+vgv5JmcTdk3dU5eRoaqHuG8+/qLh7qfw513JIDtynPsY2oN2kUt3X8mJv6/Qte7T+4CeTDpJqXDwqjciFViqbNH67dJ1yqbVtosINQu6GBXepW5JEdAvspRk
+XmrwA97WbLrax6rEJaCtSdKnEfSdxlqHpRlRmWqcp3B5WtP2iEjR0QcNM9XZvYam3oY2Oma9Iyf1iqVF1I2LK+oW5BkiXJCvEyPjcslRD6NWcrhfDugMraCN
+5KriZ70mh1aKT1mUqXxLAXe4jfXxUcnNKfHS80NjlpV6I8CINIhk3JcjEeFbbUhKKfsqt6sts7vVJ1JO0rgjn4g2iGprg5XtMp+baKpBhfCfPGNJyZgmxl1h
+Cv3L/0qrdO4x8EoJqF0KVl3s4CnXsC4GnBFAr+Oeqo+ar91T+SU5u89PxIjsOklhhrR+nWR+XdGvrHdqQeqya3cG++peVnaNsR8eRjU9gRqR4yInuZyN2VPf
+TbKQ+MYkZbn0fNCRSnF3LOWMLHVIUuUNSiVzALoSPryQkQQfL6g5HMzdGjPCMOK//FlcN4R/d5fPezLsGv3t5aNt61taLXJqff6lIWW8+rIB+8X8BvcuPqzU
+YlijDO2mJPoXmVSzX3Nr+W0WJKFdlUkvkJE3HZcZ6FWLL0KFy5N6tAqhX4u1GX6Za1Jtp6g7QLVYGg5No8KDP5LCoCfi0aGicoiCs7+p3Rg1N0tNmcEBcD8P
+CWidZVqtnM7hCA/pvyhvIxThLI81nSznGdkBh/jYBN8IOqGGYo8Aad0jozwGSwq1LIL2ZyUfSV9e/0e2zSAJ4AeaUfxTyorP4ryTLY9B/UWC2f4nv65Cqz7C
+bd7CG0xmjD+7JrG9cpC+ZmNWcM30WY0jiNunAbvmngEjbwkoq4gYZx4lGyVYEii291XJC/PCIQNDavEM9pgXppvd1rJ0SiLavhD7luw7HdxwciEup51Uawc8
+u3kVg5zF2syaGMNCyr5VybYWopXnlOjzms/xf2d5IMsVBoXJHHomxxVAbYsZaGq1uOEz6BsJUb+ooS5/eHmHHrWsX9DM9IPGccPSKOnCKWRwQseKFQcIh3jO
+8oxD4OY1/MsBfTYHEp0DFNAhr38OLhfs0YalkpTyi54/MUMra4X8kPk70q6DPi1D766diLjlS3eb7fHcJXYd+G2T1vwUvV+XOveDFn3iUHozgO0l3OaZT1W3
+1twFq1Ao0ScDVLnRWxWCz89rajgIT0MF4c4PQNupm7WRQSnxmDaWP95MzVdgxhNoMCea3rCZzhtLMjvaMEgc5rRj6UmxB8KFUB9EzQt9Sr6n1lkgY5oUTCZX
+CJylaJrUm0Ft6sx7LxUhze1IhMW4nNphe6GNf+GLpXi7KZMot4aPqrGvgfDIQEONwNhVifczFd0cpIyrZLTkQ2XvUNCAoEU+KOzqGQ24OP8PUDGScNmtXdnf
+ViymnZqVAg5vFSxkNiPjcZGh0Bu+SXBarxEIVyu1JZY4pWSrXKft0KPU2k0XoMeZPngIl2l6pwALNxrsqzMPJvSl1opLB5lBJ9AHlWJQL/Hix5/TaFm5P8G/
+tu6w5gITm6p+Wze5ptt8v+6ny7Jxo2YEEfOgEfl9WGOhdHd8cQ+3b47q795p2HiHPQQh2iU+8dMdA9Vyg+lOh43gIxCd3paFTGsTRtrr3C+DxpRaQ4O2SIra
+BH62cRNsYX0dSsN05qbrIMmUJVGnbn51TexGO2wa0bXDXU2mwfZ7FY1Zy7EKt1GJL3EDJ6dZCVmNN6ZQEzEsVdmb0uycEj/BeKr1+riVUw4KKJXaO/WaM80T
+hzFBNUunesUSlcoVp9b8Lq72K4J2an26noie9KBJgYYGbc2MFC4apRsw4ZJZqJPONf6qh3Lo8mHdBmTwI5Y0MVW54bz7LddMkVkMSUrqEaVh3wwhdUPhSiVi
+YB4ZZiJ2g0lZGrC+5XbfNDm4Gk0Qp5o9uFwpCDr3bUjfam4wW1Wd/pLlrbsqpVn1KU+GBSvZdaq0J05uPWwU2MRXVMPyLhZ1wm1djGzMYoK6iEwNbFO71Ykw
+P2C3ZLxdmy+BuznfHS5vTQxs5IJaj1F3ECiNdXmGhA32tAnhm25muJaasdwKGiJGVfo3UNV2ovm4U37UIl0I8eXm+z6PD56t3v1f74cx1idKd7IpwePum67m
+ugEb81rKZClR5Y6FFL5HIyO6Nuwft9UaD9JF+dswytnQR7+af+FX/cd5LMc64j0e6iWrSfpFswTLuMlhphdaXNG1wttv7/Vm8feOLN5AVE7y0+byJKjjck4z
+YbKWbAzljg3VSuI4GG0KPB2gcPp+HcMzZjlTJVxFU7/EVk/Arzsy0j4QADP0rOaxjXTfy/4erXteX/LVC7N0ALezjhpPC7sY4JQncnU8+hZ4pyqcvw6yNZ5Q
+WZKFUAXUnoJmz6gX9yfNMMN/yFskwpZaUGPicoCxePms2vzkJGaw13sR+F5ptXay8eSgI+6/GEwYeLocPmrdmDSRnuyk1HIOPakih/npQNUYxL5L6FVv/t6u
+xV8a/b0S3JMHsxNjz3Y2cERj1L3LH6OL4+a934Y1eZ0S3d/VJKCJy0/1BfCwTmW7Idx4yEilzDxiEUA+ycB+syZFyCo5/rfRz2f/mrfvTVWh7fH+0Y9nO+OL
+GzYbo1sURts3SXJLytY1ACMVJ7w1LLCwFphiLfA2Ht3sLv6ftwOCvTu1/Rt8XYDH7pKcYtyerTnfyWLc9CFg4LHWEMfY21OrPpGZYWfPm/YkJQuDgkbM8ePU
+twUoBUqsurzBXvfZ2CCVz3oum+uw/7HrV+x2mcXpFFSrWM0E35elqzeOpXkx2S81pNSo+ZxJJVm3Z0/BqCQpoVDz8G5SuMycWijiNIwKZEjGC+NUZdizVt4A
+hZ1xjrclFr6l0Bzi1jt1U/UN0m9nC4bYdb8pMpf49h5HCPJVaictda5hKbcaELnEOrihWJa0X1biGJ3NdWzcEMo0vReIYG8mCE51qSbH0Tmt21LevYMTQj2T
+z0NsDa6D4IGPlJddi2kwzDOg28la1xGt7n8WnKynOJ4kPLhc817t2gdZJ8BzMjHMYFjA0lKWNqGpteVK787N0hTnRQ64R1O6SqphrwppfB9Y7q+Gz7vxhBvX
+84rb4cYAE0WfhWoiXse8iNGY0bGJZ+aYAIjRmPBShp4CVT8ODDLXTVtU7kuUo6Us/fXT6EFz+zOo5C6LbX5Kpy7N6dI8NCdeoKatZoj3a2bjPTKefsXBsbf7
+n1w0MATtjBSB4D9i0E+6vWPeKb4HC4tvtUqsoGPX1OgYbInKd7UnOkEjd86BkP5rOubhvHd77iHKxXW8N2tdA6SGcLOjr5ll53TdMh0Vy6yuRvgcIOsVwiw3
+sFUyHX79W8z9qfapn9NuPFY1yI+hfILNVzVo3tkkvjkl/zC19SXUfUvpt6gmcsIvbtlXa+TOejn+CdbL6z9nQPc/WiRqgLgdhdF7r0/83jlYpim5g/sdVs/l
+mZVzYgWaHCYwSVbVbn++sVG+aIyRMvll0OZUTZRBWNpTYtnh3Bj7/5ri/AKlTBH9F7bSRi5KkHP5CCmRazzzUJMHyzP9RCLQ2Ju10lgAKjdSSzggG7ozaZlv
+VBVeC1FR+yXYltBn2oYn0LhUkuCmlmDyvm0BTamMIhrCIHTBcnqjNNQ6AYjAUnRLQI4xVNErniY8r0xWlSwCYkYcdJvewSx1Rr91+ZvqBwZZergQ3ER+bXSV
+FDA0JtZTRUDEy2VZfioTmGzYr+dwbE6oW8wbrxMLzlVpJcS8FL3nNwT9igFlIMw5dbFZPd2XokfGtr/CvHdOZo+ayPx0uU1VTt87tfFX7Gfzd8WFBkjTiet1
+vZpNIO/bwjkltEWGEoT4ScF95L5yVeqiN4MPVrqicPsmOhE+x3V+m2lgtAHeZVcc0amyuwzru2YG3/xniFyf8pv28trUUrv0HjhG/qO/hO9vTJxT7hXnuAa4
+CPZcuaSfhl4jzkycA5U2Xg5TfN51B2tiINpEbNFc23Niy4yjJ1EIGDTxNh9RjVfZ/5TubkTNUN7edygJLwQy6jDJIa5l+WDaX9kp5ix1d0SdETtpNJ2x9n7E
+bKpLPgEfj1Efr28UsAeqHXor79hClGq8nBbPy++mx9IvbMe9elJTiAeY+aXPQR4k0RCKaDkKI5sghoTepfJC6fAndCi7X7B8DxngHLGy3o/319DqZuN+7pza
+5auMyDmxl4zZlUTsCWV9LVUJods2Qp7yJMsZYoFuxB6zIyyuA9tToIPabvhSvdYrfLX9NUgo3tF802bsjsRKUX6NSpQacDdhCei1SrDgAWewPiyByPcVdKBU
+Y5hbwzkHdp0MSrp2ulwyhaRyTi5Ev74S91r/2/lDXRxVd+yisMPWUKtGlkg3PKAn1Xgl05ViyYzqwjOdND6NsM7QKMM7VGLDSH2oNlmUMnsTUSkVsNWueU2l
++B1KzZsTFwutw1oXViKjty0WSVtorN6k1Oqe7MYa1qQlxaKt1ttSF4sgCuHUvVWosnXtf4dexRfTxsRgDwqBcgYiN98apmDO3XHhLoUskLFuml9JKHb3S1kU
+OZqpkqO1MxGwxgCGZ/1cEXbUDp45l8U1JhBf0Ps5mBL05MaCaFeGpB7cjemhYg36cHsBPtXcsqPswvmC0noYL6H8lQZWkfi6fTqmUNR2f45geGJMjmnXn/Kj
+/TfkwpSLLYlCOHiPEZstrH7LwB1kGTKlX7oTw+ey95Ig6G5pZCfMb3xQZgyuTFPHIEw4y/k9QIMz+8lvMLznK8PHWmnWGEQi5tgkRKrx/7EEzyuaB0p3SvlT
+iDkUG4o+3C/nLhCw1E3FIo2RG0LIkYhsNZO3XlIU8je58qRRdcnmsPYIcXOKOWioNuT3ngQ/zc1nIJp5hjgzf1OreMA9pX6YAlt8ILmvSA54aAnaWev7A331
+Gc+P//dUGtbkCYtGsGQYnNT7dVZQijAZA7syHuDkKXhy8uIXVLP4amHNkRTCMDQ/QssHBJTpb8bG3au6g6p7uySerbxv6ps3qZ6PjB5GETYtyjSWGBP7Oz/j
+SkbSfBxD1TDIw5xrFjADW3BjS3bY7T905z/dM2yBLbhvVthBiUZpErkR9Oc/OAPBkTEFRj1bPgOjnGEQ2D70GxrQiNdZha2yV9GzPqrv3ghf8GdqU4NH3pdq
+TdB3ZwIe4+CRiGHjIyjiX+pUBjK5ujihl8ZOPnIv3bz/64dK33WXTtuXaxaY+RxSiC9SNc/lSyNgGo+axVQSz0fpA1TpzTU+50ccytd02o/Y5rOrX+4blbrK
+b9crrE8dpsqKnUxibtfVC30x0MQS/RmXjy4ecziiDd+YExQ1tiU4o/W6lJ7+FaqHIORTWz462KCp/++wfuN79pqs6b3sy1pPtgQ0hGROTqSL3GNMUY3Omlre
+r3WP3ndJANS9E4e8G6h8V1Z/b6o7WhOu7B0vyDtzvyV27JVMl7gw7de/EUTtG6FpKfVLXXyQI1yq/yVNwBgrNWBybNDOeB2357VccO36Tzt2fdWWWfCnXduH
+MLkoulYjKo0NY8a4pLzXGK4Of+Yig2ALyuEvZ7TtnudBP/B82jPsw6UKL42/gerQBJTvEOy0za8OrDjAl13bSiO+fbAoXZLcTGtFO3C9MiMqq1ucK+PEzlqD
+egOgfCYD2ZQWliQEQoMRLaWsDYVhkxxgAlk1Y+P+BApzg/qELiihnLjsblJW9x09D74DR9gL75AX1ti4l7XnMcSA7agSn6lmQ7cB65EfXN/GOb/llkrPT4bZ
+qPvrZiY0lEf3lS0OsN7HzV0JK9uH/HTTYeS0grl3UJ+vgc/iDR9LHi5Y3x0bCn5mPcfFi/j61TN4MMc/fm90UFlrbwFeXt5QWRr2GuvDL7nEXKfEm030ArjL
+c32X3VgbBT8WabQ1W8aE0SiJ0liYT0T3kHw0SR+4sV/FsUKvgHUR7uySpMVyhD0I9IpXhzVcMoOvevlcG/BvWBGKlRr7jmtqN3cWys35od0C8V+QKE3dJRGx
+4Dxl7Sr9RbqMhlnjp1Q79eP4KHn8NJ8T8een0cti1c9WDbOhNAcBTmVnDzBEcPVSy4NtbRU9l77CdiBU+j950tvGoiwb7BxrAuhHLQ1ubzv4q9Sf2OMFji7i
+O2TQcSn/da7+Sx76n6mtGL+OFNBjTwsYHWEA6c+J+rPsQ5f1BsNc5Dp9KbcwOb4sD0IRWjRKcDrKc4fvcgxfwRKINo0CMaPGl/HSqAxxrute+8V8NjkdSLCT
+m7e/f7Nsw8WtCW264sf0/ht2TR+Hxou3Z6wOM+lspXboLjNWAsew+N5Vd7rt20uYnTOEs2sgSynLFyCF90Wb7QTppEUwVwll07x2irPzVScE/dqF0WF/MUbp
+VGVS1ZeBvt58uWaLzOmX63ovN1aMarpGiF3dEQy0OWxdVAXx7u0hWJZmY93e32aDDuPMjtTv07C5c5Zosp19WB4rJKGNqjgQa7nPLcmho18uW96WbcVeZFuB
+XTc1QHA6EgZr/hAI+wqDlz9B5ytpo4uSf9O+gz1wOl0IMs8NDl+5Z5YSeB9q5/I88d5fbyusZJsGd6hBnlvMnJ60JDA++kkjPFwO8a8B031OpDA8J7geYO/l
+02xpHz5r/PsHnftvZgorGTeUG4+Usum3WN7A2ddJD/04D9SQfyeh59kI3jcwOhCWqzGPGs77oECq4A2WPnQRZ7YbKnLQtQukvl3KxRop8oU4IyjBcAcXTB+q
+OmuDinL0gSznk2r7pBWc108XoTjCq/V4j7WBuCnYOir9VxCgov1m1LrT6U4+7vDN1piBR6UO6/YBlq9dTggmuu4N7Vdi3izB/rUaJoFK773YBt8eXnX0BE08
+cb6MkXaKPc5HPxxLAicBBtmWKxdKbrnjA4upL6eLafwsy274+OP9rNVxUxPSZnz+/tECQKMc1JgviQXIVGSKXXEHpm9ec6D/FR3dRTc2Uf2ksk4aAU7mbVfP
+vbJujIj4Rga9qrHKNt43rCqm4orObxz306w+aVzDnh+rE2i5cz5L8b80PtSUiaaqLFoCNeWwUWCelL56zBkxdpVINaKsHUtHdPlZVYOaHeied758jqW8LbXA
+oLNmb86QOUZfifmJJ1XvZKw3e88b4riYDdvr/16qf+83PWUH+iz+gsHuQ6p956k99jVmu09B2RGeLUa9/0XBf6X1fb2vEJEJiJ/GoDSyR9Lf34Hv36YSvMZO
+X58g+lbHmALWPR2rRrex8rnXQN52KU2ULRgk5FIDsu3niLyQd1Xd9GPV//uRrALQML7ba3nMIM7Ao2CbD+0AiV97xJcnr8UpzuLC/UB2aCvwCNVlezgrueOu
+Rct2P3+GF2o0DnAu3hLgqyM5joDK61e7j3vuDnes00rjc4/Pyb28q7QupXLnjm2iUumiq7ZTRB+Byyi0TxhwnDRB940+6OMy2EENMtDpyK5lf+3MY2ouDgy+
+bsqSZ/zB5OLRVeQ3SmMAqAMif5bum5nACp9l00egXfdwlSHADIbktLriU/SfasS2KobCHWjNHMAQ97Yzv6uN/5SOgzgBMD5gadQ8aOUbbXUcutKW3N7qQm44
+VW9wm0kciyPzoPRs/CrNCG9MKKMjai0BILWsm615ubn0kZrFBsBuB+eAh4qWW/pftPyMKGQms1D+4D9UIxqb2AZFkc8NPf7K8W+wyKeytyERi+bHJk28r+8w
+QMuZJH25lD1+GWJh0P5XVapdU4vnf0OG2pE7bLEUmqo9M2jjldF5hgE+Ck87Js3VXIiHpZKHaLMy76Im3+yRYfAsd+A7VG7Vmzn2RJVIozX0FL/xfnh63LG1
+iI++8ToYWujgQi3ndUjchJYPeixu89mmuh+7GC9mWrDVHvxaXwtTBM5qRgXxdyYfgl2rqwB3d32eU+mDdjSlnr4SL7kwM5hzccl1hZUDp7ic1kD2BE4IP2Jn
+ot2zJ7+ExRaTAQp71ZKcOo2293hAm0iVbqLJbzzgoX6GLokpZXUjdKgU+OP2CYHzfZZ1DVOCR/kk34CsSOfW2ZPxNSSP7FVb5UjqupT5gGSSr3enSOUEOTR8
+7BJU4ZfKe8jpzRiAkQD3TEC037VcThP87F+nceUdNsCS5UJsoBzpgLTtWGL9hrWzxHugeRgxl8NuifvA1J2/OWpOpuqE1PKQRFykJZBKcHj+4uXYeqIfSaI6
+1ictwHwDuD3War/CEZnvQ0jexjxnkjAc1QzlGELNPWQXHLHkxDC6qvlIr39D7KHiVybITXlHec3EIM5POwkce3ZMCGBLE4ll5SuNh+38Z34gpAJhv6Zu1Kq0
+HMEKMo+lbAPrP7NkY6wPE3uF4bPEC2GpBf389XEqZ+pAUMeK1Q7DCASEZa1+Et4xY+AE0A+swDZs6p1RujZO5ZKLiu+PG9TH1IdW4RpOj8WQDB7lfb8hQO+J
+ui7rUiVP73pJlptAVIZKovZwd6ixE/BRKTvJCIGz8yWT492JG7gzjKhCpauUzQ/BQPs3SrsRmBalhAbfgMDQS7wblYBJzUvYJyqILfULi1qS6rfElpUPseZ5
+YZSW6UQmEuGL4z+xoarYzF5d3depxITr5aNsoJSUlgLD7HJVwwzvdJiqJg0MFiAEMcRIgPtzZajk1IEoL2+0zB643z1lfpan9qS4BjLcVBAenPJfKEf2OVuT
+xEAxnmlbOS7rxViZPyCxz4aL+PnNaiIwrNWyKsncAY+eDS5tZUuaGIMHz/VVYQKuu1CDSOjupcWtmEY+0BGsty6JlGvO42XNLHxZ8+Wle/0xiETBcPG2DV6q
+XfJCmiJenTznBVLOiSZ9FluDwa5D1te284gS0aK/nMK5080soflSPCNYkWw6HBsMN92o8BDTvLP9LS3b3BGeLtVdW4fbnuHD/53UepLbdy2tOAPoO8rio8eV
+wV3zrdVQtHl/wc8Q1R0grUk8dQQhWDmDe3ibxjji06XV0Ou7bWvEGeAl1CP6kHKBT2dIRuWtn2LJpiAdkpHRpvxNlxjEipUMVzqRMwLFTCKshMwq0wkL58/u
+dr795rV2JPGNOPSR2DxdLMgeZyMLCVkBzCaTs8rynjhzLHHcIvMZUdyXfuURr/CevmUh4swIVToSNY0ILGMbjpBQx/8x5BwJRyELj0NGDFAUH6xQeGYtNWNF
++hGo09g8Kd5+CI12dvPDtDyJqzX9nO47I4zy8wM2CQeO4+kZ3jvJ4b3kI5sZOLfdM4rHLVloG+Si5SPdqNylxrLsMLaw4xkeUUTGA6C82SS6l4p/lHE03eMn
+MY61feHRG11HM+ftu7/Ylfc3hSW9xxk/L3oSKEnlRoSgUrKvtuUZsDTzrH6T2KOz8pS6ex4wUZoYeXWVhvRenIF8pBgZm1aWqA9tS/mnr5euUw9DrR4aobG9
+QdP/beI7WmcYh86i6Vy2msR+XW1TlHXenQbfN9idB1SjzTQWztI7ff/yJRaByDlcoLVpfjUvpQshy4XZ3KV7VfMKpwkxlOa8tmONkzVUo+Nl+XKJWVK9qwum
+luZjTOOR2qmraZ6diz73YH07GEd0UsNbbhxMG5RVSUIC+x+uA7EzmJP2XdJbtjlOFgtpR0lzqfGwkLvlC8FugmHoCyP3SIkA2n7UlY0TgQ/4/M0hggxKmgw+
+5nL7nqte9YaaoHMH6/5UQxF1JVwji7pbkotv4GrpNbYw9bcjU7EbNlsSjnht2pwuqCaGcPVl6JPuPstNIuyp3EZVZ9xWmknjVMsus9Rbxhb9YKw8CRtwEEit
+6cwno3/R+4fdkm7GKTM9TDhRnN2fjxSnjU6WLqaJRfse3w12UZNK+H88EktTzrXSP7yXVT+OEI/O7bmq04Tdg+cxs4vKQTozfjg7lZHG1jqfyHBirr0QJ4td
+zWAm3UbY+hUs10ngNULt62qRd+XNST9TXoS7eGloczhUU/jk2MdldUvSrc3OnyPaEFe4a28jVbZDvOKnahbfx9sjnVEavmv4lLWxK/fFclex8jFjC/5Tfvm7
+DyJCd1QVwFeZZFdWxmhRcdxSCLo+nFqUR1Iz0ZQW5V8ulubJELZZ9fsoF518p+4HuSg6g6TlAmo11Kt0Nf0E+4nq/8NCCqD7SQv+AVL4NPDa6FjWc0kA9Rvz
+XcQH5aO4EIL9enN6eynH2DUmhwwwkrTHne/rw4q8wG9ihh8zwcw0MuUon8kEB+yVZu31DchTc1ovMjUMnMivco+IzUgndz2O+T7Jl/oGxiGP6g37VVniDxup
+Q7PhA0C+XzP7wZOdI/MKn+3SPf1F/elr94sNXJU3xKvNaclywq7Czv5yTnChzh4rsuPcygW40/sQnIS1yOAEZBPKxQ9/mLhpSn4yLe2AVj8lWUfB9tHIf6JZ
+2vEHhRZ/nIddiG5u1S7fVB0ig+VBdREfmHsbjarGLrtCWecskSqwez7T61y+4StQhCDl01Plv7Pe9EcM9m+jtpM46Wdc8exuQ+OBzdD6im4Vu7F9hY9Rdm1N
+MUCvlLCfUUrr/rNKStgH3hoEBEO5i5jRI92cfQMjy0xa+mzTD/vhNzKG2JnULfrZPro8GqHNEQpWUCYammf4q8Sio50qFTAfqWMUmCM7tFCe7K0/v5OTU4Ma
+mh+NmdADNDUFKLQLDnBMIXXUUQv5AA1F0d5A20Ktfdm4V7DFxXo77+Vfd8Vlt9r6r7Q+XovhZvXaoTxB7rhmxP208USv8PX47152Qd1WHXfnp4ZzR18pWXHV
+5fq27Sm9giOLc4PU/tQEF6sLvf6pVxmm3IZnYzuktzpRCRKwAMTpfm7qFg6ancO73tO8u9KrgEOypejCsGiKwjatyjlFaqvPl0OTXqOUbdSPlw+BEqnUButZ
+PtHjUtvAwOilrfHMWbc5ge0rUdvlL5dLbqlh9qp127KjJmBYGRcVrSYxU8GMnG6lPPWlUpreyZ2ZT6bWOKcMTZoX0gSOujzooZK8xsOsATqcdXW6ssR0d4UQ
+fNLvtJ/uT6Dr2KLU8RC6BkjvtjmDPPP2qAqK0vjP8Ox+jXScuqQS/GKtQnsPCatp1eY6f8Uir0/BrUj3HV/eVmLV1+rOYZBcTgcpveSx5mhUVri5SUPAryhZ
+zCrS/cLjVFGx3aLsxVxzCPuqjwxjeSSuoNzaL5Nm9UTSkW+0Q7kay6oKAWsonc7ZEmg2naI7eullylIpHTXP2V7JRD/gtOrPgnLgME9yYNObbjBG+zvSLbXH
+qLFLvNmmqquZOn3Hyu5KyJI1IVyuI1mS5z0KDYXQaZLSInH6IdeoX3fAoxvM3W0MhaGiXMb3JzOeEeM9Zj/iUCOe1pzyKMnLNcIHOG7KLlaa77GcwaOS4zYJ
+TEvDaTrGK/Cg0+ptsMRtSy/1UVesOR5B0nR3hixs37zK+A9nINREtfGmfXKCw8FlwFFpuKF+PUuD8U62QnyGT03eyjeeh07D1aAvjsNaVZb9ULOmm9592zxp
+pBCo97EDoo8yN5qnNVcaGE7F02+GQG31k4mIo63uNICdDIS2DHqqj7ETnhYsWN0oX5uc0PaN6dblOxnFnJ8Br2Mkzdva7VYAD/BF858wPH1ssAwXvWX2Ixyx
+RF8OYYQ1+vvFPOqxyuU1+qm5BDR4DOv2QLch2IvJH5/B8c6+nI4PDW667xTo5A7xqNauBGJW8fMh+yuhsQyG5GJV25TSbHGruSkhZrxBGN2djm7R2v++6gi4
+QQPTcBkSOP1UF7V0eXl3YgLfcaShPSq7W8ZHNx3j7xH3lR2vjV7OURFKatvZ7h2HwRvX+6O5eKKVFm7zm5BHutjYKWTMAGjCKsK2zXev47X4IyIKrTwLVNS7
+CRIhDXAgaYjgKTs0GORqR77Wz8OhP58REwwv20FaajuQP+HXx6Rwiw8QT7WltaO7b3OFxK5wkkRDZKfzJqYENnW/5k10uEj3c0QhN1q49mfV5kYN/61axNzA
+ERNj5anDGmuv9qrToOo8dlvjX6Wj9MudnoW65KzLb7q2noys6YxoJM685S67xcZ6oOzkoZDWS2koJQcRFlS6RH72ybFk2lHWuSyQ+c/VWRZvQRxymhkNzQ2T
+y3cdQsV2hzFlaGR48itL+cvUKq/Lkcf1na7l5La+O3tSnLJlPqORJY9x3T7rp5LJtnd12ZmHqkUR5+CaqXOqaoe4Df+cRw3JHU+gX+nY5pp88YpSZdcxWc2K
+tFY0cVJ+ruunYzZ1TnoyVsEJ2OGK1c1V3RFNXKIzElSxqmQMpUxrRwC30sP9SkMbrCw05SnL3nW4pv1a7tmVi1MyXEfUa/q1WDdOtbnDnrH7dmTfqSi9WQJK
+K7hPvrkgM3Qy/6BDeUZf5UB+GgtOuVtn7rRTpDQ7DDXmoeSnMiqczBnr7AkY5CANYMelUpsWRlDnU97Zw4cy31Bn9sZmkBNJ21mkhnP0jGDv5YfITbDda40n
+Lev8W/jtDSKDbPztc+cpqr/sktaBbGVVVb7Ex4lubVcHgws879MrI0kNUpbKTtMf5dU3ql6S5PGf6nypShdYiUcNN4sepiGo7Ole5hpfysgfufkji26ch36x
+SfWQC5Re7aHgBQOYN3tWT1gfw5yBrby28iJ2g9unXyyLpuYjRHAevCS9IwlWOpeQ9aS0hQC3lXXps9riXWMs2c2Oho9NsRr0Nm6bh6vfMVT+RqmRD+LKMWY4
+0GiC8RH4ri23nkZwHnjnD0Y5zGTeFIM77eBAqMfLZYluTxZcWZOee3UjqipruWvO4DiMGr281RKqnWV9UXCRTlueciNydIUzVYZafJWUkbvy+H64UyKX/RUX
+0XKB/vrH+1qo7L3KmVKTnTzHUtxSZe1V/l/Onqok73SuLCXXncoKo6IwaSFAdXtsJ2t+PHUDIhrMGP8bQJEo/6/8Q6q4fzt7pOLeyksLFp+3ncmmappF1ThS
+guarH0dBQ4820KLRG7Pr3UVAbs7CZozrkcPySj6osC5Jni2NN+Q3Y9hWw8LKxbt57yfTw+j6tjZtl9z87eHaqMxrMIryW/Z+lfgnB1txQGoT6NaT0r01lTsK
+4x2vo6g/nwwE0NOcDLBiea/6fHeetWaOpYjmBCJ+6uHvjsXmWR3ajI2lw2Ng8RSQSfAb19szKPqzjw1elDYmwm1mNeufuVl00eo1zKa0NkWWYzK0WFs5HPnW
+tmtS+TTH45vyiNid6v3ZhKSTpGR7Q0pWs1eo+PwwHGhlEhwFWXnS61OPzVFKDOFvoF3r1Rp/WR+o9ik59qHRRbN8EV0bsvgDkSbWTv7JpSwx5ZtaiJZFeWim
+GDxN2aNAiQ3aHF365i0KxvuetLok2O72jO7WLRQBslpuyng8biXm3bC2mlXNDN+rN/KdvXmyi/4eic+gxAf5K6Kexk6ya9T2QLOcEXHt0fQMt9pS2s65FHCb
+mqvNMLL8NJHko7JDwc0rhdYFOYoo4L12kVHoU16tJr6khbwNU3b+GnPiOdmssvQOH2NCSmVW7pbusVfDQ3sYyl7Z0YhW0yauQ+ZoepulLdTic0Vb/7X/vGeG
+tpYyByvWKZWhO1vBb/zdr7/a/WryudjLJMVl6nqjeK8OMxicHCuzsRmqn9xTaKqr36uk9ct4/jTVdV1znHI/OSOn58ONEaiBu/VyGhl0If/JaO3EFfR3qDO1
+OISapkc48uhIHynQ7s6ZwaiWdvRmOdbQ46TRxH+qTtiiF8dbn+FceY9bZm3lk/k5sWyHa/K5/KxSZH9W3HZQv/2g25DhWD4u3Tib0jU2aP3LbTp6iHKapNLv
+z9AL+lO0si8tPllWRAA7mjvtavqYvG/Lm/i+1UVOmKz2jIIfOWYad5YqN77uGa9tre1kNYdH7EHQn9UeI4vGGVv52ZoG/GYpLbsO3f9LGamkQZX/59cKKzbx
+TcyLEsKi9mh6Z9dlEBcufGkvPyToVKYuGqR3jQN8PBT/VyPT5AUfzOL2dJcrwcNrwoWn9hpa4dS1Dl4ewxb3+FiwOvSmWYwsuOzuf6YA3EyJCExCICXt4f5S
+c9oe8Ral38SfvtkiQRLpSmIgJMNSe5ROD8Ma7U19L+7V4sC9ycMnXpZ0ndx37mt+aip31bIBLb0Ppn3KSBxsNCEHgNY4DcSIIF5d7OUzohNHabTdjSEkZxab
+roPGtcZFftvJHJRawbsfpqhvOks/XGFo+uCO2WLXo/6uEVJtlt/2fG7a2l/P/zu7RB2TdbxMa5wIoCq068Ao0FtLW/vbtpvHyjhk8vcdSdw+zXPSUStkQSxe
+ehvAdUsf6E5Prao2u8nrvkUaXHacwHoGsFibPmTXtSZ7ENKh3EPdjpJdmOShJdFD6dGm6h1/izAxh40DidtwcNURNAS6eENLqsyoOds+wYbP+Kc6Br5losBE
+r3O8J8CKJnPMhG8zJeiZgchf1HIcuRrnmHiSZPR1HmMI8UQxpTEcYmJQ3QuWGjQU3RHIPQ6n6I0ymFvjPFCadoZmW9y14CIyo6sOXQwI12WdaemWmK3iyMh0
+zvyQ66q1wPTtK8v5Wr0I6GPjFOaMHyLhchCgyKlDJHg5lx7SBpkXyx4sZbJztmvM9d8Q/b9xiB50yYW/Vu+hqxdcvFlr23dtHlKLaPNwwLla9mPBXzY42ZWn
+BMGzrFSSl0sNp4wK8mEbz4KDr1yamv8GQPN2y8pz0aGKH19kLJZbb9kOH0HiS2PIZjOjM+IrpeV79hocfJOMGosFlJU4iFHGf86vqvnTyR74aIjyKfu+NNvL
+wKjPLppBX2NkEu+BjnoN077v5fIO+7dcrA73qi0xlmO1l6sB8KXP7EbnfRn7dfmiYZKhNtJMkLlkP/nn2vWKvADz/7H6/uOOgN6uGiBsiaUqrYynMy0NgQK/
+RCv/ruWc+x0SklSKJ6K6bQg1O/xlts2W5/TbRGaNtUmNDo/MKfyc+p8/74Ob1EY9y8pj6BaLzcjleENBfHvyHOX1mb/0Ckn2SAaongbgXCcJTdfIo1KqM687
+6ReX/TQ90ijoQ90cK/WRRak8grEEsibLn1spPY8BAHfHAXeRJRnLtK97djndjhrkfHTHYHTBYOT2LQa4tVM8NRmo4/UIpqKGMoqQp4VC6i+Vcmlrg1k6CN1w
+r7XH1Butedch4rVKpRK8vS7clhkTrn8xUZaEZf9YHE8aFWVywsLYM6wGkrjxwTMnqrPHHObxlOyIhKtHjKlLtZ2jsb7PrlFQ1fQDSVC/GuNC38fMrIqxAKeX
+7MJ43CY70ZxidqCTneepYdlQJ4FD7UF5IqXuECuJa272Np9jLBzCodPCwfZTyqcgUNk10eRt7/jmQiRpmQ5aXWxnu1SPXTpYuBdDJoZpQhkUrq3NpEzFLewm
+6BDGg/Nz/UrFQAiVAPGWqFRnwj6TcisPWxLFJ/orbSDwIGSFgX2luS5tJqX5/51fCRPTQ03pEGT1SylEntwo3kwMGR+uMbIs+3aLkQOtHqVnbGHLYd8lyJPY
+ztIgroM2m+WgD9b8nNYj1g4Guj5RTaj8QjSJ1mvQ2GHoxjj0w73lT/amBnbMIs8IuQjX6o6q5Xh2YCX+QmbdzK6X9TcBoQ263ScqJMmapd+BCvEE20+sOagR
++1jqc8dU5XUh03YNZLXGiM3mfVmVbyORTaZD6Txr6BaebC/oL0sS5RaQdd3c9RkeAVeWr7ndrGCKZpMmM80wneUjxhDyUCFTxlp4Gg69hXubtqQrqdB6Qw9l
+2qnhPVNF/nObydnSseGhZQJ7fYfDm9wqg/KW6wLDtu232gODJCegi+AJppD4Nhyno0g+6sz0GT0C6k114Phwd8t/b9q62Tjq5yC3dq7GGAFeZ0i85qC70euh
+ZzUkJcIW9FbWCAA6j9gy8WZ0eKapvH3eEXVRm7CtcARHGg2zYTqJr5uKOfYYoJmy3jPfFOUpZxcWntN/Hj/GTkgLnYaqLuUqwUdiYjA8dd1TLzkJnErMGhNy
+pualsozAP50fp6Y6FE6mZUDR7Bw1Mntk9MQ9uXSdh2iYDeh1v2bQqEXtuOiVTLN5Z77olNHkgbH8sYDeIyfEkHmjcT+2omM60sdm21ldQyAjVvdjx4/GuptQ
+IVgm5vrjc/yJZPkHzzPSLSR35tZISBSWxxEq7erTpsvwypk97BtSsDqx1xxZLunF+eOAfrR/4w3B8+lxrMbGIvTP+x1yUyabMtL7M4kW5a76tg91Z4AM/A3n
+mwmEIv5wibsFlMwhZDkslbVTlg/6HViilqz2FsNCqlq60dpw2phiyhwgNZkUvXoU5pbn86gc0Ycmd/651FHsq2gt+e+MK/jfFJZ4D6G5dKa13X3k+STelXzX
+csvG+SSJ9TpbJ6e+Wjzr37xyHptTD0vUk+PBWD3pGnv2XVW6MdQc/JHybGPurBWL8rZmS6qGU4JHU3Oj7qVMxIbi/Ks678ZSY3JhV499XR8Y+646917dQcse
+x+v7it7oXq4wZp3dnKL7TmoCE87xf+ygR/vM8lKSlNa86DPLG8qudISl4xxpiew/H4Rw8Ey7f1yppcdkCaasbi7RzFdSL/Z2mnXCDT0XCyWaSiVLHA1SX9qt
+iZkF6PXTceR6XpMe03qXbcO5L9dTZpt97jftsNN8DoSerDrirf5fTir3dyRypZPR0oL6mcGmAzIiPbqecWfklW2nqVfbSfJsayQq+1br6PLmR6vSftMS8cNr
+TGLD7LI1JpkZu9Tw2znF3m47PzX0o/TUOklXDzyWJVbsrwckLtJ7pHLTd9CJf/SUNa+slO+qndNrenG4guHFarYQs9BrelDVxcnk5cKTdnwrfVg5dx5QUfv1
+Z5HWQ9EVjRxzTmexIsnON5uwUXeffQMdqmyvEdw11+ZHt+npxuQdRir/Iyy4nHXXzDYPDTOqwucKOYKtDq/XM8PE5LHEkDq2GXHi0wNj0ImP6dJNHiqvzUer
+Lnta15UCCs5A6XJrD1B6efSCV/lD7tj0REBkhsn/0ZbiNcFIQbDk6mIuKdXZ/HVQQ3U1CS7op7wV1eccRT535D/2wzBPF+mn8R8tB3H4C7m67AR1Stf6YW7Z
+2BXTxKa1L4uB7hfKWoBN3Zo8F7VduWnwv7F6CzJ8dE5cKsjJfLlBm2wtsDh7Sew94crUlDoN/LhzlNM1T6AJM6mZBfEIjK76O+R3R5XciXyVyvpfNfUbsre/
+Hr7c81hqPxqN/LguCTdBS7rDdN025p/lH05/Zf3mDf8gGv6QGbBzkb7JX2Uuur6MsnsnD/JdueNv8iHof7XXHv7Z7S51CFq9+nC+252C7jRZL5Rar9rOGozH
+XgKrAb/frLuceS9FnF9XwWbaYOGVvUxMbQCHp1o/rDx0sf8dytu4sGei/2vqIAzVT0alXWxJf+lgtvh8LHv0fXH8W9Pn0ezijqvfXyvd9ew3ua1LBpnkwRK+
+Au0DU4/NuG9kf81b88Rjfduy+tNrDH7XejSmgaVLXcpNpZzNB602kYflvsA99ts603dhCNhjxchODelRur1yA8YPJB6CNLzRcujkze1gP+d0r9XfA//LGtwy
+qvr7OoYcNb25HNyT2fLLaU4zGctuOOW1WYXTirvNntZ3Cr10+orpBl/t3ps1LGn1w/4IdxU4zO61MlUTaexYU+neq1TTOF9KjYe7uler7QismZ4adKwpyG3Q
+Z/9fOtbt+IzE3Pufa6WuZqBq+wCD9awM1kmtv61tWViGHGnXZJv7Neh+xU7klt+CTqvN+O3rt7A35/H1L8y3qjvajmu1HNiyROtlur0DHJSe15FrH+7qWX1F
+TsKUzzYm29Rt/B7rvy1vkEpoX0vGrcSsX7Ro20KXnXQeof91QAwhLakzw/Vq5/vWlo+apGx6wgPheWzVyHBfmF1vzfPpTzk1hPIJdxjqa6lub8kQZKxaw//q
+Yz/XN1BxaVtf9PrPGMfBk90zRfUteg7aZT3N8nh9u1VlgtxNnvhpL02Gqmx5e5/gU0/G909IjXScL1Sjt4+tavKfD4m1MgLpT3TJpl9tu4/x0Gskg71tLA13
++bzv4OGekmtsTdcdEziEhJVwu5djqxtsDdnSha50Id88H4SFnbs0CmtbXn9pcUvB1d1wPPT2s3TzVb320nkCL1na3snScbj5HVuetrtOEg11n8Gi3JbNj74l
+J2OYudyJdUvcbI9K12tTPGinA/PWjvf4MLqeWVfm2HnMHdDInJHpjTUi6kHqf/eG4jz77i+9OjjBfBuy6DIntUmm9OIHbqcPQVVz2MD+48ave4k25hHqz3C2
+tFKJkpye97SzlWZhV4uw8IeZbmP9a0b1P3vc2ul+7G+lLzf2sW8vlcnrz8Hn+VSKzOdH8zWR/yEjiB53zTzVIpfzLqPSTmJs6RIZpEwSAl1apwxmJkNTbEJK
+Dxkd4UuLRU4+5IYM9KdGRGQ8pyd96zee+hyNUbyCj4ynXPjSyH5sY8urKZsxkoiRlY1oxQ1OX/l1UoN5hNLRensZp3WvL7Ie0to+nwntscWVTNfUAxJzmFU2
+s0NV1/UxK0fCrbVGfyhLBPcbMXOnhW4yexsxWStt7VCqjNLD0l++aV5xuT8uA2gcTWvZbozGhrsd3Pukq5Qa3ydOCYKt+YxPB5PrmCEcjNqyuZ3aq7CSwqg9
+pNduDGEHo016nfSJbnxrmn4RfVTCyDev058BY0+E44zfeUM3OskooXlNdwphqK9kKk2iaUNfERyXioxelH6IDARSs0tP1weBYdd829TBbb0r9fiRzmZB+n2t
+0wd0O04JHaBiXa2Ace9u0vBg7SaA21EpnWos2MsRTF4kC5i1nLbpnLmlZuWOmia2GlHxH9rWeiI8oqeSv7vXvaXtAxbjo0uE2+Mbsv3oND1+IBqHufu2o2WY
++ht7xyU9b5Li7YIfjTaPpy+qsQ8mQRK7Fe8/NLcGRt3hDmuwOGlNfBdJS1Fwt12Xv3sQdsQ6yjYGjgNBQJm16v+ILd0d5NzoyWhW712NRKrqt7v1cPV+GTa1
+l7uWLxtFtOzeCcJjJzNPYWXeAwdj3orLycBV0OJ+Tp9r7CRmmzo54tCo6WAbZ7M0qbBxI9GAjNsasiEhN10rX17GDFl1bZ9qPAmZ4U3N+G4xD8DJxYdpXjSx
+L45O5li0qPStqjJ1c+RxfcKlnSAD8tyC0pVGNg3raRgFDWxIvOu+Iz/c4kaIPTOU362RqftOD7seNVmclnKdzhkqWDnwvq2cki0fGwNZLB+p85KM1H0bV8Jg
++F5ZCSTwDg6aTUPKULd7Yhx4Kw2WikorarSZFRQqPewwD1pAfqWWkypKEpTsoBtWxxjKx21+mqrpzCNNcTmRy50CY8iFuyH83cxjt8xhKduvZ/upLZmiyldc
+H2GjbmFu094+KtMei/lPNZff97hA2vMSssjBLDN40zNE05k64Q0DR0Hm92ST95GBb8KzSjfc7qWB0C0Su5ld20qhc+wiK8N3a312pey4N9B8rhFhaUMTy8hw
+m4heb/fywV5/YiBDKh67m6MC97Cau695zKbkTJaVNpKf9MFToryuHe6T6Yvtna9wM50JOxsuZ69RUEedA2+1Le5MhkI9o8PkNbaSg871sbHHuKcUyzSkXKNl
+K5bSbB+MemnuaNM5bUxsH9iWzXO91E++rBVtRxvsO1Qe/e22vNGhhmM2+yyPBNxSqn9To15kDpvj/iBCKinuDJM/jDG1o/nQH2Na/Kanvpfu1tf2Lu/+6x3u
+76RFzqsUeuUEwTnxJd96V+FZr0wGu5h7c0DjOxPnEz0nMkXN8L37MfANU7jGbeJxUxH61xCNaL+arMAVgREJ+67uGA8rNnl99SUeGBk/8SuMPV/QqXkaUg1f
+NMn+6Sb2v4RX2UHnmTfJsHpFaHL5LZ9mWdV/UStpkYkhDhw+rDJXMNB4G/8OcEQhFXPLxGIF45yyauBcSFeN2WXZb8ZD0G5jzU57PXZ1lAwztatz5hlHbLic
+peDLcJlSk367PNfTydjlKJ80bbOfx/GqZl3loONudpyiq8e5xT7iQE1Qivv1yZT5t/wMe2NSN+I/esfQ1sQ07jpulv0NHnMDkfZYn5KRy237BxYzbRZr4+HI
+ul/nk9FyrxVFHu1r8Xg42EoUKw+U/lxK/lFarMYsVibRiWQ4AG33z+3TPeO/t79FyUuVjB3RfsYA/3xAct2Rgyan1byq461ZzSF4UVaW59iofn3b7kOqFgAw
+HAA/YH6IOOKvu8+P4v69phqyas0Kabs/JnV+h/qyDVs6o+1+0gMoA+5SFwECPO3mn2tsl0EPwBCaIVqsXZnvPpsvWz6km/DB+gsTeWqqa2i5Ix/xFyp3Br/U
+dnHWLYdXK2a9QfuYg3NsGm1Qg9X0V/ISuliM3tZkEgxaqgMFMPYJp/pLqT5rLsFRgwmYlAOn8zDNUfMKTC3Fy0emxKYp6Hn30il9O/A17fo3a6BcPVKn9wyp
+Nk0Ft8qO3LC7/D+tQ1sIL6XXK0dhULdYiO6hTC+Ds21dgUjkklFd/nY/JLSAcTfGrGnZIy3dZIFf5BfBYy8nWHJhaY/rvRFiNHUpB/CYeSQa9a3TKc5RNvxp
+SkyG10lQfsam+OmojFhZevTh8izl3sNxc+cW07BMnUe7eUbR2xjrH2codvX02shk+RFArHKmqJalWniyhnyTVZ9NosHKOQ+Omlk0P2uMzrPa4JZej/X2awPU
+5nCRF7OyGDKiVle7SY9bUTWUdn69U7+t0y+f9Zrp2lqaJBKRV9NClpO7ukY/6y9j7fu9DgYVppYS3nl27ek7ccDyG7BBFtZJIABg4AuwPoTqutZDoq5N3Vxe
+tmMvpLbxNOdIIjWplTbJhiD8mqPL0VU+8YqAapZgVrbl38MYhIWZcvnIpV7N4cOELf2XYcbkce5esuvmGAB1Ia+Ut9kOvNzK8Tp9JAqhDSKw584038pPOQ6F
+Sd0k3eyUWgFIcArmcXCrFqiOd/PdKs6bS0V4vEUeEKE5SX/lsSGT4VOEWdNs5JmAEtLehCQwqQ66ILYQ9GAbZVV/KQHNct/MTcB+qRkTzNsGKSE3wbiGBk4g
+7OnTkcJ0UvpP551nPZ3WrIAH/K90BVjcTMgHLjYWmByVTdMCU6PWbUQWuBinwfQ15IgBGhxQlL3J5aX+lN4C8IAeGKp2NT8ChfhpTPc1Ze3FOFXXI3CGZAJn
+jL4kg2HR/UgtMOR90seV6V4BGMLUjiHCuHU/N/jboZeNqzZGdP1rJuDIQsvfGtcudO7bPuxfDGIsB53j9Wl93oM/4NSqf72pH0zMtysxwPNzDMAQN4yxwZd3
+bEpNQlU3lpdioIPbBm2wRVxG+c29fOGni7LhRwvln+Z9W/8xQ+dj+GmA6offoML9+2k0CoNyRB3kszVwHnuEv+dTa0z528zHE+qw7XVALk97+miSx9GcUfkX
+xkb/i19QL9OoX/nxwfgS4YiEPFBTf5ndjz4gLRnFeCHhpArQUVah7f1PPOIMEqE4OBlmzNVjqPTeE+r2roADTgLmRaSs7E2l68tbCOxAIxG/18NheFrix6mV
+WKln2239AEWIQD5c3o8jkENGR8geWnXDzRwt74Y24UHSPGESZrqVT0Fd78pdqlyHHPwhElgpreGCizDoLv346jS0YEIbPFCvZ36ewvrhXWNWRayUo1Sfe7Il
+Pq1QwwCpdFA/jI0sGuCzuq8j9T1HDJHv50OM4dTk6V5Xd+xk7W/uOCbcmK6f/I4N7D1SaXy+P2Vb+iOyI8qncQ8iIEIRa4A7T5mJfeMN8k6JfOlMhkMlNnmA
+wZN0yS6k7Xd2+DgFXXhMwyVOwAyv30r029PxNCyh9uxNkVDYewZ8eOnj0hrbTCj54DcRJiIhdhYu7ZTBqjuvHYZ3hDG7/Ej73hbf29JprJEPJ0ahDVe9TQRZ
+292HnOxt111xlC0lS6tmrm1oTlsNQB80dW2zniYzE5GzqiU2ZU6W9jvWsSF71j2xc4PhzUISQNYiFM9nXGnhmc9hlps5wWTztm4fFb2rtnu3NfTyKaxyzBEq
+bTzEkERT8LXW2BmChNkKDf4lVABOQLe6DUtNtRtgFaz/RVbUI/XMpctRe8wbOzOFj2tKKQ/dUAvifLv9+pzkZpTdvZlOMA2l1GHD3Br1xlv45jcmuKIaaJFh
+r+oi9RUnB/pYfFYNihu8WG7lfs8WymQFNqqB1GHORQUY5KEzvY9zLqHKSyykpiToGSKxnfsaH90vLmHORYIgStV5BOaIrdR+HZZqrxtAI17ogTj2L8DhBVNW
+v0+Ev5sLPRLbV/3/rMxNLTN91mHonjSAV5It1oR/Xc2qkfMOux9rKu2szM1QQ7x2MgDeBhQw+a8WuEO535Wt3IZBakOn2e211GNx0z1S8nBFhCfwuFc/qlez
+ReC8JpuvwcNKQvy3dxPIoD686ozBXN/o7CYOzECmrEHlCtorLqytDxwUEI1SXUZrvOGvDXESTOPNbJ9LakfM7C2i0UBQoyGG+r9S2ec3m5BokThfmoEuKxHZ
+Puly0HJpNu3MBIfGlRDeFXFzKfqx3yl/5FM+087ZfldOLPysNLQS7gDveNmVv7bEL7wYm11eKjmEPvYcTN5KX7V/eRG3CsgBqaXKni1bQ2o/wDtGMzcGqX+v
+IXBS1NAa/XaJXCqnygF4oR0/zHcHuK/Y4EUJ+DK+/hVd+VFhjGRue9/45Q//YiZOAIMr0O+A+kZsoSNfgOE/BtbsQSA+tly/kt6BHz4AzmX/K2JF/8cg3y/9
+DxfATMDuv3jALhgGOsDzTf9ALmw1wALLMJv7PEIU2LZa38mD9zuPSoA/ISehZMbj9HB5ZztUO+A/3gBHlfF7ZPk/8G4HkOghTGCqFXPBo/9PrnCQIwoC0WEi
+fpTXJbPpaHC9ApqJFm0PzXY/23T35XmH8F7toA4pP1zHMF5015IpXt6cV5VixymJgx65tfEOnD4PwYXuGz4yaGL1TSsvq1EY8+GSH+V++c6uXDQJD9irKNw7
+7+RFQpL4LrIA+XYnzsReZ49fMpZb5aGXk+ZF3+EUUfsc4+PZFWOnipfcMKqnq1z7y44NEeZbpUMfJEEM/lb5JW2VS/F4QFVY9Qbuq1U1PsQyGIbrl9ngMypr
+9sKkqxy0X5W44Aqs/E434pDrV/hAuww3zbeOI/v967W1Acouj9WoRayJ40yMWHAn5WFo/0JPqmmDVIbpfxNR/G63xdS4zsQiKk9WSv6b5Y5paBWUl/Z40+V4
+cri8NzWpnNwX5jCxO57WOZwIKLQqyU8IDlqwh9u/SnFYpTi8pO67Cml/vHdL1flt61x9vv40Ypi8CZwkm3H9+sduUFCMMi93KB6mlOuneY5Snsw2xw5ZNWwX
+pzAclOeBKHV6oYgBhioKYA5b1ugVLQCBeKVUuR859uFpFx3WbzpW1KORDdDLY1WYzilX9njgw5n46D+GTMv08wNVuEYxT261m8iL/mMCMje1BU3yHs/lpvdy
+ytsnhPdV7QCpPkvyXMKuQMc7Ig0YM4t/opSOOkCz5D4paazj53CY7qINM9qCbrqVjTziZ2f0S+M5/SyvewLFaX7VtOdJNHtUCI06SONf2gS/PLUfkm3hb4eS
+4Z9t+D4UrWdT3mN6ZN2ffZxy/ungnFz3XUyi9GOILcuCp+JvFbvH6W8tz0wW46pCu/Rl1hLLGRPHJWYFxFK+xy6ezgOmzgOCn1bYpvIy4AWXD2qdER04M12a
+5gowA3xyMj42nH09VapvuqPB1kl8DOhMKcNDbFhvn/fDG2w5PLrPOSNPDyI3J0leYbjKDY34AV/LQRLheXX8Aqu0YfNfE+gac4lF39yxRp670ZUCNKSmsUOZ
+BWxzE72ZapBldO9jpXZMCawsb+Zh3uYNgkBpUzmgW1ikeyxZosphM/tTw/Srsi+gjl9SKj9Vg2ntAG73rvJvAXVqWmbM224Iqn3wJLkRiNlKEXnfAsW8r111
+bataCbdxp/4m5dCh6/4fc7Zt9otjTezjsH4DZzmgH+d28WxrVOvjiTCHrUnybc+n0DzeEGQa3NLAiFqpMnV8zp4ZEd+43SvINKkSIuWwbGDXIKlI4qZSCm1k
+J9jDvhsTJssAR4gr1mgrPo3IUWyhQFaEn1becET8EbpPQ4WNNHsbRF4Ek/6KIthYTfWBuym6YOmEwqJ16sSNZeKK145j4tp+JdQT0OhcUOJNTejO5PdpqY0z
+CPCSuAf7sGUoU7FWZIWJYUDMBLRQ1StOQIr7Sk37AdosW2EniHegb2HBEAkKl3YMNWTEKhXIScP+cfVcGZfqEmCemiIOM4KWLgIOSC/HWlUcWyy5FXB4LcVN
+wHjRKujQ9rzsbynqRgkFjz6CEAls5WF+DRh6Tl/Nx1pWas6qFeoMUrsx3olj8ylXxqa13xh5KmiWeUTcK8fmO8z7wantB/7nT+7LP+VOHa/vV9OWLYaBP025
+TeBad+JTYDYFrPlyrjGuRj2jEKDm36iceIdg2L/n+NoZc6qPOJ4F1yoJoYL7ykOcFvRyoMq2uxF7GouA9cQunBFv2VTbAArwPljYrvkSR3agmo2n7UNL9ZUJ
+91HVPMLfKZ9z5U/2iSuARPkWDouvnm/Grs24s3FlJ2YrQVysaEnP+ugKge1BvMNLm8k0BIysfseQEyz0qnveVKUlt29AEm9a2U9JWFoE2uqEJuOjwHnAkSiA
+6VeHV+zIf9qTL5QTv/6xchL1NcWjbzRMmOJ0UBbXq2lQAG9aTpPcKvcnUopH9S9FgotG8MFcRgwu+JzeYY+VecljOrX1G+oYJ4Z8q3iaIJlEHlE0sbdO7K3B
+I12rUZJZNX5Ht/K1R4gpuobJcHo4m+9GFfiTHJYVWbOEkKnupR4yrbXT+0TDvsXswzsEUc381peGeysw9X3qTuXa5WB4sJVchnMfJt26KOxSRgcpQNoA3BXt
+hu0DDbo6LAC65aXeIbQ/0MDwuYHaWb+Wgyc/M+n5dm/ebJTP3RvsRhspQRTqpEEhhaEXoIrOmQWXNgc6+nkw10lRAsbKV5hXbjKF1MuYbNW1KnSw/pMi2l3/
+gD0yc5Ibi24mp2F7mqfqvkprUN62omtbFy1WW5YHLNwh/6zO4GC5xipQD/7WH7q+CXgd4Fy2A7YQ7dAGztuRBOQoGbM6GrddRDOoAMX6kMYYJTWK8gHyXUX5
+yk0DnhEFAnDfYpveAgXf3uatnvtwA9G7xxSwLIvZg5plwHDDBazyjpq3HhG/cQ6Uxnfb1J9QG7t1oHFbcQMEU75BdwvMx4BFZ8E49JUyI7DfFLcI6/3bahV7
+K8Xfkj1/4iuqEfQLj2iyFr8Nd7Hk0iZJizWZFixCnLIHIUYhmjC3cvP5BfflAK9t9t7Cb31CTW+00sCU5U1qFNuAqnxCZorf4JHC7lZuNDB2dIzv4iDfhNz0
+EgA0+2rxd+dv0C28fw9cFW6N+pb3VPpwsL9DkE8xUdnlPQP7+5KdHtWIrxzlK+uy3qT0nMvXqKJ+p1Z513O2+bieULuv5UYxCvuhA5LfVE7BCuUNSdlyYyQW
+S4LhVHT9caLAvJCVUuiuur5DegL8uqJKMkrrn3jfq121vzDZ42q69XVdE5SLqV2MDfG5SFoEdKcxYVu61C/6XWhycB1srGYpTlVm1OXed5WFIRqYIT4JuoH+
+pD499vz0Aif+SuQVLhn7mpCtqHYwjHpXTJCG4aqDggwoQVmoklKfjqrCvdJ1vcOKkgsVjPraJOOcfCBSZuOTqH9Gec2tThqX5nMDjJOBQGKXqEjZm5XV4KPZ
+nGE/nW1Z6HxScbOniQY2tCk1i7f3ptfs+rUASX5gV5EQyDk84bjRarnBg5NzjfPZ0SgwmnfeWYlS3Bo51ZoJk+mGrqy5/IfFNcwy+TvTjerHcxcGYAN7sOkn
+hzHN4+R/DwrL8lxAMMqPtiSp+lzlohqDrjNDY0RI2UnXeqX8/ZS78Qeo44N38uV9FUt/i9CWNwDnMnEsDlSZXF4nMMfXPeG1xlT2ta7iEWCbxAw/Tqw8lBnF
+6xsWlomc2va/de4oF+5vNe/Qf5/M1Hh9xCBO8LLUncwTwUB90ISQvHRteA255F7WnpAL9PP/cse6/TCwuLK+tAhh703pRUxsYFDwUlYviF4NKb6Yf/hZlTc2
+iquyLn1tQvoq430x9n5dfstlgj0Icbe/TFBNQ9tj6z/FNhLS7B6/kF8clGEe+r8FQ/vfoZliWf4Lz0MpVThdJD5MFVBln2+WPsxk0F/tKXgfQE7P9x/n67kK
+v5azvbz2Z7xFPozGTkv449xqaulBCX9sldRY/SahaWXPh/F2hwkICjg9Jj+QtCKfmi8YuRE1cFNo1cUxpFv0zxQWrXaTjqvK8l5pWXwSR3MFFgzC+GrKR7Wf
+b7pYQFM8L87QsegI97PUG4Yrmwpddu0QQpEJBSKn9DA1nwCAFDh1XdskLq+xeRMfNXmuRrN1gUjnpmYaoNIiPO3ouvqbCEDVeGlCyQ1KW6D9Gw79LEWdOq7y
+R1dNTswMKOc+drxlP6DoQoOxr4oWdnKNZaOtV/udPQFXKL58iRPROgFQS4cgtjmW+7NRB9pl719sNDRIiFvcVKIGUwzW9EkyGA0veHZBTBMWmzw3c9y2+muV
++NazvBDb9rZq5UAO1O5cU7nY8GTz/bbUrS7sj3Jnli29d5QkuzKE/WbsmooyBiQir1huBmGtr5KJ2lDj30p9Ibusn768sRsahGfFVSt8Cq03uXAXcwhhkfUn
+UCncuXLLJzUOB853feLbW0X2diZQU8B0NUP6TC712dbk6fKsxUyty3PUiavOFSLQd8qxwbb29Zf6KQYrEAHdIiFrfPxB38jN5So5mnsC5zyNeDw1X+VjxdFS
+6DQGKjqsaLBiKYIhfOKuxV9bJ7WG1P27bM1HsdnLB1dyANA5ZZ/SCaGRUG+5C+W1NUMkam1suFAVU5qSekac3S59rCz2XeWz4X4Fpe0QhMlROG58YwWNXY9K
+dwRZHeq+0RQ0Tp0ovJXxPA1VepZyRUIc52j8QlfbQjhxT8HXYLEAdc/kaetVoGdLBEFPV6RnuTuiY+tL09iZHoEZ5BMmkKo3UMant7inbCw4cfGdadBksOs2
+w++AU5VhPptOe9C5Zm0Hq0pfsG7wVFYIVqshWqsm94S+XaAarqXf07mlSVLk8rZGXNaqo1+gVlMuLUas699C3bd0L3MRlrDeBkPRyOW+LE2ka4mGmsk5Wiqf
+DUTVPAl8L/xamG2lpozPSnk535SJ7s8y9FFRwNWVeR62j/ESOqUwRHomXntAGYE9KGSwIXEO9TQ2cQI1mRTzuZvORyBSOZAQGvxytQqaS9cH420zTG8xxxJA
+NCgoYJnsNXwN3U2anQN1VrHcjcQH9+uoOI64jluFQCWwfT4SEcoBGxKfy7Yz5vtIjsGcXFOgz7cktzXMtxjDaPkq9a36ydy6hAg2y1lfDQIljUh9tlp8zE0P
+uHq/x7fV0pzkvnI1T28TF6a3ICcFRRItOqWW06kB4V6hTbhm5aCR/cbwBWHdIUeOuIsrUro16X6rKCaMZE0UJ+PlBN+uJJKJacardJMHp3vMAPmhHFSa5dQ9
+idHo5r+ICxMwzBTU1B0HiSMBF49VuDKZGKWzEmDiCJC1EWM8BSLLafFhjyav1BzS4pbYygz6zFTuXANj1hyLAyx2XPd4ni65e4/r8wv3jeWyvi3vsh+NOwfV
+JKZ8vanxKy3m9TLO6vzK++liPwLBiG120e4dn5rRS+Kg6ef5+gSYPg5kI+0NNqghNYzdfxY1zOdGzlzIq7DsPlMjNIx3qCBlX04BvGouP4xkf1Y4Hj9r43rw
+MwRA/BEqRPInuRh0EuT3p4lZ3U+pydcaNYsCEFbfZaCL8Hlwqom+DgbHyLorK1lF9EohF++axKq/IgU8H3qnNqZybOgCQ99R+t9V85rSzb9EH4dvUEr+U3ae
+Z2UXzt6gT4ihh1DCzD3E3tz5canmRR2/nqtO/7W8MXdeot6g/c1UjVexge0kevVN6FvZa71KCOIkaPhr5OF34dXkoUdmGEHhNnxj3GHubT8KDtsQPDFui9AQ
+0iLccjPVxSbjilNVilOoTH3VbDzO56G5anl/WdvDAYyNa1xqSrmwaeNaFgsvqMeJAJHf2WSJ8fcnI0J+u0oDxFBn5Z+Ibdl9P7tHPO9BJc8WLPKuk2u1mngA
+oBgLkmf96OJz9YhN7aORQPuQHyivvPS/N5l+S0x10BVqfESCiIhwOWjAUa3OIbLdT4ZVcP8oF5uglQQ2ckEpQBSu9M35BoyAVv6qSyzvklOsck4k37GcbfdE
+NdwFHxdAy1e1QLibRCLcGUYdv8m6JBg5VQphHHniERtTnk/y6dl2KhPP6SYsuVVjWLl9d1JdVGBgEttJ3bmXRfgiDyKM4M5bCqflnpQSxjn0WASTECFSDWR5
+tky035j8EC85/TLr5HVgH/HsLrWULqWvP5t0WXxk+aDaE7xPzx4M70ox2jJ5R/ao1wjmP+sfUkkCoFJIsUhdwzHwmYfSl5V9ZAwthB8Jh79reIdkCHJU3g2U
+kzlL226vhN5y1DeDKZUzvzFZoIFdbiEq5scnMnjMOJF60HYZ4nIZ6XYLRtAQcSIfGIBzYYPDD7sGS8UbBLqK/vMNU0/26yAVUbBTVFIaIgsBu8b/BWpcx2/I
+5boYb/K/EZ7lfxLvbmVd9aFQ3Jh6gqnP9hbS/vIMu3r092x6Rr/a2QIJ9i7ZJpzAoAR1hGuY3JIEnNC5tomo5I82zwpIwlyaJCHasd80PuLl81fIS4kt7iwm
+OQ3/xCFLpw8A9Q7+cFVR/90DKLYAkFtyNK8oF09dk9kJQnobQllpVsl5G8VBcA5aqoNQDIWucgmNbCwNDo46iEehZB/qMHejUs7IMWEqCjDq/wlFcWn+ATx+
+hZxkHRmPyeVWbYf2YaopKjyh0ilgS8QIDqqhaKH0ZQiHQqErIQhXP0C1l13wSKrqK5a3gIdTFdYAOy4Vg1yiHi/n9q0TQLjWEPKp47hcGSN4ZFLdS7uZpr58
+2IEzSMN86Ee0wCw55CEOH6u0a22srnX4gB8BkOSgZy+WRBIWWVtFI3eshfZFeiavX9BRTOhK3pmA4/bTVUGmJkUQGZcYFZWzg7fPDqPcQk+Rue1zAhVKWYQK
+JDpOM2vuY1N5LI2zPs64snA0M6rARbgweODTFJbpLsboQkjy5v51KlqGGBMhLzdIGneBBkTqIkOxHS6f90OV8eddbkyfNVZCH43cPsahfeCyMIP+NIwX9kZZ
+J5vW5G9sp3ArYvD5eoeQuJ7/+fVy50TKWb2K9urTO31Rv/Mp0/EbH/OCuTZU6G5SRy+hEXDNgzyOedNAelWmGerOKxDZq0aFwXDknCafszyfD3a/obgvf+ZH
+DEpejqxf1TUPBotwHs325VfY8hdHkIrRVTGmuNzcnZMExU/VY2JVUd4VdNehNjJT1AZpuVetZzlVcGSp4Ny0dg8Jjk7gAec2aAPnG6QcB+C69AHeca846m3l
+cPipBQjkRgNiysoa2uFmGN4MdleeyTXBoHgixCHJe7E0x7JFkK7oUo9f7EjB8x4AerohNYzIpDhuFumHWXCHhpsXZmcrRkhD0jNP48eRAp6zT3PHu2Q/MIov
+nxX5hWhygOn2ZaiUxg6X0PI3+Lzn8BRXdWgeiJjBSI4hbDl87DDyQeV0RCBZtKvmSg4U4V63fv0mo0Fu4yHIp4sWE8NHzRc94sdkbvj+DNuygg+kjho5umjR
+xAk+hAWZ8NEpGN4E4RFnXqjw1ZupPC2ZkFrP7Wosg+TvNrJoM/mx8mYzpAVD6KK3rMDbq8aKVrvhbbizE1YLYrB/CYvoX4TZ7PLLrrlz1e9dVJ3JyiuFtyA3
+K6R/oWsEjPZyS37t7rRkWgFdbwO2R4dkw1vez5vmcaJvy/CNyJm6c1++MJ2XboiQYnOuS3AcK8UxSNyp8Um5Kagqjp3TFlNjo/l2aNlm5/w6xi4He7V5YjII
+c8bdoHTUfOu9MZDW4Pmd03Pz88H6idDA7RSS425H2k5VuBKmIlFxfR3SHs/sDvLR4Axik7wyXIwbyLZuMYyCOUJ5n1ieLcTIgQdCTXBJIM5WHaGYEW9yw7av
+lmKrjBjtk9mF477FP4Df6hDUkbtaE67olGmNtk5ol2vF85qj1sWr1OEkpi/Cf6BLWx5T7lPpOMT02FRuMK3oFa9lWB7Pbf1d3Xom5uBmxs+z7+ROtjGU2rgl
+vi5PDMXjv1wBPT2Uyx3EoWUbE2ZIlcNWnZmHLczJoxOx+zdF3oqFcLnghPmg/hrWY65rjK+A79ZTDI8PP3uNl3tNP8qOpfepWa1y1/y9r43Xs9MM+dldw8hs
+jvhaiRKWgwGPql+1VzIwL5qvkU57HkbICuCYJRsW5vJVynZjL/uy/H3+Dy0CfBAIkt1DauWTWEZ+P1gnfXIpwTiQwbzCmMf8ambtKu+Z3UxZkoULzaAtywGC
+jgvnGO/S8g4HE9bdsgaVWoLXLWUVN3mIq8Z0Wr1vSyHNUGbpvFfEK0tNrQA7uCIztAW/kMsSMqqMTHl8tZYDSIRvSaB5WQc4Eiqf1VobNgRSGHlK6bO4RwEJ
+XQXIhsUiQwrmVFFDjNXn4QccKahhzKMNrA0Ds/8VOcQXWjgxelk7aQSzEEU72eKgiIJzHTBihwB4vpUqQdDwpcD19uzD3cWNGqs6DjQzVU676Tw90FECMwpT
+SLosP/GuOtoIamk1YsK1CERa4AA3yhao1EtBSzMTCDUa1AE321dQay5T82fXdRMp1L16iafP3DzEJ/Fj6cgoeg5x2kIvWxHu6bzJTp7W2+CYbdI+JqzGuGhJ
+kBzEGgfNFaZBRRp9/1qhwfAJsw5NYDZtjT4Slpg6Y82YFA4GG4kcQqoMmdsfTOlcFqruCjeWaJhWBe0n4tkQyLSflg7pDuUCpESO6gPxDqq4HQUQQ72EvfaN
+0638SL8r5PiMhzWc1MukN8KIf9t41lykUmjMaWBGTPcCMs5AiuYl2biMOMuxVYcbV2uGxlIjo8UdnkCKlEb1whmX5OqezKBG+s4kLB3hT49DtQEDWKzZS/EW
+q6Ero7bY3oxGReyJVxJlnLoaskRUL1EB8iBLjVJJkFpjP++R9Yo1siyOskTHpjxaWJKGPDW8nB8NZ3/OjHN/1vfCNojZTzzhfzpd5OM+NgST1E97N9u4XKPd
+zbzf8n3+i/V5udT5eDEl6i4qZDzphicfNv4PRhz1769mGKqEIOXsKLSXQl7ZgWtZccl0EmRcmlJdRC38RR/bUHw5qjLhyTYGc7MxlEjRziHJP301le9jxNAP
++eI1sU9JDeaBO9XVgpIhS85hKMYIef8e+DPhCWX/UEksi9KKrRfQlIXpSd43p/zFvbIbt19LAZCGut/7eiYBWb5j3L2pfoVIiSZXBiWYpNqjnuG4vMxHF9pv
+3+Q67ZvWl0WFBVR+eZwxzGKPkykAX6mFKtatnK2rPEr5kIxnACiNpt2TOqVhWsWYOQqZEsEw+4vBr4+1xjw9Smm7hg65kh2mRhn4ccURvK1J5fJdq2UayuXd
+StSAqgfI6DCNvkmPwRysgZggyrBHcpM7Z4h4q+1BPTdTVR56JemhZpvxYHVtu6+XmilW5c1IjNUgJvqXkfJoSIB/yFsEOLqfW2JA7pAJwRJPkdb7NvwD3QRG
+hdWXVDPEz5xjsfa9Txkhlb23zzuapvsQhfK9MinuckFlWJZXXA5uMi0RQle1UllBtWZrPt0YQbTWbc0QNLN7wY/U1Rds8rDF6gQizUzO9UKdcZdeWf51xCsD
+lvENPIwu4frOV0KVy0NC7bm05TdZk9pz/6Jkxl+ZpnyWGjBUy7tw5vJw22pb/g02g/YNufK8xs08Btwq41uK3ziz6/0mB5MbL5bk667RYFvzFVtDlVe6s3bV
+/1PCFhrorxFouw4PApydK6DMXrIPcEqwHKJsl9kWQqK5z+V1G+ssTCqm2m2GM0rhBPOsfundMnzYVkH3vIqVNoKjj+FsqWnx4wTzHDIYaq2T2hjJGZdwOw9o
+egCV5z5oeH87/wLAoI2Dgr7ldp67wdAxcy0N2CFAun9joZ9AosAZ4KVPYNIz4srbeoCKHsuKoRtv36C13FNYdNkHAw/5oAnlWpUbcR/e8svQQsuVFybpZDJv
+KYrKKVjexl0J3S0r0iYwKj2zFTC5wd4WhruV+/0UgHQ7oeZwNEz1S6GCQs3sItA2FKkFAt382XJ+TV3yweI1p3ksJQ9I2q156qZV9hJVpUJXATcl5S2ukTcN
+3xqZnaXsVcddPvUlHE8fZ8Jbm58YGAWXfYTS5848QIF3gNPt4ZJEDYMZ3MkZAE+zmVajxnrTbK/lNhfe5tjFz26N4nvGg30Nk9PCjAMmcxgn4mfXhNEZOHXY
+A7RSglXaZ7dX1fdQ46o/scxrsINv3hV0XdpBhmdw23KbF2d9j5jWnfj4ibei4t7lDIC3Toq78/ZdV5LHdCa7ChyvqgwC1Cath30U49bkUEFxI7hOq4az18ST
+TbrN4xOfa/v606WyvyrjLNvRvvSqKtlnH2oViG2zf3Jb0CqvordKxgNId1/KyJUFI4Jy3hyQth+gXGEhjfQiME/IwrV0d2bXX5t/+HpLFj3ysVpnsuvl6XKS
+zdeuckrrG8CNWei2iXz4irj22kSHTiMGRxPjMzmhED49tvJvsgJ544H8eY0aCGxjV4QOQjt7CVGw/snPW+7QuMxrV4+024y1u3PERud8HmbMG9SM3IBNXCs/
+DXBWGkvS5iqQC5MTdnmjWJyd2yvBMx/T0/bLh+ATSsd41IPslrvEJ6jTp8sPvU+SuVmeLWnfK5Sct0bgZLJJ/cRU+fJKO/o6dTJCzh6jvdJXMEgG8gXY3SEb
+mOEdA7+J/k4Ju5yw1xCLP10qIG6+BhXuKewEgcVk+6Fl9XxpSSN75hX3YC6iGuS9m4ZivHeonZ2YdPOOCF6lW86+l8ZE5brOnbPK3iu3E6Hwq+lCOPsdfgda
+tF9b67+MN2iaZr/dxpjezyjet0UMeINqDJa71YA3XbQ9Wrf/Mt8wcqjJ4IxBPaSy+NWIgK0LZlzxt8a/MBHnHrH4qRnKce4NxM0j2vZJ97352VUeJ3Fupf0k
+O45bBRAv1kpAvkhujx/NKI4aGK5JDomBs4RONL3wi06mKEcpCjbd/copSSx5E3+EQxXK/kbJXna63MHSVcRdPsdOc2honQIr5MCFMLuf8yJKGO8SOJzeRTzq
+KpdzfQb7DTPxoHkGv8UgWpwK7Hf+iyHfq7WeH/9X3h5o2FtDJXQ28jWTK9fEnu6JSBuQF1bn+krvuK97pWHsq9I5GJ2NJE6akLJ3Od3Xn0Yx/FZfmDFO+5fX
+v68MZHikq+/J5Isatf+Gu7lkN2ZF2+kOAUvhN9Pd78B0u9eHGvnHHOanz5eU5R3yBrBoP2IlBIw8jBA+5fwFP9ZNoG+q539A6nJ358c6x68VOFYnL9E1RgEd
+cG7XpjLcS/kIcxQkDebmotf/GeB33RIEEDLn0rmbY0wRSmcFiOdEB3TA0fEAKfdXXQ/C+dpLTz/s+g9qD5So9U8k7xNUaiTw+d/Qwvsc+ICaXsy3Qr/d6LZs
+4tl/Xom5oyn+ArpHb+3PwV93j571TyWfGaIosKQQ5PLHGtW8sexT3PvZXzI+LVWAwRWcrL1ugSss1201GlgXeV7RxK85adhCnNG6sINyr99gBbBB6wSE8aVm
+70/N6u7n3W/Z2ZXdHTRYcmDZ55f75L+3nU+s0aCewJhBPJhbZXmBOPz+3xnpOIoWY9eZ15XS62xVUjy98p4C3cLBy3E+tTZUQF+K3F/TA8rza454GlJ9iQL3
+ZdeO6wttO/5ecD8R8y3Bg7nBlx33vTVBBrN7CvNHMGLw1QEGO8F9X0W7BE8KBRCBZ1WfGMSX1L2y8o0EHaxK778x8OWqmjNrLw/fQf4sB8Q2osUPoxTXcrbG
+KzQfY+OZR4AB/4XLb7P5BxUKvsMdoIVwXpF0eVPmYfU3gsCYTl3Wf0uljeYy54hi+bJ+o6DXc0xKAr6Jezdc1tnUKco0bl8r1jkrjdzyVu+x4AK/hjuqv+my
+avS6wMsiAcHKcWGquHRnlTmUV87gEATY+dGSsfNCwvpOHj15fWd9uSQhAADvR01BqCr87dl3L7X6cVPULDFzKY7Oe/M/nop7DrcNcTZEUz5DAgHL5icp72u5
+sPxmq4y/AqND4jEwkWIoieoQQiWj7Hlo3//P1bsuNqpzTbe34lsTIAPhIB4OceOr33NUiaz32z8akbTjODYHac6qUcwqqBnzRNRf8+XwBVIe+db6HWXX/yqg
+fnQGQnbOvRyIgi/O1cyfpUyloJ1RmCu+QTXjj5HzLiuf1eYvWCiVZbUkqBdvD8wdLav6FUu7pMplFJZRewQH3GIAjKcN+2CRJytc5/E3pvvV8a+B+hKV52vW
+0Ok5ck2DuARTUkai6srtg1tsW/+AIN61Mm0P8ZK+2t6Wq956CYpiG+soRoDSEeOj/lDFjvuVboHO0qGYPap47fwIugKCAOwucfuWx44YAFzudte8s7W4cZyt
+ep7VRXAVRQSS7E0QUMX8J6ZuKGkFVoirVqPf2aM9TrbYmiTA/9KTnF7zbULgrLRuaubABhHViqlJ0VzpFY1v7fFHAQTArh/XG5WrjUChRN5QqlKRPNacCGbH
+k67G7ArCnIubGjWOI4b+Nlqyt2JWXyC6pSRei9+NVwk4Ki7Z/y+LavFrV///k7ChQEv8/6Au4/J4uaE3O5pKI/W+WfyYk4cKL9Dr/96XlC6xkyswfCZiMr41
+3a6Tb+SmTNf6dZxGHnD8i3lJfsYJ1hJX/l65NdOePvqJPQHljuGcbil1hd2aYmZERb1AGdAzEgYkLa9U/LWAjgyXBY1XAdMPRMz6/2jtVP/m2eK0KwP+ftEz
+rcSeOEgoe+818yMOgU96/ZQS/4a4wqCwzcc2vH7GWdVqocGUB4maVsAk52ooWjKZdNmScxyrcxtARuTx8S7RqTXncYy3mTsBGA4qRsN1H1LY7laaXqwZkd4W
+O/6dxSE1DGIrf1mrkbTRaxRG2UdZ6IayOVFqYD6oBjv7FkcxkaoF6CIVGN0z3PZxtRmeQrcr30qdVDRvbW7DBUCFq4xJG7JFy1Q1mzWv8iVrMKSs4M73mEwL
+cE1ce6wvBomobSWiTm7EHGVwFcxNHCOb0hb/rwvfXxW27+TQTWbms2veJ1WvwTDQJ/xRO7UmvimWMs6ugzyS2BFyoDgkxOXy2Bks433oAlJTEB5iBfB8+EU8
+6HfV0FUoR8prgz8C10kwz52vtJIENSASJ95cZYgULnLieWqFFnsNG6d47JLa7sQAUj6P09S0zhP2gAG+LH1i8nDSHetLpwI3YeHc7WKnKFjkUJesV+BLP+6U
+9fqxysHADVjWe9Vqt76gZorAVxwKRcSrlO7rfc8SMSa3tYS9bUh1b8djjlW6qwn1yI4ic99OtFByJls1Qd8KNH3rwFPiZuH1v2OGI9KnCASnaQQnNeu4Hi0v
+rSEEHVDySMsCxfpeTZ/ehlW8M6gSFL1GEBDjEJPId1akn6W9KHv/Sd47PaXpt2IXVal33MPb94u37tUxFfuVyldS+bdMrlnTLl23QQrIYQ0FJbab6goZKRTD
+QCo1gl9DRVXgzf9BMN2kEzBPZ0euBQrBc3Mn8YJ4DAf18iTZr1pSVv9SMJ/jMO4unXadKT/dZQpOpwZQVy6BR3dXjqh/x6VBJFJNADtjutAI69eM26iAyk7V
+7ZiPq94NMHREwmNh8Oq6NzoNRMDIqnhbOwfCufrNI9dfc0uRuVH3VqZKTO8dqTIXcQ/0zfSyqn5VET2u6HbEG3zQCn8X+09psSMhTzSEVTkttDG7uEqw3Xve
+gxq4CBcBzKTiQ1/tZZgpdfJtdNSK6uIEi2Pu35UlRWCoUlQu5bSU3bJh9F2nEkJXoQ7is6N+XJD5FufcCF+K/4vIUBEOdgrjfjo+9aTy+IfNwtKEnQx3YbxU
+6EbRFS9M7aqHcapSeqKCPpZLyANBGYb0S1m4RYPGNs1vc0qPp5HTSkznDFTldqg6Hp9QUnl8lvgYOpD/R/dNcneU0yLWgfBB1LoNbqBfi7KhIS6quSneXmct
+d6PCxce3qswupKaABrWieim7rrkos9Yg5BjBmBov1Jgk4VK4C9dX/v+FuzjGRdVv8UBjjlMhpSNm11gTU/Wea7W7iorVD4qd3dXuw+kOtfT9aspX9AJfKRpn
+HzVxMXLQyrOsdNAtEzhBC57Uska+NSAG1IhrQZznPxxqqjCWfTe7NBayDI2hTw1vVClvdrqa09xIjQrONI70q0a+dKtJcE3WWf1fgTo/CmODEMBfIBgm4gGl
+8XGrKu3YGqpkjs2tsAMHnKolJ86B82ZUbmeG+BULgWDX9DhSm7gBWrU8z0YgCIPepBrGqmZG4ir1qnYblF37Sz6SGvLyTyXnf3j34r8dsQcQjAeTrvZK22ip
+fMyuVDFP60Tti3r3r79W9RpOrmA92gNdAHPgsRNidPe4pAd4oNL2nP/5gI49WacUyW4mK2dq6nehWVGkpDctav6A9qmVx9H1G9tO73BibcKn9r1J/PxeXBu/
+oyAHohF/WSR+8fYpqobLMMfUXXT3uqkK8Ky3XUTcDuIiPqnADT0gdogDpdh9QFkdD5eylZzwGXX5/zxd7g8Vn11Vb0CM1LXRAiuqVXVuFM0JPMEh/fJMnRvW
+JdJl7sJSMDOmzx5/ELXMj0THH86g1eTWVXmu3L4/5hEpeGZchStQ4TsuVOJo/Bbj3sATkC8z7lXmDPKbSNYx37uYBNfrNx+tVc9qD/4inqZafR1/6TJl/qtu
+23DwG1epsRaz2Tr54lf1luv7jb+LG2O8ifFO2+hwuZkUcyb0GqeCA4QiwPaqIBlUzToiT+iWPLboMnUWVqwnItaTUt2pjMPY6hu+0Z++BJzDCMY2poUnHH6R
+TU7zlE5F0xiLQbOq/d4TAudYiyjiRDmOTOlqSZqWt0rVazJo4HIITKyoFj8U0LIjXmCoMPwcU5I+2eDVLHF0bWVpx6rm6sOPnemBD0i77BYze63r5WoYHLvC
+X8iGmdEuK+8FyspRYk1GWUmFaT3lKhjWUS2RB+vTqlx2JNcxLpuRAtb9KvOU4jMvG/zW6Ar0rtwYb13Hjmvf/0ZBB/zU8pGxZilWNnedMmLzzTNlxbky6k4S
+40QFes2wASxfdkMf0oBK0VmXySM/KbjMAJwmS9fn8PtcU2qfL5jimzQgouvojNrifHBVqU+vuqhTjyY/GD1gTKsfj7Y47ly/F71khdQmlawNZV1Pmn/SMf8W
+KZufEBvGhaI1opOYJ34rxZXM68MlbWrYnWJsYUckkBcgMneyIeOvZTnyVKPNcUVwTBdgL+e1rpIsqyQtoXBZVkXcDM6wFZGgnWQrYifuWC4bF2jpcW7vi/TJ
+PCnLyFy5BO/DXNd0iut6mO5KWVpcghPsAJZjrAbvvRhRgNY5i4cUAwuwl2mAwAiERMCI0+6p0l5RWxPU5CTcWTSC8alXE9eT4vAZPVC21h+miX1cAaiBsB6Q
+Jvx/pDBYTL1dPwViAXJSFYR3Ma8YY9atGnYvYkEVX2/xhxWjCZhXQyfgyw0OAiOV4dj+FLAGy5ZH4Qga1bCvTiXsp6KNZjnWcSTMxqgStlnqm0VY1LJ3MQoG
+yZy1eI5p/CFTxCbbRU3sfW1ZGFuSEKTwMLVASNm3i81ZGAXK2bU6EKeI8AaqKEvcDAM3VlBFW8rRdAVd0QbdrRSgXcvl7ZFloG/+EW7Wz+4grS2WudOrfK7j
+ehnASXgF5Q1K05IYKLGX4jX6Mk01Sq4z3NjtFPNWWgyMSJyZdUvY7HdmfdAc6zVvg/iyGAJU3I7zYS17JSYo4weVuCEJFZFA7i/BH9S1wdCyMKI2zrz6TXW7
+k5h7VaJPRyWQqTn8WbxsC70PtqmQjXstm4XQe5EMej1/tCNynAi1igNiOkNpu+ylVru7XFp/j+pxv7scntb72en0gxMV70NhQnEYLOqMlDpS5z4FqXXB1kXJ
+GH7EQIO/UBTDJbl0DRoiFknIgixN5lLNpAu8TSrarMb5A/Pc8+E6qdjlJareda+VnMOBxPsfqFYV6HiHVYJvezirKtG2/dg0RjTEFU80W0nBrJG+dle+Wyo/
+LosjUlBtuCV7oYJsEeZI/3yr7PvPQumPy9PxdKqHCxPnb8WeisXncYk8bZ9qLFc5qBVZpFI02c4xSIXtV8LEOdfy81TqDlXn2raIC/jtMrShuKuItyp9iTSj
+0nRSmXzWryLZXKMkdVSsAa5CvVVMVGphZ/ANDvTZcTMEH6HpjhN3JEF5cKBy7kAtcLkB7HAcRj/Ai0B6r7SiUqZ6x4MCIXBs0feVMjSXR6HGbX5HFDKXFukO
+hAg2/tGYuNMTk9fgqIJx+CYUvY2McB7zmKlWa7TA26wK6uDJoyrl+Xesuc76wtWn2QoehOLH4W/EX0RhfHPukhqfszBbcY5A3Zyd3mJKrpTIp0TlfpVZWK05
+J9fafZWIcXEa01dV79+xuIs2c9Sozm5wRUxCFSDNn5OM5TWExvV20Sxi/hSXrVnLTHAWrcruzVFqjd1Cc3/X8vPUo4SPz/wS1UB0Xs7vkz2hhRPCsBhSrBdf
+2OmptKuvC6WX8vh+TZTarU0vFNafenu+vsJf/KK5mcr2lL2L2DGI0zFCTPKWTi5ZgOPVpXgSc39SlRSERWtN+X7YJTyp/0i1XTb3yUE1U3YF3iFvjiM3GCZO
+mifYOm9s9KxJYdZ6LEsvC9PjWX+uk3KydOc7I0rEn2xj7w8PSFVP8cPa9TUeU1zqUKvsIllMgKlG5MPDXZXZN82i4cLyRcVdWlFmcp4PDW6eMlK7vt4EUKnw
+MZT7FPLCPxlzBQeyUH6n9H4avbsYt+uCd5lrDX925OfAnWwVhFdF7lEVemA4tfI+JxXIKX+xiLqtF9dLeaC9WX1ysaqs2s5dv1mDHhdAYcIGkfcooX+YrQ8C
+Eg3VWjCgMYOyezi8g9J5TJbeqpobmbHvUo/v2+HKuckZs3OzRb+gUag6uDnYg5g0lrMn6+VT2qBS95fQ271SbiTKvrCK9ZdLEv3V9Q7bls58x11t7q5K63vu
+eXdVHNT/u2gd96uOgrh04nvPdasv5bBunGZwL4ctfeFaweiLeNHcbGBA3KqSm3+JmrzNEpN/BO7lJkEA1uy5zYRCfNFFs+eDOczNiK2ulIJlOIGbZ3F1HYbG
+mV06t/62h3uGpLy42u7BXN84tuWg6F16i6EhrbsR2msU57cKfk0Akv9ZIA0q1ftfBZ5CaS2ZUoD/qAzvUPI3opSdjjDFeLWN3oqEjWE8kJ6zDnvHXZaiOIYk
+9TIgAdPKuQEBGw/2dkXgPc41AlzevHfmNvCWpUFL3zdHmz1Rb91LKeIbO/+mxTv4rVBpHVZG5dBXtTLlEzpIckDjnIhPIU+86jwRXkXZ3IDf3ppxF8j4fxa2
+1M0TFXJlfF8rBRaE5mhVqJErDKlDEsaWyjQVyioqt6Y8LgExtZqralyd9a4sE1pyEAdF6wD9TrE0FuavnW043Thf82x5uCvjupFRLN9M/F2L4kxg/14ggSQh
+v1RZ35vbKJl4cZx26Mcpn+vXZfPqqaNbfz7LZ995+dVlXx47VXf4mj5sh+mbb4qF3GEBdY65+RztNfJdm3hj9XLc2vIQhYp06cNbxyfZSe/dVVVqZ/SXtetZ
+Aecqwbt8D4v4/ZbamrIG21VB9LGT5Ilt92ucDjg6rsWb/rv7LG65i93CFZtPPGI4bWMFGMt3Ct9F0zPK8awPYsIUc92iJDHUr/vm8LHVsWO3OcTPSdTqWnA7
+Ix3Wh/SoLdLslhwhCvNcrfkefvk25mq1HO9xoxzvzLGkrFepH4nmPOkWIFWG5DEoeMxBIPDxOwnfO4WQIXCK8VJ9noUpcOLOWvM7n975wIJRLd/p66MK/mlV
+qvp+i058zqO5xft/xfxHwP/UeGOnN1qE3/BNlV0snoh1+Gk22EoLbJGUYxaaer0KkNJmcTf3UMv+oozsdQsuH6Dx6HQz5l9qAbg3UFcO6NWS89vvWtlfaqk/
+fg18i9h5otudUxB7elFI4VW/grvgm4iizira+HiQxQLuS/uOcj73j8q9SuAXiZkbqNYVfFxAEKJud5bZfqmoXf3H1ajtbHcjk4sydBrpsaR116sTaIdBqJFy
+xxOrVl5F5zXElXYBNfpRhJaRUCDxRL68WyqDNHU1LmF6UeIZ/Tl2Wv1eowliqIxkVbjoNsxr2tQ64FhsBFhrlIzY1R6CCo5N1mKmSU8E/Fn8A9pTR+ABHjd5
+dxq82wrrr1LPGqrVBiBnXffMQH6B1IqrPTLCxGIqjpoYZf6WkH0lfW6Vnp3iUNoXh0slBzLGo7HauR9bd/NLPKB46S93CUVXcPBalnRPkRZKYCNdCp7JLE8O
+JWoKcyr5i6w8K2MN1Tgqe/G1XimrMCc+ctvqz05NpzZcoviqcNHX92Ku8Pryi77jXvklPW/KdxQ3dRTVGMgTY2y4Q3zTnVrQJha8WfiOd5q6P/Ptj5WXn7JT
+i1du2KdGGH9ErWTWttMXmLtTWfVOrJcmXWc54JJxFdc2Rn9pjUWVuVvnrmuqUSfI54VlPWgNeGH10b/jsNZ9/Ypykh+MibTxfLafqvr9COItMfvhLDfAwGXd
+dSM1oJjEeQzg1HPixlwr/7MYxLHTUrh3xhvB8iqXw9G5dBmte6ISm28iDmGMQxG/TxTi7xPk9vuX6AadurYIvLD8JSwiTx4xkLldwAztVyWpX7oWr2tXYvG1
+HeTOXssbPi4p9ZCLj+sH5fuN1PqEvF2kg7eU8IxLdhzfUFEkCjuLWgvEZ/WrFPK7t0lYlHoF4bAHhoIkx72EWWFw61THTkM7KdJeESeHRshhouzX04Qbw+LG
+yzmYqKWR6UZ8dtcuRjIF9/gPUoSFSP7NQsrF3qVV+PmH3D5TFd6rIkHcXGoK/bPDCaHHrd9xfBzD9kHjJBH7p4bPf6To7iutBb6y5LtI7it6+IKOcFy9At6k
+DTsupcYcl6nKNfC+lC07te5c7LK3QMiRdXFFVqZdMuftOC3CUi7dIt4HY8vw9s/GHy/Ch/X8FvEPswnMEvM7y64qtgV0Yfd2D0Sq8G2/BHTZk2LpNs7lYxsf
+ogvF9y3R8ZHsX32pGLitFSn79TiJugV34XfHSrsm261Z99aD+s/rmGX0ocA1CVo97i3C/Z4DIg5Svx9xsJ6qi+qwPQYp8UdZ3Y9Bav3PItcBll91SBxsh733
+3+vod4nz3/BDj7xpmXZkCeAY9PJzqgL9mKbJShFn7vL0RP7aITW07mN5iZgubnAU2I3GvLDOe/Lrxr9IPB+iwrqMx4Ne7k1fuWpU3SWZ5VEXUAcaRkL2DvVE
+4vXzt6PMYhDBWxIFKC6go9NjMSDA4LXfkEvuJqHi/we9RR2Fy+BDRg6encWAuxpfp9bRk1D9TA2RKuSfH1hzjD9SwRcmhBr8mEaNADNceF4ovaj1p6LGCM8Q
+g1YyND4TW71JZCirL2IiMzNYolv58+iGyDa4Z3OW1ToDBskPZCnzZzVH1OFBkSs6M5USzJ9fOiPGHOwVTxkLwTh2doGsJQXeEzSaWMwPgrzIagCEzzTqBEPu
+f5cMZwl5Pz2c7Vo7afqdO0k+3iYdP1Obo4jffJ0V5DzKhcOe8JW0Ru6OAo+oL+WuPZN0Ct28CQKjR2VdKTckNorXg7wyX0SA7bRLTLLZRoV0xRHVlo1+CVdf
+EZ0ttOcONLpJsgoJw2PbltknLRKTX85cPQAIYzcw6nx7x9o+umMy2wSwikmTN8v/a/F7y4+LmeKBBh++mzKPaKGsmm7E2HKObpZUxKC4PiA0JttvqdMxWiBA
+IyuB6YK6/xAd2ueU/HEdAJiYwZkoVJS3NxHu9Sqx4N1f9lmwNZuVjoiaTWuN810LOmwZyWQCmN/E7wkijauUDL6WK0gMrRoiT57CisXSZanY7bMvgauqkn5m
+p/diDTi0fTnt8gV5pVPHBK3/Jeo9o96rGKW2WpwhEoOoMdd66yss6HgFTjdN4sOW0v/QySeuTPmyXWpPZZZhQGnVS5FYX0dVWmuTZbn22m9Jdhao/rKU2j5a
+5tx+KfCPd1Io4PmkA7rJUY8uRkwKCvbW94csw4ocS0oVRFuf9QGoTiAajWT/GePYkh/heibexd6CTFl/yU4tzPbULj4ZltzFKu1te4HcBfpPbodu3YCpkWrf
+OG12svosi2Lol/hMRcruMafJDRAfmvZILMIL0balcm5YadsPIJq2hWax08hdICHFku54k2d1Xq5/7qjQFom5gJIB3cTYv3Z8KDC0smxUcFVbRf8xxbXh/ddY
+qU6BmHWx/jgqNLs2VqThF3h2cZ5v3EWVvaB6utpAINYUEjjKRdDpC8L/RMiO3f9jk0iEH9pt0JJErV6Lpf8W8JffX+nky68IErM6d/Q6vmwqKcf8+PkvORcF
+Urxd3VmdAKWIntPRNvFthLYIDY34nM7snScykP0krPY/ODpPm0SwQI20QTb1L9avuiYPUJgaxs73ze72eUcP0Whtc5ZnUFYXzY+D5gnMr9hWyI50BTPZL+py
+qCmTYOW71+FOByggnBZrDRxkgaEzZ/Ugv4EiDuNadIi3M8rNOyd6NHgJJmN82vTlUc3FO4PgSl/ps4YGt7+mW82OW9r/q4qr2OljO8ihOancqcRCZW9OLOqt
+lWGXd1VtEXVDFEkYn6cgMhPxZrEtgm5MrLzxHdAjEesbQzt88JJ5bCUOT+q/Cd4T27Ixn1RTYLI+uVoUIIXHIR5bPY7r4CQo6VTFMZh4PPQ1G5P2C5skmLhC
+E+d5EyqI1DpFKv7ULg5SX8JAkfV0tGhOw94nETL0/PaVYIyoRbAJYa53BqF/wAPJLCGrxKFtEi9ykvhLMYmx5SX9XIjqf64V4xc7Yu6DA9Lwq/zEuOr+ACgX
+bQYOkFrHMcRnOtG7WUeHKsbV+4dM5Lh7x5sEaQxn/Sjwj4R+w416eLgkBmFt79RDNVL233TKHHHWjssTfHgqI48sxFMPHPJfvya/9RClrAx2HYzyISRaL+Qu
+4GqwuaH6CeKUqsmHXc1C7Pz/jR4Noxxwqpo1dkfM/p+xvo48rs7oG564ggGpup8M1jNtn/S7y0mRKnj8fiji19+LlynsLzSRYezNJV8f0jhEeHsXTPvBYTQo
+9aTfK1StV9yGh6zhTZNlrU0WWRUQJ9BeEZW82DNQbMrolTi0YS6Y6bvTLeHpR/mM+sHa/95qW/F11AL5kwj0Zqxpr8t6qAFC6Z8SrmItUtOf+phF93F3sbk1
+9jzD7lF6I0JhR9BxtVw6HVHvW4zuK2ZoRvE0N/wdXZXf+/j1CMF/Nnu8BiRCNJbjTz2UAdvCNfdqkexLI/z4JEoPc5O34zTwMuiG9p6lvcGzELcIeRd+9YsU
+NKV+yfwkJmKTQKwZ9x+P2SgfqUHedLDFJs+DgD3frwwQcXGsfh9aK6cw5fpJqrw/4vvo93E73e1rUMziXG+h78RUojL0495WrwP5TzHu7kQWTCTv/yjDyd/Q
+ykOdNbnMMe975cVM8rm2bJjwVEfDmyLsK080OGVtiA+Vq12FA2aR+ZAGEs1IXmNcHOJCj3NDpPNXLSNwV3qJghXngj0PHxo3zJxjW2OkOqRrMrV0l+aZavUg
+ZOwuCSW764l2fKuXcekx+lFUnzRzvkntHms2YAnp67Ioz1HUdEhAp4MgxQCnzXN9RQaa5Y7txl50oRH7PTO+bnz6KaMjirvBYIOYqKCDUekq/3WGoKvTScmn
+c3vjhJNxCjPiop7NLvPEim+SUe4KrYXZafRNKALIQ91omsdDbSLaABgsPoqjzGpnMAyIU2gYFSdMPoqdLnejPBmdP++OhousIZkyWGz3615lvtiFixe6/aLl
+czmW8rAPQx4UJmjqDOm9SKJCVTfBN/2kV0sY3PlS1PToTtEf2IhqKx2f2r9sObBkntjluGuJH3JWpcv/KABV1W/LRz9QPk2hx6OPdlTb56K6qP+7pNRoy+7h
+IRup1Izbw5VxJr1qYeqnVyQS9Jf2VOMtyyLzR+0YaRbWyp6p97JVaA5b/vAWNyC9GPJg6Sm1g2Iuk6LaPL7a4Y41GRPPdriSki737yNwqAx6W0JiKqj+06Z3
+Mw4v2bVbe/TgLs0VwLQ6oqUdcgXT7wSZx9gXmU6G1HiHBaZ7UqfQR4LQX7OMJOXPUKKBMwcIkxwoMBPciKoBms65RZuFD1/fUa8ODvnq6FDt6qc0vxOIqXy/
+Rc+0VV7+Ji5TEt9p2VAXC/i0bH4K1kgaoG/Rr1L0Qoyr8jznRTyo2d6Vea7/Oeqlt+1Y/FfGXjodtqlMRrN74obgHhbZ3thXzM/vsqI3k9Fujfte+T9YvtNs
+m/2uVCc3s+hxlWT0gUwsaku5wkMcZzKfSfz7m2NWOHx1lm648eXfPyVt0qiCuUTQI82quMJyFvIIUJ+/uvfSltqBKtKQMqmhmXGDxBTVMwj2sqe8DWsVulUW
+g8vxYsNLfPcHgQt/yHjo+lbcylJ+Z1x9QDkpbZXulRDwNbXTyZy78jr3qoNv/uoj6lo9PhY6NupfVQOMmftxpze+Kav9K45+Z45Wule9a4krBoM6b8lbjkA9
+EVbQDPabXZlZrJBu5Fnf6aM2STZBcPoyEaUeF4vaWArHFFD/BsdUw4cTyAdAFU0zvvBMkuu5/6gFtWcOCbD6zUtGKv3NkkslB4A6F5JhloCDdRIBnhQ4eclc
+98XiJ5GmpZel1g7HNE8cAz0rJMLV23IUT/aUDBCbXrJ/NeY6UFCd4G9xxQWtRJynxU01urMoulNLyATOTWgnfdchqSQ5Xm9aXlqFfDMn5pfbfjuB6v+QdD7F
+Tsxl+Npli1ufpy7fsJ245t86Jj/UzTGxSIb4oe1h7uRnRDYHnWkVxQkO+st0BDW2OGtPjanu0A5jpu3u1XFq2kFJWqj4D2vcivwXoFB9MHezjPJPkwFTqf6k
+OlvK5HRf+QPKphW9SVabpACnT0r9K2Z1G/Xa3zJPeuLfUTqG+MRI4uO6HH9+3C41HfwdxXPq+9F0f67pv2MnyhN/C62Y5AYYsKedWzF9ry9Pw326G4E9qUuG
+UvZh+/+FA6zEWBLBedgqIx3h9eT+IHyJ072/xte11UOYttbxOq+lYgkoY7HsAvWvqSOwf/wsMcQ1wSdpfPEjZ80Zr4WHxAEJsD/ugYsiAFhTq7O1H/bA0dtb
+YUEVWHFniTvXWUxHtWPGQ3Y/6zAViov1Ca6GhM9/NJ5OJFFx8JwogtTNUh7zqSuLpqyYm+lx6bsL9RmaZlZjnXGMzgQK4NZJevY0679nx9yKJ1WdK5+cDdo4
+PjZoXG4qqHEFTIo4A+w5fTZKatkULnCxbIurE7Co64kgGKrvI96pRpYb9aySm1bt1Dg7oMpnMSR+lTJwPpgpt0rYc8qn8VKy8Dg/NHmurXfnqFmHfNE5KvQ7
+qo9UoJofTheYnQtKPug68u0FqVFc2bpq2AEdZe3B8eNcLrCgIwN3cK4x7LFJihsYS00d+G9H/4Etiv6J/T6xwqpVtkMGGR4THzXEKFmH6BKpnTU29vO81aXK
+otXiJMWd80/9ueysBRRsCiCAHDW6PZRzXwX/YJX4Y3JStPJB6Ln8VTF3u2t4QJzRjQ089vHMtcqm/U5mHnURWzXVNEdD53o5qMA6K/l7OlLl5Ok5a4jomN81
+YtRLS3ZyfXy6PjUeVhlBX5uAhuwmWHqDnrozR0TcATrFFqi7tYu2JXzVw6+aFFewt+ZV9ZC73flS+oGnnofDZvebD3e/fpVB4FvbjoecUFInClzqesXMObY4
+SGJrC8lu+sQuNuFuuyYZB01R2MGtoJoY3VTHD8MstDPwSl0y5uY4iLoadNCNMgu58VYa2bPMgIr/GBWftZMis1fs1FjjC8ZWSlFHmgK1Si09MSn/d7KnAFXV
+IIO1U0escW5pq8GPMy+LIjmtMTpih/ph53A5slR/T1rUtkvcJemOvYinoQX2VcbBqblm3dPI3UP0njkr17RTW0w4rw1RgzpB194BwLoWDtQY3d9RnN52mhO1
+f+8Gt4CU2cpK+OVe1tYY1I/IVzuJtQQlYMnY6spo0yImOe8ULMlWOIJFxTrU+4q/aCN2h5vqNupGv1VV0jY6CC1GGmMIO7aRTDmFnqKXolumPhYv2T4id8sG
+UpaUgqrQjO0dt0wV7sXRamRRsrmITpr6cPGB6peKf6+vS3UdqQfKyAazAfptO4/W9f5UT9KaNdiOJEPtVptxnVBQ8iUdGqTBJXKVL+lubTE9W4q4WvrdCT/+
+2KgztyrCNeZX8SaXb8yaXuWzyk30q7BlkFo6worWeKIBdK/itNaJcjWU6nhxJQN6XN2V432npxbXRAbmDmsNiV4LU+8YCFYgy1wJrXEhxCykE2PNAmKtWcvl
+VVnRNM/8rEmfOO5Q8bgIocN2RLPpkqVUhJ9dTiM7jOL6qdaYJIIDJKQiw2gMjS1ILHjVLaMnxB3GnbBLnbF8b84oKLQtliL90lL0/i4AgJfxn3pecZlyUSR2
+nxbLuNcqPtwtIbZQbWp6sXBcktiA0UoZsDTSJs9G8R5Jub6IB8VbfLhpJlZYzAGKvlarKs/rTQ+tk5Uou18mHNYvpioWKMqG054RWheR6XTBai9rGi33lk1p
+lRFJ4Q20yPaiqFhxOitli3BSf3P8db+NSFnjttrLxXXtadhv9CTqpD0Irbg3VEtTvGY/WHmnS6x7R73BpB6MWZkWsfRRlytOGGbjS7I/WEkY6XDQg3pr8izZ
+IGVzUcweyWTQntRl9Mg0vdKeEyNqfsSD1IJEw+/Pcj91ukZAxxKOF2M9EkjaaPZQtWqUraTR4oqJlbIU+y9WLAqk1Xflz4mr3pQ9R5ovAVE1z5kvUmWvzgm2
+LbKECtbCl/Qh3AHlHA03M7UUuzAXhb5gZmrsX8KD9Ksu0yiS7iyrNis39ZgIq/g8bTi6cLb8jLnG2WKmyjFLMtIVTB42I476QzEVtyIqnFThrtqwTNeAycg/
+q//KE4+2uCtmiMdfZIXMRKfgtirii+LmKuosuYtaEtpdD7uFHVusNtpexCHjQpY9tg+Za8v3LncNaJHdLiNZncR2niWDiOfTj5MsShd0Tm9kLPi92E9yMKk0
+xoiZP07e6RZ4C1yXTD5Gs2M8ssloffBbTkU83F6LXVpv6pFO6jHMmJBuNk3D97Je2LRLbTkVd4cnUv0eZxIBf1PZuPVOZZ3KLPyXNDhTNVozYlralaIRty97
+lwjqpSznmF513Ra+IIlyGmsHgYANwjUOt9L2yX2M2GsHTU8n3+Q59Hn1yghM6snJ0RaD835nH4qTY08mHMJJQ9wK1Yqjq7Znbq1Trm4oH41cZZiyftyMK/ZJ
+qbY05Zo6knUXxx8latnF3XeSb23i7J6sbp6EjJkoZUyJ77bf8kc2a7+LKSK06eLd/im7+yQ/j7EhJv3H+fqJtUP2AzNqth3Q2e6U4cQF7ifmQl0NcQSMPL2E
+b3xRa47lijjXBcYZGvD41v9N/b0rUevW2TvcnhQOAK4MPFPk8GovliB0NWX4UDKvctzwXmFPorM4FDX7hpnmXyfMWdwMqR8McSdan1Thg/DZGEghjs9TucSw
+LE2upGzqbI/eTbJcGWssMtUMxAKnFYh3J+V4KE7YcR4KEMn/BXv0e3VqqZ03PnHEAxsMfoPWCHTnPjE5T5NDPsQlu4wri/WY0oZXR3TsTWw2sGTr15nFq35n
+wkQVW3mwFjJzAZc9mcPJDb+VoqS8WWpJJuXWxyfy7ZTjoebchTqiv7gIxIUBcwcVo36v9IaeKXlN8lARQ9YseoUf9xFl0BLSLHH4MKpvE6NNP70jBx5umZqJ
+cT2bSCxm//1ehTUTi7sfT5m4TBLttTuLa+B4j+J4j6qep/tYaD3uXLDYafxj6gbSyaL5GK9/JOPYsv6+imh6w5J7itiEGzswBNJsUsPRCSHcBXFw6ScptahJ
+yXxGju+eCrfCP7gv9rKCY9xi9kWTEkvVVVqlINMk04r7fYGlohMpD8vDuBrUFiy7Zlj2fir/4O1AXQ0+w7SLSYtFx9uu4bffsTfFNVWw3mMhJ0D9R2JDeuA8
+77H2FkerJN6e+rxVVCHx7fWOVbdQZ58GhymtRhHZzCF/K65Tpq225pukWPfGthHRXH2tgxhkx7nk61T08TH4aAIDJV4gkLRZocjxN5j2pWBk+e7zcnxUns3z
+N1Vi2ksSqEnZJFwRcrxCIGmiY+dOAGv6D3weuVVjsyWeBzZCdjTCK/6+IcuaJJ1Cd6sq2920S14dqBh6Ydewyim2KIJE/9Ps7hsytyOPBL+YuoP6PqfCrrGm
+j/yqhWgqNOy1UeQ1jmtZyVRP6YqsZKDVitLm8JXFSdEpj6VTxujnZZRbDTxDwJS4Vt7/7dJqxEim3zxmFyY5NPssA5rUix1Hl/yLhrNhJFttBltuub6qiww6
+sNJJRtvXYiZzfRzZTJNSCRRdFg9LOyZL0QCkwL9xdek4UNQIVKZLXLWEYcQlhoY9Jo7OE4tTANacAk/cHUSbSUfnkqWLnWU7npATDGQypRD/nOwPmwTPbffR
+72jsLGyzE6H37NCT22gQ+oVqI9IvVGrJDbmNcOSY7wn7FgtYJ0d3NUp649Yc03X3hltF1CnPEppbfGIt9fDVnb5fVX1jx9lKdPt6U0Bp+JHu8tfBcwJK5hMW
+yE1WMB34jofOXQ09WVkIi+isplvtttE1u6gjt3qrS4W3/dc6U5p0dnp0q/93fUx5Jv4B50L3DvW49kYz0Oaa32pkEQpydc8kmMJJMZlNIc90vvYnhnkvXVz7
+qjernSrEzRnOY1/jTISMjXOoEt04TJq95pFc59jjKdvdxNmdXVCpY7sNXHyejeI1Y/jIp0kiiYxZJDjr+khdyiUJdRn9mcUuT15jAj3VbQr46oZ4qd72LW76
+McYBwusGZSD6m25n9MJgy81JSGB3xU5FkagkqZB08knk3HqypHF4JeL3RjXFxHIj8bgdzYZTCUI+L3XJesdGKw+AM8ntr7VjJkNf7Ix78qgGmaly9c9RN+9P
+SdPkXp22JObbTWeqidvZ11HTSivRdPQBwsljVs9gtcyKAHRpn+wOUyRLsiNNYSCNzIK9/V+7nWPGzcGmbmoPEUWvE06kr264M+zfV7oBoZvGAQTulT6ygH3y
+C33h+apUD7pYQu7LmnXJ+Ev/hoSSmKu+kqQC6lU5BST+KuZcQht6jskU5iAGW7x8gFd9UbcOjNveYibDwtMI95gkYcNY5rQhDmBh4ghYuf+9yF0sTsemEfdN
+SloBq3PUrGx13diORRw6Y+ZGglX0uab+jMvqFmN8KtwkWT3H1jm4Cfa2Ele0pckcb6YibqXfAS1nvxlp0y8dk1+Z42eNtN+Wb3xwX+pL97XHuRpb3rY4BKA0
+vO6sNtKdk1ty+9OZi83Ahit1bFMRiK5yVORw1vCUyD/l52yBA37Wa6o+tFF0ulWenxiViTIaJqdyLV6z0Rc38+gO2nYIKT6gMk2fW099Uh/5lRS6YjiuXGlD
+Zdj5qzQdbtbBpiPhgtgVpa64wflJqlp/UhUo07nDkjZTWP6dKbUaRee4FXKtnMHSK5clO22F0Fm6cjd8uoww/1fiSlK1OQ7A1BUxSn6pQ+sZ1LMjp1vT6l+8
++DQDKVGR3kKL7pN0QMTebyn7IIbdKt6xjW33w7njv8+6f8he/+t8CtRC4uSJNHTZVn7tx5ViS0jR69o817k2LWLPS4ql00L6GNZG05LYi4/qxH5cXkSx0wXM
+uh/EjGrLONuMWlIGTM1+qdYwaRc4Jw3Rm4HpIa6HoXflitKDoEcz8KD9R+fQtfJTWDBagUs5M0A9iYCxi2J843/ozTBFsMeN9iCzOMm8To4htwT5jzxd8y+8
+PUSlMTAzqy43wmT2jV+oCQZHNCEzsmEe33K+jjt+9DjdCCwKlslpf9xs2A8mjf5ydIrfccWfc1zqlWV24p/0pu4VunlIHDwsvYsWu3ZUzhLhoHYG5VPb3TmM
+S83jZSu/QvgV9QTj8x70gNHpKadDuqEN6oJ5nDH1v9Q1FP4OLKmevvVE6nDc9qk1YQyDSYBQCOmJcQGPo5Se0v+EwFQu+f4r+h9ZHR7jLn1sRW0qBmxvp+zH
+Md17Is1RmbOlxIERrrf77bL97XiCb3beemcDUtFKPa3J2bnnLISOVU+07JkQ+WMpnHhxL7UhDsU9xcA4H/CpweeZGNx9m6TTIwEn3rFJhja6SAAGT1vORr9q
+oZqOcVGDd8z9H29QaTdEl1fXGAh10wZLUrMSKR04TCMKB5APYhHyPj0dvyEvzueJJb/sb1mzO/Ut8dwtqlAelLd35+EwxFGsd0jt+iPXxW1cQE4b7nYPTx76
+VTuQ+aiwwbniB6shnb5j89jskluOGyZPeora+mHpcj4676Ci1GOlInAgK3cBBTdd9UZ57xaDwmNvvkZb8E5tzayEms7Xi6LW+cakDPmk5PjUVs39fh+KUb8W
+DaO2sZLbi3XJO3QCaJM6wegqVpudoYg1OkftROwf0+idsX7DX8ZmdPaOgnNAYQIO+C+SR8hpMLQY9hyJTrn+w6C8K13yyFKn+RdvtAdl/WC2TbLpXWTukBr7
+2qE4wx2IN5YdYaliOehcUnaUsyPPbZzuytthNgajkHdCAgUBCmzNY/vj2TeqRnVKdqBIitmJp0qgqKjMxST9tckPsV2nrvg0ENkIBxgv82bI1X93up3Y0CS8
+1Tv8uNWiJiJE6Y0as4LS7bjeNHd+bYKHbVIdbng/+CIOE1iFo7qDq27+G1lEaiK6x0jaj65bsU1CGPaAA2gu1vok/MLFFA1ajfo0MOWpWRnn1fjvtSlmd/vv
+R4jj4c5Kh1G9PdDjtZP4ZvWPLU+wUUY9U17fDvqJO97pTHfPoresSrd6iDVw5zKzkGoPbcFjkFvvm+zVo+COZfZ6kezFn5ba+oNwOpOahm4d8s6WSxeecjyU
+wng15ZHkgIVa5Q8o06sMVAaLYWev0l3L8SoxwcOlJ1veh+YArUQaLOohqlNYKKGvYw10p7Kjj3QdG2lA1/xpXItYuaysGQsaHUU9SI1Fh/q05NzEK18TjPeV
+FegB3/Dwr1P/NO4Aa5row5PXp5Zl7NXMnZi3E5cF7RDkodaaC5TFKtHlx2UCK3LFL0W1ZWoPnNf/ZfqId3jEtWiUHU+ncYw/eohcS8AO1Xl8v9WNFB1kKdz/
+Fwr86j7GTHURXIjtLNIh5JTFHfFYE6u1R88bQqPeN16OMuOr6ywfMB8PNSD9w9lsYzUj6TOqq2pzDZlAQiMSORSL3eK2JLiaJbtnuP4Z8agzqAn5dBrpLg0K
+9lH31KRE5/qIcDihi9SPjEei4daqmdlzEXiyfg5nylcQovx8tgTmeU+/PBkFKKK/atZPNfY9wfTPvtuTD4B+aYnClL9PWT53UhL9OYzZ/r3zuCguLrh23aMc
+bj0kDhnItovD2GOQjTMJ+az7iZqSSmRzsI9WyIvS2ukHkz2kCB8WGPL7+XnWUqjxskePjwu/Hzb6v2XVVQveUswl5kvuZM7Y1eAuKhhofJJD6X+W+T0qGAg3
+RawZpShcZCxfkNeos9ou1fgYp2L1C7ppsTCves23AYM3TUz0abN1A/MFhlGxPeh06VR+i7iLWURFLgYSks3lfRqTNxchOGMEIei+p3CLrDIYF+yD2A7PGgMU
+C1V3LcftGXjRMTLlwqOofqgpeDOoKjVkR1q0IwareRS3sboH437HFXMeayKQdOQ2H2ZRF4+L6ScSObsPJw202uYsitvs/AaYmXPuzGKM2XkrWlJcQNU38FhN
+fqf7lHEv6Z1ahKRPLU1ZRJRctKqANqcacbQQVSWO4iLII0lGt/GK7pbGh1R/oWGS8Ym2TjCyKVGwzelWbWWNHf6M6Sa/SIZi0o3e8htyXk9X+7gOadUy0qWL
+2608grzM11S+mKGALaLyx2c4qFeHhjs2tEYRZ85MW2JvVsbctBJyRB+ThuhCv3Wye1B9QLhUVEV4CEBLfzPry8RHREPzdGOzBvRMj9tqqt3viei0wX1PKe/w
+O/HC/InHhWbki3FnPwsYma6NdiMXHvKT+M4uQOyUtouvvHaakqKGpoTu+vUTi05dGn6urCajm43DeuxXR66SL0s/QBMWYI6b05F+MiWhHzuhYuysN/5JU2lo
+MvIiMZ4jT1LwE0R2oR6Rpo40r7gcDzf9ueufljqx82GzO15J+JvhWuIGHkM/1NglV0Jj7I1+5KQfKlwzpgfd7as+sMxWtSido7W1yccnx+FR7WPKV1qdr7Qn
+tyn17fz22B2dmps1b+mnCAXJlLOONCu/DxGyyKVoVCODgpheFXTDQL+yd2bSSo/S7Uo65DV+Sf3RPPdKWZrfNifKpEhP1B1PYboHVqZDJsxqsGy6CrpZSOA5
+/Gdfosohel3sznQiT6cxHXn2Qw5nMn2l7hjk9maYPPTMUrnUKn3JP7EsvOvxKWuRPri4NuBfUwszCYamLuYupiVmfLCSRcOkJKaZmxP3RFqKsazFO8COPIwX
+ba71NHOSR1PkbItCmY4azmTce+xtG1vyvHpEinQ6l9rnlbZFNshdORb+HgIYr5boeO50POM9Ercv9tQaLaxCADxy+XfCk2Nf++IqcYxqlUpX1c/3sg1wKZmP
+iVfJi51jIXBoeFs23M8OBexH10n7MVabDJJGy6Gpxu3zbtBdWe3V1KS5jwM17U+nVI1SZVQptSTerby5QRcnHL+f5VSPuhIOZlJbNJtoeZ7OkWL50MeSsxo4
+V/dZdZuAdTmaeLl4FPQSwXivkPceYwatVDPw+tTVt1CenVUpVHEKkgTzvnZQSYxvBVNdbiW9IdYcDI5bfiMDzkqsOhNGz6ws4CHJ/QkatoZXeWcSWzOt/29v
+lt1W5quYgN5kWO1Mb2NRoRrru4yiZ5JgpYQY+rLMYkXQVGN235RiNeIcxAeqghYN2dh0nZu38YJX9WN5CjAcStzTQUew1euNCkyOT5qw+gwyM6z8FcE/rgs0
+PsVuoPWqHurFlYsMpV8qzFQ48XJONnXG9SJOi+8rL5u+Rg1qW2is4R1N5bJWHrvHvlmP+DgOHFvVjeZuxnXgIx9pagnJ69So664/x3lnjHJ3qZtFI5XbZIfS
+Nf5zl9pJA21SSl/qlmpLUFU1KBatPrqSNzVQPa3oAO/sbpye7k6Ork3QPY1ZUjf6yOvGbrQP8yubW5d/iyyRp42Wx6D/rYTLStqjP3rpUYs0A4wSHdIxvYsb
+p5MHNUZn1TJiVH+uE+qJaMYu/1RhR5cVCqS2rjI5aI1e8e8Y1vSRgZLvwLtg6w6qilUdbQV7XtO74K5sBdXMpxqlXBtlw7tmuQ5jmkKz9KM2pbIa1Av9KKgp
+di41SdfnS2Ei4489ZItkkoIVD0SC7nUt5Tt1T3f6i6C6alReLB2+cUoLzenkDY1yTJJxpK87e/3KSmco5l2GcM6n87TwWA5FVkuuiW2cTe7/zrx8dV29mKf9
+Ktrw8wVOv7mu50lGPdSJ3TiGWunT+eHkyjdTspstdQqskpd8kpfclKcuKHCqsHYiH7K7kjau8hFHeyYzDbmMWXIfZRnN1uO3slAmdbjb9Kt5DOlcKzrO06ZJ
+dXd3ecNbgUrj4+e8Svra3+2ANbXmYbdKF2Cg8xx3ySJ7Y41f1V5vx6M+cEWoX4rfUkmNBi5Nv0sFZLkakWSovyK33BV3uuayBe8i9KVRJ6XhbOVxsG/+GsG0
+pBpZDho5BYzWLN+X7GjuJ+9F7V/awZJ5Nrs9JfI+Zp3ZxnfSNWStuhjk2alJ7J/I/iJND9szdtV+jgO2dob1V7th/Bmz9uDgNL6QNEAM6O7+um1MdewU6rPI
+G+mW7+FkMaGDssifw0cOR7Cr/q/dKFDsjswGdkrAaizjtWTKwiS0cU5pI1suze7429xqHhCENwUeLLqJQVtit+b4g47qumylV6x7Qof6QKSvrO4y7IUGZaKB
+ok3CjKkHNHdNG3NnufaVT4NAjUqlqtTQpI+fVCO6p/dAdctuTLas6fg7smxvajm70YxdR6FkKtE0cRPi78k1kk2kzjgP/UMCxLCMdev41uf6JJTF4dcpOoxT
+y71oBrWM5dxkLMaRFh1gulQyxCn+VkBZbeonEL/fsrsT/VUHemr1tKr30IOGjqeRx9O4jwV9USsbbAildB1Hqak3p0ZRnulgDqrgtJfOUVydZ+4xedJfI1Zc
+u8nfomSL33KvRVP+Avkp1SijjrGe4vYmemZzbT1rXR3rJ+7cMTtST5WL/HrbIjo76kwWdGpn69OBfjmQDZ8oBVB61PNp4+dZ80SVg9ZiEaWORojTYxTN/8pW
+5I9IZDTZJIrHVGJLWuiTDxihUumV635jdiB20eXALRr3k6TrYLzIhlJwzNNfVd8PpAd2aqloni/M5Vase/aBqMaM6Mtn87UC6euWxTeLpspIPTRGabK+CVM1
+Ax2dr2J9vhg34h39pr7sNVxNIrMbOseOC3V+3YimaXXHh3NjNufK/290h1uVDLW6YS7ONX1tJn1NDdcYQbd8LPyEu/p5vKqrjKqrv898RC7VyWrk2IuF1XIo
+ie3biA6LblqLPEFYaX7fqrp8ROZR87t+vfo5FFn8qbAYdmRXzdJ6cWnRgzgBCF/jkP38mXt/mSj9yoLi8DV63SskNRtTV9lSmer/jnoEVn162Ysdq1QBhGBl
+o0Z1RgPz+k13R9Ca5gi/SuXGu64rQOWwsioFtbrXKEwYqzs5bmBZqeULlnohJobVBYVB7NX4Ey9W85ehuhc1uVfci2hQn9YAqmed3LNezFqjY83d9LzcQTv3
+i+IaLeuBxvUoEHCMR4cX0g3sk8722DTeyRvtHtrX4rMqOMr0JPyapyCX2tMUF/0NG4kQzuqIZG03tgx8UjGk45L9NXb0+4vsr91g1sRZkCsZ+qr+977FaR9D
+G38LbXGm7qfYYQzivmKjHRea2l7+n5DkaJAvS6XBaujha9lHu8dcYcrek8JLu9keW/0pgwmGsRPzzVOr7l9u2Ge2+YXm+igiQuxJpXVmB5jF26PuzCnbvTGy
+2qpkBbVxKWqyK4v6TPqIEvJKW2yLrLZ2QYoeGoeaoa8fiwaPGsZxXJXDQHM9xXb1TfeI+S2t2YsZ3BFHSFV5xW4nOqzpoxrVX19799FrwrTu/e6lu9xPN92v
+51RbgRkVPQ0F6rla9WBj9QtiVwaNw2+JWLGiyWjRQTbemXZl+53Knq+23Lcb708+4rHJGKH3Y9uTBM/s8NrYQ1rkzjDuPI8gfCttllb9zc54GDf7lfQ2duwA
+TkbPsIMDmEL6UTb+pqIWwfGn6OHhUsaITkuuiHP91GbXmvlYlE/OFF/v21ygr84OoDwmlk5xCaY9PnHlP+jCdxoIDxxprMRiTG4Tx/6pYz0u7sHzA0KbHYaG
+0493W153yGO4Jhr5g7PiqK6pHS/9MAu1yVcIOvT8OlryasKPdTvIVBxTte52i979fDW0KWgVj8oQRHIxwJmevcfKXyOt/2TGC+BcGvQEYLq1jw35hLhL6yy2
+/7vU7d+u+Ze8gkNw0KMSwtUe/pEMYJGvPJPJdlQNQs697cydZqAxSm5RXURH1gxK71IrvhryAIN5y2azsYJDK5m3KgOux5ss7I3szMb0zpXXuxpH+XibJSy4
+bE82g9AqAkuwERIsh4dNeYWN7ctqER+iq4yyM7+dPfgPO3j6ILw70vUbUy/kJMnw51Qd55RenHZYR00l2KmedvMdD8dzH14AifvbKfRQGgYwoofs0Pzfm1/u
+n21VLFIQol6kpElHIs8c7MEoD7SKh2I879Ia7woteCl7+AVAUI7peDtGOaGVn9hYj/C9W4kQrk0Biu/DBmhxgtXSkmZht3Sh4nvLk7eIsjQuVoUfmiVJsNqN
+UQ7GvVgUQQS34MK6TLGHc7ooxw7rdL3W76OOBQXD7NIvyA25jyCFBxx28VGsJgvryNipvSt7cdvQ6hK/iJ967ce34xflHNl1uZtJbcyDOMMrK/2d83TmY9hj
+sn+t2rmQJ5zpR7PaPUnlj2nSAGFWzXuidhLrMwWI7srKwAfGd/93JfzUzFm260gKkN1INn8uWBsZsrJJk/o4KoKRT2Ljrm8f9O6K1ca95EMWwkbEpUQO7vw7
+7wHJw1dbLb42FTikg8BRzJgV3EjvaCsm32zPzDZ23lZHpOdrLPcTUGJe3qyEopge49F+baPTHONoe/KX49JOyV3yB0sXWDFsY/I8bcMNQo4FCNfttb1RsG6W
+Bki8AF3fQgiM4fIvZ2cKMyZ0DfvscnTsTfpv5BKe4W7iscXA76SIu4E8tvUDwYOjG1u7pju+J9s1JbRZ3dpNjZ+3XNNyesNb2rnNwi0ekT0IWnxruwAu3tXm
++kvNEp43zkLM1CzMOBniQACvpTpa7AlpJWx6kdCgIBIsneZfGjmbCs/R5Jjux3akulkZheulJe5afgsbTcfXsptwjHv64fjCwVReZNz/1nGaFARJbWhVorJW
+XKvKELHtvkzpeSrMRkmDkyM18V3zrSLImj+HSMm/ImOucenjjWAnja/l5lqjCy0JkaeDIsVZW5STRQOZzEjp2RdFoMdg7QBZ6UU5kNfM7G/D1S0j92TOsVkm
+KAzU/C/kYWY5vNVYYWeC9b4oOYsBa8fo4ElYvZhBYiMysd9s0McH+h0t7UmQlANbc9NFoncPXFqWccDKTUkbOzjYY6GMcWyLA7KIDS2hRHz4kk+g2IjFthMZ
+691mydDHl8x5FU/YnmOPCKBds4UOwKF3KRVibxssldB5LvHEn5N7/pVQ4uda7WJu+2rlHndM333WcnBpq0alzfPALFwSiNoYQhmh2w4Obes1Ehd+ciXlT0+X
+JABMSSV/sN36cOUQX7YFDpRl5NPeS2UgL2NxkqRRP7pjpEcEUf5s29k2671GUraoXYS2YuvvpdaZkzfdo0MiCesjpIiYJIcQIMCqYj3frFDLefH6UWbwJCHH
+T2U0S6DRW56BVlqfCOe3Bj+2NbBp4aFmT7PDpIC0whvn8k09Ny6MFhxc+5cNmi784bvohvM17N5iC8fyzeG6a0+qutlNNS6s6kNhP8MFjWEuSULBLB8PdkEp
+UN7+o+aSP09fbo5b5qOhGB1ZuZUCqbk8t5c5funM/80/ea3PMPYXGXQIInhsw5V9ztfkVcGcY+IyKpvStwZSKcFzwmOmgjOrjaJzMXY3aSqyUy7jBoBAA7o/
+ogkq1pIwfKV6+FJkQjCBaOF6HOJxnskhLp94zDqZScSa/nC05G4+tOZUSNW+t+QUtoKvPblNXB0cHYo249qtqtidS2nb7eyLuoDN+rImZ8ypJ4MZ0cS4mtHs
+oit45hN1BG1eLeuna+RGhFOcGSwjmokiVzgLjGlPapZPdVk9GW4y4fMZ7QD/4jwv0KfRSZzGMp+6+lbZxM2OtBalgdac6mcwlfF7Lcq3tI26VMUEGWRILeL9
+nlYm91JaoKGIJfVUpc3TWOUS1EwhMW8WT3TV8F2lsFN1+9QdcZntIc/7E41pSs2UlaCpAqmyMZNv1ZOtKtJUHLZ0y0sz4ejSIFz5VD1yjDHjAcSM1oIJ4g+x
+W8Zs/JQ7obJglf+DCC5NV+zMquz/5H8vRYti6QadySjGEbGZ02sUiY+lIBGaNcEtLl6tJ1mxR6jmUN4vIJZxaUFkgZJCdpz+2QHObAd1jEqrHq5cNRbcECRN
+2PE5xq8m6BLBhIb1UVjoFjE430Bc55qbuU+3kjZXpBal/m+8mx//WOxhV4jbmonPDKNFGCqAHsrcdEOCP2Mo3OGV2B6vfiT30koFVVrUVsAWrheMjweTeGN9
+hmpIGME/AjC7ik9ZhVMbjY70EphvJabYnNFpahfKi/mRXlTlxdidyi5zfucuTYUUFUO21TtOSufAEWyHlCOt9nNzdC12gCfpBr2L3gJfPD7wbwxj79+Npk0o
+6HZSLa9XBdrJnAwdtYJHNTGjk4hr/kXlTnvxu0ZEFOgnbCnq96u6wC/JGkiVd4znZTnF+Z2yZRVV+WhJBX5y5m09KxnPhxFZIKxAxxDbt0UWWmlr70KOEdc7
+vkyKQRbH3jft3gpqNBh+LgpSfcyPuqrm771U6sUP6BUGydZGcFQZO24U6TKSZBhzbsb6wuJTlTU8Hk6RkbRQl516n/a9ijR6yJiP6luHjzL/4k1HX8ZtQHso
+dfvBbnT6EPQHvmxtoY8p0A4jhz156PNYPeuKfO3TFRM+ZTwRM3pK5JJ25jfcQUTK3pUcSmn1i7wCbUwiB1nSi85tA6QWhGP3HCXIL3wcOAIKljYSw15ttB6R
+Ac+hlxNbXRj6lHY72Y9RfiRY28zZYW0Dnb76K0mHMaC+GKzKAMjCgCg8hs7fjZV2QqyhWyLh3JW//VWGKXoMJsPa0VycKFLJh98CjaHD0BUndhqWssKs4pAf
+O3nny4QUg3LHW3QWtvqW3fOkmir8HOd8UsvlPVb94dtfzeNG2Q4LvWIV36OUH4oXeI/pqBUGpBokpkpkFG/g26q6GHovP99x8ceYn0drPOLC884y1XOgxnBK
+2iFmOdUPeHlvUQuBeOeXUlcOeex1yWFHBvG4ruMRy6eN8pqyCuSBwKM65Fd1pFgZowbSI1RdETc6Y6GWuuNP2yHpyMPx7h4ZWO6WYidUdts2MzXLUh0g4vio
+Pv/qQFtfG8moF9FmHtn0hnQnyA7dxRJGO73TWjPy4e7qvmPrdFYkc1UzYgc+chG5lWL+guG+Qcmm+FarR7IPhk7QRaQcSAcYDP3W6XUT5IpXkVFIjM7t267Y
+N4MHn66pdnWllJrkVN5rxW6PVqiMOl27SlPrxkcwxPfk/otRtw2kJWqTdmBipBKhgsdJGx/DdVtXYmx2NtSoUyWgy4vA2yiui3f2g8+SMFghuKcyCcw92p1P
+Wx0ut4z/8UoBYoLk/pjMfWFN7ZLmefjTROs+ijQne4JYgOr6AGHRy5UfS1iHu8b7pfTSywngILpx6/exsa7jSp1QzPslXz6Pk34CV40kFLETJ5PGVmmuSnvH
+sj/FGk5CFMQswsW27uO35YvsocApaMs/qUN+kyQjz3GATsVKEiQOBcs+Ed1Ar8v+W738f258SGy7xmp0ZU9PXkQCn/VLVRFs6YuQMrk/3G8EFqg6N32j95cS
+rsyKwGnLqOfGswMwYOCOqsu+EOGlIsJHh67Kr7VK4SJuBQMNY2tYRkEEBBBQ1Kx+ZABYwLEq5Pdl5LfQ9ygYdJNTDK3kK6AmDBuQo5lxHt/M9eMQTY6hpdvq
+HNoiOUs+9XVjNUtrKgk7aa+MAYfSOpPWNIEzScCH5VYyo8TnIVI4jSzGOE30SAxR2yBauFCI2qlKGD0A4ZWeYueqgeE0KdBWWQqCgm/6xqbnX0/BvSsnIc4T
+DduhbcxrDT/wi4yFplQ081dJwhzYPxrHfrzERnj78Z3W5m0sheNYbG4pRptLlLzmUu+BzFtkBvGJWAJM9VXow+Yywauh58d2ElZBPwPFrbm6WeqYi4Q1qTdj
+V+r3U5Iauegas70pNQuVUC5tUdBCXphuaWwkchkNF9CJJRHNInHNPFcpThzhVW/TGbhAZxfDceNsOYCp0tuYqiLhzZEfXY1GRD63d1jbNzj0mnLDGigfLCoM
+UnyUS6SfBuS+VDMXmuJGnEoI5vEHVDlPUS+D8dAjNGuyDIeXHWt6w811XRFxtCnSj8bwPIXlNmzixhFDz5SnKUpMaBTL08xxwVggOsiKfrLeI1HzQZHHivsr
+isVM+0ekh4G3f9YEWVKb3e2XZnR7vvkLpGpGiifN6BR7koV7ZpXN2EsSI9FHbFn6NsQd8UFCvkMn45hmjY73BWzgyF1EgZx0gkPUkDW0O44Eb/IaZ+wloc56
+WIEjvUnDMo3YAZ7H31eSvFERSITm92w4Rp7hbDhLvUGPiKjnUK7wWEUxAqjEn8Hfk9HsgAPDACiJzQcpFNSkRpR0IBOnVDZ0FLyKoxhgEvuBByMG5y1Dm1gF
+oJB8EtaE4oV55FIfMtOuZ9TPY3f/mDOxKG6YjOFbN1suCQr8PQYtQmLUMUwEhRxeXFJuSW4oNaJBQJdD0i8zslNSHLKE9J1Wl16FDbsAh+doFBcizWK5mwtB
+MvEDjk6LGgkpLm4jmhxlIQNDTl8UOUVl7DRbQyCJTkynENrY9RyDgo5nErZuRpQ5ICRaWS8Z6XWkaThRJQ0XQHnWOgqgwZkUf233qHbgScTXzUmS8YgWZ9xf
+X+4aX7pIUtuM+xSbePQXtISuuV+QGEAkGrbqKX+FC/zGM+7Iaq4OlATMiNVi4TtTnbhzkdiG5smtDBhh389DMcf6iO6YZsCjUM00vz5Cc7MW/UNMQCBkTJbk
+wP8k/fiH4OcYWiben7EGiH4ki4MQ77B4eObmTpzGM0iV4yvZp07JGHVkfeI6L6NB7PgS8qlOpw+T589oqsQwnpwMjIgOha1QM/7Dol9lxE/1r3w0P/uoggC7
+gv3Z4p3Ks4h72SwqfdUAkQOoCsRHWGLSlcFZ3Dr0YvyDVpB0lQBdfD3oddeAH42tgph3bGiMnX6Kigwdxt/S68nn531OA//B6l+P6xSF94tV4hdlFNIhzoLf
+Iu3977j3wDEkAWKly51X1AxHcGhXlCJ0RHwNIfhmdLXoF8DOL1Jpq4rGmRwLjCIiauwSqiE00uKPPaHvOZwZ6nPM6X8cbL9ZaxgeJhHSqKRnjl+IGpInrZpm
+/ErolGBrFmrzysMQOkMOW0PztWh7wBqsFL2/lfwESMMG/QNtxLthFW0M8YJa1EpcZK/tdG50d8cHcXFLv1D6dedLFW1+oGY1MGpNdc03C1abFFbGJJnTVITn
+UAYlYicFF7EjXEbM9+iCnYRYCVx18hJ45H9aKLKQDPQvF2Kowz+yW9QLzl/zstOCIVrNSKFYmI1GeCCbiLHjMgSW4hDE49YSJ3Y+sDxOxVmfo0Kts2o6QP73
+WHzElU6tFa54Uj6J93qOu3kfZnXgRkHAFBdAy4b0bp1jx8X9dQ6fJIHcOWhJWLOuOVA03TysY9Ijy67pM12WKmnSDtImERE0C8ZJLKaIluPASeIWyBXxTDez
+J7IBjmeAFaIQ7LXmlRATEEfT6XjSM84YUCWKJUjKNY6BnKTjmyc07sc3PY1dcUVEFcm67ljq9E5/XBHJoPjyvK14WpHzXPXYQ+T07DAjgCIyCiLSmImg+AEN
+nGVIn27HDyif+9zvKmjaL/03fAWHa9d0bccOQFaoSQO7ktBjUe+jJHbKdBigfxpXwVAP4thXyvRpUSdh24t1VJlEBKxCq7K2l82BBtz1tjLML3sJQIBwEdVv
+rCpi5XAbTpLrVnyUmqEV8zYJXOLTOZ5c7jU5r0FUE32n12y/qqz0OfzvGpumZndLGAXTRIyTPHiQ2mqvuQpbUYMzVqrW9cTbIX2U488L4iUKxPEe1z99LZ9H
+RLUmpSrcqI1jkGJKOrE53UwKhCnxyNU27om/oolMgnUdP0UO+xjpnB/xXzE/QTGFCFg/F8srLoFU2w7pozKYBSWBVzzEMWBSY5oopc4wLqm5JvE+YqV4HpJC
+OQVcnLGTHYkKEUSJWNLpVi5llKRPV8OWpSBPYiUHGqlOkeKD3j4EUjpqMI/F7fArtZO2PFqO+iOPTyyJQxtiGNigkFPeOOonntUip6y08YVGk1VNppt8lCFs
+fdP0RDlIsXQ9yQooanLNcJDMCdaydpSGQTx5qg81a0YYFYmmllTRKZI9Odihd6qDYyGq9mrQWcch0xjuQ7aDuWjetRJq30xQofywKsI8OcM8zjbAKkXVmuMp
+JR/Gj42WPcGmQu4klMrXp6kz1A74V0eq2dlHVamltoZBvMjuusVUUZrCJbvMTjjprrvErayHUQImzhQlOgiY8g+JEEpqBFHl2gGqaGoQV4qLl8L6cxdmU8om
+65oMadGD4VnuwotT8JWEyY8aJGAS7aTS7+UH0XZ1wMOhVHSYKQSM7CPVhH0kCZVvka1wCMMiyZI4kjuCUDdgJWm60C7dui/shOSSoJ7tT9vz5TwJsBfKjdA2
+KRViFMtPwRFMySV0qs9K5KQG6aTaLBUazCb0TF+UTrwOVo700wBn7ulouCwRts4fIzfVnkRcFblFYJeWOR3NTuW2J79m0m41FCFgXjH1OTTbE6z+1B1sg45Q
+k8x32WA2M78ZOgWvj/5KF6iN5kril23E0FNx26i4iQGTTH+5anwE8Qplr3ESW2lRPK0cH1tZdqWyLxJBOV5iRgj5m6WGcv56zOgTfJT5XuifxKVCaNsYwaQI
+0qQBhRNYBOIoBmFjWhFiqrczdtK3OGZC16i4+BI7uL05irbsF4rIg61JLE6VdaSExqqBmjxk2gAx+Ut67KyUCE3oR0mmHLy6KSxE5JmsatuW9WcIN7fFe6XX
+n/45x/0zj4+IC6hGbObyq7h3vjgXZ7/HNXXTkiK2CSHVQUTapnYBsqrzVt77XiSv2u0s3KQW2qRP2BJ334MHKa6CfDzGtGTlV8w1Rn48X7B8iAs5XhWkXnQD
+ICUe1UKMwNRLvDXcb4pmlqBpYoFQbiIsuLaVAVVU8TtSpJm27hullagVpWNmVbqslaeY4eTDM+8uNcRTBI8iZA33oRg76a1+ddh6JG4ebM3u1kTsyH0B2Eb4
+7NVl0lVwsJfA6DUfY5IBY407xACDih01ptZ8Yc8YnEd/6ztM/Q0z2YmZd05GnxbRVUzFI/e9Bh5ce6fZelzg4H1csztNyzXMzrSP0+DPCLdABEB/RQj9dQg9
+E9N/1z0dSC/dofYkxNI2ZqdC34AqKXFCfSr6Rqka51az5wXZVvSGZjTosBwvL6nW7Nie5UmdjZ1On81SBoXPfy90PxVyrxSOAZWOevruIkq9lSTq4pgaHceR
+//I4pEgi3gVujcrm+khjtyO/YqxAGt5my7TkrFtqiEY+HE2/jzV3DXnX4QeuR0LnReKoxF9G53RjI+FbnJzOsRcXg6ow74iaZTz9sKsXteRO36abjGrrVKjB
+0sa8LU5pdoYa91E+q0ZnQwHW2a3qmsY65uc7/XVbApasTIud7pbuy9xi72Sld1zG1qANM44HZLDjPC6BeyhLV6FY8tjNRvukuUh2devdV8ljSfqhuIuIn3Pe
+xukogyb2hBDibdT3s7I3juKojsPaMgnEvpeJNjt6LsDyTv84ypylESP8xHkgepQ6llKN1cMcTLMjRNa74nYE0AGMFAveXdAc/McapD6LO+gphVlrJ9oCAkSi
+MqvD5vorZul1lvQzXcLpSNGmqwsysVgvjDwb50lq46zVOwOgGO2YPBUzlvf5EnliZuE9KWBEluv5ipsr1F1xdXgPSAkZRNgBQhJ3n1nS7Fka27koTEnkHXuD
+pBtzEX8ug+JDSk/ZKwavLueivsBcRLWPY1TBK6jH1I2d/+a2+P75WqWUWYmEnXA7zvQYcSGwVVY5CjPEZKjjJB099QxNZe/Q6rWWjKJExfrE6Stp1Wzxbgwd
+Qn52iDgxpVtDVkrJpGFFmYLGDEUaPfVZwSy0TCDHk08yI/1GfsZmkNzsi2E5xo8XzzM3PSRkHwtRYoe3Kqa3/WqNmtg+l/C0ijjR4DcwDuhBcB+ke6eYO6c0
+e0kKhjh4Jr5QvzWGyvXRy08Ox57T5ieWj9pgoMPIH6F+9NAF5eQk4E+sh4+6ox9rc4UPUXmOIRFBogjR6drM9kmo05Be7djYlWJyVYLFhDpemSWPUG314BwQ
+Lv1fwX0IMkGgE89F7ZdhFpR10nk4FUXGTMUmW8ZDeCDc+xOqtEmqNJo/MfS9aUBkmnCpmAS8m6RqmuY0SKcWd7SPY0ysTau8xsl2MoYaMBJ7yiqYxK2UZq1n
++jeRHHwrAsVX8Bhj+j7FJzbJo6iL/CSsvxJM0N4ofiTrGRHS5b8Uk7l7UEKjc0/eya894faqy+UJ+dkE1nxKskpMNdxkLyIJ6Z2L9Y51hGk0iGj8kGUyrl80
+by0mq58r/iCvn34utMevH1T3FOaADXUgZqyHM22IPWOJ4kayj2ISEfv8o6rmD+tWPo8fUE4r3xY/4kezRWvomFfHgfeT4gOLLfrQQdkoFM5IR3mNn3Qkx6OI
+VnQwLR5X3vlxpSMTE19uMajM3uidX9j1xsx9eFRYKjKhX/FNhntWaNhw/VM9eTBcKFZzcUrfwhhp3Tmg1RquueI/Y48+5YtlcRzwqOaUKD0UrYgUo/IrZdxV
+VXTXLrnLUA4J8zbRd2OtLFGS5HRW3cXhSgL3UPiQpKfb0jVKT6ciAEAjH3/eM5uVfWnoh3grF8JYhBeqJuMY0eZVKhmjsuiBLYh61FxI5Lgcoqn7Wjq3n18/
+oyh89VfSvE6v/4ss2luRHEVFQom3Wm+nSN5BJiz0eFw9BEfaDU7C3qu8lpj7AETSChE+UjYmiUe/42YiQFJrCNI9O63lMsIpTmHTkDBFKtNl3KTjM34qdn5M
+Rxr1lTTBMS6H4Ug68MEi6csHnzL4BkswhdEPTOI8hRYT6WByzl4v4dbllQCyPqGQ+CzyV0kvlWIUM6N3uS3Ku+Z/JLsoaZWEl0OvIW78H/7bKjxiFIw5srZO
+4y7fNhkwCOmEIZKILlbIvVI3nfbCMGNqYZRErlQFnPqKGkUy6qSo2zvL6GK6u3hIAhsx0yA6tmd+WrNgOinv4j7UxlDzXxqSw5Dc7cpyQI9n5OgLwJfelz+w
+DnsYSXrKrlLhEStQrrqT6ogI77Dcss86ufu431leR9SLwkPEMtJ/qR/GANOOHX+ZEd/FS0JMN0g355gVRy+8r8rUee8VIrSPI+K4uOZ3860dj0IY1evpe5eK
+LLZcZt574u73VvjmOz4nRHdusL8LnIK9hsvALtJtETAqD3Wf611oGb11ZVTQDGI5adJmgcXf5KNZR8dEELyRfFxvtQ7f3IHYAkd+Q2PQteM9rm9he0mj0amr
+QBoF09SnkX8GRRw0uCqcWxM1l7fFkO+Y/9S0GqWlv9MvKTgs21bEcxdZOU7CEyCJb9atQnPozN6W0tnTE7v+huV7iYvkG1KxgEnfPOEj5eXEBm25IEqQlQAW
+5z2mBFnEgaysvEfbkJe3j6u8qIgOIF3eZy5wF/2yvLzyLE4kBrXkBxNoyWWXy4+uZyy+6xNxzeFdSjXjhtdgpj56tXho3EsVtdFdFpSRqqUvdynvZsoUEt/x
+pUMguqt3mI0yMWJEHHaUWHm8OhyPSOhmSeYuxdKoE91RI9KW/xAxKlZxTOK6+HBP6+WMTOKI6fDdzwwKu5ZtBA/KyB0efRxiVegtoKRjVBSNJfIdxqkeKhIc
+K5UhOkhWkJosleP5fQ6fRjYpSVbf5MutWDy3xjxez/vAltRmlIru9tBWeZ1zerJTIWOErZRn4SUltsPbyqAvgFgx1lSdceCVDWZI5Y2sHEyGjAPXR2XnXPxn
+K6nexRtol3PnLIcu49rpkjJ9mFkYNEzQInU9dsSIkl4yEUQYcwMH5wwkhnVJHP1OFpwZkZ4O4/YSN5tV62rNnjiiMSLYbi+DEVrICopLhArLkRmjUphblGEv
++aBGpe5shxR9RfgjKo1UzSToE+6dvQSITUk8vUR+2EVfMi0L/vQrZd1+SHm3K/yGNQW/NJ5LrxLHuMbN4rpNk4OW6ghqNHGCk0hTh1TWoKWYNbfis7RFMyRG
+PWiW04cdPclggFXMA6SEK3/CQLSNcRgLsdZiXgI8heCE0gFlRLOkXuLrm1AloeJIY5XBYr3dMegtRc1HNDfsgIc+/2UAmSvFnu5s2kUSyfiqAHjzp/aXk6VL
+VfppGFt/OUoJmEfevJh1DPoSYg0/FYeO+FEK92qxoiPxm2cr+oggJqyew5SR22ibf5ADpt/aTmtZi+ith2ElXBarX3GktKdEGqcTQYFsXZRoIYVm6faEsIUz
+IjEf+lKr+7YHjAP9KuYJGqvwT0UpNH+d1YMb5lpp/lp9KU4gVRb/jlUAriSrpb6fJd+b2+Ss+FZgra5Cshqdbc0NE+n+A1vFUhAl0mUd2iXNb3OpLYQ46WIp
+0aASZMItfRW5unPlW11VHOa7t7OTJAJ0PKrFflqQkaL0g3RQSr9Z46w4Iq65+uGYiw01Wumq2r3iWV7s+M4ozIrYWYfJWWsNXCI7ZkTEt+uOEzvejlaGI/Pr
+9B0+MGwEyPySnzKZwpXsnVQelES3TfknJFW5TLiinjZKfGdOuUYp+Sw5LLFuNj9L3Cxcurs0fKc0fDFRKwJkceoC5rIIsvzw/rNAZmuFRFMkLyu9XnOR9rBT
+dqrkevEeaB3TFEWlqYqBBpLJikKLwBkryOkQDWu2g0AJRj9l97vNqSiel35IqC2ea+RC4hS0pmZ3NdK6NGPXjf88WEQ4oho0butX6keOQ8KZaNpcinVaY/rg
+25ZU5eersv9ibtOo1+//qaFO+1QLtQ3u41NSP0n21uxxVleFBMK1KpnQidZjhGqbBusWcc9qJ1nG0hAgJh0e0gX29JzJ4BWQW2J0xdDoca7txU4jRSeqto6r
+ZWPw1J7M4FIGFK9V5ybbyh7THqtF9uJqwtiiumQnKS7qK2wX4lh+Z/rGy0//8kuM2fSy8Fdqo3Qdapax+uY2nLhJviRCJHgJXtAMrksiJl0EXd3k+Eu63/F3
+XZ0GPXRJ5nn1rILUeqHghEywuwTfwv3P79iTHNOJUAEp/0Tmk5jDkK4DJbIqpJYJIjtcPrmXRhCfd7IYkDYzCr9bekDJA8soQWBjaheiIM1LwenoAIw3R2dW
+rBcyE6X0JonnJdek5IcwM1EGdtzukKpwKfZYyV2jwqQgP8X175EPNnFNRB8Yh8H3ElvjC50pPqvvpRjzL9PAb4lb3Jcm1TfHBAUwF5sWEBcC8DNJR4hM8Bjf
+MaAMLBR37pyUXX4rO/ZWP/tOIvUjBDxiq3wpey8YpeZHHkhKVJEYwkgu4qKKVE5oBOPQvVcFU8XV8bPG6/8IuiUZqmKpsqSB1vZpWYxEcK5JVTjmY6dMl6SD
+0hPK0qmdWFc602rWVOQz6vU62/czSmEo7d2YTt45Yb3UTfkM8f5osaOgq8usL/gP7AgrpgLbIx3seI/RBEqZ+VHpzOCv3FhD6KtA7M4cG94dlI/lh6qX/pFG
+0fTlGKYKJ0tayX8g2dkdGrujw7KypYO8l1p78C4zVeC7fknSSHwUbnGLL6a2HDvOATMY7oOAoHn9kmSFahCBNqWHFfbYOcLXQkk4cqr+Ym+UbnDfL7HHZh3e
+dSdZaBjnwi9xWVjD+E57GrL7G4sw6QdPrXR/Ces5xkUiQS3mzZRXQFZGHfCr9R8qPiHN0oqIUALB6viO3WyJYFelgi3LoBjjItOJWgbXbtBPxSXtd8zf8nKI
+1oWs7dq67Cb4tcZf9Lqw/iJ6u2t15bzLK65I+H7Pa7UO78qOH6Xnh15NUB70dTjSTpJehNfS/OcE1Udz/yxK52L+qC3foZBzSnFRL0AnXUL0d5aOnXFOjXwN
+l4tFmNBhO9I80U/PAVWYvIRkau1p/SOG8Z/miuEqk5UMmfoivFiWVC//OxHF0bA+gITFq1NV+KX8xFM0hzNPictenBygOmGHnWx4UBJbTEFdcp6e8Z6ILsCv
+NU6F7FuivNaeKJFTuGhepC4lpwthp+II97HuWAuZsB8r82t04Jcke4itzsR8GRFfXm5L+viKZIdXXFAW8WqOb/vNGz0/9iWvkZbs46jY40O8lAR9NavwuAzG
+urTE/VjHJ4TZLLDWiYDPs7bYsaru0smHgK95cGXmlY1VuZeNjTqVlMkg6R55YDoiYhee1kl8cmy73hlU6C1rMNhY88AklpMmb8xGmmmSoJDRijN75G+nkqJO
+yD6HFHZbfVY+iZqSIeHdXmV3w3X+Qc3i+nIoJzo+0ySCGRFgprEhhELMto3mN20KxNqk4SofPR2s9aMU6+1WLugagJJJ5Veo60tlVkRFOopAq3pJa64mfNLD
+slLD4ukXZl8aCVRbpPWa0bAcwHIVFLYqXCIrLUzAM1fcjlE2h2PczShTWtlIuca2p2O0EGucJq5pns/CVzniXBfVa7gWPd9Q494GOC3JwDK2VYImzv9tpV6X
+HCQWf4iVZMOIDOM0y0zavW0Q7Tj2dMVGrlfFe3TCpchDzGBc2f5o9RQMK9FevqHFs7sonSp2smSMQ5wJ1v1h7sOo8U2Gm0kLFrPirwFkG9e3Q8DYAz2N8WQy
+rEm5lme6IDEo5wTElTlmY42AP/JbWkbyeQU6w2LI18mcjdixADEjhspfZHa7Y91a+SFR+i0W6amqic7v/n34ZmvdSUuWOrAUK/+IdakSvj/KB/q/MXfP3p/y
+r4LPrFtA87f/CRfbGknKzlo1hPn5pXlszE7DFsMwmciW4t58MJk9mMYCQful7HSoLJ0Oq/1cIjgkXE/97ow1/R+RVBIJ/tD5O2ziY9AHyNjrvy2bOcwalOaY
+yRaa2zR/MR14j+M+zb8WJs6/qU7gkRYKHRA7vkkcyTf6Iw0VqEYStNhp82u/V/AV6PYUlRLLvZrOEmtbf5KxqGXhEOOwSvYntauYN+sT5yb0FwrC/IS6Ib8h
+doEy0g5ZXFluQqOhW4yrnRrpCApFWesruh5GGmFufDl+le5WMWt+/AhNRX4jcUBRFOpXVIa4I+HGvicVDfeh+GmSLo4yw/G1zHO7Zn5SHrJsfREmfgmK9gvq
+LNtngpbQSPS9+j6QII7xr6dCveeukuxjb2DyhtBeBDXKaXDRfhENKiIONDfFZT8JJGWxJHf1S6UyhKm2SoK46klWBcmhbgS2xk8vK9SA2Bn0vVgNKDoOyWKR
+0wzaWv/aMJYi/N8uUSJjAA/z2nYIPhtil0NSwtE8p405CHpCmrk+ANAQyo64YVX8VogakXJPblth/XSKxLaaRq5bxaakR9SEArIR0BaD6GixqJ+UOKfsYmXO
+sW5FRXgJmoZQAVUhmVLSw2m6owA6eRJiFPJgc8Dc2pttip4ASzmRc/DVxla27qpEHL2jvzOmS9wKt8ODtpYoSuhHixLG2ns2vHIjWUB/WUZ77zGjKDxHJ9RB
+mct41abElw4ZgpUjAJxGAwWUimOElOSNVjeS7ucCYAy9XvRfT37LVIsnKR11m9qI0lRAnkk+sN70Z2fJx5EuyhGzKUy3VJWi51IbOQpIGfcvCFfGUapICvMQ
+4RIlRMYuTby45GdoeacL8im890dsY2q1M7sqniwVuiD0IABYMsGslaSY3H7kSok9OaJqWFFMH9AtFf3tcbPFwQ0/LoNgeJGww1GmpJ3YDHRRhEEsMymERdXf
+eKVlQvIYlyyJ7cuUJLIqwynRY03Pu1ENXswf0SNKeBUjWtYVf/haBlSHUqL5DjKYYkTBrzh2r79uMHCz0vU+VeMoUu1rdfKeZBWlcxbfEdv4dcTuXbdy9SR+
+54anGhEH7yplwHJzmV84Ub3KW0wWjuGoY+fbU+z+CLhoZpwkhpe0isrWU1jEIjwK7DjRjRcTyQpXFhSLjuPb84U8qzjfrpjNuUqVuPoqFnuDwxukVPTD6Pot
+egYWSS+B/mJGxU6ruqNmaUvpFd63GlPXCm42YhhUM0LaRUSScfNnooAd1iI1bru/PLYCDmOnmEOnb07Ho1/MSvOba7ifTirH+ynRj19XSWhqJ8SbPr6zFIic
+uFIgKsBPzDrL2RdpQNAjdvigl9wSL5c1pYuB3xUXKCkGPzbExh6UiV2hf+soDV07aWG4tDBsiil0yVA6/uCWcK5bKLrO+ry2cxoD+kN6BkbR7ZfmgJVTN1qM
+KKUhcAKLE6v0ENZAqnpFyiboEvfTOkXX/pa2SdIvIlDUQoVRir6PAHfO7rtaVlELdqdKurNAUaS4cwAjmI4a4xevCcEn1cbdODq6UN9KwotDG5u+dIriMMYO
+mEb9xFO2+APi6aeH/J4MwHM8oA9LIWMZVnd6Y0+kHqSKg5WLUr8vsaIfBbCjx7XmbLHioSC/OF5O4ez0fiU5onGzWV+kWEDBBlM/IqREgiIEHmrFmR60GIjm
+ohEL+P8xdSZYivPcEtxKbU1ggV0Yi98DNKz+3Ygr6nvndFuCYjS2rCEjU0chEwP/ojpS17hc+R83FKu9FzbDdP6Zj7ezkfOxI2dDfCaHHK3VR8Ejo7aooGOL
+s5ucvOheYZZ39vEVwGs+BmQWUeZqwpxojEXXSWZVHeFxnnjDTFeZU7OMjpKxuEZ7bkkuBDJjW7MPhrtOFl+PO+MJTStEsRfF/TDlcW6Eb9FO07dfUkF500sO
+dwzXGeJ67/ljgCE3H/FLPNBKLhyRs+ZzyA0njeuyUpc73Zqo4mGHnhJFIWIqiXGdE40wzG/F3Lzr6zNr+c96pqL6sWnRtziwJbdQZWXZesEGtSRrUR5M2PIZ
+OzCXlNmaX4ikNE6R48dDIYWMUfEnSA26Hn4ntY/R/SyKKVk1U+soxoyJHxsWM2YzJtA9bplZuEjFz0LpqYS8dkmjQRF515C7kRFeBiMOmvrNGZd4mngrO0Xx
+/qaW4+eXyY/lv6RGFpJTpalrY/zefDkWBRFQ6kzoogeKSYPCbget9e1QqH07yIO/HfH2eP3lMtdtZXbtFocGOsc1ncs1APxQ0LGMoq/G3UhumU1RvGkCiLay
+/wnXvxcqSwMP2y+Qw61lTONSTr+TqYiZbx1ljChQldzGLtXk0LCsKah0AuY2K0qOAis+8JSitDJfFeNZbVNvesSlhuxblxW99ehjSjZ0YG7T8rUMLBbFYMbY
+afoDTvYU0jYw7QNjcx33+ZvXGKeVrxLN542MxOj8MgDdursgysp4CeoaxN9qiiSjl0dyYxovlheNhOsWt6/xIEKVW2H2hR+iPPpJf+P4+q/Khh7OLV+Ar4XB
+HOGQzC/dcto/iq7Q5ND3byXv1tJwcpL4JueEZLMQB3k6kQfJR7aILb0zjrZf8/B+8Zf/nWBZ0Fu+eGpccQ/UmPHBEFmuz4kta4K/4HO8VnxOug1Z8uf/5qys
+p0jzhjrT+bzpyDX/aevBJROJgkRtwl5PXq6nXz3lJp1NJ2EwpCvuz/FNbPeYXBkm64gx9duKIjq6ePWY8BgdtD4fbGZD2k0QR5magfGIEezi067oOBHojAfr
+jVwYx0P55UutpjPWSDSVAjIPnF6VqMkvRQtEUCK+XfTHPqPQCj2zSTvC9qcObdeSqZXRoegL2ONkUAHlVlVo8rVizP5W5xnHMlp2FZ7C8SZhEcpzoT7vX7fE
++ftdpz9h4pQaT685dPfv3kCoOJ3SNvGdks5Xii/Tu5hDne/OcCcFnwPKzsXdXTu+Qq7lnNaKZxWc+QrzpaaKM1WUlYk6RJgVPfVo983HnWjwu4aTnwTPCra5
+IouGk71k1MWkPNOGHTtGfxaA3ugIjUWvyZJa1tizj/w0NOOHYk4n+bmA5ecrQE70TkY79+g7tz75IVpLdIWVsWXFcM3okN6Kgk9vpYNkmS/O0VKRJh+J5M53
+YRomtuv3vbwmYQAZm0vN+Ex39ZUYvK4M3W+LEzk4QuYUT9Sck7vSjmPukj6EeBcY8hjHceZsZoTM9RiJ1axLv/WVX0b3dOSHvCb5eWUihq358JaYNtYj9ZeA
+mv8vaJPJHIWnTz0lS9e1xjHXozqLi3OUl0sWylQ1pCwnXBHbzqrHtW2vFKvGKOiKxmipKlGRk5+LRpD5Y8ew+qNQdRoP3SCHFw0DldTFIiCHoDCU00XpqOXH
+4MsgNLpOJl9iCrm69QtNAyF9KlOhdFvGcDoDeO0RoHU7MgmzZrc4nveKxifjObn5Va8bLoVHTLU6qmXVB7PeT32h0TSpTSNJfCarNlHXOmgdWRNtu5Y3ytXX
+qvvjE8VrObq55KH6+cpyIn/EOMcoz1sKX332DICZKZ79Dn7HKR0lpYCuhdyaaxl893LilU/opExdpVPR0zAVLlJ0Nfbl+J1ipI6hJNM/lyNx3EuqpaJYtJK8
+qnt1zhrhq90SEztvaSapaLCLYY3uzEj7C+plDCNVxPaj9qLnwYUj4EKOL4rYnivaZjvVl9nliDeK2OzTkvV5dxXigtvz2cAQ7s5Foiidz4h+FRg5Ull1rFM3
+uOqVyUrRzwRdrHJZOveXCbQJrSyk98+lKuL9T/yIUnb0AzvRoeNk7r5qPmp15fxSCH/SbfLWO7OXouR1XayrxLmUHgqNWUZcx1DzEqOGNBcbGdwAa1d+YTXJ
+G1TNFKKwywnqbVsXx+/BvQix5p84C6Lb+FMfHdGtDy0mlzeDAZhAc8jSldJnxx5F6HqP861KPZJeGjupz7Pykv4cfse/qVawbZ4xKowdWGDy1Uwxq32tzClx
+VLOYVwoJdY9gJQs+3pi4SkzIgDhkiMaxD0lJNC3XjDY9T5hdpvdj9HWv2AdiUamENcaL9FyQZ2gu+cJrsXUxaxx63rmmvWNr+ZgYpLcsFNXeT71THMO6PdW2
+ulme5M4HcnZ4HP11UZzBTAPUt/hu4crG1X+Y8k4GbWp2p4ezrJhT3hPYHaZZA039WXpk0fC1ulRClU6WOloCpSnE7ZmpaRsWlRhiLCpwUdChtXW0QXwqC40H
+T7qzOpIyW87RqMSxo1J2bm/1tR+3ympj/IO4NgW/kz70Q01LXT7GNyR4qIQCUw4pq02JbxxuSJtryTF8VIZ0oBo4xz7tR+R37z6Y3s8pRdLqloGrw+oB4Lh8
+wEPIu2fj3Qcl/dJGsYn/cKhMTmcX83zsr1XBfNRMIzyTPh5bOe7zf7G4vZqlp+X5yMaE3NZMQF1b7LRzd/vTT1NxLwJAMqaV2RadNLk8ndcy+WlIVUEBq6Cy
+YeR8bv/Q3b62qj3ms2tVnSuLrcpYOwS6aToTkAGwKdN95GRd1CRFzy0D1c9G76VCt5oFi3/Bnj6aJsDWLXNgMxe27PpnxuGtPPfwxeceXGvEivaaMPv4a24t
+fTb1yGz518sl015z2vCs4uhMJkDmAJ/nRP7Oc83Ir6iwBtcTYlnlYh7s8XOOwcYcL5ia1umSet0pLpSHsbD4aB5f1a56yz/ZLoaa7ZU7RKuR6GpQ8fZEuuKm
+SPfbTDNi9BKDVecz/1i6dDfXYM8sv/ED1jT+LPKU0X6OamtpRtXadjpdne3e42SV0Po2NKjM6r3TT3PLQgEuc2W6aubPXvBC7baeazfapDnwb4/Jk+ucKjdL
+lqbO6c/F1F3XAd/TTZOfRbmfrprlrtvmqIunumQWoFKCW3JJhhpS3Jc2Cac3B8mJ5EYzZvcb4k+mFlKRS9BpDK7U1QpOIf7g4ESdmw+Kq3lJW042Gal6rGpo
+D8IycOIsBtuiE42CG7Vrd+0Sncib1OvPWjfoxCbz0GbzcFAbF4t/qbylj48+d1SMa5gpybYWC2umGrt/Y3AnA49Pa0foM5b9lNbFJ6VNjKTw+rTjgtMmqbMv
+5ulPxl9kdu2xdSku8gAEuB+Vtq9Muv1zqEQalEm1F5SWTsvXquZWoWwbOwGF4jZ7Kqfu0HJqZ4yzKXxHvacoT1mym1tJMfJsvzeuEZ/6m2PuE/a1zsxby4zb
+hePSENzpU7vHZluyoveFNaWzXq4y7pZ382A5TQrkkKEuWWqFqSw3Md1o7tWqThiuIMc1DD0KrC33nogLG46rZVoYn/TKRmKLaALvzFTYrinE7QS4NdXS1ZWn
+U8p8l0qstVacTu8Ymus7zq6ocLHsgbU1v1F1AHmqaVFa/zS6ZyLn1fDinGmWrsOrHppLmVY7pxxnEpvbRbxjlvPXVrNkG6iEVw06HHU6bQ4tFb79NzdVhsIJ
+EBW+fDfoQ/Tc/SzwsFABPGdE7zwo/i3bgWS8mNfr82OIcophptG695pq4Tib+Qg+n9nN8mZhpfzbfzBG4mN0X1+kvdkDM0knrss2UGW/2fhTpsnl3l2sipA/
+tkpDbOupZi6vDbREAdsUfkQlTlz9PufeErO+sKjuJfMEq9Clp3pi+HlV0Y408AfAGe1F0cIfj0z0x2brxJg8LUVjbIBu91oyiLdzXEURsnLgGXan5+xyRrLs
+CEHyE/1pjUyz5xodCJyJyxVz3OWvYvNcrjSOJU/xMmxTfJuh9uUv+ijlTJNYzingKMZZe/HvuWofHec4Xz9HTaOfD4w4ql7nkT4MnpX0fgzcRfXryi8xvuXx
+sOn8xBdn32AN6mulLvV9oEt+b5x+72gSlQCjSnjTm6ZNfuv/9E5TWuxBsc5+8zPHs9mf9ecfqyLRP0Otu9LgcE6/op97HtO/M+N90QXTsL7aTMOChShTPao4
+XsTmLYpwXj3K5WXkuJZsUb0p/U00Gy3wh+2tzt1ddBl85uKv/JoUFc/aJ1JJC14kwq7saDC6paFodk2iVNLEg+rwxrh06K8cfZA0JSWiikKf4242qtvopiCN
+2hCXj1c1BXjbv3ahLEVPdyrOsmNBihJYVkBpcs3wYDXTVd1mfovajSioGHDyElbDm3Tc05Q0o1BfOKzke1xXBdb1mp++2magIOZ69IorVDRXL8Xua2YRA1K9
+vFo6gRpVpw10IFU5nGO7KMsrpyEREzMEp8w/jXJniIp/njGwSl7mSVxIbEHIMuLwiYru6Yh8xbA0zqBo355zjJtQDmO9NkwIjzUyfXSW9Ek3NvOPhxQUb1qR
+okZET8xbRSuPRB9/UrXBlWXnaUkrUswKD/545VL1tLeE/yivUpZnplNYTb704EFYHOkyQjXOYgoyNdOJ1NdZMkWUimpkxQTdn3TvomUFpc+SVxldTvYsFCfP
+eKRSzLwMfGM0BAdmFLzW22jln2N2XIgw5f6zv+95xdxfzbYqvuc2aSyqWNl+974e/+zfGa5MLvDanji+RDltGao8pY3oRhFN4+xtBf57tIz5qHpZ9RStOo2e
+mK/yxeICQGbfbupTl4Xt7WDYGwXkJ26jLa9OUd79w9qTl9fMUlbzger5lrHLfIv2tWuImpnJDQlwwy98x4AgxwD7tDPu3jEY4ANOFSR/H1NnSsKyFqSPb5Ry
+ztDu43QihCuTk+kpscfie2AeSkd/tzS8uSoHr2c/SrWLu1c9m9Uu+3vs5D0pW36o3Nr7nCYKZ41E0eLGGdOwDq1DukRi5JvK44suoasJyRhTHgJQW87VNms4
+CB+3Az3yXvOyHNWM/D0yfgyf0W4FapiU5bVqG4rXhEplTBJwET1nIohpjuknOqRUmZWpzZ/fEOOMetND7JSFTqOvVFZGbVdmvMa1Dw0zq+mbxrJKmj3tEDin
+K2jahzaPrM2I7DRCVXa7T11GHb2ybgrKJH9cBq41vUXjrEuJ8p5Rf5u/Q4qbd9KR9+5tuedakYshUwop97TBj5KU1vQb7QarZdgzpHnNvEkqt+4kOqWTaPZn
+o5HBmysKdLqP3pxujzRUinK2+7a1f7iOzimJXvmu5is3Ilk3zlNV0WQ13w1xxqQ0LpPY/URFLGtrcNyx1SBliy5qVe4cFX1I79/8UmsYlDakyUijcSflooBJ
+6dMf7wbK54NvTU+uqJOngXpaVTJ2LBb0xaLgnSbiMTMImg+Y+t0JgSSSapxMu6EpxzSp9PwOJE5155ptqr11YrGzTylvcV5mdrMrE1hocjFWRT2kD2r3zB2d
+X9wy2fne1fux9/mZWZ5xpQphdIqpYxD/nyxaCXRKojnUUqz8TnNTJqG3Kh1HfIsurlVRS1xpr7hSoYXOtOf5z+tU1XP/hLXi36L+WRsHPU97mLNpzusnhcDn
+xrUhnU6nnug8fRvJNEJVJKw1asqgXyXzflFGpxMQtbRUUTWtLYm6aaU6W5ql+r5R1sfl658qq62e+v64pH66q6nz1p/TaatLt8O13qXUaOQ0VU3L1rk6xDUH
+c6gpkZ76k6Lsy03MiKaLMOzypV8MNkfiLcsUV+eboKk+q2P8yau9iuUXP1DptllbeeJhiepaufWhAa7aJcTXDyXYNEA+nWj0OKguqby+KZNefo/1t3011ZlC
+jSvv7oPuxzA1o6hVMllVzj1/lFOnmFo3YLoDqM+LggwMXKPB5hPemv6uui1uEgBxJYw2Fb0t2uoUL7NG9EpDV7xb/5TW94eR1BcjqlYSk/ziUTPJWl0Y8fUs
+/xk+jfSS6TUcQzdNWnlNC71YD7O5sRpQkD1lMrXCa0Z5DsfiiEnldYq3r3icorv+36Hseq3/Sz324OuftURtaqYbhiwkVbsYtvY1/0wEW/UmbFIDIMx9CYV6
+XGsRat9p1NZp1BR2nNBjLz3d2nRq1QIrS3VrfbOAiiVsj21b6+GLdRPCNWFaY1CwX7U32jR+Xb6y7GnpVrBqwdPVYa2s40XBN48zuOu4MYY1IJr0Nd84Rm2r
+km5E3K+qN6zoecpcYjvWQdE2NxYF36xj71kpmZGNoDv1h6vysSh+fY1ps3MalXvLvG3RA0wlfUdcVFiW/9+R2UFZXvGTXZtmsvHHB+Dl41iJ3TLMmf4fpg3U
+Umd9KLB4HCSiIAanzhKU6nDl4s67EsOd3rRrmnY+EPewHRdcZk3qLthKPdbSU7nLMPX07ZaFDqxIxRGIM7UeBWtHus7OCshj2KjxrPspFeJblmx9Pk+zv6By
+HGU5AdkNl0lyu8tVd1pefW6p1J5VlDziIKQP9ZiSGbRkq1VsygMJ62ZjLDk9XPGGFI1nuh/CQvxqiYOLK+XDFE4l4J9s1onoxsu1ZlLrw6ilvWQ4d6rjay6E
+R3mecuoCVop10UfVSOXhuq42tnva2aZjb53+Nd1sNckt9M02pd5/AeA5Tn8U25Yo0G3HaFHl99PM7wObXGZVzPxOi4cHtOimH+1ssDdd/Afr1Sd7OmR/30uW
+JoDbcD9Y7srvXC4XvXEeRZNSHjTkJ9C0e/rxpG96HP6kI/1P7HZ3R1oWRUt0w8c2F9mVgPODtFXXII652D3N61fLMIaeDs5Ji7gojtkW41V+4Xajn94YW6RD
+chrwzZk/23KR2P5sXDy40mNui2Zc10DmPBuI2fKOi2xsvya0h+v3Bo7jpcCOWRBZRvOy4K6LF27RA7fcUt+6tL0aarSQT1ZTav5h6zJxlHZkFyATBo4kkTvh
+vEz7jcjxzWlAOquTEp1lyiewQhm7+r5lPnn292m886/nm8864+RWVadD4S31uPq2hMgvGWK4VLPMJyJwKa9Y62qot7CM8rOUT2GkvwA0NQsYt9hpsl6I2aHB
+F+YHcap/8LdbaW65C9ug98/9jQaPubn7oRMgmd4keROKbsY5FYXt6IwPMDwXcO9HnJHp5XA/qjKsuCaj3z3SH+m+tn5JRO5elLd/Besp+W6rJnuUi2bAiRXc
+G13vDFBvyrfbsm9dAl97ObRu1ZvidmScRfW88d6sb7llDgKn3tb9epW9g1vc2w19detuX3j3npTHX8szX9NnptR6esNB4On70fh12tLQN/4TYD55a+m57Ffl
+8d0cd5pV/qeCecoZtTuHik7Ek0L7Mfp3sTVjmSjkP4/jqqeLFQWKd6wTM6c2zq09VfPr+z+X3/U26/Gblr9LFjcdfqtp79HpPquu77NkMWw/0uH344P5EWoq
+5vcpXX3/h28dsncMfRS949RsnvvcFfPoVV3y09j3k6XdDRx+99S8kxBUNfpdUbrTHq7+YWhGzN4VbE8piD+Yy0ZUbwKWmvpbau8zclpV/bJnvvw5TVX1+XUt
+9F4+n+Os3Pzzab1y/D9BOxamOCPdy1ui9F7+nRGWPyfdf4+PMvNjNtqTTPmvlBF/4My3j4p6+X07EpGxqvTdwKW7RgAK8o9V52CNg/ecDLvncoIlF60sFeyP
+i8nze6IPxbbAJPpuFzwoY19lpXHM8q9kVF81Cn59n5FGTSrz1y7Qn729Kc+/dq9hRVSL+fUdL4hjox4Xo+gXX/NWuirf7z1tyRGwahrbeZyapsJ++usEuzB4
+nNDAaDB8S69lAQoV+GuazhpfPeOOhWo+XY7mo6R/sOHy4z2do3NROTptcdWN0TsNeBe+W6Jsj2sVN1yGnEXx2eoxkPdUpfRjzuZG/+PDG53+UulTF3/qJsJ+
+lIlQRQT1zGGibtdbGPQyir7OBsucKveqAr6e+kyORsIs48z1cxYVqE+sLwr+wHEIrRZG1leS32sqEGZlOBTx//7QP/iOKTAX+RkJmXdNyyu9kIF72H3Etczi
+tHN5cZmZ9AAe2XYBfFEAv6tE37qmfRtfCsxXxgOa/TJjg+cvYvZ2dK9gBoEcDVMm3S/5oMXTYy76CKejyVxS6T5zl91iZe3aMZeLHcxofhEmmGDvxz2l2XAc
+dWwZAt1eZeNCqt48XZ5QfB/47R65Yhcl0naNoG5rAhX0fG4EXqtszxRCZO8722sKxVesN5S/5zNr+ntF5bKrg8ej5mYiPAEmt3a8uazcnHu8NV2GmZxD8+48
+JcUJp7KbGsZ0K45OEQ94OAV0awvPun8RzFuyWrfWF3xvMfhP9XpjdVIxPS7IyhBuixPo2hDjUoeA/vFQUo/5EN9tnu75PjIItwwwRUv/AIJGPp++xHG2pCp+
+S1U8YvTJQSyGxGx8/Snl7CykrAjkT4z8bmpHlcBPyt+RdmI/XL/2w3hK8h2oqZGlNlj0h9wXxe317sfh1+Gvs4F83PEVLN9yEZAC3fctxUcI65k1HFDXLzzT
+YJsovv7G1UdjeeFPyxLULUY/9s5umTRFgZRf+b2gAsu40b69FK3fygNkJn9D1OpI7+9dxon+flBbf0uFPcr6m32J2H5sknVE1hro1yW4NE2I1u8XISuDQlyR
+mUf4hZj+ncTJf2ENPz+/KcJ3QSS9jlfYoN+6rP0vC8vTv9j//JZ3HOAUSO7f1HS++o0RbjTHv4UBNe7IdVeS/8JNAzV9bOhq80fncqfPcZ9+mCWztUOGXzVH
+1i35c8AQJ3xBytQPRIFOSFPPE6QsRt+Mh8IuZr8KV56xyz8oT6Tkjscj3YyZ0Y7ffjzmrZ8CCu51BmbyRPl0VNi1I4jgGGNZzI6T9hnbC4vkuOy2OeX0xzak
+mXJcX8Zm7MhoWuKorQcO7d2smCnbHNepy0fhlbr8DIqLnljm4YztGi0CT73290Qn3obrrTsrd2HKqDX1z4jvfFtSm792F2XcDFKef1ejnzL/+YQY/5QLoGN9
+D/ggu6Y81lfq4fcjNh0HIMvhobGynNaY0guKIgbgu+FiljVV+KumlmNVY7/saRcftSnviCHAyATvNZ2XxRzqPHc3Z95mvaV+30XJkSHtGAcNK7PYLkMMnMFY
++uum0etIhCL69reylfGLNbMUPBd/nzjX/NIFWwsfE31Y1PBky7FVke/VE7G+xsvRlUX4vzgfxCxkft5yX9Hi31Pyf6+JC2jzigR/uoMFXNXYX/0TkyGx1Sma
+rnl+EM4BpPSaNE9rivH1Lrse12tlvSE6wfIDU9YqIcrUiMa6HgNDx+vRs3OuR3ofr0dK5tHVo/lepy6Pr1o5mzd9VXOk+NojTZ19PigF+HRbVdyr418lOZXc
+xwF7t5KK+wWd+ur8fxQ9qICa6nGyjt7o7Y+k1uhGMoGLm3Rb8/tj+2Ix3Ban1a8af9VuI41fsnafav4bY0mU+XHJuLbckYjy93iV0Zo2Odb4ADp+XhlMXZtu
+1fXrPc0nqPkBhspH5IGilteZQXtsv9+mr5hcZ72w4ycYukE17tPNlMmouCemflpfu3vYdUrRf916PA6TiLdkAnCpVid8nTBAgfeWBShx6cb7iVt4XF17/gpl
+caHoKkAOEADCrW/1zlaT+CgLerFrtiVXftd6/BMEKDuO2Tmvec18q6sJxdeKBT5PUqp8ZW5IFGCRBdiQ9+8oLyi797USdpxcRAEYAO+Udx67TkkJOEC/At/N
+WmSfWAy3hA2YvDZfi7GTUTRWYi+Hi4AXxHwaY6d585HmcJfjdkzaZCvsf7dDT+w0pNYce+plFunzvNLtFheNqsbUCApwvl7Lp2qVTaNzycCzC8fSpYkCrI5j
+4ATiQLyoesUPO6UoUVw7MiC10Lqsv6WG/AofgIv9JbWovEP8BFlMOGDv+WPBA2QaGL7Z8gGL+onLV5xC7csMJFHAL3PhzbcsMhxHJiAtsjFqvtAf2rY3Dtp6
+gpPGSDFJMV6QjeqV/XbLeRll0Rn7U1zdihrfoA/HOhzwFg6obsklH+UGrummfTXu7FLO6mHlLevrhKyxPjXRftrUVNZSth/nniZIgv2VKIGsAD4FVeuotN0+
+9smya/wJ2bD/j7dmt3DpPSXTB3EwRQDveGZMwOCEh2F1Zap+QTW9ozyuu4sUmn/oFW2+wSQw5P4+mHUKpHyfHxcoeKw4FMp0i7gym+1SR5bLK4eBxt/XtOzG
+xTuO5/TwTk+kmvOElW5u/TI7QgjK0l9T7s0Bsz/BA5sXCQTNxYbDDu2gN+sATRhb4sKRptOLwcc7Pq3UUnT3yK2iyB5H1NTZx08erS6EAnp5DZqH9pXGt2PY
+dAGHTNEHnM2W3xSMYRJn6GCCnwtwYVokEFoPlMrKLctrtOED6zSxAWkYfAW8sNsJbnu4gSzQ2xlywD9MqiaGCccbbuYk/RAtCN/QKHYyjcvJodIwJRWB1mqI
+XZhFRS0MN6B631l83cg9/kHUuegNU9dT3is3ioJpLMqBK+IAFkuI5jefraDvmjXX05IzWAEcHuV4WUhMkMLj1+wB0JTEEeC3aVpNtEfpj5gkRAIR20rIbNS4
+JOs7zhjZ0pH6UH+jnRllJEQ8alyRCC+wNliaDsBzLhqanzEUL7qOow5gChQwoqrXGEgrGcrxKXvCEd++qVlPQ8FzPcYrNMxD7JiDZNAhXRgGw3iSj8CebjDK
+fIA4HMpZZ3Hc2c8H2ABT5vhC54Ruwgdx2OLkfWTEYYnaadrxH49rPU4XTRyi240jyTtrKIXmnvWO7FifM4cSf3JxiY+MxJ6O0XxFLzlRc4LwHFeDqm49F+zO
+2CNhenpujOo6BrHvKNwx2GjpWC73MGT50P+64Z8TBYdHbAeRhx2aHotyAYrvIgE1rmRRXjUu7+c6dMTqn8/1ocHHGWvkd/IQyRK0OXHOqFy6ofnGQp225d5h
+6luU+fXmb8eLiUtszJsDk/M8xYgEIkKN3XkuGZxppfXasSU+UVCzY3SuTzzuLOliPoE1ZM/znOf6N5vyPN3hRuJLTyUNGv+IiW81iY6RrjmQxcQAlhKQnsdM
+XZVM2qr8rLGrSVPoW8/4AsoiVRqcw3MnKwyQP0vRMKl9bb/d5TyBircW4klLPEsuwZ05xLVwL/tdBKYoyNLIXNRBH5pzWY9OTRzYhaS9eQcuvhDFepzkMbDg
+pmwYwQJepJX52qcZqPn4S9OhfP3yGKeS2Ab8Rf9KyYcmd5HYxD3pH+UHzS+AAw5FtAcUxZXXc0EHGkX8TI9H0/wcq4M4HW7CFzHWk8ZAn60j7+n450xVDJnT
+jNqMLH/EFE5znGx1SNYiGUJIi/+qVxiKaTfkEMJCAf9RUZTDbnbUorzTHN2t3w7c4pR9m6hKSRx2eHBM39LM/LgLVhxcERHkTa6pGI9AViEC8rsMhQIEiuGt
+V3r3U882kjLF/xxZCWTUD/2pKLe0T//K7aOGYPm05hoGTuqJavCoHHPipX4kzVHEQPDxA2yi5scoOd11MmfbJzASoMh5S6mPkyyEQVyn9i9BjheTVKeWduLw
+RbIErXsIpP86mIemvziwa4Zu8CpFmuHA1vKtiZ90m+hItBpvi/R25/LKvmxO2pxa+su3OU3cJ/qQUcz5SUwxiyL92zs/kxwWRfIEWM+e5jeAi7ZuMTh9depD
+c7zT9NSCAXU6W0Y0hPbsAidOFAJ+2Js9TZrzRTGaGwHzUZI0+TbpSXhYpAKcj1idd4si/dJdtIKcakXGY8+/puU5nsJeXE5ckV5CH1jJxmXyLePxTld3JppP
+zJf73AXX+qp/qEYSKYbAahseUctteImuATt9z4B61Yc8St6AYQY4yA1P9/wyw5Dv9j078P7c5ImoJW3iUO1U3jNACLktJx13Y5t4UMm+4SltqDRjZ+d0x/i4
+YOXXZTFIoiT3YzRuaQgfTdt80SCeTb7iqmM7UD13ctLzyQueTjG022gC5ET29Ion7TyREUmUqyLokxkQlASvnEyhji0YWXGRmyXQNDx/JiACHbLr7X50Q/fd
+lPmyn10dZJ71B+/ZlaUw9jxIEg7wTMYz4QMaUvK4c5HhlAo+FmjPcCMnHN6XaDs1ePeXxjoVvwl2YdTjfxz+4BmuAycgInKhGpWiyI68pjSA908DY1PLKoOZ
+dvOkNPw49xgjgx+a370wv1Lu77aLmrTnD/NKkITOLzWYE/dNdBJLUia4116o0ZoW5rt+lNszUxeDtunp45B6xPZRRE6++AutXZlI3Coj818QKAOUyeriSFEP
+gB2184ylao6akIozO/QXnW0oQwIpBZY3zm2khQaEldPAyOs+DRjNx2sw1/1p5glQstT+6Vz9h7WGz/S4YEHPTC9swwcrJ0Hbj9P/H/pp8XswDf4pCZ+IHX/i
+V1mLKErh1um71BHVnLl5f/53RLsdu96V9A8OLm/MO95TH0a+s214M9sonQLVG5Vb+tffC/LPt3N670LQhGzKm5XLF032K/3d10/d8i1fa/TgX2vnQ2JwdNy1
+tGeQJMHCGZEoCxb3Ehzt/rV5j/2S+fP9hk+aVQq+suv38sr+mpIemVa1bS+nDQx3fvV0vSgn81eppG/VS5HAixa2irEkXwD24skF1+IZQKUaSRe1W9s+gi7q
+oV7TTTf9BHMmZagUNcvv0fGaMuLohQPYLemXpRsmwr6YCAb7suQdut69OuEV5YC0+YVJKnvRNcRXtOndQd/hFq76XyvCl4GN2Pgb8s6cSydfHNxAwNyIoIB0
+SfKlas6vgEEZtSRqfqlkafHLP6dfPshL9PqnR+It9OLwy9/c5hEXtTOLDa9i8xIFXvm+Vck5gFcZfPlne8165q9352qf9P7hVNq4aZ/PhpHjU7rnqVuwMGGc
+uY4Tl3o8e1Xrrm+dkxqfhwno5Tp9qZcYsbx/nkLLbNnMoC5J4T81An5Gg3fDQl97j7QWeFakb8/q6u6z+Ada2EXqhIQuKZT1lJQLoJI+++mxHw9sycssDHd9
+yL0Y4h21sVvu2wmnJBY2PfnTmh9M2UpbHwnCJCqcfMyzqhn4g2XmvdfHVi+9euou/ydWEtd09c+QBqpap+Dvn1NNUZ0kbJyE1wbPyzfqyOhoHVqyHSxWs62s
+vbuaxFK6jodHZqHsb5fFd/lTLE1BP+K44BZLTCWK8jERAH5JlMbOPjXAl7UHzfUEdnGaQVZGPcXePm7/JRIDLnEWimFotLdHM68mKhPgC8LB2BZzCXd91VEw
+4cHfRGsqC/37dMT/zaZgl6IiZD7Zl6YlXdTvqjBiSDkzpUJCAEainD2TMQEQfLGVN4OPGWVe/iX6sn5kY+oW71kfxATgWws+E8MZrjp7rQYGxHXHbADBHyaf
+J4CY3H3F5eRdmckZg3/FQGA07s/SXYV3rsqY/C8yxnuKBjInoBkLAGtzkrr4xDlyfU8/2xuNEbwNEwY3Skwu02UeXC4DAMqbnR8lnvXPuGBA3+wmRWyOlrYD
+t3t4BbZgEtrR5eSIdR+K9nI7iBrZGH0elEObhW/uojcPDfnlU7qbI63OnNTN2G/LEJgQkLgN+6sTNi4SbPujHHMiNlsiNmzvdxMIDMHbdtJzhVzQWsb26iLt
+tvcEgPr85gnkmxookMkCTodH5Z6gTk5WZ5lPocmFrDBrQHf3/RxH/T9KR+1CNUcPU6IPtyaIM1tEA9/N46knoyNz4qVjezDF0xkc8yONGTjoakUlgxge9Iy2
+R30LSDx6mxCVGJYxmQKWM0Dv1L6T8Tc+1uRzvixC9J/Ab17s/Xaoddia2DUO7M00c5gd2Jsl/3pvHlUIUYF45iakw/ZCekPLi2T8uku0kZvFzQKkY2k9xmdb
+BKswK93u/olerN3jDX0SiMEd231MTRPimb4QxOxceBT4+mdvYrs1qagoAHawVSP/IH5fWJ0XP+b0HS5szNmYh8BxBC0RbSSaa2IRpsRjqBSKXG3qQQmuxm2a
+8m59BnsjPQvix2ji6O1yAQHryaACqCeKejZldotG1QkfbMPYuErevfvBTQB/YH9a5ihsFj5+MtoJHqjb/o8s25mOQAtr5cv+5O895iZ+iWjIOd3i0iIi4yWG
+343JUbIO3F39WEfoYlCCNuBbru9sXjNBfpYEgE6xGa9kUNSabolbHaYnjznp2R8dJAIP3BsxomN6b8uafy0uwmYkQuvMTyY5Wr0mNBMdk08HeI7llvhO/SI9
+35gDnSWAdWi4yEK4fFMRaly2M/viPObeo/xTNfVbcj1HD4MA8fkSR9HHv/ZnzYevPaf8KSMV9r/shAxPWC+SRPX7k4r0JM9U6tBf3aSBuAo5qbChMdnKP38t
+wr+AbHAJ4ebm8GuTvlk5XktmGugQuilRJGWhvS3IIpPqibP47F1DQj42RFEm3gSIcQD1+FKY/wLwtIxI6DkKHDDxucXq4pJnq1vqXs1LGA4jQEpvUphr8+/E
+GRz7+JTO2b5a2xVEpUr1XAhN2I1VwMhbC//j0mB5gHeOgRHDSkNkwSTd+p3lFeKJEeSKk/HdUARifte2KfEgRrB6c0qYp0knRjnwWksGXUOFiQCZikHAJzdi
+H8vGNDvyTKkJ+pDEF0UZNpieWyI+6C2qgQ85/MEYpUn5iPfUtWNfRhtn8IKhDJd8fjVUYmL1zAQGyB9JuGrl7ivGcYH9PxW7aMie0uhrHeuLRIY2Qes8E9q5
+bxk7Ue9/vqBRd2ySE81APywBR+nE50rG1pwJDrS1aICIeHCpOgqjQ6OcLhnkIDKdlLrrJVF1Sj16jA82g3EOb6Y7iXUYEQutMherTh9QEr8Uzj9IAvGEe/KH
+Vo4s5ck9ilcj5SCFJgMgEprChF8SaOTxV+L+okktdgnX+BwL4Q9VxXWUv4VtFQJ6C/l84v+u7dADz0mIn7/Z3we+cA8SarWDAOZh6ebhpBbJEMyzkQnhBGVU
+jprhEGRXWZCR/cBvGnwmyjJnaISr1w+OWxMgQEYcODzimB2JgHo4u/loq0Eej/bgYHm0ptUHF6UBtuPROi50fnPvjYmBR5P1OZ4TxPLDkXfs5KepEoztHpNY
+y/RdiXmgnpK+s2ZUROYxwPtICP11DA1JqiZEYLYRHSPqzsw9LtDaD3/Ah+2r3yBbWsmg8xcMWlPxsVkvFtFDeuQ8GoDQlgTQmpEOaTccJfNRwkBsjYcQ34ye
+zJhZD7Fzy+eesQyoJxdDHaILJONTDHfIdIw4e6CA1rNj6kfx0LEcJH8ePpfpTrpF0d2esob4ydeJQRsvs5hKS8Wnz3cncEGcpSEYhiy3/JPwkWMsUyMwaTY9
+gl3dPAKhg/J8itMtcaBjun+jI1xEiq7TASDkQkzbjECgtrbPDyuhoEBObuPf00yijAvgOzZ6XbQYIOw/zRS56KW09K2IztrFVyHDyw/CxT02v7HnDbK4JU90
+LGyJtBijkWj2LX4aBqjwTKp8vtES8fzkVFr8OhsZF3HEskm/sujvxbdmFU8Gyjg7bFOj5Wyn9S2FRDsG2PPWTWF5awcQhTfsSy4HkNChl8DCuRLHCfFU3rI7
+HKWGBwtrleRZxLGxNPGohbHFkqYJ6i6W2AvZL1/aGaJ9aVyWyb3Q82dRcO61n4xsc4WtVFkj1hAz+ILiOGnqaeRFXFW4PFJFpQdM5HBzMVzYAnToDEZ0bc5a
+kX3xcwemgw5yMHjX5lPQ5UgE5YjuWyV5ALfpQlLAQUsJ5ROVwS3xAkf81LGBJDiWM32lqMRBDTyTdvp3h9j39hbaca7GgAxwjeb0ehSA2mBDk1wQC/N37Dvr
+2XIw/uKdQJiZGMZfHGtHgz7QQMxhgv2wXAr0w6dj+fhOBqaMxrR7ttPrl5W/T57ICQLtEDDMEGnUCAp0mmR9Fo39rAH5LJ0HWjpXSA0xtWhSnwC8M8fEHAF9
++5r40PyqkkP/5Ww4ULxPt+jFJDbEB8guvska0aG4E5UYZ2nSSnWD4TFp4zklMxTjjD9kiI0d0TvUozcNSYCmgssSM1rIVIhzKrpeOMbd00LmLg25ZVwHWE6d
+M35KcHYwwMOH6XzN45BtwxnhBH2vfmpfX5CHeUdplfNLMcD9zEhQnAVbxdguwL8UReDn7oVRyqjAC43oJTYho0lsMmo5TCLIg6jF0ZrxilaqsxTGfGQGA/DR
+ygg3a/ULH61W1oSR1juciwxSTQCJIYK5HixsvjPTo78cItYoSya0lM/HvI6PcNBHS/EYPdqi3l09uufs7B1wA8yobJ0i6jgRYtIkiJJcK1uCQ5MPZOmlWWbW
+SlTKNZGiD6tJUWpkDWLkt6Q0AOTj9YD17HzY3ddbmc0kDUSNllkgkkymvZkIMiWQ1FNDzu1uMeUBhMFXAk+rfsR31td95PLpBNIubMUMsgATB/D+JZMMDmkG
+m8z3a4JNWnUYHJJ5H1zXjA/p+7Dnr2Yl8aUv9zWBRyXTNZkbMiGoAl7ik13b8eZ0SKHFvdRErYa3P8RwVD9gQlKD3et7OS8u9Ys55dspqzeFJHeUkTrlfGWk
+8DO/WcdFCj5TMLlC2shuQIiH4nzcor84H0Pt4SHTQACJMSTtNZjv4QVRJqqnd7QtiSgSQpw4SDpK7MhrL4W8UHvYWYeXyheR0mUSZXMxixrSjRjPRxUVxNyR
+qqsHQIwrMa3X6ph+3BfQmp4N1mlanFvnvPhOFiCdmelbZmSI4gZ0p1fTQej5zGrFZibsne6y1gFFQkQknsC1olfL/qrOR0tfVXrzM2kL1RwRRwqzAmv8oHmO
+cwVzSgglp9oiXDXuU6+YLgLaQnHPhw3vDCMZCDOm/GaP1POcb+YbJ/VVi8KhuQd8z1AZMyPmufyTlErPHcgsNpiWkMZSno0nMV1zZDlUs0x8jqGzhpVklsk+
+enc0riSxJcU1ZteMpe5ErtYV+QAVw2HiyJyMMJlxRohh1WeaW8JYcem9y3CtWiNQg3UWyIBLQ+oi19XTSvyhUK3McTXNUJVbfEaDTE6xGeXIcq7Eia68EEB9
+8YfLXPPbJKJ2WmVpMKrpuM3h14T2ciB9O+a/MJLjN/p7t6OOC6zScYqfkjvWz9dECxBsBPkCG4rRyXRrVmZjT9S63taMN7jhbK+Idc062y2TUZIzWlNZak0g
+CjNztotMWLJAMbaDfR7JSKErc2sqGW5Nr5BbezAIh/wyiSTXcKOA8dJg/9bGpaNfD1mwukxXXkYMDAlVkmKnQxDsle+6SLhEUZ1sSjYMJKylLeYH+mvKDJg5
+W2QjVbhemKoiDVaSx5qku1a6Dzfn73q7SYZKzYSVHHKCjEmHuRZ0kwG8ZdrKqQ326hk4PGlD4jtn7Not413kHm4mNd30PHyWORkxUlBYLIxR1s0UCQqwsMfu
+1jsqqFRc2/fNrcgao6m6JqL1Ecj6fFmuVzHKFezLUJyyHcl8ua+LyRqwX9+n9651VHTEvpkQYfwKfbkbK3VQX5m5MmYcyzwn/bVw72jIi1hKxqysxqxgtvF7
+xK/jbUZoW5SsePweFf+W38M8pl9mH36Pn9/GBG+Ml3/bol4mSnitJtLVTkmDXbHW/q3VHJbfcsbf+ee3vL6L7b/5zeC9zIH6lZqhuH35r8VN1s+379Ny2v63
+nGhzfyZGy9PToZ0mZbk2HN1VrWUmUo+8xpCU6x8gxE540bQfD47pVrVy/YtVGN+JdP3z4oAHE7keh9hP2vg7C82tLq8ej3s3lBylc7B5wEXxxx6eMBnKWDCx
+hM5OfCl852N4jHZoZODqZNvIoAF4a2M4gnrJSJfOGcUHAqtq6kx+vuZKEGM+dU58LC6b+uMmNNbXQ7zx5cY6PtXG/rLkPHPejG3IFx6gtZrXi5G9CzMmEEbI
+8Th1M/gYVnzyFaaF85ffcfwmuoj/xRXyI0YGnTnGlTLTXa4c+lFWGJAMe/lBsEk/Y6w9ycVwBlbYxlsmDcGV6S3bZ4etXGGokO8b7TqmQnVMLhlirHtrUZ1k
+yHyreUigzRQksl/y9adL8mpMDvHnq6RWJVqZu0/51060RGWbJ/CuTxZv1siioLc/ltdTwOwFXMbnFe968ulVJQGYEdQEZ7Zk9g50xSxntvRsmLyJNT4RzVMi
+Z7eMiR7Tkxb2zBtc6ZmYjfP7U019gTPSnPoqPoYI9CeDrXISHviMKwu6POQmmRNDCswy53tNgxEwdFNIgRFK4/HDJLETlTKIqOWpUk61nn6ux/tuEgwdxbfZ
+MJwDZMDIq80962XKSCUqJ9vlqBlJcmDcvw6JsPECRIEcZymig/eGHfu8T194DJHPDY6NS4f9wqjHeDLRtrT1u/5neXXFhHswYybHJFHjKc46UxinERVjzbYE
+4uwIXnPuFxjOiWr7D+4qyTYHlcm4peAr6nJnGpVHl9p8lQaGR6RMsmgrANu65au0NeddQdpyBE0NdpZy7reBGBN7G7PCDy7ltnyxuXn4+qpQx+/3ypR8Umyr
++sprurjx/Orl/dpOIm+nart4zRyf6NLGV5h1MTC8phldEwM3HtINhq/TsYmjrZ1iMyzumr1taDa/+RR7owGI0Z5Jw1VnY6+1W0xfOZ0lzuj++4714QtyaYH7
+ycSaOwDaF8kBT5NIO50Monn7hKIm5lrMHRE+wwrhoNZR/SvfARBHGK0JoYGpLeYOSS9di4GwTFiZYjNPH9/id2A7xn7JY4sAvGvG0IieYStvJo1il8saQxMm
+AQmhseWQQNssVoAS8LLNbU0c8ZJ2X3Jm6QBkjOEFmKAXhMQ4UWcRgyTLAkK2mTNT5cgWE2ZYUMxMGdJg+uzOJfOs//iwenGN/DJlrMs0P3jszIzKZaqdM+st
+J9xYfa9GxyxVpJcQmZoZMt5v1MlFS8OL3sFRSI1MWRE6O492pC+pTb2UY1u8RF1sI0mSYTekmvTiKH42kSb2jov2UePazXKF6BmGI/ErX8pVJ6ELq6A/9Z8T
+YfUlW4WUn0tN5dyOCgE1SB2cYuqdSPNqXIevCZ1te/kGvigvqduDsxH6HXs43BljR3wgvDJN5sHicmxpx+qyv7A1MKEGosy8mLkXXLecparpt8eyr8CYaTc6
+1XHyJSfWfaBd66pX/ZSZlkrIDYK1fmeEGcDMX9KNpYYKUrf9RCtInMqb8c0A3DBodzcceoANub4+HNoTDce39zAcAGqDIpSBgcSAFyzI2MWmfzj66x7ntT78
+A/kEWbCd3BbCbVhV/EHvGl2JIQY69vCG9m/HwcnUm8nwGxLzwMgq1Jg5JkNOAwzaGw1fnmyriZWd8oswlwBX9uHxC+4GQ+u+nlSuDD2HNgquJZ9O6RV+wEWc
+babQTJhADtOV8D/Yrr/0mCkn5ofJxdUhHYzjHCjrIvP1dsvuBABLG3CrbJ1EGDwCicShDxxjWMykuUoMBAvwfHoFUmK+DJDXAz8tyDCFmoPya/ZAD/Kh4Bn3
+aTXVEmAMv3pxNGbm8NmzVgXDrk6tROWSFlLozA6trQTI7BlQnt/SYh7WUdkMI6qg2kBbVMpFakwQr9JiPB6+Bjmrmx9VBqMH7BDhc/K109k4ymjyB7yNYsgy
+wBCDgTn5a77OFn2oqJzefUcKP/OQGLbOhu0gTYxCxqyMvNjsEj4VJPZCdkkuFim46LfA9fndyvnA0HOIc5AL8/nz/pDA068u5+zxnw9W0xKrOZZ0SjiLl5xB
+fB4Wk+mz58M0ifMxJDrGqOl8nA/DdA7DdvKJ3UnzbKtrVI/BPUzXy32xGv4WOeOiSZmBPWajrJpZnVexgbMkruE91dgellaAvDINpnlJBFFzOt7ql5Anwmcf
+ky870E/uAmwQRw0BXmyXwwyelUkFQTbje/hWSAWBpzolFoe6QTBtQf5HkfcuKZYm2+ebcKSekLsI1Gn3GWqNDG/pNUCntD9jaSjjhmZFWKxaZAoeqT5+k+Sw
+EEdVqTY+HB2BM685JxIUJX+dTTGixCb77MhgeTDFL9mWmT/LoHkp1a5RwrDLp9d0SZN68yoF7MYDps55TZgvUjbayTg/yNVNgK2pFaz/7xbJP5nRicRmNRto
+BmWrkGhxZud+H+tXR5csG7lQjn9uPz2i3HggnMt2g4FWVJyUze1VqJDef75G+eZ6RvViMlJcyo84V85EpZ0rFFhcxzK4J6G32UvtGYMm4TWync+l83E7F80i
+AZf8256oGQ5hrZf5yHXNR6yZK1U8SADd2K0Cbu9k4wB/zjYOPOyBbuOchttRYPj14yrF2TLz7rFfFHB7ZKDR/dG2fDe6oG3Lym/JUtv+Myo272AZwNLko+85
+UrCHPRdJ3BjlWDPxCKesn9NBKNfJbm9scyBxgiIiOQWwrbsrnVyIflsmtwasENsbuOsp7VO9Q+uLUwzE9A0ieihZuIkZTHOHSkYMeOPKc7zIw8etAkvHMJoj
+AyNHCVMAFjc6GS4PVxJPO9IQ1Hb52mG57JNFN+fVcblrQm+tx6JEzXddHYF4m18uw4uajedpnT4HeuWTKO1Jp17NOU4pG4CjuSZRRuc335lVgUSLCMDDDIHa
+k3wYMuB6/ExOfFJ8Ubt5+z5r2l2mOa35ucq783OM876AXYJ1LYslubrRe0/NB59O0nKf5N3eEnMZMdXeNwG2npf0yiylXfANPUsidlmI2SUu2DbnoJBD5xNX
+gTeNM6LolGFbkuRbEr6TLYttnBbcTH0Bpa+o19QpZ2VP4laZZNXiSsgR0GIwHturXqmn5hrUKd1rTy26aI0so8ZeaB3kU7cid2eiks1z7Agjl4loknOczQ9i
+ANFTl9ThWDPB8eSvLXlw+iZqxMCC+1zPPBncyh4VOTiqwU7TNX8/pVs8U8n9iQxbTtATSphc5zmxljLXTuv1u2hZpO92xXBweW77jI+AntlMTngC4iW+F2XN
+TKabAODCzx9bFgCi9KtUVpb4tVBrCtjho3Vy9uiErx2nXU7BW8yieqY8nW/ZZabGU9Aq+75csNnK5MmdVuwHdkv5t49rYCd2uhFM0WsAkCMbA+AuD79oYRsY
+XIdG4e5MY8oDJZ14M3wqFawtK3Cq0eQuPvaWOZ1mPbEdSmY1pU8jpQ+TTy3LZfJ97yePUC1leNB8z3ynWVJwvvk3Rk5T0nrz0B8/OK2KAzAPnAQPnXE4FV8I
+HxeKRAbzuGSaB8qP44vSAx7o76e8TQll1ap4ehodtlCkPqEcfTqhpDlSQeKtaWfZbq9E+nDYhvFrc1ZA2rzIJkfuy0YPlytQWSQyKA9vouCdshTmA99T1tR6
+haKYNGcgJGFQDy6GBZEGxcRd1aSnfGlE0PyF7CC2LXMzce0idKSgU6B38aNXXWweSLO4lOGnRQUYEotGXuX24Iv0cWCZmuyeutJyfdcs12r8Ax3h6WbhT1/O
+SNKB80zvij3wlGE8HfF/rdQwbxLyQjoy/HxeaYzxgXj4+RzOVnyOuzj855gPnD4/MYq7QfGxYz/Rwnu5/Ex9ReyjmZ+IHqsTM+xeI2HqGxp1JLd3T/OuD/Mt
+8ervYzsuP+/9MCfu3QyMikvmG4dsP8e7ahXyjhHEu2z0xN9gGG/seyDzGH+8y7lTe+dOQP+T0mOF9YWI6JWW+p7VgmQwWFxQqRSxvBUDpRdd4zz3X1089XL2
+rl2s9Cvty3m7pPuG/qhZbvrVfr8ywaietcV8GfP6mtvQHfte07+9Qsj5YTJNKtru+88rZwxenV3DwHbtvm9d3/9irUyQr6+Dv9TGmVl1afKArBGsGTzlAZAg
+XwZV8U43huivzntQguxd/8usIrb0Nbm6AK+XiVqjkVp+1KgmjEfF6Q5qdI0frf/dV6Z0HNLvO5F+Btgn0edMDTuuSqTcrBRTsNb9byn/Fe+ZIVosb4jf5WWt
+eyu9ZPNfXHwmZ6Fedag6+LxY9YbTk2R4RZugKx5BVmygx2T/5t0UL3cyUecGWGV/Jmo3pjIpWIl/OWn4KnxZCpJKOMAS8Y/i+2OWq0MWAjrmn+fxzgP5eTCy
+embe+fPoh/cz46YJt9I1nUr3DXu2aImudYOwenYXs+dsVpag73PaHbNADYIlPCdVQ1GwCEAcVgH/S5vXpyzokMDgw16U1QzK8mm+pHFTLGSt6NqpxoH2hhM0
+HCB6r2xcrHqqPyWf3Cyr9kwwr62JDS7zIXE31g701fXVWAfowB7zYlmPhxzP74OWU9uy5iGYEVjifHNqfYD4eu5WJm4zOSDeWOaE/GBgIPq8IcpY7C2ymkEg
+FgY7OzwfoaS3n2Nxz+OvZF6WcvXmbNKR64qMlnZZoh3XlIzRKs4cRV9+cd0triyxN/xFzLoCykDk+5D4M1MrvSiilMEjwZxt9B8saMBQQu7Ep9SXt5hiZvqb
+h9c0LCRdqyrN2O0kr5T/2By7tODVrQCh+M/eHfn2aJbmpAfj+OK3N25rSdP12PAQ0jqapVevvSmu3hNaFiGDICTUYFcfuxO5sosP9aN/nx60oKRtMUfds62m
+e/y/yuclVLeP7x73bv6WW9K3XHrfnSotQ2cRfYWRqTKJQ0K/fKcxP4KLjxCJk3tjrKfM6rIHRbiBKOKLyeS9HgDn0e13TzADfko6subQdq/fuGPGwDyEfc9l
+cf9O3O7RFc+1eYJVARH3Ap64jc7Z7V7J9jRIIlxKLeoe1+jocexGxuzFC+VeYIQ+72HuwOGndQixiQ1GA8afqGRCTzRuBQrRAKBsxChVUcveHFrPbsfqqhwl
+mwFqhRSZhYlEacS9B4bJcxE2AZs4ia0cl0u2fttxAr17nw0DG6r034HJkCFeB0iR4WCdSkRRawTY3hO5VnO/rZjllXzKJpazR6e5mBsIntg+x83KUDL165GJ
+Ya3jf+Q9UtTkBRvfOHOVxBh9f5QD4mh7T5vaEfJ3HmyfrgkrMk6ZzB0zGZMTN5qCI0HGo2eKHZJ2e33sefux9B9I+DHfLl3gMmksI5z2XFtm6C9IWYs7Khez
+4B2xZyJ9jHcvG9FaO7PNbO+dg5TtojXXY4lav0xQzUCyw0casMb1JXe+V5oozqPJcP87yrBmHNnqWbhl7ZrzEpCTVwBHTCGNydweHdWj/NKPvFN7EgpMKhmT
+3XEGg0IytivJRFpcXOsCiYSHhJprhMDDO47QkAzKt4UJV9PIGG5DNLIcINko51iljEQa+SBz+yMa21PP483UlbxLNC/6WavjmKjdMoyMvqnxY3uSiWngsoEf
+sM0bJDYsvSxW7rG7eeIsgZ3JZFfwxQsXmm3KHLXx4CN/2dQxf88oREtHbFrZFsPH9NBOMpGtaWNT/hAjHYeML8sDdazzUyCS44gfbUTuyEwjHON5bcKRwNBy
+i5oLZ2IZMRQgZ2Pij5mzEpdjD6f6vhQ/qXaMWzR54rN11UQw4yuaxCN/fUQ33+YlWglIxczmMk0NwpGZnA1zROLcojTx7LolBWkAYZ1YL97okGXiWQ9q2lz/
+2vYcYnQTvY1zRLYRUyKKtG2ICvFElCbcIerFsJrKPLSMBHtN904a0nH9YpG9RJNG5lnsou7zzS0WezLrLHPIorF6dkJyOn2ZyfsjS13atnxc+ZKU7Y9bZPdn
+mdlmreaRnJFoX+SRuhTltN86Msmam6qNTEdzNqWDySwXoMtLWpRbGZuW6YdROU3yk4lM2nOyPH1L+cnj/sdWRh+s45VGFW8EuYtKW6niIBvdB+DKrQpEHrKd
+ygNqIpXnjDmLNh088iNNmXcte05SW/ve0xPDNk2CBCqftHJ6OXCpo3LqFfCFs3/MqHmeFkdZNX9t3tKWBP7SxDZyxvls1wQviTrwM9peFllbuqu0pqU6DtrK
+MP0PCBPPF1jMGdZqfV8ns9K2cTZijcV0Zv4ntyKYlwsLJlGh8xVbcuiBMJlOopyWBDOJC4vLImClFYfqq7N263H+RrN5TVhpKwQVkY0tvKWM5qdfWKKWq5sI
+63gYNmCgnctWMk086kPJT9Kipwn9iAWrhOc3LFnIs5LVtgkutk0FC+XCwg/w5urrRs8m30aHl7X9Vh4+GUKxNjSGazMHreEfbdzb1Rce0nMwKr3zFrWSWwlR
+pMAQoqq1JUZ5kRM9J4PmTt/90IqMZ3z0lqFwj0ef86Na41L/k9crjCGcC8rzb81GfM3ruStR9iLWZBQgSX/svmyCo5kYdx77czNej6XGdfSyHKMQHum0NPFw
+jW21PqTT9JqAKLtJL1hlXpCjX/2Vdbe0DFb8hHW6bMtbnraO0i56ymPC7eiQVDn0LWvyz3ClBuNp/7VaJoTKjDGxZFkr/Iklq4zOq2VbepmFXwELLpxb5yRN
+88gs30g6371sD4jT2Gub5CkT0aTQ8ZT7UARRc68RQkc+J5gpf51IsjNtbfX8gxrknEChhMjaAyTtB3kOM452YZj/YpXof04dr/QDqMeH/B8dLoGDqNmrJbMO
+OnUxh86p2gcpPnGVQlUcpQwhf41zmfiyOFGFDsWfW0bTbfKpQp2rmSeJo2ZeXT66vOafb5ZrlFM87ufB6iukqnkpj2ZWGhMZq7hqFVDt+XUikdpssF28k5CY
+B1agq1lRVt2yOWNCXTu/eq+kyDU8sw4RVl4b9Sk5doatMex3OvsRp1yOPB9cOOLRs4FCD5NWvsl2/SyJ+uQ9Oa3zYJ+pMH5M30SsqLEuCJqL+jyR2HgBAVgG
+NA+S4l8W1Uw8v/GkKPOhiId74bV42bx8PyY/9NSJVnMfCcljtVdqlp8ELROPuhST6z4fFgeTjf0Pjs2Xr9jDwMSec5AafSrXMSk5ZaNsPU+PGVLC9Bb/muhu
+lHPSs4TrHbNA7dRp2n9ZcKzEWT1nTh9+/nC1Hzb2sqLE7eedzK1/JHuFoqdAsoB+8138nUzJfdRTdhMfTnc94jBzKvCh2BC+OK3Uo+Dgr4njmjgVhYdq0S8B
+Glc7SrC0b7Ebzpe3MhyRkuesVwP8zmwfrO1J5aLm2UV3UW8s/nUR/V0G3/HOjwPxGx3s/RDtvSfBe2yG/HEE9PS/a77hX2ZY+2RK37OP/2mX0vemYZEZvx+T
+LavcKpFJELsVWWj5QSAdL7CqnmjrXU+Atsbu7C+9Xgln3ovRfyCy0QYmGhztinRUQ7yFQpdkNjQwnx+T2tq9jQfOYPC87f5H9cZBREBglTUxRDJOi9RutRsH
+Q+N9L5e/Gcjm/CQkr1c+YgF/Gl5CQrefA/6WV12+45Vo7dqW8X4JpDAhZpxfI7mcB4g7uL64pA/28ttux88yfZiOWqZXxv3FpoMRi0KJZboTGBhtsfM5i55r
+Cd82E/7o4SyTS3rk/GFqR7m3l7l/dFSiYA7NBHq/Qj0UoEapCs5Zhbi1Oe27eElc6q8fok4GKC69Z29ViDWumAO4b5JuyxePWMqzxWM4AVD4vb3L+Gs4XRIM
+C6t7sb1lOKDM7+HJDrab553Zb8Cax2oUkOmAQhHQvJNQ7/DKyXDIXp8C7YSrb+9RR5V5Z/Dh+VzEJQ/nTMCDz6j378hp7EXd0dAA45qp1mK0xA2waihUrJTI
+VYLr/eb4mWDFEqOWl/fE30wWTIpZPtg/GJ1BCaXL4aAQWkPY30wXjDPDGME9708JVFT6R1uwzzTPu1j6siN/qePqi3a30XsbEBTn+zM5EFsz87iNfO7OQUzO
+YBkzTJDuO1yxrY5+7dC9Kda8T3dvuZ4QxWlNTDlX2QgVnMuvB2XUoxH5uVcv5/e6J42b7idRwkvHVdUF2Uwb/Paj4hY9Rb531YUHuDeGksn+NoMFEwzmsL4b
+hyr16wOZICJM0IP5Xq+0BTz4mgRuzT7XvXY62NYkfn5m8e7ZAbvXXEO692e4oGgY4RXQt4eY3lOHBP8bLcpjszY5HXs/X2XmJHavHcY8X8ceOciMLICvzRFB
+g05iWznfEv4lQ3LsmYMd7oW4zHvKZc5HffnkcyYWlmPmCD3z69YeRAj/+WauDkrVjm4U9wwT7AB41EYp1323D2ylTMn7lsRZWXHpaSeZJJgnWTErXa7XHxnX
+RNj7nwzGnj6ZJrj+hQomtfvf8xEEWiTHurakhVG5W2Z+YowOeg4hW8TVFIwbOtorzLueOGGw/Om5hFezAun8xem5rskQcaZ25nfLwkTCDgB/o2uNM/Ij3f3+
+c5Mbjv1Fp6PPTN3jSB/XzEL87cGE/SwpkhpwvCxhbQYS8jpnB+aSue1sQOF4mHOIV5IPGBMORtpFiVn//GZeen6fkvjUm15yN/ldhqtRif4TAG9GZMHwvuKg
+mKNN69rHub3J/4uLsu4SMLyTcVl74rwCwJhKy/TiMUfJDeeG55ZJYOBIIpjNVXDp3Yw4ZCvee1dTNcf1s9KLjIH7zfhDsGBKn33ZUZgyETUL+sYY58QH6N2S
+uSWt2eKFZlliwCVR3d0TOK2hZ0dKc8Y0z66Igvo6lTLbVEUf61CzFGf0IcfLF6zfsRAdcH/xuEB8mlv+bNxinM2Fu6YLm6GnOdZJ46DZvLzZ5oPtOd6/XiRQ
+ax25MRyiulxOKCtvnnoIYF0O+CgznjGuk7P8rfmQMdD/SS/psWSFLXSujxHYxfgYTlfulmx6UdsJo6Eo7YoTEtEZbZQM+GX+9OCIbK3lbjNJMmrXtQcrmpwD
+fcsTbScMWUwhHcOJe4YmRhshblvYbyVB3otBipf58KGX/iIX+xg/mvdGl6TJ+J7ziEOIIC7sUqcxjNK8pScxQt+aMHiko8TtIKXUEvDxWHvk3pEcZlzek4g8
+bvOX7h0BeIntO/5CEg81TrejCNQeOey5oeFlK1t1U/QW2+RBnVaAy10+X1IXFNdMTKZU3F7dJrrbPseJLUxoY/3lxpKnAX4tJWVRkvXYmBGlAM3dYIPbg/S/
+2PLY9oblxQLdjEnMQ3qSoxmTbZyzj31r6IVv0bd8iOl6KSPIkQ+4JMOT1G5Pq8RYhHj7qFX9128zUU83wiLc03N6MscJ+ko8GeEYTK6T3+C8OJwB8uY6T1TM
+xbEzFDfOt3aB77VFQoS/9zDISbJ3TsA3fQujrQBoZuXIBProVid3LIJ/k6c0cjG/BxZjRFHW+0NuuOZPFiO02PCVaiZ1VkhfNGMUJkLaht4qLHtsVwMmy6tc
+D4xwb+V4HGwZ/N0KM8f2Gm/mcJb+s3Etg71dH01vB2oXCV6IX5aS4Xd1yoPjXQV07w9vZjzkLKldEM/FxyhJKhchZStkP4r9g/SmgcTvMSedq0QnQx0z0tG5
+nKgY9RjXk/vPb30J/NLVsYgD6beq3o+inoht9MXSTe+3rJpExzUMy3suZaxJ/XYf81/GgrEd4XnPJjyeNijduK5Nrq4wGzY6UTk1Bf9ckbfzAaa7xueZEkPW
+Tmu6M7Ey3emqTPEjpQ/hNA4EPLZ4ijt8PN5J2q6GNZKBOx7znqArk7QJ4F6JeowBmFspzm0iYjAXg8b2FHyNlqIr1aM+m1Y3csUrd0qTnMaWB+foCFVgl4xC
+4o1uFrCgDVXX2Jb3cX+wikwdh5/FypqJj6s/GxHr/5G67Y/UpU1Sbktdl7esUGTmJCah68U0SP6YaOIYY08g0DZ0UJ44yHzjQZqOWMj45AkkGxEpjTAyzcou
+QKc4kks+MpocJ+cXRs9XysUL/qdQvQn9gvnawFBOhkrS58l4ybrTOQFOXJvA75zPoPd6PSVwEEMrAhqP5HhG7brTq3LISMkmDpx873qn15Mg8GZw5NbzH5PJ
+TghYf3FsEQ2U/ILAu1IG4eCaYLAIEjX2YE01FqURcFHxVaY9m82o+YmY1Up2+Jx/X77ZltN9az4xDlozRFlsMZbyPbGVx60X7yLQrZinOXxVEPFzn9s/ueKa
++T1RVeovZMy1FKZ40X4kfrfct7pqyAvTX6EFVQhGJXe2GTM/3UN3NNZgLUkSc4gBKi/JDd98vUV/wJHO1T+54Yy6RKrnp4w2STKe6/wmsDzPGVmpPCQu9rmf
+C6nzQMV5w31bpjmDO0b7u4DBH1IV8yS+JrYRhZK267HKf0d5I8YSzAQe80jgJkpGV1emdZvY7UF4tYX+ak4YyRMPZQJvgiKOMWB0gH+urgSKA3tTjbyRltEB
+gNqltBGRFzbEskECt6GzxL73OmGmYoLmnre3b6TmNqruvbL6cOUdplQPUtkSMxYlBjf2DZFBm7P5YpPZ13a1DN3Uwhm0OQa3zID00E25Y9M7Sw/soJbgbyK6
+mH3cZY2hlNuaMHIbmKilpBPHfsDd885s5bVFM8R21lCMSiE6AqL49c4czY3whKy5XfORY3/1cUnumAMJ8JjLo2Ga4McDqx4GaW4kacYIRs7YnkRUanLG/Wax
+EwVwHH3k62+dy+9PDNTNEZ3wwyNnczFukywKojVx8+tZm/OjcDZk3mY+x9nFKJiTw3fvyKzNJKonr/k8PQ+oKUM7MnDTzj8w88lxB5kmfttqXhlTnFMWhmZu
+Jm3emSC50tRv0s0ezjo08uduIyHZDNA8e/g64t0zcJN7h6E/ikEvBTs1xgFJa5d3x8KLEZ/luJnIifgcDNqNzfSVaWOh523ndCqKGWGgO08dL38RzC9JRZsA
+DTKTrDNmWUZ2nqq09JG4dD/o4pjLcE5M+0Cmte+6YqLva89zTl4CUyeNT6xnFje2FcsxKoNPH1TKA23mdjEolDNd7Do2FeNrvvcQo5j6cznykLkc60E3jezP
+7acjBxTbd6Hjsr6h6KI8olMCpk1//dJ3gzxj66w2LgJj1udvcGg1JvQbEvpOrruidfpmiPa7PCnoBl8My72sKgWVvURPR8bbhFEzGS4GYV3Wnn1zaYcBS5em
+Lc4Fb7d9z3xR80TvrD1QZu5hJoxGAap8QZhySRbw4pRXbBvguBYb0OFi5BUsfzNrVMeGqCwGETMayycXdeYXzdMzgHRJhcZl+nL4F2NAXpbfe5CiZrgo4Z+p
+AqX3pk3xhV8aavsJth6H7dk+0YWez5I0OFfNS8mrQJTN1NHaw0fNE12X7DRFzREFCaOsdVzytLiUdMtMIBye/HQIkJ9OMb6q77g8Z5aoIPjmldRI8+kcu90E
+0fKLtAWsBK77fwe5og4h6t8MUV2aQj3C4xczRBPI1mqjZWX+SW8vtNe8ZYI9FcfEyQzR/lCvYRRphFTnTnx/s0R/cuRVp3Tbjp8rY0SjSY1hDG9gF7x+F9kZ
+Ii+ZbXrKnBS1ZcNnOsDAbxmmOMReFN/eiQh9FCNDycjE4UqOe2k9P3TJM3xQA+jhT4AobzUc5KcNR/T4Zcg1laUgbrccVM8TGHgS4/npocKNGj04CgcBcTCz
+QXpn0K9vWOs/sN3V45aiP6fqGTSs6ZAqPC78rUXd0DbH3FF6a7UnOXDl+7HHPDR583tNqHzuW5NR23yKo4jCRxMq97EsThwNDJ37CHOIngTQ8dS2AViCZtrf
+f0itURTJFWSlGDz6dosrV7QVUS1o7wa8rBeBcrrjZIue5pql95suWo0XZfaHeBO/U30mnf1MjDUqyFeHuv+ljTI/jrINlnwDFxicPafAbDPjPP0RWfDjDscu
+UTCNNkmW5wA1yl0mGa58SWK+3rHJl0FfBhn0pM4NI/HvAvLzx+fPiAvogHEJSTgotl03b1SpBP2soSvl2N68/82XmrJfOyTOPuofJobujrmkW91gNEhsr3Lo
+Xnyikkw9ksnlm1e6g4Bz1LM4msmldjXSUjRh4NQgDFi8CEcMNNWeNma1ltl+C4/ILu9AJEEcC/puRUnKreUkdJ5Jke+H808kFQsPo885Hyvwuez7Gdqoz/72
+mf/zMWRrd9ZK4by+Peqj7Aoiw09lx+N58zvTTQ0u4NHEmkOV9xDO1dnO80qWjcXZoiSUXpJGp6Em5RRCl1VKtj3J9MjJjXPb/1hyhmy9ZocWUHxPTjsjcaJ8
+tM6RJ2ZNKdm9DnuC5UhsQMtVUiMgvXeMPB+3MINLmQmajWZDenxvmYC6JEPuk2VoIdXnQewhKmczUM1E/SbSUlUagoKwpiIShVm+8fnWo2JbzzptEMgs5qrI
+giR/cwSd55YMeWPW4pyTyVLj7oG5CkR/I1MByou/M953HPks01x4gQn//rMdYcpH00M0asxwwZXX3xthqdG+nk1WPZ9HRQsoHi/52JEpSndwz09lt5DBgDZW
+5nxKLNvROoT4NB4l/v1wMTmkzTGriiLGL8Dimb5IxUYsKmJ36AWVwe9mqUppQ5u3aICslMxVvXiHmNu5RgvNj0x36JzDFwpi7rhjb5NZqMwwsCL+pcq9fPS6
+7DjCZlFtHQGkdbZEzn1FAFGzWHvkavce4EQ3YhVrCXyTrF4zhNU4VA7Jbz7rkp9uZYybZeayOlAw9UhWPa6OyawLv7PEREGoLHYVcuOqeqPII+2bFxt7Tpye
+TCNeeH72ZFe5yrOWXImvMzq0NDIMfP2fWx/lycaSwJrY/ZyWr+eSmVhR3s2VFbI8m57IFzodbzJVPYPlXI/dqFXU4plcSThRXKTuPaORIfhqnKuJiunRDaXu
+k1dzVI+coI3SW3VeJNYT+TzyIcDNB5e5RQT8bWpkDMIS9Tac9UDmbckm73d5/7S2t3MfVBJYByvPmhR646c36RVhxjUjXs1jFVnv9OuqLGMXU/dlc5KLkohK
+KkvC6JOZq0BOYujJr9fMan2XntlqLOtdxhjfrx7xmosgp/ZJZPttbGl7gaQ8gMWRoVNMyZRP/eG6+1Pov2RKufuf8SieXBC2LRqgzcBWerxi5pjy8KqiyG29
+6TsbFYymvZ8JhOp7rRnrCpHe9iTQhbqmDqPzPHNaU66FfpDXnHbGxFRAhzEG3XvCq536qAqJt5pUe0b84bz5Nut1TMr91F0gT+g7f07zUfvHwuI39rqhFXGD
+X3WO3s6eULo73kkmkHRZ5bnoYuUCvLeA2+k6dHzDukfNXOZk3Vk8R2WfALsmCxOMcLzXtNpYn1iKSJODfgike5gBs+bOXjXsNnz+lME2J+e9klqf/S7k19a9
+CqFvGee6fkzejaOOsWwPla09VNYI2eZWJs/U2M2iiqjn0VqXX05OWfX4apsPvDb1ZKc0Jz1pY+LNs7TRiQjTOBnMnuVKSYn06VT7UuhJE72T5g09uyxTaN3n
+dfQNL5yYVdq9ngyXxWKpyrrD6CwZQWse56m612vmwR5XJdFOa2fWbD6oOFsShdt0P6N09GbULBe2E404jPhqnOx+JIG+wpHl35lXju2S2+nss1esfaXcDY5d
+b8MhyS6ebnKFJD0Z2omqr6mktjIZQdv3ecZU8JBFEn7Nv6bK1bIz8fu4todwfDkzbjz1lK0Ts3X/ofGd3Yeq9fZJPh5bK1JvReONVD2VodAvO7mMYtxnbE8H
+myn3lSdQ0dg+itP2U143RzpY4KW9f3ExlSts+emJw9F95VLNNBGgPKJdAoZjyH3sxOWqeHL5yhRZ+CoB9+2hGK9sc8JMhVCwKYo47Qv3n0jWJTwWFYeoAJbt
+MxfWsv7PQbUloLtWYNeDB2utRMccfH5Vt1fWNKrRjYAfSST+gbW+qTdLFldBleLCY2bt+jhccU3W3bufLJINA3fdb6xqJx8vsj9L7Q/Hb8sQ3vPtp8dBriTq
+TrADJdMDYgw2XyaFwkAHm0X0IuK3z0hdVtD4/VfvdK4c5/ReXl1D0IUmlabkLOJBMDPzGkW+JfOSPp/gjMG9d4tLbJnI7v6BGiaEtz/42r/zYKxiwXcBTZNw
+/yayf4+js5zQmMcRsRuPe6xJ6q8ZjP05LnR7P8fJGF1UzB9BJMj7yXF2FGTpplyO4ueDQzIn0adGn2uC22eGN/7b68elNkn/byvzOUlzfJCZxq/wwc+nnH8Q
+M9BefQxa/KgWJelCR5GPM4Y86cR8HsVSx5939AveTl7EFq+5KGgu340JnzdqaZwAmnYA8P1cNjKrF+gfJ643FqyZ+Bs/ruA/bHoc6ctPrv95qX+lnoUiE3Vz
+qol03i/uH/t79U/dG+cVu/o3w3gvGQX/ypyUKDiniMRtv4L6caXMONtpf2WRCPy0p0EMyb0J62/LVJPj3/4D+icTdJevbwCejmTcSj109t8mnBLLt3yr+8Pc
+3o6qT7PDeYN80wSAvl1Wvnm+kGeWMcL73qURBlMR3XIgv2EGYr2Uc2MR8Ie9ke7r2t4LKE5Y5UXwAltWMtMoYO9lGgfUuUf+al/3GjXfB/ePZrZaSS04tWkx
+5DeTerftm/G75WzcS6ciHALG5C9fKgPWdAVge+23hvQIeOAQkBKSqGyppnjlRByQT1Sdv38l/BrF0N9oXPGIpOyTwa9aGQxSmO2rrO6VJHIUmnW+dHTJwvhg
+pIRRnrozHDYD+TTmjbK79DIqfbQsOBXMJc0F8A/os7BR027imbx/a9DzJAkvelYTIex6J+YBLAjv1kT7m0HD12rAsPNBzykuvtxeMbnDNsArMA4BVb+A86Rr
+bzGBeE6bgL1HDa/6G5M1zGQiacNGD1/pWpHFO0WHiRiaO44Bb4KHM7K5pKlArddRKwGbZdwEpl6czSAeDIJ61swMeNbfIpVNIPHPs+vts8R3oGf6btpGP7uM
+Pq6Nq34ESxm1H3in/0HUELpQ0puydEiNw8D0bGtPEn7mwZMmBZhCZ+3W2tRtCUBqqQqLaj7gq7hiarF8sxtwJOB6uetKoEv7U/nxs1x58oGVy74d3Yrgh6mp
+H8DqI770oWKmr2UeRAHjrba/Y9fur7eC4J38cEn2Vxth1B0FGtx7qF6I4muqv6ufxqbgxv1MMe28+JVkYmQ68YObq5W8+uZ8hPYBhxYaUZ70JGhaEGaS8Y6d
+AT0A/u5dora78Ui7y6CaGkQHUmMDBOH4G7T0K/ikR4FrsntrQvHRDusK0BZVl3u736YUw+x0uHbo/w1nAroGu402ngR6S0UPlDeYVmwGFoX7WA/cexjXntmp
+oKjGM5NLytrBPh5fk4G1Ld1aAI3RPV0FMBEgHWhPI+3Y70xi+xLdyXOvxpj3WGO9A3zvHkoUpenHLr/tVZPUKIhdLu9C0jFuhrtrN1veDYWJX8BK6GmUgisU
+egvkm2rjRJEHQ5kyKZrkyr1rm0DCUcFFLxJngc872YHt8yq/BceBR0eq4WPfgtM6DTCJhrnAlBOE5iOzzUm5qNT1zGo/NZBV5EkCvAQoe38ltSsK11mwMPhw
+syTLp32B6sGoCC1uuKUQrkwY67Mvp/JAorW2Q4UqJgZvDAyupfsXZFhxVEXuj3mC23+bpLynNshM5ZuZyo9GkXh5tIBxbfs9gDwya9lEUSvmMSPN9Wl+qzj4
+9zQVYGigE00aAqxN3V96HODVYBqzcc1isVpxvC07Dr03qduddT+tDrBg3vbMA96bL9/oBGF7sPfVhagnp7y32iOeewjy3kOcc5UuzkRzkPdqKDuGBT2keQIB
+PfQl6EtbtMaPzGKuf29Taw9cdmROeWs6E9zSW6Esr8yFThMKoIFLehcs3bsgTQ4mTAgmE6UfZJX+5z/Ax8V/IIOb15JJwVHpyC/Im41RDOch+6IgsGB7OJzM
+hGejnXuyM6eJFs68R/UJhfQPinyPIo1IpUc9T123hh5va4efUkmYHgaC53QOtpYRwG0lr7fF98lkZ4Od+bO2FtiWZnBvOzOLg9+BAc1Hku73Td77Lmxkkcx+
+r03WhMzvmiLFZ5kPZj3BvnjK3L7JzrnGG8M2BxCU1ZtkGzKY89Hl6oEwozr/2Ui54Tgmu+ahVQJt8s/229JOKSpJKW3Tk1z3+LDsbAwAMUzInF0mTgx3vruz
+WQJz2zL7mVeilvMMUcnkrqhAgU+zmpg0VRjdr9F7YBo4OlhrvnX9o8myXkyJrmZEmxh9NSt9NBxhG+GZYvv0542X1K6UKWKfOMUgIp0YSIvWi2HOFOh6mBF9
+T/MFO7yYMFzZVnK4xzpkWHTLiGgOo7HcJs0Wxpp/HVpmRw+TN3twAhKhhq3CoefBoS0/Mx9vt/6uZkxnxPSq70JN+wU/fl0f2EVSFu/G2hVDBaJVdF9Y8IHA
+0ZYWkVJ/hs1t0Yjhaew4F588PfjBGTGQRJ3vWT1IKuYNeZtMCCs9qNpVyq0Wpx826UW2s1sMYaLXk/4urvMsad7gnMimtW/rxgzKb1L7180XXqVnWB9HFo+v
+3cFxTycnq26H9D04Tqfu21D+Eq3v+af29y01Wxi1saCaSR9W+3Mg9CxbL7MPb8b1LV0aynRKD4e7jeTXnUHvhSUfg03Ics1a1bNhMmuWntJhEDiXykd/TD/M
+qGjOYG5hz8AmL8TqX/L1kiYQ5XLpGs680Xdh6Y9LQ0LKS8vi8ufswJsiptnKO386MkwI0O5WDyxTbdCnbF11adbsJm923rdion1heSCDsxWp4taQ6+sbZshn
+Y7Gfdp03Jkz0Z5gbP1zp3YMy025Gj7e7RTh+MD6bj3LhbzII3BrmfOkTE4jL1HOzddQpaRaBuyTWDcM3xfl9ihM9tnZl1uNjljZN0xodBBeI1kN3QcwcWN7F
+tUFvAUq2BSeGd8PJ4F3jRvuXV581qfp2fLK4q+WY9FQw1vqbN7KKB6bFQkmLhZrFaUZPQTVDpdvmaHBNM2MKLBHicpeZ0e1u8DbYE8YMf3HcuFOgwSPeuV0R
+YFIyOCSYmw9krDdxBD7ElKco0p4hjiy32i8MdSQtUtuG4as4YeGkv5nDKdg7bMHxaPCVcSdNLSZ19AQIJJH5WgH/TwuftfcRCV/RaCBG14NeDA+eY3T3gj85
+vz4Dg9Gh+0q6UGw9YlamQHAu3xKJSsFWd23QxJuzFueBqe9WA4f6Puz1s1XiOOM6g72EjrN4M2TeIavkOqrFhovimv47a0p71j9xMLWSrg/71+zBoTq11mPD
+/x566R8tb3VXDPQ87BrkPJlGPvIOruys0rLkhmPyoBd7lPo6nCouQmtfXv7RnYBxkl4LB5JaA8TpreEEwpyvhh9kdvJwrkrkiR8eauXRMCX4MYgEj1OmxrtQ
+e7UtXgnbi5EGH5nZM+mauG42I8XTVARHhxRPrL74CdU/a2/Rb3BOmv7DA1uHCXMYS1QKlGfvRqCFo8O+K++k5t9L/p1losexpjVuVB4GeEeLmoXH1sN1xpOW
+DWZrrwcDsgeyP7YDQLeuD69NDwjxoIceKav321X8VqasEJW9kiPJa3gUW6n3NIpgy0daq+9YTTdHHkWBi0Q0n7pJMDuDZ8OewD1oT48xr5livukZwToANhFx
+KeBe15KjmIyCwx+C595Xp7Ki8miaQxh0asr53HjYzIDeftQjZYGPDDdX+MKUevQ4HrMmH90A4ucx6acWl6ZPRpljCZap5z3Jycq6WbIp8T/K65KPvy69SX54
+gPOn+hjxfzjny8AUzZbswp4JTHT6OJmcjq2EdvYPelWsGB/PlsHo8W18U6ssN5mN/kTOGbWRqQWj0Dazu8mbUwL7oN/0sdD4gZymdH7wTq0xRGs2fR66n8SS
+pCYVJi0f1RhNDCB0fFCN/bAv+KhcWN8aOOCM8N6argzPriSKmoHsXFINSI+Tc9I5IW0jyr7hrLBjohmFXsjRsft8JzOwedDkQfMhKra33eDBJxmEy+jll11V
+HpmZjmkD6yeP4m/DuZ1+IuX/mDoTLNV1ntFOpaZmiElS6fjTFBdG/7S3zPneWudYKgghpLFlWdpK0CeEuvt9bHXZRT2UhtMA9/yvMjufmFsF+NZLPUtH5OlT
+mtz2tvcjbCtGx1yf3rJIX8znXt5geOkIJNxO7ChDtBr64Vhs07lAyZe7PIeNOur7at41wIdomMqAd7CAeze6O07iT8x1TFRiMhy30ZYm6zZdNygNMW7/kAUn
+miEL2IRYv8XXBQluBjxQdt2gw60jxiVejgGR5tYqdTlfI7QuzwJawwtSTesg30HtnhqAyvWKK7SG0fTOkuvpYls3Z5zrJg9izwk/ih7HBkZFFDcq1EhnTLdw
++22D+pAc9HVsHqtQVsMIgT3sehXbH7c89iy9PluY3RCoI8uw1xzl8as2UORaX7mavtYLywKZP3h1fpKcqZWEMSuCryTQrwb7RHt728rKXAWdrBSEYpw6vmqi
+ITJhlhkjTTImYuBYyx8EohmF34sJekCCOEYYEcw3V4tDKdIrKkipoSOERzyf1ItflmhYdhUkESIGYBATuYK8vAUDhBGWRAhwEpnyTulukvCzrvXF1YAesY2W
+hBeScK3lsUmJABoxRa9J+cuFCkmzyQPLlcWjnN2/pUfwLfsFiOENiMFhLATxS0s8Kbv8COqJiWW4qCmfdeYTSRAj9Hg0ioQOVdQiJQLnoDAIKwiJh/jEVCm1
+3dQt1SW95Or+0lAIdVm7REnQ1aoQQswcnjSPRpWggPVmISF5EgmMIHscUS1o38rHb/jsERapJlbhc7H1+C6f0pQjFSLDKAVj+XhxdhaivyRKxN1b/NNq3iPp
+5n8UN3fpybg9wBKQJEgx+iHejad3GRPAQMicvQqaSV8oidbNYFWN1lS/8pEQcavVc1bIF6QvJAeJivQwI7K0REpLz1MZPcz6hEKsLmguVGiSN8HIG48PLzFT
+4zVsvGg5jhpTk9dmXfmcci9fBsA9bAcjbKkp7wur+IYFOiSyYSFmEfg1tT7RD+niWe7T5RuT51IERem5svdBvgPUiTD+rDzfz9sXTpGl6B/JVF3uXdZKbeXn
+W5X5U9TEO6O4LTcvCQH8xJKl5a8GtCAYrynZNjwGMCAPAUVKyN3QMAgV6yr7nsr09a9JYpqAVRDWJLZClGjIjZrmb419qtUTDE21ejkKMCteyaigWuILKe8D
+wV5EJi1GnLD7vC3hVWwNV+EvJ75hlQ6xW8993wkeSD6FO4fAl6Xoi+/DUVc8rFc/tTrzY4oG1thvubNbA1J4N5Vn0jbWi2DqJSsP/ENP8DFGdQ8q7sKPWAqf
+SdzkvD2ft5IV6EVvzLMACiMZEc19tpRf8SQwKjxTo6eXGxPg/qmoWysur5zD3A3Br0gmBQWNrCqftIu71Z88Ms25Rcb+JpuCwuXvNa29mej3OcvpIom1Is4E
+vkDc+765NJYFOYfz9aXpz9GXskpCcOiAC2C+rEnEKy6U/szbx92ZGgDMQtLEXy4sh+VrC7dEYoWYi33MMvO71eqziAbYCurMQpwAoANcMvc7JBZC6CGUCtEU
+CaoAd0ABdnAI4xdyNY9yyMJeNAqIcmnWwZ3H6OBnMTTdmfXnY3dJp9hkU2SuRmiENc2Gjc8t2TakKK0wdHocvfPYNegFkw5aS6xjfQLA3AVB5AehTLyPYuF4
+BqAsKX/IWjDPnHQhoROQLyR6ZLotcgQfgXPZNj8K1sba9WAu+vaJPstYG68DC0OfIoXsa9arF3yxnAnAuP8f5AtiQULcpF3sHyvVS6t47XIgXtUy9tfHOvQn
+G0QP4wzH81TOy5Mr/MIPnolH/skpjoXohWnob5utaQsofvCvJ84IGRlwKp4lsRibRAwzX1Gytvza29eYn61rXE0XhFp5ZfH6wjsA0/yChVI2Fqr33ua3EBA7
+WrSeDX4T+dFjPrfpGMFAYlpKC/mfs/Ocyx03dwh4GyrDdTZoxk7t+vNn+iMsVQEco9WNvzCQp8uwGAraAy8QY38i4WP8XsAxcFJNLCVPwoujBWlAFk8WtQ+T
+P0Z7S91fz2dBgMS4Wu8SWu2FZMRN1PgTstsmo29brfsEZQCD2E0IDPF4WM+e0EvgGKMQj5xHTfLiOO7tj1g15c7HtrNx0Sfq7FIEfcNjGC0gEHLmpm1/8vbe
+nG7T1mrbUwdoL2IyhgoxYjPAZGqAXpSkddw/lwwNLMIJlxd1rV9F/WfCyhc0Ycm2KRNlkqYBZAOnd+NoWCc+jAl3Hr0GGI3zI8piJrBHQbZ4EjXi5IlQmHjC
+stD3NKfjdzKDDyFYApHMjQW4xtSoGnF/p+0eNsCn1ZSPPkbgxv1tyxEle37KVdsM4Ik/7oLR0PQNA+z5NBoH6fATU4125sdOxgmkadrooUZJHVmhCRXPNrwO
+Fim4ehnuIbIDYIeYjhwTkEUax0oVq11+B4txHEttnAHUkcjnCZq/fwmdmyrZ7VPF+wfC4wUOxHX0ydqTk2CoqZX1nkqjjmR6AdiOOIM3OB0N10GHEKJctngk
+YiIi3iOue3miESWJKAqKBCVBJZ7uJ1wQZ1WKWeLHYcu21Fmdiou3yRGZ5388wSkL/YQAPOJ9Ux4+Oy7ETOWWB15Gatf9Xk8hLL8XF/f3IhQU/oflNjjfv9sv
+3Q9EEL25v0xyowUpFZKa7vjDf+Pk/TJzASLimmlc0N/MA/3FKxLtLAakxi/V/4DWJ/Htt7wy5fy3lfT91WD6zeJUNZU4lSBFzjNRIrRWzwppWaLfMm98aZgz
+Ha/2HHa5u0oMXASOyAt/GiB/nrewwWITwge5pOPB3DbawsBMovjPuAoxDPnIR2C8Wb3+LQTjLWDjbYBU/Bl2+M9gulOiNFATrT642jpQ0+/G7Hq4MrwiJF34
+cDkmWr1m0ILJz88HH53Vh8Q3XHqyQjCCsaPHY0nO58B0MbqUgUp1f5zKYXt1IkgaiDHGu/MQWxI3+VOKBz5e0SS8u0NUHag4l7QP/j9hVmyb7SrxY45uZZRD
+si3CjkPdMF5DtqKEA53j6DcOza8dWmakDltPpnIIAuZDtJMVlyO2PBOSkutrSFgoD7arj8RTbM5DYmIoQoTkxJw7AseH+YhiVjgpBGeVOZKoE/ANwPKXBh3h
+13jz6fUbmBt+MSQ80rA78jKH+GEy8CP9ou4JdME5CKXEqh4J9JAmU5P3QbrBl+5Pam3CPP6xPzIyJZfskjfiV9c5v3FeEgjyzZFmfpmcDmaZaxZfgiWyre5/
+XEVqkO7LYY6ZOj3UHgbaUB+P3c3s2gaSfm8yOarJa6tKnhdqaUne+NQ581+G8vI3sLyTe8UnjXGOo0hW9VASAbK/viiRI9EiAkSSNC5QRJ4Iq0X+3XnXFME2
+7RUyQ1FuSQhZ+fpFkEnG0DN3z5uujHnXJiLEoxnAmvQJDkmITRhjDcZSaqOEsJqu/2QACzeU6A5+y0//1y4nCyDZ7aFBXet5XGhJcG585L5NPPtLbggATXgj
+mdUIYUQcSYfLh5u7Zx5SBIqQkD8mP4R5VSiQClhNSHJI2BcPNfcU8jY2KsiZck7OR1YlgP5R5i//w79LwkfoZaJtu/m+iEs6iR+nSJAlX76Z/9NTxhIOiHuK
+DjrRJPTUuZvNmtM9K9zR4D+Hz0GEQb8JHlDpPGAinMFHUGB7dov1AwEZJR3kcEMWwSENGxLPwpirrz1rjKA/PsAeNtAbc6OqWJU2B/ump2pcmySQnz4B1Knw
+InHQtMyjQH8s85hoj4xvUuMQco7UifuIJq9iuoRAfcTo05tpLd7jcoYg8oP5AhX1ehk1niqKyRYFp7BmJHjIEQAIUKyafA/4GcALo8HxDfyDTKmwgPeLD4xn
+z+UGDp90jyGThvpC5H3YkWFPh/hrmFSpHuI3Tlkd50ApMdVlU/SCMbhrk1Uia2PsG2tj/orv3zKt+hb9Rw2EHsBFbxx2XxyoH0nhAaTxBqNBUZHH9Tta1epx
+DfuYgAuW0aKtMC0s8oQQp5ETwgd5dcwmwWbAr4s+a0yMRiW3WpDGLf8WxwGAKEVtWJFHRsKZ3B1n+LH9p0H6lnzhTffYvtyOmLVfNUEYEDDi7NnnPEgIALCR
+GK2Q5EoqwGKQ/lxgYVgCXUTG0OgYK+DZBxneULL0UMdfPqYhnUQByKAZVWPQeYx/MY0tsaPxi51+jFsmfITBcd0xjR/5zD/G6G22omTxIRTqAvI7Qcrg3Xik
+2RzbZgTfoy4wMyoFGB91SBJHla79gIcSbSNvlNdfMjUOwynAbORa6MPkHj4AY6dQM+5RTAkLIXZj369eMgfjoKgN1r8fLfU15M3rD4z5UWa73pB/fEk6EUJO
+30j1h4mqUDkAkJRRvEiM+LhNH478iehAWEGOW8j6jJVKjPrU6psOp77ePxWvNB4EJuX1L3N4Ykiz+uiK0A9ej+eGB40M95xq15z0KoR77MQ4qa0Yv4RX0Ypk
+q5SV+Kng3kkOIMa0kpoYw1El/oC1f0xYx/p3imR4nB+98Qz6NOVdu0R8xMhk8cH4GbOeL9zLO3/FuEwmVG02a+yFZ8SZHvSwaIc9PzHs2W3XnroLNcbF14+J
+n7GbB7YtUUzc4rUjAHULuRiFsEsF0WYigCBz9uI8V9bH2XMLR6sESHGmNYmrXOIZbkhMjOhPyQ1L2BDPKwyRayTtp3vLDYnxJZ/vUMNs67CWoz2ME303raqB
+helw+s4KbqGQoy/SQSVvYQNJQlSH+JFjEdvBqDwKH1nXa0HI7bhW3cMdSx3dBdQWQcJTd43eYN1FUFt3Peokq+QQUWI1LxT5JC8oJC9ecfWk27evvRbqJJyE
+YG7esYhlt5eXy+qhCCYp1DvtHHe77Zo4LxurZAi5Irsjc0cJPTbUAQWaRPYIA6ksjg0kMC0NcxtkhznTgRyFTwITQ6b8T0dl3W78j9M3mqEBaKYbrX7QjQba
+h8Ar7983djM+rTPRNWZeN87Xx08xVhQpJQ4G3ZhALd56pJ+0Y+7vdc7YG6VLplgK3JvIyQ1AcBRwuaHWA79EV/9reTid+b1JNeE6xcN9jjJNosdeTzEff8QS
+dlWnldeZuklM9EIZnYN29cjBuvM+qYTugiIhMhaRrpFQRCnJQcG9R9FzjytsfFky9QkRH7LJO2Enm1AUWPZd+6I1HVYok3+7uyUhJUvCSULcN8EnlGy80Oil
+kn6S8JP8S14IvZeHPg/bW9k791CzeFcod4IIwKGMiPEf+OR6J//kj83DqkjWiTFsIR7fSKeu1vyBd/KAO0MUQtw2PmaWNGiUM48nzApyrkORuRIdNMnvnRz+
+TjSNs3kvBevtXZGGwkWKfkGaygaLmKWBzZYG+lmXHASqD2sSwlLhxoT83pWWL0ho0i5e5cY+Jr/Gy1Uy5qvTfulyyAjRs2MmXvcPSyzuOdRng4xBTADUEMMp
+Udn3q4Vv3QWBXDsV4O+Y/EZU5Dve96BWzBzyvdvNceh+EOEud+VMWEquyt7pLBLYeG+wwLv1lF5I/HBxxu+JKL/vY/sMgWbCSrD1QbbUp1QWcRAse98V/kHV
+T0WVzTLeaIVzz75xE9NCtfouGSavZKbk+vyd0ERgEqJbEEf7E6g3cv3HbyGmM8kuEi1YFo+GvCRQLpQLJWDdIi0oNfouWS71TMGyQijT5QdqSbQLi1N3sD9u
+VTJk/b6tlpe4s1idW67HxR2tlvVpQ6PylNwXeBkbBabHRn7xRyzE3lPO4hgVfPHM2ivzGEgwSc6UCZMEGiohyH552Z67BMkGhtm/ivXF7qxng4fJA+2SadOx
+O7F8YmLEfWwsKWRVnfvmVPA+53o/UlrMZpBtyIk3AUQuyOSD4Ou9ec5herCBkyEueNx8eWOPe9JJxr144ceNwuh3CrVw0mKk5A4bbwkYGi6w0GDj+0aD8Rm7
+UwsV7stflvJsRBhRMH7dYIGeUYUN6/VHhhNa9KYKfyVoCcYSLCu5MUMFqkjZLgB3gmI8D0N5JsMnFFOu4MOYgnav+512ZjnpLgHq587CLVyYjAS7038LVzmp
+3SsnpsRzLc7kHx7mHyuGZRQIMOkluCdIoCQUplM+3WDImyK6L+fj4BTWknSYrd2eLOl+ypzKH7NFSTEuMqKVriFhtkxWlB+TryyiV/Z582j2Ca9e4mKOMWWD
+xXSJi/myX/a853MBmLsrThhHErelz3VZnyJsAGWxND5Ch5cm4yMRwt+4emcx7ixjSlpZTva6cz6/uVp8p7y6HyMVwKtSWNRMnAx3oTQdAe1gZTR97yW5CBJl
+KJ4c2g1/y/FVlHaf6Z2+XfZ7Mmdok6SQDFu4MyNIhsvOMwRsg+vQtEImgab5RW8U9QJIo7F7M1tRIs3UiDS9y9QorCLJqFlt/RjmPjl8fDt2+e0CJkPl5du1
+aAffLteIb9dvG6tu8QhBu7iI2bhlkYAbt51oiMs76LZ/NpCXt/1tJTn4NQQUCKWRIZJMLjfdpklcjZHXJvrCDeERTewMz0ELxrFsyjdcWAzN2ig0ZyJnME6A
+aDRqQpz0jzuJO36URHO09WcZdhr+aO2FPID4InGEah6rFBFuOsE4ZWySCdvNqm03My3DZBaAs72S/pIZpEia+yD9BTsmWhGaBgWKwtlF0OyNVLORRvnu0LgC
+G6U34NCwjRGeiLSLbzFJ+ZXoss1ijW6bvIDbZoG5EBRHgUET4zu/dqvDmmQWsq+k0hSYPDdgQJswmUtS3Y3rjsPyNhPZi1jvG3gZ183CWHp3/Lw5zilkkVHW
+620EHLMe4slvLt8DjDGiSHCM3BwL4MTtMA6L5JgjeTPR5/Hmd/HsNmYIBXwx/pINehuYwt4GtqyO7LcqUTfEman8t8ShpD0udQayy5HskioqBmgKmzR6IbF+
+Y/1KheSiaud1wzzuhS9lGQOCGiXl4KsTNFNjyhFykSkzCn4Z5waNuVa/YcgZ7S02FWpihXr8bomJuYhJxeC4kdbqS70HXt4XUJW36JO3jCts2QTJAI45E59y
+yogqLWI0FDxcjQ8D3lGVqH1kvjGJe6EKeIyCCZUxBxOll0XDlTlSSSRMRjvDikkyXEufv5XsSqIfb0e4y2eBKiNJZuJ6kUdY1kTLJERmlT2zeiCk0kORYVy7
+FWK1aftLbszM4VEnN8kxvncXERP3H9uP/HgdK7fCXVUGv7lPwE8hG9d9dFywAigAT/tVBcYk+OaHO1pEbHndiK4QGSPjhNLYol8uUsjL5VJBuX7jVuRaNP8O
+i6UMv1RJABLjSzyvJfeyX+PnaiiYHwZSCCvRSaT/LMEvK5Ke7cyXqPsRe9unZMPQ57DKwEQnjLoYk3shMaBrnLTFoHlh7CEBIgB/ecF1kbAoC8ZiUHrLux+G
+R4Aoa4/FbnEx61kbzeGnBUAnIYYbjT7xzevgFX8IruIalmUZMdN/IBXfr4Kk4Be8GKqqXiJjdBuWVrktZHJ55r/xk/yYnSjyUBgp46i2mxbeV0NpyV0sDSe4
+Zj6t78r2xxiXZH4S3Mjuwujh+FvEdhaMB0Fj9d8fF5F9ZZSUUMixUNA58KXwBzqUx7Z6fLex4WskV6XU7CUKfOSHeKJ+460xyTQHXzCIG9tINSsuPZb4nbHf
+ew7ZcTK4GndZQPeYidL+lNthfEyYDRe+8JDReZebdJwbEwzSSNBrGLSAfGMzJkuluJL0eR/Tz+fSWPxcS96eH+iy0Q64VT9XdP9H53F9LiE4d1PAPttu2v8H
+cPln/IN408upCdnbcvt+sIc/dGV1QsY7FMaGguOS34eCA58sbf2BHEJrwPAnekDZNhWOzV/MI96wcErcr7Bwno2JQ3C9bByK8nyidxAT9SEmH7E8iecGmiOI
+p8TE45eoGB4I/u4oDsyOHcdGlfrzJgPojX0DKKcnvvadC8RvOXiQczD1k5dDS9ja27onb3urd1iTr/eXq5IMkz3jV17xjRapxC//oTWS4xXjuTCbTX7ONlu3
+mQxfiCuM4s4sX9tM74wbKKsCvHKlB7lDpDlzGQCiwA5b9TW2VDoUiBohs4zVi9WgS6bM7hLqa3w+gN8k26JLMg7fOerwRZC4kfKeShV+c9I7S8FZSuJrcjnp
+NSaOJ+65poT1MTbtO6yqr0P1YGtCYOLDL1xfKJOmyssi3XMSb5yJoE1f9k3PCgJa+9W6wQXmhAbMZoiBPj9f/TH4vxOP4+LDi8ct0T61JXqCt+Hh86X7LM9G
+lruQm/XLzDGgOITB3ki3vA83i6BDtoneKQQbQWt+menyKpne+yrfy1P2T8UP9KLL/0/h8UbXj+X2KkIEXqSh5gcbsoaA1vGnZR+Ae4gvBSrKURXQSsnDkWFM
+nxZ/QJMpknD8nUg3NtHzVZwcsGiWBJ6R3VJXKMTwDPubBYFQ53xb++MFg21atVZeInBfsHyv56GSXxO/4k+I7N9lFnvYKn9XD09ctM4BdvPPTJUJScz132Zd
++j/rIPwxiI8/f+MfdJ3MlALcpjicX4rb2WTsQMnxgurR6b9gnU6MDtYhdUpZ7vobO8NWY/Yc05oG0kHiDIKiwxSNYScZOnE5rMYZGiszf6Laq7JtwJwLioFc
+HcA5DGAI4DmY5Dt/Urdyg2/zcbBFO66FrkT1PlxwQtDnWq9XvgxQIeX2yTdrwnbgW8/TF6gDuqirX9DOP8zO51VK3/SXk6PUh/dXNWIttBiQAVWgEYAjfUf4
+DmSdeJRHSTv4PFZ+1XyXEZj0nfum7ArSQfyiROsvqB26Fv2xoRMllYotQWJXFqzP0JcrDLSYPqabLWYbOB0vMgLP9/GZ4PQweTyJoo82hsPzje3wE4ZMHD+Q
+ngKBR7oVWB6MdEA9OW1Ayxdc24POQ16dsB6RN9ck2OcRhuwJZfi8RPlwb4gv0bI4jyv+LSNKjAhvmDzCe47krsdcAyAUkjLdCkgDUnuW7yZ4MhRygEyRRzS0
+z1uiD0ULUA4/UkxCQYmBGejJz4mLMjbdTm6rU8KpC/CoOodPXAOnrkHCT2da7OyTsoAS9M8RxMU5xnRw7eMyug56ZolNwwmcCp+JltFRdbpYGILQU1p+2RjP
+3knRKLaCrpyon33LSBB4ruvhAtfZqj+RXeCfY15tlGQCuQuW4MKoO20TEDSnmRhaJ+vnytVK7q8wrmM0bu5YEhW4ZerzkRwhHhgOUo2jqQ4TJxknHEldGO6z
+hubR5MgOzOqBJuR+ihP1MCvLxBzxBEoPPygTlc5ED2HD96awhMqZLYkVSoiR5x7cWDTeccT3gBmaJRHNjWB/xqzozcoxCjduiB4R90m0OD7POAkkvyJBEKWX
+HBZRD3sIrsJnu0eDsRRt9/453kJf3rO8irfgg7AyGo3IUHRoQuvRsELgB2L82lMAzIhxbH2nqIkcOl8SaF7iB16l4YZuP0cG7B7X3kRPIuURD/stuomGGDqg
+oiRsqEAWoissUocARlx9xtgeF4TG5GkePruSh4D5hLmWDKFr8e+YRk2EWib/7kiakCALlEZjOc0PJ4r58ylJFXoIDVpdJ0D7pabmKi0I9gLz6CQExWj3NuFX
+vcWwQRMi3izkJLlnmzzUDffDrNLQR1vSsVTSllAlgjC1JAuF0klfOi1BmECiBBPVGYRQDHjyhkjbFDJ0nrlf1v1SSUAPkFHibEiX5gThBz7HhBY1xMf5z65R
+NbDtkKe1Y0Ood/maN1Hc/zsUmLjv/1fKm8XFY5RmlJCidfIAW70beNlLbjbVJVFGso+Gec2kxtD7daRPDq0aAhAKjIr9SKwRljCko5hpwBogz7opQosgC0ht
+eu4+tcg1eUas03RIADnP8a+Rj8QgxRDqX4QFIqxVZEL7C8GL1WslAQm2yJNIT5ZP/d0ss6TkejX00XUOGu7HdkSvdMiSPrbNFZDDFWqoSKQZHWSLRsNnDenZ
+knqUrI/NGeCx3Xh0FlI4ok2a5LGM5/CL6MAY6RAGf68QhYw0QPkwuwTB4zYT/ndMLm6BLGpYkWm8NVrZVGsidSa3n6hgHIMuj/9UHiOJ9sdIVuEx/mOaJa3g
+GGVLwU8+4vTeYaMfY058jpF6jWyzCGuKgRA7LNFF2v/HmBydmDC+nFAcAiMRnWymkFxyIEuSk4AXLT7+w5VeY0BFrOXiEb/RPs/yQpJMfGSordfJVZ2WTkvO
+e7v/Wckxny20hzdyyETeDBkYciQLB8KR+6mSlCqZ7BxHnVsfM0jHQPhhfDLR0s8M1uZRPjXyj4S8s8zFTxTi9V34sdbC/x6yL61m0Ed2gIB6mKR/EKp71P/y
+4a1/goj+cBxEF+t9Blj4qBLHaj5RfNDYh9A6qv7AWaEWAZSjblvSY3pUUFM+uzVxZJao51ZsxUWOMM+WH9e42KsonnoTj5RgZehGPybjlx0Uz775Y3LZNeRI
+dn5R2ZP50wYdAUfJN7qWhvy55Aej3DMR7J8qwWisDQVEv5Ayjnr2E1tOiVRjN58kHbUXHnksZpOLNZLs64JC61IpD3EmrmghCjVJRjDl5KrkbwI8fDQA0pzw
+RbSYKX2JR9juykd7gRTiMWlGny/WaEx2E1OrtrNE4fFDn+2V0jYqhUPAK3KOor/ucZfgJThiz4n1FFE0yijivHo3hhXTs95ylAsNedg6TYA/JNuIqkDKzIGX
+XcTU50iCtLLMlxcQ9b5f8olWqG+jmimdh3Gah/RoRdrSB3UT90ZMArOr6YFrzu+aLV8J+6h8EAKRJoKXQjSqWfntuMFx7R6lZ6kdDtIOrlDsYXF1+QAIbrs2
+IeYI5HP60fbotNPWDQ2GEXOIFCVlAYgkmugy/TpEshf2Zoju1xPUzPWNbaeOuJ/F8S275soJ9H7l2zF+Glm4X673glByHorykxXgdyrn8pYrE0rQPjHQRB9I
+RR4IR3qDxBfsW6KUzqGvt5SGM+ZqbeMZHTjmmK5wU7CylGE2eGPhBbH4ymKtIYsoScTZMmFvl2hDBQTQSvVwzog2+/VtT996XWqPpuFi2EXz/RDvkRCmXnHL
+SWOojew0CEoS0OR01+o80ex5iHVwFAQRCd1o62LmUz8o/+BP5LLsaWexzrtveSJxGP/APItHJrFLQKxiQKveBRRFPxW7dKVDJlNGmRMRJXuJcuDAKkOFlgUP
+m+NKGm0G2iZ5adVNsLvYFUczLkCWTLradYtJY+rEM92T0kRw3e5I17Jr9iHOrdSlOC0xHzKhYqdL/tkx4CAcvdL02cGN8xtr+/Nb38oZJPuv/3fF8ZoDs9ft
+6QVm4SrvSuO39jQe7D/3uuZ8nUVTn5iqSbVXIvwb3YmPLNGHf5Bl8jZAkfWEMZ70p0Q1jUw0lIPbOfQiF5rue7heWxxq7LynD9g5bdzyYY7AFquV7OF42p+E
+9MMOGn03HqfP2HuMPln2mwROi80q73U7IDD9J32qnK0TiXncxW2AY+5yWrxbLgfxbFAvcwl2mfrvqkK7AsOiV7ueygQ1tkInlIficSgZ6c0sRvqT56Ik16p0
+n4atCdNhJ20+cU9vcU46QH+oB/BumCee2dD2fGFqvKpQcTg93zJ9LtCIz8sFrqdIcSBQrN89L1YsnpeJcs+rX0iGfV7JsLl+njEETXFjP+nvREBVAU7bH5+N
+W36QuROPFZRJGErWdH9iDZXEQjnAhTV++nWsVsHL2SkbpbhvHbLIgBJOgJSu9dxLQpdYMn9uOoZ+tN69LZ5Udx+gPDG7B/KUCdnwnfhRkjugOi2JiMpAdkhO
+RI6iFLLDkNHAexobTApOF4JzsVGb7ZlJrc+t2+b8jJWLnvOlKf0kW56W3x4t3vmQnGeqbxVYUUmtf5J5LTPqk3/BnwLxxu8kLCXa6OKibSxreFK8tXHvPwlZ
+OoRKYWk99XA+R3x+DTHFV44z2d9JkpJjJOEmdiZEKk9mWy9PipRfk8luz2EkiAXa0VCLEXjApKowqTish/1vbPcQ2IZmr5LEqnru5uo3rNRdxSV2E28b+ahm
+ntLThctcqXjKn0fwA6oJkOCmLs9IFdOkHJtsOyVXyQ02Y6cbolaRgCrarr4QZoo8zU17Eujy1I4mKwImVc95NUOH1qMYhYblnOlpL+0dTdfCLgDhPR1bwtqH
+8PSua0Kr6EFQWNWMLXSbPhMXgtDl9JQ6rajvFLY4teiUn5Sd9YkqjMewqRIntZ8SsazvfaokZgtbGdQVLk52uLNUijgSlfWsc1PouPpRnNX2+0mZKKshQVaw
+2socMwgoVrZz8q9aeCgKjSyZp0y5Yv35J2vaOwCykjisezu2MIO2z+1aoVqFOdkrSZ2EAYVjOc47s2RBBIRb4mgwnPKG7em6qwwf6b+b4UBhf8ixYsUkhAEe
+xFjeN+BXT6I3mOATKw77qoHUN0h0G0SouIGIHI+XFkzabY6P52LINiX1ZmtJ3WGEaIFvQ2FNf6OSdrRYNtvjrMm/InI42qxDttVcdNmYCmVwTIccQcFvd+6X
+hGC9GwTLApvbTbcgEvNvYxKzlYmRan0TwLu+2d96LUKt3hKueHqjHXIdjVTPDB9cLeMZP3SKhuqXq9CrmMGakJSgr+ioSDsL6WpgDETn9UzWlZ7bEENCsO6Q
+srpMEMf0t1hZzgHeuWX0KNHDK229zdcGy0ZGB/yz9u8LStXLKM6Qid6Kuen1H5SsD9SqekGhEZZll627lq0yQzU7m9WUnxX6BbGmK8yLEeIVeKo/6dArtffC
+CkSCtDILDkGjSt2ctex/ZfxIwMo9x1AO7arkiSojcK7S9zR+ijLOIR6fMf9+/NO6TERY6AX/cbBsBVhRYRtxV6yysEbJWXN09zB97CzGCVbW7BJcyBhMFooy
+g8aSJ7R9knv1Xg3rXliflhN1nvk+7K9ls5CH8saL/2ZIYLD4rgZzXnhojrCc1QRFUR9ZyFXm6wnM2hs3C797/pH7cKYCQeu7b/liSBlce+5g66ViyVRyXG44
+rZqwrLXJPhUBXFv+tszOC9lK74ZmGPqyLc+hobTeazKLNjsSxWoC6bJlFNKytR/CadyGpf3BHbR8C8oA3eLdO57KEITn4JMXoEW5en7nmJP/haqqtHcKXXDF
+RVqK4KJUgzI3TFYWNDTuh3FNUFfzMEnmGt1izQX5ZfxOhdUUeZXHBOksGZyDGJpJs5i93V7Ue9ZeZB5P/eTTRQQrKUO7D2XYcpfdP2fS0hAVC11C+ZUjACgL
+DNM48RqS0/uvAskyPo6Lb6qnuLGaiwtQxNLJt4zdu1HEkhy2TSUpYeVKQFjDhjGgiGSntXDV0jJ5F02CRf8rrXdQ/f9vxMqSzWJE9FLXKwliiVddWoYskqYX
+eQRHhgcwy8cvxHHRirFy8ZPC76qe3NrE+J93iQVtWirOwjIm91Ad04m7WMNGOUOuq0bIL7U7kmjWjXcpUtWkJAUBvEstN9lfWUUJctlX1kSJ7QxRCwQHzQA0
+ZyEo+RaUHAhnsBVWiWcNPrZWXy+jmwG5WlJJVtkk6AnC2Z87jvtzlpI2VX33y320vu5CvPz+Fn1GuIoItMejIdBirJJr1ovruvfsjM/EhNGvrfMwJlAtTv2O
+kxoWGh5A2Wekiqxq+5eChoWQpLRE8QNGIz5WHJqTfbWaqLQ5f/TN2MwFYNrwlmwmX+sNgWcp/0HiCFGgcF0w65H9IMyMChtYybx2jok7E+8F60raWfXFGEt+
+sizKkhVTFRjiiyHDReaYAHGpZ+0uxXwTaOYH92NoPLN0Yi0mjfoOHihFJ/bM00IwX9usG/HH5Gfx5eWHxNomAM0HtRiILAJNEtqZQLQzcWhXYpNQbVd311Cm
+5F0l6cwVSrrKsU9omm/ek0/mmZzTQRbKdkFpi4vwSKTcnIQ5+hcScmEKMSe+k2niXxLVcFv73ZPDTfmVoraBrUQD35nSNhltLYAjFL5gWOiAytDxQ4awbU+Z
+dIO0F6S4wLDu48HhK+FA0InGGH7arraJbEN0YUVvKZPZxnw24xHPlC7tNQ05nA3XVhqvLW+9EkPN/IbOOMdDM19kQNEyh50vrcM5x+0QRXAb2DYv+HwN2kWz
+9TLmq/sbLdASGvN00jTb+/8gblafnS9D1JEgsPAR2spsM1uQ/HHga9eTRmCXPsPo5u+i3E5IbLsDJFne68eZFhmhxvijyM8KGd8FuGyb4mDP7U+kWzQ1vyFR
+aJuU4hAQyLZ7QxvHiDSBeMP8mrng5CLNVgpLJTlj424OJHWdmLDP49OxlVEsjwo0WZyvxoVbG+ZqdnRNdFycYEhQUuFm+W7czgoWfghUhz03rhk6pQIxTi8m
+ck8OXIZpwP5j6+ibh/x4nhQyOzkVrDY0eBzxZLOz7LcYuYTL4XyaKW8czRN6WuX3gY39YTYFky1OH0W2VHSZzvWvHVy9vlGtYdXckhETA/+VYmkM9VBnUHS7
++vMpjnyurfjQXDdOeiviAGsifyEhuxWZOJHZOEyi/7MlGESlWQuqnpI6TtySOOvYYji3/L5cDJplSc21F+FWHxRyAFn3llu3Jr9Ofly9pYduzgRq5FOq2yvZ
+cy9uxpB/Mux45aKymRNw9VUhqK9kOGRI3PNzFjuYmWOLeguJDYP2xIsZkq0OSDj4hLaXV4KJN22i7+LefIvASwQd47byzqLCXJ6S+YquCDF4azzriHYkzbgN
+5bBYbyhfrh1UvFEaXu90WYRFTQKeGL4FgnoC8BAjYdvI08SzUHp3OEDLi1snLOGQyWYMySAzyuHrNc2R/ugHgXEhpD6WB5MmpRjH0l13j65b8yhJDeZT902/
+EtrUKH53eB8hSfRBwJZAjv7guER/oPDIk56u5jUKJQFuF17V6UqM3s6SdojuDYLOPLzpWk2aBrWXH1jB72FLRHuHt0c8KqJna35diFF22cUIHi2U9+nS3pvV
+JvfY+S2wI0pS+uSwXTdt15AF/N7n/fnm3kLqo/YWymLEqhqMQPPeo32O3Zekt290FhNpO+xnbLS+8caLddQfOun59vXyXoUBFndU2q+mVAAYv7eIvU8eGR4T
+qX0E3Q1Nu+uNmbbzEt937jeFLq04kH94v6km3m/0/ePefvXmFQC4S6GVm3w/zlWi8xVz4vzQQqyv7yd5cW68wHR+TVurX9oUX3EYYh4hTbDG7GyCTjYxf495
+eioQ9zbO0Er4dbQ1v47MvaQAgsDzlpy0cJGmSJ/JAZT+dzb+HmPCFyVnV58UQNJq2Ptc643WJY3pN3aXm45mP0+sVmQ83mStu2hhWhOKDBbwBu1vkwooyW+d
+eIqtn+6ogCbyb3nKnBsXP8xioCg6AqV9PcOkQ/bpPAIb6D0xDvyRqIppbIfpO9g37K1+xjIkJVAQYE5CY5Y24N4R37cfZxIBd68wK1EQ/5LaCTWQpj48hBpT
+atsCJfBosxwMnYYN/EfWq1MZwmyBGXg0POG4S+SLz4z8OcgO5KB+pkJ0VrSPAbMW5ZH8QczuL+ovThI8wOPzzjsmtOvmKwdIGDh+3DlMNKqioToLIeTr0UiD
+3nXNCTrBCZYzKASzPKmlOzmsEL/C1BaMIEEZkASf7ZgWkYPzU37gdSRT8I8fldMMeIJHq48DVhBHxYZ2H5q1Pxm4p4jHk62EOYY5+ipIWEa/JG/Gs/77Lxr1
+l6C4taXg/kYX9oh3twM04fb0JP+CZxnmkPg0fzeS8zM0LT1kvy2w7Le2w0OBQni8kj64EwnyG8+UWzM7JudSBceeeEKoghBqlQ+OAWyaQMLdkObfmCpwL/1m
+0W8FYEJYSNGWGLQ2+ILpA/jncRyPf7fPeNzSVhmhnIY5NJosN65vXCBadNFxj+u6SbT4oag8vfzo9CJLcbCWStHUUGKI+WHaGJOAcYmHO265MfHHyVQku3eE
+sHCPDeJkuZA+XH/CAs/kDxqaMVwZhz9c0TvF/X0eXyrdFScmaWkxaY17cYDiFA3YwIv//ZCoQiGHEvyErF0199sJaxm2vwQRGmxlbNLZaH6n/MEjOYIu1DHL
+tiMBSAhVcF/bqvhgYPcggTVL0MInHBs/kFToAQ/3Dxnr/Jpt/nyNw9DfwhbQ/uEQ5/Mzp40ZuvmkRCBauRwf09sac4Ol81x8T7XxBrfZY/5dTR8dtkECvKDD
+7/UeCCbOr+pJzQSeR/AVjL6tGm85bHmCqoW4hq3jJCcgb7Pk0OU5wKMVfduRXrOBzueZyMPY1dhOCHRFdTCH0z/oId8Wg8CQeYf4eKgz5sb2/HyBxZm5IGOm
+1RGXgweQcs58/IavPiWQwHcWykChkTn4FxNByt8NZplKI+QXUUyFN+glO8iHhp4PWZx3sOoSmRmDMclv8Ym2tQETK6jzgcoYMBLlT4dcaBKt2ACGs6GhxJvJ
+xkP9Xd+iEWdbEJb/ltaHrFApGlHMA1BEXPtDvZEiY2H7mtLzglVO27PLIgdHpUtU4k0U8+Di1yQY8c45BV/oBTTG/OEi8aBNnXzDMAJdtJCVmJzM0PzAfuaj
+QzefTMTntvn3IvZw79qdjfs+MYpMmmEn4kpBticjOqEELRIOGp1me9aLuQeD6RaKdisUA0nxlHgFGDDyEBkfoPRyyxnG+uUuNvtSxbbkehXBGXMe/D/MZWmR
+hTFgUK0TmaTGsAaGVPzkLBVYuiOtCwAhRTrySk8qCRt2L/dyY675I7MMJ+RPLwSsvxI7HLJiSZ9JdUwmY0b2yHRcWYwU6ljFOaYnur9wQoeIY/uT6Dib8Z4f
+B5pbPz9kPYvxuyp1fvrr/iqCHjt8W4s6OTNuUkDRbFAfccH3O3lvig6mI6TYnqJrlaXCHjRO2Mq9gTaIRlcF/piRN2xU476i31HzQvcEe4B1jJkHRMG4/DQO
+Gr15/r5LXHivp8G31w4ar9rtLRuy3JV36Y2fuC7QHt/JhoSPuR2iBuMyCIU03wjuo10lSs/CY7/F6JbUxzypEKn2U+7jMSj6hp+cszB6v43SH4neAQLpGgew
+R44fxruYR+ZPyOf7p2+dOPm48ddINCwoz/FLY8TVEoNkyKUp+5+vuyDU043GUBmHC0uKD/oI9JBFRUDSMfVjO37cHJAuR8GlowhIbwCW4/pq5RdTCPoEcPdf
+smjdXQ6F/wjmkeJNCD60JjA/FIKGEYckSJouwY8EavZ6J4BAyojs/znk+5qFHPtatXp7w3368pe7LRQcB/l45RGUqxuJ/+mL/hsE756ncbZomwxJypqEzHJm
+ISe2Osat0Qd6HNL5G9EIxe9LpoopYWrmScpXcIq6CTdW2ZNRief2wb6iT+8tvNnTW8ziJxf3bb4cJ434x5NtRxY6lA9nPH0Z7KZ7UkLYeb0lyrL75DwsNEfS
+vtz8KTwgmE+PN/xE8IkvBMcX4k4cxSNsHxqgkNesKRDyL6Y+IWYP6HFNlyvlj4touYfhSdHi3wkBnfJtZNFjJzjpQVgf4zfQS4KKQ6ZIkLtsyww0e+zWjk0I
+5moL3hJ+Hw72xy7ti0j5z5i8yzBNLzYPI/2/n8f2IpHqYbRjC/x7bIdV5EOyZPLIJGb+3un9QpiT8Qjzyt7qkQuUhCA8WJWkztxjE4r62DKM5jFf55tWTmLI
+TkYmB4yQisnU+jG7yKdC4bPHXP4TCimZACqmHEgfXLiW0Wm7OAsDM26jC1DmOiUEc3W4Jkw5+ZIxw3gCy/yNOY6WGffjw3KNCEOpH0wQgWK2jv0hoZLhLv/a
+/eExQjkyPDJ76sFTufOn62V0shnI86gatw/6W97ussxvKIX2dgPEWT65jzQfHgThgPIs1BAAs1lBY147/T+wzSnpmzd6zEf5dzcUaeph/PfXG4TmbTeuH2Im
+iM0BlCbxvI9SxrhO9T+uSn0JjrQe+Iasoi6rwoqKH1CX9Zc3lzGMCj2vnCiJUJXU7Bjdn4a7xyk4WMKBgydOsuEld7vlmE8XaNTgHncqPVTdJ/RuS/4GBqqR
+i0EZ+xhq2lSrrn2mCIDMzEK+df125MS5OTEx4M13tNaQP+DpxF2CrlwMVK8Lry/Jmtek6uFnclX/zd6/mo8XJVeTqRk7l5hbZ8oR/9TJcuodgE2RmofDmouf
+jv2pezBMBj3Tww4k+acaGVPziIlcpffC27st7x+/112quOV9ygPDEaTt5Xk4wGVmjQEJmgnQfIrYZNkdkqYATTmXMcB3rfAXSMwUXSIunS2HTO5xzCyEXGJf
+KSRfwm68wGlmWGl33fjITSjiLgEQdJCsygEG5l4kHXTbi8hnBH1LSJh92yuLnneJLut02Imm5Fi3J0tM3bYB6MsIdwk9iCW76c4EMiYdqMYghDS4vMOTxsuk
+HHQZrdBtdvMhJg+GXE6glkTcwLbEW9olBLrLjO5OEICETm/nOF3jztpSR6YnZ4YhHfP+VdyJDEyBl2B5JV4uCcpskZ6QGlKODXfZD2Ifx4xaiXn5JaozuZez
+tMvvIcTjM3HENS8zc/i9tLcelH3ZoWMSEh1tMQQiNAhQSjxHXf2QIg0WM3ntEjGPFEIaL+uKdlZ+L9Ikcf9LwFxEo9bjt+zW9esazrgzTDXaGFiSrLnnvaWb
+P3mYmxiQJGR2nR+yJGZXjTHu6r+KqKqPMemZuRtjG2Finm/hmSvUSo59xbsuB9MrWxfqkIiTrEZScALjST9kaAp/jLMvyKmrrCsqktjJhSqzSrF+fGrSNEes
+nTHBmrTVMxnD0e1Lz9yXmrIXvFkwjBPF6QJCgmDxLtiy19GyZV0dEjiqAc5e+ySR/gOKPgg38nOMhYA2oyMFtElqAC/croFjsHPoiH/fU4xJ3JQpmmzUeMou
+8CQdFblneJrSSFnS4BIU0/1T4aRS2+yCLmuRsxESaOHhj27GW7WYLNkBI/rlzycOLoq4Jey8wwHm7tYM6+lgwfnGbOhxl/m7Vgye5HK2vrcj0Cwa7kvOnBhO
+V3s6TPZo4Mh93s19B5ITUCRkzn+v/EInfPd8t2HiwDq5jUNS+SEkj/aBLBkqd7/iNoMUeBGdHmbEeAhYvBIFeY0fCZ6ugCOqLecZmqekPGBtADw7GZyXWM9d
+ACZykTG5NyxnYjrjeVOCgQQUgxDzt70ET746jETCPAgrSbomDMi4/Zm8obRV3Pt2JmTzcM0EmZDN5DDC15Q+KV9zTEWMZ7IGfSU3rLadTE1fxjC4b0/Ojd60
+3kPY4nRp54ZKZUIEGFSBm4nZXK2EA13TI1lO8lfuTunYcPlCNhcdJKHU/q2UoEmNPiMhoGum+0LNo56zxujdVLRob8zv79uQEM7+lkhNw03v291cpTsRcKIy
+c1+me4nIFJDZcxB2cXfKIflbYsDzpM4Zh4yk2QVvUg8pN2Il+j66FHYn5o37LCysjDm+y4wJIYmHUz+SzgVskkib+5iIJDRm8MniNGhHbCNhX4I2d9vb7RJ2
+uRujluRNVtRTlbOJM5v6k2c650IN24n9J3tTZe7o5Q2NEQkbNkVjLw61vQDtc7BcEYRPgmviQB5yNhfJniVvyYE4EsSDSsf3KsQ2niQCaeBu7kltuNcM3rmD
+EqldvgWf986yt6VjhT3OiXfMaPnG1kzGJr3NPclfiAwmwZHOJcMR1uCRTtN5IL8IzdVi7ijJuSSjS6gkgZsp8HXfLdV2b3UH785Fa0oDPdGSAErZ2aRP5k+i
+vjntM5GcLMY12ihpF37VM/uYsrLII3NTimemBSJ1ce7/yJtyN1cPjzUYhSjR1Rx3JBewLM+bO2rVS++mwELUpLzC3eqMYnbhkdyLt0HGo93FQUQbvT2cTlCp
+WIy2m2f+ttdfpfitkAk5xZDZfm7UxYxW4OVbomUuViPlWaZxcLvSJWkZziOVJN1dFA9ztnSTsAY+syZe7lqI8oeV2XJE0XBYhqS6CdBMAHt0wDOUTCZT8WS0
+VTGekWYPNZImr91Im7vt7zVzC257jFO2OVFDm2RqXquUGxWuGrRNlzVC6R2fQ5ECSawWdeFRo/82sCY0g4hCnrktC7i3XU4BslDOjyzxG/SiW3OKUPGNs7iP
+i5UYbwY3gtijw959ocNxLx90r0CXPQQsOsQfKEJNBfmd3xOnLl8TIEGGo9z2XAEzmIS2NFLnp9E9r7RK0dygNIYotUsayXMoKRNqSimNxvpM6YEXXOtJaQRe
+f/+5bW+omO8EbL5Ep24vgJ1/o6zNLOYq1VPhXreYhwr+3EGcAfeswj3ZIqY82y5qc2/QlduW/e6NLOOb1YifEj7XMS+i5TsQv0kSXe2feKS5rWNA4djiEaAt
+J6RQCkvdNteN+YBB/yGcvCb205dbavyN9cX/AIHCCS2SP7fuyNV2ddydaEtNKihzqds8/kdLakn+HScpbXRVAAS3X5a3MJFuGSghJHS9NTjreCbdk0BHfqju
+EI8I0hxBxAyLtQFD7W1uY5yEaHsxlWMyHaM7vil6YZ0XwM5PjHw3I1ik9cGFSuDnDgOCYGrnJBwc2Mz6DyGL1pQObOge/X3l2fW+VIRp2YNeNVp5kQZ6387k
+ggLfrf4O5K/9nIDQTwp+TDW8mLNAyA9SeOjatU+Vy3WpW20EUderEbJTMeot0aLqz5x/czurit6sCEGGjd64G52FBz5w+Sw5ymfqF0daiTaEZdq98uNdi0UN
+zds57hMvStVhGgJrCWIpHQ7K3jlpBFy6VKmbHx664hUv18JqoEpvgSjUBhQDYOrJNo+KW4cUTfqyRjcu7VGituBZlMlrttIkINGPjNT9I7T0OlJAAkep0k51
+UCvz5XVrMFMcHiGmxjzNKki3sn8Zp37zLgsr/86VZying3BTD4SBcEzWaQ/B1u8QOpp+zJujbvvK+P88mcHB1cufvk7+hITcgEEVbkpVCZmns3jVOTeSDQ4I
+tbZRqhAchQBCGfLxuPxK3H1wTpMNe4cEghxk9Ibck7KK3TYmAbUqYHzywdhZ+WiVlk/pfsr7vv0XbRG1+bfhYSrX8c8KsAdWPqCOSSCzL7barCUpqBEJjaxk
+t1Qg8Py40gFM80hYKs6KuLLa6SH3MOBCtBXymL8mroJFNuzLuOyJPw0T6KOsH1uS7H6Mvj4PIKqu57q2eIrlFrE6NsTqtMlVXWAKoMAzA2drQEIxrYflRiic
+e/njzaeA1I+F+OIrLpqw2Ubpqtv6TjGWlJU8XUMGt93thy+G1ZAFONQsfBnvAYJ1SrAqPODDLTtnNIRqyzMBunqQMRoS46mwcraTQxbac0vGqqXPKS7HQS16
+rV1+aDxWAKSWUy/zIVUllPWCfIsTAeopua1cNRYlan1ARvVo4jcDc+UOhObHUmac87CQYt/ewcXSERTmis2M+sCpW0ZuYGGoHWjUOY7WFcOfYuZ36drIG8pt
+5Ag6yFdxAJ3LfoXZ+IhHhoAEjySsqKSgWmao3KI3pWUdOWw+EI2f92uMUfzzwt80U2pxjz+gsAJDdV1LDOrPZwmLLFoH048Zux9TfFlg4UNk+FTNpea8FoOa
+FQg+I2G6uxDUuj7Iqf6Q4h+7lSqyuKz4MZxLSOp2SEet0S43XYofs1NzMvWpRqsKTWUTjoiQtg/wZRjgocg5hZf/KcManReC/ZHcFqfow8MdDWtQn6IpJwA1
+jPv7z/vKxIL3hUuarh8UaljA78w4A4EqC+/NcPNmPSXO03vbJ95hUASRWkWkkpb5FpMYQpjnu1Lz/VAynL0TIkYV0bj539G9A4dCAb1K30fLWunbng8e2ocl
+dBSYq30//vzHRDAe7df7wx32eicR8x2D/+stpPNyqe9lRPnr0scf4jYlnTX6JhZUw6KRCxGSoOAQGoMvk1sBsx4JaO3wfajwBQgplxuVJRBwK1/bHIYa8Rqh
+zVz+1zcqMhRd76/t9/Q3qSCG+ZEQ1Y2pbgjq7Z0CWDlg8KeGib3MO4P5emz8MLU1fUWvXKh4YTXBdXW5+TWuX7zq8qzAVcNk+MhvPfw0PsEUZVcKpMXL2x3y
+YefHXuHCzl1WRkMrfNLVNblx8lxfnL+xNjBtPb25Ggc2xeDRgR9aCkqfB9itHkhH+ovIV0/2KLmDQ8nCGa+BfGpJsE22eQGq9B6ZsEwBOgGwz0Z+NbjzRQ3Q
++m7yaJLXY9CRsVvfiVgV1CMp9noqnxmagTonPLZtmAlrIbOS46t+/5aV6uD3wr4AMyveI5RpMCED8x2Q2PTTKsofKHnP1bYYBH/v6OuXPUt05imElm39vUa1
+7+JmEydrlUS+tVWwfiV71ivaYEyvcu5JZj2OGEwailY5Ap6VLUW3/CoJtZH/k0Cul7E1+uheEvdfxLzIqV0oMnA26GzukHzWti117nJy8/rmlL/K1BiyHIt0
+hb+YiebE82/b+u7nT4pMiEkoLEHv0dY5OTR/W2ds9l9Gh8VPApcZv/dvpKodONj7OCUAlkxKNHCvDeL5l51uCFY3EgCLeH7fFmlatRgFwlKk/o8EhB89mCN4
+2LisQmGBoihdlv6r8ahkybe/uCJsKCMWfOo7/lP9Zk1E7PbcLsJS/8gzuF8QYv9Equ4Qc3HnHCn4QbqcyXAmxgpM6+s9iHCNK+xangjZsQFks94vJNnrL9+L
++ZqCsA2f3T/YTMsXMnudyrI859xDv+3PJtvenY3+aYAcJQGzYyPRvk2MSihtVjVLEO2Rn+yECc5NtcRWqnktS0YOJm1WlCwrttGvJ3i2rPnaKlz28iDAJl84
+DK6/UFphpotSNLBnWU++QB/+XM9zqFl1Cm/+P/xsHMzlZOxaWige7vEfcu0/0ZlfzKSv2ZDWa5jHeIX4l5/z7dT0fC9JEn3TBZ3R9Zrlcb6qtzISWN2ZmeCn
+XiFaQbI73Fngs1JiydrKAlShCn4VHU7RhqcmABquAJRZ0GwvInXf5MBuDQ87/mH8rFJlmVwo3I7ZdGJooXf6/JOAi5txqJhQoW2CZlf3VH/jljxZ1HJ99dxb
+lM25h7FP5CDaX+7ChX0ErGRuAZaRj5iJI4XVwmWlxmu0TNRO7ipgm7kMfjYYLNW3Rxi2rpTxAjBVoX7Rh9jK6PWkb+QSirUdZb6fmQh+bhO9x7nxX4bvJmMp
+RAfilriqM4bBTYgt0TXlRwIMNfIm8ba32b+Ht/flideCSzJcCeZGWeTbJrGWPi0GRxR6sxNWEx/fRNiOCdhtsUondZSZ6awSbZ+lcm4NG/zb4icXEbfut/43
+MpNGUjgMWnbLfArTeZJzu3qDntTgvIu6FW/LK2tG66LdzLNB0SIPs4QfU39r7nU8myvnBLXkEHI6SJ+1b/bGWeXjhk13Qmg9W5H6kM6Bz3IkR0bsbZaaDVWS
+iQBc6hhxxfAkpxsz1PGXrVYGHMC4hXhcSLgbuKxeDO7wPuPOlHsrlTG0dEmd2qoI6bk3D+f4vJcvDu7DOkfTgWnLOnzvIiPfQilrKOsqn/PdSaUL22iRfFsT
+bgtMTNxt/CrBq69vSaDjr9ILHJjyx7W/k23LM35cT64F3NrnKtd2o4BOIm95e6E4BuJWeHdmfDguUnmAU17TcIG8bVi8K55Qf0IotN3LRdNQEpsp8tANzuvU
+MoCBS/FeFFbgpeG+JwWsQ/uThyDcV5ssiy4w4AKNqGHkYHeYrz0eOdc9hFLnTinIp1yn/DvhVmhDbhEz+7bTQo4TcrG9Jx33oprhrsrU4eChb0Dd5sCFqCsI
+l5s7xOMfKbc0UO7DlITjJK2iNjKuG4351Yl/OVIrOZc6znR4ScellgYKx0eCBGL9EoINgUpcbu6uunirzAexqfeh0XKToioql7NTpWLDyh0BW6g1TO7peaY0
+0iQvN3GuJ2vQz9ykoXtjnNYiRMs3GHhTJj0SrXw1Qf7yTXPt7zi/8bcQdfPStPjAUJLk250t4ylG2zcP9PG8sgb98WQRISm6CbrdwojSm3dAw5KkC2YmLCbW
+yI14OBRYBb5g5UWBubJUny7SS8olOCaUOHjvrrD6Ykckr8FfZp13V+Sbuyzezd1HO0vUvbVt80IRxxo/yMCfMMc3mcMxZe9A9W7ChLcWGCVeF481XF0OKya4
+rDPGLErS5cLcEdjumpjdbTsPBOYtJ/ZjG+eKh29JJ1xI3LIHmd1J3r2ilybsa6X9c0/zZt7y8WWFzuOj0t6nL5xXmbXGjul6cOuTnQh+NyfqMfn/i+a3jpJ7
+BdJOgksnygAhyG1E8NxNgOKP8b+pXWMHwGP0e0ZRsGP2NuMOIXVMuBCS11aLkSBbhe4jesltEeE7GlEZHfgfXsejHQqrD575cSI2CJTvXhL+WyUbj4aGIRL0
++5hSfvm/N6+UWdXHeL9y9eNo4FGTq2X+elwhR0vcHlQN/HJ9L8iDInIvnPgHneqw52Y7Hm4wwFCoZQSLkiXdRiJwAnfHNd69VCCJxuCzWYUgtLEfRf5yO5LI
+ce0Cge08BpPqCEgH+vsnOzimKmfJF560Y76rYQ4NWJzpoBc6ecD5p+ByIGxVXDB4foQ0X1LP3JjIDqF5MYvPq1tFcBy4xsDxGmp3YFr6NBrIhFAX7GuaIsJP
+txGxQvz3BNeVs1Z1PcaM/Sl58KiWRz7II2cYs1xv1nWM9jb28IHXRguWFcxGg5jgzFgJOVv9jW064vCODIM8WsxoyOSh12LwRkiz8zmM+7US8iRDmFKDB3Vi
+70M78fHHEyNbbXmaaHvcXa+DBWzfFS3P1X27cXpitmQBMVDDF0UvUMB5KrXwxRHvuYkwucQSm8h4JZJ4/zREcQKKfaNXT5jwJfvMjfZ3wxOXxgveTNNEWf/x
+jLdMbWgb5MGHvIkjHrOotGq+s5YrYcYkYiLqF3O8iNCUGxxdU/0iihvJVfW2DUvCitdPykQfqI7/QxknqDPV/FVzw8KzSORxjPkTv8Rs0cYJNr4a13jR9a3W
+qMazP4pgLEX87Fvendg3+anvWSn798DKLQtBHHfG2Dvms1JoeIhH+3v21i1vccXUmIeDzKmSDGa6G2rBR4rGc03EHJvTJ5Sd1BA4wrsEY3lhDYH8/qKQGwJ5
+TNJxQxKvj1PIsXsMIQe5k9B7/Bu9Ew6qkIlM/tAdOPEiTHlhUCpU36OVlRwPm4VkQjvNNgnlkL0jIzlFkpKTqDxB8y4MCSX6NQkgqPSj8ZCBBKf8nWepL1iQ
+qfFdyWlOtHJcKHZaZhH1ajRdHX729xX/AeC+Jf++4cG++x64cvwcbJL9+sgdviy9vV9/YIzJ8t4vDL+wMzqXclGqbZGBTBDBHgOpCTzEK2jM7NcDKnL0jfuV
+kQUotw0msqvtoH6vUyzymuRjiaxh6eI2ayzk6Hq/kOZWdzTlqiy0myTkJCUTnwMJeSVT/0g1PxtTZtaSPv/T822sk31ziVI0/cniA/k2vLxI2ixqUown2ckD
+3gP2KuH4HPJgY8KRx9k1IHOXKSf71rV8OrRHbpI1dbEW8kdbW+JU0ZZsuVUIj8yyN6KRPykEJAMVBmiyu94RbTzH0cY3jf9B3Y07btzhInMY45kPKdrObEZg
+Mh84wPcaLAYCGRyzU3ta7xXX8jMKwMjghlcGRsM+EiU94ozYxzpl6xY1q9wnJ5ltHCgwpL/05/HeXKBoVZJ3fYcNB0j4P7oRpjF7EpGrYOPnM3nb9QnoA/gI
+ITsoZwKQRaDt1UwquNkVkCJgh6GRjRNs/AiDsstXHiluhwTnanBcyEF+cc63Y5DvBCF3hguFfGz/wS7GJA1xOeyH4mfuLqPtSVABakwz31jX3V1T3zPKDz+N
+JdFCKbH38uLCFgpmQYRDNS4IuSZ6XD9OtFCMz9OMWRXxxefwkGZ8ll84yCs/vIGQARo/CQ7jy9ZMYN79ZfZr0YOgAfsuAMR2j26MsU6RWUx7LvQhRIRTZYKD
+JDSfr++Y7SJJ9t+zBgIMYJ66cv/8YzjzKLDsB3Tg/+R9DaMwZYNB/g+YsShlnLZg1Nqc/v/kpGZG+DNm8Y2PzGtYaM+rl6ncgMcXkNcdFsIzehyBubBvmR6G
+Er0jhtKUizeodmZP7uoj6cjpWHk6BReuDEAJIuteYdzumQHytIKxHyXrBtQsTtcjRbSJbTWe6VAa+wNKGTDuXuAbk5zwNPIWRCzxtJUSb01F3OUpU0pJyS63
+BMtuz8ZWfmI9h2DtEYpyDOFnIm+3nMgh2dmsH+cpgvGLW0ZOuPj4/qnhlbv6X5KaWUKVRryBTz4+cXs9Z5G/cxWtnIV6n7Nlh0PE3IWXy9v7LJT/7pt0ZRi0
+c8maIk84iHEfhbyPHRDkI30lz3G9WEJFWRsGWSPqaYgm4j4mQXnlTGDQRHPaSpOFvQyTeU3qcrTTxYbkpWr0haqhFDL5ymMlg4QkpSfdltM4oDLtC7VjFPOh
+l/AplZf8rQw1f4bhd01ymufxKUJ4MOQJUHPYDT2bSLR50qN5i0JjJqYWxQsUUnI2cpHfi2ZFuye27dMUHXrzZyY8nMlTtshJSIvb0BPJV04qcnx+lOrcahOG
+sr6JI1fLOe4zqyAjir6AJwkf7mv93gQxaI6+YJlXaMx43J5pw4aAIk7YKDxj6Mzy5Z7Vjv8ZHaRoZoyiJ8VL+EgZd9DEhkiHwGh4lriZp6Q136cGa4Z+/NeE
+DONL1z4EZ3jeJStOPmWYFaV/pW1FVGfDNbP81LDNc5Kae8HLcaIEOAOdl8OcQQHwlyFmPOXzyWH2j+7alYmmJoMaHPOWOGayEeUx94hiFO9TmHj5peTdM4w6
+vNDArrOW7JOEJVqe0VdJVfR0Dya7+IAV1TyX5T7HFAOk80PMM9Z5Mp3ZGXhUmdDMmzYjkLbPiI26fWL3P9uLZzwML3x9G+TnKyP04DsbJhZbEvaz0enSkRu7
+3txPW8tQXFObtyEVM7w3GQKMMGGUUZdts7zOz5acK2dQdV6FQR8iojecIRKW9xa/HMovz34o3caEYHseYpyf3rzbuj3iWm+wfuFDD4TqbPPx2V7xZIWCV3xz
+qXxzbNx0gERX9x/bdelPDeWRMLP0wEcPiIcsrLuVJtnSE57AO6xpXoydE3y3Me9KZyJ4l2qUHRnlwKs7Qy9wW01ADbcO79t2J3x1o8h8rpluhWiA9ZIvbuIK
+llgo24d2DdsVDkeogG5XXG70L6soqakhpRtIOlMBVwbna0GKY046cINMQ4ne9r5gkKybtXAR/HGjZMPPOn5Gg2ZWOtvEPo+VMsCkRVN5ASXu59WysDkqNt1y
+scKmZzYnbn+tr0aQJrkC2ez3tbJ4dsiUXlMkUjrvrCQH4pBf24L9am2/OCRfA8BEX9yE749Jnx7xDKxpxq0sEK6sI/4QvT56RDUJxSuOmmi6/DTHRR/HxYtO
+eCX5PO6YkI8WIbQW4rjWksxqaAl0NMThe/4LDqW1NLLJivWEG90F3RXa9UyMSryET3c1En5t4Xprud1+FpY5oJICEVsAiXc/CxVeT0rzCqsGTg3ZTtQmmq35
+2yiwMhF8/vrmJ6Al4DqGkpAPoKlhZbGvlXOnIofzWk22pUiIaNErMUYhi3jsrDm2mJO51v+a5tQWDvbgPsA6+laSdi93wAol3N6reXOXCysqBX8RLW+cVahD
+cqs/okk3PZXLdll2mkcRbuqWnffinG9x2ibcGmp1lmjOhOxBNrasacqgQsY2J8r6kXfJ2QBqXbyEfn0kibuRrU+Dj1A2KdshexYKk409Hg2RPW5NEYnNcIjy
+vy2pXs3sI8nS24rzKj+cWOw18aYCZUViD5YDw3Ud0xbllnTWzT5x2aY8Q6N1H0LOsiOXbUgg9Qa1hD0nDRwzeMlUFIXtnXbg5HWeZzKTAEm/i/BsIH3I8kVm
+zyQMgMkGIH3QvwvPdjptziNLGsBqxz3LBCzjRtWtEAwaC5VRbKuC97UxFvzUwrOzYNPSQN5L8q8bLHt7K8YGz+bRCeHYAg87OlMU4IIyuqeEYc9iuOPY7/zc
+EcazM9yvKgrbD3R4is3JkUKu9+0rS4KvoUF/hFa/AEG/hFnjjwJK3bDRh18fdr8jwkLVCn5iPAdeFxY1d5HaVsiAuKmGA3dpGasWFYbgK/nND5H1A4TaUggE
+vGJoITlFPPv+RTEppQBtDxdUhQDtTFkTmu1XcZqKSG1oVchqbAga9h7pDUttHsulDpY/hZl9JjTb+7Umcjc6/lFUL+u8iJ/lflYR1WLj788WB7PczcKUdJ3Y
+XyHXLyHWc5UmnUTrufwl0XqaLTct7NpzLyVB5LU7nLwsYYe+oguWvz2CxZJ0zRAM5/ryYO/M2camNhr1oxVMlHpNhMVy7wy2FGb9lTd/yh3PtmJuAGy1ppR8
+D/+E+OsEYtNJJiNb4yK1uCUaCtvs+qRkcwVR7Cnud8sR+SWMIUMDZ+enIMXfWW5NjjcPfsovWpuo8SR4s8LIRhZUiVb1aiyUUCldI3s7SctvKfblvwz/Xor5
+TpC0r3gwG3M70dr5E3TGSuFu8GsA3G2LQSA3s1OEOG6mOgu5AHMjcrOLI3nYrAs8xGljyfyXFG5DRoSiOuFB06BXMe4G/PbVefC7S2BLZiOE8Ev2KVHeo4zr
+XfT3XpPEXRua2zBg83PFc3Ml4BDmrVLWz0UBxsXC32N+Oz396qUuaz6yZcU7IXt7S153crm/dRzK+stFFu3de4LWxFqv3469JOkeLIo/J/2DS1lYPF3koM9M
+oVm3dMMGt84jkm/t1S9fVC6a1QhC9vZ5FKwZvgfkkb0T6O3nJkph0hGX339H/Qv9vfxSp+SuwtmS/O3lH4V8CPoeG+m7T0p4FsuD6g20G4+49O5nGCL81n5N
+ZHef7O++xsDxEe+dEy00YrbYJhf0F+i2npCu89llBdrE5zC+12+uWOhpkEj9zoOMCXsS+l3PjDbGzHJXqb96uVFLLyB8s62rt/89q2eG0l+jgPl7R2ciSzwz
+yuWIA+H20OLhvLHZ7WZ/jkUXgyp6COKp5/cS/7nQ8/suSfwNYRweGEQaoRcqtOR8hsTkna+k2rDwkY46GOTwxrmw8wV3Gu7wZakjs/nnsKuKoPGukz6eHob5
+ut3ghn+46WZX72H1iysmSTwffUjjw16bUnzFaKBWrjbE0HjOW/u7TokmLzOc7E02OWhmMrQxL2ZX46M9ICBv8A5Fkx/UxFbbbvmL4ZXnasC8sYZCe6weTIuW
+DaXNEeYtLseNL6x+GcEbc8jOGkNzOtyrcHMMKT4Th2LWNDzzP/jmZsEic99j/kJC7mjXZI23eRDWbzLJ64LbVa0mhxzCufPMeUw0vCHqoMYvaEdCx4+2FxUk
+/vIMJBBCPsxjgsHfTLdCJBr8BYT7uq3JE7fTJZVDCnY91sSCk68wwmuIHwlEmoQZ6NOQK+CIP3lEKeHIlaoUBgEqDrl5hhe0KmhEb9cxk+lmFiLzi8eG/x5v
+HnwdROSBDO8TPn6L5xgaeEznzC4MVQMXApor+TNvncnE/isyra8kocdUqxb5372Ab9HnMTjktoc8FZDe+IYhVscw4YWl/ydoe7aoX7SxJ/f7NEwIuPeSKG8M
+D1HeSfLeJIhnfhZxtT4PRMza9aFpGKHkGrWaRu8sVIe2RePO/4qizib0AI2BBZ6taPIlCelOCPR2KliqY88GNAroHo9GDPc09ALjS//deTKFZvvJQ8L3IX6c
+fPinM6C58HiXWx67aaY/0xvKCFhv4NnRG0UzivKG4P2egX03myAUl6ym60lnOBHrxl8znmsFkG6bVaQ2GGeAFQC3xW1vDRK8b0v+zRrltAsECEEossoxwBB2
+8WhOuLYw7ZNyvihgiPfvKDVlANq0fURxQ5je5ORO1B5JvHZNePUZ9gQ3z7RJkQKj7QAHR9t8kmljSTjaKkD7Js86udmYc9PWBMjhbX2jrpbYmbblSbMlIntP
+QvagmL7Q7mGJpvf7YtSUerxVCWQgtBch2mLA78OQyTVTEoEmur8CKvuTOUkT/otZZjZ1kie0GxBsz/l8mQNO0R+/ZG4nMjqiesjTjrvfOP1pNvYhxDLVpGon
+PTkfcXDM32oBaI9H7q/e26eLDG2KqU6QiORfE3Kv03wa9zzNI648j2gkMJDW/YSUoL1/3008clyTDJwOZb28PvFyF33+BOj1nUIE/Jj1tAmayvZIILdeJ5Hc
+cKFQCu+TcDpBKeKjNWnjYwOiD2WG+11fwq6P5LZXqRpTztymhhPB6ekK8mTiBzdMFSNOjJzc7m25okMgemDKdcaprq2Qz5SldMj+/5Azw40RHa3ng5BLoN5L
+KxTP6gHHzawrN5hFdZ8DVGwKG0bbs51vFuzuqSTmNyTPY8yfpDZPYVrftgbkPsk8FuOutxvx3DF2JrxWU9K41+2Rm9u9TFm1VpFA7lmI963d2/FIDoRbhAKM
+exXYvbDEiByT8E2lGrne8yVVm3u1zM9iJWli3G57GnQToVpTGeOOLrngMpV2y5mrRHToBmh7FLzNxWnU7bhaoYUp/HsRUfV7aYj9EnTg53o+5jLL7+ZC2O+G
+eQRz/5ck6NjRlp3DbzzZBTp3PJe/2xC7boxuXuu2kS1kn4XkQfkd11b26Zc+hUMYM5ngNwtdIl3A+k2ilKKK8U6U2i+zbL4yRkYZiMBofsvnVYB2x5UK4YAY
+04UP5iCcboL7xw1698Zq6m+JMxQt5QvIhPyNYeBGxYdfpiTjpzDuA+V+FbzU0eWyrjiehIf+jMdesvIdEUJx3sZD7jaRIszcMI6nnzHn67K+XZwker+X4N3X
+XoCMmQgHe+Tg4k4ecWJBEe+22Os9Jlm4IAbYHMObczNY8niQ0zFAQrIFnXudeEkhexfJ3hOY711A75XpfMMlR/uyxMFwWZoNUd1GUPLFK40JPpwlfsfON/QJ
+BRevTPkcIrsAfydweY8zx7fJ/t0E8MYMSary9ndUsJI/5n31kLr/si7h4LIIJPBPFQUuPzxko2lTtGSFry0EBiEYnKbPF2y358hGsrY3OYLAwMEtkwvinpb6
+5XmLQ97ms9/rq6p5ZK2skwoZYzDA26bmpg21++pK2RuTapFX7nqkh+A6+ICrMI/kYQTkEIZ1csE95pixiRofd8ZYIi6tFdsA3NboHFqBtZT5OkAfEN6VXMkb
+mijtUevC9VFB3pnBqAQ1DyGosa9jXulzF4rjCPVYCMxLoje3Bs4dgdth3grc3j95OUJxq51AT+nSqA53DfG9oZCM2o9z/tH2IGAS2SluwrZ3gv4RnL8wqr9E
+cJDdK/2UwHjZ4Cm+HGmXlx01UW273eNZu4ZOHSopXApbmVSJDPceIzyVN+ZF4vi8tEo8Q80zWJMHTt6n79/cWViTuyTxT/LDc4ZDpkDCxnMmN0CDkzf+5ZOr
+If/9goSUV8L6QvCFVXNhqN/kPLVMFxkq8V8ix5OXzbJuZq2E7mpuyML4FcprOhKY/Zr8KeY8ng1NLpTcE1EunvVy3XxABBGkaD/CkU94edL2w0CLeZ/Y8kxj
+JGh3TPlMQWxR8smXsdHHjYFG/ph7nS+O9Cdlh1mrWBRCAAfruu0j26+fZJH/+Wt8ngWW1y+xPKHiq7dAMXlpKC2CNJQHjd7/RJDPSRwX4xGSYEGl/PFMehga
+dniArxSNwZYhC2/94h0biM75nnqPcuDos28MQbdruTNa9t91eeYNRmPPJZHr5fHTX5+PzohQgIef/9DjOYEO2axhwOUsOfSXVaKFlYMkj6dQO6m/Glf7Snoy
+oTtQymc8SypwqlH8GH0DrWTqK70KITWboQ6MRVp41h7vCRXE5gjlsEdDGSSXAxGnvChtHvK+OUKjwNo2eO7xUPvCN2Wa+wqhjiFME+lNxOPdun63q8zdenLw
+NP3Q8vW+JPK83QPQFsWbexOLOZdynozzTaB5cs0ld/70xCpFe5G4Q85nqKxv9NEVgzPP6i69E5veMYb0T0/55kI80qZ7WVS3pwBFL+n8vdFKy2a1av6ToL60
+2JnQbpy1bd5WN8ncGvDnZ8zUVBKi1W95RDH1tI2md0vLyEBIN0nQLbvJn9Ml8HsWlz2TZ9Ezh084ukviSP8e/0b57WOM4fso/xz8txj0BlDsx3XjrI6rwHPd
+6M92vkfieLnfTCBE5Ms9RV76sd7yS243+eBjmFXLltKi2mj3f8rQAOocdY4GktWb+oOrICno1KmM75EG0FcLdBIVQBRXX12KBa9O4HDPQs8kRR0KqJL23ryi
+UNSlszc3WCLU2Ttehb7mRS0vYmAEpnOEeM+LtHO9wSogsk7U7QHaMJTxy/sve3Krf3TFfnnoxj7BP394TQu+sbiuzm+RQ8peHscDHLoQayxEjIjetQtaj2ye
+k65urT4lDfMU+Og9392Ru9mXW2s5SdHDTz8PYDVizyFrX5jgkM4N2wxFFvY1XQaDPK7f0cHlcQmwh3VO2sgDLMhjf7sxqXVAzSkkm8zxPVNnkXdt32Sg50ua
+DQ8ibA8Z6DmrDS1x4jsxY80E8I/ElWeMyUPoLIe/Jxn9kKveVvMeLktEi4cDeLr+RSnq+a7pncg4JwpyWAA8jPVShg0x5RdXfZKPvRG9d+p+7xLYcYA8kqSW
+EPaPf6+JeMdLedw9LU1FIzNL4S7Gtqs+fzjW5GP7Dzj7a5Ze9Gg5CizNrvDXd4rQQYDPZPSHjuCHBSQeW39KaB8FtbtY9RAUwI7mNzchYPaX7Rfa9NAfC8s9
+nuIHJQSrYPZTMPvpOwUDwlfjVP9iCD6orSyD69EqPodsXuyH7oskuu/62B6j4/iDKEMx7a7hP8aZEGMI7nejU0LjcjDLPxXC4JnHinIfEtJ+NFg7AfBcZDQi
+lh8MZbDcRbvPrvqGMvminQTGvTpsd05OtGLex6T5VzyRD5gl0N6v/2gTED9nzsID49yqJqgx8UUITwtlaGh5oOy1Nvw7q4nROk94EMGexHifsJpOiof5do+S
+jxC2nCj4k3qGkOLz7qIIFe1d/SYcnhXYELs5AZsa0+WH1zn6F7dd2+eRCE5ZMTCRLZ3tP1j3ekmVd79iKogdDf3XdkhCfrm5dUv3rG8CGWSav52z1P+cXtb/
+Yqtofuqf/bUBSfRcVdDCT4UCEJe7+jPqeR/BP9W8jUK476xNXr8GQ4w7M3YM489KvldFjU52VjKkn9Dr9/FGz1vNb4rn4H9hnM2nYDEOXp8znxPLR39IKAJX
+EjTiw5H4+mbq1WQlsAYtw14aPfZkCNMokV8yPSHSMXRXYpV+DNqt8ycmG0A7iPuATf2TN1e0oumB6A/Q6CdffOTtSjKvu5yrge1IXmUpht2YmwgL5RnXKJTo
+kaKPI9cKQD0Y+8yAqC0EQ/lTrQBfe8ro/rjgEDvptkuwf/SuBjBn/EE1M6LevmT6v5z2xT3L2AvZTpS9QZZVq7ejfN30070xs7p3fn/3YtbUgWp+IQjA6q7j
+U+TYu8V1NHr9G1r5tV9PX91PMR9N8R2uQ3cRA0Zr9ER3afuHgHO/SLaPY7i4oWlnv9YAlxDUgU/kPftL7j3uve761gvpWAcfeeU+JQmehRHAGN11y99AQmrX
+imZCzP+haulJ237ynlP4DicDX7GLBur2byBIRyJDbgloFiHdOOQNk6Lb3lXEfueJ2a5bNHti8+lhBbVv/27wLsPLu63FDXa65qO98yIVFRDGpymh7lNYQtT+
+keh9yEES90X0M3/vtlE0eIuFCmlDvxaGDJH63UaFLtovw/8m9h7wTJUKPuZwINY+ztHBS1SlQ2atkW7cnqL3T8H2a204/CVxIuJ6eUhDKdaUTf7+33ahJIt8
+fLjWC3ff7+dcUq3Nr81LPT6qrvxQLJsBkf+T8P56Noq/Iewim3T5anPE/M1dAuedKQ+QMPaxfEDHC/svHkPVMEXIqc9CBIjE8RNZqCba/u8L+K/QXn66JDR1
+/0LSIfZvCay3ggGH+BRXf8xfRn+YA4ntL0nSb6cVD4xA/in5/KevYYDCHszZRaf3nQ/93xVDSXL6iyT7Z+kuvl/SvEN3iLfw+lXAvN2j/P6Wxd1VY3S7atAg
+ohF9UGPjfn03VWJ//YjbPzwxM6lm0vmf46koT9/eviB/K07UOQn+Fz6mpPsn5b8I7J/jQ5sr0vEHEwFFKzPARbJiWrL+80TMd+NaVFhebIqI/1f+TIuCtDoA
+2z1LBMzXR0mdxKwMQL/p9ZqqtmEolNWov6XmufkFL2k9gcE3hjzNfT7wmLb89S0CkR2aGFJE164buRHWA+3gkXqV2/10r3nRYWhbPyBv39rqQ8DstIpJ1hLw
+osQQXlo1gSwkwHSDihoSSpkNdkVvaVf+vEliBkR5gZP7vhz99eQZLK0qBPMT6WHEe7GXdOx0ZbvYw3pYe6lzmePIMgJDqyJgjxH34eD7PmZlsQYDHMZiiQEq
+Dsz3fNFgGaJoG02mc+TpSpbzCOV+kUQUslhMqCOI5P7ezWW4v58WJby/+ONyGn+/DGgNETdftLe3Lex/qkHRQs6nVj3s7iur2t6vuFcOCgVYLEBkQLFsQHzw
+cAC8gzEf+ewXNo1CEKhKlg7YrmZPUnLqnkUFsBXvuNUIPEIpjxHJ6HPHdNoU2bnezcQT8E4OnfUJiCT8IQVzMpnuvn1AS1tzgAa2u+UGcvUF/e5yd2iZBnAH
+dzjI3b/Stx1Xd/9/TJ2JluI8rwBfpV/NJAbS2fizwMDTX1XJ9HfPmbFEOvviRZZUmfJ/ByXHutuSU/lo8nS6VQ9hYhBXsqcDGzgSMLC1NPzr+rcRbU6MjnLi
+MhED7p+sn1zhuiQXYdkEEmDEd71MYYXpQHoCM0BIg2ZCNGTCFMMZz2Vq4IOJkGfBAzIIBnd2u7lyXWQKZBLDjmQ1dKt0oVPh8Th1lQgCUucSN2+qo24tX/aA
+LHZYBMAHOEcBd4AIDsvRUGxYBG2LrIej+/umOErfMAOZgj46TLxguun+xw9gyeULYCNKS6IAHBBT8t/NeUUuf0KKo5QNsHWJCOgIZk3s9CARYKeXZF5BZTH5
+PzbIX1kCORhElpsQN/EBg4sej1NcQY4lUqluP2dXncC884GtEu2aS7CxIHuJBmQwTZhFTZZk561ZlXI4qvVV54wCixf91TsyMJtln0ScyQh4mlmfbFyZNX8n
+JKEjjH3ocl3S7NREDSRPgGwxmQB/z/zXCSc4MoICdVhTJLSAGBG0h6dWzKuAKKbjp/NhDby7UiEFf0to1mU6O7xV8/vCH/OGyRW3Ve5aMbSks0JdU4oIAO18
+1LdXtM1TrpqmAZU9FbP/YxFJ5kG3Xl2Qx+zdqD8bEeHyTsrBLSEED/2lh9RkHmwm2BNwIKXgTKyBQIQlUSQGYER5i37P6u1ZmLzR0zYvMBpUt54f/JUogkQa
+uKzVAVR8/i5bIx2UekdOz2QtiBwWebD7jKf+S+CI9uBMCEKXqw4iCjrTSXT4DgLiKJf1wMM3FCZvLu+kFHzIhf5nWIduYJb1kwwrUg7elutz4O0N9SKfYDf7
+9ElSASyW0A2Ohj0woStS2xRKMhBIP38m3WC7Zc7sUwOgcsiVyObknqn6EAlCWHqhAefs2ZpLFTk0HsLkkdl0kJ3QFkeXjys93RO2iCihKfw/joIZ2WMwEd12
++ALvPtEJb5OGb+eyP5kOQstk7CRAajSFfHDQE7yfG/ve4NuIQ2i0CML+YQWs68h3FIoO+2IT7MvYP/kiGgzN51sl3fQoHGEZE5IgFoFe8/ewAxkjj0HNqEFI
+CtxjulBfnkIaodSZn5hRW0J+XnCACqN4haXBFAiQSZrCEXU9DkHqF7Pfb20+FmVJCARTe21bzYkXQtkXBcMincl7xdJIDIImanIaymfwZ3k3r0uQDLMlRdIy
+zB04J30ho5NQu3KkYoDLhd4jZZ+nVRqNovxhozUp5DJnnC7MycM5eIOvWN/m7RDXwNvLOPNwrfNYD8X9G7oIFWsf/nfm8u0XOLZadcH/zpTkqOxcW2gC5gUj
+ylKtUiAGKRDVITgONpZJj9jeIiEsxD3EgSRC3Pja1q1wcqv8htVPZTWp/rpEjzyd8y5r5me+kFO8SIBwRCYKgjzv5iW8rJkyvs3bKykHzmXINBihiJRw0gx4
+xGYezst6wyUh0RZ1f1yn85b8iC25EZRCFr7vujMz7EnUR/Xy+6RWdOlwdxHQflnxJYYuYXlnvdLjfnDBPZkyIRIkhMTg5NOesq0iSTLRLSEbsWJigphti287
+jmfU8tIoICIAoFhyxW7k0fyu25gzoJdfglQvw4c6gvnaFYH9IERpT3TY5FIQcnQZxABEV/eIv6r46VorsDq3YfjjvqRbb3Ir4FQ4zAjJGBhQhQaVy5CTppfo
+9/B1DOXqswb8DOHhA1/hzQtRAUM4or4Q8ijeQqZF4jTiqp3tVr1LqTiyum1gGoKKoruYKIxJJEarxXH8lX+xlAbEiLGEhIyx4S9I08vbRUSqIAmIJdU/EY0H
+KeOziMggTOxS8f9OCAYzJMh7GcRjRF+ApxNKgioMDLtE81i8lmgIfUdIl/zlXOTPBFOEjEGxtIthyw1i0JDIiXz9qt49F/InA7rQWgbigu+49m5MJZkiygQ9
+VAgFJQEdodog1dK3o7baBX/kKN97Mi6KnklRC8NeiGESEIWzrZmwh8QyENRyKTtZLKOqhcImkGKYG6Iinkqdq5CIrVkxVb8ICh1JLg49ZVg4BwKygoRASAo/
+90LHPSkOG2bZEMTse9aQV0hoJJ1iTYjFpSST4mK+vktZiZe7FGIREXhiXYhT95HgrczizLlwMfGzUIrhmmyK/FX6BsuYxsanEFaBmYyrmDqALG5fPvx95DmV
+kY3xb/T9zsHvpQyJCDEu94LfARiLU5jFkDCLu6Q4KRarBA8TbMnX6DzKJZkYtuIlPnhP/aJjePnw+vyU9wlGtLxKLHqSuMEcjlFWg2XK+YkvseingBB3cVQJ
+F3suS1eBeAeaP0kUwBjM+/y3BPc3pld/zLIitsB5DSby4yz+EBh5D6I2y53uGbZtu1a2NwAKhwbRkdYBXbjFuiTxIv+wSPnBZHaCt2hsC2IoGYY3+AUIi7ko
+xpaTp3zZGbdkZqQFHNZJgZPR3d04GjjdaIrD42LkuH7k3gsdytekXSSygpRZGSjF1Aw3HDPZCRFD7IKwi10xCdPQAYQ/37jH5H+bhtwnIKBuTSAGz1WlLl9C
+BqiIeEkbKcN9AZVYSvI3CnnxomvuKInYIh71lNgQPWVAXpwlCRuErWKFD2XoQGOs9vPAXTwIySNTA9jXpGTAxjjWx0/24GVjiEUB2axgwLCpXVZ82suUwUEx
+XoSn0Zk3oCQKsOBd906RkhhDxZACtAnj/J8yNgeqZif6KbeccgI6yRi63ExbEuLyg8dOnOnV87vyeH7wEaGAqQHBoy8zXdPS8a5Gg7SxTvR+Px95JNG3e8HZ
+mBYZG1TCqYzx6syodYrOiyd0gV5E15X0t8ZvhjKtn5/Pe28Dkgbj+Pmc37QQH+ZCCLr9nAI5eHdvyPT/BdVhVt3PH10tNG2Pn/XjH6KrRhDvZzWXCQuYGI0P
+Y+2Y5vgMid4YeJwhdBd/fxUAHklw+Aw3CfJ4YifP46LowXA86zd7+ac+8CmE3iHQYyKG41NFFSS1g78lsv2T51nxOApB1jrwIPLHYHhw9kx5Y1L4AG2E7oHa
+LoR6/UOAQxTXKBY6ix9ZrZ8YUHbYQD8GNLyRNlbiMz7lqhrn/j7ph75P35n3ubX0++/zXvZPo378vIcTVoeJrt80RAe0jg0gx4ZFBjxH9EQ/g9COtgf76q8C
+pYMVYIzC5pAY8Z73KGQonHo9/ryiIosG/rWdDcKxgqhY9Udd7uckcyM+NMolgRq3GOgeAjWkDcDR2D/COnDCYidxn6PsM/XPa/i8Ep8Rw98HqIyEWcPRYDHp
+RBEtDbYaJI2RVKqhSKRYjt+aMr4yOltNLcZOv0xxRinOYkk6xsKkZLwAIjXWV5I27KKpNVmPZG58M3WnnhiOYU4exsR0NLyM+AtOTyrSOOplzf1EDcW2+JEh
+zB8FoOMLYhhyUhX0Rl68XXbRGwkX6bNM0eWFpO/6Sw8GEBvsgPmy5U+bamY9gbrRFm4NtiEGLWRJdsbRspC8pLM3F7b2o/z98LRN0hv3qxqS8kpvDgSZ3Tzb
+TM6cMI0GGyHu4UWSOAZPADKOBs/4jkFeLe/aq9KLIt9eFJckUTylXZxJ4cADJCfAX2CpqIhlZCRyxJZZXMaDYjgPYBgbCSsUAjZMbP9iqiHZGVNbPEyufLPU
+lfeFCw27XSBkLKnyKKMhegvQgGQTXaj8E7VJlNHTj68XxYU2YK/sJL2KoMsXk+MvrI2cayekhk5SbtHdG/rjG8/7PP2soh16MnWcJI4D6kaMjqLw0T3XDcDD
+DznrH/cyRn/uGd/mkLgOSlrx50rCvme0iSa0emqdhc3hiCBEgdexbCvLmMrekNEiT4I6nLbRhrgZgC/FY6nP8uV5XABjCKlxUWa6ePIFDHtKmCGDOSMHlPiP
+Y0mUB3+o7l/rf4jfOOGh5dGhgOHxhtsRrwSIERMuIJhxkAayRM84RJ5n3e76vaPUt9iPrZUXSvEVdTkFjYiaVXhDKsEtT+yBT5qLm9CL6rj6mY6LT0l34j/g
+X+jvieDGlwbJIG48IRlmjVle7zFpIPeV0WSocadHySLL8ofzmLwLdKzW86WSWWdxg9x/vs6QyekYG+8DN5Ha4B2mPLunHmPpa+N/5GsSDTfJMJBptVBbvKAF
++2guopMJ2+PZGB9pd/nSczFrU6M8fecTBqLgDCaeWG7FcCI6eqGOElNuln1JUkjXrKeh0tn8OfFepGmO0z+dezy3eI9OfPNZyMt1PrKWOefH3WwXGnnirwx8
+seqYFDqGQvZvjzcT9iEgf9Qv+eOM4fuR4A/17ftjoLSBOGh0f45ElRwn6WOOcz6JUiONv+wQ62GFuBCYtnytB+7rnLAEEbofB6Fb8QeTET/S6/swdTB0iO3d
+sAgHqVmBiZCgHLnekjFCvRtKwuEhAtjPPjbcdQ/JKpv4kHhJSf+Jhv3lx6mGWaCI0D5JIkcR3K2eTBR8rd1Bnf2lDQeFeRhXLMatghkRe5IDL+AiNyZZ8RIm
+Yy7zRK21INsYUPpcbc7DRBUYjbnSxUMuvThJeayvdGg6mAockpx54AIEn6SjtjjWLd+X45vmJ5Sen4BLzDF/ZN75Y51h4nGYldwRgEieYEeminNlKOlqdKzk
+RJZ5EGr7rg7G7cfasQzcIlsLKyk2dcdYiPE8krl9DCJaD6lesEwShDIYLSjURIwJ3dYdWS31YYqLdJKWi02qyfALrIUlJP9FFBkoEpuAn1iui/CSdf6STS47
+TJM4hFCRe4JSeIaDkJOo67f1+afpBwHSZHPWGyW+U8/6LgTW0QyUDz6HepwUh8gRUnXwHOK1/ZRkmpAARSpD1FhfWglcEmkl+A5WmCQASchmc4DajAI+SaOH
+bOSW5q4zc/hCtFEHmiuYjfMwQynlZR2TUwK5BE7JR/rIsnqUZbB7C5nBleYZ3Mk0JfjuSMMHcqQgyAaWSTXEEqiJ54e3C2aQI6cHjwxxOUgQAQ8FP3HO70JT
+Hp3blwHEoWzMoe8fxtI/+3s2K2RI4QcaoeSaxCokf93JZw7WZJB18YKySO5+6GHYA0MxHxFyT+Ff65Q/XIOkL/tLq0XCUKK/JRLgRbC7AtTJi5p/p7sS9xbl
+lt64+9MMnfF1G6+/EyhOUurTlCr7uTJ62M8vY+VMFDPklJ36ZW/5w/aT91vewTkPslXm5FlgKN7P6Z1ishwyyfgJG+W8DVADQ6luTWb/kxwg7r1BPEznT4XM
+3Tj+XOJQE5qBg5uNQpzn+zehe5xyclO+zJNVMEXIQfQJMGXhKLhcI/vkrJSPG5f88Wqh/+i2eNGRTmTJevZ/sBS7G+BSxtJ4KUV2SMIpsAORil6Z52YeaA0+
+oV8uEFCeokNDkXwySF4ZRA4cGf0dUkwLY1x/9SBIcF7dkpzi7fmCVB4ABUJk5wntnvvHb1QKCfNNbVHeGYLFBIuKS2m7uyfzhIHJkAe6gvFBMT85vZq76cvJ
+nzi9U1Im3YaEDR6kHI2zIkklmtSUR4oEq2w4r6vcfB9C6Wq7ABOc84HvyVdJrkt0Wcz7qPblDYT+/Q74uN3gPufhiaJL4Eo7Qn+07InoGmf22BYESAxd2izl
+vhn3vG/4m8buNh1L6f6BUTl9Cx9m5t5JLXxrb+Njc5CUlBZICg+9PfZHPGxRLqSzhdQyZBKB/fGHwdvjyTu/i3+x3IZH9T484v00hzwJTDtlUgWMht5ltrAe
+s2XkfErNZDE7eVco1xxW7usu+mjVKyCJLrxZq0CX5cbeV5OaHanwm5tGQNCCgOYrCmYiOmtfTWu/Dg2Dva+VEOJ9vdjOiXVRSE5YvTpyWfJ6LOtD1su6UqMt
+OXukk859cDZ8n2EKxG6HvApT6PhsDCCIsoFhJkYjUeJLlOAWOyfx/KyBTZGxj+vWfRDxhIlpktZCtnLBLddrG5iHnv605H+D5mK7BsZF8MmrVUQNURJjKRKk
+IrVW7dJ+qOZwG9yjw8A7NOjeFWIQ8DJktqTQBLcse/lCXbBakMp2HxQa59Fue2Jg+i+wJjoZozubv+czd5ANGqWo8Tx3kWVR3qnKmc5i9LK3qBVcDRIyE8NQ
+Py1THSN+9nzh7uKrWgcP0LMghLuBIB3Qk8RCIh0r7Mk7k+Si5WMnzLjZFtBNHRYKnw0BV70wF3lO0TkwdVgot8S/VGMkQ+b4DMVv6Z5+9HsCYFxjSR6NlZGJ
+DUuiXhLvQg/y7yIqGXmUOTuK9sXHkDUjcTEEKjE5l2dS6PgKgjk8Ttym6yD6JQE3ZfYXlkZEMkfI2Cg9RmPTjuPRF41T+niBF//YtfzkoXLx9T0yGxXymiCW
+HG5DinnSB93r2QgtcT7ZSdvTFxe+TPS4wFpUmdopZyEz089eGzSGwEZ/lsfQoDOgZfahvYSeV9XVGQJNcut20xwgfIB19n4geoE0TFzezsakYXtSkwiClEjT
+3tq49TcWMPol31vznwz1ZnAVQBpeIVqRWo32DkkgLj3BnfTdo5i3qJPfQmo8tURrC6dZZc+81w4+jTGpyniOCaqRWdbxOLr1IXtmIR839BkRAyTl5zvvhqsI
+LkAzWBGSPNOwKy/ipa9fhMvL9kNp0ifV/vu3SyJfpNS8nEpgRNhSLKunESzRNN9l2aeGTcNwXZMiP6Lh95zW5Al/NRV8GUXXfHku6/RF8TDoNFlJ8mwmDebq
+31XzJJcY+p4NgbPUR1tY2rVMBPorCZtVMfOd2t2zIU9oPzQMTW4eFZQdSlg0q6I2FtC9Nv6O+O3UHuRWSqUtGUiBnFqfe6xYjcBcpNu8wItXOZJGsz0UxeQ1
+Q4PV2PB2TLrRiqQyqMQDTaWThVM03OxOs//s5TWkkOXyst0McXyo0suzg0S/57x+iHlI2fgsZ5c3N05MSMzBEGUvOG5BrznwU0WRb8M9QDryxI0+30UGFdCO
+lPVvUXQd8JTfoTbyQobMdPMuG8rhcZdvvCtqlXVDnGD2+0InH9qaRByvEsPA4Ia9nziDedE3sycK9VT4jUeZMCIOqdQ/jTJG+4Bw2BKXeQA105xEHBE5wGr0
+kEd4dlMVoiPcZhwclYHJ2estb9lYcuCeWJysZUrNEUKxU1I6MsurxVnCpMJJAtJfSKutqP0hkXzipaZpjy4MXBEd5ZPwur0d723vzFq5vS/DL5QcwCyn4dwG
+jSggqfDUD0XicRY7YoSq57hpk2Q7lVtoGVsNPSeKAXtpyLsUHTZxvLmdpDmKcjqBhJxWLiEab+bEGnYVs1Mbkmf9zIJn/qXhbyNaE9oO36+h8k+xO742zOGI
+osEPZ9N4nIycTGutKgxHOAqx4YJbCPxIoYVDpcF0ZvPfxfhqyL/cJOpg6sv8YNsqbTnELeE8tXFzNq2qUHISitM3oB1zBt8ZeQNIQKOsgteR8UrKBTJFaoir
+4JsvrwYTrGISdcPxB+KNN000HnlYM50anzzXi/Lt2GyDfxCerlcfxBvu9nB1LgTWDomnEARLfGlFhgO/1XpqWyE4pDFx226UtZNTNltiJUTgrOe/ROHAV4lW
+N452T1pQ7IkaLwks9QOVXjYOO6qiaR7QcghgBPUJyGZubetmi0vYeXSBcB30KsgMkiicvZFxYJYps5ndEqaJP6HhkToWUhKq1yKXtoqrobQcAzJj2DzhjrN9
+387ap/ckYcoNOAEYZyricciQlYgc37HyYXZ8y1BTeAzQZP6Jv3FSZssaFcEtyidczoegILwU4RsLwDmnL2yGbhA2Puq3LXeC9XZrwR7SjzehXy+O5ocTnYZs
+H9Eo4u0HuGMNtwnXkXVVBkaTGyEevtglA1b5CuQ2UHpvS92Zg95wmOPYWaGUvlEQgeRsP8lgxCdS2BOEHI5x0WMb2btRAZrDHPT/zuET9ylEfAfgcw6m1UKZ
+5eeYQg0xMMuM5hiemQidsP53MjCHr+PmtG+p6DD0v+H8+R+2j8d76+POPkjt9HhXBuSPs5lcHuRygrljTrQHNngxJVq1FRSae0MWgNXAepiQSd+s+AHe4sRT
+6GEuVzg+08jFj2pR9NP3aF3GYZPb7JaEltAub2xurkAFLPWnN0V+KJ3nR7Zg59BCE1QTdYvOkKF0Nbk/y0fG4CADSEgQsA3pPkn5uYv+WRLjU3MUqlKT75M4
+nyOvi/weP4/18zlXdrmm4e2x2ggI6Fgzs2fIjT8c+H+sKvOjNPLPcf9igEpyf+ARIJPksmoYL6lUEUBPXWRDw3/usS4f97mYRMQTWY4v3oSqnLJ8s/M9VvLU
+iibR85QDM63zahChrDdQeNlQvvYQ2EG/cIIOogjZbqBBNCTj0Sb6H6tugcjMF6xS3VFPsoKQZEOGC7TmTbQmeUx/Qdak+xQ3lHEfkI72pAi5PzxFYQJ99KdC
+JhBmMJF1q8/5taTMhEOPIdlFwyH8yLwBSfQZDMjY4QBtHayhxiaih/Jo2FWkeexkEtHuPYaM8AA8FFdr4lJ6ZS1jYqibcCU1yTR4NskWSiBRZ0oRZrNuMxAh
+WQUPesI105w+7kZOPK4n+QB08eWCrjW7C6FcTTDw86jx/onk+WiXgTzkW5tZZYUUNXJTZZppfH+VZBElVosOZXoUpzrWBiySYDSIZ0Kyf2ugEGJoQtmPLN0h
+VHnMWKs0ozPJRWKDthYDk2xiHLWEBjkx9mjwpJpzPSE7L815lgc0TNBGx+Dflj3vPSm3ZAzhc/VwfDrKLmLvU2sbUlN4nMkYDWFGeXHjBjSKQEfOJvbxW6QX
+uU7xuy9vHNIgE625UTRgfCncuHJOe6KGzuRvhZRM5Fdc0nCBHFKIBzp8uxKURW+dP+0ZcfUwQqiIMuK8y74nEAjLYFaMRgEdCR3yQWFKvXjUDRpZ+jqQoV/8
+tqn6eUQ4BRZ3gBtd3p3yiO53ApFuXpl2HHay4NTkMRYBNmpe8UJk34MQVFqO6OUTE6gs7lLvgD2Vn6RVlSl3ZRqzPKmptM05kvLGzwb0Ku7yfk4njKQvlgkb
+NoQk9N4U5Sj929LvvDB897DfmdlHKQ+Kn/VFDqPhB3f3qOdfi5ohdWqJzzFI4Adzo/QiJhdq4yDJJtr/E1FyTPrOUfR061uilHWjtx0VdvqLYmKFhDRrrHKA
+Qt7ATTwSiZV/SFrreUR9ARfp4RTLijUwemnwdQEaaeuMF++ZiedDA2g01XGHe8TwdB2Zw4iKmoEXVCNwo+svs27rLyPPFZ40J3PXorqKUrqRrXy96eC4kmjF
+eaLoxDK7s9aDZmatWr6szoE/Ra8mzoCQSK6UJJYrAWOYitfoeEfHPT5G6ZWHInlSTOZDVNh/lndfTVa2vC+QkaJHcoYwJ8MiyOc0lGwBknRLDN9irg68Pcj9
+mfSe9YS0g29QWRKOpKMQq2zc7RBzM+wua67a+pS4XiRi6RH/828MN37g5UA62lHFd4fkeUd3fMWtMuqd6cfshWSR5ITp1Ct/Fry+ltvzLbXolY1uKHvykpbG
+TWqEpfpyv/KTACCdWoqS6+QPBCsc97GmjKoRa/bSbolxRGnyiSdxfMlJsJc4WclJDZCU69cEKfVP8FBVmlN0EX/L1iRspAZDijGkJWCj7PJE3ZrlBfTRZlTF
+khE8SwvKUEapn3KIKhfpenwStsSkhyKXA2syEfRSLkSN/szvxcns+U3fZD4/dIBDkp0luu1/lKS7bIZzOxwwhgKThZwuRRBSv7bFUJIIzZmZ0GyvIXptQuTE
+uWCsD3HLX1jy/XsiX84phgZLcpAwVszEveXPspR/4pBafAdqTe+2GUdzXfBCA7B00zQvFgl6UpcWmzmukmH6GIIA2Hn9mGM4TplIKVg/p8ihUzRJMpNuKpCT
+SFc8R/3E+UZ9lNe3NjM8mqboBCcZUxRqspIIkoKdpCMwjmYwMdatWwUrlUZSan9da6KSGjppJtGkiRTIZpJ/a2uilFwNY66QpKE2WNIiKmn0phhqLi8J7IaS
+E5iz4yQ0aWZBXjZtGcJdmKR7Xu9JQpISFZexgNRY5SLFgFUI0u4rtV4GARsrSIjhnc6w8/Dc79KRTqFIc1KRDvO2q0GMrwkhyh+l5o/ECx1y7+bEuMIVijoc
+OMbAuEbkxQDzSFoMWCRIPma5moQl3bbcajGB3JBan6gkkRzDvOS7PUy+N8NEbmTEMP7MLbNqyC/aYxhBQkJIEtRE+j1RTNF1gdIy9Af5eGYxvS2d0ExeK7FK
+XdKnBo2xQ4MkTV8FyAoup1N8rlFzwQk6M4/gnGyleqz/5BpFp0XMkIHKyCLsxLCmRkg69gZIWlK6XDKPfUGYRFuSl6IBEACEtcW1zDwxJxmNbiBlS9I4pw96
+iAnDV8gxf9aPAKOlnejSgwfB2sXbRkrtZ6KWeiEt9B558WviqWp7CWsG6QFZkqeUBLXkowNV2hLFBLkUkYQl+W5Mqkdp8NWoAl0Jhk6UMF1qc3UEvcQLEcIT
+CBHX1z0L9pi5O/yGOhJBj1KXBKB0IOCSunTKk+r80uUM+YpII5q1PU2p3ZOhNFf5RJMT+koZTWCwOmo1OTMdkVwymc6EYcXwhdiBPaFN05feNHxqKlomZ48W
+rWoqQyrDJkcmXu1nAp5umfoIrNOZgvyayXmyFutuqwcgwZU/na496e/lj5oMqOhPvJMAteVVUhesCYX6Ymy6a9lyfcxp4qG2SVxQxyuUvKhn8qJQfBQdlvFJ
+gtTTiqRjKslH3XX5+YaMKmJQA7SJWAwzVeMDfjf1T/kumveERkXvzhvS2V/fkzK19inLValT0pG0qKPJLYlUGmLFSjFIESdl8muJUkmP2vq8MdH9lX5jXjgg
+UclXehO6zPInNyKG314ajCic+GFCDfNaEw71x4hakxqVaKj9TNcuVdO3zm3oM+eYx2imueRbTJdCitS+G76GkowlBzlIK/2MQ57BFYCTEhIYkhW3j2Cop8TD
+EqNZkVPb8cUc4VzyTumKZBNORtR+T9rUFwu1J+gHKXLqvghG2sanG47ekm1MJtRmpUJqAk8XI25JaNN2WxN110ZpMzc90XHmoUmGFhM9cY3Ay/nh3WTKzDMj
+WNIt4VI19BRBB8hTRNGydpJ7xVBRDnuCrJJlRP/0C6e6fS0cmOyPXIsPRyeahFPl+E4+1dIYTYsZa5HikhZGZ7cEVDX5BVDRMRZQdVjmUWUa5tWYtdGzan2l
+IuNkyCUylcY9WVXO3YbmfRw81WH1zO8NJiUv65aYqUTiyZs65E0lmMnmTraUaMliKlqQUlteQZ88RqKnJGl1GEPzdLoHucyBTtUEQYmcRZkE1sqZqkmgGp6J
+j7q32BqRUv6lvnKN6svf5WoZnbokZ2rJr64rOp6E5uh9eu+Fujx6nHBt3vTlQ4iCSkDTmZ2TkBhvJiLiKa/oj7WKkErM8WSm5BxzTOfokpoTLdPZc7BTOnOI
+sZnbVC2X/KXlEKhUpkUi6K4DUxUXI2UqLWTTKtF5kmoeLa5wGkbRPWimJxFLUwYaC5r6JFEK+xFEqftQnmjbDsZmMqz9QLb3l2e5uIKMqM0WH5mIqUdh70zT
+TcQvypf6wqfu69VjLd6PNeuNVU181ET0XcixPJgqBzcl6WglMCcEqVZZHbcX9oN/bSqZJy2GPOcufert4m68V6FKqxNzd/ZxMUIs5M80fEpiqaJ+lBx1fIA0
+mWySssqiOmgJQuipjZKIqq/JexoaW2q/rPw579bwONYRXFW8eYbLSK5aHszvqILAmqsIq7ehQaFeZVbp3x/ywn1Kxe17T+MiyYFoSCwVIf/YT07ZhNAGMuED
++wZT9WKGbMIqLEzq+Y3vmer5N1cWVcTna0lmWEQU91QTXLUl2qtSmU/18X0JovOysuHybpir3E9i1+psZZK99SlBSXXYG9bK+1mH/Y9zNae4JWcLinBuN1zS
+72QCH5whYKFiTzikYFUFjZfirjDLC8rmoCl6xUdG60cvquWzmmqP91zI7CiENK08EB5OLe3EU73Y/IRcz6uChSbZnMy1z9mW/pKJoKN7ZntAQjjFc00CXHlq
+EYXFtR1norgATwHhMporaiq4XENyubZBFBccOt6DcpqI58cc3UCs+G4L6KqzzXWi/uGwzstdeZz5MJmHo7bSgimxC39W2V5cTVRya663mzNRvtc/BCnZlU+p
+XzimTwbPbAn/cqdY2jlHsgFORQUk10egF9GTs9CvIy+tndHyH8XrtibxyxSOU0k+Qzp/rsn2SiBXKN2WWC+8NpE0eRORjf5cmdshW9Yg7QsqJlAvvqpoE98I
+UiqTu0Pdpy6tE+ns91TM7Iw3+uXLOMONJbFerdomOFdRPO4FjM97KRoSRiPhkur1WQY4VyfmmfEUV3QeEmDHU9faEEXK+Xg+dMENmc9wPEFEnS1iD8Du7csK
+A6wE5OtsAJ+zxxNmPKPjSEnjFsKdXVCjIxCbbe89m4XQMDt8mWGpRj0NNGyR92VKuaL9ZXTGnVUGbVPj9jeBMppDW+FG1VAKmGIJ4Nryi9baGcWru58gyMpT
+4piuayFn68JQbv70WOsH7r3YscR7fTTDI7/MUNljIo9Qku2l7+64argPAXtM9BKW4Qkx6zIayl0GGa4zCPFgG7dqXR95u1fyEJsQuWeDae0/HkKlIc/kaK3T
+2LYwJfKIB26UY4EjFQ0UVoGxYQ5Cyp7C8iGqrB/kmIlvHqPNYhWqIK/18ikJKZNRJojsjDY6tiMqiVJL4ohBtHi/oqfJ/F5I/SCis/CIFo3Z83F6yyU7Y3g7
+0umQYPY1taG3V8NEdKOJ6MaW7hvZ+3OO/uyY1ES5ZqXRzPZVdBXqNePh0BW8hFNJBNnnU4GDHSLNMHeMw3aQTLZhzCCGLfZC7G82SlnDli1DetCgEnYyDjp1
+KqZS1G67JZUK8pruFCLNjkSWkXhZkloaBcZhdCYh5NiIZcznhNABYxz6hKnxSCGY3c8TmtkBlS7GFO6qEiY+1rfPgmk3kjyMdU8iWdz/eNm4/LrpCDeaDP+D
+JKVeVbH3MlanhEge6GryzOaU6QMxyqeJUhpcnQWW7as/hj03qRLQLvkc60X47xidn+WtuIgxS+zXUz7Zqa7zVIi1JLkMvtl+t/pggCel7Gi0Mo7A5DQcsqif
+BZqBDSQdxuftKk5jhORDBep7SDsrxJYu7vuxSjYr1hxAaEeGQg14Fr1rq0SSfeLA7jJewagsrok7y/e2zFOjn3EuE0GrI1lJFwXPJZrgdPUaHR4pciA9Fu5A
+XPGuyoI74ybOR6QflbvlIgWwFIFoRhSFJIgtJQi0uIoob2L9UGCQAWz6jWo7PdJ+z3uuJa7M6a/fNRGJIas/ifn/XSt9/d+ViMTdv8af6mfIrCy/tYXho5T5
+Depsqb9kfGgMtKSi9Qk927czTsJpVZBmVYZvCOz6sNDS4PYbnQvWdy7hN6nYv3HZ367tbzbZgNCeu2i0/Cx//xvM/nLjfkuyzH/jgQwdYLTJeazfMixGhP5G
+19trKvee1aNFo2zJXX/LFWZCyLwFDP/WQ87ay8XM8+/w1aJ5H/bSM0oattlme6CjOZDpJy5t+F+8+MDT8LaXq9F8DhhOsbHc1WGO92VImOowF+chzDAQx5gc
+e/4Mv7gd4aQoAWW4QPOYQ8ZtJKEh04JD0WPz5/4WePWO8SdkDohrwoPOf2KYaPchOKbWggXu+XIgcqVthrYW3+z9jB51D0ktM+LfG7QnpL7bd/11KN1eghpJ
+kCWmAWIDu3ZW2U50FUWyCbM6r7kJfu7NpHw/iTXYc3l88/fo7omGW99E1MBRaxQjHeKlQdzXJ3iulX4pPLXzhlfpnS4TiDap2DLZAK+9ZIQRziJnTd8f978x
+ekBkfFNodHvvKxEQdxtjKG3PJL2tQrpivauguOgH76eNkXoHropkr0ZT39f57REgSq3TB9fun0SXNdDa9F7HRLptyXhrJK1o4+8p8Xb6fyS35LXpGmXXm9lE
+tyTEW8UDjqOoyvvqsOa+3nZ3ccsbkiS6W3LQmMdN6Bv2EDwShxSJFkAreduvpV1oHfMke+9bd99bDCj6khSpFXAL+4krZ5ABN6352jC+5SoGGNH3pG/86Aa+
+pxAf52XpQnMfpt3Sv0xp3oQPh3v4EI97yC1vC33skA0SN3usvpdLhzvNZTWvBcEiIAlxyYsiCX41fVrkw5UXMvFvS86xhjalA0BzOL8LWEgFNhi2YahZTC7Q
+fRXwNoz7H+NtSoZd/bYF6TTZoGzpwQWd7fgq2uFRGgXPNDRt9Tii5x41WlLcfKz2dPu/1WPkcUs+29BfRMQAcXspZMTcgTgsnLPJgRPXtmOnw1AheuzDu44R
+mASjENs+VqGhAJUrb63QjGn84su7PwGHNV7Z06MXnPCMQQsVwNkhxO1Ial7JMLY7Y79n7WS2zaLWnjUJbc8iuEzfNiVTk3ess9kfkel2a3+M+jexbvsX7pb4
+tgR1huJaY8Lmtkx7ci9fJAGaSDnixxXVy+OmioQrfzssv9z58vBaHjUZd4u4t8OsI6FsMuCWZLwtDaLm3GOI4ZqbXAW/9e516ZN3WXI2+Z4Jxs1QzGHmWfJH
+5sNvLxFZx4dOSFxC2ybhddNkSNXdxAwK4pqVlFLgJjGLZCp3xZYY607+T0Bx2/f2Dv+P3Actjo8P5159l9EyEIRUh1guQ/Garu1NITanSpWLdpYYJhOV3gkk
+9xpx2sOtRJwUwRlYFm7UlCpnOux+0NYEyx2ywxjO0tzeTrEuAufOFDqaoxCOqbolrercclPCviHOJTMptJH9MF2ucNmAocDjMjtHmU8nNPgKITNImskpShlw
+e8LweuNTb1hC6G1AqDOMVlZd8rZ+vmn4b9t7GeKzYW5rlwwXm83Q6F6eCN523MlQvpi6JVl1iu4uqM70L7d0YpdT1wamoc4liXWHa5KkLd6NN5BRNbl4oEK+
+oLp1Gxqr7lWk3VWwCfWa2pDwOqIdzKzOdeLdOr/zD+CmmZU7GnfPWYSUdUqJ4UMtoWQx+qZWTrqA5Dv5EaDvXm33bdOLf73IkgNz92Ru5YYt2UDZ1ITk8dfo
+cODzg8ZlrCeZGP9BzLs3YF5VVsVdRN5eM4VU3IRmgbytOeRASq4zE87NN0GaIES93FVLoYoi4RCEL8Q5HOU+cvLeic3Tjbf+P111+HgKTBLdVlyKbmvj5unH
+eVvpWnNAc8+EwI+tqtRU+iWPn798eEtmL7sxFwBhz8yjkPa8tilacEuODGjCCZYbk7u8ZFPZc/XSv2O0iExz7e0XvE7S+PJjcEB90/vBcx6SdTdEHVwE6a2L
+CDTUJb8O2d6A+IwIYOXpwmN1WHxA87s158Ub3BPXiC/E+TXzA5EzhvS2i2VcXjoM3qoxHrdo2dtLrQPUAWJvGxLIt8VIBjn4q3nkAIrjzQFUwAOty2lq8VBI
+9ajU8nZL6PdNVwHQfLlwuvrKVyatPJwnyPj8lu3prU+KY7STni/JfhFPqHcnB+E7N+3kJsQPAN55icLZU6zKv6wK1FDgYEMj6ohAeVdIzYDYxyTtrcH4thxl
+3WzsFA3vdy7Dmpw/AYHMAU2pUH4N8bfSsIELdSz0v8T4LR5iuU2J/lvaqTc2IPWYKaGvHGKO8bnz7IwF1PL2FXuz+WLRQm3ORqpSjpaFJNDIuJDoAKA9PGNm
+im7k5PCZFe+ZqTJuJUavj6QH6hh1/cOVXm2xrudGArAQhz+klJ0w5s6lDCADd+B3ti9vaYG0HiH/iIBzcvHWWS+P66ZNjSXDh54TEwZLvycNsG7J2at0nUD7
+Te33Df7dZkLB4cvyS/je0ah77MqkPOQabIy3eO2TXtf8tvCuGnYFjwFlt9G7JoMJgVNsSK+CoMIj/xydm/0ums/fvuRlV6u6CKLWvQPTl8g1aH2503jbMwvz
+dXoD5zvzlkyrPD7SDF6dohPcB35vqv+S3pfENJh9Jg5lEDL+5FAEx1JM/ddJS+w1dM8wOr1uMyTKkNgGc5enjS3JfdCdgddFSwjsL6cHr23qGLylcL4lyXZy
+zBH+bdoLs2DXtNHFwALU3+NBI3PFn/zqBZhfY6SLdx36k2DQa9KUrrpcJgZRlTTN17qbBuRKMlfbSACA7rLqaJfy+1vs3gbRwD8sw0coIGMqF/QQ9KqN6ScU
+Yjiuf45NaLyoGBeu9dct7o0ImH/vOZELp3qJrj8MvvRbD2Ec/bW8QSYyJ+Sjwy7nlBAMP94DIBJ3yX3UBkpKYX7xGsk1LNs1gVDXnCCW+i3fjx0svyvHcRoW
+VB+ekfL/pl3ng2vLQnM1Kw/HMKPYlQzErD8Z7odko4EVhi1xmMV47BD2tK7xSRr0eiWdzcGK17QvX0ufr1wh97+YwDiQcbFMzYkbIVKh0oOUP0fGvjhCde6I
+KUnzhIcW7/5Tch4aFisQJc/y41zwAfQv6qq6YTmKY3wudC6oKfXorlIK8WgzkqYpg5pnRPe2NmJd7P9+xo6jbZLyx5VVOLdg/bJRNJuIEDySP8AIXMyAU+eo
+/Oo87z8186Oy7pz1EcNRk+9jnoPQZ7owrKXo62HZ2FgMd1mxjj+OXfNuJeQp03ZT/hgLFesxQBfCh59hpo2SjkzY4PxuiD/YfqFn+xGCz7/+Zb5kWvU7PWSy
+wWq8Y70eNUkSNec2ao1atvbPTMGFexxcQEGCDWheJW+pkNgeWmAiAwmMkVXl2pjW4sOvpllX7I9Gj7zEcLqByFscKoNlWILAoaK67z8xEOvfsvPI1NbHoKk4
+791HwwNQCn+M5Ai+G7UPjhjj419Egv2g9CW7ztGKPyVqnQ8mg4tMv/jkn4kRTFLg9yfeSQpq3P6cBs4D32OOPqJfJQoa5ihRkB1nRk7hgck0pL0MuX0gwwkM
+3E4pX9v6afEgqkAEQRcAD0zHn94ZOqwBWHmjnd1RnpaXhAVK5oqhNM14v+mygwCauIoxW18YyfuV7FC9cXEvk9ugE08DJHBNVuCSIEFfm56gzOjFZHS6JLMV
+2z3rm4oCISIweXKrkL4huYLsZnLX0RfppAnmPuUyQgSJIQpyc1NqUrgod5detjy9C/lve/LYUF6MYuuHp/vVebQfxP32AzHw5AqH7adrXd/gi4M5YvvBOQU4
+gl2V4DfXW+5Gt7ZU3Bo/HMSuY0efvo4hhgvVZi+4cojuN8C3wRagJ11zzvT3wxfXNvyHDqQGQTgpD0TwAVxvSPQOMMEEWg6mX4UtGJ04nMv6+hbA91zxpEMO
+fcICYQFO9bqLC9wT3YfZ9y4c8JHePmT8hsBJZKVkgx4qagyhUmtmN9CB5yHhT79hJucTJMgoOZVLLqiJD8zgwZ6oHR+sOT77+sAXAbnJFCSMUZSglMpqaBuU
+wIxnosqwoumzsT2SNMjetA6SU5O15tOtdIbPSfo+o66FCCYLs6ZrMDIfaZ1zW+5jUaE/IPqPONRueCRNcPOv07J2yRFM998+o9b6DOUQLGgWzlQ5E7Sv0QK1
+eLOnq2unr4lK28jGEE7gXzyp9MA1KYLdSf6kXocZxFgFA7LH27p4hhDi/c7QEh35Nw4UG5iLqoe7Vcx8yAQXXgcZgI13WZ06iOHtVvJudxA0o9zkMnbxkXT/
+QxnIDwpoEK4B9UrFNanBBSmnIV8HyCKDkEHAhFGbeH3RCdq/VMHUojvfl/eM5aAXJt2XuBmQAld5gclkxLFIZKjUqp4RCScWH5L8ZQmCiflbMmmtk+x9onwV
+kzRBV3W42Ot38kqcILkHejLVU/K+k3y+z0RzPVW8dEK8vnEn41GQx0zcYHIOb0XsIYC+T3kkqiQ08iI3IhsOXIkCPAo4rdNMabVhBpMz6C/WfSTQ7ZzljZF5
+dG/yx8w5QLOUIcZo07rzIsTujDrrBPH3dmK9I1Cu206G9J3pMRBLS24kdbA26iBTyDuUwYcssWhscrSBNmJDQYlmFw4hjicdUXoNXvhNat6JavcgQ8IIqa6E
+KAIr5M3pnIzttj+TgdxCyyQU0p0NIS4Rsjrl02yqnTHeCAYcUAwphts85BHKkPuTbd+Z/pfScyYUscoZJEG2wEOZdBAOFRMNMTC49WA2HKrhmj9zvfw+Sdga
+r0/ftEvCAhkpKlz8k99MlOY97fD9l3m4rLeGRHxLREwu4tKENR2OoG1vW5/H36Inm+C6UPOtWL3+FRscHML1ISgHhKKkw3VM0uHyyVu/LklAJKfSkQDFvDnK
+4afFCyry3GL4FOV8auuzZWB7ZyCSp8hhYwB6EZt4GnIcyoNitTRmxIqOZ7Eac8W3sTI1u6joelab5uNe8SyzOeiYIve+e+u6E6+0ruV9ZVVSzUlTpGXrJnni
+TYG0mON6PPU3vbN+uuGZntdmlEqWoiRFqbhx/g8gdQMd7i66Va3X2BEoDmGxAvFgheIMWqcBgbKF5nR3LEikiAK0+OaFvvsJ9PTnz/ZL0OGWffaoGMadXUU1
+wot1Hw2axJNcVIsu5SZqmlKZ5C3mGTIjt7mTRC8OgJs4w81VYUbz7qg1N3J+9PyVpHNY8eOuNNieP9w77ivuMOcBkBVWZHVvNaM0QslEy5gEGtjxPXIJ5eWV
+6CqBSEIk00pK2ZBrMigJT0xGpFmmVJL++FFQiKaMEeNH2KPVGz2TTJ4D8FFwV0fee7iPzqHe0DhUVCDt0ZQELJJJ+668SVdkBoOwDTGJ9HybprugVEgMC/ll
+qfpRRS0/iVLMSYal/KdKghTDKAZSTGRWGjFskaEtE7LYzYT7mFszkdYn2LF2vqqMCu9f5TJ4LtvfcyySYX0QOOIYtwMBsixJgKz+ofqhhwTWQqzJuqf87uS7
+3/K3L2OdO9NdyXzEU4qLElDTbiWZGax3y6OvX4LlI9HB8CBlMS5ZMrz1ZKxcTA+6yIPsGuvx4ROYH4M4TtOdd3j6JOS0EColIZIKvMze2SkbnOjS588nIRGd
+NiFhkIJ4sWZ6+2OE7fLh35Fyb/JheWFM2JVh487cM38+WvlPiZIZgbfyS1kt/2m9dmSokngWyf4EkPVzeYNyem+LyWdCAcv0FiJ1AihjlAq87BSuEoIsIdGE
+opqv5HJaXVwyRoUp4alJ2YPRkzQWMIGSiiVJkZtndCFHrxtsUPfOVb7k8pYMSWJ9OZOL5YxP7+U0MzO8yDTvhiJj0gki4ZGiI2/5674lStI4RCCSdKQueJUs
+mY3ocurhf8GhFqpSphanFFlIOBKQyA+H3k6DN0Pu5CUSJ7kmXfKWvERcq0BKOgIIBbcgxD1pkp+G64yTcMX1ML6DadZZz43QFtiJghPXm7zJIUmJjizPPTWR
+jWvpi3A9bqXwtjZ7fTFaN2mRdCQvWyPeOSKnApNDeVwS45ipw3E+k/G4Z6MBl+fYkyOZ8eaqcQ6Po3Ejl4M3Tz+CJcWXiImBYGkMOmlLw56rUDknUvJTc9si
+I5JELMhXL/PxWRMkKYZtYxKd8u01lOXIn0tu+u3TSZoU6UlrV86+AScRc+Ixy9yQmzjmebyxJu+z9CBK188HfuLHfjl0yQSOaXxgwYu9kMyZkEVok8me1KIG
+bJLaBSmZ8UtHXfXFw0Xf4SKZbQH+Ib74zPXQbzlkQubWduXGXSOWtFjBiZQM6Wu36jCgchuaQwItwtc6BjGSPJ3SIfNUqNov2e0Kgducd67l4jGy7LLaS72s
+d97M9c48+AXvIBJLyqFMNuRNAGe2tCkR+eKvCUZqqrcOt6Ao3aiH35aeM4oEyVwYlf9cprdv0wRiI8o+3Qwu0/pPnCjTlLo5hEZ9HKJqbbzkJU51ABIjT/KW
+OMnG+JtyLYKLHPFpzpcqGV/vLGDSCm0qWgmlSurhpiZxdtL0exn+cQeGzM504Vu7JRZSV9cQ2nMhTfK8B8GShw3CJWk6IeKq28eijgNYqtqYAFDuuSJcQ1Er
+oD38k24R8e3uIJsExco+SPHYv6BKzxh3H3ZzA1dJ5resgEKtiarMNKlqXSIrucCM+A2pH/9luHASGLGjvA2WvNN3EicCcQQg+a4yFgWzkkVol1y5NIJlUg5C
+awJa474P/1JIedyoXUVNHmaRV6ERHr5ky0RWHsl1ZMrk1mRt0Mt859CsNKNy3ZNlmda/JF/mkrEk49Itb0ZnoTBNrFyOlHM7fm7Vn7e1wTA95fgnSLUuUmHk
+XyafchmglFaBmKOl4ejGeXFM3BhN33Yx3/As8jKd14BmfuGYBonK+pym1pEJNT/ROukHgSIlfBWVeYrKvA+cP7X8Ck8Us/qlVkmffd7HjjqsfvPgC818p+Ct
+1v5918079O5MoOYGjSaUi4vjpPeW5A+SJh9lcZLzAiEYjKYJS0LegdeiiK580QW8+DrFN3mTz3dhXkk/criQ0U6/FTbCBdLXTzMqDipsmlkCQo7uNV3vLi1Q
+CI+iRrfcGCF/eZy9SjzVZHGSZjRRnMPyhXI6OpfOuQgKJIXjoLCyNDQ32ZoefhOpuRGfGhL/0AsOX+5jIYrrQkD5SzC0buXQ/ujtXkp6NF6a1wuy3ORwytNM
++muZ9objxACI37xAz4krm67sLWk2F7FRieV055NVbpma9x/a3y0LNe8NuaGvUj4ZdCEunslUfHCjV/r7KpI7vfp0lL4wk2bpru9GOHEy0Szs6TIXelkxpoR2
+lRBKsoBLwX4unNQDCii7lC4R46W9fZqjxHlSXHiXSXLucy39nsmW4l3ja42exIWBSXmSDUL3o0R88onGNvcT0icWYGLWMgS6kDyhnF/E4tn9P+0n5zX/4tR5
+2zja/mKm6YdRFEWB6VmuP3hesHS0HK5yPfszhPP+zqWWzEVZBH0+o8vmoAre5wl+8+AtyPRHQDvXt2U0zohZYOfS3O3QHr6goS2CPhfQnc0sg5di9u2EfMbn
+XraOKafhBz7ZcafjAOvvp5j2kbuAQi+hRL+uPGh1GJZPWm7LI8/pwRAQs5jXvez2BMoijjNBn0VoJyE10DyliGLKFMgp3fOrOEDTH/9L9+yHPameYj8bbVTX
+sOi+YWGlPwdTuyzpbBy9hThJvc0LCVPotqCA/kzo52we0jK9KxjP46lpBeDn7aekP/UBEhRs50x86qYC2xNnHIZpjAKwmd+ciC/EwnKjp1tltfqvAVrlmk5i
+RZ1cwRlliGsfB2K46F5yj37zndTm6Cs1mP0CL443gM8TEFxBu1LYT46D3U7n9Au29GKgsc6WL6Cy1+KkcukzDLMwY2VOOb6vx533qvdh0KAXQnPjUzt5D8jg
+4i3uy8w4Kyruw1B5c8nz25AjxcTSumA2w/Ll04/hWD98gIVCF71cks6KDIGXT/S8SxlBoJb8UD/4oQIDfYr1jO4wIEutch8txR8/wBcsy7MhvoZQGcfA/SQ/
+2Cc6wcI/O0ifMZBSOEX8GTaz1nzwdAQAClNziDED0eZzTZ+Wz2AEITFy2HBu8j+j3QmxUMz+sYfX2WIPPpVUTiEIwPvwdn5yWBnDg8PueI4TPrzcI3/F5EUJ
+HzQ3Nc/qRzQKP6l84m36JKbw04NFIWYwccUfrGLYInTES8jnIghU04SkUEmg8yVNDx/Dgz7Em6xAuj/mWv9ISVt/3vgfEHDz817/Mdx5rzFWTxRodqFRKfim
+3qSLjeJOnRADrbgdmAGMPXmv+izz96ge36Qojv2Yeu5NpCeM0PXKQ31rm3nHm8vaRXzoz78TYmiMjUyy93qTryTKpIZu0hLPbYoiXeKXr1aBiopt3BL+uGXS
+NBSQnl4zJcjH9QUw9LRL/vova9uLfh340Toj+rbl2jd85uqA5bWSlSdXncCVtgf8atjStWFLpxmXyZfTYvBKeblD9jnSlVzawGyhJ92U5Kg45r9MJgu0NFl7
+qbpES23IRj0dDm/ia/gad0N7Jf5z3+Wb5l9pUHJFrFeCRYSVXh0TvIZ09Hhl9lGU2dWm48vqHKZZLGneEwYPl3eiTOeklE5f+OZA7ChQ0hZ3hSqk06TX7PV2
+0ZX1NSRMAkmRDuGhTHjPv2TtfqU80iHxqZAK2p4zQ9DrbozSK0NZyD+wN0lPHsArKi8YhNKNP5Wv4Ig4lf+80vkzhOdUdZWESvqsDU86Nz8BuaWb3cNX/frT
+hQac5YVZ7aX/zY5sjgSQMxO6WZfPd9HypzAr26Ss0sXzcYIiRoL5mmqN5YhTxi2rSEgdjsX4R4eyefLfPQ8NejqIaHlhh1HeeXhRcoUeq7snMZVwSgCqDeyK
+2eWlb9fPq493s8AmfXPLyxugizIfG63m1TevJfALWe7RI7kNMEz39sjS4zTEXYYpVchNmVzVreFhUf3m7Flf9Vh+QVyAq3oR8h5a9NZ2lX7/MlsXP4uSTNT0
+cnoVAREgy9quv4cwUcerdZ6RWlJetvp5dAZZiA0KNB+WmfZrwmBbkAQM1pnDxbcN9TZkcwgWwmEvJDRueRHgW4jHfHPtkFrj/40/3W55Z+IjIRIYJQqSg4By
+bclQXiVzrLy+La441yjphT41rllhPPGOp3S5bjFPolGfK76/CG/Bc93uZM574nBgCd81XWlDid6BIRPPqONcMj3wJ5kS+srr+MTdxUi60EiX/Ix6TYG3wHNN
+PNUTLoc81g+D2OcAkNXVaG8pV1bCC/k5aMaN1/B8UJK77UkUF9Pkz3QsVcS4rCnsd7LT9MSCIeXVg1aZ7MgvJ1YKMMzXMym3Qw+vGYml8ZkJ9NevBsNVSuu2
+JfW1ikAE93pOewJgefeR2odVKnGKJHldLWvux8Epw/49IbAJJgWm3KSrLYmTxWgDbpb0t8Jjpw8nMA25EY52T20/MFRrO1UfDCtLbH3ilgP69DySH3uIdt3F
+YoScS/879C4jCIU8r0OiWFEmubMbQ68nDtP9miDavP3xvRkMj5v8rwtIpSGF9vOWNfucaj2akhxaYF0uiffpmazZ0MYqo1bCWSiP82jE2FVcLMxFBGky4NYO
+9ZX8WsX9FOMbyrrSQUv1+tKUhx593LhOgbZdY9du55J/7Id/a1Oebds+gVaybD8UqbK/hsB16dJ+RJ3Os//Tm5rZvlIn3mD/bmClc2+7utcG2PU39aW/MTZ7
+Mnie/mT+eEgTvbTbunzyEf1CPy62uel/89RsycFC/Tk/jOqXn/Nd6R78nPtggO25nSSRiUrzwSwECjX6uTGqm0oqPZxcrDTnlitfmNvqfsTePuxbnI8Dl51n
+7PnhNMP5KH20wdF9M3M/NRA7iOuKonCm1kOh05uUrVsNrYkOPXMrfJwkt44a/GS8b1Nxjisom5/z/iaVxHn/JvnHfZ49V6C91UD5s4+2F1+b6P6/GQUS7nH7
+Od4PAtGA804k2g15l+N5/jPG7ji3t86rwHnF8S4SfBcsxzJ6XTnablG9Qnq3izBf/XeOM9Fox/nH5r3R3B3nNfms8rOo+ULT5fPYz/gHq/eMeidKaKE7iSHg
+356Ph+WQYFsUhMhZpovE854zkNvzC7o6tjPxt4m53Zhx2JFP/7jug7Dd1aqFnvzDyS81SuoMaJVt72s7z82sawfRX5v7Ha5DDsdJQOSqQ6cRHvqveM9DnxfK
+yQPo8e8cYP5xjp6Dq5sv4BD80dbU3RsQ8Jxw33/yYrd2Ks7tiAE229Wx5dHgSufPHLWJ/F2VNyPhDvLc5cxtqN3Psb6h+b4S7RutJb90tH+hAOTdvvQjYMCW
+C9wM/zQQNPSTKwDtxbkiSo64xm7EDa+ygqPfgT6blA9YME93nRNgEzX+nMunKWHCJDs1xwEA4d5nT45tRJWnFDK9GnQ3OVZSAn2QMoFXPe6ACS+JFI5Vfosv
+7fDRY/WI7i/XOOx5w4ekgAzJFT7gCcuaHuakC88tew9g4WFvfGEdZVRFDH/XaIHihyFWiLYcY/cP9rT2mkZtTRH/+dL4/JzkEDSc90Vt+arFmrOBh5FfSvH3
+COSEyZmuUJlIi3EmWrRqhcNQHxYkY4PjXgS8HxKJT2DCpMA4ajMLHEwyROFtqtmNRuag4CB7GNDiHUrxx9eAVGKTmbnQn2zt5MIHZdFqge3Ijz+qREbMpPQx
+JwjkBfe3YKUkSIYd2nwj4m0Qe5wZvI7q/MpRiVvPOcCjVvDR0dvboYjjJWK1VvVdPKrnVJKRHKMwNycIm37lUUzJdpRjj+/JD6wcZteGnrxJUQaQIZ45848d
+GQkGMZmzNs8h5HoYybKQF8thTHp2mS/ktA4pGrtMbz6RYt/hIBArak34z/6wlim/jYqs/exIt8OjXL9VHLG/xDWASK4Jar6YLhJntf30oBfdhUi+uf3snxeA
+v8+pcQQ53IShfbBQArz8xOh0B8j7fnwztuxvccqkZoWgPP0wpqBYpeS+1gLjWCTvyw8COaUQggxPeVM+EqScdGUwfC+8U5NgF6r5ePbE9GWmIUDK+kDsTzHM
+mH2jpSD3w559ohBJPPZUz+2xCf0kz1ZOxUpTXqUpC05OPLI46BP3kwQgz+LQzumjfTmUa5oj9nOEuIkUncyVx7sRrxV/u5VEpZ29dMlTEtrZe3YXOif78RYL
+/DJBITDlj2UvUXnTjB4KMTchxmYqkKxcv2jlvZzPem4Npay456znfuij4LLBWHZ4yvOcS2r3eceDGJOnbLuOJh14MzNOylycUWNo4CIPSEkwkvdd0PIhPDmT
+qcBT/shfnoYxScpTE39/jxdWDvN9auzm67gqCF5PhTIT6KNcUppTAjTzUL/E5suFU/hd74tI5m2TYDw0OnQ0mdGtvLr1kAQkFKJR9yNzm0Fu3vxZPWq8lDP8
+ZN4zFpM0sfGYnw3lXKUhJ3ZZh6hkOi9rnhNzAt5jjLpN5u/5MXgBlVxR9ct2bpk981c+h5rJNFDy0umce9ArbCv5zu0Sa+bRTuKzMNbQ+va3hOKQJD1leTeS
+NEkiBDCfPkJiacA6u470bOGkUV5Lcp3/Yzj3GVOkymBbz+VV0X6SqApB4IMA5ynNDGi+PkVzGnL5k1Kgv69IaU+6fH/L6HzYQd4hOJ98Erjpy7BMurN8Zjxt
+hDev25SIz9DoiO9Cl0alngCh3IU7H0fSnrmoeEDueUgv0136jYBn5qWBLoZS2p8mXpBH1bMNKdP6UWIw++I4Op8jqVp1dAEDzXx50p95z+jNR/GQ/oupOApq
+XPyHsRDuBCzvxlbEYL+JdRQP3WwKJGCzNPffvj7wut3XlQiceHHl964y7enM5gu2zisQUCJyqA7XBoY2Fm03P5UchxS+cNoIKeUuk6SVi10lZ0Z3y4QOe0MG
+gpSu0q45JdHgS8NLLy0OLpTBp7MU7iX0gA6wtER1mp1fROwkBzV78uvJO1+ETnMjCHZN6vsErktDbaj9m9Z9n4Ynt2lqbU6mgQlhVROtaaNQ5+5Jvcndbkir
+kHA2x2ggiEzfx214gKV+vbnD4xqVTErjj0OZ5ZCP1ltM8HCSI+Zu9lKrFJpQ2EiLx/676jsJB/qfde3wtDpnkJ8g6ef3ThliRgm0+mNdOmhm3GOsMbgLkrQC
+shZdbd9qh3WQwGqYS/vw8N0nHlfUKhNdUqy7MknujENlZWyKWkS5cbG+BNF6+CeyT9FV2jNOKkTcImrsYZZvXddcWz7xgG94UtZSN/hzx6emukjC9wDcaM/c
+AyFH334ydSwKAd63cgWZjBljB+FFHTIQruvC+eK7MVSf/wD5kAvsT7HaSdEmCQp9g+Gid4cSnOxwYZ4eiDbTbohRmPRp3X/f3t6se7asd1nuyKeA7NPIC1Hb
+gl0h/f7sjWl7H4BRx83fpGcvSdzmLidIm/ERFc7dxIohLvkHTGe1AbQTcy2AQUPv3XFeU+VWA8imwQulYNUiTLhcELyJ95rs7LI1xnZxqXYDgNl7ux6zXEvM
+dn26p0K9o+/Zbbbxd7uB9zJKgiVXjfWexGwX9CK4++8OJWbDrH7PdInEBxuPveumdEPek4stfpqk8kKw7brFuIBX0FuGWSQFGGyoxtWZ1z3tp1ZVpoRCXJN+
+vSbvmj3NZkwma56VQqXerwmvnubGuxZcH3KGcr0n7Lrhr21KoqaK4rae3OCEpe61ReKDwPUUrkn+rpllDC3x7ngk8fdeJOiuP/peO4zEyPGL3c73MASM7OyN
+1dLcDHbmDN6K/AsBIQlKJsNZlMTg7N3w0FsX51I+3e7+Gup/FGsnSr4g6+xfN+h1dmr90X1SmZIaff4BnM/lb9tzYsokNcvrtaGuz3QtgYN9TlPKy6UmGPv9
+JWR3491OOPqXXL3SKD/zoGtrjiA2Jfr6OOYvDvtx/UNkNyUNueiXdhpLO9SyJqp6Gb6s6mh1jq9WR7MlyM9+yKTOfqFBGJ/c/ewLgxyyL5pq06z8uzvZ09tH
+5Y8j5Z5zBehDnnXLnopWzy+yu/HVmR858zFM1LDOl1zzL0P9Hnyo01fpU4jbPp8bxiLV71OCT2T4prO8OsdU5tNUZ3HojJmXhkgvZ94DcoUpGso7zyWGBd+L
+KVuu/8c3bzevzG2DqJzyJTUHVb4OpWG+vzvtRvnuUVe19t3Yjr3Jtt9LksER5SkMDfz30/ONmje/faIXNv8yE0uqYsfJQIAmZcwXb0M0JZtrZQ+zazzvzE+8
+kxRUevaTIJ/8ZPV2Amj9LA3gbZb/EKtk8FdOMTVi+NqUto3hXiB2KIR1mwYE963cSduifHIpazzcZDlMW6EyNGXIKBO975avQuxdFTG+4nuypxtBCCHnS09i
+1L1BJZIhLt88J7xMI7qX7COV+ADEhOvUt2dgxTdkOhc4LEDeJIIfAsPtN4Qo36ueXAm/vN0UaErTTCAFhUdDcnHn8d7cU/rXMnwUV2/CKFvdpzA6RilD7uV+
+UuT9IkcYYktmefQdMI+jSSS/eYftdRUD8HnO9gJL9Wytks0tvuvWQc9YSrnweNMpQinnmqK7wEnwKm3vZbHshUebcR/Z3H+386ObZCgvYOSH7ogh44vHchBa
+cs7P/RRcPgkRpzXf0iSxkf8UK7bU8vlBbYisKboit5z1hp39RAeaFDlVXrmZgEJJRDkM5DN6ocuIzHVqNNkSeiGWn1NXZJ7Hf6y928ocbIhnosHPxLBt+NlT
+ZrpQPKPN7bXZPmWohVIW9douaqXnnB8JdvVo4bdVaLl0c0xoqOTKRemGG3Tn1Y8G0XNEKps1JWuto7FYmzlYmWRuAVGbOeC39RuKt62zFpxt/dr9CYiOYlzZ
+zf3lkruzT8MFdboKSU9UOtwwaemdzlvbmkevzJ2EmNarP8ep0dQHwe6gPk6Z7T2DJADqrt/37qPvRbt3/zur2eMScLmLVB84N5zby0ulz99Ww5vt2/dPGaKW
+Skl5QwhgB6v++eAqHZJrYTTBFesaw5hzG/akpYu1RcBf59YMiYhPD3jG1ae/SG/cS2S/60u8MU7YXOWmIzVdldqUW5Yy0qP3Tig/Mv96bXPtG5n2N+aWKU1g
+tTlsjPLC9WJh49z7pLD3Nc+IbLXC2vNn9z0f7l7GyW73twFQm8m3IbdXu7ahJb3dtp6NtGbDbU8eOj7Q+fWaV5UMmJvVFun6BtDreL9FKcedG1pXEe/6627G
+b3gdlVg8hYkgNxzWJcQvXxT8oiVDOSGK9HZI4/ElYILeMp5HHvytgeG98jpYJPU9/lvBbS3Af6s1Xyb7n+De7Q+E7L9H7rsCfr4bk+VuzhXQ70eNihQFzArC
+o5c+35eS7GJo8GYwJBUhi98XeIc/RBUJi6ehLkoKSfYyL34yuPBIAHxy1/HN2vTm3spjZAMsbXLgM7kWFvMlegpbZupk6kqTkvMBJeUi+n3O7RxjIFh5Zioj
+ZNItmHOfhMWDBRQdP1TFLcXFA8Xb/GGt+5yQ+nh7qYvx/cy9mLZ/E25bZMdLkJcq3+UdMpoSMf0kaDDp8Z1Q+ENHcsjdn0ExWnb+IHJs3lOLy2RaWYFnQ8Yl
+hB7jdURtFPnCCvFpbULjDaYJeZuMVn689wZ43+HFC4hFDKLgTan4OJm9Ax4PVhnfgBlxTSx8hSp8/oLxtRl5NOxEyAsQ32Od5bN/6mv9JNr9bVL6xybxghnz
+ISWjf5jw6ywR/g4k8cF8Ky1IKA/CKR44Y+9VIjyoA5QLB4D6Tm6yx0Y6dGjgfLyUs/h3OfOtl/7YsjoJ2SWtOl7fObnwu+UqG94uxYNnTdlLSQfaEee14ubw
+WF/ZWD9o6GTFNyJ8JpJEv5/zCRR+d2b7sSYLetWO8ABwS1mFzj/IV4sESI5T5D/vEOE3SXSfE6XyyEQ5D72I3lLguWd6iVOSXT3R8ImBT7g8jrFRlq4Jfw5b
+ot4zD+tj7RMqHvd286zxlT2SCD6d75mS2OwHtKkEv8t/nyf571LgieU6oLwzdQH7nVM0SPaRBx/0qBXsgW2VCbGQ0R/6/D+eO409mmG9Dxo8ytp+gZIeZJAP
+SecebMCRCW/fxokSYjesJbDvBzO2j5yRBQyzNSlkfqkeedqTOT8lKn4ysyoKMGzR5dH5oFpy7YorO3j4zQevkuT4rsrMHmgi/At+cyFGTxmrpb87MVAg5bmn
+JA7gMYdE3N/XwU+T0dINsnyMafSPfWTiZCXuqI9rdOvgyWfifTDyiRmvT0nxH/KZSpP3mmmw9hRfanxKB3xrUuP/tLzl9ZA+T69uSES8nHrtliGKHldA3z9f
+51tp8TXh8XQpejQfRTVJFMNOT2NrvmHkztzv7mTwYNu1dodA+VtizNFWgfP+/X96qoCWb0h59rZYhUqWtwv6+CZPhS6/JnweD6JoUO4i5Vl36j5S6Cf360pZ
+icXx+DJrW8/8VSLm8zb0k5sZPvMg+03J8zRnkwj6Apj+0rwogdEvvhjVACkktyW+xTROP7A6g11/07KHoHgaWKxSjhSs8vRzi1F5cuv3JNR3IupXXNSsRUTR
+N858t3b5VAnCMgk7sfh1EFXvYObxx6cn/SgCcwYnWh7pvPgwm0qUbb0HjaevkwjpQcI8EPflOkzrsyk/hq48DOLnFjMBtCVxPkaUsCpU8XV7ZPZRefMNPp8X
+OmVeKWnz1LV0P8b1cQUcL26ejkwRbAVZHvfDB86ci0R5jAMhyWvhmdBl/qEhj8HM5RQe76fF+CWe+Hqc0Hx+THJmc02vBfzhwkL+82mufgbrrsUScTvfSZqH
+GPCTdf2qMUISvRlDV3wfaVInNyaS0pKCIeC67Z9T9Pq2S54f7qdE+a3+iqTvmdnhtxRpLH0sxYsKb1OqW1oS2PO7EfHrkrnEVp3f1saMAkIvgb6ka+JPO58Y
+WXuy48mv8fxO44fqcHoV7CSg/u8v0aX8We+7SHqauTiDO1vfoRkiGnlvxWssVo0+EwUmTqgGTByu/UCE9c8qsPbHiOQrI9uolVbGwWtX5gtlA1gKeudEL/rr
+Iu7pMr4aEgrW/M0swfI25GHBo/ccXyLqP96C5aQ+IpVYFELetVT+JKAyymi7FTLQ0WJwv7S03wtJoKIwdaSo+uEfYqLSWzKZ62JeHkWjxccTYtOVTcm+COT+
++rH/vqwMY5bh6UhgGeJEnXncQNjvhRBwolqHEfT1wvBrZ3VWnd3gSiguD4UEQDyYRd8htq+mjYlHQ8rro/5puYwC0vyuMuV+Q4mBZMgOq9kyMI++NG7gUl+A
+VJEVEv3LwNFQnq+Bim4hEj159mci68l8mMo1+6kLHkJu7Fz44gwAqPuoK22TVTOUPdTJnQ19juWWSvZWD3RhFLJglvsxl+BSdoa1ix5tlMw8kUfXP8ULv9Ar
+YvRnWeLvvE1L+d+T9YghWnTCXUqM+g9w4fH0sWosBJfGGIE/mb5vMX0xezSgYn63HFXze6HTPTNBnM0nESsD/HjBaUgcIBHxZyD0cLDP/X6U/yHBWp/fPOep
+IUwggVKbBAZ70kuFhX4u38OfS2JKzwU8a5SJuD7zG5zJ4iX4PjHIp7GsIRJegha9nheSUTEbTnB16ddH2ZPgkLW+0ZpqJqHw2ABVTfHEKUYvXvwwmblCrK8C
+yv2EKeugEDAfePk9F0EeV+QJr1qHQoD7jVqUOVZk45uve8P2zCtmqSh3sfebZPptk2O92lLP2F1H14n3WXnLITmag0q0muQWNJ7KmlR72ccr83T/L30g6tT+
+MFr2UusBmWxcpGij+C6JSllRjmgyh0ONTLvIGEKfvX9cP5Q3+g8qnk+8+78edfFAS6Ezzurzg5Q1oOkNTI1SbPQ6kSNnJmqU/esEOfNQe654SgObSr6Ua4zh
+xAoTa5DrJAk3qvLqXbvxFOigIZLKu7bMxXMMFW6eTc+a5I1UcEhvG496eCc3abYiY+h5qEMTqn+6uzMCq/oCmmxrJk7TP+ywsgeTJTHyWzIePgby7hiOA0Jv
+1DkGfrxojFlcZ9mAcDdOHNKdmPwPOcCiDyHYy6yjCbOOO9SkSWPm6Mpwn+LJ+6bwHTJbrMIw3eRDHtCBA6Kw5ym/2GG6aCqa/+DOwygJezAobI5uPt4NIfHo
+Dll9NWOPn2jy2xakAtiRd1IbuuRuozAP5XODQv959xytfpJknyaukPjuzvXfoPVhrkdy4Onku57oZh8Ogh3qW70r2e/2rVh0wvdp4RxH6emScNh0ebOMMQTf
+QpylY2sVyoNIfhRvIh12jx8P54bo82bVGVR0nUgfGoIRqKtNk4szNGjOWGaEu8SjAoFDHAxpNR45GTJZfci6xJDQPv/Cszpd1k/fCzRafK7ALN5eJ5HGc63n
+yyeSHX4TfHJKva9RTZMesggejzpkfXVCM+fuQSxGCJx/QmbNDKZa8ns0DCmrGZpDiX4Jn1k3nXLfJ/yAkHgzuKAylAqZMOxot2XYj5mML5T4UjiJThSiB5Nt
++NjVLuBpZ2vsd8old1N1zJnJLuvjIXPnSXMBWRw+4JyfY3cjpTdi2CYlh281V3dbvweF9xVDWLVyXqf8c3xiHvfmiVTVaqhkKDGMySW4xbLXq+H/oRDGc7Ne
+DXWDYx8jmfn01pEgY/H8+sxMqDI0hVWhORFmhlZQv5rX0xe3NXredcqA6EiVxd9xcBjfKtYSnSkjkdGLe6e0nB5eI2kMrQG7jhTAu0pNQDpa1tWhlXn7rlfm
++Z1KNsFMMh0eqwwpcNQNxRBkVo3RUl4Sse4A1jMQbDYdQzLhMzGDcpG3/jmjyxaC6gDjLM0YhCjnNgCcG+2J4OMv/6rHLE8QqAS1z0kznhl6RnlqSgs54XUW
+q7w5Gl6oiGO19MswgW7n4j+6/dGg6geDvtnQRjqmoRUDoNXYNnlys77Tt5TzqiTrSyoZdzg3ZlVIv5EQCZoHpYmQRJ/TwmRrLprT1WS5b62+ihuaQPqEWoc8
+aQjLlgsPkwCriI2PDq8b4byYl2uFmXz4UDG04bGdtyQa0yPFLc/V1pVn9j34IIR+uzkMQDEdDUr5LtGdPJXcW81T4zvxD127gC43MK2airBHzuOhdYTEFbqE
+zM4Yr67FPDGVaPy2tK9aljEf/uKrkpCXkDfNyKFIyvAVzN3RvIsYaQvNsjKbz8+DuPl07C0QGr14VZN9GkK09hSdfQlurk9jMuI45N+7NIEHRQ7eYqAl3nNZ
+0aUpHgP7W5RxdDfIrlwICmeRZr/+cs/pzdn0fopfn/VtcfZidtKYPqsDw7lgGGNjfCqi7InfmZkJSEHhg+l7sJD+js/sprR/WbqFYS+Bs8MyUSVhu9iVdx+U
+KUWN1MqF1VoJ+HS+YF19+5ZnbpWQF2bEQrls7k7M2fTexRNP7xHLyHRiii0h/30p4acWv5APnFUnOC0rAosQvxfyjUzQTFeGygzwn5LMQ4lqQLG6I1zap1NL
+WIjBsnyhoegd+7s5PzOdwrVPHXKns8egELVnXBj5YrPDnxpk7m8Kv1AYzE2G4cbhcv5ogs+1zXiug1U6PorlBv4JNXoaZ25N13QiE4Olh17PGDNNtEhRq07r
+mXuKy/O5S0W2TcLyvnKsvRlBopPlla60GlNz75jWhmVfv4MzoKBD2hdQM9AaRwhzhk/0Cqf1/rJ2Q2Nf995dSvNiHSLhpuhd5PGuh3+9Fv+GBw8ixq4hOq6h
+M/d1QhJzE7TLOxV+X/Tin+Iz8+8koomtB6Y+p4Fb550bjgzLCIX8LJN9enJwo/IM421Hf+yfd4d8xCGoXOjWMfqgpZUaXdgJaWq8k1/sMiBprkz/Ukw/+cf+
+L5Ue/sYkmtV9g58T+7vdD3v303C9Du6GkCOYNnk1Q31QcWGWYSXyju/8zNngAa08MXFMQ2Lb72frzceIeObBwHuvOPZOmD1il5UQN2JDSAZ2gJwnBuC2KzmF
+avAwMjOKTybbp4zizAxYobTcjZMRXhpmNl+90H2lMhQKeawe/vHg/ajrYyXbTSiLocYoXAvaQmQJgq/dSeRBzWDBSc6IEj8Mwrza+U/ueGSnppf05tdMc4Gs
+lu4JdFK61E0ZfBCiQEUN5X5EX8FTvw9ex827csMyM9UrvWeS3eVWhvVMcj9CRNdo4CdecL4XQjDZTGwWq9j+hXAqhKvQ5vszlY/dpam8eC95mvx4wn5JJeou
+rrKcznIh7X1M5KLiwkNyUeVEpSLIQT7JCjXbxZtKq0XaQt5lM3iFoMNQ3fH2KZ8deV7Ijz9hUT0/yPqyzNsfSu9f+/i4gBBPxHx17IGIr8lMT0oyCyuN4Jxo
+pmlnp2J/HUFxk1M2mevpqpx8uVUUBjKoeMcK3PMjlWaTTVUPz8lMDnd3Xb8b0JlW4miskg0FwR2fM88JGmZ0YmkgojRF6ESqXo8UkqxEU7rdIbheh+w9Cm59
+OHcx2FR65XjbTtlwhxzZ/3Dkw8pEPiE95bvP+H4Y/DoVa8maivu/+SBvXzCnarsCAE6eeeeLVTL7rPu+TO72Ur3bl5/xtDeNiOId/03GwQ/89ENsB2mtQ+o7
+uqH5G1Z91v2h5xLT/YcEHJ/xxkp/6dIzmg1oPGFuK/wb2OYoc+f4aI3nNfo+IaqMEmQUdrQg1xtENYIhGc9LjAlHU41Txk43YAGJd29WulHuMmxzcvhTOuYe
+t+EJ0d60ttdrKrDSt3qm4Xpkdv2jSMsdmjT4jQxgJgYdcUUZcSqJ8q8XgLqyXjEYddxE3q+fE1/skDSHIb5mE9SEgeMvtlMC02STI/Hza444kJLrGFIwQVUn
+Z99Dnb+7Yp47StoUpX/NZKypud/tuCl2bgEg6qgjDOvg6DSio3n2QzxabK/acpf6EvqQWYpHHNMsp7ZSbuR+1t2/kV2NkgLQ/AoVOsQCj8Hplu7jSdOr9RXC
+SZxtYqy0c14Tdy2D50Zn+llnhCQ6rvf4nClZX4L9eqVWHZNlOUbPIe9c878PhTVrxlKrOGcyrh0Br0i2ZnaEMkFFoVTvxoJrBr8zdirk4053MZRor6PdDuUK
+p3tcit76IbnDOlxHmZFyoXDrojsTW2LwOdYLyi1/d6yagcQhH2koGokj2P1LdfmFPZQxc3yFdo3bELUmI+xQHJePmTN2pLmbFBkaMw6us61n6ZB+WOY5W5Q1
+M6uFSs0REjR7lF7p8O3yhUbkGIL/KLeZ9WhoxsUsc/HDSa0xo7JDcDcyUfRbJVoatpkYjIW4rnhXjMN1qp8bXt6h5mGjh/zKPmroOMiM6RMe4pKSfNhjepqP
+g49r4CZl92cciP8d79EhJrZ79Qczy4h5f5/REzl58kSnjdE6RnE+oohO16iXwMj80WjOsJHB/UgtG92YkOOT3lloqwnoUw55EOqw+dxSmRS4Q44YBn/ISeol
+ESGpHTu0aJHHzKUfYohKwt+1/x1cRD9Gubu7IV6deufMsoKsxYJp6LG8YrQyIstgGXsisd8YvQHTwIcyW5Y7K2RG3dFGejSjfwr3te9ii1F8NZvlAl8iRp2j
+A7HR7DAjVoP2sEzIlNVn2R65hKeHxYrSjDhj5uRXUnVEm8S0god55EbUPogBZsTPaHQdqQTKeHKyi7aDMZpp2hn94T7IGGKPpGHt/es0tTNhstXdTuOrbFeV
+vCoaHpLkV2W9n+VV71w2pleXXa6tzzialzF3UybLKOIlX721eXcMpRnNrI+IE125Wf+R8UbSLFK6Xt8WuYQqvGCaTskXe/H20J5lF24s5AH+PZ8U5xSFs/bx
+l9+TfhSvKxoXh4yq5PdsdoPfaFgzuOX3JJDmlzjM33XXPBSSsHBlFPGl/66LJu6QcKdD+tYTgmzvJLRujdW4gl8mM+IJhLysP78VMMhvbXnYfgkFtdeSWulV
+fDS/Nd4HbOS/ZD1S4K74yygnivJGb2irX3KdcSLRm8FZRGWm6vot/+L/k8HAbzmx9/0KseVWFaIpQ8R72SuKv3D+/WX69Pg/ps4Ey1WeWbZT8dQECFDR/jT2
+h0f/YkfK5761qhRpGiGEemVGGiiNf+l/dyIGBrF/KAD5xjX0Kv8ogsS32gsJyC2MSdTISdgaJ9JCRhjNEvnnQZsA6yWNL/4wCllfOIroXvbahrvRIPazf8YX
+2+TtKUDnlhV/AqW6nAUHTcBmVJksJn8tqD/r5Qs0wy9NXXnA/iobBJLsIgV5k5ocldkWgXmlaj0OSo/BCtFlidvcWG+v0My07krxSP9VGNKVkYU+eLRUiMvA
+4L+wpK1KqZbbu+phi8iUigc0+odr1Z7bn5M2cnwOVt1Gbyx3QneuIwuxM223JbqY8d75BWcbrtzxSoifp/Fe7FVNCJs56PHXiGNjhT26MRpP46jdSAkdTYNj
+jzVjjC0FTkUXXutv+7HCtAsWc57STBxu6vRWLQMLEGPEptKsFmM8+GrjgTtMLt4+Xz8FfcoTUHM0blBokf5NA274heb4cfoOTVGJHF9M1IfRajfc5VZ39Fi2
+6B23w+z4YYQJmBoc1OB+ssBi3AvjzLjT/fe4bUSG9wWFv1VKRAKG24L/O6oyq9rHggFpW7I1fzT5ejY/Y/7kuHC2Lwu0g77xW9V7N9a3mHf/XP7HZ0Ayizzb
+0pL/eMRcLQslpRinjBszLToIeLZAls0dP4OsbFQbIHTuKqsx6+PGPESoNraiINSFhAO7SQh8ss3c5OPWOLdQG2J9ToIeiftEZ174URxNEMbPMwouNXMBzFip
+BvpLgEtgXrrsXlserXcPsCw1BmemcWRx5zXavPg05jmISOsPOwNFrh5A1YuQe2VmNEWXcgavFmJsdYbkejcG38zpK3uPLiWgLcoihu0pEFyKMF1YcRXhtxvo
+DSDO2daH2e9YqCUo0xyBdegzloZywQiL8pT/8xb2mD+2Xx7zfYX+nyRPF2akPcD9TqAgik3+eRgKz0xVos5nfByQxbWMmImBsLEOKLedDrfwNjT6w8OjE7T3
+jt0zGs9ux7xfNgnnJVh+8nlTWgjXk229MXaQLPx8MCKmoXDxGh5TxmChEAzBXThqKGciGqRfHz/G4H2ktxrNLRaxzafzaQ5l9RFl3TG2gGHvcCLM9zJC2hkI
+nQn7Wt+YcSGyFBYnWXPmdU8rUUmKFNEC265g9MoWOER0Q1zAGDtio0LZC4nk3MRFXZSdMKV4YVxt0wlWq/6vBcmpvEvkm9cmMLr27RAJoW8zpoeqmZ7tS9jd
+hFXVBV8PL88tz4BQnlMOfzPhgOdkDftGvNNr2D5672RM59OONEQeixrIz/TbOUPirJ1vCWBPYv3nXQZ6ZERXY+HEczQkcGjNyxGni664KfZZrZ3sNdkRD1ML
+MIX6PBJuozvfP7jZCg/3wGCfM6O5/a+4ujFVtwVgtR7FaKNFVuiQoklJy5c0L3H5ssTj8QaF60lXszTvLqbC5FyI1oFeDG0OC7cfO/cEoekkQUVCME0sP42M
+W4uPl7h9JAiv2cLBKo/QVvLlE/oDmMBHTF74HNkF4ldHbGGlBFLngohvTE3NUO8qdhaIx43E8FAShrtugkhwkNjkHG7W3hSqfg6oOfpKzegZYyIQoKee//sn
+Iejfnb5g/CQBgxWF2a5phvAFNdwLkXiRhzuK70WxfnVbIhl3XJloPAqKRXJcnG4+Znb54fbEf7iZEWg0NngZfHVCId4SsJG5GTtyesD6ke+JoL5f0JkxXG36
+x19/sJdZL2ISj34xwrUwspk92OxvnBFgVuYTDXDz4SLlJ67dQ0zFK6yDzdfIxRCS79D73cZB48g3Qm/66QE3lZS8wavtChtbhVZBaNc8Q1iNgd5GG4KCl4dY
+HXtgBS1eFK6e7RNxh5WU8QwgdzQNb+p5dl9Y7oy5AtIasXoXFkgGvHY6dk33/hyFyww8fxnoHXYRErTPa9gejXsVarA1sI+Gi1nVK364GABcYAdLw/+5xhxM
+f3FZcLHdLgiAwcvMESGRXRvezQZ0ZR2q7wYxqB02+ywRaMQKUJEN6BywLzXHVV18oW1JyqnNj5nhm5pCcPh3+2HeMop47LoesO8jBA+XENzOc9IjKOKr306o
+1JNCU9cPphRX2NG9DXZATRjgWj1s3e+Fu9jZGTYbWxu4zlsgmBoQf1AyDVu9F5aCm+NevRk2f3O0fHm3NSrwfJu1nLZHKYJuwOv5ktT7D7MdRgBkJbp+3JId
+0OCioHM6JKhVTeMfT8WHgnnbUO7ZVbHYiZDQDBwDC2QKoljBZcK0cMBYVHOjNx4XNRsZil2RD3HjuqnDFjJZH4pdPaArUfhI1Vc5CMvSYGsnhd32AdxXwf1K
+RrAf4tKjHtCnGfYMKMb/Uy7CIdeRdpxYQTG57bjXPC2vPzcA+rHYhdxrsNdNQfEW/eA9PQF6G4OGCR5cS3BTFZYv3lXADOFYLUeuqz4MGQgXDx5bK2ALfKja
+ZwMmLNS9DDeTlQOG34R+CC0OAZ82m6x3YCePMPt8d5/JSAnJzDkURvnQI3PwuGqY1VVm1wHTY2LRE1x+JLi4ZreO9nk54J6annhgBI2y2eDGLt1tsUyU6bpw
+gyj0iHwIOvMBK5N1YA1gCHpJQdk4AakjQANWfawM4dBt4NvYKnPAz4qjOepPli2HdNSrNRX25fQqPPvob7N6oUBTL+lsKi+hVR/99UVNkB6is7067JPv9rHV
+fO0DlBB8jXBjMiTnZPXoOaSao8kUt0PcPS8E1YntEE4kj2Kp8nUjJtttS8re6UdwB5n+XD7V3kZhSiVKVwqd2sFdVGz5DYlPJMjOug5C8wESRuothGE9Fpv9
+zVhNr9TT5h4GNK2EoT+EkENYWdrrw34TsK+k/v5Ts6Auv79VtwlHBeYAdHQ5amQPB3CPy0U9yvtEAOsjyYIan54pPW/Re6coG0dXjf6oFbu3m0MAXVZgjF+d
+x/JwJs51BtFrxKIPaeAZtkHsbfNsiCdhEbD1Fur4WmK+kh8CVTahaTJCPclQB739Yd7c3my48UhY7mcjvqaMubK21x+/O00tXYWArLktHwKZEO+EgmGJm3E1
++Oq3/5zu7b4ewoN2UThDKoEw+vDApnK/Xb8GS4XltL1Fv8V8UrgQRK6pCTE5Wa8Pcp+G6qqk32YPL/uNe02h3LP540TMkFZ6WUBi9ncByQBbd/YzHzGc8Gii
+5q5aeHB9CVIL2Bg99evZtz81eZEAn08/V0+xCOpX+tnMVD2mOyx8S+j8tcw3ALRj2K/puSwaqE71wU3Zl2oz36PaS3Wx4NBVrop+X6t2U/d6E/85V0ypdVUJ
+ivkLyVbbfTHHU28F2YBw2SexwA/V2/CkLxoK02YhMNkPoTDi6YODrMctLzF5WwXgXIZapc/4aeqzJ6YQIWkk1bPGZxsJ9qC9sOXN6MuAzahQX5W8cYlTReMz
+ZDRdFQ5xh9XowTniJv2GvPLE+vGF5CMEGoSZVdo+1yFOSArNrCcIx0MSGtvq9bwXOQFyn40nsxPWmQWqp+Ptc0Ou52i7e09t9ej03uyKWYLnaz2djONBbZSw
+o0Hr03mTFx58gB5MC/w+qDf6FjZIvLwTLnV9KNFWgzbL79OKllhBuOhMhatDL+z3Grhi+E6jrO7AtSXZBQNA4G8psGqEBBfI5EeNVhboEyotffK4v2ey02P6
+8QQo9LiCJDV4nzpeOMO6yyu/lRps9E97WwlFITvuhDrOAilEIA1MTLYXvE08J986czGAYOVHIfSsShTT5IaQ+SxgPhLrvbCGnE8M0DeQb6qhpw86HlylJc0c
+8wmzJJYvK85mKTDZ/kqzWcO4GYuD3vj/XXPEmg+p/fC+GtjEcV7raPPwwmWTClDGAp1E7BqDqGrlta7cSWBQzPZFcZLw3nCeIGUnx4aHynq9bLDZsMu+h+Zm
+xqCc5J/LIr2RLXH0MJRM8oIipZ1KMb2iCbDvF3u/zEE5+iD4U8yebSnXOTQ/cc0cU6roBRu1h9kMDILi/k6C9dLzHAQiKEKQK+WMJGKvcuGC++WdMBak1Www
+OsvFlZP6hls1XYCX5CPgBXH76gQP3jijWfYGYO4w9OIEFG8Kp4gNa72V32OGhUqfr3HR6izQHOTG/B+5Yc8sp7g8Tcpv6qrX2SwZlJndwyzHhH0qj93N/zsp
+8DRIMG0Kz/jhMtVBAqTwt5HpMywkKGTy0N17Ipb1ihjXGAV1t901dLe+a8MDhqIAZT4uyuFrprOtt0KWjLq7nflhL8xgMeFWp2nkoOPH9u1iu1/i4tkiknpg
+QXmrYe7ghXWxVfPzcfwUPSog7ZGHsB0mDdFqScQLvMBLF4pcY3a0GrsNAqwOnT1elsEep9V/qWUB1eF22Il2tkPjhsMLY8LJv6ivwIo1hQVOMmjSUNwMrVg1
+JJT+JTiXzYVO6EZSws98pTOrkc95QQu8WCexMApM7dxhNJYDHLJrJXT56rw9g/95RziHQ6vO1MwHwuTjhWhMcN1ttgjqNvuf7rbqhkvCEMlrqvJOZw5Chfl0
+qFrTlQ+3lsus9EoEE9W+J57iyt9BQoR5f4cnm8ZXmNEUzWrYdBDMaigBvwlAJkgUhLKzYiNcIYPi6RofEExxqy3aTHujLpDMsCFtB/3zFaByy6i58+YeZbW4
+RxCk+9iMLgdGnoQCSVdi4orfE7zrwHJMaDVPgEs0gXTo690ld7jX4VlurMAhTpIjdWlLv9pX5zaDj0VnvarpZlehK7iahocBtWb9apjiC1m8dRobU9lpwMyq
+UGdN4Y5+BufJSMnOXhCIICx3O0ykFDDq7MJUt8NU1+UUzogXa7UuT3RGvdUNJG4HtTef3hDrYqMl+4z1KcDBJzy0A9MHYMkuW/+WXxokrCbfxhVMjEA7+xV+
+mZnf9IYexnQ87DAZDr5wb9/hksZmxfGjc9Kv7YkmK7MRTgpWqqd3LoDiN3JVDeYlSKUokHnZTx6CpU5X1WiF7CjMfmXMwUxJIrEJ+2uk4h0bLMUOP4gV0l+z
+oh+apUHCLnm+v4SuNFi/4UYCwa+IWicECyES2o7Tv+PxZnvx97VKTEXCoLzp7OXIcUVjj3AscWBbA8eEWRibIGr7HQWLjY4l3ZFtc4LAlndHq0MQ68Bd9hps
+IC4/EKyJaYHVCwut0ToGTrYa1BjSScSMWojB1ZUsWOVw8ydpx8jxNsdbtGm/U2C54oDdNnVZ41Z+N+H9qIOG6KZsNTVDGkxDu/QcvEXCVRWNUPKAzDAaEqGK
+TkVf4vXszq6ffJVHyB1THYUnjmXAUyPgLpl9uGM8rE64s9uQzlY9Bmj0O3zAsnGD8dk/lXdbotHUpGVXFU8zA4qOvYvNRZXVh8E42hVNl8qbOAt+WYVuJryz
+pHCEW7bDH7CqTOqJoeUA+1jEGjQnXbI36vZ7q/9tv3OqOlawosDmIdxf7WPKsvZTpmpK3N5flbf2vlZCfR0FcGS1t/cB2SJt0Z9yGPMqJN/jeVd701y27HQn
+rsqNAc3VjNDoEg2XFzMXt3AahuvZNlzztNAOMtlziVEugXRGLXtgmhgJF3j2QPXT8GBO4bBBoq+rjv1as93FAbqA1k4gCNvi+tVWHryWlQxi8nJEG1Ta7YGT
+2Fe7Pbpn83Ci9c5gu/0juLboDYXWk39CGGDsZsq0+JZQQZew+2Z8Pvn47OzZ6rIctl35AzjpG/5MqGhtzYTNe3yCCV2PFhJFws6AMkQC2e1pN5OkbggeiRiH
+fP9nieYMwcFqU3ELhZc4Zqft8KOwoQesStpukcWs57+LsfjOzm9xtLRbIA6CEBIX4+04TtBgo1Aa4so9NCjtZm5HL8aEHO29zVtc2STBOw/bFSLB6ouZsczO
+C4+gWiztmWm0MGsxn0FKUWDhg+TKJUY+LU5J52TMDgkawpmrVRmX0xhrfpBlhAUWBBv+3UWBmCOxcxP2zy0M+XWNXD8mppDt5tSxd6C5V2RtUvWb7/9osbEJ
+jvI940TWRzY37sJdNVRjFA1cWq/wW0VFYpi5tsFb771tyTRGgv20H+JXyziohQcI3oZZ6akmSq25x1sGUWSUSruwrfxXSL454b7zsrT2XnRFUqSOarwj70fc
+lVCtx5s1V7hY/MuN/F0FTTL/iYGujggu7KilEjKWbyGJXoCIr9gHS4vqBiE8D9jMef2hHUffCKGLwkJoEqvBQsSdj5vNOoTVNr/2/VYP7YxXTJBFxbFXTYWd
+j8Wjss2ZAolfncVk6HDWZMnXYetKijQuOzToQdhdRNhIj6zSR3Po0QBCQxmGBo8fycf44PhQdlRMCYDWKUjLmlb6C8c1a6gzIhSW/OFYZhfKjdKIehk1Z0ST
+SA0mY7kEwMTRQrPuYmC+9Qd0u5ihzfP5hPsHC6+2LsbZU7XCpbl91IWAVaOYSrfqgBP5gB+uNn1wW6VUqcMdBh4dug0Aqy1tuq1J1TJGYIqvwsegT5D8g6WZ
+lq53q5XJv2K9D4kdg0BG5K11deG1+Ul8GMS/uN6qj5aKmYxbnIn6PmpGCYHRlYS0mPMMSSM/IUTPwDvAVBKt7YUNfKJ0RL3FPmgLgPIJIdtHAE6j7b4qxDN4
+2BDZNWuhiLbukSU3TAiDs+hghAfi3dPozjLZDhRrZ4LOjS64Jl+cTrNJ+qBGYCRyN0s/I6zDF+/37CqmMldfag/2uNYanwoZixvVmPu8ZrtD3FsilXuK6512
+zYqsB4kPOeYOYHjTbmPvejstMQ4yUs/SCuFKy1iSt12To1o0ojegUG409RdkUcWhZZcQC37GfEyEUaB+pWBGR5JPjgWBEzXnhrDzF5vdfdkvZ5vsUJiYW2di
+Y9eenLCThubRiJAZeBN0Sc3jg0pvc5ucA0iG4DNq7kujLs3oJFx4jreQCKkdgg0/e0JqKcAPPFipL5aAnVsTHLWCZlM9U+0zA3IDbxDLbRYcspzW3OFtQ/jb
+cQkRsG6/MJLqsS49B8tHwi7/FxDRdDwa7+zNvXEAdf3mnuPeeXCM0/amPbXgpP/57dlbFfT9pjCH8ZGEYDtu7o6xZ3Nb7dDA2Rb/xkCMQZHQWjUuzmG0EhtG
+ss1hJgNNBM4LTTxLTLgDNdRi41cDcYCnZ19iPTXh4uXLJnhJgWD1C+llr0y+cLPvXSOHt48b8aY6jGzqmLSJXTPUs7ongJD1AcAXLK53CNmhGXYb+xZR2Ndo
+Mq69mKnjrlk5cJT//GXUNje+oqzT74I67MYUfOjNQWjRdlHNkb8r3+GAv2vy9blcn3BfYNmPFzYpbs128SfEm6LRr5QdmVqWtTg3c1jAWWiKMzwnuxkhP1J1
+uWyJyVxjp2KEt8PIp+RrVxsjITCUw43r6UQlTGAOsjANcWW3OtfDCRxYBqdRQpuMBI3b32b7RlZvz0nAkUcjeULMMZvtv7jsk70i16CK87JiS7KXQkSYT4wb
+rQWSvV1Bd+zMh+HqDIg4aCPZBtQYBGCHodnMf9FUJnSwtghM+A+jP/t2fN1IN1tohIHbaaiUDg2UV48xHIo3djaAMX5cCCOL0WtHDaN0N04bVdm1wWPymYeG
+MXvjpdMGMnW77rY4RrLW8LaMFDsuHqJooCg0s0UTNsnGzglZasqpWByfb9I1b2pYTiIKGz0hc3fn1cxCrdEP/+OqkajGxeV1G+CJF6z+PG5sNs2ty+Woh5Sd
+1oFUZe4xKujcOm/V3Umz/Rbhm60W3c2tyNZg5Q42BUhX6FtK8sVVAaFRkpS59cvNnvsJQoFMgpW7hG2ldEMNiws9Tg8kXAhKJQBHJPNn6M8btlf9RWZ01pu5
+MqtYoH7Fdqs3MpCDjV5SdAlzcqWxY2sjKzYNitvNbE88iql88WjSWGmAEG6vxqutA2jXRU01ZgQhXhDaWrcp3lxpcK6Hb2MEvzq2ckVPYcX1MHo8CTJxFto7
+kX0uBWWjxIkInP4SzsSa8PaklgQ/3zxerxptY/FuKbj+O4d3J0F3fJ+4u/PIWRj1sNR23LbrjQ3gGuYrUVrVkT8O/Z6ppkCD9guqDfUor8ac8A17edi9SIKi
+iZD4gBlona28L52/lce8Mo4KeBuViG3NFYjPlS9nXg67ooYNCUehvqoKoy1zGjboyPZsXycspd/fb7FAqjG9Yy1p/YnR3LPzzDZG4/VQwO1DTHZ8N56RvG9i
+GXrBpuplgwRD7VgkReMhoVYJNnzqMweKcmZRwAvGFhc/qst4MMDpG8p+gW68crjKppBkc+b5KetjpvbGDhONKwy3DbrkhPlyOMXFuaOBAyP/nD58GdOd5oWV
+ZTAMdJqap/P39vvNi7klGremyYjl4RESJy3plTR93arc+sLJSayLYhLCdXgDeZ8/70gW1ERmTWPI1uitUBrkqKkHBJ17fhBo39QRZpeHMy2RPE2IWCpHgJZR
+eEXhCTVqId57KurBKVjhmvRAE9uk/5RE0zu4DqTbtvSNOuCZE5cnISB9eo0a/VJ3BGZp4urzhhEeJMD+0NM8fB+7C0xWkhOM0UmHo2mArQUjIextXK3IoFFx
+yYvdClNI+kf0CYw/7AHQUtwTa+WSznsMjJ+HKxzY1lQdJnoyUupos74BfqsDPVBw9a8l18Y1HQz2GxtMongV0HlUmI4geGuCU8mxMkw3HjXNTfzEoqEJhTSn
+IiJNw+ZEmQJcA7cYkNh4jtGQCZMES4NzOd84a+YHT7UX53nV2aoMFmIJVVLxiZ7ZUJNqzU/0o0MIrOLQdHs+c8bnQExxkJVBH2qnmqC5LZfffIZBWkj7nOKd
+ykqNSyWe6v4qVNn4GZ982BiTpKGOOVNfS0QXPadmdutw0w5JWipwXVspAiSxGwrAY8jQYUjQEiGOF4vrCKSJlv1V3VCkr1rm9B03VZ5XelR7VQEuArNL4wh9
+eaUPE0tWHDzUZ80Bx+fp/nqUmFCmHwSadTUc9vgFXVk2/5RzbAd8CbvTYTTwGFim20JGUiNCeysBLQ30KBfPAVJ1Yp9DejFH1VGm4+pP0rnrf+wwo3f3TXWh
+cukrsCeu9GBSxeLDCzNC0n1Ui1bKPvTSLxtqpFA1Miowt5fKOg2qwMoQ2Kd4YTW2Kx7QXVSyTpLtOXCJgEBEatmr5znkOQ79O2LNDSXt6H7JaW9Sp7KMlo8F
+NLiR6HlfLCdo2GkwvWPat05fTqjkr9+kBK+X2T+CZXy7fwLDCYum9mIZktR44Zw1hYc7wk3dy8XCevesMby8vHAvCwddcOx729s/iX1YzFW3inM2ZJaALISW
+q9VIeZzXTqE0u2A6CQEF0RRrNExQ4UXBFT0rFHQLLBc/DnkGzKm6cbGRguaxX66YGaSm+e3I55ulN1xpmTkWCWtWMFlFQJJKLWV7tk9OgY0kJeBxgSshVn7Z
+6uViToSvXRojUH1lslUglYRFbUJ0rF8mtVucnqlRrU9zHPUymFoalx+8gfAr/xeMzayGnM5Bi2rLY/2EsOHJLWtSaW54wQZVJ4F3fcByGPgSswcAMK/zStPt
+sBa0qSiVLCInJuJpooEVqCtN5bJFYWL7KxW7dApXwqlY5Vht1aUfo6nM08iRUMFNXmVMsampxksp8bqH7XkC9d+mrVAUenwnpd6eMYW9GepSd3ce+UvQ/6aJ
+aoDCP75yx5Qcc6jRNnnJxHMJHZjE3qKuDqZ+pbmdju3pXimWRILOnm0+mj5Sw2pz6DAnVmUVWestGvK94Q0b3GrQpyfPxi9Qpe39gru6I3zZr54CfvE9cJ2j
+cDap9fcDOTCLN99PsQLR96MaWYbX960ZE8dDIeh7V6P172372S/rKEAso3zvRsNyQqigvkx/9X5ftoy/Mdn8bnHDtjikT1WYGdh+19KZSfH1XUolxP2y9f76
+wiGmezVRUbA6ISW0I7/hDelbFmvDM332Y7wS/J9wiMM5Rtcwy2zw83xxLqWmD8X1L7bLelUzCHwztmuCvVewmvngm+1u7WsiLfWSGu5azfOb69Ny9JrfSkD7
+NQHtBfqXleCFOS7uvAzz9Wa3IJQov0143P2me/VH5BjK8az9f70wUpEQTXfQE62vW7Kv26kSV6dHH/rL6ujFb83B+YaqWRcjUjW1fBG0dBVqoOA1uG8yL/A3
+dfg8AzWJ/tr89/lqAMN07/WgEPNgeP5ghfJoMvZst0o24RBNiMTJy3Wm+FTZKCE9+PazZC5zSx4qPuypqRdmo+XZxteTdxpeQfkqXK1c8TD2VthpqvkweFao
+uTlXEySUmR8mcB/BAanGk+xgTqD70np7ZPZAWKAQN5FkSsw9SNrA2vUDh4xCTEEFLbMAvP9ur//UzZjD5MO6r0KvmH4elGtWoa2wPvfhydCHFVPy4nNbkfJz
+zxhlJK74w0XsR91CaEiqYf3gdktxQTmryitET/uDEyK91IetAoUH/PJCuAAPsPNeJALhkq3O2ku0uc0n3KcKMNwAe0zCFkl/jCIF2XOZD54b1HN+ttD8ETIt
+NhBaVfFTrh/BFeIUR0bG5BYYJSNkK25JgsFG4On+B4ubTznPXwRnTEY/xds+n+LlMKMCdob7m6XIj+u6p6YhjqGxFj9QaUb00tnH6l4f5p4+X63nP7EG4evC
+eOxjtm+9ZZnhpQfnT46nzfDyNY+lX1IxJDwDf2f8OGuIbiFBP2JhiKQyqTwrenXWcvt7nNITafONjrQLRwdINpJBqMqVnzLBFCAc4gx6nOFp5lM84AazQ4YK
+asAjQzIvm8Mi/APv6YsVh7geDQlOu4OJy/E0u8YxHlPJKIS8/uiteKO/2Fiut3+XazEvJ1JmdS2HyEwViS866pNuAhubGNjb+qDQFpHlWKOsghCmSiYIH4hZ
+dSA/Q1QvjTzU5X5sGQ9160eDnJ7R1CdXfyzLT8TMO+RK0xUycFZSvA/az9xQFQ4QEnHRXCtk1wAwk9vHmvukIT6L+eUEqkNRmPM6EXSuQ7baQpX4w0bp5CtD
+91ITrjBX/VglXyHlyhbppKCcUa6tVGzXKB9s2rMbGxxSHySBQuAEQzryyUNdzv9kmyl8cj/7TSPHmQ5/bBfzwY2ZN4w+dmd07tvmoxyw0cuHlqhuFX28lK9w
+mokTIj3Ar62p9Sf95+gxLvwk26Z8sE13cWKX3CfPaLXQJwuBAdYJnmqpP8xJHDLmAUm+eZK5+bDvZw1FznLFs1b7LfkkjyI+jD1LNtbT7ffRV9Bw2dPTWNAO
+d1qQyNVqIykH7gTxLOsqoYQOp+Yn/WsBqqcioS02QVhALzfNmEZc8fkT7BIGgm6L06p2Nkyy6DCcqHwgUEpcMiX3i59UNKTVVLWLiFu9x9tuHFchXCtvexm0
+csdbna2a8PfG+Eo9/Htjc/ALFq7cDhMbv10fFW5ca06fNxsCCrcDLQ31Z21Mlt7qDZn3vlEiVTCRG2+W5H2uDivfWzH39nvz8qbRxUZCDInesIto0Pzm/d/K
+TKUG6i8DQxgBS38Il5d/3hibYkkmwb+8jitMcfC0Oo6mR1/OHqhzvhmKPIDHz0ydVk5u3Fc93qDRqKYCHcxkXlVJeleB0lVYVn7jzeAE3FG+S+ersG1VqO+o
+/MRJGz+tyCywLfabwvN2K0Pb/mbFtmMsYTuPbwK9Mo7NtEcHb+s6+QREzAKIpgXw5AP+iGq0EttNZjJlPGllMnzfVokm8adgZs/UhA0syqEQbKR+vD2GhwPZ
+i1QSWr52DpNGC8yP3vTwb8hh3rlzuuw6K1iN315j0UF/jmSikjeWPKxvvK2ToaHgO4WTuLdVuxWiE30j0Iu8GRYzOEUd/52YpXARueMsp75jeITEE1020890
+RFIUVEewUipLLf/Y/dzLjgBRE+26Rb8VzUUbiN7cUaXiGFmXAkKNDl0StQleikf28hWCFamQZlpIsGSnE01Hhaaohvc3edfqzdoojnB9bRdXdtbcfHs/piaj
+y25PQnwH71gAqxBXlZf0VElP/0k5/6SU1iqGf7uQ66NjxDH9ZJQEqki/FfIcYGIDiymS1ECBH/Go68JcHynXBCcb+L+97hEX4anQlcyrB3Thb/v5TiR6dkax
+B1b8UbBWK1FUbESbQjjt9eydbEsjNIf9245L0VJ+V29u2+tm7va6n2xfM/flmdaN7cV9sAx4o63JD3Wnd3hzu1F1ed37BevB9ULTUpfSf0n0yOLfnMWCRyF3
+5PFPcvN2L+ZyEtblr3v+VJvZO9pNVF0Vy9ySfBjl6BOgb11hKZXEQ0fVgnvAjv2OjRX1BJOZzVQtHV95XY9aWPdi14NWyPV5FsMGJfz1sbkkKb48UlPuXxoO
+6dnsDtF4GxVem1qkK+i01DZ4GiL8S4SU9+sO2rPLxGG29L7u4F4Szt4jvCAkgmzugiNd4W9z87pjq/K6m1Bzv857ihnepQSqsKqC4jwVcBJ+zs0RfujNbgnd
+P8H32QfJZdWKB7w2K9gh7pFk5Yyz/WLV3P00ji1jb+bCQawvMmG5YIc+IsxOrdPtXAtBmLHuuY4go7mOIDO8jhyx5v5LaAspBOxeBYlFguuwwWPxa4aYQqT8
+kgLrjl8WfF/QN7IhqMp1udu63KBe28fL/WAYsUkiXdt7SSdKRdcWSnKXNYhnqOqzfzisN1+OSoMTQkzk1PXBenCh8nuWigY6NrBe5eIRTiSvUO3FMHkOT4PX
+tn15zMYtKHE5nzc7p6PoWXICaOwvfPc6IUup6cIhx+VUwYLPI2LlRBjk+NdmXz5gEykbnaC+j7zIdD+XZ6Y8AEsrL+JKtJ/YazO78RX0ZRSYOrG5tqaEs5sr
+XA1cYash8GnWWy/mnJfi5ZsVmyKqaJlyDAiypYsJIzf85cglaKCq4DJZPFYTDMSUMedR3kuszhu8Gqsp88HQShgfcLSDaqHe6B6iTsFWx/jJQvdMXKbJGNVi
+RKSpEfhwp7cdy4DaOjqTaLU5OuU1hGDkFvR8CqZbx/OHI/nt0DvPAlqkK/RjlWvsZ1zh5BaguJh/JPSvS2Dr39vrl8v42NbI08gl+66A06szmy1dtxLmryRG
+jdS5fA2F6iv/VVfaF0aOdZh74WyJdfELV6kKP55XSHjDe6yRzGWjDR+642OkOwqWKpxboXR7x/eyk6EgaLngUb5SoO+pZN4S1HlcrNZRGsA1BMYVV1BVoMLY
+VM8PV3J1ZlUum0dF4nQ6ZKCI5vHBVWv+3w0rjMRl38Kz3xXfne0S9C8taDghYS7xBnNpCBMRmk0VoMyn8uGG0hD3gOMQXIo2vgmNT0HbRpLVr1x+1SbxX17n
+9znhlz6/i6YgAuUKm0TnVxUo3LqeODQ0QHOALVoVQeWqV2bPR9Gez/no6OOxiFmST4ia4/z8pjU8HxXkU52YXlbzL9MXC1lpF5ZhUEMoTJfCfKk4gOdFCj85
+NAsk5MuzVkm/KdD5MasvykAnk8ovg10aWX4RCYq9hLDWnx4t807v0Ms/0bUk9JQcTPz0kscZdq4nOpSEVO7zhhUvg8U/q/+Ts3aYILZqRAIdqyC4H7F4v/2I
+0DE579HTxfOOJyobNAsU0iPwuK6DHFsYppgSXuf14CxOr3O96aaKsuSC4lbhgWYN6Py97grjfKJtJymbREVCV+LUrweX2KCX9cKiCf33wZLtvdGjZUkexM2K
+hdFOA5DqgVAyDJFlPmzcLvt6sjj5VMm/3+0014fk22HpnTKYOeo1KqNs8CGdfOV6tKe5QUgxrT/xsuhcVvfoOHDhssJyjGwzYdCbm7hG/jqEyM1IsbzCe65w
+m3xYA/jkJEuKFl/iEmZrkuagPUGCAQPcfbW1lkyaP/u3smR2vK1jK/jQE0Dg3BJT8UhMuNhcHyF+B2+dBOitg3JHPyKPCoYjhnQbI2tKF2lS3poyz9K/Qywe
+nddg9ZsXo5ufvTbyUJzRGa/lxlptL3pf0x1BloWQx7+8IC2RYTaLBOeGsKjd9+Gy4m00TkkOU1bLoXUXIhvrVTqufxdYz8tiVG5JkZ22NXXZCol3zCbY0/iP
+LEmq7nxeHJhVIhV++FMn1w1zGgGNj6nK/9916ieNhysLVNzl/6Q2JEhiwLa04BqfwtueXQgsQCK0qIyxK7477UKasWjoza7JbiWCtSMk1LbgYr3fl0RdS2z+
+nd4KO1nosLKAPYOc+0OXfu63TfrO/aB1YdsGER+awrJ+50A2Mc7dDco+B6vouZcK4ZTLUvJ1xdQLYFxgZ0gnDd4cOMQzXbPxeh/1eS+hXHhii6IwW1kRIwvH
+mnGQAdSnZSZS554+BKeH8yceyQnX1lVw9z7wyfhf/fG52TDz3G5PzM+0I1M/+BDY4OPJzHb+J1Z0ClXrWIWQ4AHViV/PE2fcPGZzN37aqO10Z0wMqj8UCbw0
+EPJidue0gfj+1XRNUiEilv94YVw0bLPxX/+nhoIq+nPEev7mJwic/uuIYaQgbP014zoDydVcwMmOhRVgDVDQuPfdmn+N95ptiX+u0dzardi52G7fWwk2d5+R
+14kQRQyBPjQ/85UMf666ixvvxSYQevn5fhynZhgEnmed8RaetJ5MFbmuNgRz+sT1dhxI4uY0xC7xaXMH3CBnQjv1OCGLIhsnjF1Y65Y0xFMm/EVxKR2LUjZh
+ORyL0ZIZogO+IqnjS8adNWIJLkN/W2VzP//4Hrqi4HyYMKOYgaCASbRuKju2TdbsPL3vBFDYyz6h5XxWn7InHi29AHTWSsXkgG8oJMC1xIOg0k1iywxt4mhf
+5/FjdR2TmHy6MO0S1v6l4C/w9D7BCQ2RN4gkrS6xxRTpp30/cFlw1oGVaE6iZt1OcKxJCmPXQoJ16cGNrTJL/y6KLwIzV65XN/GorsHv5vnrTogrinFpi2e5
+Z2n8Qo1JEE4TEbzO8fY6vfAYKD7jbaM34cy3GFm9PcejeAIiwRvlFlB6GDa6Cf8QbB9fIyBkyxkICuUTom9y3LgaTROCMMWJNW4n4tYHGNSfoznlBfvi+1Rk
+4zdbCNXjFb9S5eKVvNRiDWXgaKA2RBs+suGu0GYb52gaA0FzP7xo/mAAiaBCaBovi44WteCoJEEzDAahOMJUsYtrrTRzQv3r3wleEXaRaCZHO218hd8Jwi4i
+wXYKQPkJmOOiOp2VBN/iOaZgojxhwkuaop9mrYKO7cwPa4Vn9nz4ZCW7Cd+/klPKVoM6zVl9g65SVa3y9GtGk59NIHdibkhIt52PN0ohoJvYfPB5YSqIX26u
+shU6oSmC+uNkp42LliUesNAx+YATqZo1DKRHs0hD8doEAiVQrUaE6M/CpE+MLAGeeUKn219CIgU0l0+8SzH56Wk6Ojj3CegtrNehsEPz6DQrXX2KxzzZNORc
+B5eqm3GzfJx2NHzm3ptHZ/YleYpn6drGT/CWrbCbPQzIXf1gucWJJ4hmGvG0bh1y7X4zqoVuoDNFl2FcTmZXsDC6vOagjtZtrWcEemldojas1YA/QdyF6MVv
+lu4Zd7flaGejPgNFDFvgw9NKROaymj9/fsODECl2//eLd0fKkCYgKS9ji98/aBrAxukaGdFN296HHK050jz/n/Syup/DI0aqkrzKjjDXe/559LDssDZoSDE9
+aMcY9iiDYiUT6fjWq7ajRrV5Xx7B7UpbVREQTO6LkD9xd67WHSGbRzbEmCYh1p4PI2fXkXZcrVbhm1b2ro9fwlc+8BZ5pakJgx4JjGM9qkY+jjOEH3ehqVBi
+vGdSlNh0RM4uLiG20573etz76xbmL1SNVQZmG3aElJ3ToXFs4Sz1VC5D4OgVdkS0oZneI8bEvx0nmIchG7ONHgIbEm54/St8yFqkOaix5/v/PqSap/pxWGUC
+fkUtz/F79C+cHxvvNdUb0h0jGMyzv/F4inJcFvbZIfWB/zIzHcvvqmYLYY6inOLSWkpSG0Uwow6I+cyeo36wdnQZKRoWuptt0BNzVcwkLCiVjduLZIdXAq86
+pP/cEqYPvpLOUGg+IYz2TNekJukMgTBWn0+WxBga4ffwAkiJ/S2fSbOC4/I9xzvgdkLTcdaiaUX5syoFI/y5SQlOPieRsYfAzLvw1oxeAz5DPTc5wV4rxnNC
+yIPxTN59xA0bT17jysnnXNDsyJCWxvtrs4WOfVQwigGeCl1tvZ8Fs8HpfSxed4UsII606D4YFS775nkFvgr9rsuOF+wQSpzATvtERV0BXoyw/559iGUwfSFy
+Zv5GuQjdXYMJGk6TyDoPJCzFrzA7JTNkfcQ61ylmmqFcjiuKU+X+mcU/Hxvq5Tl+JuexeZuNdglsSdUtvsMcpYINt2F1IiBtt9LvGWqxpyeqyTfaLgE7jpi9
+phiCJByX+0oPDlI3B7g1U2eSfqWh9cwBBVV8r/GwxpMsgJD8ZsnRYNsRS93r+GZmxcdT7UOP58KK94DR/nh49vHgywyg8xUwrzqezhbTx+Pd78MW1rrbBHUK
+4c46XtgAm4SOvaWI/j5HrzAj1MYxRMAqGAcj3cNsLMe9mUXr8HJeVITDa2oYCkM4fmAkT2glq+Puibnjjo5BGFtZLVGqK2exAqHb7v8Q+KAHpqjHZgezjBFI
+mIrqTVj90dqFOGcVdgUcq+NOTfDtPwcKJvsZR6iGTqbGf15Bhb/6/tAfUquOTbJ5DVAlcHd6bG71BFlJ23ZyfdtT+4LViQdB4/Jik41qiOEy6VTrqOAX59rx
+OPW8B7rqhFY9EC4EDPmA4rde6gtAB07oXSXbPq+RMO7xXtGx/W3EEoPbo84MIX4wt4MEUjHY6+FhHzjcY+O6QIdt0bSuvmpXuafwR3EUPO5YjJUmpHAdJilK
+h2YMsbckafQJ00DXRU6AACNcQOeLHTXpZ3mXTKiqcXjC2aikIdqc3egxh31rDsB4KRs08wz9M6SfJzM13QzwXsdvPwrhfzejuZ+998+bPOg7vO70Y2EGFfwR
+RaFfJcMKrmNf5mdejWyrAnwEqOscWl8KAysG0CD75whWtkCAVvRlRudsiPGOpOZ1mK4uTM3ZY21RYrJkM2qksNg6GDZTiDR3fB2jqfuOMaPtg/beGoa2R8Yw
+5MiPJtDdieAvrjxSWjNKd3rBHCM3tnLpxYw+fysL8nlz6rS6kVKd9zkUX49Mecv0UcDPd4sZByFAjVfI5mI+sn2OHCHPQcF6aL7QEvq6UFGL/WMuKuwdAfYd
+gOBvn8MxBcg4X2jqxAcpHh+TSVT+JkcQxMgWfnkyxifOGH0rZA4FS9Vs47RD88nVd+RIQg4eZz5EhASU5dy5bcOU0k/sOpTfQIpnti4ad3R2JKZ5+WU6V4uO
+panmnEi+M+pIpnt5HSkUPg4NZtwEm+5lNhKyKhQ75L8GzqPUgwXbqmV5mIWIy37tuTcGlFlhCKmp4Rng1jdtm8ppkIucL3N5Ew5BKoiEOdXC7Qx3WVQz18Bh
+SGr39pBGylxa2Dk8vJzLLewvtCCuVg9ldvBdHAlvqRW57e/jVjNhGeodrSNZ/fZIDLM5MzhXBs1YGLRwBt28w1ztqmqRMd0b8z725zn1I/k308EEeMXmSL8l
+wSOFYsP/UIQZywuFfeXJ/2zj8r/bRLPJgtVYEdKs5kcCM/9NgluT/904vDz4jbPmn8hX+J/i2x963J0man+wY+TZu4eyu1o7DPH2+2DWqzGXJMYHbn73e+eS
++eLwfDrEZ8cevpFPCxQX4TTZz/OOO4oeKjlJPSvh+/2nbkKAYrCgtTuflwlrqt7aftyxVYNwEcKpBDJi2tEb8GHrSuw2F1bIM46N8xiZ7EeoERZLHVcwB3qM
+bSyM79b/V9jAhb3DDfPC7x4Z4106XgUCsrBFQpziydmpzJWVTtLIIu+O2eo74sxtcbISFigt5zT0/xYShi7/rrn61qjcS1Dh2MOf3r69X+xsuEIGV8++XdZ5
+2KvbvD203vbNChE7moXMA248DFvyycOPgO8Dph8FEM/s206eENfGaRbbMEmyv1gao52JsSPkbeFcI8qZcRM4Q3JjIV8BPGqGIkbAsFOZsk3nJ+r5vtmh625/
+LIB39XfUHRTkD8swOyvlCTS12a7eeP2+9vlZdkZQEvRPD7xDgk+oCcMOvZpDBdQIVe7/XMTm/CHANAaYCZP5OIkrXddp1YrdLAxAlIgZ11AKMdnY56AuBCls
+5Yv2wl4+ZhYR0sPiMD3PmJkgcdpcT3ux3bU7MPxJh9XjXjRX4R1RIUwGh5M5dC1tPtu+mNQ4s0pEoU5nZyYQ0cBnvqtvP1AtY/PGvup3vE1H+4E41uqM+NpN
+En8y8EKO6qDOu9DHWLDfF0npl+rW4yDQkOw0irJd0IgwvPZRQ8zi7codywCXVnz4+RyM/C6bELyhZykpY8W3j+huGvhY/aw2Zcv9VUXA3efe53D3jMAe4p6x
+C1YIa95uv9fZmOP3cTs0cTOCXVUiUDKzG7t82SNBbDo7dfiHIVtQ/Z0MBLy2Hpw1xyG8cE0RaHgFR20l+YXa0IQO5jh0BHA4kQsIkaOSCFTNAZu47fYxMxgp
+yZqneA9oh4/9xYKOilh2Itd7xQwYgbqE6gPhiiaY0MaTYPI2wI5VBLehHGzAYscxm3pmdxx0PnsebvRfhZSqyge859iUFzIh3XPngiJwE527+hrdEUUSYY2h
+oOUhTsavPDgNGrd86TJ3u1rac3vjIZ1nxKInSNyubRmNoD1bSQCkicBNzI6b3D191BbAmIPkAQFfLr1nkwBaIMxeO9mrGpFwsss0BAXsJe1WJXrZkcXpn3Qw
+JC/ZP5PAakqc0qCTdwf5dOFEWnA+DquDg93m4Gtgqh1PyGAbxQSTcHIH6rkU/aPJDYDNuqO7LbezkVgPVaEcPJX60bv3sTYUlc6elBBo9rxVhsmyzyWug8Wd
+sNZtSWVjaqnqkra5HmSHlOcGM0Qg0DmDVlZJfZhBBDCU6u9Ev+ZtqYmZg7UDoVTmvd0GzD42e667m/4ACqIdp9QKxjw8/pXXr5WIEVPyPf8aNXyflcm3s8Sj
+l6DdYXjqj0qZY7UMzkYLyTmM/yC/VwfboIVYDNghLoDNQFILpwPtLT474Ky1itKegvF0N5EMEJQXe7JH8D29VAtUMrfvgGhe0vAXw3IA5dkCVCI/4aX88pO2
+67wVHGbQV0Zus0I9ZKOZZeS1nRhbKqQ+bCjmvAGvlMUQIA0h2CiOvV1iChUAIeoIGeypE9tp69fNm2T8Vl3kM2+mQERtPgeiRCc4CSgA2wHNrr3YqEBtkO9T
+WW0ED18sqzzbrsZJcUH+WrdsVTBQRtn4wEqVLc3USenrbeFUerPq97Zc7Muo29sWL+dqkLErqK85e4gDwamKhIofHM8/hntXE3JYA5mTw7C3KIVzlyp//TbB
+4a9PKYnmcRuZIW3j7HYfpdSjokH5zpcbsMCt0typTFuZn3mfvaaa0QHqfPWnejitLM52Cz9aJiEbdqZ6THN87wtgmm9uWLo0DfUOzQS25pdPjdLZBNntFi7X
+BeoSNpokVLI2zT1Uotdnt+Xb6gZEYcOO0nr/B9fcep8ny/M+fyycH1cF7O9hK6vb/3c//Ni+7hPXDX3udbOxhCBZS33dMKBRqZAAJXquAtFuLC2vkLmursMK
+uXuUoKKEDfOD+Am4gunaUmuacXa/F8JY9EUI9T02/i6Ff5riCNDjXln78Qhg3brutYaL4pUNOlV1iL1WllnXwkr5Wuhe1uK2fsX9b91nQratz1pQpNVoTQJu
+KN1DIusLwlQSorWZQvTNmCrxngXe3wIVPsVtc7+9Dvej+zQaSYSxyrPmD4tnAm/YCRt03tf8Zn6z5vuTB8BFGzSpD1ITW9W2AJ8M9DhrDn/3RHmyxi+EE0+9
+hUolNip+mlWAVrY3uYWx9BqLD+w8ObE5TJ5MI6MGcM2x/YLaiToYQaOgc1K93awuUJFovkKQvKOGETrHoNzDnsZkzKtNO5ukR6j/OxzSqxm5R0OU1TpXnGPf
+wvxyJMH+3zAGQfQCw8reA2cYzzrD7Ado9bx/hWeDSP64onQbEY8LgZM62M+wHQasyQkNyzWcsc+EOHvhHjYBBc32ddwmGLqIv3ktz4EPg+VxW7F4FrzcXkJe
+0DBebvtIW8KBimDyD0gsdwu1d5WYop9WCxeEZguqnb0P4BuTlu+Mw6wKLKGWutxWr17Mv064ceXSPA7NULfcsw0MFk+z838/Aasu6+tpOBhSwsBkuaeRLmVh
+eUDhSJCDNcN0TXYAoCczmHOCNvuTWDSdWWCOXyCtTn0Ip8+wnEHoY4eGXiqeSCqXmGDrGy+x4yxIiwaPEpRvn8fIprSPWCtaaM1m0DsAEoKkkycdToDpdr4W
+1AQsGEES1cFyyGLLB4CIwBmbWAu+t9BPGM2qbyluh7iYdawrDrPADax+Unc7ji42ZZES/AjLZith/BV9fHk4IECw7d+iybTDyKnN57ZY8GOCZvMOC6zLW4hX
+W1FHqodKcFOZMcbmgSEeUUS22I4LoS31yhNlqKoRBHA1yV2VPWm24Os8FsXf8zYZflF5/VOI/2QhOn0KfUzFq34i1ozwYIHq6WZpzUccUhXmvf+Zsi8b/zgm
+BuITsfKnNm3BweoL7pyDFOJumzg8iTKQ3Fb/tUtcNpcTFoZCiXUpD8NLARtSQP22kgalXiXy7vjp0dMSO9NW6cILALYsMbBfyhGkGAtMiISM6ASsviysjui5
+dkUO3FfktaSBq4LFwrpEJBIHxH4hZvBqLdktZEy2WI8imBwkp9NhIl2RGvOAHiHkV2z/dIG8wxyxz2wQCGxMjvpf/e345uT7E69UtfKWYOIAZr/qiIFyqZJC
+FhIMLlQYwfEYuyRgWeRb122W0l5ehpQABcRS+7/JUqV/g9SF3c7wq8JWApJDVo0WxrKKCp+Ql10wLOoXoWWV4MYk367L6p9d73+uahbP7gNdcpjXV2VfyZmh
+ILRI7BIJNbBcsFZhonGgSqSx0PshXtw3AYt974VcnyAknGIbF2mO81MwTqBb1/KYA2JB8krzclas2RGLkB1Uo18Wmq/JQAJWetvFVjIAiqb0M96UXdBBXazN
+tuTFnYyVaZdc0+YCmOfWeYIvRi6fqC1eEzE49N7Ky9oVHpgteaR+Z7y1CwbWiHlepvd70SS3fEuMhP1GnTPSO7EAQedF3iW38QK+zc5wlspZKITaTVC9ui8m
+L9SJ9u3Jy9KiB0xmavSHWT/YNBa2h+DjqxkgbhZUf+ALkGQVa7AoRa06CnNzIDm+2ZtGwiCaWFQS7cxCgma/hF4URjiiXbHLJT9a+fe7NK0+kEb/LmFyjQCT
+o3B+23Mj0vyJJ2NVubTDxz9wig6Q6U8IjhHXOTx92LZ41OCWFIj7PN+xNGb30hKSAZ1bY+QkjhAF2Y/Plrp4KJkdcXQFXUyhynchM/BFw1YUEt+lbTFa4WtK
+Ko4XtyyNcTv8/PawPxJL6e0j9nESJ21l6Ie1qGNSTJDqyXX9J1Bo4k1wrhEmmJJnlLrWkOqR7e58Gc3FMNaTUE8Yj3WrR6IASagPQRGlHimOyW4nSlyezl/i
+IJxMIcTvJT5Jm2YvlIYUMdWsbZNNvhCw2l9as4ILeSLPTvPbhSB9v/fBYCN975bQYoHYaUkfa7AqZRgwOPTqg3I23WZUAN2OpLtlfLqkqzKnSmJ5b8Fd8+Gb
+3Q4ax+wo1LNtmrpZmHxpXGfVQiF28oLRH4t17TsABW0EArTEAw28HTedX9YMgnOfFaGtyks6IrnnFZSWS6x6LV71sgs4hh5osiz1QnfUCIzzl58XBkX0zeTX
+8fYIMx237YsRTqbtCAvhVR3DIrLbZVzd/VhKVci+h9V7wK4ncNjlTSSkwyT1i5lD/ZGO3V275jOjLyCTjrkJU03k6a6RO3PN6sD7X2s8ir4dnSyL7EItUCia
+Q4y1r/UnEKj+GIrzSuhwtBdcSzHIq5IFb42G4M9+pEju7ihW6BsOJ0QPii+xBs8QDhK4YWV1wurWyCXwXy+dbDrGlqXzdi29W4mE54XFpo2to9LAeI8ygegV
+SKzGD1/VOUW/gWNoa/kxHVpgxY9xpOphirFEVFy93L5pWUIFA91EV31hGo0QfAo2v84MQfiSgtxiCXubOOGhEiuIUwBhCRIqS/RarqGMXRkII3TZcY++pk8e
+CdujZi3g6mFdkudUd/AXCW8XWQ/C0p96E7/sn8vvX4LYQV3S+c/TH/2TLzUVNhDrEEtibxjYFmcg1r4KTZOzQLrqYjem/xzjGNnlMV4aovIOrkuM15zuIagc
+Q2jjcw3zz+FKdVHn5j9BCBk5MwxRI4e4tY/C3nl47r2OBcVHLMmWMDwVdO5lvEZKWO1glkSv7BqJuyKyra1Lbkiqox8LORoJOuK5IlDefhjryb51jIYV9b7V
+BUO9WoruLAgjjmhB2iY7Ha0V/UDXpsZ3wwk+29ZlDneBAuXL/MQQfX6s0CQIwj4GEfWyaeIyquF8/2fdhvm+LsYgQlZf2Gog6yXsJHm+Gcqh5iTJlgMz7BKa
+qLNBmvx7JpaJWX7Uv1lTcOvbqA+EpOPlvlCBt3+Eo4a4M24q4reGVXbGKWlgJXq+WyrojEknZXe+m8UpatQizZq2a+A3b/Q/K6gbWH/zLazgcakX8AgNt9vh
+2bZXnGRUq3Byd+URwxrnJVDAJCU/4zKZNTrMPq+edgnBYdXssDDEEbZmZvSfWm6n5QYKDzVvwVxtqHEyfTok0bsa2HmzJzS1ABoYQ4W683GEjgL6d7/8gkFV
+skA4MjQRMBGbt0GjLCATdc8InLzpe56LX+E2XsOq0wLT+Uvo4mXbyBwNXNfTSEZCzWpvpaxHUzPnYpsgTXfnck8TJy4biM5WHCNmNodvoA0NxrmoarAn59CG
+bXMJFcYZV6gK92tTPvvB6nqsaxbK20ZPq23IFbSrIRp4Q2j7HaKFAgaRDF7gUUK0EONnJLjNPI3vSkXBEIkahuQk9PVqcrVk65BwOp9vZqUIXJVjNiJh5Lm5
+exxSxSDpJAu6y7+6WoXQViLHGipHfk6CpW77zng85er88cPzG6WcmQE+dUOYDeEeE8FLOCEAKcpKvh+CCatsdl/8ZkHlL0AtVjBSPr3rOXE1yUO7e7api/31
++TBU7bPNz+a8k1p2QMpWhZc5xBxyK+bBlF3ck/I6NXdQ5jwv0BfhBVm47F4EmzHucuXMC81IXuDHtYejgfi5lDV69X/UF9wrOxeKx4m+jy5tDnMsQ2hkSeRz
+1FVhkMDiuEZ1yfwYnJoB7RPn6pAf0jqEq3WElmT1kec9Cg/EpJbQ2dW7fMNad/N4LJYBYs9c180EnW82v7bN1bgFN3W8UZO3u3+FLvIcWmgAq5woIHGQrZB4
+fnjLAym8OS1KIqvWOcD7GnN6TnOdIXBXekbNFQVUmfS0WJZJgBaQd0vvr68yA9IrHKk2blpxpjOzbk8rbQQ8hjA6xP9xPWBXyBJWlteFoTsroTaP6c5rVMjE
++gdwq+pbQK10TtZmaInkcq4k9tAU2r4wnIiQBtiQfFHr5llDe+9CzxD/Exs+4xvQHV06TfE1JxvezbCPv7n78DH745m9rew32lngJJLdVhU4G8WXmzA/rLXU
+k3xnDVS9porXBToSTwZmtl0VDNF1SDCNHoKT+ONtshTNjKQmx8nOiWKgFpd0S/Za9PyzH0DomRCGx2Ir/s5prUo3Gtjt7hGEAdvpkPZGwAhV2LPGJGyc3iVF
+OfDQdda4Z4u3+XMe/+l7+pVjSDqbN382A++cvCCQLDDrNJYvV4fTnBn2DZiKJeAvNEUC+tlv2yd/lp6pxQsjAKpUas9fSryXlkPwfT81nxne6MfNHnzRLkqN
+3ZnHIW5mnjg9EItPjxv56aO+ebq/sOZOGvTw3adQrJi8N2Vj38k8uEdF1wOJ1eGspM2rjQidAdoRQfkd9pYbAlV3Yu9DoQ10JxNPh6Ch9sQOiCfmkqwSMuGG
+lhClHDXfKgoK914hbZPCiUdMdxuo/9EpHufTIdfzXSYNt3DsjLB+SbbavByP8iBXUXxzfSOW7A15/fVE8avu0+mHb2xuAtaNBeWs7g8sx6H2G0C6mnQ6jZ7F
+TcpjVqGnc3w+Vl+Y0OWKTymRD3A8p3LtuH/RSuKp6iuYf1pgcDDVDZNJ89g9GTSdFfCyptbK3YVkL6nTTwkfwbVHQv5mQ9yh7+BVleTCbTkH+ill55kMM4zs
+nk1HeNIRXmF+xvU4CAcKdqdC0yJMsCNj2e+7E9xOn8LpdHq2hUCEiW/MsO4TJraS/1yuNjwe6wbcfrHgrzxL8y/jNLg1lZSluaXoaCI+bXZFI4gYWMHQh3xC
+rEda3w+fA0AaNqiUIlprUghKvcolajt973EFi5yk3Tcfa93YlUhbMzHYjUsHR3N0Z9jCIbqo2KHutJGz215DDzEQoDPHgtI37JknbcS2qotBgcpyjrB3PMtC
+QKEyM/tk3RwumM+IdN4JNMb+o4JA37XZFJjVfe7SMCfiZQliqv5wp23kxzh7qCCBdSgj1Xyr3wlliTmEna0XcOetNQQaTAsoUeO5x4L+O002eVRLzsZmmTA1
+CpunTjglHr7Bbfu0ejN0Wq14+jtEJVvLlyGKUIPRyeRU05q/oYk70fxykenHBCbuFcKUTpu24i4E2NV6Tgs5jYf3yRM5weYKPGPMavYbZY4XYPiRySskZviG
+9TKmf82Chov+hjh3beuB1AILU4eJkdoUkSOtJmlFXqDsQGg2WycgEowrIV3opKHK7Z9Wup/mn4b9VP2JTXTxhG5m1ROQP4JQXJj+bOOnklEeViompim+rfAx
+gbMQjoR2liqI3qIc9g8pZBUKNRjNgwXlOo3tOAQZ2VR2q95PJUYRmujik8Cb7RMbaEcOJBzw14mQLub6EwwNhKzKBtJolNndUmHfZMJZQPxiLpE/lszHjzTE
+KT4OjAsXoFklyckozgumxr7hJeFcYoL0TVOtaaQFGXWTwsRvJzQ/H9LFyJj9htUha1FTNsHJlO3Kfsp2miDQuIZGI9uLd91eothlg+2YJ+87CbxxAAM6M//J
+WmXY6Pgg9guHscAQg9DXA45qid0tSXb/N9X+NHvVTFDKuKk9mG9+RAeYp/LRh1VP92tsrTet0DmjBhxrsclW70HcoXBl301o45TJajVeZ5oYIJApOI0gfE3p
+q+aF6pnoeJO+VfoklP8mPGMx8JxQyJw0AnZkCZX/Iw7wTim2dEGCuMQnrB8DVudYSOkJsJsaSXtl/5nsKpgGQF1N1Mik+ktkrteJnTuFLX2vnWcqPNf4dY6R
+suP0YUgKJnw9uycNKrmJZeHTsBD34QUb0KFqXhRliW5OcOXt1tY+dBy72x1Y6GJEoBH1qM+EMa5TYa03wLevm3/QCdjdrn916YjXXlNxmB360LKjYx3vEbQL
+E+4S2Hd9QkzOh6XUcZDGnPd6G/UhjQpUrHomm77fXs3jifPGLXO1eJuSlzOMNba5jHHCSxcTq7C8h+tkYsjrmhEVNkW/6HXVX4QNSixTQvdC4e1QFf/vfrM6
+/YdPE4UerAg0Sfq7UcEGOPEzuENqZlhiJLENImjTnwDXXAI0iv40SqTJ+DMPxt/dsvL4hyFo1PK/6FL+NpMy/qFXQsiJ1fsvf1uQaP5tazge+qNrtRWvxKAQ
+/ttGdhgF2Vpef3SlhPqnDfkLn5d/W0PkKfiM0ZKbCBOd2V8o2P95XeifpGL4V6yDwAHTcPxBSP6X36jM6RnZahF/yrh77oR7JLo67fvL/6LDaYpmMyDNzB/t
+y6VX+Pld+sN6jcH3X+575wJNwcoM4i9jPH4Z29lK1X/pWQhZAFbIhP6PWTNbbgh5uPW+dsdNMhLmm0W47wpWUxv+eVh6GgloQ6hPFgnHO+5V/8kI+y+W+MGf
+fzKJzIT+sAFTqKH5Focne7wx+s4RA7c/TcFoW/6SWXhIKMrCSyDfB8ciEUG7NeFt/i/hTPRVnu2FV/I2MygtNwNeAav3XsUtGju+qulQOdVRlLPsL9YDudn+
+VgQDJp6vYtU6DGkiVJNTzkrlXk7bkgtKGl/loClTOVG2FG8cCS4v0wkPT+pdAtWuO0FrOMEqbCDxczBjCisUDSN6ZSfDfQUdAfwhUOrYM+irLLeesqAkxSKI
+uma0MEqsc6iumASHPnkgfKF64o9QTPJPaNNdTRJUBgpO9l7KHeu4FlNxsjRclLNv5rujV/jHh0aDUMFkMS0KISd+BBq9KIy13vGOJd6RySuhhvYKaYJGUynA
+3cpGAowj1mpEoFsRnuaFRZriyLLbVaEEew0X6n9++6lzS1i+zqvx9pquQG2tk9FfnPZiogC2MLCJ+ZJFhhswm4x3x/c39Uacg6r+4qRzdTw1eX2Nx9PaYHY8
+EjOicftPwxpWAxigjGGWPqLZ4qPhC2uEU424N7WFCmMpVOjJ1wjZMD+DWlVojaNxC/uKEe1etZv2DDI/Rj6ej2CJ90VYY10XqbIuweLkD7PBHjdadYAwouoe
+x0yNxGOtn282x5E5z0qnHZFsvm3j3cLTHTS6xAenioASsEHzy62LP4/JdQkVzB5cgGM2SyNiJqHzuTE0tRTZgT9gR6NySxOM5cN35VmKNgxFR3s4NiWKxPgu
+0JUp9Gegqxlp2WPhfdziJbAGJmH9v0T0/Wg+B0lB7KJe2mN20PsP4/b7eJpBxEuEAu8IP2Wk2NZdno2MmxlMSD1OkgF+4DVKL8Capj50Ob03NKqpgNfYkZYD
+axFQWWFiyxPswuJzpB/J+sL0f2cAan8IkM0zfQgZ6CLGmDiCyqow0x29KyrQnBmrRIR1u0KoRtsjmw50PyMmVDAKjaVapY+ooPFWNh3XFRlyiMmNGzKvaoUy
+PbayV43u7GwpFqK/Rz69czda8RInvWzua4A52qzLXz+b3AC02SCYHTLO+r48NAmwt4Kj98NCt2z0voXCUpN5lN/z1NUfppiRHA7eR/Q8/ehoqjD+chReOhrd
+KwNrtEbZOjcGmitwcDpXt4X6TGxKI7Cf207OyewFvzEvR8QJAnu82rK/TL1DmONIw9cFvKBkyY+NUS/ejm6eVg1+ETywk1CIhinXVTGycY7Uz/Xb5rmn54nv
+MvcD1PoIuTq2lNxFI5HrRrrqjK2BOYdi5xHHorbkEh+/WP0JpIVj9yMGkFQ4ZhXCueZjJWYKac21o+BHrbRZlUFh5K4KRhzM5FUXo8lRbU/9sHiJNkBlGZiN
+q/lxuRZaeb+ZOUoF+8ilaBiNibks4WzCMYnPWvVpJdoFzZjULN2CN0McHCHxJA2ATodpAerqOBLJ1gBvcph9aTi6RXANTbUDSD8IIs6RbYQ2HhnGxqNHsft8
+D4j0Oimeoky34zBJQXLM8HlMP75ESzUmDCH5xsk8p8btuj1KhQQPzbPROvRA9cw62nvvYaGpmXGk4Wb6OCYKr7lYkXfr640adMa7rCe1Ia2VbMocJE9AX/yb
+72P3e1dkhpkVNp/yqpL6buy0MYpm695dOa03i/HkwGyaxtEMSNw1F74AeimETJ8Qkq/RVJmTZY0PMVRwGUJJg3CoTx1c4DBq4PD/VQiJv/XokQnfCJcP6eky
+2Wm2/NE9EW4hvdkyJkiQFDav4YHHf/gUyt7ACGsz2MxXgpI53LV+Sbj8M4ejupCST+Qf8/Bwo3dpdiaJGoIM974/CjXmhLFjMIfbJVy4YlESbhsAJgvlP/J6
+CMYAI/uKg9dNFNJf0IwN0OX6yTaXBrx3JWFuNho1Se0YAjZAET8+R2bmtMhqcqn+iJlkZhTuDycxyGaMhCqjzo1MXzBARK0JRi/JnAQ+BZfWQbTszqzoyg3e
+VBtMe6e+bYCTiFDTFoV1lwpJBULwY5ST2Cqew3SYbBt9f8dRrggBh/LPT8TbfA6R4dJgZh7AztWNzsrDxmpxxvV8gP0GAjgJzeNQ5WY4wm2CUA0NE0EkPQVc
+iLCgQjcw5P2lDGJIgNxitBz3m7VRUD7ZcDqMQ30c6uL23rbiCD1hdagliTZwYGNs270tLvlNWwmi3AK6MAkJLt+WyGGcm/rCFUccIPo4FjrfuCx+27RQ6Qb7
+MgZmMh/CLIUdjhMtMIbx1V19HDasvrJmJTMfZjAhDfWYMyAlvdV2fx9Cn1FpZHcJjOKjT3sALsLszyk8gkduoMXEQbUlgmUmJvWqPaXMuwTDxjrfgGYM57Zu
+3bKxBIy49EYIG1ckVw0UdWPtYmDY7PqJJQiZsLGjNmxm3htYVB+d5NlRaoJWYt48xEZAXNSN9h2H1JvYFMnDYQn/Fr2H7Y+1lYHR70V64U5VN2spQLNfgTly
+B1ibFOIbA/p9S6/B1QZuZBX5+da7oD5EozNjmaOWWMKmoaWAk4WFgGF2CZ5d663lQBLn9EvXrK5AQQwCB3t8vYhBZclFekYlUaHXoYY/G+IMpdKcDcXLJENh
+OVAhw1eBbyybSVDBsDuWdAwh4ANpCOPVIciITwTs742DQxJq1Y0BPuKhzIdbYH07l2o7oqw26QPa30Q2t7CUWPCLFm+5DyX2+tABXDdHkmv8pqUeym9JZNDM
+m+jsLcNZWqq3bkvQWZaQcpUWjMgR2s3sAiFSccElDo210xjdYKLtOeS3ZoGPJSs4CGIGPOS6Z6EE3q64uPgIE9EBi6bDh+yLlyGlrqmnUOcC3bbn6qvVgn9D
+hV2RfM76HD87Ev8oFb1GE1JEbOOfAeIFkqlBuNvUbP1bkBmUnvn1SHPAnSN3Fc99QG4eD/8YScEY08TBlApE2T3KLs/7OerBFxHZ2biAyo/uMlWUcaHxo2m/
+rlajiN3GgKf7BbBiOwxg3t4eoF3iyeGxXnhBEClwE1hLj5VFTAA9JC8ICpb45aY3HXdPXAzc6NhTeMKzB2SKIr7oN8Pp0HKlSJdU3sk3ebI+pFggGtBwJuF4
+9QLgkbpSSNZnteiykvAWEffQCgvd9qlou01Na0S4Usc1jrPLWYT8sg03YWSSBnZfcInXso2N0IyPg8k/UW7aGkPxwMmSqQ4shUGnVaDOHFhP5cEZO+fNeQHN
+DNBEH4lT9Lcfoi/mE/5cf+yODOisDKiFcIFLL3bUTpo7eliZqcZJDSspos9PmpadLgGNNZ76Z2KU1N/XYQ3y/j5mghaXkEJrT/Wa4j+cW6t5YX+jB0wd7TXu
+ciMoYTAzOpJaGPfYFpPAdMD9beeq1fucfq0Uqv4OQ8T+Tiht9sdTx4c9pIy0Ixmx0pz18AcyzO0Pr2+QZJN99xqNfKOaWnb5ZUm5Ufb01ia5wFyjMV+dryCG
+YvulXuMTyLmMhBe3MCbrGY/Ejbn8ZUOE9rqB4IrSQ1by3cB/CYZ2lNDtrwWnCFup/sj1ZRLENIIbTsXLCYPjg0qLtx3vASBUVQVEjGyqsAQWa9xZ9COSbSeE
+LTtar95sDzjyRGQA0LNUZ2hvPd4LczN4xDShDwvZHpZ+zNgtUTBCF0HQ8IMd+n5j/6K3YakLe4/6IwpwX4mzzf6EPuGiMT9Mjvo5VjqFGjj21CUFqgoKoXUA
+rKzeW93X4Ms3r5D0qMQeOJyWpPEyalAaMemVTBCy+kFWowSzF2Z71SGSAU3TGaCI/rL9wPbFCs199QrQl7rA2rOs1Rce7r6JtYe4ft2qkjmyhylg3LP+bp4f
+1cAeQqPY9+htfdmXqBfFKTBfPKGrXC2RynaTOFoimE6HlPvyT3Olz5Az9GjgKGB+3ecg8WUT2sxSMLnbahohYzZrbneKJMiiXE/3aP7cvvqHQYgypB8b3Rr6
+VmtrgM6qz/+7rSLWZ0+UwTw7BqGvZzlJsOCB7+XC/ZsA4tE4r3ZJZufGPXyXF8CEy4uZktXgE63ujgfaI0lvtVRgQDtVw8Y+6pvP2UWmsHVGmGGwj/6xsmX2
+5oPuEyQWfbq9spCQyPJkz6HsJ9LRSTgfAsxPevZJNoOCw+wXPf2b7zv+5ySnYzEvYs8QiI0IOiHm4n2QEYLQhIKd11F7E6cTohbeJ2b1fdD0GhSOR/ip7iUP
+JmzpU46dnz7ZVK9X064R5is/jH91PPN2+b/C58gfjZVs2Hi+7DGC8ziZZSkpJLNJmixTxdqIO5Js95mvapr9vKDOPAlpc22jF4z0NS0Z38MKd2bOAhMZxzq0
+92kQ69dH03LF84CuPzyuoHfQcDMf+6uundpWnEHgVZN8TBMGSNR9Q7GrY77rK9YqBSYxzgftlXo/CqjKVmZrwDugLE9mb6B62ptXr6UY6nZYyBR/pMSFQ122
+DMlJs1MVVDRxqPvKy8l8B70KQlowO9l4Zc8aM2bXCmFsJ+Tp2MBk89xm5tYeCQ56KVzQK6S/JwyXJzgKp56pisTKIf3wbSju+l45jL8NoYqSMTVgKGyh8Xd1
+O6ww0aHURdZYWQ3j6zzb6UeeYs0oT170DMVwHeDmYqdmGRof3ftbWc/e3MzjSd5o8oP3cSecgUklIc0d5mMb6F+RQd0SnY0F7jDRdO7swD3XLQphiwZyGBoT
+sgmvB4aZJ/nXTsfGJ2pZ2XzpA5434WFmIgmlI9S//ZvhIcE9srchFOznq/veasa7b7lRNe2eumzRPavDRTPI7tHjFejfKbEv0Czghtu+nfXduvviTTrzHHZs
+KJrOpruZuxFmg/o/hSN0pSB2Mh2e5lRshZqiazwkIYyEJHD5kXeidB/v0ztkDYI522lmB3n1QfT4OVaOddaFrZWuYzKiwGvSQmd1dy97JHdhQRng03asBeuD
+vSBtUwsr0F/i6VSK7kbNRTA6qsGNkNCp4XsTU2xFCVc/p+WKxs86vlg2qe/qjtsq3+GxD2K4zvuSknYCR48bVxU6tuJP32N/N0IsPAAPkISmaOqO9CGqYILt
+Dtv/CkZoyTs2M0/AFPE4Zv7tNHYQkzwAt7FvkYzwHQYqPPAC44uP0MfoGC5lYjxMHyckWrfsnVdfWEmR1Lpn7KDq6rZV3SlgS0uQxXh21MnTLQiOwQEb7yoI
+seLws5bccH/dPumgrzqVMdswuJXrNpdOtdKfIAVHTBxpNOYDKKYK8/l9aWjKdy//UR87fLMT2o14CommB2FuUO3q1I94I0DCtizonHfFvskFNMJdgcFPIfxe
+ep/qOgnuHjSOurJs0AwjlMsEQUj1lK2Bkaxz1rEWoXDAHaeAIQtHQ/tYqAfPm69ngSEAe3yOZC+0gHMJdMFmpBXH19M/+77auHSMt5grQqw7Yq3RMbCvk0/N
+BlWf2BRSSBUI4zVmhyvhCzJSvJol51f+sEGqKPIbjawRQU2oZtibxXn2Lab2BWabzUu83UF0+pAY/HbZAxKg5jWSkmgy6w5LoxyY7TWws5JA573K2SdgnSWe
+M9nxo8mqFqCP59BXcqGmHGRk3tmxE4Q1OsLMGqoEnlq/YXaUa9WgxeLz2AI6ipYGfI9DDtp7roGwxI9sXnSkdLCZgGC/SAiB891y3DoHHX0la6ASXNSyTflO
+CxUoSGws+qFoJVeEx8kS9hC0284m2HGLX2mew/WsJFyNxG2eoPqYBg8+ktHHBn1Pa38YSMn1hG3G218U8xPDkmoOWnRcNQVJEy40o7qMCjiHJmWoZjASojz8
+SM8lzf7NoJaSl72WHZ/WDsQBP2VAN4iUxmQMZGwiZBblE6WeYCqy8wGzmiaz0RlsCiAh/SlsNxdeppXOX+9rV6l+oBa9YGCP+Jv7KpHXjdvp3LgUNMc98s0b
+8z8JMSQCs8+qFHVeGJScahIiCxkhM0KUxGiBtKZW96THLXt6RrYChTRt6Q2VA9C5eicWNbywZUISkyx1dv3YpevzOM9sDtV53Yo7jtsOcRGwfBSy9fHycmeH
+ZT/3quljJGC+4c5X7duXMFodTJsd9eryqDl77MF0JgYMGA1+U7YXeDR6k8Cvp061/KITWeJApHh2AmcUXxnq+kMIq9VAl7wNxbEhmBAQYADEGAjLBBsFdYlB
+Wgc3b5ea5kg2qu/w07G92i8qKS+cAFNXheq4rJQn8Wcx1H4TTIQAwe5jT6X+aR9m6e2zoyLVforyC+ZSVHuDwbS9oT1pGSAp/cLRa4MIJbAprGu21sO6QVTK
+Y4+4vQ90pgQMJdr7qPey90xoubOsP27e8Y8qhNu7ReOq3jnbOLllE5HxRAjJZ2L42t5dFEpJQTPb3o3Xq0AVgPZWRh3w2rWHRn0xYmxhpViBPRMu+oIgFBuC
+zC3bJxZs2yMGJCAtp/C9ETqFgjV+eXyF2ZZ1ixDifJAxt4fXk+3iK83GuL+crjetrUziSGcVmtbsxgdCRunVQHlhL8CejSXYRAiMFGaMHoyqhO0Rg/HWJPuP
+cfLLpwrqVnVYc2DCB66TdvtPI8mWN1U8sdfRMgJ7ue/LbLEjqZj+P6bORNtVlmvWt5JbQyXKEpvfJnmTqz/11CT7O2OsRZVGEZGe2QCUe5D5o8/sBNWxWqOK
+JbB+u+7R8eAsZSyLWSGMD7WFlAiY/Fh6OYUMLPrNjzo+fBPMmIY2juhJ7eu9AHblIBWI0Xhvi6ZIwQXzNnYfO3CBhNZOYAWHDqS32TjHzeamYIhPSa/2Sn6D
+YyjtTDu2873ea14962wn8W1IABmf9CoitrHZ4744MmebnbJt8BFSm45uxfw04qbo0QepPhGjVUgcC33jGtF5+ObSs9kale32OClrXDf/sm11OtYeMQ5NPw5f
+rOlF3IxPJSdk8bBX2Lxl9rF72KN2tAWQnGVwyai2+UqErCMmY45fnNzKgAtstW+r7RsxW/E6QPa3ZDtI8LRf+n7Lh+u8BsaHmzmI85kuKL5Mx0AJsVwaLmB9
+hJDuo69W4hSoPyE0aErObLWvGNfqa+iq8JCaQ4ixr3EULkN7G7sH/B0R+th8On16rNWJvBnu27qR81JDljkys4bVQIwaafYvaPG7iBdkl/uizvFA/q0vrZ0t
+B72zhsc29YXVdoI0KE0lVM/7YscLfWETt7cAHTHlswni916RJMreMXWsi9kLoNdBoVyPCir2OB79FFkzYbz7ERaXNuy4/4//2BNbOu3g3+9xU3b9t6gqzun/
+0Qe9kdskRFPJKcsNfYw1EDMuxvzrnJC09Cai2F8TKGYrAbFtvcPFnhhe6dy1CeNQ7RnG0sV25A0gsZ2Jpzo/GsujQL/51+aEwsy64Nl83z3fZYfFtWXC5Jyh
+ycqxdYGuwGZ2eD4H28lZRNwIddP/Ls/xypk5ZD9F4rKvxm4+z0r3q8WD6ft+CidloKtfSFeRnShp50AGukdQxj8QZ5DKh9vTn3tR20yKnWFTTwjCGwcrEL6y
+5ptEhYkbPOW5a4iMsOp5T21EXaZHM98zwB6r+ORvZmWV1d+e9ZXJTS3L5NmNQqbxvILpn8aOtozSTKXSN0D6RmT8FeEwTNczsi3cQsG1KHvQR6+uChOgffrw
+nhpddvoTebl1xm6nbc+KkWd2ZXOAmp2dxmgd+ei9N7B6y9H17K8SweVNcqG3mIQM4/vU+l8r32eft2WiH8lBUqu8wdOPK2BzzY70TOn6mEuzxS+yh26PWPSK
+GoFH95NOrF3FYEbcCl8mCg+9gRNwnHPC5gIDfrI/NatuJu7ubSmr34KQNNgeQgw9erXO+jDG09uhoCdQ8cYH8wrBM/oHjP3G4KhZxe+jNQkSVww+6K2OAIkc
+Bf1Dt0VXbAakXynBpv3VUoUonnsUT2D8IMp9dbFL+EbJcdIFJnSrAgmTr1qvl0OXtnB4aEz/zvx7CdGhnTwxgEiibWyqt6M2D3fMfMmaXvHLv4KBTS2/5rJH
+Ni7hoSEH9YdbyPPqM26O0tLTfjGxIF3VJaWy82IM+xe9jV25LDKR8Alsv/CM6vTVvj0a+wBRb7ES0KcSPUuaIqcQoUOEX/QZOly9/X3OFMLcyv3ggXAaBqdz
+SK2N+2cGqk92z9XzKH9OHAr+ZRO6YGSHVOy7TygLdB97q+huer3u/jDL6e7/9N/WqSA0YcKQ0g0CbD4gDwQ5bqIlBfV/IncVSHh+HPphp9c2Qf9UCHJE1LYe
+ISGT0Glwe6m0mfDcIx5//GR0RT0qF7Y8YL+EVStwCOlw0SEecKhoEwb/d4ebje7WMG7hZdfrwwUYF1SI3JRA9bpDSKwL28+HSWROna0XJNInH5Pw0l43JKad
+VIwWdXqUGi3Baf9x3T18/9kw0EH4PBQZ2tCx04Cdbh2sxcCoqrPvXQHWWrB5T2fhOOx4UXWpYyeTcAg35ph4/jr05qqIl+5scdEqrzBHhrvwLiQfLxOVZG9X
+2Yt20JBz62zpIDWisgpacQFCMKW3Ea+hAntgAs/JcQ7tE4j9UrkNkfpIUT/T84momSUcomAehVexC5KRm1hQJnTm2UwCxe9Adwoz2aZq7cHll/QS+1CQyb2N
+2ORU2/mno9Xo/HlXszFyDb++FueuOZBvc+RvTj6RIwtzc6BFnWexoDvCMCc4+9AeJo2pXbh6t6g7wodMh7s8QjcGnWU5m0Ry7LfFc8lVG8J0WbG3K+DjmLCs
+A7zo5zqkJHKAxVNgcczuXYdqI8UU+yn1Exi3r/GJPGzxiYXhvXCKb6OWqAfCC7rJP1wQ0IAqZs1lbeWp297MITuGoHxqTWu5CC8ICm/mlKx4WZHMDg9DPLPD
+bsuEncSPL0C5ZJy8NNbZ9Sc5sN1schgZrYtc19hWqTuLgxZQnb3CaXsaiM4arIbqRS2suPh1kBYltzbvlQiitbBDUAPtAyuramOdUWx1EG5vyvrmlhYTroTI
+x7n5E7U1xI7pLGOULgyYC+auWO8C6mJsm+bd5iJKG8VdsTMgZIUZsPysCHtcwsXOBPG3+v9lkrLo6zevoYth4h9m7qnlolaiYsW+k0hEkcgFt2e/D1HOvy3u
+VOm0VVgxDid3i8LIOno1Gq1NSbBzD7HxPg3uF0UG56ov1+Aci1hOGbvahoWkUTmcmLwUXjs3GeBuG5y6wTsKaF55pbjzpIoqvHU4nedMF8/3KBtQllYvZna4
+NvtVrbq56tgNmJGSWZlmG7xJ3lVm38DqOaWIY2uC2SIjjVLNXqkUDmdSdlYqGnA256g4I4kqY0dosSPQOKimxV8ePxjKhL+wFtKxsfTowjmHIDphTLNRnEqU
+0oJRTwzikICQkRVQ94pdXnWaYvMdMKnu0D2a0JbmuuLlig4faQ6bOUU88mbUUbsS2/9dCc9CLO011brOkrIBJN4aaxq/0/OWNpMQsTycUMUbGTPOjY4485h8
+vL2M2Xn13hCuGMRWvpXzpeR4oPX4gcTJwTcwRoq3Vk96xnwKvS4bg+rsls2fzg24hm77BZ9O56m1TAUuMez5E65eiQ2WmoasDpaolwxWJlxVsv7dsQXxTn8Q
+xZA/7kgtTNJlemqOooDli3kFyIZll+2F2R0ogz4N98DY4OqySx2V5DewEV8C6aJxe8IIz+MbhEPcRGTbfmQNxgMSpoJuhLNNh3Q21O6qlC2jZvBmQmfrip7z
+mdpXOfpVfpTK/BuMqCY/YUo1XuoY1UAYLY3gtfm1/RKfBR14YH27icsrvi06W3Dv6BNHYwkVWJjTusZ8s7MUySM2QPyzrx6+FOncuilsx1+GEIfuXMGcRWtY
+s+2sjkdWV/c5uV7289Hl9hoVF4fAFrJ5oWZe41zZkdAO6sQhpOqXqEidmtA25b+/5Os8EgSPaHwz3UNm+6LL0ye+I/JKloLqcnhv7thpUtCj9GyMfBz0PXw/
+xHkw/K/k9LhKpI93EUeei3v9ph1vkaJEuBimljkp4o3lMGGU3BR+VrrE5kOXbAO+wx0NYxq2j5TC9O5JW7JpUyXh9Py4w7DACfBx0r2MsanXRRdCSnlQQvLh
++7AO7op42hDce3ZYruzSRUGhszy9oQtlFbPzHlSH/Qpb/exSRH95vy2orefjPJ3uTJP6ezZsXh7oQvq6s15kx/w+oj8jthONe8CzNlTB0S8CD78uwleXEaVM
+v+pxtV0oaIqrzy2uPm1EGM83zBeNPn/EZEIze7Tk/csa+Xd4iJmivU4erjLdsMxFawGTVcHi/uyt2M52BD9Gpxpn8kDxb+mj/DaJZLr518Du9pQpqb6zDtlh
+HPpw/5nq2794L1lwRtlll+00FB+F3fktqCPwmCnE3Ltku57JBJcAT38+zOoD/cyEDpZOX4OFPkScuzQzPfw3T1PZvF0+Zn94DzIThlbCFkVHg5uopimMqQoZ
+PKRS40vFd2WIEt998qAsTdvmtFlUoktjvKBtMQvs9pmdrGeMQBLmqBlORhEDndH9ZMsBj7BKzeM6Vo2dbko4OxIHgzUTL0yk700Lkb4bfkk1dM/LI322rSPk
+dxtcYCzvcYWqm1qV9J/Lm/CR3peas/TyahiLbKr1LKqVhze6KeNUQibSKKgq65K94HGoUZhlrYIh+eUa+aDunW6B0Fq1XF+6QtfyYcP1jHpFFj5s2KdHZgUW
+72QZRpXf0GlQJaBkJVRKmoR2CrHGwx2CD+LCEPCwt9gMPFhF++jMcXlAjvV59YcI+qg2MYFodQn44zpNCp1tR4g+ozdho+kPS6mlsMpHatgEfBtYxEKf4kt4
+EhfKN15ms5jCuHE31t8PxAbTUQkwlMMFmLIRlJPMzcSBGA6QI+Rm9CBwkpuOp10G6ONHKumGfJ0XJ1iTG5OhM0wuPKzMHdujLdRRnfleIunmedTYBzZHKyE1
+MOElWRHsO0ZJWJYjw/awsZfw90sm4paRV+e9OvWaoXak5pFWyt8aaxxtJR6uou/FtzfQ8RxEsLxGz0Jc+sl+8k0t7EnZsqwnPw7hptVWRRl8mNQYVFqa11cP
+nribxLtDHoyCqL+8Kq2CkVCTdMjiaZogPvXSFKIh7g4RUbnPDVRkS+kVsZpru0BP6Nmf1A/IyC/+RJX+G98TvGh9RS5rdICYGMSm/SD4MwfbDDMhbuphcKrI
+m7L4jrWmJyG7IAKuX6xKk5oOCG3mfw5Jkq3rRWSaSBxehE8YcqFN9XJPqs+IC3HyL0hOES/Pyf85N2t+HU41gxJnbfFBhK7FRM9dND4VuRWwjwtZXPG2LxRn
+TyLpPRgeapeVkcr7mQaWeYqCxDV/7Aunv/QRL6+kh5Rb/ygHqRk+beUi4S8ueQVF0U/3n6KYlGMaKuo8hqg0iF6492kRwJT/5/E3hR5KsllaCvKAQEtCokxP
+HDTSXjbwJAjLCGrCLeGM21G7jRB5aEityPqy2G5l6nvkpjWmgfGCXirm43V3ws9V6mLtK8WyyGmyxDQueXkjFAzV6LtJ92jQ92fX8Q7hT4BP02mw9kBkpBCe
+PRWTZXa9Vwohg++HGfn3zYbbA79QXnz6vm0lQ53W900x/dqF0xeF5++9hEURjm0503gQqhR87+Slsa8GI8qBL5t+M6D/Q8n8xkb2d0N2Rh9Z7ej1IcRdGRdW
+Jg0Zorz1LwMpY75Ni/qtYeUTX93o/X3L/nygtqnWA0W9qOnfEs0xesNfbAseoSdtXg0Kaj0dJkJywT4kCWl9hIvfjlkfHfI3pn+CkfIEMtAvjdaw7hIc8C2e
+33ytnuqMLXG2t27Xd8Si7je3rMZRFeFks9PfvJOmvF4noa7WDIzAdtTAR+gMKqRofpEPd4JDE4rn5oJnhy8bBW5fvxp8q63+Uji+XWnDna+HB4JXpmR92SYz
+snALMHKcgtDK2jx+vdXsQF1NPIgzoN3ie0PA7Bv7SwbCsRKSNpe+hDj+we/YePzSgrkY0K9/cR2sIHHxv6T+9QomJp54FSGfsMjsdDrf7anUsHD584lf629q
+Vmu/dvRbXG/FexxvrNv/KLe01bUvJr7uoRBnGxt/Xsq3z43vy49qRK8K/WE5UGHsrn5uhhOfM8zlfJCTQddQxAbXTEav7JghIQ/7/WZTfiIHA86POke70BGx
+HT+R7EXgz4YY0mfr0QT6oEO9CDp1UZ+MYLyaINYBNoXho/xjSzOC1ZsqH6a96g3UhGmyNz8+GuF9mCR/bEx8NhbC33LMJ4VDPCOh+9aPRQ8+Xq0FeocY7VW6
+OzWrJB9bkCIu6Z+UnX6LEGae1yeb/YLoM/yHjLHy+T8Np8kfbHOuj/fnZAry/iAo+P6wuQpgqeP9USuhMPuUlRbe9/FtTfj7xgLN+HhjQVmhOkQFXlMrZmy4
+hTyRojoYUB7gruu2zxVmJcUe3gFSPr7xF8k9QrvXeYfQkaBrC+PvDX/RhLQRIIvr7HpgcvxjNrFdArH60vufLj+s3/4DSe9mX3NqmV+OCUtrox9WV+KpKhoK
+6weNgbflzA3ZP1YnF/UzA4+x1wSjxrR0fjT67kve21/sibw3T/qxlYBG02XGCTxlPDA15qcIMVxsoiaQHT9T3rxcGqktxvZW5fwSMBMyENFZbfnv/Vswe1uN
+z1KY759G31tdeAys3vbT6EXLtw3bxei6cVvFCm5L+6LuY4QbZh4gXt58h3EWwdxwJMErIjjg/542WBsEUn1dcovwLkt3OvSP1c5jkN5fwo4XtMSNlvqPabYP
+sDCzxRXMSCI1TLPPwOWMX3O8eA3bhm8Ma63tvevw+xHRTCNprd3HYXZUc+y3vsO5x7v4MxdGybGL+bbEPR8C2ZZ4qWyVeyMaQhBb8hJpn13jm80fMYepkzfu
+6KNBhvoeGrw3yra8vkZJlVQMY/Z7Dbll4MA2XOBuKPHig99CTcR7QqJDIYmcPjb0+57a2rMJXQPE5VIYXR0s22pCULz1vn4Hi+26mto3nSkB1o8xBwhHB/UD
+qVFYbGiDkKRN4YxZmJo663tKOw2vEL1JLOvWdLNWGkZ2G2F4/cbGYgXsy+HNEsW9GFkcBMdEg/z22gZ7RcE8KIUmA2Uxt0nHO9uoiJEojvVLuDgDsDfc7Ai9
+cUrPcOZtAwfqD2FeWhHaQgtk2Lyl+/Y0ts2u3nnZ9UHwWkllw8SaQ79RrTjtNvntaLyRkI/ygR2vbPBnU1owxheEAiK0TiiaX5pfdiYxfgrmZ5ShjAbyxDkx
+ha7Y296UCJ0lE30GoIBp0zvj+AdYbMr8zfYIFw6RmsGP6ec46udwA/z2iiSl2O5ATpALE+UlXdevIkIJPe55p/P76yTFsZj2Zn1PA7k3Ljm4/0C77A05pxYl
+bAG9buAz7G6T1hQGmcBfl4KxrHs3TtFCseRGNfDk3dhtHx6NBZI3xlV8UFGDfeOXwyWI7joBg71B2ot6NXB2OZ2QlmXMRS9qIlPO1jCzJhfquaL1z/aWTTVn
+NkSzq2Fby5s6Rz7WjMMD1nqOFvnwe0p7jxo74LBEODMVeicnt1gKT0gBxVE7WeKGLTEAr0zS3ylU994so/E7gpku0Yw11um+fgyDMVindrbZPSKXM8l5fR6v
+ew5Trq8j3+wXqvrD3fK+2PPm0LYnDLpJAwUD3tlfG/JSjPhfGLyc/MN63axOrND/zxE9R75wxRCYfx2O5BuGsIEQJ20GGMTyMmeqJsuq8iIhNvdquvsvDzmi
+unDg1a3XVjCFJRwvntnfD7tYem2W33nZJDLh8njZ7dUWODxQRd48l38hm0qI3R+w4CZdmDl7rmRX7P+9bKJPoeMWMDFFTfZVDpQIOTiY9Qp4F3XrBDOxuRV/
+sSqvAM0IIXMCJPreNMiQ8kR4zCzSSNlzotiU/v1mExuvELrIQfr2mw97jPo9vIo58HroYzgSm2IC15hvw7BhbLRhKzFnp6p8HgF21oHNJ0dHk6ODf6k/qxz3
+zkgIA7qX5w0KEcp5lbR7CfFlzxqAZkMYwipf4LQE+ysfYWMAkv+RkHFEpdUnQtb1hdVKktgMVYLsZL0s3+zz9rP9YsuMLUqckEdBsrdjgQZbhRvsMpcZJtSm
+cyFqkV5sntNmWq5S86Rs5kpCBubavDeJYSwO9O4lMVh2zylmAT+SUl021Nv9jtP3/25fXZw3jGAEv2fY++qrNdMvGmTg/KKH9WLtDuH6l/dZ1MqYtJX7l7cZ
+exTUxH33EZQtylfyzEvgCI9/r5lQVnnh9lNvmlZNOAzYbTUpns6IvUJcB0nGIzt3NcL+/M6xNeH23jw3lft2YKz/ft+PbTv91HXf8AATzEK/ftSOYKnZxoIk
+JCxfiCzelWbMx1HdJgPj5BcWSq6IQWOv+4Xpf/FpCw8R0DzPccHUrP20g7U9ZmQr2C+eP5TztP4O99MwDhqDvuys6bJg+CtML6rV1RSmHelTNxbmOdsB1ugi
+Hag7HnOw3dbfTd0NT8Ftke0ZvNvY9zNHYyuIpSjNbOwO2qu1M+ms1gLREDY0Qll/1dABTR7/EhpdEFZYwM5ZUJH8AVxawuShfYmtHvCaakhVeI8aLmQhCgrR
+leFjzs8jSaY3uz/Ycb8ZD6t7uA92w+7DMl03lkkBDfzu4/9utdDCnasw2ntxVBlG3Ufp0OK51cdM3K5o8U9g10xqdTBQzsXYUj+Ej9v6DyG1Y5mndRa6JNxr
+YbKuzusVwlR0Y+yWUkDNvWdz+1uqnpFT98IYWNANP9mJu1qO7g6PpncNgxp3deAR1Y2/FyUWFxgKH/ekJvCeNLG/Lb1+IydUHixAZHY/r8+pcn19EHO+8E+m
+kP+52Re7PvhUv2yl6HHZPvbFoG99XPdH/9Say/6MLpwbnD5U2fSQ5EJljfAoITckGjMdERWZAAYtIpVXMTpMhBQUID/s7/m6qWAXwuV2/KbQUzMB/mWEz3hK
+P3th46IpZpHturv8k9a8bu8cX+f9xTG0cGU5hR4jeSX2Oj52EihkV1OIg4S4Vx1v5zM5/Qc4I1jsn/jRilj2hMg6DJNHWvPA9IHQIgoKogXsS7ACIBwino1l
+bH5gNnDZrBNwhpZGowBKFcZqUeLLYpJAyJBeR8yZIZmhgNpPNV8jz8akHH5hYCVkIExHpzijN/GwoH7c5pm2EFWmEqfYYnJPBp/9gmrbHSKcYLbkXwKiiIMd
+4dNvRgGyTpQoSn28c+4KKWfdNOA4eQTSAMAZCdI4GbVK2n7uRg7csMSvi48Qs3xc22fDeIEi2d4U/UvjEPVal9ppZxI7gwrYZzE5Cj3d5Qb9CsFCVDN6QhsI
+08iDwYc3xxrveY56NVdLGN8FCwl/2xnEF7i/Nw4G0nQ4ZSri1fq7F+bcCTcWDcHqdUGxiHvPX4d6T3W6h19o2S3sC3FVYSPA55eQlRD7S76bxRbCo6UeV0sf
+Vo1MjTWs2YrER/+XAAyUO/2zXaoLy6ShJ4RSvRH/H4dljRut1HptCE4TIoViOrA4D0E6EchOmyvZlgYcWTwup29OmgNetmvGwP6KqoAw4wXoCg2CFVNhWf9C
+AC4DaxiyYUhEe1aiD8dM/6WqYVNTl3cw2mVLbP9ACOxRFjXKWBYQG+PptGXYjuA7lTaDM1l5iktTyZN/RQfx8hcrPaWtIOUJYFsKtHbd5ZWZCz8L5NhkEfcL
+bxwKjwb2HmTT0N4RM+sO5qzQ4jPrqGHNhSn/ZCVf0ey7ty5uwdfDNZX/4jlepLkmzfxIg2qo7aOJ5fBecFmrS70OpHZUPZEuBEgvq3YJ1JASbvtkc0vQYcNd
+h7k9ukE0JrkwuIYgQhQtLDsTkuZsi7WCtlJ45ahyNm7CoNvW28ir7E/NIP0TcBpwywlZ4/TS7rGDVMjE+sVqxtAnEPBe0GV3Lo7dW4iXzR4orI7G9Qy3ZAp2
+P2ddXaqzrXqCblOaiykwO1RQ6UsKT6ynVysu2y/Q1JaGW1iuM16s/BZCRPWP+LtT/HxaO9kRP5n3aeQXKtEibuoy/mwZbYh6p1TYkdfZHw2/gYS0ATnZZuqV
+Y98GQtdLYUca5LJkix6RPowEcDfDyVfxOftqNiq4r7skMpdZgsb7QnUnZ8RiE3uXJUMOxEYv7Fxwa6ytGXk59ru4Vb16NBeaYf4f4UD9wMxA34gC5ZcFra7W
+NVvnmrW7q9nSFkblMDKysYNUZW5abtSshB0DEHKCjRRELi/sU4yBa5p4EBMpTvjt5qyOgw5XbLmdkDm56Ut4FHqww345sybec+QpmND2T6pHCofWTbBOQmIQ
+GE/G6kO1YdXHkXnWuVeLvMQewvl95z+cq0IGQCObC2jmlNUUHRgEgczsN6In+hkRXYGpu2Y95WTDj9jS8/jo8EPXcn522/8+2fVRuKAxf4p4x+d8F49PQRWa
+kzVuLNt6+HNiw6hJSuD+7HToAa6IOmSFWB0Uhrn9kwU+h23J3NQxYdR/CWM9ceDOoFE3COK2aX6+w5fyyeqV/bvDKg+31Jce8DqwUXGqA+EZL3aeCasq4alC
+29wvncx7VIdP9fle+oTk/wB9TML8AuJar4CcTB34kKfVjzRWdMBY/sSeFCUbYnnZ815OxlPCnYDl+5NRvKF9OBECVYHzdo8LXvGs2raaT5R7fXHt41D/cw7/
+F+cdD7WmlaD4QhtCEtri4BMnB+dtGTi8wRGF12mKSTraUNgHLihhg+e0nMp5W5jycWrUH7u356WhokJUlAAvkQmHD8aTRGzkCqz+vcMePIjzDqTnNUD6oEDD
+Wj1mKMHhHbFgCMKgKRdw+fJtj8u3lm2XmiFfVuz5OUjLLfi1eLsCbvH9GJK5cDAwHSPWvLB6f8YA1fjngmOXE4tbtTh4GpygTA/KYsM74A6fyVBMBAb6O17H
+Lw3pzPaCCt13wy+pNugELtFCQGcLPpweuYJWZgDCqApysPGA7d2Fp4cTH0SE7F4Z2voHPG7m84OHr9uVn0wVoImw+hNt9Ze/W/SbJoR/yet20KcbBCH2XvMa
+lP1JE8eGXS1B2/nwZNXlEWucv6qvwZrzOlxhnVebfQRp2eMGjLFUgC39mBBi8m4wmXw/pu1IRA6NZJE7tvXEvDHHnMHnD/QAbb7R7Symo3qy3lssIGPC/1GD
+vXizQ20zqpAwPsb+jCMta20pwX1KpJ/9liMssHIw/N4rW+cKrIYnbbv7eafrmdoiqZd4toAcSY0P6596O08N1rZwzys1T8yIgxaSx14QoT6Nd+7hwz8ELH5g
+N2aoT6P0yc6EyRHHq13dwfzJ0m5P9T6zPx3G91cLbVd3sO0vR4FJa9TsJhrYWH4Hce3FCXmLzy7SjPHx09ISFfYR7bFk83dOvwKD1j2isX5ucd8gdCxeZhBO
+azxnisjHVi68bWFszeHFgusvKZ0qPHNIJR5/8PR/+33g9wrHmLzTbllH6tFOqwJ4Cwtshzx33y7rZp67DVSce3kn7labtW6sTyEdgVQxmP0LMqvJhBVtIavx
+F2T26TF8k57YKPJg+txjks7GUSW0GIqwtAtjoRfseSDDP0F0rbum1U83DY3xDPqJPdQGQQS0TbBOAj7ZqPQT06/C2sKJO6I9DTngX8QDes2rI1M98aalqUPe
+2vZiT9yH6UF2c13WCaaWBvkUMTTehUxGgcwCc2CAwtP+3iETwmwns+7eSGFRmAhjKGFdLL7XFoZTVcK+/KxxQxvWbHbJxifHaCFZwd5SWDU8katj9/BE7rAE
+OIxmb6ufdt5y9wK10sVzAXGMncTZ36bwaZkSFnvQbVhK3BpF1R7TTqPqdfyi0S84kbjBGUh93hCTPG3w0BP20y4hBKh5CVRX9fv6ifjW1pcINQs7V81tKaHe
+76AEM2WOC/LPYTQpjaPAzhaPRJOtRwd5nMuHcrggj3MuvNnD0iRhdFeUpnKJ/fezeslQoPnQWbelra+ZJkMHlC8BPSjeghSME9ZKzur5mWDgApZOuZqiTRvv
+htNH7DmgI6Yj74ie+KiIX90izh89fr5tzeucbfzsxGk7aZ/tOF7Arr4gDXFVGxLhupzvOm+/tIsRYGbD8RRPWc45ujcXCBwPK2RMPtNudDwHnY5oywuqp2d5
+OWTdi7DXq+FSmvtxitoD7k3KcfPe5Vj82zE7/SXE6BFi7lmJPotnqIKJs2vTYoQ5EnyWusLSBBFaM5Tj5f71SqI0JWXBk7TAftBAvWp72mILXmF88QyMyl+a
+wVuTuMS+8YS9b4wdxLPUV3HINAqMeN0MBkHYFkJxtpDOainFs4xvF7EyIrAvoLdgl7H4hUabBBOyRXWyajMbCLynBerS+IpFfTMvbzt9Tlfu2iT9/LlAM3Hp
+KEMsFWm8XNwMliiLONUmZTaeJEjY3zmnz60AY27nFBVgui0WK7SODEjrNN1z/Bppxuyfu6ipuSSDKMANkRv3ycbAjCFFfOKdkvC4VD/yy9eE3QkRHEMIVl+x
+ZsfMirXCpfgnN4VsYxG6AZgKYiAAZmUxT4cHyHiJYqFFMLXsmIrnzaCbpAkLN+f0v5GeXSJOIDaxTdoe6znlf6PcKdtRpvBeotEJP4WgMybbYv9pUaBz+l8M
+R7sGb9wmDWsk2Duoxt8Nbq7wxudsQLc0ssDCLgDSIeQrIzwXhilPyTmR8fsk6Cz/aYHzFmmiYZ7S133YZPM6iLCuOdCt9IRIzInnOIo9lokcVn8H1q0IPZ8S
+Ph36btqsWCvAUBHhOsdMnKT78krjB3leDCmU0cXD38kq/6D3N06GbTOQnen5Rt7qjMKSD1c6gNA6S2czpY+PXacgxwvbZhehNSyxn8HSBSbJiQE9OoUqngB1
+u42TEaAlxKFjMRsO/9qnthCAWctI4pK9MHQ2q+JnVjMxjoXLq63fnljZ9w+IygPxtSzWbURP58RzokJqiiZ7dmAu0syen5mVVkDFP4830dkKqfDZx6wo216i
+gIdgIdTLA/mnTHOGeJTArVju79V5EXO0zCYcgE92R+MhZbaQkwlV0kZBCSmBGf0fhV49Pv+t9fQ3pu1OG3BUPD2qLh+w7C7p2B70D1j4o/hh+5aC1m89HUvv
+lr4v3rk6e5v0EnTRmKlt74ovm95qu99BHO/09sLc9aORy+bzvwu8hxy0zcXFEaMyamAdwmlxdP1OL4E/06A+qPl/T0hdbuJtcfSjd3gwNftrJAomJBtCrwq2
+tivqhZ/TRnHeYFbjcs3rYwol7qZ/Dbo/fyfjQiu0Gfc4bjMuGNKfLAPfr7ba1bvNjZP2rQ2pLryQKOk9G6jhrRHeHEcEDQnB4AhjNeZCYxojSOjSHojhCkg4
+5bbBnjJcXn/7HblB7Sd1+n78EosQCBKX9i5Liqtr84QMLTGXhDFMA+P+WsK1ZtC9MZtp/t3LvPV3PjK+thezDQLw1wKoZXjFpeXY4w2slWKytGy1iJOxzdRF
+mWF3LVZ68rgjMejdoOFXy+SwZzdv9Z0tRvqRIHt8WL3I6oh/o2SzKfYfOQijDWYdzj6v4A6jqGcbiIJpBLj+YwZsI5/NGp1Tik+mKMFp7f6VxXgCegzxEyvc
+2RmWcsgOQIf4Wupex7gMnWJjq0kpuWjSmht6Wg4vgsUqK3bQ8mU8XPlZwr/ihGZwxcSjMSyR8TDkYkgbOm85kND7gWf6ooBxps+JWPuA1ZoTR0AnkCw7c6Z3
+LTHkTG81cuf3o+gwDHYyCUoGtp5P1pcNSCgJb4+3kucTduNFHqGDzkJruuxx4/S7NVZwPnKG2rkQf89nsqHdE5erM/NMBJliVAhjpEjH7DCuy9XRI/l2ItC0
+Gn8fyr5XT8er1pvyxpDevldDmv9M69fiLqdlTc8wqxbvt8YWsBl5CrBD1qU4sCnosxlgO9HuRBv7RJSp3WalgNMG1gy/iOvdO9Xrn1p3cDz8NusYR9OrIaFN
+aKPha23E0OKAbneqQQ5HOlhlHOKb24J4Yt7gibcYwZ7dt6Pc6Y5RZCYsTGTd5ANeM0GJaUxxpv5zXXvaVkX8zC3VdvKw4+dBfqrxRWwvWhB3UzeShsqd859G
+BV1j0dlZg3eVgwbIazfpz1s1RoWTvymuF4GKvkKcaYOENKrwjlz/RI8R5GCojnqwvqowecf8pGQQ4r0tSGzIn8nGSwTZ2YhVhDMQG/hnsuK/4IHNsKLYRfL5
+vTGmcHyQhRfYMNbx0ajz+DDmBfSZjs8YCxQItFAojpcm1sf90XW3PZ1rIukWHYwBOtadCYKyPXHc3p8VnBiuPOxKfDMSoDwQ6EunwdGdYa9ZhCGPEkcPHH2Z
+qLIb74UsxIAP20A7DCgkCWscxiK1yJNFMltIO26Mzh6W/BE0f9Qi45nHsdFAWy/DoJqKuaCcqdQghAP6TCg1fRxaRiHzu1eXcdOx0sUdODo7tv/0//5qAI/9
+tYGQSLd3jwUezr5iVI6f2gfDgtX3XlPb64KO6EZAsDcBaYMbZlZsRR+bN9rAm+C8l0ez67Y14pjs8qBAaK0M6sDwpLK6+plhp/obNHwXQWkJwOhdxbqtEb7a
+tvlNvFp1IFKdeBrLoQe2jlsyFlq0w4Ildl/keacZ0/4gfom6RUShCgJO4WHnsJgkt1dyEmO/grlE/v2RRD7chj1VzoxhtO7YnjOax4e9olbwPCObY8iBR193
+wyY5zKaJo84geKIefmwDUQ4HawRGVtHQovVbNce2EJLxz0hLM3MHIOlMxg4YDXmwPNyGs2jFOb2dc4wRu+v4YVPKP+SWjnq0pUOFqlgaQsC2O/5fqHEeXF2g
+H2pxGOdlcaUtsRPFepVerHhXEiFzBlVHUz4+bPKpBMm29mTa1W0zG3xrH5+3LBE9O5eH5gBedTjKxLnYKSS/+LxltAt6Oz3m1/zyO+OohvBEeL5zOjIpxIMx
+NvjiPfCtcPC43yVsOxo8HdesfWdFEdvt/n2wQ3d/Ij+sn5eG8dCevTZEIY8hLmCkc2APSoCNHoWba/+UBwJKUUYpTD3f+krkk8j2TaCuzv+FXtvD4nJcjHQr
+IQ1Xvq+2jCHqOTeenjkKr6dMkvkiXp/vMD9zINN+PWxQUgOeG3FzJn7I1ymTQX02RhiH9ZaPvFsHQGjRsSPHiFDYmkIGorYlR+/Ms3T0X0Cc9OvmcMFmrzzE
+tkYYhRz7wz62Swa2RG050ATzEGLWhWZvNNa9sGp4OXQ1E8b3cnWOH0hKIfKy/lo8G3LDCDwJKWOkoTzbb+yAhZXEqDx5WsPl1xFuuQUxWIJk9yH551TtiA3C
+w6qchLQK+XnGO/ul8kIQeZkdf5S5PIRZIvurRHDEX2lAfeRh8cTvoxn8F4T1SohvbcXO6JKb+3hF20UFKj5PHnZ3GeB4wqjAkVPUFYRkjnDUF/UspvqC4oPR
+bWNGZjlsRfLw9OWSREllIE3tTR+M+ghGzBkemHvgo6T3w+5iz4AQvscfODZI/DXT/a/nSfTmD5ua5CH38Osa2hzlwBcuxZO9br9Noh/rHt7y9sQYSc0e1STs
+TvgWDQKKAdMNQls6O5J3yg5sm5D4nZ9W22o8bM0ZyU4PrQ7bSOLlff06fJ3ENTp6NKR9cW+DjJh1uFkyF0G9xHEvNc2T3xTLHQGMfNKSI7QVcFyc30S1pPOd
+lo/ZuMWZoW2DNy5kpfCwZtVhExpH+rsJ4uH0Wql4ufFA8ZqQbMNogWDKvmByuUy2o+lJAtehjrMa4xF+veGbPB8SQyoQwIDCbeZSmgaUmgS05ymKbIrtdxwB
+IwNlQxcOCVzik5egmpt2PLI7w7vf4oJ9tG8Plu5QCQLR9DbJDvG5igEbrDzr+4iqdfY57OZyaw7h5P+70QDRzE9ExUShUqgQCR4BsaehHI/9c9XN3qH2D99j
+x5iUmro9pPf323bIBLvaZcFWCWc8dO22nStAqIFwQ/lrR54mrUbfyTwdQMuJeMuwocay39P9SfiY2m/WBVij8/WZ9xEoI3Yco+yep+/Ng6/wsR84jWEKtB8a
+Te/H/Q0BLjHNXHfGzA6j1YYROF92xopnwOrD2+H1JTxZ8YTsjLcguCsAttfmSLcZYXCQoHhUBiEtW2Zbcw8jQbvK/JeHa05UI3HFRgDYzL58uGy2pbHTUdOS
+iwzOLHVsRJCjFdibOVx3SmQ4ZnGTj5fcABWvnZ4gGizTsHwInxznmJmoiGQK7X7YWYBgJBgcceqm5Ki3D33NruE061u7DXzSyZtZ73Vnd9jvhR9KBao4GE76
+CbpmH1GEtnMv7DzA5ttXaYCJQLnNwUI2u6ze2UPWMGfHK8qOzDdaJ1YYahqGwQOIr/l/h9D6CjlYdvzeGePXZa83dy0+yB6b71vYhd+br+fdZop4XEU+C4yB
+vsiqPmO3eQL/XlkMxzh6vH71MypzdIPzr4aRG99OyzybtE1LaM9NyqaXsyg26/Ymyw2eP3RBRDFIYcge7Ntg83X71n83TIjvIfjjMymWFkQ7wkoFqcjOXWDs
+IYpE0ak2EiBAdg/ApKQQOYG9MqTVx8enMaEta4jYXYzgP2xZCZkMA4k1gR2FXfdMe/XiyREkY6wK1nu5TWyeDR477viq5dvZL+CO+FIryKE273PnPx+KOwZc
+PzQ25Vp8+xWjFZHss/gkECI1pzE7BAGr3aZoKY0kWTUEQ9t7ObDfuhcrzu24UyHH1b78vlZZfdlqC5G77bwSxugM0ZHJc529LDvbRAiRoKEPYlLiIIr/ffvi
+OlAsPypQdUv2M7wXhL/aNWMigfFNBcf38+92HX3IS8gWy047JtSwQnOmuz7CHM3O8u+KKW9SFmYQdnshJP96q0ui41Adhhs4Mde/0lshcy82p7YXfVsiQZns
+8nGvLgTB4d3WTRSyDs7kQVSTmXumAlk8/kReZ2ePkun77lXiff80xlgLFuuQ+xQaoOTylDeG1jgb5N2eTNdD9Xx/hgLX/0chrtPP3ws+M9oD+1ODLZ3Oaol7
+pSjjSoMwtMV25eAdxQzm7iVbryiIS2a2Wk8Kgs0dSFPFFPXHVDtFFclX7FftrBSw4E2hULf3TnrfcMQiQJQZIO6TeI/oidQD3J0mOntoGVazsGiGS4i3w2H4
+GPuJJOK5GDkkpjA7O4CEY2uplUOfwWd+v2SGY8Lh637IO3/RRqGmyE/WWN0z9evBihGVKeNbgnaYWU7ErPmNzZbCUlh73fPPfVMwv6tN2pFgfMH6RB8xsqUB
+eCeZxjQvsUyiZv1DZNjc9nlfOCd/gMgmS6PwbCazhBbu3vOQnFOqd7m/GKbkfrscng5D63j3riHnO6/97ZoKHCSR1WUDESCL/rDsFpg+70T4a5PSx2eVBb3q
+pRiuNwFLPEOUbCPtAw6/KSTI9unVEtp7gIqe0X5uQL6JGlMedRGo93w19E/nGcZBYMWOR/Zo5pLl5rYg9ItgM5e1W+1uxwUPb42JSVq55BXDHTORZ4DTdji6
+8DWOPx5WaCEFj+RGP/+wRS+GBve0GrOh98P1QQgp9GmPp+87D9ub7CmMF9qbaU8Yj9lC6GS3fUXyZF2t0Lij8Butn60ksiUBs0fz3bYfdgsyHkGmFBeg02D8
+PcYS314DFj/HA2lese0VGVw9GsXg4BbpsFPEIKEMHqyYsMxhOHMcJyxeI6THzAg8rdkE83YD5OnPW/PqDFApyca+iYbvmHWNn7Ad6mLjlFuwUlA5M94ljGJZ
+DtCjTHsAicGTZijuSlOzTINE4CvO9MiYg3MzggHNXithZ8mPc5b1LiN9XPzYvhZYBkcFS/l9ju1zM+PWAZmzvTT0UOI36+1no4qCVZQ39M8fmzVTLSM9q7t9
+sP99Pjy4tD3DDVU6hRTRDTH5BwNKRnZb2JkRNIlBNAU1tWYV2XT4BPG4KdQIt/NsycRXLQ75OFeJxT7ztt8IefMuDucx9IXbup5Qo3mVevQGNY5JJrws21QZ
+WB16S1NjhTdvojG/V963I47ou7ZjZIIFssOyHfHUZ7B2iqgykVsdhK0QbvSwYqNPUYJ2apQmJvpK2+5spxFZOcd4dNt+hne2Fc3Zhw24JmX6ulllGu8H5z2b
+ICUjzKqv2Oy4mctuy716MKZv8NEQ/dEM+G/s74Zo5Vat+bxVC5dsdde/DUeVAaZ/jd82Q3RCZoaTgByr+b9EqO7wFZHZYp9gtjllJC9VjDWA5kVnKtc2M8hR
++EcRUEOGcwGR9Iee6cZis2OalpOA4eI2eYVwU1XhaET8ZBtZnFKof9xiiDefzCzIbZ5kHdkx5cN7O5tVyap3gTY7VdrsNjtgujm2xXuWqm0HGHISqrvbeitw
+bXbwsSE0cQEbu41qoDZvnfvT88g+/+kdbUMOO3iWfGVJ20qg9qHNy9ui/GRELlgEqR9yGss/6Qk+1s/53txVibH4qUKy3q+w467CocxbqfMreuCxprfeKuyU
+EpH8UjiEwMCKQ1J1oCt+yVmTUewbm2vrdpnbR8iq4nISqjytqB3gl/NqVCM3mIrkCGoQBTDS8BX+XEZCy+Ot4VZPYHdRa6sI62Z3pIB/XbGts7LBcQQ6wZQf
+QnWPCvXfTKOIRGsAobyv2/M6/e76zK5264Zt9tWTKSBxCmmy9Vee1/LbqVtLtFqMI8Vbg7iiWkhoB0MiJ3Y7wKmMN8tB+F+mJzY+VqsCrFSMtSwWKV6tKSuo
+WNi29iOL1OyLCGk114LirEL9T/l2CB+Vv+wdOMYchjlFXg6vEK0Ts6lpXFNoSBnGfBZ7wDG3oD6MoPvwbJLGRySTC4JMV2BihQGqxPldIYaaI69Ql3DPQPXE
+fbYwYyfKT+vz+Q5TIRiWRn7R+FinvD9WfbXPaiDcVCQxuK1xp2rpAK58qoybC4UW8BIyalb5dd1f8z2qlRKEHPkFJUuzDSBSr1w3GH+fgKZ8grWNXte8sFUh
+2JQvoE+qkPEJEHTj+YV2wsbsxP+9D+sw92nkAcUjzpD2mTyEWvMU0Y0sCgXxZG/Nz2883cI7tNDkX2ZR/DQmHhuqeSDZA2hU/Fj1HRUFTqTWMEopyH+UHKEG
+eAx+FCmyj2u6QhNKZNoAu+DCVhPDRpDAVl0ZQH0dEhO+G4lkpyjQXInqDVU6Ujxy9Vak0YeFnxikrXYl92D0jy7wmv7+nBwcRQrYxFLo1niNJdXlg5W55YPH
+quUzHQqYHXnbdLHtHA3DYYz4ltvONBdMtD+Tjy8CunllUzDAa3tCd9XgwtaYWSX0rHe5DyufgCUb6KuFng4ud4yvEbi1iVMIh5h5JJYVPeDbhOCc7JJFrDqW
+1dd6z2CxlOKCx2iL7IipMiw/12kmfTamyg/kAwPvRQW8505b5QOnn45DcJael9tmshbNIGeDevOFCaQK93JYI2TZvlYOW1j1U/gfQ8NlezOIYX1/u/8DzxBO
+hVH6MG9KUN2GLVuYbVw8DCEuXe7TSL7zzK0tx4rEyHvxVjhJ3M62v71sB5PlhY7DlRiWCM925eENHCwvvyMyTKPznIMWcrGmSSymI+xyxj0ufWD1Gx1hziaI
+b978XupvbBcRO0+U8cBHmH1KgYffVeR5o9Ns2qf6CoqwVQn28Q0MbQDLsy7otDj6P/t1R7528/HPdJFoXJDDnXQoCRMejmfwY7yRuGyLi7PmLH5UjeyIRUoM
+UVxbfL8Z8buFFUaXpq3U4vsmS2mCTXJq2UbK/RbrWsLoUReNZny+/zr0W/dhTnTxUvdSMJzNi5ePGwmQBSGTsYQ9kMWWVj3gXsLS6oUknDgSQdyk1nhBAXwp
+6P0ClggUHthLX2yobQbdGC9YXvUYEhbzOjF2Gdhx8vmfT1zY6ZBZgCZ4w/2zTKODB6Iul6NcbW8FVN+Sol5xwIbWEpv9GPg9TkPiGbE1tuBtx6m21x3gKAF8
+NUw2cHGNr1Bqe179vUHkter/4f1IGGWDKTM9hAlS9yZLcsJrbfdG4cFm4y+24qZZJF++kmpe6tBiGOLZcamFm0Evry32zdxyBq/WNAmsVmZkdcwScc3xpeaQ
+NFvKVD1kFUk2AweJ9PyoUNNVllxFyMYmQMIk2x9n6NMuiA1eBgQL44beKUE6KHLIjn7PH1kdL7erF9PPmcVphZqhXCaMWxY7lcpGpkgsEf64KSNahd6xWkLX
+YYm1dkMcEQ/GhIzZDnwQjP+Ph2MPteW9/RopLAOfzbZX+BL5sD+gpUnzg9GkZc8kF2zbuULm5idRJPz6Lpnb17b6tODo6TI4Wg2XwjYGDjjaok+o+hCegQP2
+U90K57UnahLCwPkMXAzI/i970Nlvpa+2Fqe6MpRZcmjIgzQJ2bscYJShbNtv3x8hsZhTJKaCWphwstde4WltEZHNeu0iiK8KXUDySE3kxnEsfjmkynzsaHN8
+Gzv5WnKOZ9kwryBaiTzE59AMzZk4xItE+gbvigspy9mNWPZK2YL1DiLzpG/psXirC/sXEoJLH8Zilh6TCyvnzz2z6ywyeQy7aOrDHoaRN+4tV1G2Ri3bAcMK
+aBCarX5vSjVizHWWfo1moF8QFjpNbIQZprH74t9CYwUSI4e+bh+HLlJ2+Q4gVFCd/nkLCIFcEyS0zeKeOXvcBqntnlRULHt7quGeKUd31I/WShDeha8vHJ2a
+EfEJX3Bg2s7olx23yKJRTdvkzwGNU6hRzybYLaNo9Db2LajLHfchSbU2Yv/WokM4kDFhVNj3eG2Y/XY9IibZpH2Mfvs46h67T3Fi6eKSyqjSUfaYGQ9kpzbI
++vvJDwOPwBSfrWfbPMhxNeKPJLCfFLOIJNVtNz6fxQ/AVooLbzAPb3t8hfJjqrtrmd0mR6FIHd85fX/uD0T50unzJXWIpqxAVNb0UZYgfrOED7Il/Ud0yKEQ
+ntxx2/gZSPzJHq6WdNFJRhyimu8bf2eu26HLgHD6nMbsLQux844xQLrcQ+CI/C87jqjx9K5vp9eSqZiS+DjEDIYNS6y+O9c4ZmiRTWrr7EXVaPAwml8GA43a
+PbF5DIJsxywFNoFMc4/kNfsIB8pi9bManJLTmaDUIHayeMl8MvotTrYXljZFMpYtUOGBPw+fP/7zyx/WQ4GEsC4EzU8QTTaw9+kLk7KBMSb+0fKjv8t658uB
+KgV2qOJxaKCdcUkbr6NHwDqYWXaE/3dn5y0OiA3Oh2MpvrxZYDezJDVMI2NjG81jSCj6O1h7DpNegAY74adotWAC3HOE5BXRuLRvN09bdh+s2hvL5EtUqHTY
+VMBiAf8c6BXEH/OVVv5bvPPwQekAagegIl2kxt74jPE739GZgKnT9k1YcTQMP4wkudlK7AwIEO5Q+KlsdIpga4f6rGneiVcJYl8vL75DoiCEpsBieR2fj81x
+yFR2cPv6u0eri8KA46llvF1y1zIiMwSx1xQTwtF1fB2buTXT3sPdLQ7Qf4hsWke/umBDakjMom948Snx6dfwALuEigCoeaMHsF42WlJ17a7u2jCsTS+aqg1W
+Cz1NEnSBO24DIFsUjOrdZyHWsxy9xqcOfVWbF0IY082mXjc08Z3ZhS7WihdrGBDOX6uxQiOMi3Gn6KdE+1Pxe9fQz0k2dODo3cSGH0d0XWcml+nPU3Ie8ZeP
+eKIX9lCR8I4QJEdGWzFawAKOcLpPJrBMf0YD/RWmwPhx3N5OyBglerTvtwXTqZ2vqp7KJcY+AQ59yXg6dP7iCyGa1JHVD9zFuESPNt/qL/O/yUuyj2PBcWeX
+wGYdRWTyYQy+0+A+PQ0pGsz+y8A69ffo1+l/8+1EhwmsyVCT/SoF62OUod7us+YgJ5IQJg7dfXn/6doYUJpGZetL/gsgnP49TwNEQ0j4L7Z77gbYG8/OyD7y
+Uf0pQ/UUFd+KBILkS5JzTKXYYbhdr5+Z1fp6vyiUFTtVa2gviHuLSBjW20TS9qC8l9Wg96h3GEFjzdoLkPVeFgV0VwrDon7FpdT3x7GhWO+Jpdd6j9wxenpY
+7+fpGPO1+PEZ4fJ6D5eBj/Fmc0S0iWrAfuLxwQF8BTIQrHfnGy0CCxDg8PmBU+uVMBNQ3jRk1OSxbv9RBzRNwMrhDslc/bLQOzgSxguzs4dcCWT9OXHT+GkN
+YdOKItfFXUod4yYTnHs7tez/YSbaGb3ZsSLjQZtM4efLdzCLQoeBLlpYfDEjAoVFrZSRgLkPwOcSjA7pdqoXflguqps6PIV4cVZ4oF0lgkwJJzSlGzZ9BPor
+f2wRgjEUdGFuHSEa+37IWlE7Q1+gg6PDQnPxjU1/UvMqnq0RPHmyMGZji1kdtq/3dkzd5tmvVngznjEibQh621LItiHJfFbn/TNy/hmOL+qW3021R/Q+SE8+
+MMMk3F2KQMIxFMbrNtgoTI2NKcACfbTRVzY4D1SkCeHKSfVRgqKCooLNKKk1NbW88Zf08JbfyrLiw9qpIeHcliEqFjTU4SAx5yNsDdayW4wRDA86ZhMSO8gI
+tXJe9qj4diGs/ClYJap2deILkcaq/3akzQjH1Dxo/uOw4fsx+Cu74bkahguexhtanQcatbtglTtu1OBlW0jw7zXXxJy6loUML/UTwvRi/q6qkrtG/LWEm4Pa
+Fm5qLMXZvopTOrr8lCd7JgI3CSWMUFQbfEK9l2gz6Rr8rGEokbWOmE/ITuTqi33kZRl48gU2iIqUIlLzgUTTxZtZdF5jYbVPmbYh2/a0ABUpZ3B+UYyxEEFa
+hd7hYcZkPQaTENaEMsDKZg+EOw6DxT7xrkiKMPoYH9i+N7JRwR6hS3C2iW8jgdKft9C8hrgjhpDeMJtWY7kExMxxjV2dSKioC3heHfxcnyCTcRJGucqx5Mea
+iO/XiF6whM1pEWd3rpoQECrd1BbNb1QuheE0BrQAC4rWV6Fg5uLdv4qe8g8VTr+nen4roF6QAH5k1oyBdJgj03jhBqIqqMdKV0AcpsiYJydzDDcr7j/O+D55
+iesGPKwL3ArZp8fG6X47QnJN1OsHYPKHC3czYOePistbN6y5w1S7rta3D7NzNYYfsYynA3cQXhVATMZfODWvyY1kEwUfvlt6nxSFZKtJAm5PbyeDhQJyw3bX
+CBnBgh5HVNtONThKO2a4HrZiw9aCST8FCVF5M0dhT7WggptGrKnMcUQcdztwB5SD2Yx0jYmzAYsbjeRGvN1gykhdZP6d0YdKl70Bm7jaWl/6d8aRX95lN65f
+k6JyoA96I0+ExO07rmfPhUKe3HtqHrsRUm2Tbd8Yl8y7sKt1NzwCO/eVTAoH7raJXyTAnNuqnOwjVeZpPIEtwRpu7ivzMIXqXtFRrXjV9bP2I0INLsHIs197
+LuKz2SngF8qfJkrXZmDpCEVFv8+6Ob9sYLqGriOeCu5ikyimkQM4CjoSFcJi0JRjkdlOD2ClXRVyFWY2qgjjHVMwj000TULTxcl5uioIcX/A6uYr7FZCt/p0
+cgbbe6j0hy61yx6JF9qXa2V2lRmZ4EHXyu5m9vUB2w6X2aVz26XOxpe23MUSE79Wf3LfUahcqXQuJNMR4GBxL0brpMmGr3raHjr58qzxIZ6s8QosOS107Rju
+/mEzXX63ITJ10MQpUtvT+Fub2QJqDtcoYDFk98/5cAHqeQoC6YIOp8abCWdxXAHkY982HtF12Ml5WEu8C1RjMX9Yip8/i/4f8zud4eNPbMdP6hlcmTXf36au
+LKZPPd/v2IGa70v/DDvm2+pO833cYc1A7LoRzYSUBspqYRtNwNgmYHowxxLZTCV2bAeGckCMOM63yrr7EbHs69bL+l4ilv7IsMG/1He8xY1Z1Nn2kud7qouq
+23w/nfrMKboFDkIRTljtT11EM6X5tsL0bGOyAQq77fbylJieevlUiXd0hwNg2nC2tVmuwy2I0nJ8P+7IRbKnG37/44NqmcAug4T6D7ttcyiSA6F7I7a8CraH
+YB5hQrofw1vefCDLKtB0AuFGkQWrSUbC6qdtccpyxEH8cEvcgOf1MTh77WsBQINlRjWU8Kc/AHUu4+fbv/ydpDBbNA/kCfmpznK2VDe63DP6d4QIEBpXb37N
+Vn8D/vwdDjTaZxTKSDxrvPP2tTA2mHzIeArQbZvlBJS1qbbshXoFa95wwfJyPkLDONu8MRbGgqySuumt5wCH26SPY1buOF/iKpcVTZyeEVvkEpvvDskTBB8J
+1bIRTrjBc3LOTpN6QbwKWlbAy7celx0bYYBPn5Vc2o6nFTdFBj4mA4fVb+3hmp/UFGdFkI6bt+0Tydl2j0JEVl4CoT6A2odtyAp8iHq9ttGWrbh4Za0UJOOM
+e2sQoMnfqDGf4+Nu/67I/Wp0QUF6LLbE5m1Bwm32FERh8jmN/JFrCqcDMC/sziw8Eg7OwdqRg6i+GEYAU4TtnWkmtqLX4drQjRf6ha1BO2/ZXzYfLSHO7+bD
+UgSrtbO9Rh9Golejy+rHjETgY17v4bx5y9X+MwwzQKvp2VgFO95stZPYi2cgK+YzT4f0hHOIa9loz4zgkh+KwFEjDVlpUYjJ6bnSLqtxiTGmmDdsZpYtFGqa
+n4DLvmxhTRx3ZsqJhT02PP3hbThIXeQaNNcpcubfwdNXsWatEJeOgN2yQJjFB7IiHuxhX9sTupozy4K+pWNn+0coSe5SMeA2ElrwDsykP2UnMTlOBJXm4skO
+SLbqk6GVMdtcQCMKzi/fqYSVY0sG6CCKYDmpHeq0K5FYoBDwBoKIn64BjSog68pz6IIBBParBbE9h2i0yTZ86x6mQ1w92ISWGYICa5ysDj1bFVHHT6hexJ5g
++bGydTiH4ccc5DCkw+c1jABYKBHEUGVuwgMz7WBhc8ezKbKvRFnAfYfD0FkXq85JPF3OmnCwWQqp21BeLguT4p80wO0MZKB73/yJiYVIJSXMSN8f/KU+2H5w
+3fLGvUfCpg7tA0JkYlsOolHOjPdg4kDCcs5+k3zMBL1P2LXibLejgjW63xyNkKeShmwvl2Y4gBeZfT3FKN42LxiPf1gMkh0VtlQpKbHlLiDaWgrvz9K0Dnpk
+5EmPemaFNnA9a8ZnQYoZf2yWjxObnGx1uKRhiOelF2P22ZJnCkfz59P2fMSwTTWnr6oO8BPzMP1zLie3VWi26CswUyJyT4UOkEYOfLJ2AHptYU7Nz/RsXyQz
+M7/BN1x4I5jdPHorzlAJsTZsdCljurIALEixR7CQ0+l0iabhXVrfn8JKzIw3C5bmRHYrz0ECosSnownWwOIHjwTtV5HQ+ZrYnyZxGqjzwH13aPmBWdnDTzbp
+AFBnVAX9zdUTusSlJSxuzikaIcGCOuzMFonneDMWk+ybxQ+MnZA5nLIZYgVpZi/kS0eeLE/nz9LMXcyxCSJ43o7wabumM7sgl2Gdf3fkOF80+s3J1NlVB6ee
+ibThmnw8+62Z4sbbOL2lFvRmYSO1NKk1uQHk/QR+BGvwFFCXD4pZipSO1hESeTIznZMaa7fdybUimL2Lzh7eJ8tdC6pGrq0wDjhIEfaf6EajAXYXksIO6999
+usKDLBz8sQWRDPx49AbPFf9udqG4tPZcUfQ/+laagz9mIX8byh9qFv7w106of/wuejYjmveJAVOw3Xvj3HUMhCrUf95L+ttYSPnbrKkjsBjsuGSf5BP/0R0v
+SlJRtf9TQiY0NEibZtJ/aqFeyXBsAk3UFMxQu2f/C8e0fzn2FYWnfQix4PT7xUNqITmUQwToz83fX25bbH84XmzzJnOFzyfirSDLjH9qSbhdIwYNgf+s6faH
+1DAbLX8WFiBUoMRZ5FCsbK0l+fOWufrK72fV5xd5OWQn8w8vlYZMxMj/c9RsHYus99kIgbdfhHSqfykMKP4xza/EiHzDX/TXf7h0IKSk/yVNv3r1spDOdjH+
+PM5zzLNX9//SGNvSIpMjyLNvHZz2futiXIgLrxBRhMX+C6ytF0JZOPjTXPY+HuVL527/s5btVA3URIPF8TCnVzTZIyiWjijXfXQIABX2mR6FjqjQBpbTwm3l
+TGF1B8sZLM1AOvtafhTvVhc751XLyh6FgqpTm80Sl42ih5ktjRwOG9wLx/IWJjNFlEiMCQDjCR64jkdZAAa4tl50cvHIylhphvOYM6kf+yYzUmf3mA8MGelL
+F857VcCK0EhBFk3ryuJeQkOR8sUNCyOLE9WyMmNIuyDGhtloLwcXD4xtQh/LXqqjZWBDsuBi4lEsS3edaiwaJ5FenS8uXoo9WSWV4orHegWIhfDL9LkQ3hUo
+E6efMuf0oYYojBoyvcp34Kr7g77BdN/wy93UdNsxmvC8fPrcCPQxFDaBt8mG3SZkPafbJjUf3hGefWksXE2x3DCFaY3JbpK8Nm1K6yRSCTrz1QnGSeXi60NC
+MFRPJiR7uLZGUyiyKFD5Tf1NQsbJ658ivlfDI8LK42NZQZgJUQT8PGzqGpvtYfMaIHqy7/isLvp6M83f0wW4p5xcNB+TZrkMzaftvxiqTdsb43igFRHB3IjK
+DSY8RXGbbCBQwvz7K367/eZbmMDzC8+hF4GJ5eyQgFo9bSHjNpipdE3sznFeH406hmlubkGNagrVv1ewuJ2BFYDNWD/hsC8J4Z38MgceU7D1M7W3O86oFpjN
+oezaUdwHWFph2I7CayESPW0h1wvyamFIGrIjIiqCfXB2g1ffiSE3HqWKHa+xPRWgXADw5dXoxi+IEU3W97IS5bQtm3Nd5WSIzF1iRV8/k4D6cjrsCd2IItu0
+/RuLmC7+DtURseKImOYzF78uWzjAcDn0Siqk/GO+vo/HeEo5beVeCE/SP0W7KhL9hoj+Ry4f27ceQ3hJZIx8suWqMM+7XUF+FnR9lLk4v5w/DOk9DhSN4pLX
+HxDODnnT/PTYCvJslzx1agzqobaRUP/D6MQNzvee/gScbP2WnOmsoDUhAf5+qObRmU5/+OHzbG8qYapsCqsWwjPgCJWFybNBm2EKmkEP9CB2hgaSZWX3TEe4
+6/NjJ+QDzAFI6+JoUK3z5NYcGPwIjemdlIVZSTy1VrehEDshELGHr8kS44MRVdDJjsdJC0p1NJMlotY3arvh+DSMscpUhlceSelwbBRRFUG3ciiKcfm1LT6I
+J3WKPn9erlD5wxrNlF/+JPqo58dgoVUTkp1DD0XYlF7QIXk3JDC1njB4YmICLA1j2zwusvEyYwaoxvn4/ou3tQX4NPfNR9i9bIQ7j5jyQUoD1samGL4ZCLEq
+0+QlMHYRPqWhy2adB1jxlZ5QTEiFo7EDcT5pUuq0dWe83tFF2+q9tjPQmbOHLYOpTV9BZ9Z6WJTdUuNR3ZFtHX3Pb5MU9owzcY9tMk1tTxT5Xx+hF3KujQWQ
+dDeCeY2SlJcoDBr/+7283ivwXq5QffjLNy/WPlBmvri7NU65Lj5a8C0Vn6qihWG0sDq9SDoCFmL27EIwWi9f5Ol1+yl7+QhQMF9Rsv74NOXyDJMGSTw+eFnD
+LatZDmwDBpaO5zj1e7eyhMCHWDPLNmEUb0Krj7CdiibMDUyLikHWlFsua3JwuQgMLVq1NrgbMm3tmci4OVJ7R3dbaaXN9ik7Fz5cVxuILV20+rEfi/8DeLRG
+2QLdgL9qGpR/SQ2Ui4B3ZWlv0sdtX/oMdFzpY4vHioeZCs1p7NEK3PSkt/opjKfxi75saFRp/ovXR9qtdLeeDz+gZIJy7rgH0NFYduS2EcLfQf4dXXdnKO3Q
+i7Pom1wMRxKGp0hCWFxBq9AlH3TUPyvowTr7HxB3DwHwekjRKvQ+4ZRchJDdPSNPjtg5CsIsAObbD6+RgIxJsKtvYSezPpC8BvLesDjKy3sOEI3xjAwrTBCm
+CryMblGQ6/Xp4weXf/W4AiPa173G+x5Ly6ADaa7Apx81fCIfDn/ygwLnOIYlXnNAnNF3DM3DnanzRGh1bFj6RWOblhNyuE5TFxl/pL/KJ98ji3cbOFcT0vqd
+MJ/NDWhtG/h//AKXEs1lnn6IJWPxt+Hfinle2asxi/pha6nYb/dASfh2w/mPmpzpdyqaRlrhGj0xmoK+sY8E/tLXShS6qpynpfH009/USxs+jfx7YGiyi0a3
+gFs13xOfFn2a1Y/GNzTu7CZkjLH605qGFKJCKMU803/g2OzEij7by1qPCyCgXjoeOgL8NU3Y3CZ98bZus5InCbazqFBTMv80htkMkxzQYeEuWDRt6Rm1NVov
+kRzpxAoo9wwOIkFDvznt/TfWcJrrkwkpzjHKprpNak93xJVt9WdCapP6pXfwdpNY53R3iRFN4oXGj2r89hjxnmcHf+P9Lbk3aBg+YmFbwaqKON7X9x1L2ePd
+LImNYW3bmMPjzXjb9MNX5Pw6CpZ+FPa2Mjha/WS0IrCm4mPsBI+3yjHh4B9DmGzURAxRyZFdXYoxxJk73niTP4x0zKPVggyzAUuDhsmpRf+JF2haPybNeTL8
+uZUK+UO6HzJYQ0DElo/TLTo6IoZLvIONUmE8grEb81CLTPgXfMgJMCo12kD3eCOXK+hiaXC8aRP2TFbhAhiwxZlB9Pi6T1K2HR9mi2rOnTMHus76eJCBhbAj
+aNvPgRMswReCyWfGODMQx/b2Fz68CQqQlRjvrmF8PI7c+42sAOhr++7fkpSZvya9lW10mB2OfIo1rBGj1nPE1QyRj952BgbrIYj0nimise+RN4QFmPGw0eKP
+ScmGlp6iQc9NsnF/9cDgP4bUrOpPyErhaCMwQGmHDHcbHkZfm9fq7IK08yvjbZGOL3V0+C0VpjCGMNpDYuXzqLeLK9PqNUOI58aQyJoQYtmCqVVwgYXHxAba
+IYEzoj9bXXgOt3YIzEB7wj+XgTTxGmlscYyR1XRdqIP9tLPFEZMY0UCvn8BnpEAds+1qjdv91fj8C9E4SaGljUbkh70JBntgELtunZEMFDDoC+KKZvtCgCdU
+gWxjqhEkbnftCNsmR3nGMw5+CkNYQtfNzXYCKert+zaTYsLBegEwZQeb3g65ePOIA2RMRgd4YhsTsoRwE5QcELjOCekkRk32bfVD5FQzZGQwiPIAiVvtrAbi
+JcNxW74/EsmojrWygHCYhLbr6Pn8+PNBK+KEacrf5d8J/ACidhIGx2B2LmsW26UwDwNGT/fH7Q+7mioGG2PXcZuqP4ar8jb6fUYue0ZuY7V/3Jr3Q9w8+Lps
+0yCgb84MOcB9j/PDGZkZTe0Wv2K+/MH64WNEED4u8bZzzN/FM4oHZj/C/HiszbS5CZlQ85sgpogYcA/h/7Hi7dX3sV88IghY4tAOb0cL3lGnRX6OaEdkqQg7
+AsLyVQaUcJcU6Mj/mZRpzDgx+xuL7b2OJWabI8sEDsnhYt0tgc3ijky2RqzYjwVrU9EZFBsSEHo918iQcoyn1GpHycHIBquc+75akbAfrXx+BsYdznhhf0TE
+lVoZ6ATUocXdfPaJ6dLka/PZXji3cThCRb9XpyQVRPYs9R6UbqX4ACG5QEb/iH+OU9HARPPQcQrHZyO1HkgaBfgYUcIAQs08EzbP9AttdUwnBWrhaKLzeSfs
+84nYwoLI8Xb5BgnZeaAxY06ALvLkaMA4JjjK7+ehofcgcDWJWImR0A5JxrwdYw0oyd0uFFXrYMnVP6+/lK2eEIy4cXPCQu+bMVvAYI/LxT/FnTzMdubHZoln
+bEYdhDS23gNS2LY8xlyYQI6acHnHkt9wPy3I4e51ZJdlDDdro02x85wOYZQx49D4MKq9eIz2vKcwVknH9PbrpPuNHRXhM8Afi31h8jOUMjfIuTHmFtmtPgib
+4xI+XKhfjum4KbDp3xo6NE8AiytgxY0f+5LXJ6BhbpgcEmTroliJnkxMsXwq7AiwqC60W5KRvRSqQsIO1sndUelTmMgEeXcbwGwIZJod5h10XMkfSWX649BZ
+maxSOFqzjljr7lhrffvaWm+0GU32OMGKNKjRGYO+sEtoOCJnKwLjH5N0NTz3RrxyM9pC4WZEY9Aszg9+Gcv5Ghd/EgQ3Iz08G0sjgpGsGp16zYuMQ3xT9u4U
+OqdpupABrb2zuHN8Hf3081M1On9+BsZFGGp9eoAuUOePtRXXgud9nD/7+eKLLQ6KVNYihHrI054Un+wDEyIIKVQr8Ly9OPS82dsX/BXDdGCmIB41ciKarufx
+wdoQ6BmPdQa/BozmBAJeQRaqqSIcCFmyEJYzehCx7XZ4Eeavf0Q25umx4REPKLldnGNmahYRRU/1bLYhnlaVYIEc5rex442PML8jMo8fBda28pjriZuL9qOb
+3SdmwtcgI8XneeT2wIwBqGc4PnhiSMf5i+VsT6LM3MnAZsRcHI0mzp+AtmNqjoL+M3wIRJoRbTDYbtUTy0pkjOalX17Fqn0J0mFEXae89wMcns2K9J4KPTeb
+rQISidnO1esuJOh0GPmPGwa/OSQPl8mkwhf4bggcPA7LugrDnuETU9CnI50jst6NFA68B7TQnhj8IX/C6t7TBuoUDhFuRF8vYq9+ccBFfrMdLwHDD6Z0ZNQ2
+wdH4fHo2AsQq0pORTLxG7Lo8t6RXwVDMEx25h0W712/DsyFbsmbJ4C7picTVClA7n7wN1g6O7WPi1NVf6ai596z0WbGGp3C0SyAIhfFPnSmN7bPYJPizaE6n
+0GoMuqnEVs6z0BQDuRVHGp2hLOXCb4CPFLodNTy9NvBkE3rwL0wUnvhAqADFtbB8otctyoLMNShaXUZ0RZ7FSmYlyL4FWpTKzMN32KJuCDKVjbjr6EuzerFn
+E3F7esuDizRaZH/tGX421bldbNw//41qxCgKdHqxRytKr/q0hPIT5fRn2/V4FjbJn9nTsifebJCrE2PPkh8odB4bPzEFfW7GgjXMRpJJdkvEFn9cSSqA8gW3
+CFdfsoYkWrDkmoDe3hto1oOe7Ho4hgGhVt+mssLCWZzuYvzytB3o5KSvM0H5j9CSokLPo1GuoIDl38rWE3MO0XIoh/ZkqY8n7YBTbZ01rpowDwP8bhuxyvbM
+HogL4iEDQseUHiTOQgpNlBSl21mb4lWSO9/HE2MAGhUZFX6iXqePy3t63VgPEmKwVE9PtnlmnOOQN0rhXw1SZ4TPTNo66TPmxE8GNDj2MKO8pQPZOsF5vZzt
+FkVTOGImw42Y+Iogh8iTzhmSnQ7XIw1B3AOyrOpQAT4Cn7aXDLjZUY8YL2e7oALLAD3twc/lE/sQzn9GD6t/+gm1iPb2mfBMfmFV2Wih07/vYD2T+bh5VW86
+Cd3PP9EWMeJ2lyiovSiBPFm1eyK89WWsLbZFCtU1NyNc8PWRvxj8VkMpQn498sdbISxjk/T89qYzNiRVNfOLbgmw+VdwZMUjYwBQj833SHqoVuq386UBPM+w
+78mq291zKJw167MLs4/BrlTzqUm82gI2YOyhCuLVLBNaO5GEWF22cIgtEeGX44GfGPXb/0Ewe2xUZacpj7c5Wz/YFrCAWGRFLqY6UX2yhaWs6aRd2Wr4TfIO
+bxvrF117MLfTJcg3dq5FtqjkubN3YKmtkEfTZI1NQ7IA8tCs2lbiIGXyliSMeOz7Eh3t+OYw4mLa4TxTQcOdAxLOHI0WMTHGzwjxXJMJQTydjzM7GhOsfgXX
+VGO/glpSHPNCjBiye078ZpFIRqoqRtioUtVQ+crLF3sseekugpMg20yxRlGqzrk2I7i5vk4c3uR6t306JkOrfzmtyEcbxWqz0NNFNeSdnvHIMTGm7fL9NWYI
+EHeAOSbEBg+LzGJN2xZCk08h657DRhtl6IvAXcYxJmFE0OnMbPOleY7sclaVy+tKgRQlbK5+w0KseQhSBLUGsw1u+bklTCbmEjM3PEQT2iSAmlVKyRRKNOvD
+DvsspqWBq68eVVcJ0cbDJoJPPhn0PjCwpZtV29ubDgOHuldtx4ZXrIwpWIM3nLCuOW4fHt9pWMe2M8MghAzJGSumhlGeHEqHNsb/ebNXkT25z8l2lYcPzx8+
+s1e+BmyBKlSHOnzsU314MwpTqL5bT3kM98vS3aACKoRCOywBO+racB9helVkZ04vRMJ7QPfrBH6/Dv5NWYpFDa/IDLeNcgswkQmsvhTXCjV+wLQpwMXrG21t
+LgjtZOGawgaNqA1rgDMq0yKOYEU/S7jsnFucomXIBfAFFeXB4Z6LE4ZK33D7jpGXDJO4QrtqEqpoKeyceM/iBeo/ccdpuRORyctNvqLX8HKw49rh7j5cZvMS
+QCwdD7isGEiNcl8NIk9Ww/1ttpaHw6aoBqZQSv+h70DDgcVxjw6GMII0HNijUMhwabBbb4XevR0YuLhnHexokrZ2iFV6sFuVBvoVHlKQ3x5+y/GDV8YchVoT
+14UBX4Ezzw9vHJhDVDf9NnE683Q63DoSR8k60n/xTKTAFO6WHR3wH1b98/M6Ax4D6l4K/7u8bCrCS2Md3yEP2N7uq4W0qIP9mBIewH05HKfr+JH4IaSGhq2N
+qIctVraHzS7fBEmpxde8wyiv+FBSELVaxMWICQzh6AtQg8aT8MLRHo/YGcEPG62iwkWvttkyEZA9WwkG4EbaGGs2MBuTGzB5EY46TdltDJICHQv2CjM5Uy0g
+N7BePTHYGCyKZqBkbjWnHuj9U4fBNZHZb+IquhWfcZVqZk2F20jN12TKmcPoctjcQwLRgOCpvZKE/LsLp93DNpwhwSi28V5Dcd6wSGz7pUEFXTOLA3P+dsUP
+9RYsXe1QXCTKf7yyJpMa2ww2iT/gFsy2GAaEgQvgklHOVo0KC198yRKdlLDUlyVw4Uj8GdlPHYq3BgS9fZAN5XBPbcwGJ+NQfpbdUyGQbQ0wH46TdUV7nWY7
+41sCT8KxvPyUdXy6y4JGC1hsXxjc44HL/qyPmNVtL4gGcsRUiajakQjIpOp/jAiY+xJuYTEVuvImf3f1PaXhqDGkHcOL8vszXArx01NdCpidNdnmCoaCa4gB
+MWI7Exj+H1dvluYsr2zddiW7JkBpk6baFPZnt/7EGCG/63/ORWpOkyCEECpCUUSvch1CzC6AmgXvS6vamLXX3E0d2H7H1HCon6yY+sJF8oCMxU+8ukNySNgH
+H2Itx3MRwNR0vQ0gkVwGnWYciaQxu/VozTC4sOXKqwlYGFDSJeFQLzevWuurF1PUAMMIDi3+6cAM1yoi7ClFOe8TYTmXfxSipDHIseO740DqEz/YUBVJ8ITK
+y8B5xG6BaXnmfNyJt+L1PcoLCmH4gZE7pJwI5CDz6KMc+t8FOWxQwaHp0Q2sUe+AMUJUJ7MEhDnmgfbZoeC7SwDp/T8vvu5fPSqs1T+5mxW09z7Np/GgFNRD
+2/UeTtFbEwcP0B9H4KiKHuEGbU88zPrHCMuEi8Kphi1QU3SKnLOwnBxqKweaYcLNvJZuzcM4S6dws2NmQBX0dxeIh2jRd42/1jWmudIM/ResaUigCLb3VfTk
+jOoAsResGJffJRsyNLZK8/j0VeWA011hAzo4PS1ZjkkfDf8oeoFJ+3Elgk/w73fbmI1jumF7Aumvmv/EMUZNYm8R5GR3fCiDPw5LUej+rc3HboX8rV41tk9q
+xA1bIHvk9sCtWt2ZBvlu6626swGZ3JEMVnD9DtKHeg2STavt15XEr9n92gScag+6cR0wpGO2U+0YEiPtMTpfDWEdP9h2HowrRYq/DwMnWObemmjdaI3xgckC
+eAo2qGgVfMUxh7I3rNjajLfWoOx9xjOrttOJGWFhaxYnJQXgapqFLhn/KUhvyMTBrZdIa8z2ShSgvCxzTDb5noBVGBwG8QTq+nooOedgHhJURzIDr5DpepCO
+xViNGmYXzq4mLTQDj5QdQUjGiQkhrjIpQdQCKU+Q7kMA/r/zOafW2FA2Kh5ZhuBzxuSf/0TVGFN0SBHyB9LxD7zaAxhNgigpVEl5TO8klkp3neJCNl/D7sH4
+TWzI8M/pl+jrPxigUesGARvys0r/ugOhlzjhZiV3MUfrfvoPUvU4tf/E6gW/Z0H6mEwn/vTvjCbdvxec3gZOzb1C//6l0fQIylm+9M96psfsPmMFB9B3EV+C
+Ht44Ez0bXpEo24boGS8Jc/3+Ou6vyOuKR4okpktz4LJkRgthopHP5M+oHk6dTvQ1e4aPePXilvDrbftn4Q795VZHEFpbH82Bh0U82e+XOn6By2N0ER4UjYd+
+V7+3Ry+xYXRBAG8ScnzjhQb3ungJSOQhbaOnZ0AwLZ5wM4AcJH+XI3qKn/aRIpCXjuyLwDwpteB7o65PnkFl4T3insVVE6x3G+UTqMASNGpQYI0hujdytNBH
+RREg2ocqr7mhi6ggpxeXLWsHBBZncj26M6YdEvEkVoZ62AGsuPr180E816/vaLr9yhSyX19Wc6wYaArrM094+ixUtI+yxiIy/ckHndzjh5jnhR9u9uwziAYB
+dsgW8X5eoKA/+raTqFex9O7XVI4HrdBVrXvBMrgr2xPUoYCI7TAHG03Nck95I6RHRTCPeRrfL2D7w0MNrdYgD1M7QLp47kM+Dj/fWH6BuTrZG/W0mGfg3dkP
+xkBZ3M5qj+a1Iy6B8L2uKzPB6MGfjC8LG5R05zvTkqPRpTF3hHosNv/Vy5czheJXWuL33IQ2ksEeBNREg+DLjWLgffU0t8E79qYq7/QGrV1Fs2X3PnrZLD9L
+KM/BlSCAdCGaM2MriOcZi4BcdxLxJTTK8B3aa9HTs4qyiFPOCIjmc1xR0lWaCwNYeu6VTpfFnEqqW8B+Mxx4nyf4BpF55y1ut2PIl/j7m82TFc1qOxiyQfXG
+KgLbca4HHtnC+mxZPYrmYiRdNp9ytiVaUPWhwZ9+eucHRqBb5sbp1DtJmyz2yHeDdppH8MuZVD/pizqAGj9h5U2IG4kCCIlFgSRerfeY2C7VT9riiBN0eSjF
+Nad581uJGQ9mJx5Sjb4f89WxzxbPMGLp2Y8bH8G4fUcJnZxGl0skb6qJyX8fCyy/xmj8z4TIdaT5A+M/9NK+tg9m7PtU34OlUW9P0KV8ZyNiN6aCwXomMjhj
+LKRHjLkBbCz1mBz6cd2vjn/uxOlDtH3kICXDHmn5x8vZqHICKTpykvl7jWMOBBtqWE0r7147QIGmGh1sji/3dX5w/9kNpaiS+3j5kPfIa51BP+MYHj8e5UN8
+Sxz87qPn8NF6liWLKjCkS1LX0rAtO7D7/fLOdzvQ+72iCcc4tjPIYj5kW7unSzNJ3d6JC9s00JgiAJa08k1pm+GDMr0LKNcTGRMEqYYEDRfO1euYJ514rRFp
+OtgqCDvqoyBLDVB/0UG2yTcCAu6z9vfUAGEtt+X1s3okziXyfD5VvDK32zhQBWSIt2CjJc0JRSDW0F6H8WrPvkU8KI10SeR5YpxKnwYZZ5iUzCveySOlJ4l1
+25N9zr5iSkxLZ3c622kwC1/TqXYgDaxONiVUmnhrlU0C7vVb0lcEzAwH7TiDxCBJ1dT0fd0Tx4effspIouOc8rE2ypvpaI/fBZ5KL9s6Xe5j7pzd09eNX1++
+sdKD5RdWzi/cbl6D3vki4dY3CDY4UQZkEHi6X6VrFexE2EZkD2FNXt27O2r7oclEn6G3RTbaxCPPOWIiDrS7OOctMLvcFvWrb3oegdk9BRLnAFTPvFfRSqgP
+/8FQnWBark/+dGeyT/ccfvQ4mc9LDVIkQcAjWm87XrXB6W1mk+ZNkPzySyr54JZ8uY2J7eePfZiZDQ6fgZP/Yz2XdxsyrT428oFor2VTn6rHR2Hvajzotprm
+9g2sRVUJiuK45+gnFIK5eSBRlRK4q4FDCd6iM3XImHWweIcFu2nJ1+BOGkuxPl21B9RnyZI5U2ETN3EgUG/f7AZ7/ZH1zTwFRGAoZgG8+7xbjfN25QSuOS/p
+nYSWecwmNbPLXzxS93wx7b3MzKgi/Yt0yhvhB34Vs2PE3YkNazpLlwNTmZZx3nTQI7e6p8WixJdqq/wqoMm63dlMvK2P6Z8X3vLfLDx92Ugfi+9g6hsiaaJQ
+aefRlzt3j4XaTDTtmHCuVuyQPRTBcMfKlKV0PncXy5WaBOFh7wTGaSg2J0filLXf6Tw9SGTcIbzr3usQCXsHkcbdI4067N58HJ1tizS6tU5/okAMpV2anhyQ
+79Z7UHcWusutxYCD1h7IyyJG71wyV9XY4/t8ZTiqYNdMSj9BlgRxJozItQlrHnRLVUwNC6jNOgjFZ73IR59ya5hTQ4kZPRDIQyz3V9+SmdGVMFqqm1sTEtNy
+JODMWUI6tJL2eav+rsmbrP3HXW/CeBRmpZI55jPBlvPP4i9aFnTX1+FVdyGC7K6sLvQixcmomhDLN+HIF1go5F+GMeuujBqbGEAMokgRV4O3d6R4TeounC53
+CrUiHQ5TM1arKuChRgyESBn9XXo3iK7Mj7K7WsA7iIavnWH6vm+k1+8VpDC16PDmSIrgDIg77R8cGkjqJ2eK3f72lezXQVzmQ+birXPDjTMwV2IuKhs9GXdn
+AYzveCUluZFURh6ILgk6QtGvOmeOSfCHZ97X/5rgCEryepsuXre+ZlPbQyz4X3RZkON7BEcTiMbuOWBCEW8+8vL4AEb/f2QobLaI5wZOS9wzVlYgS20rZuhW
+ruV8eD46VwF3L7lNWXZ8Pga0nXvYovg2WDywjzM8vI5dlh/3umuTG/lD0QQs/6lYIYgyyMCCzQRf8N6s/TsmuQ0fpipaeMZyI2TGKUUkKhbB5ruP3xuPd2qV
+SGoxokCYw+i0g7vHMtZMkD1ndxF8yCYw6gBGNMfit7nXJ/nUi8QmCbRGueMp7ctqqyimXbaC9KotwYpXcmP38S21cVYNKsFCh7DXcWrXZBmvPKraRYewxZOH
+WIzdktxX31Ptq/VR3u7pdnvJl12uVobi9hD4sK0QjcKCK6K0xTMLuvZGxOjtUsk4Of0uJN3RQx23urSPYpIond6JTTqVfDyS+LTovKoTm/zOJFJWbJZlTi97
+jYEPXWl2RKTMtlJGI90SBOr3ynOzJRTDE4O9b77QQTRZUWB1HySIH9nqxDUg1f+79T9t17rcfw5gmgQwG+/atxodVyHlPboz02GJRaqpN6i6TJBzzAdBAMt3
+uKpNId7WtyW6oje4PESXi7cW0inHPwlwu7esbxmoOJhrH7C+3rTY9Xzl0k3fEeaNwcyamCq5UAt8OokWiSUTzKi/HVvmh5CPmt3jeuQimPN2nnp33ULIiofp
+UHtwyU9g3XX9B/qw6fsBRArS5WY78HWF360Ga+i0FANom0NetFp/BCsFBu6+5LuKz9UhDa0aG9/qbhPwaxXhL4ZxZVUZGEATOYlGF93q/EowNYhRkJKvOAbV
+VRjUme9YUvtip/W2eEZGKgAzTHqXdmOUchrW/I5WzQQ6DcEiRTmrWx8+L7WnFZPNzIjRGhJ2690ECe/EZk1wbIwCoscLuF3zyItxVuG6yQoIQhqNvDl/8ZdN
+6iZn58D2D8s9iQ47M4ewtR66doHYGMwHtHg1y1zv2aWgxF84eWjfzGDs2cD01NutPi9ifwDXKeCjzpWRBndvrSys0gUSBCvAfTSAjbwsv2j3dmv3GS1Dl59t
+l827Gy10jiyrw/+KYwFhUE8q2JRtqzze/qQlYYROftOFOxFN+DocI3JovSjvhMejDA4RHDE7oPIJLJvPtKpxFuhZaiR3GXpDKAKXsmsW3VHMJSbSFyfYNqe0
+igscs3qmtM4LLCkohBkfqJvYRLao+q7v1OWOdPn4z+VxzfhpgaqIG8T3jKNy0hiamRH/KXi+S1h6YktgpzBaAeOZw93IJD/SB/Nlot2QlXoKndO/sXUV0Xjz
+Z+t4xz33vjqkdmfGkgv+SFVKGM8ytr3rzuCtkQ7ZYeLFJ1Juog9cgET/Z93YJreozKBA1TEbiFoc1UdEB2t9JbRfpmSL8RipD5F54S+4G7U/DSi4YQcjuTFS
+jjcV2RMBohJEi4uO8sKdEo1v0aMyzFmiaB3Gh5Ox1bsWSX5Zki5deoXpYvpxTRulieErC4TKBWC5egqSa0ZSQ2N1ca9qOetnyPPq+yRRt7zDzVMhdGbQyw2L
+QDZIu3p+0KXvmktYd1bJ2WCulp2Y5ThZpWGo7gvQgtFoWDVAjVE9J/HVlRW7Kk4nIW2GDkUZOwlWhbC8QQz7/84vdthoA2XB8RS2m3Nq00NKaxJqRdrgqyH4
+avau/DBtvRksVrRga2q6uPDON6PTdypIRNoGAdQjcMwNseOqzf5HMnyyHNUVFxaL1sme9+qqN1eQ0h5926ITRCsis1hcCyB0Q5WvS69Kk6TVNPzIqVJ1NZc+
+dAFzX+x36zL6Bhe2wsHUsaUdnVlVCzaSgjmljo5k8sJyZFOgtQbMnVdN9JN12vEVGMiGDkt8nDtIVj5/Hs3VetopNOtHf+X70i/y+iUGrOgMBID5MWNwnX4V
+zwdxNKwPC/uXrXds73/MV2pnGVNh28uoFylc3MYPzR4AW+99yhesNXVX8dhgxbHrQBXnG7hVJp21fjK/euRF6goKpjG00pjr4uutU+e5fdY9sYoj5czBMLqJ
+Ap2d/u9JkSuC36aV/T0KD5xlTBbCiKQQXeaDFIwcDOIBH/L5CbcJTLaCn6583i1qWlA/xGJbLG90AoRFIMllQHmPvJ7yvrlp05X/ohjllRe/7PIIAcM7TyMO
+Ql01t14oL/1gUHzlzA8p8U1oi1rjrYyJ+MX0nNH+uJx3M1MY3xXX+eX0NidiqU6JbkC6Zeya5FWcRNxxgzVvdVT8BELy8ljVk+bMAytXU7wV47docqDOQLP6
+MVqnxHZ6K9Z+fK/PVXJp/iW73E0A8FIqMkeOV3S2VTSUFI3jgG9Xg2DxSDBdErzAIbvsvziJBWMwx7NNp/UKqR5msfUcPaG3uZYWbghiIyJwp+d3a0I+ox8z
+4DiLADdXvqU5sYDks/2fUWGCLJ97+QVd4ZVvjDAiAlIs+zuMcD98oshlyG4iolH3DdGA6G+9CWP+m9BS3g5zWp5+Qg0RLWiU1jyQzW4azGfglftmJ2b0PszU
+2VJwG+AtFMbzj8cjW83jnnqdruFTQ7wr6QewK3/lL9Lx9M3oaB5UTlTGye4Kvz6899HgIIHxd7dJ3DS9CVwyzWfAps1m6gYFoPc0CfNG32jWbtPBDtI+krjT
+mhOhMtyyBqLr8BUODoyljwkAh535Rop5cx4gQgnAxEOjzwBERsC62Ew03wUc30uHoAJ3CsxjNqX65cOXg4uGn/J+aIFb/ouPtPwXvX6MICVWqzuQM5Ly5H/P
+UTEYLsqYvEmcX9NdsM3yg9fj9w/m6lXj1nKdbkSpLRV3jVULS7tANPkowaV5T2GuHenkNTHFOt+6By3IEzOD6L6pu3Jx0XChyVuu3pucqK0gHY+ehn4xXXUT
+6mkfkyDXbeby9ioU/thoc2i7UccZv5iU2WJ0NXgkwnre6I0FW5cf40DxIyU95cC29gf/6kwujGY8C5QT/XLVeN1d5DIVN0iJrEBvcpjSrokuzFiW28tlNyag
+3QkjwPWfgM1A2V1nBei3NBD1Vgqz6+jKDSKOT+7MGOvckVnKAR1wFlwk38QD/8LFPeehSkh+Saz4Hc9J9SMZ/J2PgTMN4F/YmOi9fEF7s+oLMmDIC+FOuHxq
+rlppgp980v7yqfrRmuqZY9u7TY2kGwD6OYuryPcnHSXnHifpT+vHyoZnmumnNCutsimzLhuyBaJm3WgdG87cY14wQnmy5cPWvxaBvqggbHaKyBCC+GT2idFz
+bkrggmAZgqwdVU7lXmyAIznhR8cCja2umBBzZBofXv7Yy7aBaQpWFtWfSm4N4MIjnWBlsGLSyR/pYlDS7NvkRcCTWAbqUheBStvz7JruSWT5rcI4xScfrvrh
+x7AbUkmtvqWR6DWE1SrQ6ErA0UP0+xfFio8KJ9QD9bqwa54YdT6zOC/p7THgR4VD0ugXiemF6XVgeawCJ81jvldcwUU6GsUicD1JaSdzHdD7L/OQ0u8y6+nw
+B11FslVUU4jXG9lMRrkSftx9q4D7rF/CXor7cFTGdP0fgSFKTH7v2ROhNEGDmM45N8qCPfLAyOoBZ2rOTtnDQxhVWtAKkF50Smd9oFH9GClHNKSJ9xwlnVYL
+bMTL4jSbfb5sQhNbvXviD94scARYcECDgneQ1L5jdH2Wnxxk1yVJyoh1Y5GuS5OKytYzy5JHXC6XKZ9szPDQQXYrBdNzwNqjf5v0mwP44LfRy1ADjRcz1f/e
+pjlsIMdobeonQy8Ut4g954H2hZuTtuypqRgz/PtAaLf+aFyL9XoxfspKkVTP0mffLRv31FmGjq8h5gm+dadbbnTalUzc+Kc8LIkuWAhwzWdDQAoeLh3xl5Et
+gzIaCE27Xds2jmeBko9yu9gAxpxp5BXpaC4J/d1NwWRMFFYOeT5zSw3/i+0G3wQ/6lrw6cR0snwbdPMBVPTdjnVwLgJh3cTYx04HG7M1Fo7a0jJjwDEIi/t8
+VmNORh5uWsbYBMPIr+Aj9Aeb4iIgmcMT/0ScikHKR9ZNJbLustfviEqIa0FL16WdJKjBSWH9Q8i80g1X/OtEYls6v2KKhi22HwJuJ8nh855zkvjBy/nnjW3j
+55Ue5T6vdA/wuV5t1vm50ITtQYK9Rd6fC6X6z6X18oeYWhUgnNznmv5dNtGQPkSL/lxN7vKhozgCeoPU7PwLlaJ/1/RtexHGLb52SsGMJ4Di7ueI2l7ecRCf
+Gj8fm98HgXikE1uLH7UFP+tt3VY2VKGxavzM/G880xMIpE5tSfVJQ6PPGMPQK8AwqR+WDlT1h8gXn/G2zno2+oxGJwX3DNIFoyiAadthgTLBCZy9Lu9V9czw
+Gfvyu7K6DxZ/Grh+RmSBpD8fbKw/qRkZwJIlqKaen6ogHqQcdbu/+TE5bHz+uSz4uNCPFBWNgPrBxiVWDSyiPnXUjvKDDe0uqAEYpO4ZBhhqH/LBiYFpJJjK
+TWDqpnyqWzuQjEf6QczmSyMu6idWuogSPuWFlnO+zfIqrEU+KPR/AGb9AX3MVsB0lTtKe0/UTvyDPmlmsONiBeRRuQZlGlJWxB/mP5HiGTdSFrscXHBuDpAY
+0QDRjxVFfEwkRZ6Wj0XVoFRmU3KwBLrVCQ9MqdKH3q1yxt/g3XgBfMq7zxx9lYh7Tct9y6pCH4OL+o//Ts2GjwsKbMM/riksIFIm7oeOx9sgDW9cCj0CdlXu
+397qfSGSesdXSMpvN0/fB/0iSk5vtJzfbLdFinrze2WP/XeUPDh6MUuNHjYYg9GbTilS9xnfayzsSKOtBWCs9EZhKZKKd/fAQiQ0jrD0fq+oeLxXvK29Nc9j
+gv/OKFfvbNQB3li7jUhXjY3eeFAlRaX8Xem/MQd566PhjRHljWuK+cdiKiZ4b1WOIsXiIvAV9ydKZGRT0gP6O6f6b2f1wDyetMA3I8w7moTXL4szW0h5UwOQ
+5bx8UJbhT15iMlUk3kVT/zdbpfFloWV3y1Er6ZCE9k8MRdwES8xl8g7EigN4CoztIj3ImChZ7+LuSkCsiwOwbOBn05+HXN3Pf2/WYf8VHvm8/7zenxrJnloW
+rzft4qVez+sdC9hIO22ZX9f+iSQufaExEddcHYEHA5BENvx57Z96jJL3QkqUjaZD82K/PtL6VkLyWt9nhqyBcfM0hX6t37ikL8XQwMBGwMv9RA3F4i25hxs4
+5XSO90bdgPEmAefOEB6DZc20Zq45I+ZRYhTT1vC16oHstaang1dGiWBJ9FqdR70IfptX4Ntzy3EgfjW/xq/1b/kW+q++2DILgsn5a71PRJSQZOY38qvTL8dQ
+1+LcLh+CEIav5fpWQDTnxvR68JoiY77fF04WX+OJ/1rQ1TKIs/tJhvvZU4aXY7Zd4Kh5ePSRcZ+il/2WG48KHNjPj8bUwX6jLYzb78R/WUk5Sr0I0qco/2Vs
+nZP8lhzZILz8kZEDB126w30Rra+FA4CzGgWJLeLFQ4pZYS7Tg6Bz6FnxN3d5hSadr1GX0wEx5T+82dRAWSk4W88YONKaxbnUZLiobizBFIM+UMdEQVCuAJgA
+gUgLXoSJcAIfTD0o8OJOj1YmgpMDJX/9vMavPsmXQdJo2udsI3+QVvg63crxgdxs4GNzk/8aM3b5xO2qn9o4/MUMGERb8+XHFW/Br0DPS9Z5cOM1v0b0dPNV
+3+M9E5zjmhMROGC84A+KRFGCu/yF1Lzg+2viq2Zvg189Qtog6nEE7n6rd8U6ADOaF+ZsfstohCNsCZI7CC/0ws0Y1z1xn/p2NRro3QmSwdtkly7S85Oae69v
+hjX3nF52DOl+uXH2iL6UNyBV7gNVl4ocj0y9zvaIhWyqIb1YQvjSUN3+TyDhge1CRO7i8BOQHRXTuD2vW8jwm8mS91IARCkm5P4BZ3T0r7Ylk+VLB6OvOnI5
+mgVpbwHffptCEj8iX7TXoM0PbFCVgiDsWe2TbB87ccq6HZffjMsEzY6ujvf8LddbA8TeDX8qkd4fed+b/rICR8s/jP7qHy/94bwyCMO310fRnLOKVVHyZRWc
+JPOgrJ5+XuUdi6tXqp8HzAn60Q/M4aK8v6G3X84AQQ1KJXkcjxKYqpPZGTOjmDheCuxfGXuRieSawPsiWry/7tuVPy2drjdfhHdDs+NV2rbmi1mB7zcFEgH6
+7nwh9fsI+THHfIE+PYDuFtKuym8c7WzS+Nui12bK4OFlyV5EAZQZMJd76bY/KrC0/07sEukUnn8ivfAZprxVjmNlongIIGidCPdNbYXI+PMB1RV9pfRhz6LF
+9PUCvP2kV4cXPvmrF/J5GnyRfeP4fjaJcivcB7xiXtLe1WiF4FWXtDgoMNnFKSrxpf33nYP3wULdO+7o+jvgxo1ureeMWfB5oE/1iiajKotRTF6l3uxEY2mN
+l1DQPscl9qvYcIsUuenzYgf0ecVE8O/niQbhEVBxQhBDz3NHpvvUij7ezDPmvI9Iz0P/TU/sBKeA/UiN3yc76HH+uiH3eCKEdLEGw7gHNdjgdteBt2h7W/R6
+d3887v//X/33l24nFlhmNuwFh5DJ+saiEytlbxQ35MHY9gmcUN0HZ09wJDwkDtjPr1bT0+jKzzWd/j1j8sJTjLezaao/8WXNcidYzYcx4oy90jPm5zSQ52S4
+xkDi28RxoiZFru4wP0emmP0jSaRPPL4+cTQJ5B5DYP2YIovh97HiLAjPb0/DCQM9csfnyBT1wTnR10aXByJH8Qh9y3PE/qAkmkYyodcXIJ8W/Fo/W2S+TzLT
+mAsfSRA/l6RrwvIkBOiX7l+KbFw2x+R//1LWldLp+nxJ+bScEMJJ+v1qN8R2HxxWLVSejrjP8S/mi0+kjtaZgRxBjLeehpYAK8fw9EOuDENPPIJkbecFg5kP
+pSfn/loS4nuV6OqBjDyL2caz5VyslqLzvWfFWeAzPhNSVndu6Sb1DTF3eiIS24Hof8ivujnzxKs0LbDu12I2eO8hZQB54u0xwWarQSrOSYLxHsz8+6+lZDkY
+dv1G0rtWwIPdDtlvca4XlP0B4LxSk+XJ2IsNL8zR82loY+oXGxfPQOHiqZPJ6BMyDjzkTlzPIK6fn5pNAHxGlRcI0KdzUur+PGPcTpnKU5djLSs8YlO/dTDy
+H/cszgyenbOlZ7mM+fNkVy1arFv0zK+fMYzhJmWBrZxor8CGFS2CrSi+I5FXVnCG2aKZPtkf6j1rRC34WVTfDVSj5Ul8aSo6MKaFQK00BYjOq4I9LwYAiDN2
+CG4/rxgf+KEF/JNx7D3VJJPXHQgX7xe+ZL6/HCGf6fcAGNv/YmznjSUbS5YI5fgY3J6Yg8XyLYlpNKPrJYsl/NOluFd8GwfMmlwIcO4txvQW/2T35lkTL3tF
+mI4nYNVFBYyAN40AN22vYbjSmPKkga7fgvl+zrznoLOFmnRf1vVs9K/cvnSsX5Yq8cm7fCVDYQxumelxJwgKgvH5Whh0w9o7QY8YD4DtRxugghorM9iEwsaT
+TQlSpiKCfphgo72n2w3WrnLxZ7of3G2WUxryJSnW+MSO1FNPnYjxMofir7/F6/loEKX7FEN0jkiqn6U/fc/9VxM5qDZ3F7Km6zrJ9zo/8SnGi2BJcaH7SyzR
+TBnLmbom/h8RYY4gs4rfFwHmfowo+hbis7i2Ey//l1bO10bcxp9rjX/Tm394IcHSjpQYpPuBRDMp3+alv8euxrW8oOGCxOrUk+Z6/7kcYy62pCI97gVBdhD1
+u68YI+k2LvZwmJFcU0kbw4ugwD8XjqPGgLsS7+uW25fXbYr3fGWw4qumG91LeVVM7UeEQj9XN/3olm79Od/oppxv1fLP93xEMtGCAuv+jtdxutTFZz00NX1P
+ZqLvn/PS93RaCETjCBLDb3ScH0cDSMyFAk4i950aYAG04NMDMZMiNU8wnhvUh152wGaDhgTLz/PavMFW+nckS7zD+LXOmSITDkRufabRQyxTV3PgddC18BCX
+ikrnhUCWvuR0k+AfI72TA5OmM42O6A3PK2YM0aut3KRwxyDHFX9j7qK6NU5K8CV+xlIwWiOs37XPOY/C+YUIqwEPRJk/sfDYYqh/QG5x/X79Z3XgCnAH0L4F
+7qZZJfu1pm50MDbM3ABnOr8dCXnprMfzIAwZATHji1S1oEDCC5wYL+XaHjr2Xj/c6ur/MKgQzI8AOmtDzl+N2X7uusjAlLf4POucd13tUSAOfIF/RgqCMIMP
+RKERGHhgpFuR/sZ39oFo6hZ93bmPPryP23wXJhGwh5BgqRE4Z3Pax3zoMX/cMN8TjcsZDG9H52541HOvUenAyzqpijMg+mRJ9P9IPBJJfTNVYwRxtFoqs/eZ
+zPGe95NWz5Ei4QnAHhdFnnPvUmE1ZrTMa7igXOmOEJckqeWC5fxmykOWvzHff7lbDrYqgVjG/Jyak0TKJ36uL8MyBuLK8kQGb28Ni3Xsidqp6gJccnnFReRI
+kOa/pmyHqk3BvBvRkRAT6MQbxYknn1M/KEpHT1ZJJ9YhJ25J/KAgX6QSVoLwPbkMbyGkLhBPF0WUJMOCBHbjKSBQOtdtw4UP6H+3LVbop2L8JW+9TZ5mNBbR
+09S8ByNZ58wZv6snwYIjib9YtZlqAQ8haYXCLgmgVcflo0WZjzw6f/f8gj7SsXYwpAQ/aJJEJr0snW+d6yMm0TdK8xitt3u6jTzxwpj3rk8yw98kQDjZgPhz
+B+78fvBrR0CLgJh8k/Ff3dTyOVGyifQ/hs1zVD/7JIhOpEcMPUThcGIZhLONjgOQPEjsFsf1vNBIOJHHcgLCOnU6yWK2MY3Nc6+ElA8yVh50fyN92JixgrF9
++mO1fOaG5ImPwZTtSKnPscsRZdSCBvTNo+huKbjN/f2rG73T+c7qDPA03veO/5KBH5bnTsS0857fvDJi3iMqN7nPeDb9dXBmY0zSDphBvN7N3Nca8wCB5TqE
+R72vHUcV+4J0UCA74/TtMQfM/FuIJKRZGg5BVlKTeT0FEqpXaSvp1C6qR3YD96qNIt4vEJidrv/pvZlirrvyAX5MTUZ+Er+QtCrIPokr+J/1DcOHnAS1hLO+
+7ZXra+ZwzEFjan/iOwyzj5idBFDkSH205mwkUM+wgSs+PDiDjQCg2McqpK63HyMG0mfU9Fp0fv3wQ1CAB0liSuynGXNYRzk9ErILeOp80Hn/iR9ab4uc58Rs
+LCZuVEksXF+Z2/J1cA/tjAZw1nTkdXJjr4u/GRM3e4ZUcDib/PQasxiuzALcajvrX/UjwekedxnxtvNK0hSFzno7U34crK3ZTsLSRbKxPAN57s4LO4wtjiSR
+4k0jUgaC8l5JEGIGYAobMDBzwNeHSi7ByBAdSzYxz3JeJDiPDFisCcWYJ+4xSMkeZUZz24mwGH8IEc7cqxT0anGmdPIs+ZGkgjHAo6DydFEhkB7l7rMw2yjR
+NwsWbiunqU8deI+aLNFXWpRYWh8+pjFSwJczvhhA6KBYnI2C/1s0xDmL1j8C6c1D1TOGPHFISQbGFJ45o+LDf+aY7gKKGU+XJfZxZRqviWojJOgpOqChKmjK
+5vZZHjFZcKAmMmihvVjJ95GbYCSNZqlMHUN6L9SBSVHrPQvRdoAYDM2mH1x5nS5hxpzJFVybCO7UnyWNtM6Sld6lhkMQHNGdhf3b4/PecsoWbGljT9CZbfTA
+/v79b0zT+4Dr+HydKMSPOTo2YETFREKYnQMFGdKOPJb69/hmosj0+MRQFxPiA6OW6JCDYE7C//uPigGQ6AlQ5D1QVlj+d8v4NQokv1O6FDjeu9pCgesWafQh
+xCgNUr63Tl9Vh9/D8R7wRRiInWz0s9GAjtdKqzheI36FphnmB3m8clKW2v2k0cUF3PJ/uTg6Xlp+ACQD2kyBBvQBd1fGx6u8ER0EnrkLDON5X2g/k56Ze3w8
+pl6zd6bRngIwywO0sZTEJEFkdgMZE9kWChgcBo7nGpkgfqIYeDY88H17aM/lzPq4jpmA8xBeveoVB05MIt1zwxGSvx8uK/FiRpLfyIE2hwcWdXSOa86Xcs2x
+aBB5Ni1CuMFcMrPpVCQZZHqbup1x/FPKChav8npcp+lGmpPd6EPujzXvfSPLX8KrBNbU/AjCNUZQAKcMukMO2LcfVzSDk2z63oNRRVdBKTIuPR3RjjNuhKjg
+ONNJZCCdIBrihMeQ0A+kyviU/xlQwIBtDw/EdJu0I0UDJOD3d6pdzQyNHQUex1ts8ceh/UP/dkmBXDQH6bJ8KDzs3Gz/vFt4D3iMOET1ZFvmzLDAh2uvlvFO
+rFkwBhHSLcYF0SfYERUB99zMO1waCbPFV59C/P2d2gkDs0BZT9BKWJ1Np3ZKxV++aMrmTGLK47xz5bUySzD76LXVHoG+UhFWl01nZljO+/d5SrreSOYoD10I
+nWQgkeN0wfmEXGceIEr625xwyPylhxHCg6hcenzXDUcuGNz/DG4FrTaMjHQ7JUsVAnTJP03KCMe5knOq+JENAIts0j0P0nBZxuKFam8nZiFrbqVrTuyurIxP
+Ns8qLmEhkUxXnw+bdRsz9lv7aanVyA3IwCPpN24XFS/IhioUj882C2aSed6UEarzB69+9ss945XjgEF2z/92tPaMHWM14v86STQ9IBZtg5gPUjfdLkK28Sam
+4jrsXloTlq4SPbG2g8ala6TICKfioyeT3KaGtRHkVAdm//kF1fzAmchZPbTQLNu4pP/DpPROkCMB7XRJm8HJ07DrS9vB2/e/avvIYjac2D60emstuvqq62/a
+Wym0Ptw1l+5rI/8OdZ6U5S6TP8otP4mqIyVLmw+GJiNvuzyPp6NFsF0JJgwBSSDrDpHHwHbKketMbx4q768C7Y5N6vYyivbZjdhppAWKJOPzJRPw4BC4ZSgZ
+lv+XBmIKArKPP1NzrU9mW2dKTyAJ2W97M0UZL3hLIVvStKOFD0T6kOAYPR97GXRNdmg8O3f5/77lgw85yJydHnqUKMfTpegODvao+XUiYj7z9OgC/sTffKTf
+X9VCZTbJ4jcWr2IZX19iGdqNuy/49sq3hDhTPTZCK0ZqRK5j26/xFCjhFt3yzWa57TgqXCRjwm/MOQ8cjrvVk0zgW9iI1ZBgtvF4x3f0Rf5x5lFUwY+NjVVc
+Zxq0KdZFR4pGAN7ONuZZaLrl0WHKA/T+2zhlriOfmW0+qF/mFgMvclL27nZzan3Dhrz7HCXaaSQZKvdOXV/Q45P3rKipAYfpYFWA1OhWEQ8F9PlY1XlwQJai
+XJzMnmOkOfMLPLLF4IGudYBb8Y4FhSeCU9kOVrQ3AvDmcrh7f6wXG0PYwd3+/dgtX/vxiEUAZysAPfDR4lWPx/3fRVYLWyWHVs9BkT4HeAN8l90SSXNv/cCR
+UxQwFvaxorFs+9rQFkDIW/p8YhaSGhvHC+Jv2998e+vGguKIcY6BYF0fK3dgOpVzRqbMtDcUA5BXQmq+4HU+rCCdWWR/B81b6AaUmsWbbk3ke8KVLhqwEN30
+B1FbBcxSIyWKNEZTxoEgiF4Db9lH4CfgBRQvxv/YEcXemdIFYoF04CPFm9/Vxw4kp9s6kXJzv5V10OVpYEnFiGONxVDvs6Fwe/yLR3IYj4Q8OkR0eSQ3WYOw
+Blo7/YIeK5rKx+I89QdJB6tOEaPyIIMaRYchh2P9c/qBLLYWXRYeBMvwo1gI28SphF6Ih5xxspCuvY85zSKMUZXTGhj1DDbrgeAuwmLUepMSj7tdhdeGAvka
+5h6z6hcAq4K5EoIwYDiIrRs9CmGhAl4kO1+AhhWkvoHpijb4Bvkip5VJ/LSeNse2FpxwR44rWe8XLz27Y95+pxJYDOMMWk115MANLQerF5e3rWPSJD7gNOei
+B58jA2cGDF4Y3W9c8njn7Ozx8lN/XG69JY4iR/e1U/c9WD3b4jhaU0w0wDnqghDneUUUrBCmINiES1yRSn+MeEASx7xJLGY5j9CVpPZgGBznrcova9cRq9pj
+xHVQpM5QcoRB5IunUZ/YmKHrB+LYSAxcztlfLH3GPbsO+mvuNe4YHB5jbp8G+s+YcNH6jF/uVzyuM7f436obwa1tJuD6znFzTqHSpqtKTsGa7S3tuc+S1zBw
+fSc9oPfQ89oxzk6xCD5hWeaN+KogwQUPZcWnD5yskfKkAPQnqBQHm+yeR6XntNRx9osc1Tw6cu49zj1dxDgXr6ETUs8+qcaUQVFe4Er2wehrndS9RYrhfvgx
+ZjShwHJ7J/DrwZ4E+Bg92bl+dGinab7n8dbmkniVy35jvGlTE6S+sryogwGxkEPtHea1yOfFxYMUuN4ILDzI2sW/uHwBf3Pz+BjVxz5GNdMORyyCo/0fQEax
+LqzjLmlCzqBqIYJG6GmUXEp7u6zt7+8ZdZbjrg4DwB3umF2JhE0LcOc4kEX53bX6XfeMHt3tou77mre577QCPuC7jp0Daq4y79pOHfc1L1h1OXGgP8G9kAsS
+qCl/5GT+vuowEiOPfH93PFiQMiDcxy3H6yAI4RPJelx0RnHox/ot0vHdv634TitUrgyNWetDNrWrx85b3SoWG1ejpdHfKXNk/ZSVNqYE4I63WdLa9GnlE9AV
+DTSOu5cSusipjOE58LH2yOM7a2PJ+Cv85uGOfGNhRbp8+/87QrfDTN3jReyFQGCRsfMvLteZJD8QmFtasP83s+ijgHJ03rO0dxekvebyytqJ1cdodZXLZ2AJ
+dM9yl+8DQDxl31zmJPUhjVYoOiBqfJSXFHPfbDlt2XTXyLotxjAJ3xmj2PAoRSwZYSnoVHjgnJLe2RIdbUAEichrUAdFr8JmFrN80jzZ64fxP0FfzsevMq7f
+cvbxdPWNCXOFxF9qgAeJl/6OU2s6RQw8DlLnBrQMHEUHy3l25FZ3p5WVQA8ryCuKDwtrRAnJ7n9wCyiQKvK0JxjN5abLwSCs+kG8CP84+4z1tTPeGk0Fl0Kk
+X63vI112chb9ZzXibUCdm7bk6a88g6GR2Er2JbQr7VMONSyB0TETNG2rXgLPkFZFB7LZlKT3QEq7jOF5cC9mwAiYqe46fkj8mKI/S5iii2rM2tOREmCrrCMR
+BYHfzHh0taKzuwN9813vXke9rdbGbc26ylDMB3sx+4EPr8NWWgduMaCmG7A2tN0HFDVTj9ozmQCz1BgLHhlrPCu/i+d/12T06JX1csr9pG0ArhnLJ5B9rENp
+Yi2zF5amQhssBdQGmCF3QsW4sCXkC3PnwM6lGuFYmvrHQTwUVIKIplv9pPt1cpnar3cSjGCOnglXwKgwuVfDL6C53jgIRU8ESMie2OVoHkuTp9oHsFw6BCHa
+bN0UA8XzXuw9yLK/h+QwGMyxj0qhAwT387fc2j+j5T7+RxsObQrDDwSyYE5QguEBqInr/JWCn6TtTgWjJlqz/H9UVc9kVPMd7UPHHiM5aDUDbQUncs+SXkD4
+Nac6jNS1QZDcuIXhTw9MxStZE3gSDsIXcEdozS7iO2HO0sZYumFImnRoDMVLcfzmstfv/fEYrAs7+U+6ZxvzIZnwOh6gHvkt3bpOCaZLvod1+VfLMUtrVy81
+IY3XofO3qtUNH9sFFRuvJelCGNwvbfk0QTKsyyda0n+r7imzE4VNny8bh69MLn7hMVLsvHa+GD4CjXKd6vx55lwTJ/05y8Z/zDkoeLS2M+Gj5Uu3La3J2o9E
+DGUt5FRKPsr4zF0komZYrbwQe0QcmMz/e1KVIsTy+v4/9SGStXYxtj5G505fhi99SL329sqINChu7aXX5ZPwSKNyf8yd370kM/iO/dJ/wvr8JY5ne3H0m98W
+Fb3n8o9N7TvA5wZgLC5IZlDa50HUs3ykmAe0V+iv73dUFGGDXbsinrL9a/l+d+XrdOzQ1SapYRuTpYS6z1lRTxjsAEQtovqoOKhNP5mw3XTLdhzTD2UifXNz
+cxAe4HLan6yR4tCG2//SKq/8Zi+JGBBoccmP8n7XAWCGWQg/dWAWq7AtSLSouBova2+AKWLMoNylhqTL2KM8vfpJL2vguUO0XwdNzfHZzjcsewxdUzqlgbkY
+SV9KAYRdO0puFDFHK2hTmhP+NwFiIoFf34dBMUQ5kBGnVUPQNnP9n4i44NgRz3bJqujgRrw9uqiMuxewkaAR9pZ48ZSCRG2T8Bu8tP+OXmH16L7gYKT0ay27
+Gj+g9b0XTyI+xMNn3ONN49XnKMZVAwo1srUdhoLrK4TOSbnvglU2eL7cAgmyz1+2uiFfGk/Az8w45yUYKRKw5chYFTqRgaflhtcdemEKsmVVLDENZzWKMJyi
+EbmCx0bFj4lntDjjkkGs2mXAEtLytC1giLsFBZvXTXTSghRcgQXN9p3g1xMDsjYtkEeeSY812kQzJO1hUCog+w8Mx/Odzsxty3xRppnotIDVymrDM7ZiueZW
+rHkcTdlvh5jvnLHKD70Y5Ntoowe1xehTpg/3mLKVT89iPQW6ZY3lCwWZzk+7bDqtoCmHjq/jnSBr1vA0pzenw8CFiWY02dHo0cYMara8GO79d73zwqbBXqFM
+HUlBaRnELOVI1XTAjB6XuiwHjmSKT/aXQsxAi4jgXZjGrLFRD3KBfrrMxspY/eII6XZghcX3xiRUgQRBgw42JLj5769H5PXMl6f0tuRmAuDPQV9sgamigP69
+bX5ArOg//NYG7z9UfOHj3YRbEV3PzqwFBTjSzxxADp0bISXDxwTmRbh9mWkCMQnrP2+EYPv7+ETydSK4E+6DDwESZd3fc6xKI40XEWnx5Bhd6bTnoA98VLQr
+K1fVEgnFjrQiYBdN/X+XX/p+PYl0EjW6X2ceOBFvBNBY9kuRZcD9MG0HiaiQ6Fw72K0daZPKYPH+Ub9+XTHgq4eNZ4V/rNGaJ6nNg5a24St2TUGMKZH2wEFj
+Rbpfm/OzQOYSAd9nSJcUqcCN3jatbb+mkh39fo1PcteOer/cUw7gDu15bvhpyiLEUBWdSmJA/dyomnokTD5UvWdOMbTTz0gscMXwCyCxpMNKQfGxFSlFGTJ7
+2gGpJxmITpiEoWT4+v3qMJ4NGKupZ2dAa3A1XXIoStoYMh6AVxuXxtLGmUsQmtT6lv+nw619fU1uVAep8ZUFdASAj/tqLfVDaA0SA8yI7NvvacODFvuxCu1c
+criWI0fDoNPb9F56sbar8p/5LjJq5I9BO3/2pjudOelhBqRewO/3AXvGxwO752Mb6CMLfmZGbS90X4+Lsh2YDgDeLKB69EEJEfIBd293pIID5JqF8y4sLSqO
+HH2Mdvoyrb9J0iO/VKmRTBlasuKTI2JAXROmntbupgAp7kkJSnJtQiGNkWD0phrjgQuX7KXFod7X7cHx1ZkyIU5ZYe6pJA2kF20YCfJegdRgvuoz77aCeWMv
+cnfv6lf3ePxQSzpw9FKEnIZLzR2CpM+GvlJkLyjYJfXR5iz0NP2alhvwm01v8ktYH3qz2Nc7sw/yvQ9t5y1ooQZu3zveRqvvlu8NP6IAw02s/3AiSr+FR36+
+0FhGj8Iy3rhP+xqqEt99HZ6rDWiIs5huw/CGLFtxL06wFjMcRm3+INbYkHXZ/A5I/p0Rd/tk/oTqtisK2t77MFCC3nKw3jo/koc37b8d69pZhURt4ja6+rbC
+OvuENXWhErMm8dUa4GdQhvbZ6HVQWASDov3seqwfosJxWc8EdUeUVBLtD8c0mAwsAxZAP3u6reCxYDWBBVkeuetoIFhbhxKMhoobFd5ji7J6UIuBfXSyx2rN
+FzCqNBjwiziPHRwWSjI0V4hWU/y/utLghLNfp5D7OD98gpl88/HaSMB+354Wqvu3VPclAZtLotzQ5NHxcvdQljJUNAysYpH8b+1Vjzcr6rdwv1wcY93+oWAo
+kB98MCPrvh+VCYkI+pNKJ3tuzAfYy4y9Do0CsxisJz2MrjuzBPchsDtOJsSLa33sGBef7TVpcDV8f0CjWRFz+OQROktQfCwe4f6OVnK3L75ftMf7qg+/wKES
+KCVuhaPWHUX7fEXxQlChxuW7w1F9Z29SCafIDlGw7OPZ0eHnhZnejqwXzywSqqTiYG+vrrbQdEfmGUg3VtGCzy4TE4FYqPAvdCCAJSErsmb0BMIHPUxHvrKK
+o9of4muqTBfkshlFl/2LAuCuDXJOLb4yXsyFzVGtGpwZWqDW+9T5+JKVk+bZMs1zVsKMNCDAFlhnpRQ6MzHFOyQ4jN5gRlsp5ht0K7wp3LKoM8g/p5Re7vWh
++UWqEKo6WBM9OJ52xxWrFCADx0D0Y7yrhGWPD0tNPGgOlLUFpZXoWgRmrBckZbz1OvJY8XmQ5nJKkvn09+80r3F773qnqu+Lbm8keco96x5XxX5BwSbr6Za1
+xn4Dt7z5hPTkrartDLTU32t95rVuHAWcCQPGYkHyZQ2xloj01y+tRg/7WLcYRdOeeq85gaqdJnI7usqcVi5HEiNvR9rsfGAkzJBqrJCQZOy1tH8NGeQadc24
+b3nlsEV4bqYBiIixSrOLK+ggZzTT3Xl2uTjl8uNAsFAFBlQdwjcHlO3Hz1flk/sGpRtJ5il3IpFgWjCRnjEaivn9t3CdO+HL7WaLnqbSAGFNdI9QRn7pMGT3
+oQ2DKQxe66Sg/B96V3jlVUhpUbbIlNUGRuUeyGAMSTGpoCjLn9ct2biNd+Xv4THVmDfE2pnkwgcySHJcZpEq1aBxmXhcvHhw9bxkjE7M+/LckZjIkJu3m4kP
+K7LAJg46xjiBWljs+nbb9csieSAoIkSW6WrNoP2YzTYoJYB8C5rfVUnhcmB+J9ieRYIh4V5uGRVzR3OfdPw/U5Lf1bKzSt3xHcdVdcqiVPNQ6ruX4WXrwAR6
+L8YhD4gyP7O82p3uukFdxIfnDZbNeOh4fqTbi17xzNL0DpnpGp148BlFNeaTzhdK55hdunj313+Q778tD77wf/6vbYHdf3CIr5JDLMCDL8jKRG4F4TMHEdEm
+yTM0HGqkLF8yJ2FCFwRnByADWED/QCwRDI+FKC6cRWAjOXDxIP3r/13lXX+MaS3gUyBgsgTueQa0bZtgVNb2PptG0PZe4296FtX8t7fimg0Fse39s124NwyI
+cTNOjUWwduGsw+NHmeIjv9Wgey7sgzQD6WC9UjJJpPEVkXLAUDtbRpEMuCndC+L3sl1/JVZm25V2ltt1Q5l/Y40atSJGF+wnt1klnDsMFBV3jpHmbeMfTSQZ
+0645XVFvBz4fHz8bXpeQQSRRqzpoHbAr4Yr9/bnhXm/bEbYGXF+FyaAx6G6sbRf/YZvbYvlY0GzdWIgdVY+D8tF/riTL8Mk1fHBG34C7RqUbc/me0qwEzuHJ
+YspcuDKmonqdSlb918gSKmD50KKSCH66qInO7Yz6SvAqXCdSjvr5jDxZxaNMwMt/O5EBr3zguq2nVktbWuIFPB55JlGbeLrav+mZN8aawwOIr7adCT41wZDj
+Yyom27BYNoPSAjzBRlMSJ0ogqoW9588TaXcvD21JtvwktzWlRNv6iiU+m5bBCsfj68XQ1o1QyKjN8tbW1eA9xgvI2ud1J5OUgDvpcUYLEs2NpX6kXrmfBgaD
+XA0REG9prNxIrF5BbdHY5lTXzf3OSPp2HrGQBWZNga1VBcGhceDDf1s6tGjLrqUHP/oEEgu16SAJ5MKVACa3kow80MPa1uVd7gAqcxtRNQxzHIyvep3ey+jP
+6c0rUnOTfeFgxFv20Ppc3+Bkxw/hM1u/Dn03w9n1HhqfFsgODk8Y77bTD98FPEyZa58derCi30PJeIhDXv9IifC2KsvasKJYkHsExUOfV/O9TA1tG5UK9lmx
+NOD7WOuUODw9PqjaFLjr8DcI2qQB1MNAGK68Kw6dA3rUc0A79G0t7qMEjttFDU9vNwYCKeR0PYnMB1lub2CMe2F5zDF8A3HSOsdwGXD3R0/crm1yezYKbylx
+kE5tsBGZRnDQO+fpZOi3Heozw3K2uTuUp5mKUpFkXKVF10ZMRb3eoua9GnQlWEzuNhbEkXy9om64/bwDGW5706Q1Utz8biMWfOX8nnpgTRjgMnMb9wbtwtbU
+R/r/ccHZFKLMNQZUtm2CL6aPNBJAv5wCEyEr4Xtaw5Tjb4yeG0XG6ztgXzIiXNxGCn7DOizAzIwEF0BXM34bT5CYisSsSWrfiUpej7KQFH8n4G/5T+ybbmTw
+gaBMkvGmrE3u6f19zWpBgYPSDD36vvH9rpNFwrp6EdWx3HTZEinfUFx3XzHcPtnahM9Mf2n00auqGxz/1LdB4ESfdsiiNkZJ/HNdGsORN6zz9DYwB96uZOWM
+KQ+7NNjdEKd2bdyB+Hfcradfl4dx41+m5i2odfxIT7ON/GwxrrBuAFHf5nVUDcoDqOP64p9Pl7SbjjUBit9CSm66zMihAdrH2JSsM5cT5cMNU/NnwmFjgjXQ
+vUmj1GaQ0d4Yktf68YKaMcOIDJDk0c5x0I7Vuf1SPcfzr+aNblmAGCMtO2/zf8v3oP3daBlbZdNpeUD0Y7bVo1XIfh4Z8HLzbSg8gNK1oGo0b1qTyKdJ/NFg
+gtRuv+7RN3s27won9h58ZKOrOkAB4uNjPKwsZUgPpaTBegeDVToajAnKkBc9Jn1Hjc88K2f5IO7YKHufSJI3Wg7P2B0/YmZh91ebWc+G/7N584uA3rIdwIDU
+0Me4YzIdfdQYmCzFEl1YL9pslpivE6JiSxN8jEDim8uHYXu8t+4m3UNt//z2B+MDsqkiJ3ELeqvZERAaeaVt/f5mBaNnFGm7AYUenJPWIc8bonN6/7TncbKp
+QlduuWwGfiMbP2Sc0S8CJ7fi0cOng4atfBjcy2dIzfJg3BTTYVKE5oEv3PwASuyDWPzyjJlVez64c9o06dpUBwi41JUOVKtoKzrg3XBaaoXgn7d9YyXVl8To
+qlZZeQFEEViTLGdD3jPjTKSYTY5JMp6ltHgJLvpEFyB5KL+k9IcqpOL5RpBByozm5Fba1Dfe+rsKrkfKjtJ/wJnzDyOz5QQXW4SYYs8y3wCKpcyBMBGjLyq7
+s/iCMJlC7t88WBSbg10yQPqwNZQ97fWD5DmDxcOhqpoCvom988zOOo9JVcn7MNkqrFsDNtZPSg902hHUxlTYvYg0655eGycIDJVlncbWhWEItbfXtLxtMOoM
+b7p/8+jJit4jWlVD2m85kxf76y6ND7f/mdlD0x/cpq8E0nIBN5viYuiRTcHFr4UZtCjYmk950caEAf6RaHprv6erGz00MYnGziTfwzQr/IUgUgKziRjd5stI
+W9OZpn/HCSArlO9v0uI8RvY2PezD9Myw5/HBviJJoLO1kn5ZwATXxAQm4JRc+30juW3pt+Fydh3LXauKkMg3N3C38ntFBQUOo+NnGZQFbuw8VONJy9P+Yyu9
+TaYfnUa3MAsggx0LnPx8CTH2k1uZ5Seqr48kOpHV6BSxVsiWDKEhgzH2sFiRxhDxSR5fxYqbvZ+VtTvHdLO4xoNastX+QWGTjmOiIbFqoiNc05hwbVsgK94h
+zh8iaRES1YhaRNNY0+M1+wfSJg8LbjWshyPTemirIXANqu4xPUlfkuwQtn4Ntx/5aEdnyLJATy2f68WZuCsduBURotZd/9zrzqT5u0oLTHE3C6GYMwrxUTUn
+P6vToHXX9c+awUvWjJcWmI4b1tQLJgi5erZJfnB0vO5//H/MTKixd0Pz4X839wDX3QO1ZaAoK707RmrFxlIxy4v49APqhZnHImSf/4m/nxVhT7TIdXtHGbaz
+vrG5iSXjg2PK7lwrWvLNCtkq/1veNZp0YP2Q24L23o/lmONVzKi/6N3B2pmJHPMAkRuxNPQ1Tvg5Y2EYDzNd7mAGdtcyxzWTFTrF23RBEqzjND064h/4ZzXr
+CS1JoJDhiCPZIsGKGHJTfbLmDe8Z2XWdbt65PvPsijHaOuX8A2TJkgaBK/6hDcsJW5r5fNSLuhWBFOdxYaGxPlB1wrOWP2KGjyyGh0olyf0t+1n/UJRe9Z+4
+3nWUxnJtvS+KaFcj/q33yei2HKdgqRoBj4TYI8Biw7h93GWPXG7XGXe+ubW53thztVNebykcYpMXJakg5HvTj2Os96I7XX8n4l0wmK7stK3owkZ6n0km69CL
+EKhi4FhJ408v9WtMsyJhn8EdXMS70c+NcX6PpsSq+wgA3xVWhGphhCWcTB85dSVyir5hWRNfTrDXPrrCeIaOvRUgOuOVMAdRgq55XiMA+4/h1z3qvgQQD9Nc
+14C6wl5VzOel0YWopLISAOTK/8WSmi3hmGCvBvX8WcuJ/mRALtCW90U80PfP8io3BbjLpeuVgHsku+aSy7Vgo85RNHQipStdlFIt14wnn8D7rz8JU7Lgw8ML
+dVG9oMI+HT/MfUni7JXwIvkhOhNmRQEhYeEdbwM2kUYrWtbrr8TUYFnpfgFm0wsyjkW1jkhRjOz5xJf10LTsDSsE9Ihl2sXFe9u+hVWHR3zX4iBjkBkJHcaC
+FiBZSGa1YzBUy8uH/12VjQZSeYbdXYRlZaQqPE/8gxIwbAQs+0oGbLXxQoKVL5vRn1jaeY66Ain55BNXC5UajMsaSxTSx2FareMU64JRqj8ehNCQC74vzNrg
+rQP+6Vhe5JHomjXj0tpLtibwZl3dTiAHv+GxFhQaWJUt4xZ/OSwsSPHvbFdEKcf5Q4Iq8DI2/fboOJGBYN3MWxspRKw5HI5kplnO270zG8RZ1VBPMe6SZcVe
+n6fLHGv63ZGQizHh293gbZxdbFSjATJsKeunIF2WjyXx+zumLmyaxvc/SyYUj4yqclhuW9XYU1k6oFmQGv8sd7yG4Z34Z7mtV5TJ4XWpr7khMuMAo4kE1oX3
+W1/RD7BAgq3EFcCVivC8+H/6DBFJ4y8+hzsZaiWVq+OFhbg9ZDBiQwQeBGElpjnL0qW5mVu+ijBL+gJdMiJ9AO7zFtzr8l2xQib9vm/9bC11W2NqioB8qUbB
+WXCST6ajuthgIc07jXOrgfGGSprPNLp9seiPQFWMhT7ZzG8GiXMZS8urrGkD2DqITzLaWfX0TpErhihHzN6jQ43hcikvlPPwMEBS0BcIgjHZQnRcwVVtdo+x
+eLZyiJk94nI3WW0Yd2+hOSHOhQlEigvjJQPREhYCb8KMroQdM8bx0iKRsQlGDZeNF1hco4Pxh2vdSONvIS80pwGbsC2nREWd/t9Cc3g+2L3CuXSmFH8u1yU0
+pyyLLpuwz1xKvpLyKMx8FhVrGcZhf+Och4aEcscKcYne1W6m3OfRot7vws3VE6RODzuNWLugcB/k97TCDay+fAMvslXd+T5YwCyl+wxvrvJbLl3Bq71kz/Ah
+OLj9/Mzvg9iY85uV5Pxm/jO/mY3P12ccI30zU5qv16tgVBzsVBAZqED7wZuOXwfa+6DbDiLihSDR5I2WI6/mzOIt0oX88/bXgZ8pEe9HILs9gblFCmGiBio3
+CUKMNnO97SrBBDMME8giUCwEZAmqoHDGkdgkUAB85864tZvxzkwaHQ9g/luMYzP+rwvPtQwf01xpzPrrDJjtPuZrSuWfIGiscMG0jP8BE7OCZMUcMeBeGuaZ
+2EgtXoy4e770dDNf9ykFmfN1W/D8POPlucHP3LYb5wsZ2NcMdtbHGGEjLQymx1p4TdhnubKN6zHfjPTxtDOdEajM64dFXUCsm2b650j/o38Co+1jYkmfPdtL
+ojauA9hZJU+MbD2o7qIY39Qc66u3qf88jrYnGvTxKsK6AcxiBNI+5o401Hnd3xNpmunNbh4lmMf+1WqYV521zHrjtYQQwBe4GtFlZrm0mI1CJ9HsMKyKMUd2
+5+uHLe1tBo1PaXa9tDakrDubOf4jpkxrQ893CjAzJckLMedJvAuoZM0uoxKH9qx0CvO6ErgnYPaB/pViwVNx4t5+L3nGqdcrSPtdjzFxR0E5L6qpZwGNF3Mk
+IdhsMrSxsTgo5rCaXWpwz3ha2XVvHbQtf2GUdfm7sjDjapbNeHTGB78HfjESwFfC+355vPodrKwMSaOVicSTl7jIg5R86n6KKajk7nteshLtBwOZfHDezDkx
+U8fpSDa16fDZpsWnniYmQiDmh/Oab4h5HLnEK7cc+BGO1PZ7zwhFEH+umBTMLKgEFiRzLJK4vF7UmmGzAu6ZWnw1U8Gbm3uNgLmUmGNNk/Etg/VG8J3X8n77
+BDjGmad10Pd8VvuEaYLLlHn8pIZTkMuJY5AYLiM17CWeQrEskuRnOramFGvKoex6f5kNPsNJmhbM41eXex6PCx0UyMMdOkkK5qD+h/51JNr0imCj0avRR0MG
+kzE3FuZ0DCKoqkiQbIO9QHoLt7fjxVb7kf6iRUKDgueyfR5Ve5oVfUUr+LxNCUr+9sH+3w5xXIx7DSbQwEfWHIBHmssOGM6r5tGZuteOPSkDMqF9xtX6igbu
+fe1IUKOJOQmYl5TJCo9OlKedjM8YyDwyQJ+xc6raHEl8ZgQPZBqDAumY/mJlpnmV083Zvp0gfLG0AjPn/EjG6d+DP/Bk1t7oY8onfNg8YrXsRyvx9sw7WddG
+wyqPxoros6kyCfBBjVjCswoI1qPd8G02tViphJ96FIxb56ZJi1bmV3QR/E5finuPfCoj43oS65cc8VLDdsmjFNLbucyf2U9xajH2TCBj7jffLgcc9vXonwP1
+WhLd6BAr8ZlYJpPAMfz7k8YcFGjb0kEdWKyJmMHiZ2iu+uTLmkXirFA/2IYoF0R4FzjSwNFtJ//j/rb3YEetU2tvruljOKaPH+cubNxyG/ehAx4EegddHUDo
+zmsqYq/JvPyG42/QzdApr9ZBI3dhMwzQ+OyAqRWYhPSPWKmzTqZVZoEmVDSTQWq4LpZ/YWMIuFu5SNSfnjXlfaYnmSI/n4kkwTluT+Fky3XT7GTkH8uVKtR1
+DVK8x5jnN7gVv5Y6VfPs3t6g825/lGX871/w6Vn/naRZiTjLJ6VNVdelQLvTeLMBjAY+9PT73mZyGch5zl673p361lu5WyIbEd0lpXJNFIB9b+CAOgxaxC2f
+YcjXTtAaf7NLQ5n60ZfREz6ZK4oS4UBiF8xqrwIUvH/h8IVZWzKaQf/SUnbun98DeF/hwIlbF5Hm2CtenHsiWkxgxe0h5+nTZO6/Cn2HvCpqnvvtzl7zYEaM
+9xStjyv5SvpYKx4Ua0HTBEApZ+6ZzNpVwswFTxtzY1M7VBa8bUnqzOUTe3b8K1b5e02Sn1QfnZU9Uf9wOzFwjN7CD49tzIERvHdYiQb9zMNIg/MAojjJYjAn
+2PRs/5u2e2Pldvk/puy8yX58pXZpsOlfbd+NBjP3t2s3qxuKZ+8klvm25tU3Jgn2zz2uywR89wVieO4lvk3q4PbvpreCgGzuf6u+jCGoAQeidcYB43YELAzV
+Pmpt9R9PlRCvYZdFZrtVGs3IYg8stcE07oKhTRrttzcQ8r0RbwEp/8gt/9c5ne7xymEF9C6oE5ETydywk3UduGaZCa3cLl/XPLCsc/6m9a/JSjbYfp2zefXr
+aAFTCwmCZ1hPQYreJ/E/Y96X586Sl8yh7FaNQZSmRsq9nTyxY5isZnlxT5LfePC8JyqjvCrsfWeOFB2oQTATFylDty4xChI824UJOufo+wRxpygQ598OieXT
+grrPJbfJYobyqaQErgQtYXlFy8cDaty+XJpQ8M8L0x8hR6CihWXg+T4cpoOQ2XmxjgeYmoHfyVrw6R897Z6K9kJImpOWxPYvKgR1zlF0fczeu75ReFa1LoS8
+P9vFAekfNUh2++gDGXdsxpN8Pv9p4IG5HBk5ZHZj3gUD0p52UmqAgK4JwUEoGb5Ounyp2dnXBHz9rM/MpDHWgziIlyNr78i+vaR1ayLwtWqVKiwo6bYBRNVw
+1nia1GPRZfii9v9cshYNY/3XnjHmJaaaVwc537sQ891fyfp9nv3MsTtIzowb37O+WfQeqy8duj6/ZPmSbzaEdfsSnytZI6X9jzEGZwfvBI1cvgzChDwfLirP
+jI87MTXzUHtKPBm1C7EDpi/Kl50hMsCyxfqnMZydzsTkc7wu2qaaDytFkYR5DCpe8KnaymJapHxN1r4J3Lrlwz/WS1AnKsgfkYp+rd7xLFnvuVjBUUb7gvbb
+ai63vOZ3yif6Ha2oPAU/4sYX4kd/tZfcGxYLMmY7CNIqjVA2i+3WwOyN6ABJmi+m/77x3iJ1+Qnudl9GoShTb6FVkRdva+aa0oKyXVy5He0j3Pi13qmFBQVJ
+5JHpQceRl/8uVkMsv35tCUHyaE17aml2S3jvF4+mBARVRowJqc1ZX7vANObP1DdlK1ztEc1i8tPCK/Rt5LEXpS66Rh7FDPyjK7A9oR8b8lDRNa1++ku+ooDy
+67hRCODkg2vhBjBsBmCsYZeCE1ifCq0QTxnySYbmXWbWL4qnZpa9HXxzJZEIpFCvpHs6UbcvMCbXeWzKL2S+0k3BTBAb01x76EtjEnuXC2W6KkWYXFsGdNae
+YQkDcGc0s/96JGhgKOuLw8r0bw2u1pIbnSgJtW4vR3vi4M3F5hLNac5vZcKiAFeoT5siaAlKyyJvaTgSsSg5Sy8Rc1GV9y0hyQbmd/WHCRk42k3/GUMc3L99
+8V+OiON/ztGja7FBjuo+Bk6ZclEsIx/HutoX3q/FAufMPMBpVTEQGUW9u0oO4Bb33/WiTqINcqv47iznTbcogZsC3uKu0ExkZdtQi1M1ozhzWQxUaf6RLN9t
+tEr1aW1Fpu3pzBZ2EQZTkg45NYW/IbZPcuek39/MJb44KhHFS+5bl60UEfeRksFPkllcGS6b+EALGHZbz5CzgVxklAFlH9EqiiWEezuw4kUI0fz0YrVgV9Yr
+BSPm7iysB+bCwWztZ7K5ekgB+VuWLmT/tWG23oVRk0tY1TY82IgbPIkbCyBF7e9n9nWsI3kEI+56LXYzATFXveG8bMZLx9VOZta1JC17exT2dm6SjXqW3cds
+v87fbAJdvuIOu7m5MKsBYm75+zO96bxVHCGlsqf3I5Zz6MbHdz299aMW5PoQT+MmS+2A6cIh7oT9bFxMbE7SOzyWnpHESEm/MTEL0OhoupgLTxc2VgHbNZmS
+PPII0/vpYpYwtaAl4FgTTPFkGNgfvuDpmq+HgWuDbRtpzKEB1O0gE4PgFCfZQUzXmFHLpssVb6DP9PvL/+rEqfX7n+ot1RXVLgUeLSOgYzoyXcMzvssApnuc
+OrRJV7Dcg5q0c5oItRhrW3Bn1IdEyyWLfrQSvdyYiKURD2DJFaCYfMKDxg/ec27oB+AE42dyr29Ctjat7+MkjY9wcvkxZXjAKRV8J/QZdKkBy9/9z5RezgOY
+bU+qmsXAI2GCCin+A/FwwGMc8sRHHnbnnvtemY13Oj9kcRrIzMP6gguoezprh84ElZpW9BfoXmBUxZpmoYH5yzWHdhikNK91//xozM3/NwPEBo5uFk1Y2lAv
+K+ulAGqHLgIP+tgpgiSx9k0ZMDxvvNweS8wMZGMeSOWUyXh/lHoZFks/b9zDOAQB0VbSuCaR1ISXhxIT5z4s/+POYoHDf5UyWZUjmdxTUWBCh4jHwBBswlOE
+A/WkuUzeW8MZMGPDTkYk8UBHbkM0F0B1bzBfY394bq9Kyc5/WKybYf9Qjsq+g67pZf4uucOSDOzYkAKR/npxrI5ImcVN03uNyuJdxDEEuOw1T3/RM2eEvkl/
+E5Gik/uDVhlJJSbTpGeHxQNcNF54EkFK2wyeoR448evE847ZqMaz3tU+g+G5E1em2bb/J6aHFjI/2CQHVO0MckfoeHhMV/7YqDihhPit4o6bNGcYQTQQAD2p
+nUPZ2IgiJ4UuLNl1ZAVh0gz6Bkf3lqaxSSMhxX+nl2oakqbw+XjLLVsApmJ4U5MI1XMHXcFA4rE9D3t4sx2q/uWhvRGikaPfvdd83hmVcduPezGITivAvMuk
+ThmnTH/VgJWyf8e4+YMveLz5SY2/7BdSFzRQYPct4bdAyBhKwR5334EaMSVPHXxUeleqOhpyq+Pa5eJ/0mG2GH+6kA7orF2/TKbEyO7bu0Q9JtG2Rb63xLq8
+SqtZfgkpZIexMSmZ3u2cfszGEMsRetqx2xWxQ6ppcWAaO59SdydptUsas7OpoqkXKdlVNpInfFLwj5fdTn3RJatmk3oIU32uJOPpWU9jBYklf7sZo9VZOx2F
+GGoeN9TDmgevM1N0EwJxHg9i0AfGQ/+4fcKUQmKeBroFVwI2sz8J/80s3RebUO4hZXYHGNZHB8H2plqtCO45+WzZ/HNsw3uyt8o88UzuVXdz/TdT0EkyJcWi
+aKqrn2Zlr5Mt/5iC0RnUpT2e1k8By9vUl1DRNyC1nOrTAbnynfQQSooDqkkLOzofHG+T+s5R5zK1/ufMlcXeVM2MXfup/l2eOzrm6fkCOM68wbg19xZB58eV
+Hn2CD1ks3YkDfsN4q/C1gVnZ0aKa+Rac+931jQLqLWOqN/akJjWVKODNHrvedHI5YTdDqrnCVH+tzXg+oXODccJHciQXLbgOtslhslkM9KIVn0B3St2vF46j
+Zdlu/vlIRl14snFr1Rl9hyIwENVeBzr6jnyqLic0VaeX5IfvxEip53L7y+cqv/6HsJrYDDCY6hKD1PWHpLWxlBxOhVET16GkCPNc450eVItV/HckU3N+Fj+z
+cunwHyQ5bZ0lvc2B7Z85+VBqfzTsWWgg8D5No4l8IDdmwTOsPXzRuVpA84014Tq0CPRRTA/Oi5vSQwsjl5/5+ZQUUGAzmrOXqDkbKxY+T8xSp4y85qEHyf06
+nx7G8AfsV1540Z1h4M4XUHApx38JFjIpufIXX2XZb4xXutiY2A3QO9CkeU2kUdGJViqODQJiWkYa65Pd/24oxgeMxTIsHz+3QITGrDy/XGK1xCf+7182saJW
+B3ay0VP6zMGq/zjsjUqLBDwhm7mVREE7a1b06UR2arIkMBUfYC48k+yZy60ZAknvaQyHd1BrbBnczPX6bytchqykJnGBZGRGGNtk4G2PL0FW8xMurlxwv6lw
+3E2gG2LC3A7KF+76ckLRPF/uXPNwZ1ctQ7Y06Y3z/JIEvnLinqJrKsu37BrplheX0S+7TNec88PsMUqOaTyTbnaBxSsU58Unbz8XV3PKvTXxtAcJHHmu6KB8
+fbeV629jjtFGU430X4u+FR3gQfJt/WL5LsEZHvi7V+Ym+Mz0fjr1D1CAA7qOKtXN3ClWs1mcAVUOcDz90ob8VPGGOJXo1Fp/0KOaJVpfKDOTZh79w7LhPpo7
+94jCsuq6/Wq4DonYyCTpAWZlpWuq+MFG76KHtAB+BypkfLyZkQbcl5/HizAKMcagWRoQZXrEiuUeXcrP49K91Qhxy+hhMMzocIPUWfF7rDsMqvy4soIDNXNE
+DSLW+GDK4yX8/2DCwcajy/sgdzbDQHVokwDmjvtgYro+WFI+CDjPKSqsB2DcAj7+RvPYvWQ8roBt9z6xJNJe8HE5Xwa8Brky6cJzLhlJHOIzfBUOHwYnJS2c
+PT30RhyE3TTQMk746HhcD055TOb74L9/JONHx8WP635y0h0NaMAiBaDTmIxSKasJiJGLnH+zRtJvYYzrMUhnZde704/HNXys1GhkXtB/mmwgKBXsnWOYXwUS
+b4NixwNXmlzLhytShcenYMP/84iKT3Un2LK+uGIn/u5jf+sIA0TUBEaiYip4+Iu5mKC1wAM3pZ57zfH1JSGLK1si+EjIW+oDH9hNOTWei/TInNd/Bq9wXWEE
+wdL6B+HHSEQmSBXciwpkkfDYc7EA3jy7z8HzgSsUTq+aDnAB860uDbX8MTXSNEyCdiS4UsrdrEfzjvXAHVa1HovBCgIPvunA7ZfHYfwRmEwvlF4HyQ0FitS0
+cIL8NRNqaJ8n8p20TeHH2uRlUSuLsasgJBZ01WP40UhCT51J7jb+9VkIlPRYCWhNGn+pVMIvgwGCU4ang/YVoO+5vKJkGLRHrO8vTj7PI3M+6fUfSrceaFuS
+4xmd5QNF1phc0XnwA5H7AwXWKdHnxXgQBbtHymwWyZjw3X+Ue6sDQVwA+6Nmcsf8+UFYPDWYYXcyI/RDXorLN1LaAFtfyo5wMmIHt+62uHU3m53vM9JtX7vj
+lNJzP9a9FQ2dIQuyU4xoS3THEPvNNdaiZvPdQcA3W53atZtVnV9KSpgCvm9nfViM5dTbp2eyIflYvZRO8mMlLXn6ku0mZm1P74gyRwtlFj96y8wG5WOdj5gD
+1l/p+u2Wjd8H4BwP9ILpvGf1TuuNpzI0yIMNAqswpVOB/97K9GgeBonBR2eEfZ5pfGGqCwXvzMol/wPfI5Gij8LTj0ap5azW4a33jNj7WH9j2swpv2gxBEx5
+lENZmnr+0dzSPcJDBzDAkn2+XlBzzdO4s6RHekUNuNkkqzuGj7X/5OvQqCifrS9/pPHXTVnnnW+lG8tk4bu6t5fR8UZjlniS7iNpc9scjPgXlHBRHvZYxvRP
+A2G78KGdkCfgR9MDnpZzhpgZfTDLgLxOFixIJ84cz4J5QR3zQlZCAD63HnQTOIuPQk3X0V4TPgkfk2NSpJEQoOyRws0Apmng3bTqNz+ITc2OIp3/WLApHZk+
+0nF6wNzsdZAIPr1wjGUsgYwxzX4oWKigFeAJdVPnUeKVBBfqxf+PqfPAcpZnuu1UPDURDLQJ/gn2a4/+1t4lP99dq1vngEEIoawK9TPMeullrYUvyVGuRkkf
+fWIVXoMz8wx0geBI5kV9jKCfELvB6lkQJMjUlvpeOqEYILy/bdRffzpSfUxV+PMxfUoTw5DpNW2MA6Y0ZQL+k6Vj9Yj6MzmQfCC523CpHWlay0EFJe0xQNsx
+5eikQ1Vv8iAVWoMy3AugymMN5kjYEzi5nkfF7Qlo1DlQA0oPBKfIoMlawlRCagRKyD0U1xVyvIdE7Yj+B4xFgUf97FO13c4aW9VKf2hfU8iDhnWXx4THEdIU
+Nc8f5nbHsl2QhqDsObxDMy5CV6EAawlSrOZXn1lqQ4YPPENfNW4aadvH+B7j9iK4sM/J+qWcMJpOBl8bWhrBeDXEpR64FEMcBfLc2KT1AtbeHmw8TP/lVTNr
++ollhODLZNtcRnn0H4aL/X8kByeQcUHMBjJP+vSyHmgrwOBDu67Q+GfEB+S3xjOgwCgLIaciOIDJHzZ/QPwafPhEkl+LXEy6sCACIvhBj9HvLVvXD2szd2/u
++CPWZwrWVVuCuK2sUOYknZ/P8ZFKUWjGDv7CFl80/ZnmZZkrcsmiM6dHirNSiCgjSjAQTnnQZ8mgiLGdgrvliY2cR2rfBRQzMV11Bypb9ejTD/mDsqAY6KN3
+QN33mTvpJefBihDTHa2dRpgjMwWpI8xfVkpMjOx4ZpnJkityscREyJBo0NIntL/Hlh15Xz47O+OBvBEuW+IT1eeVF5onXHQ9x8sNqAeLOISMysoV5b1UjxVB
+UvHggTwZkSioGHA0l/ORctr9Fvx/Tx63x6KqYFDjPs6sJEHyYakKBpYc8xacRHPD4WSg5Ciq7DHG82EaWXngBkfThTCHJ0yEDo+ZfygoJtCgs+8Swy4fuP88
+MmCq75OnULMAumnxNZ7opBmptgBB+icdGUU41dd32/aBpdWHv3JuQzrnwQJDVjQYIdolD10ud2Amdc3tGOaDTpIhxKica27vRhipK54tuNqiV+DeJbN6QRRC
+iBLf5+0YrujEulwCtcjICPisc8ymP6Ipj95VOF99JxrXrLumpAtdsQZQgOxeCjsnQmo3B7t7nJvgjxJTwT9ecTKPp3XjV13gBRTvVb7jgVyHR8V0sPaGB1q+
+YtrgCjx+g7eSARd2tB4YXiVEBNhD3rKVogOYn6JNIcxHTA+sGLhEfpRCuspFxfq74ishzcKKEljoL/6uqIZ/zOKjvP2xrBs9uruWccBC3B8iFWz3Odr8u+ZP
+T8jCcgADlQCq2Z9S0n/qDP9dPfrqf0x6IyzYp58gyKv8bd8jooypDBoBf5tLFIJHFHygeBJ3F2B//yRE6Iv+sRT+R7dytIXf2H78Y9fqD5m7TC2siZFTB8Ve
+89+GmPkf9iPG7SNhl+nPRjheZYrO7wBIGeIf5hG71X+9rir++tfJO6lh8ddjRwW4IQ8UTcsfJsBuCCOoDBFEuYg/x8GH6Ij3D+tbmz/kYsifeubfQKeAf33M
+zwh7njwSNE0EzAb5VevM/SnrDVt9duZvTXmemBL4K++YSDkK/HNZntL3x0o3jpiCkNXRWkU315in0VIRkJTAOL00Obf4Y0V5B3CyLCAFGmR10+dP2bG/bJn+
+aG1iYiFGSBbw4/oT1P3TLOIA7nqP+vt5dYAgOfnHC7JO/JcCd2BOuf5oQMi5eOXvtWbiNCf7hyFr713ebJsEIr32V5xrBw4bb4VUyF+p2ipBVgFlAYDdcPCR
+Jn5kcxGp1n9afIgQ4Q8S0SB7YAY07MkHFEpjKc/b9GFrar9N759+G0z5oYndDHbHDzY/p5eeLAC0fm7RBKPeGdW8jmOnQyvNUT8qC8Scw4SmfRPA6mOEUQcm
+SeRthB0DxOloKL7TEY3Omx9Ly+0lgPh21nKm9Mrwgaz9Biz0pBMuNLmoz+3zaUMuY1I+ZdqiYZ3wR9Ig6xvdbxxMaMMx1eJI1/QTpiKQM2Cvclq1jhQxovPD
+OUZfAeV+Pa4bpuqYNpPqZdiZFsVgNf42kYxgGhtHEUkE0caTkLTkjP7YDTGpCc56821iqWYamXdP43KbhnfcNURfHc3WbbqT/aSFKUn0LgNBtAV4BmYJVVcG
+t6nRLxN2GG6TIwVsMTjzw2pfnMQagJlT0AqPsjIVrKqSzCDPH2myYk/ptKncxg/SQ+NnScU8yErYE+b+xYj15/H6xD+rCiM7Vo64YjRDrzmqgN6DeroIfKQU
+XzBkDcAYHf6BRrWzZQ4MXh4FdnSjIcJZSZ3xetLRjddG9Cze5iEisw5pg679p57MAV6M9p8jq0wSBrVBei3OQtYp+rAk4Fxtm4xX1Q/EWON5Cq0X5K8TIvyB
+w26y7syd82npmnG8+i/Jz5E9RNO/gStFLZBCMiLplb93Q0/bOeIBibxgOl66Uzb3QsHG1Xg1+qk0TRjLGXV/dHFr0/g79o9HV3DHqxj7cRHgtPs27uVJZR+3
+rwb7o5/xku2t5uVIQ/cAUFiKCdKGj71RMzUAAgaT11+rzh9h9xuTPjJi0/zmiHOiBehzFQgDfD4zvqKar6NGwPLBuY3vuWdNA1p9biaPW7qWTJLCxG6Voe0+
+IljE5bsedkCrAIRLv8lMON5dSOs+uQooG3x8lpvt+cxHO+85jf0Z7UTMBc8jb6WyDMWZeBwwrgSHUcsQuDmgQo4ujoy6G8qIay6vaahEssdEBraQs2tuSSAb
+45dnm1sbCnge2fYn+MtpNg8ImXyP2+JKNqrRv/zA0tOoVea7iNQL1odOr0MBtsnswNXf6BKd7tSl6J9Bft8l1QXXfN+qMBjE27MIzH5rtKITCLvXNpB2ZNC4
+hstz+y0wq+s2TmkQPRgiYzx2jAFpgCMjMEsf/pmjSG/3c1KahQXH+DjnWXnMMKkblKnOZioYiwrjhrsYFjKpClu38fRurZZ5x62t5Qwxy2bPL9aaD+qegcWP
+1WTBbGq4GvopmnyBkqJS4/qJ8d0463xznPWLB0R/PyJMw7XRHW4xlRk1KZR3sa7DSAhCwIA+SV9JiUKmJV9EheO5LNlQ0dhHj4BOP2Ak6HPYj3/6esn/7P+M
+07LUlWX9zA4FjP/ark6ptw969axfruEfdz8Xmg18kPI7peHmsX5afQldXZJGDZp/tPOybD+nWddBYr3xbn8YpMNtoUjYZHM8PXz7Yfy95KAIGNiv1Q0GlgsV
+VBxVMp1b4+u7+gT8WrJ83qeJw3FKYegxekxb0/7T4eph7N/U+/5ly95f1b3ZiNeemoP95QJMIG1bTyMPePOZBtYRq+XboKDMHYc7vGMd10UmYn8nwNnVWH1Y
+jb+mh1UcLHOkYY/M2ny3H8fp0iGpgAYRRIuhSBjqUTRJ6f5RYMEciuQ3rg3+QHJQHzIc9KsKqyPLM0VIP6Fjr7MWMk5BQ+sv4c5ufIorjImma12rlTj9Cwt/
++cMwGxrnes9eoq+rhJBJ6Nj6HOss5MiLu75egxWHrRIkMW86hyKsn2mxRPXIG56kiv3qgPnd8zDM2GdMs+uegSnLEcRXm5doOLOtgWcS59/d85I5PQ9ZT1Sd
+5tVmfE9k+qMaHwmEHSmsA4dAa1JUf1Sy78kZ8eC03rrSI9TppeuUT7D/ObPoTcuc61vQassw6MM8mrocdQTZM5VTNxn+W2/2AHGB0UdZOKcG6+ljT9cREFVs
+ozBm5lhfe+zmED78it1pYe6ikHtNZ3bW/fJRUdNRS8d53NDYcQXaiXuWeFTymAEEG1ZLSLkndHMFGwDJIlb5L2jEX74fAlozDI2O5bNyHXYo6BHKh7ws/zE0
+Km8Ka2GkU0slwlsjRpJXYNoJdZgwlus/zSkHsSMr16EFmSDPXKxFLGIUImt+48+CT8hmUuYO/9U20Oo/sAK8T8CoycMR6S8bHkgvYoIG7xMmJ7djRjUyBzFN
+BYypgZnXPPKELRTqlSyQBokqxd57MtfYgqKSGUAhLVhBHfwYQR2sBdbir3LkR5zrFQjSJavfEu1ET+z5CjuaGrzU/hzNflw2CzXK2qMVLdGOmA8jzF4AeduM
+NHouSmKQOlwquZgsGtrsIQe21/i6/DUP2mI0TanxlWfx6Y58y//F//olp2IasvRixrLiR2Gs837W8/kOLIr41uta81VC3Sjr4gPWh+skQZyCsUzz219yySZP
+NZd5tHZfVsggTq6Q1HIcAvHKzjytg7Tyv4dhVi9wObwdMVXuWpaaR6xA5nssvylYWebfj9OcBXixDSgLQ+Wy2GexXIn9wyRA55WObRTmshxoJBmocSPLE+HJ
+gkG+anWgDOGZdVBQ5tXMYT2fMEc3mGvOpcRR1TrjYiWzmkIZcWFImKPgQot1jKelai7u/kAsxvYprm9iEijr60SbW6Y7EeZG8aj+mFCbHVnansQ7KZHQBrvt
+N5b/sV5VlRHxLrOp9/X6PYuX1kFApyX4TG4AjfKPqRc24lKIrlG3U1k1upLzHeffvk1M8Qz7PV9Zk6rsGmVngUzFQdOTZayZPDc15JL+L/fNXxEroDlnXXVE
+vCvN0AaNqjl89CDFMubwjjJhiOG34UJcPMJc/cKQSwTnlzQGRlugDuOQ1uZA7S8OeDh2ajT883GMQ7uJueiAD9w3gOzMgBiXIYPr4drfeduOhk3Ajv4Jxh54
+yu66/HBhzWT4N8cP9jERGF2JSVGQeO2+kHy2GoHo3JhBBStvb8FvKxkSrPgyOdoNjFkhoO3DQAeZtIbDlbbuAhfXDIcrtRJiwCRlGSpJFFjInfXsIAOlCPR0
+3xAqmRlYOIqZCRLlw8Xgba0EEwYyhlkDdpbGi4Rm/vSdpX24OgTDjvwKSvgMTv0H/BkXIYJykC1qglPhoGtCPi5VawMHrUFhW3iMp+zfnmYFbFimGfC7vb2j
+DxzSufawX18CluTFnpB9V4D6JRpmKYj+hK4cbBzZwXiRHYt7/uCIJjA3biWYPu6gjVc0puViMQPgFePV7nfee98+JGXLcsRuNRYQ9bHy2PvLpG3/P8XcSUcS
+YzpPuCq1Bsk+D6agA2TKm34vg3RfhFgtA8dcLIXlO8WomeWrQU+3QKNQyqBvWiKYXnwHHMeyZBxEzyyDW84RshM6YGecN5jYNi/J5rwqtVclPi9G1mPMDZJQ
+/6V5Itp24JfrE+SG+RSCmpfRlumMCNaSMPRTPiJLxeBajx/5c8/jUYIkxNwQZHiXjGS48nhg0AAxlb0pijnDu5+GZArVmNyepnAe+qTDllh9EAxuHEZYr/0n
+xogQ85rn8q1794iGbAZwJUk6Sy1q+JMEMH4p6ph0wFMj4ZrWQFRh2IQqUQ39FQpW92tsqT4PsUogbp3nu0xSdNL+vOjzB9Lkc1MMbkBAz6Jf/CLF2SdkdPk/
+iC7sQD9/YR3xkyRGxpNFqNyLmV9Ulhj23EEG1UwdsAj/zo+ICm59sIsYoEtqQUrkwPb1xTasdkXIo6M6fQjlr9z4CjJxSKu0XXOXNwWZehALAYPuhQYdAmy5
+lMdBl6NVKBGcaftj2I6XW6VBTgvnlj3Fls1bQJbdTfO8gzqVAwt9GGAYlKzDFoIMyYMgUx5jr2RQdh3IHNp0yxEQLXiA+9jMahafRRkg/zbk/n2T6GQuAPMt
+5h5GGUms32LTbKToQ9A7TGiEyfdijEdoNrr3OOSCmUDYt4QdE4FnL80vA5mQk4c5gJewZjVovT7j7376OcnzkzC7jLDJ0yU3gIZtajfUY3hstCNWTdbGmBQO
+CJvhKEVGZdn6zPp/lrmGrWt0mjts7guINJwKeQ3IumnUdXCPPeZvQ+QS9m3j1JICb5GH8yeemkrNdBbzhmT5B1L1yYaqiDuobZtIMNR6X/VNIz0xXnnS/0Tu
+Zts/Y+LNX7RFNsz/ruybLZ+ejcVcvmvFHvNCDygmawGyJUoCHQ8i/P++/kxFE/TYi5qQboYHNsPi2JI34UNwjqttpidXZALUMxwml6+GKcrJ5Bq5ffG02TWj
+vUlkW4y07RqmDX0DkEDhdAwfJGxpt2NIe1a4CKbKx2iXa+cvlWjSO9pQV/MCNzZsAn31yfoysXLBZ57SB6JoUkHjmg2nVOoINl55o8VnipKGkbczo2x3E6OJ
+8sG+ahT7XogAAcxh6vMtHOdMjKfIqxy+RBWxsE4Y7Tk2iUuHQdJrKmzFunVevuK1wJ1xDtSA8fyMcUrcjQ9pbWb6sdnPU8jA2zCy7IHlQhLUR81HEmVIf29L
+pSh+QE5WCMUchbLS7sLN0DtVDHA6Fg/q9y8BWvABr95SiCsvC0yQ8fKG3RE4MCe4JsJE+Pw3dxxyAVAR7wElsg+wZMi+5ZCihgOSJ5mwPd1LBWF6MPTbPkRp
+uWB8vB7HQHnlqocyUB8eiFSYFJbsKEtBPIu7r8KLLQvGFQO5KotSX3fHKslT9lH9zCZrwB1lyoFsOPPnLqGxJumn27ofjQ1VDf8UQ29O1Lk9JIJCy9hb3VTJ
+K2AdpZcvC+0DskQYMhnK2zY1yGs6DQdfUY08gGhR9xRT6CrwsetGI1g0uhPYTXnc5X3o+AzltI65mDO4gqUtNrSJjk9CxseGFonJtd6hZJkomQ9AtZKaPIeu
+ZT/+uGffN6x7y/B7t61JS0VCp5Gg5r2D5HAOA05eNWei8dIIYFFZ77n5jnu+PNaUAhgMRd7mZC/IC8egsKP/IZetFK2f0MOAcpthRoW1aVH92UHlM0JnITEO
+0ocOBEVgkLYhgLUbx2BlfvmU+cUCbeB1oJ8IeT6JY9ZEIRqll+Kx6pZ22+5vc10PhPZ+mxmV1K+ENbp6A5anIA8Tj3a9YGPKAgTNnU+fWsJmOrxAx+JgWkaD
+rWfFvKA+4S8HeuVPbfahTGpuBs4ZRkmkwXahASjxHQM96HrElr8yUuee71Ai6+htEY1l6y+IXiQHhnQe+mP2TXqFWr2rSeu9t/uHz3r/sFh7zz2Lu0bcN3Cc
+lgmM//0sD6CZLy5h37GIuYEUdGGKfo8JNAHl747eU4R/6eQC8mAr8X4xnd04M/g8t/LuV7ZvMY2GNrU03mOGqU9AyFQRHaH7fp1TXhEJZfR5zylkwGTIYArs
+RzYk7jEj7AixbnTHr1t81UQTvqcmBNjXNjZ47sIFQTnyjrHFGHvdWdH8Cql5lyzJ8Uv35MpH4F8h/KWC3SbNwsqZb0V/jiIZrfUdkagI9nqwksT+YXz0Aia5
+n2oG9JMNKsQdcEg0jPimgXZmQ0+bjlAw1B/6rnqjklMCIXWDAGXGmKBNJp1fNZB93x00UYekXkhb6+NjHrXWiRsryWjfVyLsma8suLasBs7eQzcOqGoPad36
+g67f/I4o365Tkvzh/AjHxLQU9swkYfzuR9wMkFUzG3IqAGTQcoJKnOMv8pZZbp6lZgdoMfSOnjDhgL5uIGuxYJuJz2K5/TdiwybIG1EogIIQUPj17TUXVW2r
+nhWCVN8w9zRgEzBY87acdt83t+0Dchh61100cByGbi5ATCYaR9y0P7GHEbgiNSYaS/QCFPCYDk11oANnwRNt4+CPaxEycSwanKAOGyA9Gqjgn+d7F5+DtHkf
+62dCZi2MMGvOlqPc6Oov4sC+91aRFbNgA/phhz92v2evXXkDPseXwt5XgG3E7vzvvnXdnklmF+k+R7OyAPF5gMJg+47lnpsmyRmCQfx1I2cQ/rRllMXobIJR
+9MzXOZuXecoZ6x3L9BMKL/dq2wF0O+2u+4hhhNDFJRKqUQhWQzn3nH14rh1NSkkvUEHcSLxrMeiuQrNHq8sld3StS173IJtnl6bvqC7bjQbrrvwdMxoBkaXT
+mxyMaY+rEfNz9GC0zT7lSL7TBk3ngb206H7vqV9yRwuS3J10byTkWpK0z1P2zkkC9udEiInrwG3XGYik5apVZcLAh5Y5yGMbS6vuP0WgOxJ81yn6YmkrE+84
+LHcFUvdjHsO+G+TJJ5m8MlPjQ7mDrAGGHiHh+zTkW/dnT65Y1KY+X9bJxz1aqmaLYebdVfK7dhADyjxuwu3ef0aCfs9B+b1nDk5oXctajUMhapYP6JElRDU8
+hqFYE2b4CFpXWOjdEljjulc1hESBgZpGiM/8ufxuKBio+vG1/kqAOsGdGUGmJQWddiNlD/Cu2O3dlQLClavX7HD0tssnSKMC9yrje//J+OrBufxO3dzFJkfd
+KAdO+/1o4Zkg3KtoF9h/SUAaWdpkGbaTmQgpiXYp/U/B//4zWnKv88nAVZfiQbCbfccpb72glp+YLnD+N8jAV6/HNUP6+iqI3kc4zh+h38EY1vi5OrO/6795
+hCggEDlIwepb8zsN+IA+3wE/YmZBGRbf7s5G4nOXT3uxcHgvbzOvvG1Qykv5z0Da53T9E8BdgRfrWgABiy+YnmaQe2ebmCswUU2IweO7T5ccvyGIvj/vMWUe
+CIkHYWdPPYx2x2sCyEfAbN+yiSMKSzIHrrktcddlrFBwZCHRzlmwo16nd6c7WhFegd3FGecq9zJ/ffMZY8TAb4XqjglElmHuWMC0R4JEqBoC0JHkVNkJ7BLH
+3UvHn2tNKAMrZhDB3TS4Iyd0VwLsjghGLtpKXcqX4dTxXlrbml5Hqf2t/zCuiGqeYsPpf7z/L9448q1//UV+YajtmL7bfkM5MWqpcPhLVLfcvoRGIewkjr21
+i8TFJe8pTnFB1Ix79HqqQCgTKV0CuLZwS70v4ozhXToGj2IC6RcBUQfS+7ilEhit0OJ+II1ttFJpDcl7UHHBiRt2kf67aQqpjVQcrKVgnPSGvuM+4YhWirUB
+5JT2PO5XLMXI/vIXHScHcWlbICwfQxpkPZgft+rIvD/GvOSOQgm/tkrQYWppZeDEUgnSzVFp1FGLZszqj/kuBxRRix+cxlAWMTl4jaxFfrzfO2/BYV0CjUp8
+6S86MoExenM5s8elbRePX4/vLRc5ejwF3sj3uJKJX78OurQJZFbGknVV3pc6ylFMPt6KZvIQFECqvhRSDCnmD5AbVp1IzXKMb2Xhgj4LwgXpjbrPOXKP6L/J
+Xup4B1VWjJX2C7Eszb/TXjWzQdPrXjVq3F61MdNcG9a9+Tr4V9XsU7BqjqSfbQ0D2Froc1e+n3NZtteSK34NMmXzvG/dLSuKTft4ffzseeDzNA2Hq440W62b
+gWYb8qq+IXVzjLfxgNi7RQo+iDzmSSMQw1KAjSqdGJtKmkbCzjjHwkf7J0XV8wx2+2MO4ptv3ktS0W9FxqLHtEV0IenkDjYttTrRj4+q7FaKaTdpnQbCNWrY
+Tz8zbXQ6uH9CQmqpXxEF6ywXabzNWNqx7ntDK2HOx/q5a0E4tnCjiRvHPEN1GbnGFcJ+eF/bGKPnXtdE6XoejcUjS9fQ5551f8coEwt6PTm6xA1d8C7dRuSk
+78bkEwu9kAg0/M8dypivYDPTXLWPzAbdSq9WuPQwjZymywK9YgUJmeHBFNYKxmL1rS+f6HRQnoyMij6LAXJfjrSl3qfP94q+GBsNM5fueYHj5J7W22wpNpAl
+ilD3ff9zdNV9rx0z96DDv+47sdndVfsWgf0/9RUOHhFX90kpyu4TTV33Qh8rYr34eN11VgGm7lK19ghi/nYIWHTXrq+gDrfnfp5gz+h2sQXMCwauU7TBIE+6
+fr7LZIZDATpDXDW+IRz938UOYJAnZuk+ErveIP1hyPpeYPFtro2T0fdOnFyfo+BoObBqUsBoNT8yk1SNHnZX1bSGtQxYAsu4EcuCzdSeeBQhAlFJDcB5YYDh
+7L2PvIB39g2HnNwGMbF39zMD0dbKvOt19c3QpnJnlJ0rQMDqPn93xffidPeJG0GaErIdzioY0riMJ0BfEK9F+aV5lnnZ9vmGTVo6CpJfrakhkTUOY7s9Larh
+sonKDTY0fB1++ToM2kUQhcuDPcWMg1XTDCh1xWixqwtJgTHDZpGpswjMIk7baaNI/D6lDUII4+sg/cWktdur1QnmtxlX//coAAYkOza3AY3DBTzQPJFsno42
+HhhydwD2w8FPBSFsbOW77ZMy2932nxLb2DH7GLqs1rGUEU1H4MOr3jHs7twD7raoM35rvMIbN5XATIQom6/daMJuBdS06qo93Q5lvE7Xwmn3Fk7+VrfqLODm
+FWsuhXTpQZ0YmAgRehNz/m57bmxHBaJO1m1bFnv2dEm39toCuILJtc0xtMx53Tp/KMUb81NgmvMG1wHEksd8TIyiOCTBIbuWZyBjPZFH0UEakY3WtqQkdZAp
+Rm/5bTCYUkssFLXmunPFjdHJe4wZ7XoNlKerhdbhG10BoG6r71CdZAfBnx8G3zzoW2NKFyCdGRkD6AgR6zamfs637H8Diw6DfBFMOD+CsF50w7L5tQh9fl37
+hfyYDcp4v9dp9s/6Y2mkC6YhUMi05hlnmIHNJyHee74GCvJ0asoukFE3kM0WuxUd/vB2zh6qEElsU3Voh2m37rfmAmEXMbDMLyJkRztCfsK605f48KVoxNVm
+M6Q/nVqv3PPE7yxFl1Wu6O4CF7afYsbjJKhDe3AVY7i07RLt+nV6CiWklcfA7qrl2m7KgkZOmPeY2J19BHaMhXw1CsxHxCY1X4QpIvt6O+Jpkn9Y1mTKcnXT
+HJnItSrvCZkn2k4AlAmG1WfPA4EzhU6Fi44h2YWsK5RtQ5/FSvk3CWqfhylTGN4ma+rT+BiEQHnwQEcmncZ1GSdBG4v01DGE7aasT4dsmfL9ugzzu7RbZLC4
+PxMzV5Tg8kJcXuyQxvxtMDMJTjHOBrG0c+tqThXfy4Vpn6oBwmhKLnOjEPW4X69I9NhT8ZEVjuvYFo65Rtd/qLMR3tyhoWT0KsgFMNlm7cBmon9tp+Eh8CyN
+faOSAmWuA6wVKrrjHqS4wgRR3KzLqeMkIaSK9CwQ0GFJAAyfbRKbm/6sW/rBYooipK0VmTNUmUuSHcZF8uISI9tb58JWEfu7+dYf+5UDnP84QImOsQ7THzMn
+Zw6di2ARasGh610tAPR02mk73Cdj7Xo7knTeof3JZPMrVWuj5PCweHDma7Qpk2fRCTNbszlCRNcjRDHE3AWEZaXvtQKB1Iy5x0h8Sqzx/O+KkuOOHt3IACbK
+Fs3+6dJcIDPfgMnUYk44Sf/JXgIzwXvm79bGW/Ej+xucWN+oUQT67uvmzgIEwT/QvHRNrkM9hhStWeP6HGzUUT0eJqYnECMJ4WzRJJQZWsjwGs29CwtEHeaF
+KbmwLVccZZOZsVgOl5rXiIoLD0NTskxosn88Q4vpKEQLKl2fPVifZrxBawTOjBJsMfu5pme+bIJ6PA+Y7fN53T3hileHG8PJ80d55R0IdIIxNO6KZXZ+urUB
+22qdmXViJBY/LAbtgaXPYjbP7wS6Nia4x5HHk6Jok7zHoqcM6wGVPXuET6S4123lw9aJ/SN/64eSj2G0IWkzNJImy75mo4ZKjxEX3tKnvlWTbntl1sK0hgpi
+eggcGF6C9XmotltjHlFb+MCPLQeW0Qx/vuYNNimeNA1/KlJU4oedasmdanRpRGT9x4KM5NdYBTxgBBjsBgtSKaDVEMnaTixHHrNwB/mV92GdiE7jt9bT4d++
+ojwbAuQ9gJJ55aZeoqm/p1hgJaIV8z5x173UAWvPIpGNNVaKuj7Vx3xqh3ZQVzuoIC1a56S41dRhYuurqbIXEB2dONmOVBecEALXaiBlf7mTIF2y6rdaFAHN
+8mavqW6wXHD7p38FKZ7PFrDJqkfRie4uk6fn7kQ/fV5R+pMfXWHqtFlEuF+W0OLGg+T3CWFCazVWmDXggdPwTmH0CAk+JdKnplTAC32wAFRVgTWhq+ug8jr8
+ZYHbkGqFvA21oFxZ1lj1JpwVzep0emP/WJAVsG8pl34bYzCArR0Kfjk2TMMEPsoM4LtWIC6Ht2wvp8V4aYS7Boo6LRYlZuzqL4k5WUXehghqiFg4SztBFwfI
+fMme/Zeu/OtgfqMwkLBzHTdIScuz0VJ9mE0W5fQERKa7HGOlwZDPj/TJkJHokDHOX+popbig32mZqKPa+COti1aKO7xiRbi4UdoVTcgHLJ6kcylznTQV/H6Y
+57OmM7pS/cNCqBDA4O99lbqEOoOMGShBZtzD/P4zQX8OEgpjOp41ojfXFcTKb11GZqErbggHUigLJqCQ1NTMQXQsxzfCmHbXmUX7Te2zyp9VErP97BjACej7
+CNFMiMrYvqdHDGTbd6kTo/Y61aRoL4X0Whd5rKDtdThd0JnclyvQOuGOnaxuMa9uuJREL4mv016rvyzbrPBTMOZQuS3RXnPMRm969aRstDr1IaQBba/up6vY
+Xi0+WYA7muUt+hsCRam90rVUe1wjVyH8wseB+B7sK1aVxdb1i/jekNnjaOjaffuWEzhcnofg3a1lXn2gp5Y0Pk3gil67xMhjqsP6UBDLY+Cd7qndf25aWnQX
+2O2F0E4j9Ol8SOIFqjuDpV6YUU3Y3Q/EtwyG/Ngb5Muhe6AaSrDn0xPrm1kqjPLRIqeyCoOp7PuHVspatgEIG+4qHyXfg7w+hrbBQa7jnbnk1pmXHmQCEm+E
+vSGyJ75GWTPDMyOqVR9IVIObbld/0U3D8jH3yv00Yano1W6pLxoYVaRFXgTQTE+LDInFYKOACtNKOpEd2dM2uv1PXrMz5I4mFxrv7w2WRaYtXjEjOuuJzqfl
+jX4Ke0judQ1GIGQlrcV8FU89Ro/2muL9xcn9+hNiesQuo1SjT5L8zVqiNH4Wa6glFNKVPDMUgS1YZnE0HK2S7hGiXWPUq9euS+5UQJ2USlwsCvbY8xl3gt4X
+xdLabhpi6pVAI9gir2LN39KtY2DJkJ2LdnumiQyIvz5rsjSLGbB6VusfYrQNXaXFD7Ch6N5ShXYzfn2n+Gcw25yvjLU/WhdaPOJdjwuJKMhphVfziOlJZael
+RNpOebbPpYagOwZg2rQgAuSLresP8BwTJMa7l1Ej+ZMEB3iy/m02YJTKBnJjE7ck0m6AhDGq6bYkhprI9xd7aeJAyzQrGz6DozcxA5fa8rrWZQO5sXzcbtqK
+4OWiiTTkqZEsopp1iZUoTOp6wnovm201sBhsVFNCf2TMbJaJSnAEabMMzr+3eGRpRyKi3TSZ3G73zBEUyOrWDwdZAXTF2W7ddDy3U5JlkaaQY5bDRkt3y46O
+2NfPwm4Iz2xMW+4gtbNGdVo81XF0MTYJYLgV8JhExMc68Cq2CnOasm41sxshq964YVZdvXhpfDPrXdR/oX+5etvqkcfioUMbYG8JlyyPs9YtAZQcwHhf/JVQ
+reeSaWbiA6Qfl3ZOdd8Wk963dnpNcct0nujfTzDqcqCr33hkjUun9BwRmK5W2+npFDsQa+LtpDJQi/cp90GDPfyZQU2LRkOES/XM27KJZ52e5uwqJmxwY7p7
+O5iRtihYRtjyRfCWxCXNxA8MQGs6CwrwlUUCTB5rwpnQcs9yMdqmj5E3Ywz/xzQUA7enGPFW0GITSsAaV4v1Jfw1tGO1gR9kS9uVLft/2bbC6nrTUY+miika
+VXm6yYth7Dsm+5N3bu8UHwh2sS4l2wmUiwycL9NDraH2YGjHujhScL0izcJBRkwnByk2TOPcN3TD4/QlODGzgd1QS+2IByHAzAqgiRjj69gnjWxAEPrK04wq
+u9KdG0D5E0eN7eU53Jh6T6m6qdDn0zo+Wq9GW+mRzmZ09QxIXe1k+ct1c9MuU9nvDKImGdMacHvkMa3MqALSmKTPnNThGy8Mj9FIgww5Lqe9zDTEbOfSLyfU
+ijrGsINpJmRWeBRzvqxdfcif1F5p0ywD9uXb+rGYdXjXXg8nQ20lwJBtF/Ioa0SQ2Y/B4sNNf8xacTA9qyON0TlAwHL5sEhIHmtNtFXTfrWklCywCOF0eedj
+NXPLIyZT5eEnxCWs6YvRauuTmy1fLNrJPk805D/fIc6j3IJFvi1p9HRfWaT0qIwwmwc+jWF+9zRDGbBep4fRZ3j1MrkAEOxOkEPtaMN6z5Xj2ubKKvgz7UWE
+VK3+yXfpMR5eB5YsxNPViTeFGbl8ZjW3Vbm0jSl+fCAcwxPqW74tb75meSMT0JYXBnFbTPayWYyrMLqmZC4ut3poci+jpau06VTrgEpcrvIldQUVyVbv7s57
+kJv25lNrhYHTsGZ0CDnRVua41bSoa0K+6dWdaM/MTvYIn8jBtNj4zaFs5NVRW19sZ/p05Ig+IhK5JWldLHaji6WxJPPxI/XHwzKn3NmWOJcf+xHNjUrWI7HG
+c0Q2sZH6z3eNhHBTlT6Ia8html1umeQTmsNHZlHK/4NLpsS9yEA6N0k046cJcWUGPGy68Bmdx95naQiwiWJpwKxk2ca8TMs6rSo4R/GnKOb+smsTMUnOJtBQ
+y58oW2W3srpymDnPXMo71qnGvsZ8xjOLBQt5bccnhYV5b8muvOwPNfv0wMqrydaErjeue35OurhSn5fDOQyhfK1iZccHb01E05vXe2MB31WHKsnK6e2o62w/
+kjfh5xfImSqKV2152p0lIXwqEyRFDtghbEzaGc3JFGWTZN4+aU+KlTTCts0ytZXBKor3dL9J9YkO0bd8W6dnGmjZEvFx1LrGcu42HSlT3WL3ylvNIjxeCPnC
+ekOoV3fbN1G3M60uyn14sVRFzlqYeKyLDSzrmwmBjUoCUGfSNMFXgh93mRMmy/rS75lqjENXsmrRGFYv7f2MS+P3XtLdMkTJQQhNsxpSQIxHePv5LMOUTWqZ
+t5p587zmRT/FKKkdLGTI15+zWmejmItAwvCpOP5+77xc0eFArduC24+UXHIpc2uNmAvl8LHYbmKKmaz7s1prSfbmouiRQKjV1kCbDjZQgYXcwFN4AqHPj5H6
+en4tEvf6DfxK0XflBV1npaJF9bhxu7ktjpdZMW8tfA0ag/OPOlUNstyajxt6RxClMME+AhYtms96caL9RiluPkiXNJ9oKBodx0a4EUTamuulyJx+GJrr/D56
+4HQ7QxJNMFjPM6qGsM8TtThGZimzEeRBMEUM3HCM75QlgyKtB+ZQtcGE6uUv+O0O3FOJNYgLtoH0QQDKOBLKSyDmPwJ2f2UdKgAHSw3STt65YmA/cNEXAYRg
+/hhSM0GcyIPFzAgcPH5Ui6rQvMPZGTh5I98JoUIfiMM2lZU+Cb1nkQs3ho6uumGETssHa+rLFUYMzYWJzOg9Kp0YZTTaKiE8DDU0weusmXJMvTcXNZjflyZq
+UqLZyC4RDYKMy2e35hqdVDV6SscCPxfg0cQl0+aaZhM+7n7hMWpdwMBDc77RxBziNZU/WX7RflTFuEm5qAAi7qooSbDpSCg8vBsvQotXl1fGvxaoA/ArIy69
+b6hSyiGh6wTjJb10rDKP0CrrKNXGOgy7eqJzkUbBsUlks0jkO9DjBTTb/E0wy5W8avZv/1UYCbbGu2GNFwEShBtJ4I6Lpwhre9XsV/UTIOOG60jxEBjrRSCD
+J4hq8uAjpTuhDGR1kmfNgrRf0aNoPLF+GeyRcU3GPMyqpzesqEZHGdizhQq6BgmhXvoIMtc8iuHCg9fZvn0meWMqGfBeURmD+F1jVMGH2vVydWtyPQYwjDh0
+rpGXbI+8cz0yP7QAGz1MMF0xNVpyjjBahhr5aKgildgbkS0ZwGoX3gJ/2chaR8Lqk7o7Pugz6s7CIt60jnpV/Lk+5UBBEwim6xrE4DEag6tieq4GJUruShOl
+4EORQEWDfrhmrv4PO5oO8HeiCPNWS8M05FNZedMMVNI850qHaP5OXZotzR9z+6+JeWQmM0rk+uBydrBIDsIYFKOfKxa36PyhFjg9zTQK71m40nJRo2VMR25Y
+FSCYMj39NPplUNUcknU2fKxfe5iTc8lPX6JJ6b+A4sPKZbws3gCWjvK1cJRrfWu9Q1qXtJpq/gZsLZZ5a0wKdm86cl1C1l//SbJR2F0awhLWWeW94UftXqD9
+lec2wyHzrZgJbiSmFS0NwUmxa1lZPeMyR03nai6ykeWwMehy2THtDJ8yRYs1O92ISgge1sni3YOFL3fEA+/13bXvAuanKp35HGMDwtYpvETb8w024r95Q+OH
+3L6YNg+IeVjMhWcCZjYBdH8xO4a/ld4EOfd2t7jZrg8BRnMw2kaOsYiv6K9+iXnOhmgw9Q9d0ckTyznqHDioonqgaYi+Ja/E1iTQe9T50Kv72y6f2m4YYTdd
+0RZTavSzx+ul2RHRUXUQt8KaNM8dGbcdGLkF8cMHFFPlwoYq517uFk8ASjgBM3m/HaMWtiH5tCNNhTZ4w7DWbjv1kj29X6sOT+3doPmMXROsWLPHuD04DRWd
+6jZbXUJofi4jIC9siyThS+3oI4HVAinMLNlJ8N6aVXsOrTaU0JGdb7bID8tNNLu1B9m2+jVzQoIppSKsmyUzyFQrxlbbA9bjvcQGh22OIlA9tv/v6gltJMgw
+JyCE4quivSx4vs/n9NnCQTvVzyBbK/iAtn5T3Lmt+o6G41JXgrydpG3J6v9Rfl6eLmE0tVPZ5peffb6MesZ7iWiITdwmlxqZzTRYAo8ANxGiBTx6vCvBH/uP
+t3bXLDALbTadKgc+GKRs6V+u2f5+YvzUjMtOdkONyU/nonuzpYBK4Pz7vir4AqQN64MA5WgoJ+184ArguZ4Pgek0s6ivGiDQPWUZm+wt9f8HuIEheQgPnTVD
+0hhMsFqPfgoWzda9zTIN/wXkZd2E8BrkniXxZ8DJm7t0+JxcpQ+wz2IUbfhje3LKrY4AR9VbY/+/NYz3tEvebJFTb18ZK6q3Zv58aSlmRPt1MBp825bBnERk
+ylC3xEEWW9rZRmne6MdQmv5l8zwpddPgta8Ac55FOqFRhJE9N8+5X4x1ipHQVceGXQhi7yesTTTzP4vADdsSmfcz62QMMOccyKsvbdrSsRXYjpl/MwYB8POc
+rLWfpQv+JFg80aA2PyA0EQ6/5zL6m94V9mQx5Thl6Kc0dddDvDXTNxesGnRbGeFOL+3eNNN5XHTDosCnYHEkszSlq5R/zixR4Rpo3XWXMLWHFE2jBaMDxhUK
+dXbaGUBN7ouCj6xiE8a5MX0MZSpDFzPtdWQPaaZW88McjMoeNtO262aimZb8ZXY+O1U9LxQzOKDQApl0rKiUvMpaOM04JwRJxoxPm2Zict2wdmkibcGmoYI3
+a+0EILunvmqvwrSOg98UBit5br07nJh6+jqliBVdbCbl1vskPAgJsggzJ7shXxIr54R7vmqbjiErm5JQjFPtDLD10G5CQL5kcV4XoNBj02s1rOk/e8Ks39qG
+0h739C+KTB999ChEoEH3RklpH96fv1fWTGQ9Z+/QY+yTzxdEA3ONfWCfg37U6AztXnqkdxpka8lHNkKZqaQZ+er/A8jRGRsnOW2E4XSmnsxrpzTj02iDilxN
+Y1RAvYcll9krqF1+nKCFlcvGRtJl/SY12P+RUgmwXhZunA8a1mEhC/63nyvURJ+/YoXXyFn7dLgCbbx4qY+co5u/VQWGcbtD8bF4ZvJQDQCxau17alNSMjor
+dYRsanqP+mNFurtBENj4Ka8xieCV3+YHAsMRfoi3jgR6rJQQ7tdT7M3A1TkCcwOHM2r4PMRcw0+WHz+GBi4BBPm/y6TYwKlwmlp/CP7lw3pUnCRYwQD9/EyU
+VlPbmRrGLFUfVcQWRKM6/+BdXebgqqQexNx3qUTcE/Li4nA9kLrEbYt7k+DmL9UudNRElsV0B9OgnMoQCVv6/rSp5SCpYMgIBklc9WGk21JE9InTC9FYUbWH
+5n/6p9C7u+aV9ley6nFSumQs5ZtXVbGyJh2DBtynnCP3c6bTuRhWycySWXvi4MpqvY0NXXF+OZsNRjb9dFTT10GxBRSIRk6EOeLr3asImC2CGCiOkB/6Mx9s
+zmLPx1arr2o5QUxHdxRbk26jw+27NQbRN2azOVpyWtu5NOPksX55Z+j2W4iVqiwPy8S3OnMIUhzlRS/1zIoQPciUP1z44pWo8Qy5l+mUoMcGwRpWQG7bIJZg
+PSh7HeD2ZTTyrpbg4qJ6zK9sFjUqlANWNt2c2ZQvAokA4s+Nq4fFJRSkeYE3Z15fZkfu6wdcbhcFrlEI7DPiLYb62+JiKCzdJd9U5qMAaao/4WfCMA5iCMM0
+goFH2vaQurqUpEjy1mjmhrleVHtOjDTYnhWb0bh+dtQdk27DEwXQxk04+s/cesszE7rsklagtGj4fxOdhrnlJtC04kxzdZMpaEOTVZASFO7qu2Ng75MPcAiB
+gf/tKW7HtyJiCtUz2umLQo0f0l15X85CsP9vLWa5wRSCOQbWhF399sHbb8Z7KAqEfPrWZhp3hw1ap2Z8xFbanjCZO/teK5Ss9dT/KdLVIJfblvxY+/8epope
+RooOf6bGFSO21HxhrRKA/a+DCV5chSmIepptOZgo+4inCMSsMwpaKlqDvKvt6zfdGaOVvckigIvl3SQ02QG612axlmSimoSSpZI++l3x5Xffy5/FYC9G/jwR
+O4ibXGfALMUgWBhWC08yWkzsFlvlYyiMrgdpX01A9rFlrWtg6V0AUHsDouWtRhntxv0ubtPEUcAvn1kIn9iCqfSG5GHPkNndKArUfDjsSDN9xDHPe297y9aq
+0c1zPpTG/PzkGWuwE0pSkQ6/AnOQz+5bauo0bDrltV0Mv3uf2GVsHaPz3S8QnDlSJqSN1tjMm1u9qjRFy7jYG/V2VazBlQ1WyHB6/cMK/UALMmDyszyyr4iP
+hDhEoIsKZbKLifaRr2MfUCbl2xqN/W2Jns5ibA9hmRusTQNJGMaO/eksKWnnMrDbMvmub6SfAR/WueBVco7hXpcpaw0efQWWjU2PfgQEwyZrccz/L6e2MMKy
+1zaZeYyfje4fyEzTo1yAH725afhmC2Bx6nPD98p0s8ONdvt4byxKlk9h2af856yl/Jf+IctbQYQ05Ip0zY2t6OnAAisKMp8TYDEP1YEvTbASF7ei+n65/ptm
+dCPK9U5zmoXlxAMwfBr7hRRnZHz0DnxO+rd4KZxirx5FlPw4W2+ik/DW4Xjm0mT0eW6vR0ufC0RBmPhEMS4/6wFavyunpzaumD59RHXmAgWNEfezeQKyiTqK
+cdNxOiVDFAPtXfGmrnGk4nj2TtALQrvR0ivbUX57fEg+xHyjHP2LDqIcVWNH+YYI2JhBZ3QW9YcA/m2EWLOMPENTiw7hQ+hgVZ0Iip/iDmUokvi4pHbXQSTq
+EYchw+0g62k4bQiTYZDU/R5kHFxTQbghSv4koWkLvGmXdBR41uwTbaDL/mc0E6IwQD56+uipLw1G0FyzMlhcF0SOzE/AoIQWvHh/K4yp7ByE6V2055ciGBBt
+VcEi4UDPJqJ77Ycwvco/sku6bwJG+AqL8yatQ/yJcr1rREd3NORo193SFU10GJlxrV09/YchwkIig32Juseca4yhYJARKQz6F7C5Ju4sWNkXENiFbHnBgGNF
+Pdqupr00ZklpvO1Wnp+L9Dw1RlWeeyDLNuX5nPs3rlMqd4yvQIfZDcGk7Q1xNE88EswAtTZxul02Svpq/V1RQ02yrT+Rx9Sw/iH1DZJL/kkFJt32cIwqWR9s
+iPaoC1C1j0uGIEqp3hTp87RNVPIZSN9hnFbjrDf1afjyivyRXSti8wHDS9GlIAg+AVR4nuUzsGK5b5XEOCAJIl4KkPhaKZxYciiGax82hiHsUIrWKW1TW1TR
+equnvLHT3hLY8CId4lAFQ03FNd0b3xNfACfRI6pHCVqZmUcKrltZPi5FlOV0RlSW3EEqS11vgJC05TlGnEtdhwrCuuYN2ZR4kU1iXiwx2+Ny7UShnoa4ykm4
+5kGWg8W50Q2zvts34bAqLI1tsG4PdB1k47LoOqUsiBkh1kLlXVLWvWA7itK0YPCnzF9mHRSn+bUxM8EqMNYpb2kemNHG7lI5jI4VbO0s4isuG0POGf7IEjfH
+c+fzzVgqkO88/6xsBYsRcYR15ZVFhLchU84YzzC2LczGhdyfvTnOialWEJUHA4oPSgV9zY8bIoCBGA5aNIx82FQK1PETZCi6declmIFrLy39HOobaasECyuB
+qESA9N7ezsccJE3eM/SbYQSYdeWiO0OOKDP/fVNTCYr1INAWA6w/ZG+ioW7gsXonK57g4MVDHlAZELvnik7VFKccSgFpBh2vTUfUMslSNy8Yhd2UD/J8QYgk
+BmRYpl4l/cOr2JNLgrl0aiqMmgh23ExdIiUZLM9JoEbGbLLJ8jQX7QyWB/uJ8aQHG4cosH3QRYX9DDwWrD5HSdMNZoyWy4j/B23N1S5t1GVEiY6W83NafgrS
+EzR+GSxSrNu9EiASHp0OSUj3QXwKGNmNVx8PlTosA0J+Qm9ND9La/aFGx/cY1KMplgUd5Dl4ZA7KS1V/VuVOzt5nRFcQkaKTxm2IAyi8xpTeLZ7SfccoNA/b
+6y7i6hToKYiZ0B9hTurGnhHFusvlU10glO4PN3gRbee6JNN6LuGLd9F0xKyvKHNe0rUqQGFtx6/2VSAxcqURf9gIMv4s7T3rcdtG2+TIpEETMC5vbDzY8c31
+G0SSHWuwITohaB00GyRd3JQmW6UmRroxeD2V+C+uIUZBgs2GMXhtOq/vMKo29l1Sf0WFu+APRXpz9KuFJixqfwx5ey5F8ruw/PAVmewW989LURagMJP7ftTE
++r6z0fm+FRj5Xl+y65vW57+8dgTIWATolRFS3hPXRA8WA7LvFWOfCJHeC3ikjxfInTCXp75X6xrXV0NM3ITBFsRuvsjhIIXk02Nkd/se7JzdWOpEgOP23XEj
+EQ9M4/PfjT7uu2EzN8JteiMxDmUX/LvRQcTdWoFwHBRBF0Xvq4MUoNk9Yqc30ZCx4Xdz4eCrjg+QOguSQuR0qO0jCTH3jaKS300bTV+U77/phPe7TLqr/87b
+6WT3G80DQmXf6VO6CJkh4CogghRj/qb12y+O5AkdU3wnXIpEmLc+41N/8bFB+IinYKCFsCEe0z5lXDGq5yJSMFHpv5PyQt+0OvtFcdgPMWkVUDJrRQpDZQTj
+Qjh4YvgtUQTvfEivvfzvpDwYAlTXSKyIAQcoWgUw/sgSNRUMmyJsFbOHbx95EJOSL135F4MgEcaUbAUcUgduCyE5h8GkeAOcQ+zlDmHR4KvYLh4tNaH3ZVb4
+1clqhH8OuoLUL8iKENfMbi5p9e7uJ+tnzUJ+seT3SSATeu+O/jfaWRA3BJAsH/24Pqul2uC8llbxAtvH17RkGegz3fhF+kYJ+asLvt8o5l/66m/5j2JV3tH2
+ef5V9KoA6ba89CQ5LLdhGuvLLCyijJnURasRJGtRQehLPAmqYAJT4WqN7ltyX+PrvAZgW5AYc379RePDW55PVsNAXFSs/rSdU+vFiE8DNN6C6V8vfBt800wr
+kv5G6BdgUOrjV29c4g9Ah5FSrJGVf4zVb2osnebp6y7L7020Bud1zfaP7PkKRDlnuxODUQe335g9XCZ+0pXTl46dnJtaAj9M9KWTYekeJQkhUhgUWfrMdrxg
+QzQd3GcdKKjpFZHF1CCdN3aUp5LfNSZb36JaTakkZUq+hZ3tzJHGh6ITRtjP9WxUv8/1XSOgj/1gtfkTbbB+LYLQjH4UMi1cuA4tkjWQZmatNVjhwge39Rxj
+wu5z4Eno9mGGyoguGL3+7fPkVT4b2R/wYmAQkKt/cfN2Yc4Z1KqfZHCvK1nx1MNL2GV2WowFl2D2/h+GIZ+6xfvRdNpnU4T2E011P3tnVDkapyAoi34UM/m4
+60hYo0PH/oPw4Qyw2PDZ3Dv6RJTrgMWr22d2SPShnkbYTerDfHoENT+K1y/k8oeh7cYPB+tSH7eMPirPfvBRw5tjnvrTq88q7IB2MMF6iRsIH62rBKAy8YmW
+Y/aeadaU0Qf5zAgxWx3hvPFbUegPsrBX9tHk5O2DnYbbpyFlLj7ePqWaiPy4xPwpx3VuywTJau1KFvPGT1EGCWSTKgZRTA4DUvE1yCP1vXFHcxJhyp8GagPy
+w7znAfCddBj3KcuadyyaDAmM74QwctCHU8oP/grIiuK7U4Muzo4UKiyNfaLqXF3pSQoq8xH2aFt+yl1nDYG9oc/LuvG5/ZfzgvfXRc23PkLen462DtwI6Obe
+H8wZBDDY/dzeyI8Taqj0fVHSA3TBza9r/M/odL4v1xJpD9+agUxxm+D7l5Aa8tY11/uqW1Pvy7Hc+3K98Y0v1Cho7z1NykMYfL937W28dW8RUIYhftvIkIBL
+WYW3evH5QOpMs/2xx/pO1wvv7efGOJiqTkkI1zxLVPtCBQhkvyDgoeRHJV6m35uAedywbALrP2M9p0Yza30o7UroscW1E7WkCymeQKn5zVhp5rL562FMUbG7
+GYSph/ggUajAutny3hTaDqg9X7IURH9X+aw3SfTa+1ElReF7xhgTBkGH2UG0E/neHram7+3v3LSmAqux/qGslw/7683Y6b3xNbZxfvesUMFwLYABWw/20og8
+Uaug4L5SemKk91VAA3b3THfgvOiNjSfrYLDuE235ey7fKg38VkLn7TT1PVlGp/O1RWP3Rvb4pLeWRrsD5GeY3Mc7VdrjSJ8dgQofBY4Z9qpKyVYt6AXN7HbX
+kIY22FrvOtappmk6Hv9jBLWoMNvcxLRaGKTpuXU/WfsMZJ4cQBKf1W1tzBv0ywRixJ+vNa3/zD/Dc/qXDGNKZ+UKfXpJFhv6lfe0rr/kpAVS0FQEvHNoLN/z
+Yl1TvK19z9kyIVdoSt7P/zvfz3/IoCd1hxXO80qyx2b+Rx1SFOStFIpwKKCTNEULoEbbpYUhWG62wnz3GN5wXX6JmTYpwj+vndPEHRGwEeVTGJT6m1avRZbO
+dYG85lf8py8lHUpejsVASeTGLGm3/+pF1lt9AfeJjfFQ/ahJE+YLfJgL7SLhoGNCSH6E+f77LJG5WXgUSwBwoSLJ9TSZDoby+i7XMWA1y+e21hjUNOuLMV8N
+fGQp0Asj08v3xGcp2qt9T8NQ8vfBQ6YNrJ0dhpnN0XQ3RUzbDj/G92CM/mYaQyKU3Cr/Vear2FhHqzT11tqqSJGkDexi2AT8qk+3sG0Gma12Xbf54dRGeCvJ
+dVbyKyMtDcTU/r5nk6/QNGkZQbb+ri2Ysksk5EOO2mx4o04fV480GX0lWsqU9T/GZjy4fPY+ScY80mbQyqE586v+cAUmYOnlNpi71+DvOI3EBIv5QZ9ImIVh
+nPCAE0AhG/s5L+37X6G136kFg9noO7oitAAit/s31hIDafyynPS2fAw5gqqQ9Y5WOY1ZvvtaRfU/INQOzoYbF3Hd72Ao9rdp59m2IGjL9gqkIIH5RoNitj7K
+RmxqBP214zKgzQHxm8U/PwXGx/kE1XHKm/5iEqw4tMOEjzzS0Dp4fl21h7X1VNVBe6eL43fKZTm6SP+pAW68vZ3wvpW3Ajov7nwdV+zPUUaA7UUmCFB+12/X
+Oz7MYhTzchgaO6MdhXTeGLYnSdOpi3kIUU7HF40bWXqAkllHJAmq8EirshbUFbZ32rd36CK9z9dYaVcxB0RBSUq95zccQAxDY1Movn9ruZUuP9afJpxpOpAZ
+mlUjwCJHq9JPQ740Tj0aseRr/E/UOQ8ADQ6/0+MsmEqT7zSHHzDmyKzvzaY+y2e/elPPCix3uTwd4HCy77TQGpjfssvi1SHRDFKCuiG3qd8pM5WxtGOUTiWP
+46BpDsMstwXrJ+90AmOrkHSydLkWsEpmf3LMwzZ2nCwf37egORKhGidvzApEqP27uZIiofwXFUbfJd0/BtKJ0GBxxbn6E8XXH49vxn98fE0wytLHn45q/lVa
+v760FG955B3Mz95q3r/12LYmPhMego4zIH5ahZCsvGjh39iMz/O4RhH8mkXx0bdEW3BBnjE0BqODL6JSMUGWZsorzF9nb0BaQ0hSKgKsRAIUKAim2kVzZe9q
+erraG8A8w8ZmwIrg7Fs3lwIL05Ds08tvoFS9K73R+ea2+ZuJnG0EIfQxbBytaTFevqB0FUzXce+SbYDeqgl3BfDeuV30TjXtIqGNczNIW1FJu/qTuTHP6hUm
+y88ZBOtukEz6nL7DJDYfkLybAUB+jznbTDzi+RVR6376yK6WmPnfBEpR6Pq15xb/FW/3bByiMkklhQ9HpJgHdMcHNucjoqGjxy5pXAbM3Jmy4S2j6xKB1la2
+Vtba9Zdx4oUGv2gMT/L6IRsRWMlb7pmE/lPftz+/ftxoikmr8k+2JuxXXB2JUWFDxD2BLQGO1fSu+C4I2ZXb6zMiHvC63Jp4XbOeTs9gD7qp145r71calAHR
+hLi9thOfDwGRtAjLFRFtR12yf237OzXvg7HDBBast0d5itx6bavv6wUYBaORhG2bvVXQBxqjAzesw3/lI76mF3kKVb/5lk73Hl2R8RLbmtODF7t0SqXC+nQL
+GFQlQjsDjsr+X0D6i0kUiA7n0Txdga7JNGdhem053BVXceIpc59vPlclmVdMI4loyjBKC9cONiBg3jUo6AqWxH+jXvj8xG9gsI57+7NG3GsVPkjXeWF0y685
+EjuXKHOfRA/HHGm8JhT3I7wQNI1cZHX2hUX6ReC7xNRQ6w2vLMcBE0pyLzYXuPdMyYYt6dQvU7BD81NcncaKAtNBBeSHbSXr9o+0SbRBAmGb6aUiyAsFEF4q
+Zops64u9EO3Za0qTWYG6fqVgTpjRCqAxsUDBFndIX+lTPGDCUC+k5VWxYiloU0+CJYrTzKENuvIsXrl3X4tGJ3+M1g6PJdIYyl0H0c4PVwkgTKMCW8Pi6826
+iwORkgiCtFq0yz4FB2++4LDpwfjFKMJs7n956mjyR404t4192X5/Ek2vyfGXvrbKFaTLn9sz/Ra+JsXmAiakISgWU1d9Vr4waMI1/Qeh9he+sjhiNBs1XZeS
+eANDBSBwa/jRtVyMsSmdgaUkZtEv7MeVARxStkdGeE8pQWQdZk/IFWgXkVqSEVSdRVje00xnwpw3N6rKpiqgsKNhIUnYqKJUJkLcb2CMni2lQAu4es1FzGek
+JQuIGtHazPZ8X+oFnUZMXr2egF/9/O3RpYPlU+fTn2dzuKebe2WezbwUc2XCf4PDV+/laiKZh9oieeHjr6h99HK89+qZ1cQY+oWM7qtX4urlftCrdyKDKKFw
+e5VP9CIRWhNi+DXZ6OYyUMD8301DRfnzpa+WGWZs7O8+ruhMaGbRi+cidGVeiu8Vsdb4GF+hhPlKqW0hj1BWEEkHMjZfsOTFGCMCzpSleqVd4le2AyWqOjHv
+GtqnaeGJe1oHhjywLftKoTDI6jYR5MP16/uzOk/z0WsOAfFry1E21y5FclTmvOi8PrM4JRhtTgsh87adeaGLN1PSdpseScbC8C2odvz9NXqw7F6C4t3KeOkj
+fJt1u9cnr1c2+Syrv8zp1RvsqNKY8rwlM8xLlpQHfWEi7XqZhTGWK555TErymJ4Hm1z+ilm5OcmFhO+S3ExB5ykvSlM+yaKqZ5Et6/Dx4cO2PDOSgRnnSxGy
+ZhqSIf8WBFPlmaD+a4gNG0j3GfYpb4t5JuH1WdPfsAeZYr3g5JktQd+mkJjX20NDX9s/ZvVMZgWFMpPvHz8eE6ak+/vz+DHEUivFD0ClyPj8qI3Qj8+Vntf0
+iywqwfNZ0+rK0Lb94lm27Xf+UUr376L/7xK1i5LSUmsuoLS/d1k2ldSSl3o7X7j+jkUAKSZLV+PEzKW5i4u6WrpQ2dKxXR5kIdVgmbeU516Omqc+IAibMVEv
+jr4Vd4uIPWWZ9VCENNqkhUBZnqiDeCnKUN47ZxdWLMqzKw6v7K+od9+XPQAUEXlJCvVJMWDpz2TQYjRt/oaq3Ut7fhS4R3aP5WHVfXDL3+ArTWryk6jJEUuZ
+bE+G8WPITXeECI5KaKgL1rQipMMoXUwvA7QcSs61xtJSFxAjeWF6KEdLRSNet+t7rbfrv3K7Xjm/uU7uvHJtDTuL0VulJAwmruO6A3uTiX/IMVwHD8GqUdwW
+fe0Nk8gfw2iUMK3QAprnw+gQEjkY846M+7u4msch0RuR7OkVBqNB3vw8Gf7czxsS4yvmu26Mn/cHjdEefEUCA6drLFAEeUQy10l5endmryaQhC1r9JDX0iNn
+cMNC+Hy75vPoR2BXtfCKEkSIxKlGhPhtatmXutzgu1LeKmcXF2Ohi1URwrEovoUIz2EYzcQzEjuUL0GMPO/x2D6GWpcu+8p/t6vOfANbTW67R30peHu1twtx
+46vRTtGVSqEThKWs85OG/ERncedHR+qB5OP5cdR1fjp3xAJN+PneRnrFGP+c7KgQWh2QwfQc7dbJIg5hZ4t+MkG8nS929s7rP6WQz+t6FBalz5h6sSwRiLRz
+ABUkzo0OK2OI8yrpWSyos7QIXJQRPf30k/PjwqQO0vKIfX06YYfFeB5wKfe80rN64AOVRLAcX7DqzWJkgYWZwM6YydIzLVHtSTrjaeqhB7kYf15Pg6dv95wz
+bdroP6/VSFdUPAIaLuTEsqXzpmA6EYOgYX96ebXjf7pXTBht53k9LkpEoCf/kDoM9N6hmDoELAL6w64/yP4wJEA24IxB0PUH+G2xP9WShjbftjVrmtwKO2PI
+g82IwBg+MwhM5il16qL8n8eIASQ3hVM0H2q7cR4/Q3/n/nUh6tw/p0rxQWI8mnZDzv2ikQ1YovAHeOE1MWs7Nd8k4mDmAek81MkRiCVbCN9jRyg+RjP/TTwC
+y3k3vba56hMshqSEfBZsOnotrp3OdIsFeLC4pC5raPckpAp7GU8etD0M/37iHnKSF5UlTkEG3VUG8cpfOrc61odpvOCMgkpd1OMR5yfXsgIX1ilAcxCzyURA
+J37uaeUucSVl6L8mZqmKIciW0d3veYiB9VP7SZR2BVIT6XUCm8vLNfYQpI+Zr/v80iMj04ivMOveFdqrpCfztysHdSeWlqjXgdOayNxadUlfsK8/r34W5dGF
+JaNjZ/VUKiBjWzvD9EeJB2V2XsD6wj3fKgtU+rE996oMCsnkO/cJjOHZqcGmtb5hl5c1FiqMNflN2eQ8Wdg7iA1/WYQaFIXkRZhqODFUV0/ntc8U+4P1NHJ4
+JbAu76Vex9DCH3DobRQTJsshmDYG73jpVjb5RIY6s620/TuzpChKeKaho9u5fedsQLcP5ncDIpLtHZ1rhCtC7hAkfM/tsplBzztPX5Tq7WLf+EwzROdWXX8G
+aTxr5d5cxQ4IMq2nF2o5RohyrF0hgHZlM4uiIbwM06nz6ZiPwrft1GtLMiaCEiZTZoO/JWkT2aJGhRRe40HeqRj3FqVGxfbg0bRgEBbq+zAgixDT2CdSrpa0
+DS2sbICCWpjxF8DX257xpU7adRhyFDhPmA1tJ7Et5Bg22MIN23ywRiMzpo1VsYwUcwNnfuttVTT3IbMd3NZMIr6rTSWzdkAtnXOrfRM2X+0PXN0DCmeX4+nJ
+JV+DrtDIl4evilkXhJ5onze05Xp/RB7au3qE9QLpdjKeNHotmdrEUVi9dd7W+q21mngqpHJ1Se75Au4+nptG0AIeveJl5zb668AeQ+BdQ7rn1qPUp1Hmc0sj
+mGda5gno+tT4Ptkci2DTUpKEsM8S1mxfwznzoGQHukXkmFNlHfzEEv6KoR0ZC55BzJw/1qgCp6jZk22bKmKn8iRZGNKsQ4CJY1vvxBDliaxYBEwmgCKkGMg5
+PSkbNOQfwFo6rVqTPl25sz9yAc9pL5TATP39inXaE/U4ulImInnoMo2EsGf2GYgVe94DdR3KlU77CIlp/hrhbIR0H5jeI5y3qDsxiqM/mrCvgU/UbG8n82tq
+yOuYSKAUn2HmSpC5yRMJthwa1D8xqB8h+usWglH/WHkub4403kuewHELsHgeh1rsSrMMxc8KcmnQU16fnWZ/NA/DwfqzA8TBUtI6A9wh0ZieNQKXZ8ajaLKo
+yVdYYRAv8Q5so4oNZ9OfHGQhmBe0gYNEhp223EHnwQim3lWTIN3TXJua6C8S1e6Nj/kmuGg4A1iWgzwbLcJvcNrBMfOrz9hYx1CFEM0mdNQgOTof8Q4ONNyL
+It1C08Ao5BCGEvPPS9ovAq63HpUBLrMn3hyeHQm+c34mZo9kHj4HydQ+5kNnHwN3137O6NlpSRi8mmB9JLsxfvrFkDTZgTRhdFLlP8CpRFDKblEItS+fmF01
+hGRhgYZVfQhqhrb//f4kwBpYr7IxMlxZzLXNTL+LNygcV7vfDOkrKRjSAl8pKnP2ZnC/jQQ0NoFRV31tFRgB3ZEF8aRmfcHSJxkaI4ovVEeFWXDc7js1yEKk
+LC7ZSCFybz6Y8/2/NrSfXQA9KVUemtLZCKuLqjMKWnzUfvoPcwSQyPLORObmf5AxIx8yDYPP6FkKO3O402Ni9uzbGDSPl5diFQjIsWpf3EY6ezd5z/JBtSOA
+iMr7XZqAl15cJli/5xkFh0EGfeX6UiCiEjicr2OmYmNVrhgRcSsq2T14XOq4nOpgRzh4lpYAVeoToFtXj/rMHe6TDoVvVXanOYjzE8bkgwft9gpI+K6male4
+N3Dx3pznlLTSclaBftZ8r9UodSRxavSBp6PHeOpK9szqWJ6WzhjtMRcPLJvH9vksty7Amj+uj/9sD1FvPWYJSVzV/zpdZMzkrBrzTpwSm/6R+b52GRe1MPow
+M3fhIsz55HZRcvtpJf3dzDmzXSjzi2cpbooGe0/rlFvJFr34Ind182Ctc7YyV9dFaLrnL2qP0vFgYYFLHpx+mP+P/IIPn/Z3aWkjyOQnm86cs7o5cvd6pmrF
+yVz8RNdcWIHxp6HM21CxT/R31oYC4v+O26mAVAE42SPOAqaA6omjpRPrCkrZnZgT34QI2u2ZL9W6haT8FvsSkiOBcKyJwbkBcWDjmcc3Ux4iV3J8PzEaiBB3
+oo8gb+TiDpSHq6bb8X0WfsDwT4Stpx5zls8Dbab9hiHNlpBJix5ngmMmS8RmA8LB/fPxizIOmjqGPVCVSEWJ46tJh+Pz7aJtPT57encNEg3F8Xni7iVgE9JW
+yeEGyvFZkHFsuUkT08dnpmgemp05Pg89ph/Iwx3v7Um962Ga/DhSqlaphQOpU8LdDhYzpMqVS6I4gCniKisAyz0Hkoc9i6qyn3wCB63ncAwW2O+domCHMlp5
+CSu9hAolBRlJMotSh7AQem85Fx8cJO0vHO/ilPNA3uX7P0bbhz2okw+BMEkmOKYgKABDCq9dlsWQYPL8ZKYp22BaovIaNrfjFQPVLkYPR8yaEYA82Ka7Voyb
+wd0ePHCZfAC7B6tOGo7rw6j9uN74lYx6H8OTOGLxNgALFkK07gEM/wP4sld6tgjUzVSQ45etl8YSBb8ki3IfAOOagpHu6DTsNPs8CdebAC4jQBKhX1SetQ/X
+R9h8Ec13EBqN9ruCMAEB14/F6UIZzGPW545rQbkMXQm73gO3iOy6wqKj+a9ivsDM3jxoCbxUuE7BtziYnjoih62GSxF+1eeyXWslfwurNnl6wD7dwUqapUNP
+vusd9f/gI2HUq2jYAzWfHaQ1+5zaTRJfsB1QXj3w5U6CmonVIonvbZ8icHFByeg44xNaQ1iv5DVYpzQcrjlRN1LBfq/BYl9M8cFsK1zuI2w8233SXSt0VS4o
+GT5UYIvf/sSppSZ6gtLyBTRpTwcWY3yBTWHemAW9+V8Kdq1QiJM/ur/KtmI1DXy4GCdQMnMlzm3HpkaHAz5xXMqn0swIXFqTX+laR7BbhC322zItvR2ucwmd
+oZuYSfUfeLhMNR8/MicpQqbJZdLDdSUh3aXC/orp6adz1W6YB1QpQHP/bsfZTLCkRFi+ulCDoULS/dgieeWC1eFi0rdifvdgiPtKBl+/WpNR5rV+KaRfXeiV
+ljETWMYpsTt/cbX/d+FKiOrgStJSr8QtES+g6/OJ947+gHbp3Gru4MrSCSm0+9TSEtTQD7Oh9A6e5+y7bmheAq4fQVyP/vyoygCHC0ICrQTOws14vOQd1aoI
+84lv3caGz942p9dknzS3xa+51Sc/EAaCDJ2lBx+An4q7L73lMYucwMwy1pDU0LK/xXfND7opZ5bXNms9hew5pMPe4eBLKJukuYG3uR9kqzgl9GkLAt56S2OG
+xxx8sv5OL/Nh2ldDTz3LevE17EDF/njumeDgulCS4fxB1pHUaXnm5Uu+xDQrYCezlE/zWn+YTcQ0HPm5pz4fz0YRMC7CkAUGRYD0jwBvCLvD9RG2/Jz6Jukr
+qeV03ExOPbrPG+bog/VZKLCumhYO4X6AmNoxUmLXzqeBv3KgeBv4RI3HR/XPkkCwfg09wRZytgzpNiDJ7wzBUvMIbSXh/Nbj+XmfryHpfftP4n2+TEzE98z0
+YJEp32QPPH5kBLh43HNFKI8inn8HvthZeYLuFCotV70wTwz/YvndlJk1ZUPb4zw7YBj6/FD93dP3muNBzMx7NBKOLWKcYFb1K5ICkpRQgM4OkJQmIOQz9/gH
+Ys4QtP36rPjKMWyQjZdqv9L516QptS0QIhl8/IgYAS62iVIXNzEK+WSjWt61myovpCLPC4rm36/o0frO+aLlnLL5KDlcOGnR8ngs4uEWGiSLSjl8JvIAgvaK
+GQlV4W+5N+xrsZlL2WXwUR9KYRTzM5R/vTIWoRxQnxpYMprnv7SuX3MJWR3jW38dKCqmKhdJYxiZKY4RUZtYhGFHlgKGclUSi0PBgGySLu/str2S6Z6Zq+BI
+JqMrv9va7XeO0WE9ly9bJZ9hPv1XT5j7bS9JrbKYAfoZhvJImH8jMWaH5vCjZuPjkZ41oL2LT5rE/MU2/MuVwVJdauMT88L80kN2g1pEMRa0i/M1fnUvur7x
+Rwydlp3pOeJgVnft9SEOjUpjjHWMoADcsX+0H3VErUSiK+KPTnTHtygbEhxQ/J+fOr16flBmCdD6xM/sXKB2LwIRwAjwIOJ24P7cr8mG98nWJUl5xkiJHi3w
+qkhrHzD76+Tw5LnnHhAEkaTUUoqjUm8u18vLSr7Dc2NbZIPgsEE0V/XvNoKpLs5NWAydwHHVxPLx1HFHQJ/glPepHY6ASOiKzDT0YUgkMbf+FnE1dB9DwoI3
+pHi3lROouTgNF/UgBiSzIsHQ9qEhcpnPRIY0sbwBtvFQ65fz9D4lWDG8xyDq2cu1mxhYnGKAtnTP8ukIdydRYlqclBsWLX0Ei9naOSYxBYiJM8V9ppnT45mP
+LQ/LQnzj3agRqge0AX9szku2Dw1PfG0CRyvb20Kh0Z4Dzx/M9KJl+XDEWCnCHERu6d8+kA6cDN8ujDFwdzSXGno50iXRsR00wbjr4JU2bYsHnFkHtxh6YwoX
+QuB4YNvHqJCdJyxm+N7wGqvL9jwt0/jVrrGw2h2hyrTHtnGwPQmWyGzi2eaLCFZXciH0vyQkMjLrMcxfHl44EAd2156idT+wCpMeboRZhGXpyunYlpdzrm05
+uH3ZTc5iUQwYPr1I4IYKWLzvbyJkGcJMxCl2zv+2pSsjUD4bV84sgYMvt76CIDgOZFO2zXkYDXBmOBZmvVFV8AMRAtovttBOP2qQjg5hm6c8VrACZMbKAmse
+5d1W183d94Dxj6WNTWNUeHDpjQCry2I2ckEmP/FccoVhezCb3B7bWdvaoPM/knrhx/ZHXJmkycLB0mDAPdeBtjxCYcQB6aZn5gM52lcWD5VsAkoqLQVVKvtA
+BoL4UA0qf5BcxNl0aCnoeQj2Q4KSQ4sN583HSqXZQSVgA1lyW/8Z5j/W6IK5eS15lKlZPpkny2dFESDwN41douGx9wjCEGHRF1yAy46BvNOyzasGXWApinUs
+E35SgbEHclK6TBnZNGB344gChaBn4B+R9WxVB5S6PLNo+d9tkgjmHIItahFVRGjkmD/OLudLCzQHHsgj5fP2m0jOKqgc2PLIppJCJwzaLw7CAhTvNW+ZxzPb
+lFzCHAN9+2RW6zmXsnAQsgkUOoD7q8B+kGc+u38+ubivl/X/j6kzwW6VZ7boVDI12chAaH8wybVH/2rvkvO9lRWdAwYhJKG2mpKjzznGEeyRXPuTA/qIuWnq
+nDgh53ubXiRl+q1HYsF6xTldmHg5p+ONsRUfMqUnrUAdPPLr9qNSSZBnW9+YnJFEeP+sP0x+s9PmNzRt93fizbnuFC2KGpbBZnaHRfu6Ka0ygx1LPtN4y/hG
+1oim+rM9xhTQjIPdSddUjs8CG44oFIGDEewIUQUqFB1YPUtU39HZIy50fut8+evUAMI5/nsSWLeCtIExTtvp5kEaDswnG1JDx588VZAHEiO8zM8Raa4T2wlV
+sAsbn7n66Za3dlfOZjchcBrbmjKCNJNADNEasuMhe2yAowxW5YgJ98Cm99hVYAjSIkSAahQnT6+GjqeQHuPmo/xwpId5CZVq3PPHzRs2UrLmwKXpSZ9aTzjy
+sfH9o+mWLDsJhhv5Y06NR21qnxjcMWzy51LdHjcmTiXRSfG4aMkRrB6OuiSFmJ4lNxsg2TyMi16nzjF6jM8qVvCiP5VgGAIJaKUw587hycwcI8TnqN6VMUYX
+kLVixvFRucscNY7zTXVhvDgbafxPtv782NslBXjzw9J/0BXz4Iftz6hfdmdI0nxgZRA5ujCWE08a7M667QAsMg1npIE0amOq5oK0eDh1UbsraPdx73WiqUOm
+dMSREqanFn3OdJwMRMOBoetzbEYP8Ap8rXSG463PdGgF4Mzpr9Zfz9GXK7tSuUFYvhuL0nHn8KJBGF63K+4d2Lk8h8tSBsyA4fpYAEFX9jCkcRii2dJLN8xn
+D5e21AMxNHqeyQxPL0tLd5AP/rcsPVwsLOVCxnDdmEgN9HkDAnxVQhnEWC57t2H79TgGeu0YXahRtmsqLchHpjCoq1HIMXiTC+JtrWzYGOIM0WszOfM+dBG8
+y6n6MP7w/JE6BOL63ZodNJq4X08q4qqXprP5DgXXfFGXOMReJx6Nda0viqMuf8/8i37CZiBGuJthjn+GNNlxZu8RR1P2cgOThGde36nJH2xC4gTkPUZUiRIX
+b2DRzzgy78YbZ6u+qfi0BsU8GV4P9UiJY1gu6kOKky2ZYwzVxE9xrA/x5qsoxtSdydd82xi6ZDE4JRm04v+U5NnZ7K7zmaAhlSCTy9MDDkhoBxD46O29MCI5
+Z8xs4gc8ng2yPKvmlkTCNt8efOnym2VcbMaHkiVXjgx3hxmQ9uUPmpoGW4GXmN8feWJmOUrmHGkoe8a85hEO7USlEIIsp/ct+GUArbwB5nuZf93CQc6kCPmt
+4Tfg4jONaeHmDVMmMSoRPqeSJSzCrbxBrLyvSRK7dnmXfVuQ8vbKW/5uE9JfVfnZs8cZKYKxZ0+KqY/1leqOQSJB9fdlnYr5t7kePQ3jTtrMUXDEVH9K9+3H
+Y21TBL3RXK9q7vbEJbGmp/gzNxCq8mYBTq2dkFek8H3mk334s6ap5xOTbKvgHZ+aDDGs7HpLCBF4sRNOD0wqXQdHnUnM0Ws9fI1Mq1r5gjE0gx5n1QNGgIZS
+E4Uzn8cqlPfhITwxE7b/zKPTrLpf860xpV4gu1u5gSoLSCJkURe9GUNqREBbD6zrmWlmMdhkQ/Tp2n7OT66uboBWNKsdN1UUqwFEmH/wnjZ5dOasQ9MgLTsU
+usHEAjpjQRYMJJwI8NB7YyxT4Z5TL0oBc04lqn1+MswRBmTUObCv+mDz2ImRGqgR9kdWqmhssmmNfnbKnXr90J4iwZmPocPXWAeR/D8XuXFw87pbuyle82nZ
+9Yc9aO0193o6f85c+n9kTrGpE1GN9vgHhn1IUaqJBzrBqLWt9QdBdulM4x0B6S8Woj2OIDq3OzGHavW4X6401LvDKt3nPk8lzE4EknyIrmh5qlIXJ2vLm7Cm
+ySF4OT/1stgOVrfNa1uYqeXbVf9a0gT0Wds6otOUp7fdtUsOKYJigGe3kUH39y03Au9ohgBZhPfLTut+dSbprkJC4ImThXO1Bbn7y9HkCGHXh+z7KS6asIPd
+m1uI4CiHgc5376z1eM2GiSTBErhv6owH5lzlPl4OZe+jA7z7eL/SQ2zQMu+jSCqfDrDvrNzgUfBYRP2fSLLiwjKVAyZ8HtqCygNmNkkS18+tfHnTH2+jPLj6
+TjJXu/FTfiC1XhvPCMv6zBixYO2dMTWviQmaP4Mwm7wjdnofNmO+5pZqyHoms++AjKdPuMaEVodlNS/59NrQXNDJ7Y284dbizrXq+4DOykOCwqOY8QR2LSFH
+vboPU6gI1vY67n8DPdjV/7Fb4uK3BnvkYzTbLfEKRof9pyBw7Psr2dt6MPSR1XRgOS7CpR25Si/eW0ltfxm2fW7p+3ybrf5FXfdHuxyDHtMfH/skc8s9pLn1
+cdp44q3Fh15o9c22dJeN5DQ602BK6sv2PfGWg6Ggrd6sbbYAu93yvppPW+vccnStY9eSs2pFqOUvro3z5kVB9nZ62YpJYj2HyS0sS3XJjgvSLh3b/cx1zmzx
+OOqe9GGyloeL5heT9LWRFkmdlw9rQzt25q92fflUmxiGtDNrlzi3apsLH+BfUWCgIEXW2kFtJA2FJG/n2gIO9K+uIy+hPL78871Gf/38MGzEIaThUa75QD65
+OH++/BgnZksPHRLun1hKfTAGgfG4+XP6ZsGPx7GkZxAPcrzCmvzaatK4todQePmJMLnQrSh8yeIZlXOU5DWfmjE+pi3x8XlxRc9un8iwybB9+Jwf7Ug3mJq7
+7ShJVCZ8bsGzJtertSZVx3SQw6zrn3mwlMTbp/1JO92a39sSck3cAd/ZMJ+rlsQn0TX36+8amG/VCoMKmZgYC2M+NWnNxvXPSy9aej8ulCHiuD4TPxHjPq/9
+dBuu/JHlUcnf49kZzZjILrcLg/stlPVvT58DFVFl+RGkFjZkaWVVNIMPeTxaLfns8DWWJLKy1dqSmczmio6hkp9jK0MN/RNjDMY2gQHY3eWlOw6qmCtGT38d
+ds/oiGRvTc/9/H+sJPv7EacnEsP5c753PnDHZyKAbtQqWeuVGDOmevdiJXHuGkhhzAyLj5rh0F15v1yMupfPwuQdE1XC/DmeHQkFqUaQq2UgIUqTz0wmy0OK
+MZ+3XGMuL3ZXtOwEd4GkvJCwPcu/VjfKvzYIKb8a0g1sqq7Bcq+7aNBslPDQz8gSoSZGfoXZR3Ets+B/6VQy3AvVCT0VeGOfkpWCcuXsBcMZrwQGhUV/b3jN
+PHNvoPWRNHCD8kKwW/5y9xBRNRtMfVB/XuO5ONctT5qTm501Ss25iUrnXs4rG3mNoOWaYmGGcHP/tZysq5Xj11dLg9F660V0kS2uHXBsj9yAI8WoG94zeXLa
+MON/uv6dpj+A+myZQUXYGnpZE23R5ZRi3X+0JBXMnaNJFkAQiE4iPJyEQgzvhviX4Vls/lK7y75ehLSJRQm9v6/XzF6tSnqCem/+qnrfK1l0VNQu/T1dd0fD
+RQ9/Qjuar4meEWnaebtnbDgyaefaW62nk8Gy/o9xWHvq9jSqTQ2P05ZHwyB3o9ajOGRqo//imhZiFBY4mPfFXMk7xr2cRpwrpiVNRIJDpdogDv4P7FL1EpZR
+dduPxZ/zWi13+KhOvSTInI9KbZkz7WVk5G32E1/38E5AtoM9f3+OJDEHKYuiIWW5soIt+1mzVi67ehYQl//Ksr22IqbkSDSktNNlUWgkgFYQv07efbvuLT8X
+p0Uo++BCRTLjrOLUMVOme/6hWeTG2X3nABZ4MYt3HWpZwiMmpN6D+VuqnZxYjFoEr1JiJa3hnUnybnznnWjENmnAMquyduLjKHtpHFeeebF5NOtBMLD7MQPw
+UERY89d7Vh32PteGgnFriuUs0xn9GWnUoru1ZZrU/oH4eBzc5OQzKBk5xcgKBxdnaYU6ImBYxvWZnopP/R5FeM8Wa8juqQx+simPglOhzJxotPKLZPXf2tP7
+in3TlzrLwylPcdWq0Bg4CY2+bo9hDaMint4Nl6FF6dJkhMTWdTZmd4UpCkMuh9x8yXnCaO93dRFPzHlw123ePmitueGVLGBMmfeiW9TTFcFyMwE6KPELvLGD
+W9CpOF7XGkE07C+BGfvxmnPhP8gcARIYx6tv20rHq8PMSaADy2g0j9dt0/zq8Spx/ZWubo7rFRdfv9HVHZc2RlAubJYMj+t8s0N7XMrLNfL56VTdv5FRQvmA
+JA8gzDhPWpCAIc2IwtrFw+Nz5j62eNAEBtJbo6ySZIzRHe4VREt6XNvAZWnyO/CF2EHgqaJFkMdm2pfVFKSUVaCrKQdOjxuyBnxcmRz3oAO/i9/+cQ3Izz68
+85OcwUlCYkDUN+REICxUgDwW84sBjwfqWcdVFZs6EClv6aMdOpAXf54WRJfb3wfiTINwH72inoaU7xVlSKiSRqAfDrjmeV2SgWtOPoPq0xicaTckX8f27rf1
+NUoK4afEt3d8q4Rsfh34kIqkoulOYrdf1LQCzLHtFxtpXPWrQF4icfwqBqqLLGqIAs885SdPX+83Z6NNRWj9JFW48mD9H9KVmKQOUM34MvplbhjIOyMq/fmd
+hZtqLDHlNd3PnERgdjgLK0juj8Mel9cMKe9qnM8hBUIP9c6HZLl4cWzUfhN1nqs2amHx07r90a+mgUs62TDPnUn5/qWMJaNHyOolfgabi9MeY2eu5fWZe3pz
+0mlLSxkeuJQsa3tO8Ilxo+xGjyKhTzgYQfwmHOZ7jFLf+UMMHU1Nqx3brrqHNjpWkQjTg4hIeGc33o9hW67ZLGRpJkLsBWHSY9XOGjoHbNdp0QNLL2k5gG8W
+gpiTRPc1MDJvPjGU5Ob12ok1UX1NkCfN1sLpsmHZBpLAAo1pGuasVYOv2l/9LTqWpCl2F2zLQulHt3uPrX2prsKceTvUSbXUxmBj6wFI6RWIKiTHVj9lX3Vs
+ErgwA4a0xgEde8KbN3bHeNV3kr5eMtzKSMbTsCWty4qC/a5X3luxaOg1ldfqlLQMLP6KO0qREov2o70yyzD5Emz6MumhRmD3itCGC0dma8rD63S88CK3vDCg
+GZYPrnnrmuzMKiJLLFnmtzEdo8PSukUwTGEBOFBPcjzzNW/RERqlVq+OrdBIbdoIDNiIp2Cc2wbAdysmfrR9Gn9sw3HVsVFVIb7tiIBfDL2xpAGMwrVwTz6Z
+wYmvj2JgvN6ohCwxpyb9obM8Sjl3AFCIcgctyEjlH8+hXTd4smZzjr0Cb8I+D5BHLnscI16FFs7vmd7tTfBgYyP+b/yyKnGMoLpPaQaVj4/EkE4sNCqvoOp8
+pjUmNtCzAxvXLtPr3gqXLVGZmzfFYxy9E0P5X/qYXFFwkNlBj33vOBJiLI8H5TM+7Bi4oP77pKieLUV6bwP+fsm46pSvUh8E3fz5ueuxuwOavg6DOmDdDeXd
+/FlO5IBFnmO8X/ODeJvWAyuWz/ZLa+bHT6FiTuksEraNJVaM+6eHG+/IngNHR17cGMpzxe2wfiA6R6ncGmjQ/BiuZTf8QuGd1A0xrY+AyCOMGAdUD6xjCIce
+9Z0CrDHrZktCMIyB9QapOOFA2vhILE1cDhtAFBmmgPjhp3VHEE87Z0W3KvIESwEWe42hmWGOleqlQw9Ur3KsEM1sbuphLMgfGMKePADBcs5rPOjAaKsDsCA0
+O8AhboZskYrrW8iexCsPTaYdFWluWvW6R2NKUdc90+BueEB9fl51d788DRbFZDG7IZDQBhDrRSoawPiea1Tdh5C3rroeYQuVSlfbZ2A3omtYRgjVVjJCiqs6
+dQM6r8QfCU/3w6sf9xhHVW0IpbRnHqJC0+h6/vjRwdqsCv55q3Ed25ne0PqAJufdJqTyjZZLoveiIOnWCrLkrcNs2KLo09YdTNMfQTpqeJJiBozsWoC3dikf
+Wx348Kur5WCzcoAdeMMb85Kj9tecSY++JmtfTxTRKLTq2rf+pGZmP04jfxRLqmaa1Ts/cBzAhd1kOjveUcyK0o28UNdu6e4MoCDGd7/0lB1kOker6X3K2ncf
+u/GHBLIsPEDcQzxa61eRZzxQX4sQs1KDWPMQv1SBedLNPJ5RehOI5G6fF2K24YhXinjLi0WRgNbclxd5GyHNeHn5kZVX6+nKq0TDEFMGAlvpAxYTRjQR37Sk
+gda68lP6eDiGdHWygaJfhLN9UCDB0D4q2JdaikQUw13DO0/5fNbl+bwMM5HPpwseK3E+T9pVfDW6fHNoipfCRjLWi4diVKxTHuW8KIHyV8lhljUSxjwfVQfk
+W2HegGMCwNfKeV5ajkBOwcSerIP3kPjHmgg3KFR8lJ2FLIzUcG6f2ly2xIgUUU6Meq3bU2T+FOB0taxtT4PBr2KEkHZi9QIbs7JOxL7iCwbs0u8KDBdwjLnJ
+EvSQNpEjRNsJ7RoDh4Y3Tx8jTraD7B7ul6MCVo1wkfdM+qX1sbwuU7XMjunL8j1Yr3ADCmCBHHS1HLRV1234uya5AQieB1DTjrwz0uwrLmbngll/Lym+0vQy
+PhszlCVQEJbxGZVvyu/b8vjWtsbCy4yt9NqQp+CGSyBwClSQA4swhtLEnl5wAxd/HEaSmnZu8OF4Gpo9/UU3VRSUPIozsPLwYQ/f/+ECA+ZSfUA2C/jmi8CG
+qnTv8decSzclYIqrH/gjnT+1u8trlsztrmnLHbp4PRRRZyIv/SbsrLaqVRys6hCyxAts++6xz7856Co3lr1B3XYhxMVot9x8l1s6wIFYu27t6OadUU7/u2LM
++hYi0oDnFb1kkr4RpYYlDRmBiJ14RA5pSH5JmJ8e4zS3awSJExgOE8EZ04ewucWpG68kDaMv0qIJPopNZxe1I4DhdsCNacf1L2h9x/jpqrLCA6m56xOCgTlg
+3ITIwKjLrDS/jRJJWp6eZsgCb4dZUrR3uPbE8XGZAnO9zkFEWs+UjpkbycZkpZ1y0yAILepF7qTR6sDZqXMQhNCeXt3FR/9l5pfzRhgToP+xyHd87S+3LfaX
+MiP7i/faXw+MeAd4yk2EPRv+7Wu/6Cz2S83WgGceMQzaMfrg5vrOcsV+HRMeq7jsiLE10j8IrT9fARj4q9y5ajoMMg6FhjVY5wx1x3FstDm/xjAzD7cFOjjL
+XsN+Dc6BQIJ4jevx+JOP3S9mYcDKgzuGb6jM1WcCV+iQY1dzM7+e/bxI33lFs7+nBDXLn/vxft1eMxijr/t7jWuOVyWI0954XCyA7K53Ua1jJPiznUQGYVq3
+az70bLiJDvySPEHVYcDidWeGqFD7DBZEaBJg7NqAxcN9cFc92KIZVkgeT9cu+BoxOiV8INwqHonpdzTYnWEOOF55PJSGhtjLMunaw9gxNNqJTECPJHUWXVtq
+ZPbUud2BKGVKjQmgYTemlCH8XrUCDV9MMHpLO3M0QvYWBIeOe9r1Ahj9gNEqRau7x0e2PYUqZGUVZ5FSqVj/EJ0QSsY9366eq9lQUWlh0A0d81URQiJl9ftk
+c3J3nJzQCj5YI36LgUjIY8sF3m2eumNq+yv9OGaqUOxD29KqUvRsCjKU2w9XDQAyoiwWTsl0xzTqyevTG+4bUv379tJP3M7wnGtYzxTY/tgx3BkTLcRwfwpP
+29JCiHK5DaMxfEJWlmR35yN5JeuPO9KNOyYbOPXMkXSQGHnZlEOV7ZBVN8eC5SYWLBXEd7yjKgsIu7vyvm8akQH5eDcK5xTH5pcaXpd84tkm4jK+C9YmaQg2
+53SSCYVT0EhHIjuemu7a03gojzmO/OHwYTFLM6Tabox09m3HbazX0FNGGN2smbC9NuTGg6T6d5CDG7ZoiPkOtxys7chGtkngvi2vKV922T1UtQWs9MtBHofZ
+rLXFgGwvYuLkeBZi6c6Z2S37sdhqKeukBfBjwMFr5g12oM3U2Z5TMp0JmR/RHI5psU1e0DFp9ODVEKfMZ9U87LY8X+6+K+pVv7yJK0hEPVpvt7bvvG/DdrSX
+HbRCum/99q7tDXrynNqQjgf5xrfud8sf46t7G3cX/xqI6DMX7qN6y7BBR+1BKuaHAgt3aidsjxlq5v6MzaUIWbQVI9J5aw1YkKOVEvkZfdAE0818vM88LrtP
+RYWS6jDX39ZzqOWFmuBU7iIfRwAjhh3hpg3ADfU+F/qSufwwu0AHGreB44cRK6ZHf8UzJ+dJKbRZo7/A3ahWhsMSAub/o2ykk5rTFJnEOoRLXIVPYcpkB6Gk
+vusz5XL38f2++CgC2asTKd0YyPHrcx+tPLg9InPGNEKy466QkFYowoLxES7lmyIWbYxx/ZkWe1mJp9Ri6N2qHIOFD0Pi1E9zPLCyXSR/Zyrh9h5ipidr55UE
+31MJMYAOctR3WEBa395d2hU/8a9qC7uomwd/nPSvH1shUkL3CgLT+i6E06qC7bT2GI0k3plFAZXW0hSgtPMXP9MxfdcEsophFRpHRyzjMMdcJZCNNqC0r2e0
+5xopKSePSafELCst2bK//9S2ZZ47ztGSQh/lKXamDbn69VrtyvGDZAFWJi6AB96mDcFdmTXgflnGnSfvW75FamHuH7erSfaxncq2FNaM6u8Mt2lzxhwnRB24
+ciSISyXaiDHpapsvc2wE+1w3KIcQ5UxLMRZOlqw4nr1XXD3sQwxkI0Q2yycPF1P0XQOzEcakkK8ACVmMlTFFRKgFGYrgy5LC3lCCL7bOU3l+ke+oyu8nN2LO
+laqp1pFxQtgQgY3eO2NxGCzuvQT7YuimyAgb6Bzs6F4ZY52jIxrKq6WsaJUL5F0HxS6aJ6qdMbu/PjakPgMODtYUvdb8DFac/hikKgG1P3S5TIf8UC17f9Tx
+byDNERJ/E8Jiu0bEmTbB7MxjOpuPLY/mpHivbwcm9Y2hg4AaycFBFj/9lFzT3+uT6fJecwZBQe40QxDnm7KekbGU5pzKjs/4ZLtGQqRZg2X5qdVnq0EQZlRr
+bVyo93tepGIrhGCSjv3qozSLAsbHM0kMS46/g8z3K/BjAW9HrNlltj1FTXadVhMlkslUuIqo1ZC30yt40UENZRNbOF+rYGEo6AkwHWgoII+XxGjTvHnMWKHZ
+ptRmvrMRcKXf1C9uQkwf+H41Tc0AtwmCBma/jNPc0xRmKWLSa0euVas0pqt2FOxxt7BZDQmI3oRs2X3zfTSmKJ6aSMWp64vf1t9cF9u1nGdTkFvJQGbSenrh
+6m4zpu8PXmFly/g62iU+dMVF3a5iTT6ha15b9NnCdUuayd1RnSGu2aE7PcAiuAQxJu1dHZDWp+PhFFCxDqHMPV6NCMUYKiUxWYO1WrrXIW0fBOGI/Vee/3gw
+nP9/XxRG3kwEVYHuq1Yn07XTEl5g1NKbJ/yOuupQTF9mV+YXvrR85B2LTJa/Tnby1JHlXA6HEbXcX4YDX1R56XRs1x5FhNyCdcansOzxOiXqVfmdbfLLzzw6
+jma9mbAN3ErKOwTG/0WNTuO8O8KW2U3C2PiG6H0CwheG/V6UMs8/WhoVHJRFj5HRPd+OfdL9bUAuXpQnDvACnujGgbm3vDuJ6svsSfYkxzVZAx8BApuj5vLk
+ay9aTaVvKfYmXqfcU6JpKK2xKchdCt+81vkzvrEqG0w/MBJ/ULl7135F5oByqnt62QWoUSxmZ6aeg9cM1bhQft5x3ZcfNKydKY4ii4K8IC4hAQvzwPEbtmde
+hvbRrCjtKMrCYsa812R2/CjORHC++rUkGwxzylg+o7F0Pwd8xuHSBFcVNJTsM1w48xl7Pt5PqWRbFH2a8SJE6MeGeKtnptZTRFV24FjYTM62x9rtRSNSaIFD
+xty3F+w2byyvSx9r0J+SqSlPO2m+C1LJnJpxbdn3kh1P2ZurhGAKb4PWN0ZMmdn73REVa/bp21Ma06istrvrkqKhNTC68qJSdYD1JtrFe2KrSOuL2UtZcxHQ
+uM+SOI+ZfIatJb+WtdWEtQ0G8Zrn1dP4KxQTnWslbAz4Y1b6VQvlYJ6t93c+umtJ04yyaNizApB3lt6nz3/GX+GT4T2BYLuyFGcG3tSj+OrzhGMDfRE/G+a3
+HexhK4QgJ2mZP+M7BDAzWZm7MXPZTAPGOUjldz0yIeMn2oGU9Ix+I8yBvoLsABE9bDBwMbhj0zmrZ1cno9O0s5DF0nWOAKN1brXv3lqSOwKf9HesoJN09J2s
+TLk7LxaBoK5+OXcr850NHtHv9OaTmzpEEKZzG7N/JNMq4ZjAyt32/tpeylNur9p8YG7/PP63Rn+0/avroaL69u/j0GD7ZT8kvnDEVSPQRwjuE9Nlo8wNfam2
+OSGUFqhe0qa70cgLSLoc2n6iE+dEydzarlfcyPJwxH6d7j1tmGaMIJr/7VpPuKnmwo4GfntGKxWdXmB5jAFPrPMiXdMjeb2lgjMQvXOFxPCBrfyYNUdW4OUh
+Rrbbs3JTzFa+tvPHXdzoDbXesWFl9oX3sy0XzAEk9+kuo+24kq2pYLqlhceY9G1Y9WsCptt5trgY6AVs7bTW0DaNMQkRrNH8bCdeNzYm7acP5vvZUgpU0bec
+9G2K0WxK0WwpPbMdvGCT2NPVzUMg4OWiYe05YHa1IcrIgcJN/LjdtkTUAyJtNoAg+YHFRLQztwPX4wJjCJBnNDNEjYxJIhzf7ukg489JhnXbMWbyRqLBUkF7
+n0ORlcxI/ZH60WwfqYMgqOtvLI6SvnqLAD36TaS6sPg4Z1x3IiffWH+LMKUdt32f8+k7Vtl4HPPIiSsGT0dPipsd5YCD8Mvm97G+asET37b+XmuMkLc1Gqr+
++kL52pq9jg8UplkGmIFunAzvXxoHw10AUoF+nwvLadgA2/QBSvjFsns02ttHAh7C6AykBGasF2vIK0KUPKg30Z6AbpUFOjNOyUDT9DGP7FJeJ/gxizWJCjms
+7DWhqY0cAnp8yUcVyjs+y1XJ+L3+sGqiE+5PTZ/rd5r72tJisY46cM+tU7ZtvikEuCEQj2EwPuTp9/KVpssWQ5/vW4xwry7+ZNTyiW2ybRp1zYCdZnOIVnf7
+thi/lURjuTASi2UbX891nW04mq/LTcMmG8qVhvH4YW5KfnouT18/6cR8GxSK2NhNRhRt639f0cRGmUdVWCI1PduLGy6z+SAQd9xQ1FkZRuFjqPya2B7Z0w3X
+zF/bYy5DfArxng8XalHU3ZRK2uoQTSZplADLlDBGc1IfT6utG71bRwtaGZrhI4RlNggbzAhFEhBvp71Wlj85/+cCecPV9oYjr2iquJotLLYHIGUEClKkeouj
+gbrrb2q7rejpf6XcY4Q5Z8d8FRcp+kZowQTuKVAnX67/aPOwBB9ymVqKG2hIN7YzWYHLP0bE0SJ9ra8zBcNjrMM6wvpycWl93aNVjpkh05KYGq7T7wZOSDdA
+oks+JDesKq/XO7fEVmxdr/jfZEV6vZoecZDR87zO2nxprjEM1Sb/yh7dXMVIVgy3Jqr/l+OuXD1KB0vr9iZV25uXiGHWGwHKwBiVdTFcWtlPeQEpf8lehsbU
+Ghk/JH9yjR0SlRnHxZ9LK7aoEymoFc0grsA65Kqm/hPsInj+ZkqeqagTJBOAZMmKnPcipLDzaicHVB98OFtaUT7Qk6/sfhE5gwAfcDhJEw1ZW6ZEtsP3PZpB
+2XXLzbgVRSQc2mB2H+t5vyUf0SnMBGkVDJppZ9afYw60s4mDroSpEawrnF8vAopkSx36QPfI19QsT8G+dWtjn5XmjbC870Q40aKsm/k+xgz3H0gCB870V7UE
+ehxQglseahM2kbgfzzMfYg6nRq9vqz+Qdeuu40HedSUz646bEtTLo0cinhv5NF1TvMpEH7F+4wP6a2XnNO4f/9GLBsSzdRRGOHOg3xHSnixJ6wHWtq8avdVv
+GhJZU5QlAFtI1M8xBpGmXFsLhNR1l69XFoRXpKXWcTmoA3HPP0LLZvT5kzL7TGY66lNgGiIOVsaON0CGthXrmLLjvElteuHBztOQTW3wlr0//PCmaHifrNnJ
+yM2RSJ7e1b1/CXzZz4EUiwJgjEQqqUnjH+t4305zUieUAq0Q63Rb5sx9Yggk0qKq77+mrhi8+NvA1C3jcb8aLHM7U3+39rox2teSlX4W1/5CZm7to/1dq74F
+AmLavNYXPo/xSvqspYOo1xc4bNsEVo98p/qr9S3Qz6c2L6OrvjG9EOfvq9L5ETKzjiypdPMR+mX4yxXR/ea67IqlCMq0XngbB8ytejVVzFUTQpq64zROTCkQ
+HG2qlbPWbFvYFSdMu4FBZrx5SBg/rE02GjPSnD3mzIU9Srtuq1PVld2zCJe3lyzX2lqRuuBThS/86AQvmxdfGTfIic3KelA3odcYnUQXKEYwZndS44vYMtfG
+PWEm0rEb8+xwUC6DNzoVDECKCbd0a60d76qJhxUJTmLGDIu2CqFz+4kPIOsg52/4ZghQ2W3FniTrAytimRZRlif62FTJqifvgCFCfAXFjzHyRVIdzMPxIKyz
+n2eJSMqr5b37AAG/aA4H0GzF4IYUFMd/NIUwJexgbDpqZ+gbbL0H62OF6PC8C4wE+HsD0VdcdfAgzE6e12ItKPrjDODxJwPKgBIppYpHAgh6rjvITZdLigP5
+1a0KndNC8aI+3i5edyWnXcFaEeR8JUS4XES3jChZQxjDr2V+csWsMQAqFwG+vsRs/sp30c/bWhSbDHhULh47rhoOdblWJhp4ufCOHnuvLGysnc/uWTU8nzKM
+h8mKpfTQx4PxYiuNuxUsXktn947c3Sh8Etkhz7iy7BpBVmBGYiTwPuCt7CZbRh8djQ6r5EEsYzV9V0TvuP3GKtfyer4i4uV1tklaMqBMER44Ug1YvPa4c06t
+6wC+zxenUV0JmNhBWDCYurzuR3R5XyoNL9f7FdkdUGI6sFyvE7uRktYLLpeuGpZ0YLukZ6C9/EqZJIgrcTzzEFEownjxJRUnk2iUYFF3kpAgZkM89WTeGzAp
+vbvo53u52vIopO/GORrT5UrLGUnY7ZZEeOA/I8BHH6hsLfjy9tKD5yHq60nGoICXN81i2J3TiuUH4G50wccQmRazR4LRX7JKBFGdbdGDJSFJWbs3a4UQbWDI
+mC9LPibWlpS0AYbc8aeZfBtG4Ag74KdoMSEYrpTELR82I80tiTbvHxgD/PbTnIXUHIHn7NUfRrNp5gkDbgxukGhvXe2BWoeXq9eg5HKp/xKgccZULF90UjGy
+mrRc3ZHlgOrwgH2E4B/XWxg9Zs4hGhsqWziqlmONkl9xjUmOfy04vInItvfbqra9NwJv3dBzWlDlJO0IkJDD6I9Z69Occ4AHP34d24Ui1bKlN7vAmdHy4qLS
+vEnqqXC7FGt2RV6WCsY8Y9nOdFMrG/8YcpribGr0e7s0bUmx5jF5tjV5jgWBpAvAx4RAqD08SbRM+jlsvM5/vHOGEo0dS1CiL3Q0wQVYMSSYfsioY/ylsYSc
+ecwSPXif8/hWXr7mgTE30ToTaK4dTn8TOyNCW4rt7tmXQynDCOvdX6lJjPgzZVrzBivTOwjX4riJcMyGY9vOW6oUy71ixaj6Kxn6j/7UjU0VLHiO4pZtJar1
+eW0Wxfo8Wlmsz/SUBes3p4NQdxQbEe9lXiRl7r3air6tx7F5x2FOrwjoY6fP2oY+o5DFFKPAKDzIgw0GBHHYlBXXPG5P61zLDXJHY+zx/6hs9DVXfTSNxuwW
+ioTBGtibfg0PL+ij8txZ15fLNufjmFUSbnYaWzPuv1iBG07ePqdBAY2QZ0HNWXPnMe1XLJuyTQFdRlV8zzmtGCzblD7UgiCDsWzfMaLxy2VNx29vPP1q8bbr
+amBQFiu4J5WVwVs1Of2m5EwQ7Gvyug9fNh3QLFuMf3lIVfhtUe102brDIom+9puRelAaGX5nM3VBWZOsnHGc+rW41BKhVVxtlWV8FewzSOLC8Z/TzSVF04Gc
+FcBKDwwmX+VKr8DVAsCiVABbIgFt9TMYNq6XUcuX+VmM6PYqrMt9x0ING7P9Go+/+w5TY8ekTiU509w/B+JW/pRsDUjKqnkCkMYY2finr7iOJmpF4XPOE9YN
+JGu2zBLfKV2CLTra8DI/G3xE5dWYV6QxRnR31VTRgjhUfnJY7EGWGJKpXGx6xvlN8GtKsJoY4Vl2ko3Rvva685wTJphDFJCmCnEOnz7PKVSuHbUjMb1hybBh
+1QjFhMFrY0ENDfCFYlDrjR2j90VLXk1o3IO2zBj8duAvPAh77svI4uYd3H4aPouQxTINhclskPo2JL4JJ2IxjN1+JoFzmKYtUxJGGKDHPY3P6OoU1+VuY+Ld
+TMRsKjPm6I5e/jJjlhu8vzV0L8UfX5CBX9jdAlxslFQm2jHhPzZL+z4pv+upKUMtkS5Ok5VgXnJOvCXJWTG0/HSJ8XQSWpEYJFL8K68Khi0I/iy3DRE6e75c
+uUpKAddPpw0ZNmXMlop8waLx8IDL3AAWe6F6RY7WJ4YclpTpXpzMrmIOp+ozY/fDqM/Ra0ZvGFIaLRiapT7o2XQrYT4rPutcr1sUDz9ETCNBzkzvaaOmqdyf
+RmYhf8VtBx9nxV8DoMV5MM/ivRvA3BDkEwsiG2BX/hdwvEcyLkaJlHx6uQYPzfZDfO0jF8KWNCoNlDHPE0xo/BLpMT7zseh2tzOr8fMRitETgoOJOD6xspOP
+2wm/QUR+Rn++a/1pqSmeLhYhU9HaKSQLc/kK2ptgtOmXtEsVMJnY9Tvv+nbVn17NmsLK0nNLwlNZ+BDSIBcsL0etJ9FhYVOMBcdiRF09PY/lTGC4EvJ2i2Ux
+4GmL4ZwiJ0vrbuqcS5eQthAPTdg6K9icWTln1fr0uxIhdR1hWB0TGbhHVdQvc5Bsf9UtJ1zvDsdZ4vbnatmwPc7MKsa+l6edw9QWWfuGHZjf8uND/843HVu2
+q749lCwQv5Bx2PL7G+LjpNmNsT0G8yBGhxd5Guo6dOM7JrmNEhZHYoGz9bnHn1JATEIEAqcuAUTc9zl6QCLaL7VvrpWXyjcNHPkB1mUyhcwzHNfX2pGWzjlc
+7TYne4iiE2+X793lGKZ2rk4t2K221mTfWx2W1C4TxGbFlj8SDHlhVd5/wR5jvrJm9bhNi58Lus088K5e1FKV1PmVsPC2cL9JKKZLo+PL/XfM1vP+61QjYFaz
+H8ZI5v7DgPP+RIMqgKafOnHXhVxvB3w/f6OjSIZc5HJXyYbadT98I+QT0OyFaHBquSM0qh8rKfci6ePM6L7qvwDkma6gzh8Csh4pnnv1urpUIav0fS2vKJU7
+PT4QXxJj9jvLeSjALnckQ7xyHh2V3tlsrEk0qRYEvWCb8KBPDAlDPJ4OX3LarjzczD+kExtZfe7kpiHolAH0A4rS+s0bkaD8lazv/EH9esiSWM5pTrIyDbvH
+iOplqYyrE4E73ZslgxtMm+Jg+KD9Ql911kPocu+vbJYlwmqtTOLYHVo+DFMYZ2OAtnmSZDnHx7Tz1D7fvZ/Z6zkaVcBXNnx+vU/PRsuvSLot435sEsHQuU2f
+gt5yGeHeD5mEobTjWj/EhuWOI+r8pqDpURb6efWiedA/ygtGmCXx8GUiQqtknX8zBytrFz95CgWoXhafOXWHzfMnj2jP7y4Wju4dO7RW067+ouEDOZbaGBYk
+G8MxG/R+Hfm4e8Zwv5Zbfnmy/CUdajW2foivKOPDDuZ73F1wFQnxsZeV+r5ptjHZMjYysbpogd+ZhmfsvoVk+dzRLhnzdLYS8QXpJxLGJOfDBL3DyBjPZNEE
+d53K+SJHn9fBg9LQCii/NOvCfS5/55alJBm9d3Akcb/rB8+4y/nMRBYXr5I9W0TlaJBpKtbSe3sNrZT+NsZqvnTO9uWORfFGlpplhqhvOzXnADZotl93/TOQ
+jhj+P7OSlp9WW8t1ttSWyxaHBBpTjFBIgHXnhkZ5jAHK++16CGiIYQPxQZuR9O46QnlfhvYE5c3Dysvt1AXLCRZiQY2WiF7M+ZCtvRdxEtaqkuyCodTVy4Z2
+f8WviNd05FL5Ryr+OVjFVOrqu+HJtHnIDE5BlJ/ChZdjtXhzk3Y5OgX4egJzKa9cB91bgBqcEB54oZhoJHRZrCOVMy+fa0ZHAp8vLnliJG9KMtQfx83wmufM
+gehQTiFT8XyO+apPfVCAdRTPy3C7pjx/5PU0qCW7p5KDR0+7ehXNwW9m4NOuGjetqz8PTlTTD5qp1mvhgjlew7ndVr8zrff2Hvd2GbKrzOiQ6M3xEyxP3P12
+y3m9kGKCHHm8D3lo9iHyy9QYzbmNncikY9adZOv4H22/54oe2yupTrNoguKZ53JeDWnH+Xv537V5IivPyai0nPMnr85ZvTnJ6ju0Qz07LIi1fd+dRJazV7By
+YUvHZOqmHhIjnCbfuqRcMXCUdJC5xDRT6RLZODfs5/a2KEhHeKl8BHEGiY770S5wcgakZtei28zqN3i0ZVlIzw5NUmzZ+uR0YK7ZULfilhRRTmyHumHBG95o
+dTqO/Gj/RJal7pUt5fhLwmG/Q9d2s8QPhD1LEo9zqaSkthyYBdW++WO1D6Lbmet3vuDkiSnr5DFpah1SWz1mSdpagTGsLdECOUaTMn7S1l8FA/2wQ+8dSctD
+zHQjMlnWxrI6H32eqD9WhEMlMfBIiOJ+S3yBXK3FKO4zBTO2POpxLr7vHkymLoZDGWFUgvfnukGZ6WT5XSarmT3Mts62Up1H0/hhf1GULMl7Lj9iEbwYEe1D
+YmZsObP2FT1VbEkN16dvVFrGKQssmt/aHCXl/7v8ynVglk/fbly4usHAhJ/nrqwT+FIwILc+EFmfhGpVCeytKuvZ3GhBo8dxPpvy2UBKcMMcMNAk2DquH+Eu
+aG0N9rq25mn9pGFqX/Y6amwmSK7SlLW/boV8XR/5pBTNgDjlTevDwJwPsc2KYcmeMPhOd/OWdeg8xEOV9cc1PtHIb0ZVrO2rYleLpmCAJTMTIUjunPNzm7NP
+aRZMIFi4BE2WBn4A12wLO+6uyZWPY4VktiYxjc4ijXIkAfMnU+IC27+/C8dsoeZeKxoLSxNva62T4UL/hlombDWTojnxdec0mA6xT5vvmEJatANM+JtwZBmi
+iJvRZP8wayhlKROLVbje/RbNwCkqBOX1zX6KeDdF3+O9ASGS5UsZ3yZzdI5RWjc6st8RYY5xSnOJLPGTHls5jBq9VxzISFo7Mnafdx7v9qBDdvuDW4EF8Uq9
+NUPNimFb7DScHBTWFUv7RlFLWUp/Whn66COItT/y8bkGAFgLeyRyQZQJlFmDH9m69tuNhUo+VMs1UOfYMiNrDSuyGxlNP3pMylOEP7CrUfUvGQVqzOWtXDvs
+6dgxyJy1pdf0M+jWRnlYWq52RVgsHex6BbCNSySdTVCXX6zrCKUbkLGA+Ml31bLuOqaMqBFkw9+1i7v8JiiX+8/oal+JyQmzG9wG+eycnWfpovKTJ3M84Xxd
+zIl5uTd55GC57Bej0BiIZAbj8Hr0ETG1XUR61l2GAdYrb6i4P6lSrRot5d4qG8Zt7FJRGWw16I4FB2MdbPnyG2vtgzZDArorJ4DYiGaMZS60edQgdZ0LZG3j
+ldRqlVOWTAYv5eSkKTQvOf5oW3wcaGkQhizy0diYeSbzJtYq+yR2EkwzjCC+VC4troqVcvz7ml/uDM64NyBkbjO/EK2eF8h9+AbKEGG0CbO2qOdXDNrnV3NR
+OL+wAprQt+P2Q9TP+Zfx73zFSCICn3X9jHqxCsJkZNZPUYTYtZoxnhYhQhSE7m7EnPBVDQmiv5uvpmk1X/vI9lRgaeK/MeYgawJSASJI70o8JP0jBsv+Yr4+
+DrFnxBEiZGnnSXyLbu21nUBYuounMXqcL7TYIuQtfiAxmwFSHg0SAStiEeLNNrAvN6z+zdfjo6Uyf16g6snkQ0hJmr+fkXFrqaxrRuc+ZoA5D1G+r5jyervl
+Gvd8dXQ75ESX+du1+z633ZE5nC8vYTXpNlosdwuKLS1CL4z2GYVIVUdWMo7Zv1cV3/lT5Nct6wBIgm/0GcDAUfRu/8oriWscsrI0yu7yvDHDnLeXckCBzC/n
+VPUBWIFf9i8kPdKpxYxI8gEwRAuIF91+dAdMr4t1A8gDRRY0QJ6p8CE1jO5jTjUfsQnYQnOtKLrs34JZglmjMac4FiFaE3w6QLv8ZfKHGMRG6PLMzFOuLNHt
+wvLoV1rRxe6GIyaWto7s7pO2k8TEzR+tM1wOsakXqCUyNhHJuGbyGWRdFlwT2hHGKsAIDp5xmJfYHnqL/oDtEWB1v2XeMj+Okkf723BkWYLIdgtpx897l8cE
+xTSj1U54+NjtwVYYy5AxK+MDHCTDKPzZruLgls+KGjG1M5gM4BvZlFwA/bI3t1rJgcVsXfD/M6dN6nYB8ycgAsY28zYW2twgg2U6YGkNIOyjuedybUWDBTHt
+GJwp3B1II4R4tOFwJXLnIzdHgmBZB7QR2R5+gNuDGQRl+HhkweOJR+WFeavHb9bJmGFYIetweE1V/SHwbhsbIyU8kErWYg7xrfb5RdDAvhIX77oPeoSeUyyb
+Z2cDtt3syBKBMvuO2WqwUP4uiU9giXccf7xz/Bm1rSTpv1IVp1pJoQicJ1vyoprWzmH4BAOdM6OycxLfNaUa44zprL8KMD5/vPr5fIz+tnz0PGcW+1lPwwPd
+aOjdp9VkbAbYZzZ+ypdOMXjKjuQmQLBvyGlDWCVtXtsDrCHj/vFoERThywBKMcacHyA8TRY7SSxcHfKOnq3ZdQ5c8vrJjFgVKNIfvAniC3/krhoHt1p5Xcev
+WOhD+gJMaalZUYPBB2vsueSv+Tzs5x/G6U5Xjvx1ODYDMy++ZEs8Or8NjO54ZsOFHYmqJ4+ZXinCMTqvsXf5Zx7VBZgReFeqcUbcHXg8ff0Hkoc0FWN6CQ/8
+OWnTcXfNx4PDaz72qO9e1eKrXfbgQQhuafwLhoNgSfv94/c6aUalkuA8dqcymEEs2qyCnZ1tDOuPk9dE5L2dmR62vki60zCNaQzdr2+MiXbvOa23UAI3t5qJ
+wj6MIqyvBgPBZ5gTLO6s/+S/I0GJycZcfw4mMCC/YwyWgqiMcgBchs7u8NfaSILvVP++GzKyc24H9URRHRSyngldND20GvWiZa7X81fZX9jgiSHHAPXiNauS
+hyCraRfXPZ8nk7tZNwWHpA1AkA3oktxteFDAnbEyqv8xGMIN1azB4maCR5qBm2uTdoXMJPLEigMpP3mLc635dggLleND7hDjv3uVu9SYk/pC7MXQr7bamfjZ
+tDanYuHOd9gzxHQROHlU34ZaGoyGfs8PItK/l/bGmzZOwE9rVDdc0weupD/736iN6AyJzy/3G06htEPLeZ0z41cfzoagZ9VwBNkumLFk7b2dd3ZmIpIF7H2z
+RgmS2hQ+nnEVYC3Be3p3SjTmjk9kRmCVXVfg5tBOuRHrx5JVRv9wyL9xbmqR2jPSCtVvWy78iraBCEoGSh3NqVyA4sSvQ786LtM1ZGWzkWnXz5m9Y9qyn6sW
+3JtFnVkfullHBl5yyIEsXZ15ONh51UEHDUn/YmZzkL4VYkhVsGurimLN9RHVkfd6MIAhuscjs5fuNt/MZYEAVSPnWrVmFHjmzzkwrsp7zXq7DOjOT2Z0zVYM
+rI2za+enSaT392re36dbvrruG7v8FJghklQslQhsvIM0Q9EObhaXFq4D3LAOTGU6iIWbTl/ArlqNbjfet42Oqh5DAmMc2K9J6CBrOa1XJWdzGsfGEiXdWVXt
+NAATMwFD5kPpcmJU3lpaAZGxwhwB/Sa7QIbEV1T/CUgrc/iMMvfL66cQOs4or/sWs8vym9H9OmSGUOzltz3t9556uMHaO6GD6g30BM3kE8/8YQc5oKI+PZc0
+lA8SOAMEbL4ww73abgbLGVC50rIsBKURyJnpvPSMC8EXiehCucRIrpQmgWRDXa41m84gHUvJQbIAeAcqOw73hPTiC0GvExKDORN5acvGeyjTwlTqI2gzs8lE
+yAg6pyWuAxMS23NwYuv2TwIh4kCsOMsJ2DoRvfYLU3uuJMy55+K957RlCUnoXovjnYJca4TD7PudQxZ9+sOZy/lxiAlFHGfGDIu/FBaGRQ718AQeTkTYh/hp
+mRdtO9rWsw1jxPEr3658hbS+Ao4JnnTbey45ZS/HlNA7ACxp0x6iHPLMTGQRzKDjNjYgVAUORGMIpCVhvbxB1g5JoCZ2iZoupm+E0B6hYGTPk6PZGw3n9Wyk
+JhiSo1hyEXAaMpetda6YRjH8e/H16YeQYmSzK+/esWJm1Ndb2XIEsllncd0HrWveYV6s05klvfr2MQG36jBIPU/Jsgmzw7sgo+GQI+e01pYX9uy/QfQWGAQr
+JnNpT3MHgz7gMsTXWJJ8bnekjl/jxtj9L6dJGmN5iGwWSRyS8UX/bHntfzMGFvB9pC3HcuWXtewnE9DA2XDMdC17VF2bkGW3KJHZrw0ZtgXZjjyBd0UzDbma
+OZ2sznjhsaosdl24CjT0OvRrZxwF+rIOvf1yFzXHV94t9/q8TLVY0ElscYgv+omYN018MIhdUvneWPkCIhzNisHCtx8rMc807XhjdJDPMnPCZriaThCYTbsi
+VYjk5ZfWa4bNwg6qX8eZBWRroTYnAN+lLy6HsYg8uoJXHo5Dy+PINgeFgJdoljVrwLDZ9NJBA4yZxSWz5qGu3CazicUNE7ldWUAqJq7bLn9CICaRAN91gDna
+0TXm127duLfe7J6a5h8boWA2T23JECxOB3T2N/ouGA21z9SOTYTWlnR5K2nV+faZRAa7sh24uSYhUXirfZhMvNFwM/tv7VzFVSdGEjUnVZNuCbdMdXlmI0qj
+6nF8fpPmBQL2i5FFYEQ36Y9m+kXG9f01/byZgkw/W1tanJiLCBOBZ9IAWBxfb7bBpuulT5jAiYHpzKlfhF2BDtDG9IT18Ajmi3AkUDBv+jOWNKn7ds0SYz4R
+NQO8n5KJMMWvput4j+2242l80RteJOvg4hguxZAAspK2Iwf1E2ptbyGqJ0AQ//uILbHAR8q7Q7FowipU0LSBzlNdKp70UEeXEmx8bWy1wuLy85L5LFodRhqY
+yuU0RihjRhKkOV4J9kgwKnbGSMTyNTWTcIG3D+rzopEvlOdNvKocQsuMqdmJgyGoHeS78K4j7z0+SchoDKxvOUBfm1P1OHo8iDS9zwcObHZ1sNTlmC4smxLO
+lNz9vXD5XRXIiSVgvvbp+piMh1XexpUlgThuLH8DJuOmOE1g/Bc3+6fj/bHFAj3/KLl0pHUnkVp5vFIBYMIHZoRsGQCvJ+HZxpzQ6HsAxizgkBMfKeG+//ni
+5Wj8/Log3gi6HCdhXB9EKx2B4xulWNlpePP7gbLGDjLXmg5N+4MnmjKBe4zRhXQbNKF34CgJRp3BVD3hbJHp9g7w5sezCA/edNPxFkTP9ZAbq+UT8nYAzh/q
+HRL557THXPQoseTxaf786edI8wz7YaIqyM/hlUdL3sjWxoS/L8MeH7Cnb4JXKyDagVsuGEzpmwr8zCOno6l2SMxoUKMIUMsCEYuJNtYEpRifhOboqBoaBhfL
+pbLmG/B9z5/HvwewXtbnj0NeynrCdKSfz8BmgaSxRPJO/9mJTvNgRoD9cuYlsHvLkULzNSb51DVGze37PMpfxS5rVPfJxBc1kyYs7h7O7ycENVqEys1PWLXX
+eSvMSfDE6vvtanW3jL0hE0qfOaibA/EJ5HvpqTTFpRzILd+CzZhhs0KV0n6yudne7JXwCsFGT5gCNmGIcPPbTAWWgDJTQiAPxqIaIaJUnv8pFsl2PZFJIUdi
+qA9sK/7KqbZ0jNqGTYa5wJfXrJ90XGragn4b2/WZ/SU3q7YnObg9aeMxnVZonoLMOWhKm/yr5+jwWGOaMIbVfpzzuE2ygtGK4RI0o6mZ+mcahIIIJ0P5Sbtq
+WAyAjT+C/eSmcoywCubjueVbRSvF1x1IMJur57gxt56yn8G9RZ3XzH48mNOGbEd0ouPnrXDJ0dhrNTGqewN6VZzYg0hDMRMGbgxzORmmENak3TRg9c41VUpg
+N7yBw6bFDIjhD/0MG0X5sNGw/najl1n6+GQjxUf38rD7S2yXrxLTLB60o+4bsJMbu9Vlzx/QvhLtwtlTygj24qXFqrebY5qWA61A29yOqC4rw5CN5WLCPaPA
+kpJijWZwNkhYukTYHkLA4rpX3T99Ctqn1mP1xCc2m/L84rhnM9L592X1nK98mdlk4u4vwn33ko2PZJ51agLZhClTPU9DKyOW4f1l9PrbZT7MJb8eXi56Udpo
+PJogyBPELJvwAhCYVnMgjqg21jEmbIEJfk1p+WfaHpgAnLassaobeUf99E+wPueR8HYKAybUEfauiK3m4vK02dVvHbnpAsu03d8aD5vwUWBu3YdJ217TlkNP
+RJ2yyjQ/MhL09xrJ5nFzRWxaX59SWTOj16s7f2gJtUFFX7fq3APktdNSFE32uh074WPWR2Ow6GfqnMSotnafa3SQLiEmBWydBMuRTXyBVIR19PKRUR5PwtyP
+J+4K+09rvRx7r635Rf7PwwN1+EnlkczlFTd6AeVNPH51K/7RBJu9QC/gDRzlL+PmuEgx8ahCVDcrEtYtJqQlCE/DmOoC2oSalEcAqrrTk3v1X1NaQQxwfMQm
+UvDm3DDYshMOpyGRfjIvyJT314fmnKc5a8G8RU9Fwzp/g9RlVhKsQkHMEbfseGr7oj47Z5AxL8hNM8nfRH/K7TLTOCovwGPHZTPERCnb4tPcLPJLorzm+ib4
++TYKl8+m3OXIX/kq2Sswl+raxkUsdD+3PcmZBovlriDDHn3eMXr4eG69Is7GVh9jvmnmCeZxAPOl/F7DKn5en55NyFW4CYcrnth3pdEmJxTC3cGQHUfMoDPM
+rMNxQoSZ+JhJ5zNul3d+N+/LU2RCuscLNs/2URDzK0jznTehJ14ArLtOuNrlCGUpQiYeF80mSuJ5L9bjWq1uhroS1/arhm6m8WR+gQbm3D7n8XgVhhewc2MA
+GJgjrFETnAGTS1MQt1QgqI/41Y5K+AY097AytxJlWVtkGIEK9qlLIyZO+PrSSlhA/Nt0WO67OPYDeOqHppfyteBsbRVoMtgaYiNeXQiIQ+/RxgGPazVT+JEs
+kn2hqzU6BxgXDIxOIxKjAIpZAQzcn7It759bLmjSJGBJbSZl2lijgVj/xxkPo5Pk42AjeIcm9+SUcfymSx4RXJ/GoSl2TmN6i5rGmpWdndtPKTWH2RDMA034
+/SWkdmOOzOqhn71pdItxSje9HN+y9VQuaxquG6OrAYHgCCdrClV1wKDNpN8IcpotWtbqyjpwsPzJ/E5DeXdbLmQERVYVcv0Q4ilvZsBa38glRyNDUdRXpKfG
+iKD+/LoyEwStJKJgO9YT1SJlSzXCbMCbM3CWiFrV9vucGzYlIw/W7AirVf+kRVAb+gRp6Sqi+bhK1gwjpM78aM+f+5mTngpM9YGhubwujU5PSBAJTsVxFuO4
+EH1kwnzSvls1sleru/ldN3INaaugLVI8iJtJMYe8VjaDTbuS38z1zbNVn+TgtQFr/rj2bABB3J+ZcnKm7hHhlDmCgS9PdG+tV8Ko5ClYOkUXlHUXYugjlz1X
+Gpjh4Wr6S1kWI5p96DynwtGkivEgsgARZTfuhdkSkeOHYaoTt49nGoSEEazKmwSZs11N8pQNpG9wNFtr1pLqpDmAwG8iPnY+lZqrQzVFdKbcL5xwWEBIy1nv
+0cURVXs+O3YCAb/jDZDQ9JSMHNUNz9KflveFtGbguIwAnUeEtzyI4MXCT4QnOpNTyU+15Cio/H6sD7FQNhaWv9gdm0raHZqw/MxiEiIWUzotCNgI3CoO5N7L
+CX1pk08zuFiJV0n2wSg1HZqQh6pYhW2ywuSNmJ4bkT+plmgyGXrt6JlB9e4pfdUGFNTFYiz8dlwX2PrJcjoQD7gJT2sLLmoPf120AzHpZnrCyaRJto+LsE2I
+ClIXmKbgUYw2y/Hb2kh1a9a8/tALfRJDv9dyNDvMMKI5NqonGsrPIdGrmjVpWOtQI7j+AWzvzPkIPb2yiuizi8OHeiavG1u50Fs+Lv73XCkt+956EtjcymKf
+87dRXYIgVF5mGuwk5V510F8jWrMQYjrnye1MMLfjQ88EK8YQ8K0aqrtcE9tCNS9DGARgOVQSU3KJ9yrozzMWxEVAXfBgXSvfYVk9i5mHrK9LvhFWaIT1tBIs
+teXk4nC1NBPRkBiIvSVWZ8xFIuyp/zUiRDyMGGZ1GSZl4qkds9oegTk2KI6tpiSGqUoDe7SpPzTC6VNPJvocLPRy8J1fCKOvMmb5jdPztHcp9AQFw5d2R7D4
+3vbB/rIMmfKhbIaIRNRkhvB+1NJ2TER+94NWgjxkk6QnxR3TXAzu+WJ354RI1rcsu+/HJ8WMjo48e/v7nG6MFqJ+HYb90y6sZGcecP+7ruBxe4qKPDsOLKx7
+JxL4E9d9fV8/Fa3e7ys9foDVMC76vg4b9W+kZ19AW4IMxq4fwC3s3gKFa/Dd881S0KHvdTjzou9ruW0RzieCOIEsTAGk6/uaMtrKJma8E4xgztMIjX1ft5eX
+YkAHqPzi2jsQAXrw8YjtZX/4rdjNt6L/38j/xvT5m5KJAHG6QLwmfetOkadsaKt9awAsErDFMDDK6hs7VhEuRDUzczlk49qgAD4iMp4G9Zm3Dyur4ikSwdHI
+SLQx3o252Tfmrs52PYXAuNE05Yg3cM5XiV6L92S+HsHAQwsNdXzpZyGktJB//NY91tc3Xz+bpN9DydyIYWEEJ83IN+u49wKy9P6NtZe2/vaNHVwNBn2nK6hA
+JKFpI77xsuQJvQ9/tzTWLP3a8q0yGf6mmf82ppMHrGs+SKdH3LOWW4TLHj3q90ceKuYyZnNOtj3ujBlpAM4/HgfWHyHx2oHsIX9XjDhEaxCEyYYYQVn1QSzT
+o1k0vB6wdiBxWgm5RyLKS8fm3zoL+i5K+AGdYQSXq4OBGJv5Vg9Wv55Jb43asn+zpjzzcUEMm7H675IZ70rud9PohGx5/7FezdNC8IWXQfnKmAIT5lNg/yJN
+lvUiL1V2qkHBbLmIecxvRXEpUIih4oeSB7CiqAxmWtapna/jQeKp4UX7WiJBr9l2UocFoS3JYUgqlpLnlMkHp4t7p+u2/YB+dgHmwaTzvu/yTcxjlO/oM4Yt
+Ezlg7/qbBpajPpXCvovOBr9jysx7PhhMfBdOdBu/3q/8MJvvE9HJQrDtdjLqkWnwHDqdW8LneDu9ZMoswbQGn2u53XzsrfhCNzTEvhkslK8R7ewIsIpRv8Zf
+Sx4Y0Godf2goxx+X5QIYrbH9g3LGGAO1OHqu+INi80ch8JF8cAYznv1leHCWccGRpx3QBqRBsRg3T9TQwD5aQ4bRlEIgLeQYs+soznXQWPp4jH3MFeLX6PG5
+aPdOVr6/lJyOJ60xw0SAg6l0jwgC4tPIco6aamc46xJQNDbjms6lsG2S2uGwBWe0RMQg9kTA6xkvu/Y/+H6l2w+OhrCPRqmkwbAkPh6VKGP0wpiSmVv1F/bJ
+Zgjme7FmyPpODPZMGhmzdlfXkQZm7xr8lJMLTmnG9b4tbK49ueieN94dEBLZjUY2qs8tEvzllL8HcvwG6XRVPi5MQyLqJbNwwR4kOtwwdozAEYkQCJOpIDHT
+Gl2Kxqgc9Z+VAHdPmETncQxk9MMZIY4NA+L5ilqR5awzCZgIHKc3cU1MoL7GPzvhwRyCgMiWjExPIr8HZlJjTNNfidHYjn0MKMZepfGxX90oGLUtP6LTsZ1X
+XPmISj+yqTlGkayvyDVkPUbEgkdmlVTXDsfhAHYyxsiiaHr1pQmo3DLeWFkcbzGWi/C2Pc22W0EHIG5BzOwcwUgBI1lKNtqbe6U+xSeN/CKaIDftdMmsa8ML
+G7x4CYVGqzi8Ogy8DR9ltuHFZOdruF7uQQTGyw7X83UIzzwZk6AD4IYrZi2EitQEni9D1jLA0RtopSOkjwxghhFQ+GSG63heN1pVGA858uzCmZ3Icmv78mGI
+jUV4GtGap6LqPpWjSo5MS9DFjfZBsQUS1rY3glRt2Q66Ce4CZzZxwdOxdxAWIwakEiL89iHjE1HrwKPnJ2oCYSXmvseE1nA9HuhmZqbooV4wKtqyXg3/4Hrz
+HPSUBAykMjpFU91tPKWLrg3Aqi5gfnXGhPWn4brHqJWNnWSFbGsR3CgM5LLeX8PzN66gPI4Xm08De4WozRCwKDccLCAPx02JHzSCVfAMQgsQ922vk69zcHQY
+odregdy7/WOrfdh+Z9cG5wecLiAgtTWH7QcBEioA8kidsD7fYxJeB9u9A/CcNrbEoM4CdXWDQQ/YoTXLIHPqRw5oFD5z6MNBJalX6s7g5LVycRaEHqUSZhLN
+5kJ0lxtpaA/CYYg96HqKxnYqKBWY+4bYMLbW0iUozJudw8CAGP0MJmGqL0kM53bDOvYCK1qB2M8Gc+YzbGmzAWxKG1AFJiAEKriwosg0ZXAnQ61CaCF8lIuo
+t1ZYGy+6RRcQfQAEuSbmiMHjHx9JEW6+1bpN5dov2Gc/jG1relZJ/eEBWVSrhtwgHRJYg2ZvgftwNYxweXPHcpqLy8FCnw/MSr8t7JYG3Py5mFXze1VLBpbG
+P6XxUTwbvcVbQJ65yCFj8AhJp0jJzOFZmXcwBvUPf7ILBaPinRlBimKi9svodcCobldeks0wK4d1LFqjvDYmtDaA6Z4kkRlakqyNLNnditWMnimvRtgyiSU0
+two9jznnCdanFiwCS6aio1fPJHR3XZ7CorfcjCBtukO4W6dMAZmo7zp+A+4wDtv4Y7UZ3SAJXBXFGph0mahhtayGT94OZB6r5lkZ+1QrDuLVqD0Adf0rqr6M
+lmNPGh4uiIily/J74H0OfOBelDM1CyGyrBeyXtX5bYVK3bGhOSIKJPkxNCF8PGwMN1UfAruN9m3rUopq2NyEcCUgOAWTJskH/Ck9Mxn3ockrDTG8fdbWTtxi
+jg0Ye3wIPvR2+xqYCg/z6zdeColyVg8G5nlZp8b3xIoOumKfWMeng82BpXhaXU345Vr6gHSkoGjeoGzSMKL0EOHZ9niCYnEmoNJWxoDTV3AjR+QDx835p0sZ
+1xQXJJ9nrli77L1HBYzPQRZjt8n0MbAzhruGazDY/I20+qBiXZqTSs7nS/zzi/7eLZwTvAieF0MkSL1hsoYo57PPczlQgxD47WPX1CpovaldkkxnWvr1Uezp
+nXkVSZodFoEEXbv8tmaMeEABCLj6m6DnwZHwk/WmYMwrOn5goh3hnApgAyp1hBiCws1A5q5Kp7ctG5FR84YDPpXpDtzrEZj7DFUpIo0UrAB9GBgz8QO9IHiO
+b4fqpCagOkDCP/cMlBjjj9gdwb0Bzay7LQqfcfkzu7j6/N4YfkT2oWaSSKWpTVxryJ2ZQDYeqAPNmK02efA4Uhv976QCgY1a5PV4x7icc8cr+7h6/GJrOPCH
+Olf1QDGoGsA+kAtcsiFdZSVvXaZerm24gn2GlzHmvvwN65f4PYbOmVfY6HombqbCuVoigLsO4OnF+I+iZ0FBDpOJvPPRzrjiNKSPy8E1lyM9s7WD7FiqJqeA
+xZAMPu6ZQQdDHFypNgvHAxvoVETRDFZQAOiyjFZ30wKfR77Pmk9ZHWAEaJR0UF518syavaMlzXSQl9Vi7oDEC2+yutsS2Pmlghg0HDSJez8/ZKJOrOpRDzWN
++SRa9ZbzF4dgsIOEIyCRObPguw5oGdLGyoog9vZdUBO7tDsUsxraxlXg7fBXe3LAZM/6owm066nzjkRtNr8c1P8OUohlQNfDJ2MfULi1todRnls+MJNA65GF
+pAOhVknmNE7ZSOCU14zP5twOejscxVedtQBr/mBA+SVagXr5ZjjmQUcqRm0vg4gsQub21WhVXNI9zbOxy/a89sqkDZjGNZ9iIJXdR+1rJqF31X6ojywIerds
+VKpFFtMDHtXhPTUg36dj0emU5C5MsG6uWVOwScNvd/Li7lTGvTrO5VSBtRBvurnOGBiN23P4LaMtS/lRAgh2PDPn2UAy8mLumL+0kugY+/2Vbs7f85Mob8bu
+YJt7lXfVAcmAZUWeXV5njm7LayXQTVYMoxUzCPLjkIQVxszJYEgifvHZqJcNyYGKpCaZP2dsE4sr77ojoM6Wa27DqHJNpfCYq+Vfwa4N4BSiPN27GdSUGHQ5
+ng1laRYtgqAuFpDNsvYGnT6n+U1LAkODnFHBY9DqX9PcywNkooM16ZIBM37m0Dm0xStoIXx8Z56dzW40zN2wobQmpZw3Js8BmXCEM2NW9OvrH5o5GDTteWfi
+mDzxit7cmVoU9ntL0PYY7LvmDz2CxOd/NFnNj0qP45+yOE6fhDXU3yTacRjSGt/ZaPl/rEvU+lKyfOh2Caslp10SgOFI0YCykO8wn+0Z8+bPTV17wJDXihMd
+MxPhGl/rG0k9H8bX2BDIBqQoi8Cc8rIuH92a2delD3pZnym4+cPNkmzukyVP+0tYvh+6nkBO/crxSVK51a7lfvwj5/ASudlZcZGuqVE24OfWK2IyXQ7XluBO
+AsqnbYXk97Cemd71PBw0sI1C7VhxnbpJzMB1bTGsnlzpFoEpY1lrvu3qtg5eMli2Fe+JD9M05FWfqxmgIkno5LjoKulKX56DmnF5kaN61eB6MXdRcDTVoik6
+aIU88lJ0qETXLorurQJ2X3XJXFv29Bg2sMBqiGONKkMOPHDN6w0WlnPctP3U4+S01NJsxqEJtoNlyWyOkUJOPIIR6PkBJNmzgh34HcwqOe8xaeLaOQ+X9I4B
+yy/y4y8DtmlNEjZuCVVo/SCsJt7fV96c5/vMXsS4LKo5qz5ufnPaU1gbNc1UiO/u+my+DIXpUMEF5VOiXU7ImlVP+a8BT2xAn110cY5YeobfvHXfp+wVbPQ6
+pwdoL7yEWe9DA2p3dN4x46VDNwOaQsXQVOMCD4/WPEk0aa99KDk4Kl2rM+1T6rqSdeI+tVGLexT5qnSFXeLfRLY075F5TzW8uXBS/tr120hze/vrj+w7JTfe
+o0yfxoF3ZGTXv1/LV/9iNzggXR5GKvsX0vZ4LI78i9yLyPrrvXRCFEDU6SDx/0IeSSCshM+PE/Og7Dv+QlBQiZeQ6UWyVwec2CHx9XpKYYFeV24vkMF2/pKC
+Uf2l+krAcFWgRJA+KgKf/kTjDOS5sRsBrAMQYzTlbmH3LNWuTYumRwniiMlRr9oDtVYr6Ynxv+wDipS9q7Ung4D+SsMu/fWJD4PRvYguY8+21Sg4qul1Tx1h
+VzEdkYww6hPvMGPmrL+o9y0vxqcKsZDBsJDQ8aCmssg/c3vMbldfQInF4yGbaUYlvsDIvrzL6/CbP2HBGqy8SUwxb5uJxY0SIS7s+wtpPNKW1hkCj+ju/vkL
+CklPidr5PSbRsnyQYQdU7+3banJgtCjC4yFgiwTSqfXao/kmFGK9T9YL/BwcFt8tSymmtdvpcU2Rn2A3xpFsPh1s7W1SUxCgt81g0W7/z+pS8kV4P9+3IIr3
+zTZFf7xfTSBYisIq5EZYtSTcH6/eDDuud8p4BFPrJBBzRH7FwXnT4+ObL5nQbeKA+k4gLRdwqqoHm41csxeBndHcTPKBVESP5V9/27QvHXi+Py0iBy7ESCZd
+0UrVF4dN+dvAt8sKTtbbA99v51Ny84ptaTZksab5Y2WPRrJFnbLKQVyKhqS4KiTTvd1tEg5Xr3zzmBRE8ENdOlIEHSRgV6ZKzhiog3i6W7akeWbweeNOsFrZ
+j7TwBFJPjtGV3sCFngdktNzrQJxmMZg+PiSlwayhpaSjon7BH5nex8NKBakf9AEPI6vnp6iDjgJJHXwF2hqWHaJve6WADaxjTAT7Ge1hcXb3zpfB4hth5gvW
+iSI8Z8PJA+YaAcuc14+WlpPEdjz2H9YwS6L2m55MktWs2zVzoLLmwJcHYx8nSa3tx7ZaKLeqVb3bm8TKRxGzNEMzRmMD/aH7Wobeli7WTz5VoKSAL8Qrrtmw
+H7KkCl/nUbyrtWN4yGRRC4LHRsmw5SWDkeBkFjCdjj5F9xQhz7H9EkMks6Gsrs5AxveWyPpMktlIW0vJtH07E7UcEIy9A+DTTCgU10MGDLUF9sZlfpVqZSkG
+yBX3NFDIrEkIbwpzZFS3pljcb24Sgpp2CvRTZP9oFL8QAWYk3Dt+t6iDDa619ujdTP42jzdA5bpALYaARBKT0xit9nxsSqj0W3arqM25YNGnAl2Pe8hfwYto
+kjZdg0eFeqnB0bPFRIhUVGuKtlwyCyRDIpy16EolRJkcxHJL707SJGb3jMAWeXB8pGf7TeHqXp+NEWaiNnvIbZtdbYKMJGTrfnyJrdutRdLesQGk5okPfNRa
+OHC8L7nTL+JlbvYR6ztaB0n0+hcfh7tNfb4ODp9Wkcev5Z03LYjFS2gzkYPqt1ZVNnxL+16zLTq+E18JHtEpblpSvOdV828qh+mcsJ+91i9pm6cGBN1vMeFz
+F91PYpbA3OXUoNHBWzrVY9rJXA6FudgNKcb5SXGms7TywEQCP9t5bL0mswOzBFw/6rdo0ugbAp8ZJcXei98WYHtSPNg2cHMO17MGCnQvw98E/DgFPJBIxF9y
+ezH6DTySEPJoRsx2oJGi1d14JZv4vVm5w9CzUeqrD+C+220zjHfD63I8Y756vi5ssZrMIBG0D2XOz4s5z/o5QZAm13rXOyKsBJ0pncd252j9wT4iIUKVGf24
+7IRZINgvIw0s7FoFcHF7Cvfht9KwzrXPYTLuMG0i5zaMnW1HMV40Nfw8A/vTXnCaXExRefps6S8uBvWYzElcu7ygy3jbkUu4/fd2/CRO5TsAl3EzOLOZ3Y8/
+c7ZzUXNnG15ncxVsekf92Nxa9k1tPPBwbBUzOiXO+jHGGjZSuKbU60k/KpBkzNFj2HOMrBE6TB4d9Y84w4wwHV8EyVnDuKU5Ym5d02a5hG8Pf6D+EB/YIvi5
+OOmyq4WlOdYefYXNkdA4PzYhBrKjv3RHnug2XzXmsu2WlGLux9TW7Efl3fpRRXwboLEt6DK6dHsyyEBe1L7V9lG3YuAtb7DbHeOrN+UqOfQjWm49mz8OGIJk
+FkVO7HptkVK1lXQ3913KsDEbsa5/7vSG0mNORqCrRZ+oO4MegR1c0zQ6twxt5lv6IXrGyMlh00BoTLXV1cl+dYiyObmGzhpnHvHD23DS3ApiAb9sYsbQ4P1j
+ibE+a0glGwrtOus3huXF0CuaOKYJjxiDslQcX3GO+7Bz4WcZUdKF/+kdBauOxqsKFn2qGImfuasDMj+e+mR+HV8Jm1fnl3Z6fJeoPtssUEau7/dpXg/wU6m5
+LtG72QTsLLuTNIxRLI3onglGm1oPXZluMv3kuQWTR8DcLiOTFOMltTHuPPPBJvG4ZWgqC8YkwKNj/IRug5LaMr0RBBtyutu0lAKZInLbemmqvq+qLQSszrrd
+ERo/pGWIMx3NdRAS1LNuIpbEGjnbGa9qua1ViQCmpwgoNNH5vuqAPIB7tNAAtI/OOlzTWzCkz0tb39f2Dfs6tjIYNXzTp8/wgCzdmDlHOHwycmA0gyISkxgw
+PqEaNYuI6pGFWp1Ys93BrcyVo4Nh8Fbv/oDXEJ+kn6++lpyY1f++xM4B3O2KZPEdIdQBKYRSRxnl3eU4oPxfU+eZ4CivRNGt9NYEyLbaBH9gusde/atzSp55
+P6x7wQShHCq8TDScHESw+N8v63fX8uOT8MfEyZ9mnpSf3jthipAouTB+1U4foP2Gazlz0oGtPa4511xMKHh9t0rjNqkC+bCnVzPf13YdSyNpxO5cOgMsh6W3
+68XpfTkwEA+qLHTFCdCK9HSwiib/tWRMdl2uB/6kFJyM8MlaOH7ftkmwUxS9Df8qVD+94CTkBTmYpjVzx1/PNE3I9yFoRgbCCK+2qGW/4C4KvBgSmIKsWCLW
+4KP6s0e9I0uMXDeHCDNvdv0RX7Uph+Wu6mIrS4sMJZRiB7695ttTbagJZt7KMpI4n0YoatiElNvVdjAacSo4uky77orhI0sf1nKUf5j1lKX+Zv4vznWcvtjC
+fiYyYF4wlOzCC5tBWyJh1yy59oVi8XOiH385tza82IyxIPxItMMF1358ddDjgjANNuS6HZ34RtQ9wOhZto5zomEvp/NNudQgl/LK+Hz+yQUqfal4XLDVpOMp
+U5+xUPmV6LQIsuarS6Zhy4Less60Icv11W9kfoMdN5tWpu6lsrca0GtDZWvzqruCCC1C43kYw5EBS4nBKdcNm0PWMjRWFNA642HDYDMUyOC3UEJjNOE68uVF
+jb/8sI0feH6EJ4LFlIqQIAbnEY6EezoQgwwpdhiUTAzYb4RRlgi9ZtbYKySiFcBkIwBfixcckEUwelPhxGMbX+cDNQ3eSp0bzvWe9DPPupxzGkcOwtpOwL8T
+c8uYpMxkYAwHgInIaG/shBSPaaIvMUg/itdiijTCQnRQivGkvqYv58Q63uUcm9eMN4bJl/2lnA5I7PfzRJ4w8Lm9gVmLnUFw8BGILH2MpCSGqLi3fNS2vb1k
+nTC7JmH5AkKwIGcMoq8XmHvWdCe/LIxA6M0Zucyu4gRjLyqSJ0rj+8FWrv8zEiWkXIAK6V/UdtL+w4Ux1qlGhZSItkzMvWmC4oKCCq0sJJ9Wp9z/kLpZkLT3
+ysnz9YzwGRAg3w2y4hZ4Tj3W9VCdLgiFA+tReTpNswZZTJDUD5J4FgvnYHxeGjO+7J+UxTEwoYpnkMkyCKnEvkZmAjnwwSPjrtIEbO5nepTqTZtc0qnnAL33
+vd/JgEFUMAeiR3LI1NPfPX8wStY9M7eY4bTqm/jUEC/szjqYRDklmTJXTyPhUf+saMDz7qka92i4qQTJ0EnbOm1+Le06fWmniMV92Ies/U/X+zpjYO6V5HXJ
+jyz0zV4xtozWqJ+fCwtTz2cSfTVetpPlzoA/BJqQvGgLV3DN5MK6FaGtktLOATEWMPRuNFIixMpJJNO22wvisAHTkZcthTfET3ZtjJrXvwxYsagjqXvevrBr
+KSGzgfXp8/DmCGJrFbz697Xkg6Z8mXsGIB0fiNnOC+aSDi+zTmwMjGKICUFa7ZVs2Iqk6Dkq2FFHHsqciofB3Qy9KH8LqDgI1sQYHARQ1jZk9iMkNs4W8o58
+khpiF4377FxAsfQPiynDrwiuLqpduicb0UTTL00AepO0dzNrhEIh3LtebVrtflLPcTiSz9IW6wUvGR8Lw3GQrae+lC44iuBDQUKH2gjB9rPr8Sh5HWJJF+3r
+A6dr/nFZHrBYy/VVG8oXVkFIZeyf58vSgUFg4VNwOSrw4WlX+6JFWEpr+8MY89LOpVqDOfV8LxbyIM6cJik1LuL9XYEj/+9bqZdoal2iKFA/nLZWoUSZfU8Q
+0qsdxc2US6M/GMr99oSzthmAxP4FI2Pru0l45HoyVbg0yyqGETy59ZOrDRe+k/OwGQ2WKS4qaCUQZmvGatI6qDIVPO+dmHtc2pxfOb988vy0HLdoIE8iZ3/h
+Usf5gGRcddDBYCVp7VdFzfUZCmY9ZXk5m7WCYywYz0ZZsBetxq6IzVpz6fTSujM1CFWgXfMZ1xSOxk1L+pqBXYXZ0/Ok4DZ0et63U7LtKacXfLANps61KZ9k
+/uP7OZr4+rIU1V/NDl3qqRh9YLdLeqlPRjD1ibrwpR5USbRoWfKMFunUtsylT+rRVLNVRgKU8ihmkYGmf86kNhCwLWHVQY6UelzdvTRB6p6vUPr0ohf2SbJ4
+/UKAibKAb9bqiTTz0EtNm+6gwxqVeBNGb0193YvrAMKiZMyFiT0hk+OAzV1TSEw1AIK1Kc52qdkG0NLYDMb0HKtal9RtBqyL6fX5klke4c0F2UtKRFpra5et
+huC2I/Bu2B5FmBOMYED2aznFp+t89puntZ+4d7whzhYkRaIhGaN7fRLfhsAPkGb2LkhF2kDVdrfrqo5IdJuQj1YZyStu1jwUoi4x6mCnD8JL7K1qfW8CJbmq
+TYkDcsc7eDbg4RO26rOsBmeDGxJtcMf2m6huRDBfOE1576RQ64XFbM+PhTeUt5paQXxh2VMEVWrWYAQij7mb5QbmN5e0VHJBjpK0VpaxgcUSKAbE2NikZpHg
+KRAw7aPB6+wm8xPFVb84cKYzgcieXYhuybjgA+GCpODyysORy45uwTTmjSfaoBdd5iYUIRp+T39khqHFGxYCxB0vH7e1kInw5r2TZ1BwvOik9VJyjFoWYrpk
+cWGAhGfuCLxk9nVZuFOwSfDTM9lmLNyJ3WHOxcWVC1NSwqu3jNuaqTv3khzk5vFAUKyImgUizMfrMOxS2h8C53ClmarNYlCaEx8sjnX7SBcdaGZFlQ6YxoXn
+h6o0Q/EvVy0BX9IC+QVnlDw9SrZPnIzpVAlHtV0vJTNw2LcYfJIwQ09iZRcCBp0T13dNcUcIwXg7A6bUqa8vDT2wd654Uv3jqnr982AnmsWJFnWXRdry9dko
+Z7wQOaGbnrzpB+nwyHoIdSttR1WRl/7kThWozEMneWa8Rb1KEjn2VU/f4e5JzdlwAG7UYhAwEyjVohLOEYD97aqdnKrWjH/iG5Hp/gsb4xCUByV7/7+v78u0
+4O7qQAEKKzwVKQ1iGCNlHCh+/VWFwIxVm4RojSvasZjEhSBGlYQHRRKyeoFYDQL81ZseRUXjemxtYcJVjzXffk9PeEGqRuggmOINxESOyOtuXYaPPtAJK8qA
+u48ct2qIC8u0Z97NO/87kCqhVvFKgeiBLLLvC6mXNV+NgrAJlXJcAdF9aaIrLtsfn2dFaxSFKyeskAeCVV/1o6hBB3mNWWaUU1bQSYudC+eMN7OAfEn7kzDy
+KmVpEWLiBdNy8s+UL1ZtEAtfUUx2vGHR+Hxl7xnhiK+6Gvkxn/Hy1L4Quj1bLRpeJahYx7WPXh4QPLM/rCqb8uQYfLGOE+9bkd2KMOodq0/uBurh6AlgMKJr
+aePYCF2VFOOJV/36xGgTBu7AW5haGhjmNiLm43odEDUxGky9vlDZ+EpXJWQGuvWI7yDCrZuyuuBLsS5HN6oeTD1GzUFvQO4fq7XBqxZOLi6v1oVVurq0q+a+
+6vK5NCJOiBxBXXDgw7r/nhcPqfxRPy6NYpTw4pEK0AQskWIoekUcY7CBh1mLsIYg0A6j4wmMODtRq12TEkl0PzuqFRtUA4+Z7UQOWLuo3QOreaIuX3akyrvL
+bOtyDEOcZ938An2DOSjmBv2rl7YYAROUV+Fp7WMwHUrq0VNUhCMiROGXf24Kvki+DacppiuMfDiJ9I7KL4Txu9g7q1ViE4MXNMIfU3quLiMFGba8H6HFjNnQ
+i2OMf6IDoQ2L7icicE+Fynqft58IieE3W1Zsn2Q/U6MDirNpizM+u2FvN0JnHAyozB2Q9Gr31Nys7WL7HOnrpIUhVo7lqy7huphrHmT9cAaWrf4tDt31xmdV
+vOWGIg72IFxTqX1yGsh+LrIf0mTXn2ZbySSEsL0x9/HF0K1eG+5K0HjJNa9gmDuo1p/rJ7GuQ9yYKz5VDU+3giIacXr6LVShyYENNuj8f1p68k7966cu7s8C
+VLxwQqqzIu3CIM92L93CRv1bN/TEkjgNC3ph5TXSUxH5+hEZTs0ZwuIBj8MpQNTjGDCxKfVD0ziiYxLXoYwUXzDE+4emjysso55XlDNrOt67SrDKUYeuqCYh
+7NJcsC9M79tiZONcWNFln8vGqOgSErN6L0KWWmo6CQqgC8UwG3/FGOWiHhVUR4c1DYphzswnednFZbTp3U6MyMdEbsL1FbZNrE0cXf/aNI2jCc0n3GZjWWzC
+St7X9KKPxzr29EpDKdNridHGhP2M6RcF0ulXIabAVN1nFXY6/9iiTOcvirOBuNqsL8kc4fOjFRs0T3ARii3TidpVhCzCBOy/Rc+9cL0qxUQcyk0oGk96uhIY
+tkx9xgzySDT+CO/c9dhOrnhQ1IB6RM5D2DQJxLrhdG7u9k9IOjuYmPCvkUBwZGSiO0HzPsiCQH/g/TC0R+Kla128SzGDRE/3+5alGe8lilqEhU9J4SF2OXEI
+OJ13jC0QJ5wztzxV04vVdLbu8hBmWvG7qsYReCMNLpfzEIpPuXh1zsx9D2u/5Clke4D4RJpOI9qVzoKQu+z4Z7szsT3AGYXUAXwivmRO5DN6Yy6gwgqGJkTD
+Z8+hAXO4PG/4qGZAvw19wZCZjWgGUDI0cYsmOCZM+0RPNO1q8AcMu7kRTfFvqhpC+7YDFGe5EKbPXufRZDjeu9BX8PhpjgKMwcCRmC9xWBwQtZ6wHgn+Va+9
+QZ4US2Cve3KiOaFPZdz31l/SUnEQ31IsIkzpOSf6wqyQe33wZ42BxMQi+A24OkSAXPkTB9WEVO69/NhDTMh2Ei7NS1zfCkQmf9LJAqFr1ZDoLicsEWz+e8ko
+KsA0IWM/bW9c5AZQ1zfWw6aNsSC28q1520/0QhoZ4oLz5X+nItcizzjTH+ukVwX/31m+nnCKEG3rhNNpxrfTpnAr/SrUyGxn/vGVe4WTNkD4/3k8Ez0ZU7Jp
+O5yd4390G5vEkrTtMZzN+KEnlyUUcSzuifabOWkQVlZ/vG1XwSjwYYtGLQp+I9zyA2IoHV2zhN5WUjVdJDMcNo8WnYt1Araaj8hYjBhFnzAVFeGDR6ZhIM17
+5CM269eW7RBL55xcWYkGbj88NR2PTGli2ttX35aKXYH3bRdQ+zZFVzTpA66k31r7TVTiN4TuDeCuxeFyYF+aDNY2w9XCATrFTTqen5Njv+razzgeDeIXzD9+
+z6zbZch3GYE4xJBfsJtxcviGczUakG0ea5YDffoYV1YFI6QS4azadIhZSte+DK79zmnrxmWmlDGctlzbm6Km7j46rZ2JnsZK+4QgpCEuHgJzZBIEj0EB0Xpd
+ztss/ZqiVY/8/fma5g3DLhMesKKGYScyvi3GUFq0njCExkdgAi3Ck8XDGNzESIlw6DuB8EK4WUJp53MyMOFLet5E9xyCPLa05wdtUYX8t4/wJtYsedFR9vNi
+cgUdihftJ+4op7RPAcw+OWuozqYjbRqC/1v0oAjicESz19boJY15io+zPPuzJeSR0Y6CRnj1jqtOFmXkF6bIImQe5IMWmgRGZNC/r1sWuxxUFci/ZirTJGB7
+LML5yZ5z4PaHMGcosiz91HmXEGBV0YVgnzMTkcwVT9FWlO3fnWffqSzNraepXfeCjfmppefBwIZcmAT5D5Y+uDymkJnPuXMxoQuh6bWp1d/NHEyXxRCFHkCq
+Q8tg2d5AjkBaH3AHcWeVF+N1NSAKGF12mwplNf6jleeS7FAxdeGIWuYnxAR5HH1YLvZSF3S59MgE0BOmQLxRrudw0GrByLch2MgpRmtIL8agIQ5vm74zp6p6
+dQA2ngNTqDCw7KpwJSNu9ZfBeMA5X4D2NLTZwit1iaIdjRBX/qQ3pCDNuh8YpZ6dIShFI6ZuL8O1sjwMIxanW4Kd5BlTlL2LnAxMaJJEcFrnYMiSApYchLFz
+kjilXPYqSQnTYNFVUALrMyaNIqLaAZ9epj6xiORAsz7/PohGNaYQqmtOSF8sVazYjuf7Dhzd5J8Y8fRf3HQmQaDLJx4sRgjLljgk9pdjXbqZDcccU1kRxfn8
+U+OZv/7bXuUZo/iYu3JwzDXPzj8+TnN/E/VG1wrB2BLOa2pPAHQWY8o/5bb5lgTRqHLOxrEw1DcvDvYtr1uyCPGDJgzVr1LDPNFllUnjhsC2+f929+/NUoQu
+ldfg8MS/1/y+TJMdO8Ig3iE80Z75FhYQgCv1F1HQvWjTk17h/Op9g+4T8/q+Ui07Pqemz5m+8AKPbs43osqTYzq2jXw3dpQDH85V6mNvGacgtuK4AH8Lxe9+
+MNjxyobaDmhjGshuGyTQuDxqlo4HyysB7iJIDmvOo/gC/QP5kduUueq6L9BqZ9tLYVHpxWaZtTTDanlbfUWa8Z1qT25cyQCM9DZK+Wq653fppSUvKxceyA4G
+b1i68BKsvc2RZTtQ1DMCSw59RFMEF+JAVr8lP2X5JAKEQR2LZXkiSiWtwzJsmeTL0PoHa5sb7Q2sWYBPC9dS0icWbI/Rc2dtzYv2MYEEwL+GUGuUeb5qPg8b
+n/nMaM+5WRXEUjA/ssWNsdahVfL5L6+Z4A7C6rzqLpyZg3Ga++meUoGDHawDzrHFS0o/wDx60kdbO8PQa7714xFVmvdkTUNixi+dm3MzMf8f6p7lZNbcGwQF
+1jG/N/N0xpXq7ImLd3c9uElRIkJMxoDPZyYEYvxeb4Gcks5ZYjEpnnch++vlUVqBseXhoOgZZD/7mWgvxzxlqPFZ0b6+mjRI10ARq8polMfc3xBzprX/vW72
+y8F6GmDS9sMcqNV0MArJBvieY37EFnc+9J4R/UZjCjRvMWjsUclU++aRXaUIqy8EMeU0q1tKUEG8arDhvGWThKU9459zrnpD+Jx0v1kbbqUuWYJjyvcqYrMN
+uO41P8lhzJZknR4+7LpZD2KGnN3iVfdKyT5GKrBJY2bpKvdIgnDVh/U5f71sJ8mOCEO1JKfsgsQkuSgGP9XaK1ufLrTkBNmquBZVx3Nm3lDHnbWTACv5uJ17
+FrBxs3kd5+3sw43R6WRAMUPGrqA+sapnltE5Re5bg0dKx/ZTpFkaQdzGSNe8aLUUDgq8ilVw9agOzpTqEOM7wMTBcyHLYTX3/XDsi5s+0MzF9I5rIxUv30AO
+QTC3gaxIMJcKaunJWF6zyw6FbC2/tmAxRMJ4Z5Cf10QHXn6eTtMLTqcnhNu99aeZliJguqtt2t4+xxFT+aHAlfNtKtE2WlBK1gB0TyPHqswwF7ODZH5pZEeT
+u5OraeV5EpAlKBfSttC+EtLwaBcH6NMUPFxQLMoeX0BsmK5z9X40Q1r9aJbPB7Aa4Z0H7N/OqfWibnzRwpiwS33cni3ZdWV6GTlgcuy5uqTdFj/tv7Px1MdP
+KR7jNTnCJ3u+IDna90QDV4/W9JQSrM/LStqBnnDrzfgYGURvXB63dArPQJ25CcZLiEff9YGwcpWrNmS7w+iCKeXMAZZj2Vm3Q45xhII+QfDSDC42FYF+Ftss
+guecJmsweVLomxybK1UKDxM+xkzNzQfU+/+LkCapoBbOA5vRcZvBDL8hhzj93R2f0jGEwG3sldeOQp69comUP6fpMKxFYD8c8qVCKX+5uMcUw9qsqO34frne
+jK8+nd2O7/OxY9A4yNCADePvI5vqqC+0ThNa/4fZCwY5YnIeOcWQESGsUUmn8RWjhpjsj06MxzMahvGMEQYhXxXQPDXgcTZIF6sY8RlBuNDLB94wVQK2bpd6
+TONVwiowBUW0nTHpiP9oQrwGj2d3pQ1Bm1ckfJyPjcixnTTaArqhN57ZuoNRBALwQ3IN8uAhrg+VVVb8iCWK2v0lMU4aKwgYZu0YRJurKJaStdzHSIILvgvv
+rURhmhoaJkF8MjbxjeNITz37FaMnYVHsvBOdkIWrCo6bR7YhqQHjfj5vbY8iIaN5guACtRMAKz2vTaY3pRFXx4TEHWMQEW5/3PmAkMqIuQn9GRsmq3fPPF0v
+HLUMsYPHnHdsd7edRg3Gz4vE3bURqXTWAoKggghekJwLHJ2cjuwd0tdAtoRRo3hQPKSZHJpxMIk6a7LeEkIf/odywMhg4O8Ug7pxZLxZMmAkFuyaL2BPLgbK
+9JCrcUhx7sDJy1wAgZQDKL9cQy9w2ySOD0f27Iy6Mj8jXdye4ElErMcm0zMkrPz2RMfByri9oz4HvEwilooF0m37nTz4cQl6xAPBU5i/9HC/u2bc6cDHfWg/
+axhB1EKq2abZLMYCz61jmUS+YNNxi5fTXwP1KYwasB1x5UvdCxxTBIw5J8Ngb0fl49oWGIv8m8T6ZZnxW5++/1kLD8aqfkCuRI8qc7afmgyjT1tSFjghhUWM
+ESnvYfOFyXih/g/8MxMRYaZx07zDyOK1RYbla0NsagQeLnDJjFXA7h+ZGhi23tY8YTkBt4T8P79NQUzwsfUbg5RZUjMCrkmKJp9W3ATlvmT+v6pE7C0xazPB
+gvgXNRdnD4aMF8aughzYHQ/K5gRDhb6CKFY7EqnZ45iBBDzciAnMRHhkyj142/YwQTalhAOXBM1m3ZLVTsrNN2/3vOTqI7c8oAnZ0EkbNXNAM6j9MYw2dlY7
+Kx/8sM+CphwBOZrfbe3lGI+NTWSsDMFPF04jX36FLXjGbM2lXsn+zIuKgljBZnuLbb3vLa9RJRW0m2BG7f94phO/ffsUWe/x1KMzZQnWbNtuBkZbY9kJnPuJ
+W0J+8lgfWWuCRVb7V2HqEuPzRybL8kCPdJNlUQNXERHKlmxteRODNkjXlh6Zgh4JVrMlnkGkZy1qjRiKGPJF2AMGHrrDlcTQJhCX0EXy8E7SkLYQlueXPI9W
+baKn7SS3TLMoc4wMQJsivFkm5qLiqFFwr2h+3BxzqHcWRqa3Z5K0WBlsStPRMMvazJQbcKmss8XcnHGVc+S5NVvSmMW8MzoFxfKfpOzd9KeMjlowQrHnp7oU
+PG5sABESzFknU6F57GX+M6fbOg+YLEssbTwexGLM09Hiv4v4OU5V95HNlbYmVmZDMNYxRgxNHEIOdkem8Bb8bPUHhylbeWaF1fFegPmu6ZERb3eU5cVx4JxR
+mNlDJJfmzV2BwCPGgcxLoXnGpgWzE56sjwu9TwyTKTppZSJQoclXEkLW50e1MQkvhItt3Yz8FuHSjz6HvqwyBY2J6OvpU8uPZ1V35bEoqs/iZEhyPL3C+tyN
+TIBVW1iwwRKE+EoEDwJ0HgCCpQMBH9R+Wh9qtB+2aQKckoFEoZ15ltKi9VyGl+3whiN3o8fGcmmi/U57nPnEhwtNI/bLLWWQOS/NkAYQuLsCF6TkA2L4+coB
+ZltsERrasiMGxQmbG2QQdt64ar7kC3TWdedSrOu/e/zqjgdR0OISJSLKcqDDo9YH9OCa10dZM3rDOWtCCKtpBQlI+r3shJqaYY5SGlYnc2434tKmE1f3xttv
+SwPWweK/yOzbT0vH3ePtjJms+rojTlA6egFJjx+UIjQvvtNZ304edU7dwG5S/55qTFduKXQAmtO5e6PuV3JmgMl8BURjBB+aBNfREmRSkeVYDWtCQfMjyBnd
+ycOKiKcOBWHHm23tLTpU9rtZ99dOPwR/UIH5EHbLY+x+W7RXNN7m//ski56FMCjBmRpobOk+Gf5E20BJkYzYjX9JiwnUVEQDsZY7e9vjQZglKnDNQUcEzDVi
+rPdb375t1RkIhL3rRGHSEGiwLI54TFuzaGCj3hRv+K4PwKFKwOWyp7QHJnN+8gqnXDHlQRHAxMgpUcDDfWvY0vJTYxpiyKfc8sZbtNFcjvn5l0jwY5/G0svM
+IPNWDRg9TpLDB8W0inVNCIuHoN7qaVF+PwmvvHBiTXRcjLH1fpP6bmBPwWr86uoWm8S3r2gxJOllGRePgq35rV5/McbvqV4666WYWch++hCkKAulvZrOJeMU
+ifeaSIXCGF+8TQ5iujFncPIJenG1gdSAcyZItpy3cuRgHNlQQ5VzWAD0cM/FnFGjwv2O3Q8pu7bEJXmDihx5Vz3XY28fqpGAUWvAqpiNWPi1VpYcg4r9hIWn
+bINVsLCdFLPYo3wOxPRNB8unrdPBJuh1uOXRzlCvPftBFP87Nor+HWVpQ1Wq5uloNvL1a46qIJNvWB4dEA+DzJnErh67eZepkWLG+RBnmRq4zcfPLIaCiuQH
++c6EtGoVJk63T/EoLV+LLa68NnNyOvK1U1qBCaam/ddY3/TKNWcyOhLIOQ/KXiZSzQGj0uz9BLt1RXJ1GzKYaxOWZv8Yci0Pr2f+nYoPSOHs9i80Q3ve2h9q
+K4sm3ciGzg2I0Q+GOGDUkaoY08hKeYSTBQzpzh1I0zNjDIesF+WdW6IjSgYjoqZ8NNZF+DbQGVsQhl3UABu4kmZeK0xhz5HFWAdbjBl8xjM78qgTMfxjCYfZ
+PDb3edHnOX1pBSfORUGApIAfEZAxeZbx5KnHSQm5ymh9cPe4sQHfOnfpfNR4HCU7SGNJVbIm0Epuf+l3UmzZjGkKJcr9+x9H7T8PSt5f1rZ1wv6D7Oq+44g6
+9pFgGhy9Q4Cg0QdxrQN0FeHofErsFz1QpUwE9AMX2KfTEJ/BIutYlKsBMS7q+Swk9EbPrZOMRbrwHNmn886cSoH2MpI5U6sgtO/bo1qxKy1TlQjmXk3SwalK
+2S1B+4vSFc05vbI2X3477h0Z7LP69iqJxGc/fP2OZomLXq6xDF6xb2Mi9U8779dEDbmPae+9SaLMmbHJ8i5T2EXLfnzLNz6Qje3EwSb2ikz9fTPHbdvEub9o
+1V6qpD+ke5mX5T/l1jLai5Lvsp76+3xkVVGVKHNmRwMjACeUp+TIuHzWfEof4pZ/3xuFxkty7QSxCZYetRq/dcyPZsu8k+98lv4cINbm3bYfYze4eJb1bGK+
+lh+P28rEsdejB7uYPPahAk4i1gs2uUNWuh1nuuUR5y2sj9ZrdAzRH9bERzYFj/p+n350jElmgar1ks1HgmO7wqT8zEiUT64/aP6dJkKtjyspyeKH0NuB9Zm7
+IjCGNX4eHhaB9fRZMZJ9Gn2JywtB96yU6ycWfeRdcgLEnJQ0W7veMOxu+IULBSYi103atyE6zadLPeezlgWXKKNq8BbCJVe/3XlZ185Yo7If9Lnqeka9eefD
+5zfb30YEHZsEBh6g5TBmNgq5JHOprsyZJTNGMq9J8mlZ+ZBYe4ksMQHePmdmz+3PsxOsW9dkDo7RATh9eUZl6uMjfIjvPcKM7nzJWK5ZhGN6OprmuhL/nFv6
+EyHceNc581i+T5/zfWJ6PjDTBUMCq3jF71aQcuEtV6sgRi8YjJbLhZIE+dv0qVsZOLGCW6bF9sjFjaK0xTMLTcpnBuJhzabQPuhvPUHFHsiD9kqwgA7VtnJI
+WQrImGuwjFts4YfIheF9Y+t0eNl4Dq/4rAhoQgIm3V8OrxhiDi/nCsOL8eXwk+vyw/lOpWIIxgCD4K05wiieA27GOXi63Ccu3oXfzZZofzyc+XZVI4bzeHs3
+fembR+psDNCmx6Bp93vHjMahy3UxNQoGxa55x+EdnzsbcUWfAIg2+Twko48bsxgE065+kF0HQENajB/SM/rYZKoKsCR7LkJ9Jmg0DuaixMBuFUM7CJUZcvcJ
+/Q13PxnF7gH1jiOKZBB8Y+D65mtIR+tA15sczrSlDh5EP7KJaSOk5bHPn0gFxn6+M37/nTA2UaPFkPUWeEDzg9eur+qRlluG9OcOXv1ThafA/vbVjI45ZN46
+9c9cSI4Fy3YiVy4xsOJojinZ3dIyM4YC8yF0XYRO5gb9HLmZkPQpMsoXKYWnRm0Drr1CBS2j6X3fGzG4fwyvDuf3xpO+uQi94eG84ez8brRV1hlOOkqSS+Mh
+AxZSdO4AjQFK/hVvUiF/OFUdGE7XZwPMBHVFMgWoG3NHgcBkrv35qpF5V8/R6f3ygonHT7m3OuAp1ZOTaebEUsgV1+FknXHyHaw0mvfjvWtjQP1HU1aiBhVk
+hr5QC1V5dvjUaS2ggsyfAocB6dfh1KFKQHzb/n6x/hH41zT0sL94/P7CaACQrqGCRQs17Oe7p95+vlbC0zCG7VfQyrSf+SAcYRLyVsBKuZ9r2uyS3dmch8Xk
+DFirLcuuTTEr3o7+Ed5Nn3LlT4Iww3tBbgRXP+as/3dXvXYy0kjsW+ZMoAVyZ0ev58+HT51+EjAO8h3oGBOu+XVb7jcHcfFKkrrqsHYVcrnGq7alv3K7pwaU
+dDb5NkRXe7pv6/S6G9clHT7KkAEN4rp3oi/4Lv/ua3mJ3lVArA1DpnQUKjN7XALXA+Bco0G5J8/0Qc7IWLLKl2du3RRpiqhRt/f2x6YW3dnD5MXxIOGad7cj
+k6Yd+gMOQv+GKPbTNTFYzxg29Y+OuZEEp8G+ZarG+EDJqyHN+fe7rlfDf7dgOhfIPGtTZlKbvhcH3vo2uGTuUsueHU3ONrEyjWRrcmGyr2Dj+vNRo6ZCIDdX
+wnAObhpVKgKi3R25up5uoq/SNbOLsSqh+yeQYmFU3NkLj7n03Kx/U6piaWqTHNZgpXezp9zTfAuYng5T8WLVrJoHGIvQd/n875apJBiO+X92b3tddIYJWfyj
+n56/PWrPMz8k2tmuBtwPhjPbvn5kpx3cDgGbbiVfF9N8ykW9mjsoTROai3715W7cPq/NTK2T90w2Dgjxe5eu6VTBHrL1YKHCUjfZRLl7A9h+YpqV8CcPftLi
+CKxYJkpUa034JdXotrEratGB480yXJ7WyeIqbKL/sywrbnnY1jxsluLifAOsHbLFZXkMfX7Z0i/pfqaSJii7ARsVfEy2PpPprTfI4vJJkHtvrFnFIlwMyZLi
+hfll+gME9yzqjB+ENmZbwrhpPnpmlrSLLLFQFfSYTALH/vHiLVeIAtMFRhA1aaQvDQQP2686BAOt6hPI9mr7xdIHe4jQmMIFjJj7QlB4I0TcNMCxjJIwL3Nu
+06u7+B9auBCLAYITh6AugQ4zkRGGkCU5mgcm/VjICkoBsMFVSvk6+bRog7BeBkXTMabesIwNdrIZ2GzPX0+wAzC/ksyXjB8UUTWYiyMuEuKezeR5sjwLFCHL
+ojIXprqOGaIFNsou/ph6R2/96WlYkxvwz/AGfsnubT9/qFEIWSjIhjMwj5EC2pIwJ4Y0Px2xirwi3WfCSgLBhsOGQctbdZTEJBZcM5r7kk+xQdv2K2JWYLp8
+GdS66GiC7XpoER34bXuWIPdHAOM2ZbawOnFve7Y0ClQMKIx4YXne+R6MJA7bA4ngYdsOjfIEwXpIwP3pndvfYVVQJVQHfD8QvgovXOlywOM0tDytR0YtkIc7
+VtkcREXY97IHhRyEaCCdXG3r97bnVW3z/qsH2YUEPhyIK78A0Da5EgV3TBr4uabg2mrrrJk4y9v3ur0HtkxHdsMj1KLssKVSQBCWyg4xhxQsZWdOzC3/aP1D
+ZguQy+YDqouE6CrxklkvDeCZf0/tfRTvMlPuDMQ2vS8Pm+mheyqQKotfd8rxzX3qIX19D3j3tim49SKPxyTwenLndWXGHHjNMfrGEGC79G5tYwZPuBg2Qy6v
+M2+qvAqk5dum16VaWbKQTS1rKP4xSJIpjVBDPhMH5AX6RSyzDtt4oI46qHlpoxWDA2fUm8PUVaLpBPrIrYtve/rWUp4IarEeb9ZqzmbMxzGbtuEw7Yb04hTk
+U+sGTO0F2AZkvkcHHtGYX+84mG0IZ/z2RJhq2xDmq/O5ONkKtB2e2bfUdNDaD+4pNJcH2fjPyCUO80YfilCloXHCBca2YFtanutlwbYlTfZ8qP2ZnLkvdO33
+r5oqD/J/l5EsES4Wj3nTINqA5cnPoHxub5OIZdaBDJm18BYQs0GK4NwyzJl/dAjPW36uhqLAQ+1vSO5YBVPFetDnxvqXJXFNARnjSHr2O4B8YNH+a+BryvN/
+svOey/lraGGey/HWuhtsNmQPFtQfnW+JmI1k6YxJ5b/Eqj8zXfM5KCsKZM449xvpWj9t0Pzp/+fS3LoJ8smYopP7RIC+bS4mXRn7teP9N0sMPgo1BZq07En6
+SrR8aGaDNrOBW++QaPN6Cfi2OnzX/e5o8DvN6QfaULV35mTLfNE8Z4z8iaS+7wgjeXFRPws1AZvQgQ8kcrCejZooL26pJwm6KoWRzijMLeZ43aJCcL22BG6s
+egf2w17a2x7f2vLU/W8TgBuSF2A2N73/ROsK7z7fsMTJ48mF8wExbjOqH0IV3OGHtDVHKtIrbtik11TQlvs8bLvncT2y1VbJ9/6lNRfLbvumkDVl14EIrqfu
+6wZMb3LFNacx7XrN9K5ajBuaplmHbiR6UIlXNUFpVp+IDk1w08zF1FlUxowLrhEpOE3TvIMWXwlRLaIdajWTF4NNiXfPzrUXSsxN38uDFMMytUk3ZWRZLEFI
+LmjMw9gGG1pKX2Hxc8P4eDJGdG1oOQ5tbOUZpXL01GYbmRbu5tpTIJobIrpwa9NI+oAcepTjGmWQJrlqPSaACFdX02rUctY66gvJIyHCH/R5uRGN2FnEq1Ay
+31tdBakxE1cRO9i98kYwuzs0en3kmUaAh+4qDvwc0yVjoo5SUzEeEWF7EjJbXyQ8tLvNDEIJqMczFz5rOuEFDY8tjz7Tye7ipJ5Q18lq1hRc0vF05M69I09S
+LSI0dQ49JQzqxiZkDFBbk+zv0/XfKEuYH8TuEAanQEYGgGEmRu7+iYbZWAQpXnWw607Bp/D9AtFHPmqS0TzZXbPUdpxlARUK5PclCYsfsK/t2Z+1ZgcMMczV
+NEz/9NOWykpD0R9ZzmnrJAFR+XfSfcr5WPJMhNW+Ic0l+hdV3ydkprqs3MnYk+COiPloOmjv11KyR9Ob649Vb4nfEvMsR9vPZD05r9sZLcCHz8bh2lceg2HI
+UhKV/9XJ33S7Om3BhuHS/jEwo1xxPTB0Q7QiutS+v07m2sT8qubEHLiZitEfCrfmvpw048PWBjhY4DHSWxnOYkOP96+/qLEGqiI8aFCvl2C28BbxlotWfoe4
+asFBYjfASomla1UqTOwtUu3CfkPNEWpdv31vO2wW4klPbG0lvSZgJQyylOlGhq71vRvneioYhpHT07Dfkk1cZa0rvQcM9OjZ8KyKzQ6uy3TyN2q2ukCEMb6P
+MN04Dyry8oW4lVt445zjgEAL29ztqidLsv14x2caLRPoNIBM1xl7h0Au6pNhNqzqvGYC24vpfDH51Bl6Y3nLZXaaL695S73FKPPMC6tW1bOIZSutMMVz+5xp
+/dTo8T0fYeuDtz5C1tNqb8FiCLh5Q8vsnf+96uK3aQlxUOWXEEO6gfVt64Ch1rxdaw+mJpuHtySjH/fNUl/9ziTSLjPXsVBR2/Fbe9r1QQsuhzRqAWu9eWwz
+PjwkfEfPnht2VupNtuSZ6mpGveUqfrWHRj/W0PoU/byV5Joz+npNPeAgJpQDvtr7GP0yDHg04uF12jbB9c2KUwjqUE1PeEFYcAl0hhoXj1w14a0qNwHwoODz
+pi6CEMxYT3X9FNvJmjvZWE+lN7jZIIxOpTBnZ+LoBliYu1FNNB3x+JD5WKLXp5l8ygl0aA9mmjohqwVNLKF61zo5E60OeetnNauW9Eg3lBflvrwO13/LC5NP
+okcG7kCWPxgXHMrvncuxvhnhqKz9oLulAYknO9hyZrh70bm4aYnEXBNcyVj7fxpRScrGXJ0/dJVk+8waJC6wfAmVoDzfdExptWWT+BCUfnq1g+usY9CpyE0s
+hO70BtCEAhmVp7PDko76/NK0+QzqlnlAUukp2hSUHEWgsP4LuJKLuBEvOW4KwgyIEdFZlBiV87r9Bx8WYD57N/H3J95Qk8yJm32LxLjv6uCCLjQF9g3ZYPf+
+kI9DUvgN/QeaAxLVMB9z1Ksb5arkYqkqaQqLQzUNDUvTbJDt9y8zzdINlahAHKzmW9DvHhQhAhSMGBD4yRYBzd/9SBxMlh0BEGE0V/aZUXCXvAPLmeCRLR+w
+mEjfafLZqCgjlyjQ9fim5qXXNIEHy+UIFI7dvE2pDsDSsWshFleCW4csHvvUn5y9V/TDxmjMXBpvmQUjTur9LsZhIsKCopadktXEOYtlsOkT/ZzQFiWvkljy
+cPZImNfjLinwP1XLh8KowDq7HjYagbygW4scijpH4N1PWq8usiGs8+3fdLwMvhL6n2h05wlyE6KCXhJD24G0fD6U5ZKbiZhSOhKsp/M75yGI2uxZI2YTZP7s
+a5fotE89fULL2xI5Hxa0eXsZ/hqa4ibTvBDMmfXo5vncvtCUgjeCK40Q2hj795JWbMXvLU+UPSHvLW7LKR6baFGP2SkjjU+W9XXAwNPdFoSpvFqLNzUZZclX
+TYZjXqGBiyG9bj3znSY05oe/+ede9BAwlG8v/DZ72jOLYa7Y5WyttC0/UBcYg9K6p4ioZeDgg2+2lDeWhaJU4ZlrKNffLM1Xrr9mPYhRsro2A3I+hhHUPm0r
+LhAUhHSzJuenZV34KAcE27u4R5lQYwkwZggI94EXrlU303DSkRgWUIbUcwrIdma8304zK7fM6bJywF5yW7nJzJ7xlnfULKQjxpOHMmQq5WphGT73OE0W79nG
+DdlaZlM0DJnVUZl4MlP78n6vCGyU97kQRtmM6qyRhsCHygBBkOMur1fUUVSFjgjx9xew+Iclt7yU5sRRYo2QRIoele8tfwx/XzE5jFFC+UFEtPyQ3+XH/NYc
+Eee0NcPOHbuOEGxpxR/nU9kTvAU4H4dgs7mkQBL9MeHxzD9zNgzmabKqIBXk8myJsZUaAhFMXnDRa3jM+Jj3YDBCi8cI8sfQMj7tZIOYf9AmxJDEHCG2GMpn
+fhLExeHolJWIceRyAOojglz9RI0FrC6WlqeD7gD+jCHzF72043V9fCoRHR3dExbt5YFlOWSiryPPZGvXpcd/csz05RdS+zhiCp4SyMVlAKCuS849kS5WKQrC
+1xz4NPnCX6yhX3t04+cyvunAxSM3m3UHvbFQCHkWMUHBLcK7qxlfXR45wG07T7i6xCrp5Ys10u9N4KKY35hxx7jxulyI8l0x6ylx0/5+EmDuOV4aYwxisGMT
+OcIYxaEvDYvgZDpVzHmF9yNkfAVYcqI1Pz3rzdp6Kbue2hhDrCkJz4jgNSUwBSiuRrACrSjyzTNRhI3NzsxolugUpwsjr5IpL2GRQBj5/78zzVmhOImRZy7R
+xmFRzjlGDfo0CvwIrTDUeBLhNe286RCTvHHBoj4lmyHirzHDeREwygfmSRiRFQ+SkVuwtIRkMiNN0JPFS+5M3O48w7U5RZK7uW04l7R5OrwFp8I9Y1q00QHX
+c84BG9QWYcd6VIQ0BSw/vFsmq95ovxyc4Eokid9V05uu8mM1L663xImUm8yrPzLVWTCoQhncU/YSZJGnqDT0YJAJ7Q9l48HXDBYRtsX87qFm07W7UMWZGKeh
+LX1rfoAWd4oWhtD+xzPoxINL+pOHmA3Y2KQpjrFMNOflgabEI178SKvJiEvz+gD6Cr7q8WCps0oIeDp6OwCZEfCRGC9ZTx+sZCAX7YsekXGUHQxrEYVIYmxU
+MYiKa1UlQT+E2TcJzSQ8N/LToEx0KJA5kbG+JvHQ0IGxr4XMNA88tmiKrifnj3nj3etedRuCMRoCbX4X3KEiVZ3/uK5SdDZMDIPMhmj0iFQhhPC5M+V2C2sv
++E2Wks7rdVNPEuamTGDktqtNUBVVklidVg1iFN0m1A+de1xhZ2Iu4UtbvxFnRSTCNYdGhaFIBL+F5iEGnn9r5sowm/BWcvkfiRC+qWq94Qs1qHf9zgb7w0vy
+83jn3MYj23/0qaa8q3Uvw3ITLT0ig9Uyvmp3OZG13ryfZEqCQ41O8jHFbQamzj6G5RX3mI5noqZFZEahqEWuPa1NIKKjOWWP8PEuoVnM5yuRBFpe8T53DMn1
+5Xgo0VJ064G5IS7BcrHgagwk/f3APqQSTFyNqU4uXxpmOL/SLnbJpkwxE+wUPZlVlMW6tWDQEVmA1gH5UwzQPGfvrAvi2OlDN8LvTfOywbABA1B7Fvrr11c3
+ekTSIXqf44sF2YYqYsxMYXxiGiNOuqMlRifcWThXPKGdQ/cnCDWc5XyBMIZb4E9D+Eyp/S3BWM08an4qwyrBH1PggiZ3YMPTANOMSJ6T1HRzm+mG7zjKf1SM
+mf2cMv+He9WIwvwgnvPjVot3Y/GWmzbeteUl1u95ZT4ds5P4cGabHwYhD+dFmR8sPaEABH7ftnMINmNNLOBIOUmoEevSaxAbXLbE7Bzn+WoLObOxS8ekeVyX
+PnQ8rAUk2TMfNOVj3OsMzEz4OO6ADFn20mcj/p0Ydc13m9b5O46isMRsqJyq1gZdNkMXeXFNTDD6luYFN+TYWRXBctVS65QENdny8fNR5osGbgJzkBktg9WU
+zK1/XMmEWN8xwvE5ckACvZs51GrB2GJtE/j++6gujBwEV3cAUm4MAlZzQgOFaFVoo7vMw0mgKXmIsRi4wsWN0cczE6eFRN8/X4+ukM9xs7pk04ujxiJoExCC
+56TAuPceM98ID8oSt+RAOrJgZ1EYthwxqSt3VGtXkWfesWUQM8Vf+q8Ke3AzxVqMZPrGh3D5tmNq6AxFSK1vpoPWodNXZfDuNBTGc3JgYM61uYsJF9X78Qod
+88LS6o8jhRZxQWP6q9xejK7wwqXzG3xw0brcaJ9ucy6GYmIsZ3LlFjWRE6TMDUtURWPtEdIsXj9TletnrnI9ye8rK4OAk6jrnkOyq7st5fooGxA1sgGkRAw3
+SNkr26TlqshVuVYGfdcazVEAW+jxxsuZTfDlcDJ3waExj7lcspO+XNxcyMp4yd64Zh84nRxMWqUtStNWUfG3osO+mA0bA4VRv5AzZKk3MKo+AjaP3kcGXxCm
+gTR738nmdSqYq6Cgw2hCsELn8o4s/6gjMH9HImCgaAP4YI3vfKWUQxkZ+413ZgtuDMfU+cfkyyk0QMKPirxK4mvG0XEr+4t4Rjsv6DEHu66E9HODE6av0iWe
+sVfyMqQQIKG5KSWclKSA2Mwjmvmh0XwVp3lDDL7azQ4sxpzlQjEZ0oNiGaJlykHK8BnoDXbQg2LRlKLBKQi7wIQ7q9TUkiGyasEj4ZI8ai9RwkVBhKQ9WQ77
+/IMp0S9WBj4vGjBmYrZ/Rq6B8ZaYFP04fSg7S4GF4fbiedbriw0WBb4oLFVcKGrr/X8p2wyqfZwKAA==
+`;
+
+// Names that are also everyday words: capitalised at the start of a sentence they
+// say little, so they count for less than their frequency alone suggests
+export const COMMON_WORD_NAMES = `
+will may june april august mark grace hope faith joy rose ivy holly daisy jade pearl
+summer autumn dawn skye hunter cooper mason baker king young green white brown black
+long hall wood hill bell rich frank bill pat sue art don ray guy rob jack max chase
+miles penny sandy bob dean victor price ward hunt cook porter parker turner lane page
+banks fisher knight wells webb reed rice carter marshall stewart grant rowan sky cash
+chance justice major royal prince princess queen duke baron star storm stone river
+forest spring winter unique precious miracle harmony honesty promise patience mercy
+charity liberty destiny trinity genesis essence journey lucky noble sterling diamond
+emerald treasure velvet ever echo alpha case desire china brain job ridge scout marvel
+ford ransom sage haven heaven cannon archer bishop deacon foster garrison newton miller
+walker brooks clay cliff crystal angel amber baby infant unknown junior buddy lance wade
+drew earnest melody misty sunny sunshine windy stormy rocky dusty rusty candy honey
+ginger cherry berry olive basil fern iris glen gene heath trace gauge marina coral opal
+jewel ivory raven phoenix maverick gentry lyric cadence nova talon blaze ember colt
+serenity sincere glory charisma caprice mahogany chip buck bud ace kit rod chuck van
+`;
@@ -1,13 +1,32 @@
 // Name database for enhanced PII detection
-// Uses public census/baby name data - NO client data sent externally
+// Bundled with the app (see name-data.ts) - nothing is fetched, NO client data sent externally
+
+import { saveJSON } from './pii/storage';
+
+type NameKind = 'first' | 'last';
+
+// Lists are lowercase with straight apostrophes ("o'brien")
+const key = (word: string) => word.toLowerCase().replace(/’/g, "'");
+
+// name-data.ts holds each list gzipped and base64-encoded
+const inflate = async (encoded: string): Promise<string> => {
+  const bytes = Uint8Array.from(atob(encoded.replace(/\s+/g, '')), c => c.charCodeAt(0));
+  return new Response(new Blob([bytes]).stream().pipeThrough(new DecompressionStream('gzip'))).text();
+};
+
+const parseRanks = (list: string): Map<string, number> => {
+  const ranks = new Map<string, number>();
+  list.trim().split(/\s+/).forEach((name, i) => { if (!ranks.has(name)) ranks.set(name, i + 1); });
+  return ranks;
+};
 
 export class NameDatabase {
-  private firstNames: Set<string> = new Set();
-  private lastNames: Set<string> = new Set();
+  private firstNames = new Map<string, number>();  // name -> frequency rank (1 = most common)
+  private lastNames = new Map<string, number>();
+  private commonWords = new Set<string>();
   private isInitialized = false;
   private initPromise: Promise<void> | null = null;
-  private readonly cacheKey = 'pii_name_database_v2';
-  private readonly cacheVersion = '2.0';
+  version = '';
 
   async initialize(onProgress?: (progress: number) => void): Promise<void> {
     if (this.isInitialized) return;
@@ -18,187 +37,47 @@ export class NameDatabase {
   }
 
   private async _initialize(onProgress?: (progress: number) => void): Promise<void> {
-    try {
-      // Check cache first with integrity validation
-      const cacheLoaded = await this.loadFromCache();
-      if (cacheLoaded) {
-        this.isInitialized = true;
-        onProgress?.(100);
-        return;
-      }
-
-      onProgress?.(10);
-
-      // Load from public sources
-      await Promise.all([
-        this.loadFirstNames(onProgress),
-        this.loadLastNames(onProgress)
-      ]);
-
-      // Save to cache with integrity protection
-      await this.saveToCache();
-      this.isInitialized = true;
-      onProgress?.(100);
-    } catch (error) {
-      // Silent fallback to minimal set
-      this.loadFallbackNames();
-      this.isInitialized = true;
-      onProgress?.(100);
-    }
-  }
-
-  private async loadFirstNames(onProgress?: (progress: number) => void): Promise<void> {
-    try {
-      const response = await fetch('https://raw.githubusercontent.com/smashew/NameDatabases/master/NamesDatabases/first%20names/us.txt');
-      const text = await response.text();
-      
-      const names = text.split('\n')
-        .map(name => name.trim().toLowerCase())
-        .filter(name => name.length > 1);
-      
-      names.forEach(name => this.firstNames.add(name));
-      onProgress?.(50);
-    } catch (error) {
-      // Silent failure - will use fallback
-    }
+    onProgress?.(10);
+    // Separate chunk so the lists don't weigh down the main bundle
+    const data = await import('./name-data');
+    const [first, last] = await Promise.all([inflate(data.FIRST_NAMES_GZ), inflate(data.LAST_NAMES_GZ)]);
+    onProgress?.(60);
+    this.firstNames = parseRanks(first);
+    this.lastNames = parseRanks(last);
+    this.commonWords = new Set(data.COMMON_WORD_NAMES.trim().split(/\s+/));
+    this.version = data.NAME_DATA_VERSION;
+    // Lists from older versions were fetched and cached; they are no longer used
+    saveJSON('pii_name_database_v2', null);
+    saveJSON('pii_name_database', null);
+    this.isInitialized = true;
+    onProgress?.(100);
   }
 
-  private async loadLastNames(onProgress?: (progress: number) => void): Promise<void> {
-    try {
-      const response = await fetch('https://raw.githubusercontent.com/smashew/NameDatabases/master/NamesDatabases/surnames/us.txt');
-      const text = await response.text();
-      
-      const names = text.split('\n')
-        .map(name => name.trim().toLowerCase())
-        .filter(name => name.length > 1);
-      
-      names.forEach(name => this.lastNames.add(name));
-      onProgress?.(90);
-    } catch (error) {
-      // Silent failure - will use fallback
-    }
+  /** Frequency rank of a name (1 = most common), or undefined when it isn't listed. */
+  rank(word: string, kind: NameKind): number | undefined {
+    return (kind === 'first' ? this.firstNames : this.lastNames).get(key(word));
   }
 
-  private loadFallbackNames(): void {
-    // Minimal fallback set of common Australian/English names
-    const commonFirst = [
-      'mitchell', 'lara', 'john', 'sarah', 'michael', 'emma', 'james', 'olivia',
-      'william', 'ava', 'jack', 'sophie', 'thomas', 'charlotte', 'oliver', 'amelia',
-      'noah', 'mia', 'ethan', 'grace', 'lucas', 'chloe', 'liam', 'lily',
-      'alexander', 'emily', 'mason', 'ella', 'logan', 'zoe', 'samuel', 'ruby',
-      'daniel', 'alice', 'matthew', 'hannah', 'ryan', 'lucy', 'benjamin', 'georgia'
-    ];
-
-    const commonLast = [
-      'smith', 'jones', 'williams', 'brown', 'wilson', 'taylor', 'johnson', 'white',
-      'martin', 'anderson', 'thompson', 'nguyen', 'thomas', 'walker', 'harris', 'lee',
-      'cowan', 'murphy', 'kelly', 'baker', 'king', 'davies', 'wright', 'robinson',
-      'clarke', 'young', 'allen', 'scott', 'green', 'adams', 'hall', 'mitchell'
-    ];
-
-    commonFirst.forEach(name => this.firstNames.add(name));
-    commonLast.forEach(name => this.lastNames.add(name));
-  }
-
-  private async loadFromCache(): Promise<boolean> {
-    try {
-      const cached = localStorage.getItem(this.cacheKey);
-      if (!cached) return false;
-
-      const data = JSON.parse(cached);
-      
-      // Version validation
-      if (data.version !== this.cacheVersion) {
-        this.clearCache();
-        return false;
-      }
-
-      // Structure validation
-      if (!Array.isArray(data.firstNames) || !Array.isArray(data.lastNames)) {
-        this.clearCache();
-        return false;
-      }
-
-      // Size validation (prevent cache poisoning)
-      const MAX_CACHE_SIZE = 50000;
-      if (data.firstNames.length > MAX_CACHE_SIZE || data.lastNames.length > MAX_CACHE_SIZE) {
-        this.clearCache();
-        return false;
-      }
-
-      // Integrity check using checksum
-      if (data.checksum) {
-        const namesData = JSON.stringify({
-          firstNames: data.firstNames,
-          lastNames: data.lastNames
-        });
-        const calculatedChecksum = await this.calculateChecksum(namesData);
-        
-        if (calculatedChecksum !== data.checksum) {
-          // Cache integrity compromised
-          this.clearCache();
-          return false;
-        }
-      }
-
-      // Cache age validation (30 days)
-      if (data.timestamp) {
-        const cacheDate = new Date(data.timestamp);
-        const daysSinceCache = (Date.now() - cacheDate.getTime()) / (1000 * 60 * 60 * 24);
-        
-        if (daysSinceCache > 30) {
-          return false;
-        }
-      }
-
-      this.firstNames = new Set(data.firstNames);
-      this.lastNames = new Set(data.lastNames);
-      return true;
-    } catch (error) {
-      // Cache corrupted
-      this.clearCache();
-      return false;
-    }
-  }
-
-  private async saveToCache(): Promise<void> {
-    try {
-      const namesData = {
-        firstNames: Array.from(this.firstNames),
-        lastNames: Array.from(this.lastNames)
-      };
-      
-      // Calculate integrity checksum
-      const checksum = await this.calculateChecksum(JSON.stringify(namesData));
-      
-      const data = {
-        version: this.cacheVersion,
-        ...namesData,
-        checksum,
-        timestamp: new Date().toISOString()
-      };
-      
-      localStorage.setItem(this.cacheKey, JSON.stringify(data));
-    } catch (error) {
-      // localStorage full or disabled - silent failure acceptable
-    }
-  }
-
-  private async calculateChecksum(data: string): Promise<string> {
-    // Use Web Crypto API for integrity verification
-    const encoder = new TextEncoder();
-    const dataBuffer = encoder.encode(data);
-    const hashBuffer = await crypto.subtle.digest('SHA-256', dataBuffer);
-    const hashArray = Array.from(new Uint8Array(hashBuffer));
-    return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
+  /**
+   * 0..1: how strongly a capitalised word on its own suggests a name. Common names
+   * score near 1 and the rarest listed near 0.5; names that are also everyday words
+   * ("Will", "Grace", "Long") are discounted. 0 when the word isn't a known name.
+   */
+  nameLikelihood(word: string, kind?: NameKind): number {
+    const ranks = (kind ? [kind] : ['first', 'last'] as NameKind[])
+      .map(k => this.rank(word, k)).filter((r): r is number => r !== undefined);
+    if (ranks.length === 0) return 0;
+    const size = Math.max(this.firstNames.size, this.lastNames.size);
+    const frequency = 1 - 0.5 * Math.log(Math.min(...ranks)) / Math.log(size);
+    return this.commonWords.has(key(word)) ? frequency * 0.4 : frequency;
   }
 
   isFirstName(word: string): boolean {
-    return this.firstNames.has(word.toLowerCase());
+    return this.firstNames.has(key(word));
   }
 
   isLastName(word: string): boolean {
-    return this.lastNames.has(word.toLowerCase());
+    return this.lastNames.has(key(word));
   }
 
   isFullName(firstName: string, lastName: string): boolean {
@@ -208,15 +87,15 @@ export class NameDatabase {
   // Check if a phrase contains a potential full name
   containsName(text: string): { isName: boolean; firstName?: string; lastName?: string; confidence: number } {
     const words = text.split(/\s+/).filter(w => w.length > 1);
-    
+
     // Check consecutive pairs of capitalized words
     for (let i = 0; i < words.length - 1; i++) {
       const first = words[i];
       const last = words[i + 1];
-      
+
       // Both should be capitalized
       if (!/^[A-Z]/.test(first) || !/^[A-Z]/.test(last)) continue;
-      
+
       if (this.isFullName(first, last)) {
         return {
           isName: true,
@@ -229,13 +108,4 @@ export class NameDatabase {
 
     return { isName: false, confidence: 0 };
   }
-
-  clearCache(): void {
-    localStorage.removeItem(this.cacheKey);
-    localStorage.removeItem('pii_name_database'); // Remove old cache key
-    this.firstNames.clear();
-    this.lastNames.clear();
-    this.isInitialized = false;
-    this.initPromise = null;
-  }
 }
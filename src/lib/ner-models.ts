@@ -0,0 +1,143 @@
+import { loadJSON, saveJSON } from './pii/storage';
+import type { Label } from './pii/types';
+
+// Where a model's files come from:
+//  hub     - downloaded from huggingface.co once, then served from the browser cache
+//  bundled - deployed with the app under /models/<id>/ and listed in /models/models.json
+//  folder  - picked by the user from disk; kept in memory, never uploaded or cached
+export type ModelSource = 'hub' | 'bundled' | 'folder';
+
+export interface NerModel {
+  id: string;                     // hub repo id, or directory name under /models/
+  name: string;
+  description: string;
+  source: ModelSource;
+  labels: Record<string, Label>;  // model tag (no B-/I- prefix) -> our label; unlisted tags are dropped
+  dtype?: 'fp32' | 'q8';          // weights to load when only one onnx/ variant is present
+}
+
+// Tags used by the common token-classification datasets (CoNLL, OntoNotes, WikiNER).
+// Bundled and folder models use this map. Locations become ADDRESS, as the hub models map them.
+export const STANDARD_LABELS: Record<string, Label> = {
+  PER: 'PERSON', PERSON: 'PERSON',
+  ORG: 'ORG', ORGANIZATION: 'ORG', ORGANISATION: 'ORG',
+  MISC: 'ORG',  // mostly companies and brands in financial text
+  LOC: 'ADDRESS', LOCATION: 'ADDRESS', GPE: 'ADDRESS', FAC: 'ADDRESS',
+};
+
+export const NER_MODELS: NerModel[] = [
+  {
+    id: 'Xenova/bert-base-NER',
+    name: 'BERT base NER (English)',
+    description: 'CoNLL-2003 English news. Smallest download (~110MB), good on Western names.',
+    source: 'hub',
+    labels: { PER: 'PERSON', ORG: 'ORG', LOC: 'ADDRESS', MISC: 'ORG' },
+  },
+  {
+    id: 'Xenova/bert-base-multilingual-cased-ner-hrl',
+    name: 'mBERT NER (10 languages)',
+    description: 'Arabic, Chinese, Dutch, English, French, German, Italian, Latvian, Portuguese, Spanish. Better on non-English names.',
+    source: 'hub',
+    labels: { PER: 'PERSON', ORG: 'ORG', LOC: 'ADDRESS' },
+  },
+  {
+    id: 'Xenova/distilbert-base-multilingual-cased-ner-hrl',
+    name: 'DistilBERT NER (10 languages)',
+    description: 'Distilled multilingual model: faster on CPU, slightly less accurate.',
+    source: 'hub',
+    labels: { PER: 'PERSON', ORG: 'ORG', LOC: 'ADDRESS' },
+  },
+];
+
+export const DEFAULT_MODEL = NER_MODELS[0];
+
+/** A model to load, with a folder model's contents keyed by path inside the folder. */
+export interface ModelFiles {
+  model: NerModel;
+  files?: Record<string, File>;
+}
+
+/** Labels a model can produce, i.e. the ones it gets a vote on in an ensemble. */
+export const modelLabels = (model: NerModel): Label[] => [...new Set(Object.values(model.labels))];
+
+/** Our label for a raw model tag ("B-PER", "PER"), or null when the model's map drops it. */
+export function modelLabel(model: NerModel, tag: string): Label | null {
+  return model.labels[tag.replace(/^[BI]-/, '').toUpperCase()] ?? null;
+}
+
+/**
+ * Models shipped with the deployment. /models/models.json lists them as
+ * [{ "id": "bert-base-NER", "name": "...", "description": "...", "labels": {...} }]
+ * (labels optional, STANDARD_LABELS otherwise), each id a directory holding
+ * config.json, tokenizer.json, tokenizer_config.json and onnx/model*.onnx.
+ * No manifest means no bundled models.
+ */
+export async function loadBundledModels(): Promise<NerModel[]> {
+  try {
+    const response = await fetch('/models/models.json');
+    if (!response.ok) return [];
+    const listed: Array<Partial<NerModel>> = await response.json();
+    return listed.filter(m => typeof m.id === 'string' && m.id).map(m => ({
+      id: m.id!,
+      name: m.name || m.id!,
+      description: m.description || 'Bundled with this deployment',
+      source: 'bundled',
+      labels: m.labels ?? STANDARD_LABELS,
+      dtype: m.dtype,
+    }));
+  } catch {
+    // Missing manifest (or the dev server's HTML fallback) - nothing bundled
+    return [];
+  }
+}
+
+/**
+ * A model folder picked with <input webkitdirectory>: checks the files a
+ * token-classification pipeline needs and keys them by path inside the folder
+ * ("onnx/model_quantized.onnx"), ready to post to the worker.
+ */
+export function folderModel(picked: File[]): Required<ModelFiles> {
+  if (picked.length === 0) throw new Error('The folder is empty');
+  const folder = (picked[0].webkitRelativePath.split('/')[0] || 'model').replace(/[^\w.-]+/g, '-');
+  const files: Record<string, File> = {};
+  for (const file of picked) {
+    const path = file.webkitRelativePath.split('/').slice(1).join('/') || file.name;
+    files[path] = file;
+  }
+
+  const missing = ['config.json', 'tokenizer.json', 'tokenizer_config.json'].filter(f => !files[f]);
+  const full = 'onnx/model.onnx' in files, quantized = 'onnx/model_quantized.onnx' in files;
+  if (!full && !quantized) missing.push('onnx/model.onnx or onnx/model_quantized.onnx');
+  if (missing.length) throw new Error(`Not a model folder: missing ${missing.join(', ')}`);
+
+  return {
+    model: {
+      id: `local/${folder}`,
+      name: folder,
+      description: 'Loaded from a local folder',
+      source: 'folder',
+      labels: STANDARD_LABELS,
+      dtype: full && quantized ? undefined : quantized ? 'q8' : 'fp32',
+    },
+    files,
+  };
+}
+
+const STORAGE_KEY = 'pii_ner_model';
+
+/**
+ * Ids of the models last chosen, primary first (more than one runs an ensemble).
+ * Folder models can't be reopened without the files, so they aren't saved.
+ */
+export function loadModelChoice(): string[] {
+  return loadJSON(STORAGE_KEY, [DEFAULT_MODEL.id], stored => {
+    if (!stored.startsWith('[')) return stored ? [stored] : [DEFAULT_MODEL.id];  // single id, saved before ensembles
+    const ids = JSON.parse(stored);
+    return Array.isArray(ids) && ids.length ? ids.filter((id): id is string => typeof id === 'string') : [DEFAULT_MODEL.id];
+  });
+}
+
+export function saveModelChoice(models: NerModel[]): void {
+  const ids = models.filter(m => m.source !== 'folder').map(m => m.id);
+  if (ids.length) saveJSON(STORAGE_KEY, ids);
+}
@@ -1,12 +1,72 @@
-import { pipeline, env } from '@huggingface/transformers';
+import { pipeline, env, type PretrainedModelOptions } from '@huggingface/transformers';
 import { NameDatabase } from './name-database';
-import { detectStructured } from './pii/detectStructured';
-import { reconcile } from './pii/reconcile';
-import type { Entity } from './pii/types';
+import { detectStructured, type StructuredOptions } from './pii/detectStructured';
+import { applyDictionaries, isAllowed, DEFAULT_DICTIONARY, type DictionaryEntry } from './pii/dictionaries';
+import { reconcile, overrideWith } from './pii/reconcile';
+import { slidingWindows, mergeWindowEntities, type TextWindow } from './pii/chunking';
+import { matchRoster, type Roster } from './pii/roster';
+import { detectDates, detectAges } from './pii/dates';
+import { voteEntities, type EnsembleSettings, type ModelRun } from './pii/ensemble';
+import { scoreContext, type ContextCue } from './pii/context';
+import { passesCalibration, profileForModels, type CalibrationProfile } from './pii/calibration';
+import { DEFAULT_MODEL, modelLabel, modelLabels, type ModelFiles, type NerModel } from './ner-models';
+import type { Entity, EntityMetadata, Label } from './pii/types';
+
+// detectPII()'s cut-off for model hits on labels the calibration profile doesn't cover
+const LEGACY_MIN_SCORE = 0.75;
+
+// Display names detectPII() reports for model labels
+const LEGACY_LABELS: Partial<Record<Label, string>> = {
+  PERSON: 'Person Name',
+  ORG: 'Organization',
+  ADDRESS: 'Location',
+};
+
+/**
+ * Points transformers.js at a model's files. Hub models download once into the browser
+ * cache; bundled and folder models never touch the network. Folder files are served
+ * from memory through the custom cache hook. env is global: models load one at a
+ * time, each right after pointing it at its own files.
+ */
+function pointAtModelFiles(model: NerModel, files?: Record<string, File>) {
+  const local = model.source !== 'hub';
+  env.allowLocalModels = local;
+  env.allowRemoteModels = !local;
+  env.localModelPath = '/models/';
+  env.useBrowserCache = !local;
+  env.useCustomCache = !!files;
+  env.customCache = files ? {
+    // Keys are "/models/<id>/<file>" or the hub URL; only the former can name a folder file
+    match: async (key: string) => {
+      const at = key.indexOf(`${model.id}/`);
+      const file = at >= 0 ? files[key.slice(at + model.id.length + 1)] : undefined;
+      return file ? new Response(file) : undefined;
+    },
+    put: async () => {},  // already in memory
+  } : null;
+}
+
+// NameDatabase.nameLikelihood() a capitalised word needs to count as a name on its own,
+// and that several adjacent capitalised words need together
+const SINGLE_NAME_LIKELIHOOD = 0.5;
+const MULTI_NAME_LIKELIHOOD = 0.4;
 
-// Configure transformers to use browser cache
-env.allowLocalModels = false;
-env.useBrowserCache = true;
+// Context repeated between model windows: enough for a full name or street address
+const WINDOW_OVERLAP_TOKENS = 64;
+
+export interface DetectOptions extends StructuredOptions {
+  dictionary?: DictionaryEntry[];   // allow/deny entries applied after reconcile()
+  roster?: Roster;                  // known people/entities, always redacted
+  ensemble?: EnsembleSettings;      // vote weights and agreement when several models are loaded
+  contextCues?: ContextCue[];       // cue lexicon for scoreContext(), DEFAULT_CUES when unset
+  calibration?: CalibrationProfile | null;  // fitted per-label thresholds for reconcile(); ignored unless fitted with these models
+}
+
+/** Per-run hooks, kept apart from DetectOptions because they can't be posted to a worker. */
+export interface DetectControl {
+  signal?: AbortSignal;                                // checked between model chunks
+  onProgress?: (done: number, total: number) => void;  // chunks through the model so far
+}
 
 export interface PIIEntity {
   text: string;
@@ -14,79 +74,97 @@ export interface PIIEntity {
   start: number;
   end: number;
   score: number;
-  metadata?: {
-    calculatedDOB?: string;
-    documentDate?: string;
-    age?: number;
-  };
+  metadata?: EntityMetadata;
+}
+
+type ProgressCallback = NonNullable<PretrainedModelOptions['progress_callback']>;
+
+interface LoadedModel {
+  model: NerModel;
+  classifier: any;
 }
 
 export class BrowserPIIDetector {
-  private classifier: any = null;
-  private isLoading = false;
+  private loaded: LoadedModel[] = [];
+  private loading: Promise<void> | null = null;
   private nameDatabase: NameDatabase;
-  private readonly modelVersion = 'Xenova/bert-base-NER';
 
-  constructor() {
+  /** Primary model first; with more than one, detectAll() runs them all and votes (see voteEntities()). */
+  constructor(private readonly choices: ModelFiles[] = [{ model: DEFAULT_MODEL }]) {
     this.nameDatabase = new NameDatabase();
   }
 
-  async initialize(onProgress?: (progress: number) => void) {
-    if (this.classifier || this.isLoading) return;
-    
-    this.isLoading = true;
-    
+  get models(): NerModel[] {
+    return this.choices.map(c => c.model);
+  }
+
+  // The primary model's pipeline: serves detectPII()
+  private get classifier() {
+    return this.loaded[0]?.classifier ?? null;
+  }
+
+  async initialize(onProgress?: (progress: number) => void): Promise<void> {
+    if (this.classifier) return;
+    // A detection that arrives mid-load waits for it instead of running with no models
+    this.loading ??= this.loadModels(onProgress).finally(() => { this.loading = null; });
+    return this.loading;
+  }
+
+  private async loadModels(onProgress?: (progress: number) => void): Promise<void> {
     // Initialize name database in parallel (silent operation)
     const nameDbPromise = this.nameDatabase.initialize((progress) => {
       if (onProgress) onProgress(progress * 0.3);
     });
     
+    const loaded: LoadedModel[] = [];
+    for (const [i, { model, files }] of this.choices.entries()) {
+      pointAtModelFiles(model, files);
+      // Each model gets an equal share of the bar after the name database's 30%
+      const progress_callback: ProgressCallback = (progress) => {
+        if (onProgress && 'progress' in progress) {
+          const share = (i + Math.min(100, Math.max(0, progress.progress)) / 100) / this.choices.length;
+          onProgress(30 + share * 70);
+        }
+      };
+      loaded.push({ model, classifier: await this.loadClassifier(model, progress_callback) });
+    }
+    this.loaded = loaded;
+    await nameDbPromise;
+  }
+
+  private async loadClassifier(model: NerModel, progress_callback: ProgressCallback): Promise<LoadedModel['classifier']> {
     try {
       // Try WebGPU first for acceleration
-      console.log('Attempting to load AI model with WebGPU...');
-      this.classifier = await pipeline(
-        'token-classification',
-        this.modelVersion,
-        {
-          device: 'webgpu',
-          progress_callback: (progress: any) => {
-            if (onProgress && progress.progress !== undefined) {
-              const normalizedProgress = 30 + (Math.min(100, Math.max(0, progress.progress)) * 0.7);
-              onProgress(normalizedProgress);
-            }
-          }
-        }
-      );
+      console.log(`Attempting to load ${model.id} with WebGPU...`);
+      const classifier = await pipeline('token-classification', model.id, {
+        device: 'webgpu',
+        dtype: model.dtype,
+        progress_callback,
+      });
       console.log('Successfully loaded AI model with WebGPU');
+      return classifier;
     } catch (webgpuError) {
       // Fallback to CPU
       console.warn('WebGPU failed, falling back to CPU:', webgpuError);
       try {
-        this.classifier = await pipeline(
-          'token-classification',
-          this.modelVersion,
-          {
-            progress_callback: (progress: any) => {
-              if (onProgress && progress.progress !== undefined) {
-                const normalizedProgress = 30 + (Math.min(100, Math.max(0, progress.progress)) * 0.7);
-                onProgress(normalizedProgress);
-              }
-            }
-          }
-        );
+        const classifier = await pipeline('token-classification', model.id, {
+          dtype: model.dtype,
+          progress_callback,
+        });
         console.log('Successfully loaded AI model with CPU');
+        return classifier;
       } catch (cpuError) {
-        this.isLoading = false;
         console.error('Failed to load AI model:', cpuError);
-        throw new Error(`Model initialization failed: ${cpuError instanceof Error ? cpuError.message : 'Unknown error'}`);
+        throw new Error(`Model initialization failed (${model.name}): ${cpuError instanceof Error ? cpuError.message : 'Unknown error'}`);
       }
     }
-    
-    await nameDbPromise;
-    this.isLoading = false;
   }
 
-  async detectPII(text: string): Promise<PIIEntity[]> {
+  async detectPII(
+    text: string,
+    dictionary: DictionaryEntry[] = DEFAULT_DICTIONARY,
+    calibration?: CalibrationProfile | null,
+  ): Promise<PIIEntity[]> {
     if (!this.classifier) {
       await this.initialize();
     }
@@ -99,53 +177,57 @@ export class BrowserPIIDetector {
     const result = await this.classifier(text, {
       aggregation_strategy: 'simple'
     });
+    // Only the primary model runs here, so only a profile fitted on it alone applies
+    calibration = profileForModels(calibration, [this.loaded[0].model.id]);
 
     const entities: PIIEntity[] = [];
     
-    // Map AI NER labels to PII categories
-    const aiEntities = result.map((entity: any) => ({
-      text: entity.word,
-      label: this.mapLabelToPII(entity.entity_group || entity.entity),
-      start: entity.start,
-      end: entity.end,
-      score: entity.score
-    })).filter((entity: PIIEntity) => {
-      // Require higher confidence for AI detections
-      if (entity.score < 0.75) return false;
-      
+    // Map AI NER labels to PII categories; tags the model's map drops are skipped
+    const aiEntities = result.flatMap((entity: any) => {
+      const label = modelLabel(this.loaded[0].model, entity.entity_group || entity.entity);
+      const legacy = label && LEGACY_LABELS[label];
+      if (!label || !legacy) return [];
+
+      // Require higher confidence for AI detections, unless a calibration profile covers the label
+      if (!(passesCalibration(label, entity.score, calibration) ?? entity.score >= LEGACY_MIN_SCORE)) return [];
+
+      return [{
+        text: entity.word,
+        label: legacy,
+        start: entity.start,
+        end: entity.end,
+        score: entity.score
+      }];
+    }).filter((entity: PIIEntity) => {
       // Filter out false positives for person names
       if (entity.label === 'Person Name') {
-        return this.isLikelyPersonName(entity.text);
+        return this.isLikelyPersonName(entity.text, dictionary);
       }
       
       return true;
     });
     
     entities.push(...aiEntities);
+
+    // Birth dates in any written form and stated ages, both dated against the document date
+    for (const d of [...detectDates(text), ...detectAges(text)]) {
+      entities.push({
+        text: d.text,
+        label: d.label === 'AGE' ? 'Age' : 'Date of Birth',
+        start: d.start,
+        end: d.end,
+        score: 1.0,
+        metadata: d.metadata
+      });
+    }
     
     // Supplement with name database for capitalized words AI might have missed
     const capitalizedPattern = /\b([A-Z][a-z]{2,15})\b/g;
     let match;
     
-    const excludeCommonWords = new Set([
-      'Balance', 'Fund', 'Super', 'Investment', 'Option', 'Proposed', 'Action',
-      'Current', 'Growth', 'Balanced', 'Conservative', 'Aggressive', 'Moderate',
-      'Account', 'Portfolio', 'Asset', 'Liability', 'Income', 'Expense', 'Credit',
-      'Card', 'Net', 'Risk', 'Keep', 'Client', 'Model', 'Daily', 'Market', 'Plan',
-      'Step', 'Fees', 'Service', 'Fee', 'Gains', 'Mix', 'Sample', 'Form', 'Total',
-      'Amount', 'Value', 'Price', 'Cost', 'Rate', 'Return', 'Profit', 'Loss',
-      'Stock', 'Bond', 'Cash', 'Property', 'Trust', 'Company', 'Business',
-      'Australian', 'Australia', 'Sydney', 'Melbourne', 'Brisbane', 'Perth',
-      'Street', 'Road', 'Avenue', 'Drive', 'Lane', 'Court', 'Place',
-      'January', 'February', 'March', 'April', 'May', 'June', 'July', 'August',
-      'September', 'October', 'November', 'December', 'Monday', 'Tuesday',
-      'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday',
-      'Owner', 'Teacher', 'Manager', 'Director', 'Engineer', 'Consultant'
-    ]);
-    
     while ((match = capitalizedPattern.exec(text)) !== null) {
       const word = match[1];
-      if (excludeCommonWords.has(word)) continue;
+      if (isAllowed(word, 'PERSON', dictionary)) continue;
       
       // Check if AI already caught this
       const alreadyDetected = entities.some(e => 
@@ -153,8 +235,8 @@ export class BrowserPIIDetector {
       );
       if (alreadyDetected) continue;
       
-      // Only add if it's a first name (higher confidence)
-      if (this.nameDatabase.isFirstName(word)) {
+      // Only add common first names that aren't also everyday words (higher confidence)
+      if (this.nameDatabase.nameLikelihood(word, 'first') >= SINGLE_NAME_LIKELIHOOD) {
         entities.push({
           text: word,
           label: 'Person Name',
@@ -168,30 +250,16 @@ export class BrowserPIIDetector {
     return entities;
   }
 
-  private isLikelyPersonName(text: string): boolean {
+  private isLikelyPersonName(text: string, dictionary: DictionaryEntry[]): boolean {
     // Remove common punctuation and normalize
     const normalized = text.trim().replace(/[.,!?;:]/g, '');
     const words = normalized.split(/\s+/);
     
     console.log('🔍 Validating:', text, '| Words:', words);
     
-    // CRITICAL: Blacklist common business/financial terms the AI incorrectly labels as names
-    const businessBlacklist = new Set([
-      'card', 'credit', 'debit', 'account', 'balance', 'fund', 'funds',
-      'plan', 'service', 'services', 'analysis', 'action', 'adviser', 'advisor',
-      'client', 'mortgage', 'retain', 'current', 'growth', 'model', 'balanced',
-      'considerations', 'market', 'implementation', 'capital', 'gains',
-      'remuneration', 'ongoing', 'disclosures', 'proceed', 'form', 'solutions',
-      'school', 'secondary', 'long', 'dear', 'fees', 'july', 'august', 'january',
-      'representative', 'authorised', 'authorized', 'orion', 'advice', 'engineering',
-      'street', 'strategic', 'pty', 'ltd'
-    ]);
-    
-    // If ANY word is a blacklisted business term, reject immediately
-    const hasBlacklistedWord = words.some(word => businessBlacklist.has(word.toLowerCase()));
-    console.log('  Blacklist check:', hasBlacklistedWord, '| Checking:', words.map(w => w.toLowerCase()));
-    if (hasBlacklistedWord) {
-      console.log('  ❌ REJECTED: Contains blacklisted word');
+    // Allowlisted business/financial terms the AI incorrectly labels as names
+    if (isAllowed(normalized, 'PERSON', dictionary)) {
+      console.log('  ❌ REJECTED: Allowlisted term');
       return false;
     }
     
@@ -210,68 +278,49 @@ export class BrowserPIIDetector {
     
     const titles = new Set(['mr', 'mrs', 'ms', 'dr', 'miss', 'prof', 'sir', 'dame']);
     
-    // Single word: MUST be in name database
+    const likelihood = (word: string) => this.nameDatabase.nameLikelihood(word);
+
+    // Single word: a known name, and not mostly an everyday word ("Will", "Grace")
     if (cleanWords.length === 1) {
-      const word = cleanWords[0];
-      return this.nameDatabase.isFirstName(word) || this.nameDatabase.isLastName(word);
-    }
-    
-    // Two words: STRICT validation
-    if (cleanWords.length === 2) {
-      const [first, second] = cleanWords;
-      
-      // Title + Name: second word MUST be in database
-      if (titles.has(first.toLowerCase())) {
-        return this.nameDatabase.isFirstName(second) || this.nameDatabase.isLastName(second);
-      }
-      
-      // First + Last: BOTH words must be in database
-      const firstValid = this.nameDatabase.isFirstName(first);
-      const secondValid = this.nameDatabase.isLastName(second) || this.nameDatabase.isFirstName(second);
-      
-      return firstValid && secondValid;
+      return likelihood(cleanWords[0]) >= SINGLE_NAME_LIKELIHOOD;
     }
     
-    // Three or more words: ALL non-title words must be in database
-    let validCount = 0;
-    let requiredCount = 0;
-    
-    for (const word of cleanWords) {
-      // Skip titles
-      if (titles.has(word.toLowerCase())) continue;
-      
-      requiredCount++;
-      if (this.nameDatabase.isFirstName(word) || this.nameDatabase.isLastName(word)) {
-        validCount++;
-      }
+    // Title + Name: the title settles it, so any known name will do
+    if (cleanWords.length === 2 && titles.has(cleanWords[0].toLowerCase())) {
+      return likelihood(cleanWords[1]) > 0;
     }
     
-    // ALL non-title words must be valid names
-    return requiredCount > 0 && validCount === requiredCount;
+    // Two or more words: ALL non-title words must be in the database, and together
+    // they must outweigh the chance that each is just a capitalised word
+    const scores = cleanWords.filter(w => !titles.has(w.toLowerCase())).map(likelihood);
+    if (scores.length === 0 || scores.some(s => s === 0)) return false;
+    if (cleanWords.length === 2 && !this.nameDatabase.isFirstName(cleanWords[0])) return false;
+    const combined = 1 - scores.reduce((p, s) => p * (1 - s), 1);
+    return combined >= MULTI_NAME_LIKELIHOOD;
   }
 
-  private mapLabelToPII(label: string): string {
-    const mapping: { [key: string]: string } = {
-      'PER': 'Person Name',
-      'PERSON': 'Person Name',
-      'LOC': 'Location',
-      'LOCATION': 'Location',
-      'ORG': 'Organization',
-      'ORGANIZATION': 'Organization',
-      'MISC': 'Miscellaneous'
-    };
-    return mapping[label.toUpperCase()] || label;
-  }
 
+  // Tokens per window: the smallest model input limit less [CLS]/[SEP] and some slack,
+  // since sentences are counted one at a time
+  private windowTokens(): number {
+    const limits = this.loaded.map(({ classifier }) => {
+      const max = Number(classifier.tokenizer?.model_max_length);
+      return Number.isFinite(max) && max > 0 && max <= 4096 ? max : 512;
+    });
+    return (limits.length ? Math.min(...limits) : 512) - 16;
+  }
 
-  private async detectNER(text: string): Promise<Entity[]> {
-    if (!this.classifier) {
-      await this.initialize();
-    }
+  // Tokenizers differ (mBERT splits names more finely): a window must fit every model
+  private countTokens(text: string): number {
+    const tokenizers = this.loaded.map(l => l.classifier.tokenizer).filter(Boolean);
+    if (!tokenizers.length) return Math.ceil(text.length / 4); // rough estimate before the model loads
+    return Math.max(...tokenizers.map(t => t.encode(text, { add_special_tokens: false }).length));
+  }
 
+  private async detectNER(text: string, { model, classifier }: LoadedModel): Promise<Entity[]> {
     try {
       // 1) Try library aggregation
-      let raw = await this.classifier(text, { aggregation_strategy: 'simple' });
+      let raw = await classifier(text, { aggregation_strategy: 'simple' });
 
       // 2) Decide if output still looks tokenized (tiny tokens / ## pieces / BIO tags / incomplete names)
       const looksTokenized = Array.isArray(raw) && raw.length > 0 && raw.some((r: any) => {
@@ -296,7 +345,7 @@ export class BrowserPIIDetector {
 
       // 3) If empty OR still tokenized, do manual merge on raw tokens
       if (!Array.isArray(raw) || raw.length === 0 || looksTokenized) {
-        const tokens = await this.classifier(text);
+        const tokens = await classifier(text);
         raw = [];
         let cur: any = null;
         for (const t of tokens) {
@@ -334,24 +383,21 @@ export class BrowserPIIDetector {
         if (cur) raw.push(cur);
       }
 
-      // 4) Map to Entity
-      // Map model labels to internal schema
-      const labelMap: Record<string, string> = {
-        PER: 'PERSON',
-        ORG: 'ORG',
-        LOC: 'ADDRESS',   // or 'LOC' if you prefer
-        MISC: 'ORG'       // often company/brand context
-      };
-
-      const mapped = raw.map((r: any) => ({
-        text: r.word || r.text || '',
-        label: labelMap[(r.entity_group || r.label || '').replace(/^[BI]-/, '')] || (r.entity_group || r.label || ''),
-        start: r.start ?? 0,
-        end: r.end ?? 0,
-        score: r.score ?? 1,
-        source: 'model',
-      }));
-
+      // 4) Map to Entity through the model's label map, noting which model found it
+      const mapped: Entity[] = [];
+      for (const r of raw) {
+        const label = modelLabel(model, (r.entity_group || r.label || '').toString());
+        if (!label) continue;
+        mapped.push({
+          text: r.word || r.text || '',
+          label,
+          start: r.start ?? 0,
+          end: r.end ?? 0,
+          score: r.score ?? 1,
+          source: 'model',
+          model: model.id,
+        });
+      }
       return mapped;
     } catch (e) {
       console.error('detectNER error', e);
@@ -359,76 +405,48 @@ export class BrowserPIIDetector {
     }
   }
 
-  private mapNERLabelToEntity(label: string): Entity['label'] {
-    // Map NER labels (PER, LOC, ORG, MISC) to our Entity label types
-    const mapping: Record<string, Entity['label']> = {
-      'PER': 'PERSON',
-      'PERSON': 'PERSON',
-      'LOC': 'LOC',
-      'LOCATION': 'LOC',
-      'ORG': 'ORG',
-      'ORGANIZATION': 'ORG',
-      'MISC': 'PERSON', // Default misc to person for now
-    };
-    return mapping[label.toUpperCase()] || 'PERSON';
-  }
-
-  async detectAll(text: string): Promise<Entity[]> {
-    console.time('detectAll');
-    const structured = detectStructured(text);
-    console.log('counts: structured', structured.length);
-
-    // Accurate paragraph + chunk slicing without trimming
-    const sliceParagraphsWithIndices = (text: string, maxLen = 3500) => {
-      const slices: Array<{ start: number; end: number; text: string }> = [];
-
-      // Split by blank lines but KEEP exact indices in the original text
-      const re = /\n\s*\n+/g;
-      let last = 0;
-      let m: RegExpExecArray | null;
-
-      while ((m = re.exec(text))) {
-        const segStart = last;
-        const segEnd = m.index;
-        // segment [segStart, segEnd)
-        for (let i = segStart; i < segEnd; i += maxLen) {
-          const start = i;
-          const end = Math.min(segEnd, i + maxLen);
-          slices.push({ start, end, text: text.slice(start, end) });
-        }
-        last = m.index + m[0].length; // skip the exact separator length
-      }
+  /**
+   * Model detections with their context-adjusted scores, before any confidence
+   * cut-off: what detectAll() passes to reconcile(), and what calibration fits on.
+   */
+  async modelCandidates(text: string, options: DetectOptions = {}, control: DetectControl = {}): Promise<Entity[]> {
+    // Token-aware windows that end on sentence boundaries and overlap, so entities near
+    // a cut are seen whole; the merge drops the duplicates from the overlap
+    if (!this.classifier) await this.initialize(); // windows are sized with its tokenizer
+    const windows = slidingWindows(text, {
+      maxTokens: this.windowTokens(),
+      overlapTokens: WINDOW_OVERLAP_TOKENS,
+      countTokens: (t) => this.countTokens(t),
+    });
 
-      // tail
-      if (last < text.length) {
-        for (let i = last; i < text.length; i += maxLen) {
-          const start = i;
-          const end = Math.min(text.length, i + maxLen);
-          slices.push({ start, end, text: text.slice(start, end) });
-        }
+    // Every model reads every window; with several models their outputs are then voted on
+    const runs: ModelRun[] = [];
+    const steps = windows.length * this.loaded.length;
+    let done = 0;
+    control.onProgress?.(0, steps);
+    for (const loaded of this.loaded) {
+      const results: Array<{ window: TextWindow; entities: Entity[] }> = [];
+      for (const w of windows) {
+        control.signal?.throwIfAborted();
+        results.push({ window: w, entities: await this.detectNER(w.text, loaded) });
+        control.onProgress?.(++done, steps);
       }
+      runs.push({ model: loaded.model.id, labels: modelLabels(loaded.model), entities: mergeWindowEntities(results) });
+    }
 
-      return slices;
-    };
+    // Nearby cue phrases move model scores before reconcile() applies its thresholds
+    return scoreContext(text, voteEntities(runs, options.ensemble), options.contextCues);
+  }
 
-    const slices = sliceParagraphsWithIndices(text, 3500);
+  async detectAll(text: string, options: DetectOptions = {}, control: DetectControl = {}): Promise<Entity[]> {
+    console.time('detectAll');
+    const structured = detectStructured(text, options);
+    console.log('counts: structured', structured.length);
 
-    let modelEntities: Entity[] = [];
-    for (const s of slices) {
-      const ents = await this.detectNER(s.text);
-      
-      // REBASE using exact original indices
-      for (const e of ents) {
-        modelEntities.push({
-          ...e,
-          start: e.start + s.start,
-          end: e.end + s.start,
-        });
-      }
-    }
+    const modelEntities = await this.modelCandidates(text, options, control);
     
     // --- TEMP DEBUG ---
-    (window as any)._modelEntities = modelEntities;
+    if (typeof window !== 'undefined') (window as any)._modelEntities = modelEntities;
     console.log('👁️  MODEL ENTITIES (raw)', modelEntities.length);
     console.table(modelEntities.map((e:any)=>({
       text: e.text,
@@ -444,7 +462,9 @@ export class BrowserPIIDetector {
     const all = [...structured, ...modelEntities];
     console.log('counts: combined pre-reconcile', all.length);
 
-    const reconciled = reconcile(all);
+    const calibration = profileForModels(options.calibration, this.models.map(m => m.id));
+    let reconciled = applyDictionaries(text, reconcile(all, calibration), options.dictionary ?? DEFAULT_DICTIONARY);
+    if (options.roster) reconciled = overrideWith(reconciled, matchRoster(text, options.roster));
     console.log('counts: reconciled', reconciled.length);
     
     // DEBUG: Verify entity positions match text
@@ -466,141 +486,4 @@ export class BrowserPIIDetector {
 
     return reconciled;
   }
-
-  // Detect only highly structured data that AI cannot understand
-  private detectStructuredData(text: string): PIIEntity[] {
-    const entities: PIIEntity[] = [];
-    let match;
-    
-    // GOVERNMENT IDs - Specific Australian formats
-    const governmentPatterns = [
-      { pattern: /\b(?:ABN:?\s*)?(\d{2}[\s-]?\d{3}[\s-]?\d{3}[\s-]?\d{3})\b/g, label: 'ABN' },
-      { pattern: /\b(?:TFN:?\s*)?(\d{3}[\s-]?\d{3}[\s-]?\d{3})\b/g, label: 'TFN' },
-      { pattern: /\b(?:Medicare:?\s*)?(\d{4}[\s-]?\d{5}[\s-]?\d{1})\b/g, label: 'Medicare Number' },
-      { pattern: /\b(?:AFSL|Australian Financial Services Licence)\s*:?\s*#?\s*(\d{6})\b/gi, label: 'AFSL Number' },
-      { pattern: /\b(?:AR|Authorised Representative)\s*:?\s*#?\s*(\d{6})\b/gi, label: 'AR Number' }
-    ];
-    
-    // CONTACT INFORMATION
-    const contactPatterns = [
-      { pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/g, label: 'Email' },
-      { pattern: /\b(?:\+61[\s-]?)?0[2-9](?:[\s-]?\d){8}\b/g, label: 'Phone Number' }
-    ];
-    
-    // FINANCIAL ACCOUNTS
-    const accountPatterns = [
-      { pattern: /\b(?:\d{4}[\s-]?){3}\d{4}\b/g, label: 'Credit Card' },
-      { pattern: /\b(\d{3}[\s-]\d{3}[\s-]\d{4,10})\b/g, label: 'Bank Account' }
-    ];
-    
-    // ADDRESSES - Australian format with limited repetitions to prevent ReDoS
-    const addressPattern = /\b(\d{1,5}\s+[A-Za-z]+(?:\s+[A-Za-z]+){0,5}\s+(?:Street|St|Road|Rd|Avenue|Ave|Drive|Dr|Lane|Ln|Court|Ct|Place|Pl|Way|Crescent|Cres|Parade|Pde|Boulevard|Blvd|Terrace|Tce))\b/gi;
-    while ((match = addressPattern.exec(text)) !== null) {
-      entities.push({
-        text: match[1],
-        label: 'Address',
-        start: match.index,
-        end: match.index + match[1].length,
-        score: 1.0
-      });
-    }
-    
-    // BUSINESS NAMES - Common business entity suffixes with limited repetitions
-    const businessPattern = /\b([A-Z][a-z]+(?:\s+[A-Z][a-z]+){0,4})\s+(?:Pty\.?\s*Ltd\.?|Limited|Pty|Ltd|Engineering|Consulting|Consultants|Solutions|Services|Group|Associates|Partners|Corporation|Corp|Company|Co\.?|Enterprises|Industries|Holdings)\b/g;
-    while ((match = businessPattern.exec(text)) !== null) {
-      const fullMatch = match[0];
-      entities.push({
-        text: fullMatch,
-        label: 'Business Name',
-        start: match.index,
-        end: match.index + fullMatch.length,
-        score: 0.85
-      });
-    }
-    
-    // SURNAMES - Detect likely surnames (capitalize words followed by common context)
-    const surnamePattern = /\b(Mr\.?|Mrs\.?|Ms\.?|Dr\.?|Miss)\s+([A-Z][a-z]{2,20})\b/g;
-    while ((match = surnamePattern.exec(text)) !== null) {
-      const surname = match[2];
-      const surnameStart = match.index + match[0].indexOf(surname);
-      entities.push({
-        text: surname,
-        label: 'Person Name',
-        start: surnameStart,
-        end: surnameStart + surname.length,
-        score: 0.9
-      });
-    }
-    
-    // FULL NAMES - First + Last pattern (with name database verification)
-    const fullNamePattern = /\b([A-Z][a-z]{2,15})\s+([A-Z][a-z]{2,20})\b/g;
-    
-    while ((match = fullNamePattern.exec(text)) !== null) {
-      const firstName = match[1];
-      const lastName = match[2];
-      
-      // REQUIRE at least one word to be in the name database
-      const isValidName = this.nameDatabase.isFirstName(firstName) || 
-                         this.nameDatabase.isLastName(lastName) ||
-                         this.nameDatabase.isFirstName(lastName);
-      
-      if (!isValidName) continue;
-      
-      // Check if AI already caught this
-      const fullName = match[0];
-      const alreadyDetected = entities.some(e => 
-        e.start <= match.index && e.end >= match.index + fullName.length
-      );
-      if (!alreadyDetected) {
-        entities.push({
-          text: fullName,
-          label: 'Person Name',
-          start: match.index,
-          end: match.index + fullName.length,
-          score: 0.85
-        });
-      }
-    }
-    
-    // DATES OF BIRTH - Only dates with birth year range (1920-2024)
-    const dobPattern = /\b(\d{1,2}[\/\-]\d{1,2}[\/\-](\d{4}|\d{2}))\b/g;
-    while ((match = dobPattern.exec(text)) !== null) {
-      const dateStr = match[1];
-      const yearMatch = match[2];
-      let year = parseInt(yearMatch);
-      
-      if (year < 100) {
-        year += year > 30 ? 1900 : 2000;
-      }
-      
-      if (year >= 1920 && year <= 2024) {
-        entities.push({
-          text: dateStr,
-          label: 'Date of Birth',
-          start: match.index,
-          end: match.index + dateStr.length,
-          score: 0.95
-        });
-      }
-    }
-    
-    // Execute all structured patterns
-    [...governmentPatterns, ...contactPatterns, ...accountPatterns].forEach(({ pattern, label }) => {
-      const regex = new RegExp(pattern.source, pattern.flags);
-      while ((match = regex.exec(text)) !== null) {
-        const matchText = match[1] || match[0];
-        const matchStart = match[1] ? match.index + match[0].indexOf(match[1]) : match.index;
-        
-        entities.push({
-          text: matchText,
-          label,
-          start: matchStart,
-          end: matchStart + matchText.length,
-          score: 1.0
-        });
-      }
-    });
-
-    return entities;
-  }
 }
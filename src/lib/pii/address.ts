@@ -0,0 +1,50 @@
+// Australian address grammar, composed from parts so each piece stays readable.
+// Covers unit/level prefixes, lot numbers, multi-word street names, postal
+// delivery (PO/GPO Box, Locked/Private Bag, RMB/RSD) and an optional
+// "Suburb STATE 1234" locality. Street types that are also ordinary words
+// ("12 Month Outlook", "$50,000 Cash Reserve") need a locality or a unit/level
+// prefix before they count.
+
+// Street types and their common abbreviations (AS 4590 / Australia Post)
+export const STREET_TYPES = [
+  'Street', 'St', 'Road', 'Rd', 'Avenue', 'Ave', 'Av', 'Boulevard', 'Boulevarde', 'Blvd',
+  'Close', 'Cl', 'Lane', 'La', 'Ln', 'Way', 'Place', 'Pl', 'Crescent', 'Cres', 'Cr',
+  'Court', 'Ct', 'Drive', 'Dr', 'Parade', 'Pde', 'Terrace', 'Tce', 'Highway', 'Hwy',
+  'Circuit', 'Cct', 'Grove', 'Gr', 'Esplanade', 'Esp', 'Sq', 'Parkway', 'Pkwy',
+  'Promenade', 'Prom', 'Cir', 'Gdns', 'Hts', 'Mews',
+  'Quay', 'Strand', 'Arcade', 'Alley', 'Broadway',
+  'Concourse', 'Corso', 'Grange', 'Meander', 'Pathway', 'Ramble',
+  'Wynd', 'Bypass', 'Freeway', 'Fwy', 'Motorway',
+];
+
+// Also everyday words (and report headings): street-only matches need a locality or unit/level
+export const AMBIGUOUS_STREET_TYPES = [
+  'Square', 'Circle', 'Gardens', 'Heights', 'Rise', 'Row', 'Walk', 'Track', 'Trail', 'Loop',
+  'Chase', 'Glen', 'Vista', 'View', 'Ridge', 'Retreat', 'Outlook', 'Mall', 'Cove', 'Crossing',
+  'Crest', 'Dale', 'Green', 'Hill', 'Link', 'Nook', 'Pass', 'Path', 'Point', 'Reserve', 'Turn',
+  'Junction',
+];
+
+const STATES = '(?:NSW|VIC|Vic|QLD|Qld|WA|SA|TAS|Tas|ACT|NT)';
+const WORD = "[A-Z][A-Za-z'’-]*";
+
+const UNIT = '(?:(?:Unit|Apartment|Apt|Flat|Suite|Shop|Villa|Townhouse)\\s*\\d{1,4}[A-Z]?\\s*[,/]?\\s*)';
+const LEVEL = '(?:(?:Level|Lvl|Floor)\\s*\\d{1,3}\\s*,?\\s*)';
+const LOT = '(?:Lot\\s+\\d{1,5}\\s*,?\\s*)';
+// "12", "12A", "12-14", or "4/12" (unit/street number)
+const NUMBER = '(?:\\d{1,4}[A-Z]?\\/)?\\d{1,5}[A-Z]?(?:-\\d{1,5}[A-Z]?)?';
+const alternatives = (words: string[]) => `(?:${[...words].sort((a, b) => b.length - a.length).join('|')})`;
+const STREET_NAME = `${WORD}(?:\\s+${WORD}){0,3}?`;
+const street = (prefix: string, types: string[]) =>
+  `${prefix}${NUMBER}\\s+${STREET_NAME}\\s+${alternatives(types)}\\b(?:\\s+(?:North|South|East|West|Extension))?`;
+const STREET = street(`${UNIT}?${LEVEL}?${LOT}?`, STREET_TYPES);
+const AMBIGUOUS_STREET = street(`${LOT}?`, AMBIGUOUS_STREET_TYPES);
+const PREFIXED_STREET = street(`(?:${UNIT}${LEVEL}?|${LEVEL})${LOT}?`, AMBIGUOUS_STREET_TYPES);
+
+const POSTAL = `(?:${LOT}?(?:(?:P\\.?\\s?O\\.?|G\\.?P\\.?O\\.?|Post\\s+Office)\\s*Box|(?:Locked|Private)\\s+Bag|RMB|RSD|CMB|RMS)\\s*\\d{1,6})`;
+
+// Only taken when it ends in a state and/or postcode, so trailing prose isn't swallowed
+const LOCALITY = `(?:,?\\s+${WORD}(?:\\s+${WORD}){0,2}(?:,?\\s+${STATES})?,?\\s+\\d{4}\\b|,?\\s+${WORD}(?:\\s+${WORD}){0,2},?\\s+${STATES}\\b)`;
+
+export const ADDRESS = new RegExp(
+  `\\b(?:(?:${STREET}|${PREFIXED_STREET}|${POSTAL})(?:${LOCALITY})?|${AMBIGUOUS_STREET}${LOCALITY})`, 'g');
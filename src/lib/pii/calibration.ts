@@ -0,0 +1,117 @@
+import { loadJSON, saveJSON } from './storage';
+import type { Label } from './types';
+
+export interface LabelCalibration {
+  threshold: number;    // cut-off on the temperature-scaled score
+  temperature: number;  // > 1 softens over-confident scores, < 1 sharpens them
+  recall: number;       // measured on the corpus at this threshold
+  precision: number;
+  support: number;      // annotated entities of this label in the corpus
+}
+
+/**
+ * Per-label thresholds fitted on an annotated corpus (see evaluate/calibrate.ts).
+ * Labels it doesn't cover keep reconcile()'s built-in thresholds.
+ */
+export interface CalibrationProfile {
+  version: 1;
+  created: string;       // ISO timestamp
+  targetRecall: number;
+  models: string[];      // NerModel ids the scores came from; other models score differently
+  labels: Partial<Record<Label, LabelCalibration>>;
+}
+
+/** A model detection from the corpus run: its raw score and the annotation it matched, if any. */
+export interface ScoredCandidate {
+  score: number;
+  gold: number | null;  // index of the matched annotation of the same label
+}
+
+const EPS = 1e-6;
+const logit = (p: number) => {
+  const q = Math.min(1 - EPS, Math.max(EPS, p));
+  return Math.log(q / (1 - q));
+};
+
+export const calibratedScore = (score: number, temperature: number) =>
+  1 / (1 + Math.exp(-logit(score) / temperature));
+
+// Temperatures tried when fitting, 0.25..4 on a log scale
+const TEMPERATURES = Array.from({ length: 41 }, (_, i) => Math.pow(2, -2 + i / 10));
+
+function fitTemperature(candidates: ScoredCandidate[]): number {
+  let best = 1, bestLoss = Infinity;
+  for (const t of TEMPERATURES) {
+    const loss = candidates.reduce((sum, c) => {
+      const p = Math.min(1 - EPS, Math.max(EPS, calibratedScore(c.score, t)));
+      return sum - (c.gold !== null ? Math.log(p) : Math.log(1 - p));
+    }, 0);
+    if (loss < bestLoss - 1e-9) { best = t; bestLoss = loss; }
+  }
+  return best;
+}
+
+/**
+ * Temperature by log-loss over the label's detections, then the highest threshold
+ * whose recall over all `support` annotations reaches targetRecall. Thresholds sit on
+ * a correct detection's score; when the target is out of reach the lowest one is used
+ * (best reachable recall). Null when nothing of the label was detected correctly.
+ */
+export function fitLabel(candidates: ScoredCandidate[], support: number, targetRecall: number): LabelCalibration | null {
+  if (support === 0 || !candidates.some(c => c.gold !== null)) return null;
+  const temperature = fitTemperature(candidates);
+  const scored = candidates
+    .map(c => ({ score: calibratedScore(c.score, temperature), gold: c.gold }))
+    .sort((a, b) => b.score - a.score);
+
+  const found = new Set<number>();
+  let kept = 0, correct = 0, cutCorrect = 0;
+  let cut = { threshold: 1, recall: 0, precision: 1 };
+  for (let i = 0; i < scored.length; i++) {
+    const gold = scored[i].gold;
+    kept++;
+    if (gold !== null) { correct++; found.add(gold); }
+    if (i + 1 < scored.length && scored[i + 1].score === scored[i].score) continue;  // ties stay together
+    if (correct === cutCorrect) continue;
+    cut = { threshold: scored[i].score, recall: found.size / support, precision: correct / kept };
+    cutCorrect = correct;
+    if (cut.recall >= targetRecall) break;
+  }
+  return { ...cut, temperature, support };
+}
+
+/** True when a model score passes the profile's cut-off for its label; undefined when the label isn't calibrated. */
+export function passesCalibration(label: Label, score: number, profile?: CalibrationProfile | null): boolean | undefined {
+  const cal = profile?.labels[label];
+  if (!cal) return undefined;
+  return calibratedScore(score, cal.temperature) >= cal.threshold;
+}
+
+/** The profile when it was fitted with exactly these models, else null: other models score differently. */
+export function profileForModels(profile: CalibrationProfile | null | undefined, models: string[]): CalibrationProfile | null {
+  return profile && profile.models.join('\n') === models.join('\n') ? profile : null;
+}
+
+const STORAGE_KEY = 'pii_calibration';
+
+// Without a stored profile the built-in thresholds apply
+export const loadCalibration = (): CalibrationProfile | null => loadJSON(STORAGE_KEY, null, parseCalibration);
+
+export const saveCalibration = (profile: CalibrationProfile | null) => saveJSON(STORAGE_KEY, profile);
+
+/** Parses a saved or shared profile; throws with a readable message when it doesn't fit. */
+export function parseCalibration(json: string): CalibrationProfile {
+  const data = JSON.parse(json);
+  if (!data || data.version !== 1 || typeof data.labels !== 'object') throw new Error('Invalid calibration profile');
+  for (const [label, cal] of Object.entries(data.labels as Record<string, LabelCalibration>)) {
+    const ok = cal && cal.threshold >= 0 && cal.threshold <= 1 && cal.temperature > 0;
+    if (!ok) throw new Error(`Calibration for ${label}: threshold must be 0..1 and temperature above 0`);
+  }
+  return {
+    version: 1,
+    created: String(data.created ?? ''),
+    targetRecall: Number(data.targetRecall ?? 0),
+    models: Array.isArray(data.models) ? data.models.map(String) : [],
+    labels: data.labels,
+  };
+}
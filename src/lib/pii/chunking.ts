@@ -0,0 +1,111 @@
+import type { Entity } from './types';
+
+export interface TextWindow {
+  start: number;  // offsets into the full text
+  end: number;
+  text: string;
+}
+
+export interface WindowOptions {
+  maxTokens: number;                      // model input budget per window
+  overlapTokens: number;                  // context repeated from the end of the previous window
+  countTokens: (text: string) => number;  // the model's tokenizer, or an estimate
+}
+
+interface Unit { start: number; end: number; tokens: number }
+
+// Sentence ends and line breaks; abbreviations ("Mr.") split too, which the overlap absorbs
+const BOUNDARY = /[.!?]+["'’)\]]*\s+|\n\s*/g;
+
+function sentenceUnits(text: string, { maxTokens, overlapTokens, countTokens }: WindowOptions): Unit[] {
+  const units: Unit[] = [];
+  const push = (start: number, end: number) => {
+    if (!text.slice(start, end).trim()) {
+      // Whitespace joins the previous unit so windows stay contiguous
+      if (units.length) units[units.length - 1].end = end;
+      return;
+    }
+    const tokens = countTokens(text.slice(start, end));
+    if (tokens <= maxTokens) { units.push({ start, end, tokens }); return; }
+
+    // A run-on "sentence" (tables, lists without full stops) is cut between words into
+    // overlap-sized pieces, so consecutive windows can still share one
+    const pieceMax = Math.max(1, Math.min(maxTokens, overlapTokens));
+    const word = /\S+\s*/g; word.lastIndex = start;
+    let pieceStart = start, pieceTokens = 0, m: RegExpExecArray | null;
+    while ((m = word.exec(text)) && m.index < end) {
+      const t = countTokens(m[0]);
+      if (pieceTokens > 0 && pieceTokens + t > pieceMax) {
+        units.push({ start: pieceStart, end: m.index, tokens: pieceTokens });
+        pieceStart = m.index; pieceTokens = 0;
+      }
+      pieceTokens += t;
+    }
+    units.push({ start: pieceStart, end, tokens: pieceTokens });
+  };
+
+  let last = 0; let m: RegExpExecArray | null;
+  BOUNDARY.lastIndex = 0;
+  while ((m = BOUNDARY.exec(text))) {
+    push(last, m.index + m[0].length);
+    last = m.index + m[0].length;
+  }
+  if (last < text.length) push(last, text.length);
+  return units;
+}
+
+/**
+ * Splits text into windows of at most maxTokens that end on sentence boundaries,
+ * each repeating up to overlapTokens of trailing sentences from the one before, so
+ * a name or address near a cut is always seen whole by at least one window.
+ */
+export function slidingWindows(text: string, options: WindowOptions): TextWindow[] {
+  const units = sentenceUnits(text, options);
+  const windows: TextWindow[] = [];
+
+  let i = 0;
+  while (i < units.length) {
+    let j = i, tokens = 0;
+    while (j < units.length && (j === i || tokens + units[j].tokens <= options.maxTokens)) tokens += units[j++].tokens;
+    const start = units[i].start, end = units[j - 1].end;
+    windows.push({ start, end, text: text.slice(start, end) });
+    if (j >= units.length) break;
+
+    // Step back over trailing sentences that fit the overlap; always move forward
+    let k = j, overlap = 0;
+    while (k - 1 > i && overlap + units[k - 1].tokens <= options.overlapTokens) overlap += units[--k].tokens;
+    i = k;
+  }
+  return windows;
+}
+
+/**
+ * Rebases each window's entities onto the full text and removes the duplicates the
+ * overlap produces: where same-label entities overlap, the longest (then highest
+ * scoring) is kept, so a name cut short at one window's edge loses to its whole
+ * form from the next window.
+ */
+export function mergeWindowEntities(results: Array<{ window: TextWindow; entities: Entity[] }>): Entity[] {
+  const all: Entity[] = [];
+  for (const { window, entities } of results) {
+    let cursor = 0;
+    for (const e of entities) {
+      let start = e.start, end = e.end;
+      // Model offsets can be missing (0) or drift: anchor on the text itself
+      if (window.text.slice(start, end) !== e.text) {
+        const found = window.text.indexOf(e.text, cursor);
+        const at = found >= 0 ? found : window.text.indexOf(e.text);
+        if (at >= 0) { start = at; end = at + e.text.length; }
+      }
+      cursor = Math.max(cursor, end);
+      all.push({ ...e, start: start + window.start, end: end + window.start });
+    }
+  }
+
+  all.sort((a, b) => (b.end - b.start) - (a.end - a.start) || (b.score ?? 0) - (a.score ?? 0));
+  const kept: Entity[] = [];
+  for (const e of all) {
+    if (!kept.some(k => k.label === e.label && e.start < k.end && k.start < e.end)) kept.push(e);
+  }
+  return kept.sort((a, b) => a.start - b.start);
+}
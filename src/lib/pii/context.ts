@@ -0,0 +1,146 @@
+import { escapeRegExp } from './semanticUtils';
+import { loadJSON, saveJSON } from './storage';
+import type { Entity, Label } from './types';
+
+export type CueEffect = 'boost' | 'suppress';
+export type CuePosition = 'before' | 'after' | 'line';
+
+/**
+ * A phrase whose presence near a model detection says something about it. Boosts
+ * raise the model's confidence ("Client name:" before a PERSON), suppressions lower
+ * it ("Fund" after an ORG, a "Product Disclosure Statement" heading). `before` cues
+ * must end within CUE_DISTANCE characters ahead of the entity and `after` cues start
+ * within CUE_DISTANCE behind it, on the same line; `line` cues may be anywhere on
+ * the entity's line.
+ */
+export interface ContextCue {
+  phrase: string;        // whole words, any case; spaces match any run of spaces
+  label: Label | '*';    // '*' applies to every label
+  effect: CueEffect;
+  position: CuePosition;
+  weight: number;        // 0..1, added to or taken from the score
+}
+
+export const CUE_DISTANCE = 40;
+
+// A header row ("Name  Relationship  Date of Birth") above table data: whatever
+// the model finds in it is a column title
+const TABLE_HEADER_PENALTY = 0.3;
+
+const cues = (label: ContextCue['label'], effect: CueEffect, position: CuePosition, weight: number, phrases: string[]) =>
+  phrases.map((phrase): ContextCue => ({ phrase, label, effect, position, weight }));
+
+// Field labels from fact finds, SOAs and super statements, and the fund and
+// document names that look like organisations or people but never identify a client
+export const DEFAULT_CUES: ContextCue[] = [
+  ...cues('PERSON', 'boost', 'before', 0.3, [
+    'Client name', 'Client', 'Full name', 'Name', 'Spouse', 'Partner', 'Beneficiary', 'Member name',
+    'Account name', 'Account holder', 'Policy owner', 'Life insured', 'Next of kin', 'Executor',
+    'Attorney', 'Guardian', 'Prepared for', 'Attention', 'Attn', 'Dependant', 'Child', 'Signed', 'Witness',
+  ]),
+  ...cues('*', 'boost', 'before', 0.2, ['TFN', 'Tax file number', 'Date of birth', 'DOB', 'Member number']),
+  ...cues('ORG', 'boost', 'before', 0.2, ['Employer', 'Company name', 'Business name', 'Trustee']),
+  ...cues('ADDRESS', 'boost', 'before', 0.3, [
+    'Address', 'Residential address', 'Postal address', 'Home address', 'Lives at', 'Resides at',
+  ]),
+  ...cues('ORG', 'suppress', 'after', 0.3, ['Fund', 'Super Fund', 'Portfolio', 'Index', 'ETF', 'Investment Option']),
+  ...cues('*', 'suppress', 'line', 0.3, [
+    'Product Disclosure Statement', 'PDS', 'Target Market Determination', 'Financial Services Guide',
+    'Table of Contents', 'Asset Allocation', 'Investment Options', 'Fee Schedule',
+  ]),
+];
+
+const compile = (cue: ContextCue) =>
+  new RegExp(`(?<!\\w)${cue.phrase.trim().split(/\s+/).map(escapeRegExp).join('\\s+')}(?!\\w)`, 'i');
+
+/** Why a cue can't be used, or null when it is valid. */
+export function cueError(cue: ContextCue): string | null {
+  if (!cue.phrase.trim()) return 'Phrase must contain some text';
+  if (cue.label !== '*' && !/^[A-Z][A-Z0-9_]*$/.test(cue.label)) return `Invalid label "${cue.label}"`;
+  if (cue.effect !== 'boost' && cue.effect !== 'suppress') return `Unknown effect "${cue.effect}"`;
+  if (!['before', 'after', 'line'].includes(cue.position)) return `Unknown position "${cue.position}"`;
+  if (!(cue.weight >= 0 && cue.weight <= 1)) return 'Weight must be between 0 and 1';
+  return null;
+}
+
+const cells = (line: string) => line.trim().split(/\t+|\s*\|\s*|\s{2,}/).filter(Boolean);
+
+function isTableHeader(line: string, next: string | undefined): boolean {
+  const titles = cells(line);
+  if (titles.length < 3 || next === undefined || !/\d/.test(next) || cells(next).length < titles.length - 1) return false;
+  return titles.every(t => /^\p{Lu}/u.test(t) && !/\d/.test(t) && t.split(/\s+/).length <= 4);
+}
+
+/**
+ * Runs before reconcile()'s confidence cut-off: moves each model detection's score
+ * by the strongest matching boost less the strongest matching suppression, and
+ * notes the cues in metadata.context ("+Client name", "-Fund"). Regex hits are
+ * validated already and pass through untouched.
+ */
+export function scoreContext(text: string, entities: Entity[], lexicon: ContextCue[] = DEFAULT_CUES): Entity[] {
+  const compiled = lexicon.filter(c => !cueError(c)).map(cue => ({ cue, re: compile(cue) }));
+  const lines = text.split('\n');
+  const lineStarts: number[] = [];
+  lines.reduce((at, line) => { lineStarts.push(at); return at + line.length + 1; }, 0);
+
+  return entities.map(e => {
+    if (e.source !== 'model') return e;
+
+    let row = lineStarts.length - 1;
+    while (row > 0 && lineStarts[row] > e.start) row--;
+    const lineStart = lineStarts[row], lineEnd = lineStart + lines[row].length;
+    const around: Record<CuePosition, string> = {
+      before: text.slice(Math.max(lineStart, e.start - CUE_DISTANCE), e.start),
+      after: text.slice(e.end, Math.min(lineEnd, e.end + CUE_DISTANCE)),
+      line: text.slice(lineStart, e.start) + ' ' + text.slice(e.end, lineEnd),
+    };
+
+    // In a header row the neighbouring "cues" are just other column titles
+    const header = isTableHeader(lines[row], lines[row + 1]);
+    let boost: ContextCue | null = null, suppress: ContextCue | null = null;
+    for (const { cue, re } of compiled) {
+      if ((cue.label !== '*' && cue.label !== e.label) || !re.test(around[cue.position])) continue;
+      if (cue.effect === 'boost' && !header && cue.weight > (boost?.weight ?? -1)) boost = cue;
+      if (cue.effect === 'suppress' && cue.weight > (suppress?.weight ?? -1)) suppress = cue;
+    }
+    if (!boost && !suppress && !header) return e;
+
+    const penalty = Math.max(suppress?.weight ?? 0, header ? TABLE_HEADER_PENALTY : 0);
+    const score = Math.min(1, Math.max(0, (e.score ?? 1) + (boost?.weight ?? 0) - penalty));
+    const applied = [
+      ...(boost ? [`+${boost.phrase}`] : []),
+      ...(suppress ? [`-${suppress.phrase}`] : []),
+      ...(header ? ['-table header'] : []),
+    ];
+    return { ...e, score, metadata: { ...e.metadata, context: applied } };
+  });
+}
+
+const STORAGE_KEY = 'pii_context_cues';
+
+export const loadContextCues = (): ContextCue[] => loadJSON(STORAGE_KEY, DEFAULT_CUES, parseContextCues);
+
+export const saveContextCues = (lexicon: ContextCue[]) => saveJSON(STORAGE_KEY, lexicon, serializeContextCues);
+
+export function serializeContextCues(lexicon: ContextCue[]): string {
+  return JSON.stringify({ version: 1, cues: lexicon }, null, 2);
+}
+
+/** Parses a shared cue lexicon; throws with a readable message on the first bad cue. */
+export function parseContextCues(json: string): ContextCue[] {
+  const data = JSON.parse(json);
+  if (!data || !Array.isArray(data.cues)) throw new Error('Invalid cue lexicon format');
+
+  return data.cues.map((raw: Partial<ContextCue>, i: number) => {
+    const cue: ContextCue = {
+      phrase: String(raw.phrase ?? ''),
+      label: (raw.label ?? '*') as ContextCue['label'],
+      effect: raw.effect ?? 'boost',
+      position: raw.position ?? 'before',
+      weight: Number(raw.weight ?? 0.2),
+    };
+    const err = cueError(cue);
+    if (err) throw new Error(`Cue ${i + 1} (${cue.phrase || 'empty'}): ${err}`);
+    return cue;
+  });
+}
@@ -0,0 +1,107 @@
+import { luhnChecksum, mod11Checksum, mod97Checksum } from './validators';
+import { escapeRegExp } from './semanticUtils';
+import { loadJSON, saveJSON } from './storage';
+import type { PatternRule } from './locales';
+import type { CustomLabel } from './types';
+
+export type ChecksumKind = 'luhn' | 'mod11' | 'mod97';
+
+/** A team-specific identifier (CRM client ID, policy number, file reference) defined in the UI. */
+export interface CustomRule {
+  id: string;
+  label: string;            // rule name, e.g. "Client ID"; hits are labelled CUSTOM_CLIENT_ID
+  pattern: string;          // regex source; the whole match is the value
+  caseInsensitive: boolean;
+  cues: string[];           // when given, one of these must appear shortly before the match
+  checksum?: ChecksumKind;
+  confidence: number;       // 0..1, carried as the entity score
+  enabled: boolean;
+}
+
+// How far before a match a cue word may appear (same line only)
+const CUE_WINDOW = 40;
+
+const CHECKSUMS: Record<ChecksumKind, (value: string) => boolean> = {
+  luhn:  v => luhnChecksum(v.replace(/\D/g,'')),
+  mod11: v => mod11Checksum(v.replace(/\D/g,'')),
+  mod97: v => mod97Checksum(v.replace(/[^A-Za-z0-9]/g,'')),
+};
+
+export const customLabel = (rule: Pick<CustomRule, 'label'>): CustomLabel =>
+  `CUSTOM_${rule.label.toUpperCase().replace(/[^A-Z0-9]+/g,'_').replace(/^_+|_+$/g,'')}`;
+
+export function newCustomRule(): CustomRule {
+  return {
+    id: Math.random().toString(36).substring(2, 10),
+    label: '',
+    pattern: '',
+    caseInsensitive: false,
+    cues: [],
+    confidence: 0.9,
+    enabled: true,
+  };
+}
+
+/** Why a rule can't be used, or null when it is valid. */
+export function ruleError(rule: CustomRule): string | null {
+  if (!customLabel(rule).slice('CUSTOM_'.length)) return 'Label is required';
+  if (!rule.pattern) return 'Pattern is required';
+  let re: RegExp;
+  try {
+    re = new RegExp(rule.pattern, rule.caseInsensitive ? 'i' : '');
+  } catch (e) {
+    return e instanceof Error ? e.message : 'Invalid regular expression';
+  }
+  if (re.test('')) return 'Pattern must not match empty text';
+  if (rule.checksum && !(rule.checksum in CHECKSUMS)) return `Unknown checksum "${rule.checksum}"`;
+  if (!(rule.confidence >= 0 && rule.confidence <= 1)) return 'Confidence must be between 0 and 1';
+  return null;
+}
+
+/** Compiles a valid, enabled rule into the same shape as the built-in locale pack rules. */
+export function toPatternRule(rule: CustomRule): PatternRule | null {
+  if (!rule.enabled || ruleError(rule)) return null;
+  const cues = rule.cues.map(c => c.trim()).filter(Boolean);
+  const cueRe = cues.length ? new RegExp(`\\b(?:${cues.map(escapeRegExp).join('|')})\\b`, 'i') : null;
+  const check = rule.checksum ? CHECKSUMS[rule.checksum] : null;
+
+  return {
+    re: new RegExp(rule.pattern, rule.caseInsensitive ? 'gi' : 'g'),
+    label: customLabel(rule),
+    score: rule.confidence,
+    validate: (value, m, text) => {
+      if (check && !check(value)) return false;
+      if (!cueRe) return true;
+      const lineStart = text.lastIndexOf('\n', m.index - 1) + 1;
+      return cueRe.test(text.slice(Math.max(lineStart, m.index - CUE_WINDOW), m.index));
+    },
+  };
+}
+
+const STORAGE_KEY = 'pii_custom_rules';
+
+export const loadCustomRules = (): CustomRule[] => loadJSON(STORAGE_KEY, [], parseRuleSet);
+
+export const saveCustomRules = (rules: CustomRule[]) => saveJSON(STORAGE_KEY, rules, serializeRuleSet);
+
+export function serializeRuleSet(rules: CustomRule[]): string {
+  return JSON.stringify({ version: 1, rules }, null, 2);
+}
+
+/** Parses an exported rule set; throws with a readable message on the first bad rule. */
+export function parseRuleSet(json: string): CustomRule[] {
+  const data = JSON.parse(json);
+  if (!data || !Array.isArray(data.rules)) throw new Error('Invalid rule set format');
+
+  return data.rules.map((r: Partial<CustomRule>, i: number) => {
+    const rule: CustomRule = {
+      ...newCustomRule(),
+      ...r,
+      cues: Array.isArray(r.cues) ? r.cues.map(String) : [],
+      confidence: r.confidence === undefined ? 0.9 : Number(r.confidence),
+    };
+    const err = ruleError(rule);
+    if (err) throw new Error(`Rule ${i + 1} (${rule.label || 'unnamed'}): ${err}`);
+    return rule;
+  });
+}
@@ -0,0 +1,147 @@
+import { RX } from './regex-au';
+import type { Entity } from './types';
+
+export type DateKind = 'DOB' | 'DOCUMENT' | 'OTHER';
+
+export interface DateMatch {
+  text: string;
+  start: number;
+  end: number;
+  iso: string;            // yyyy-mm-dd
+  kind: DateKind;
+}
+
+const MONTHS: Record<string, number> = {
+  jan:1, feb:2, mar:3, apr:4, may:5, jun:6, jul:7, aug:8, sep:9, oct:10, nov:11, dec:12,
+};
+
+// Cue words just before a date (same line and sentence); the nearest cue decides
+const CUES: Array<[DateKind, RegExp]> = [
+  ['DOB',      /\b(?:DOB|D\.O\.B\.?|date\s+of\s+birth|birth\s*date|birthday|born|b\.|age[d]?)(?![\w])/gi],
+  ['DOCUMENT', /\b(?:dated?|meeting|statement|as\s+at|prepared|issued|signed|today)\b/gi],
+  ['OTHER',    /\b(?:start(?:ed|s)?|commenc(?:ed|es|ement)|since|from|until|joined|opened|purchased|settled|expir(?:y|es|ed)|due|paid|effective|review(?:ed)?)\b/gi],
+];
+
+const pad = (n: number) => String(n).padStart(2, '0');
+const toIso = (y: number, m: number, d: number) => `${y}-${pad(m)}-${pad(d)}`;
+
+function isRealDate(y: number, m: number, d: number): boolean {
+  const dt = new Date(Date.UTC(y, m - 1, d));
+  return dt.getUTCFullYear() === y && dt.getUTCMonth() === m - 1 && dt.getUTCDate() === d;
+}
+
+// Two-digit years pivot on the reference year: "84" → 1984, "12" → 2012
+function expandYear(raw: string, refYear: number): number {
+  if (raw.length === 4) return Number(raw);
+  const yy = Number(raw);
+  return yy > refYear % 100 ? 1900 + yy : 2000 + yy;
+}
+
+export function ageAt(dobIso: string, refIso: string): number {
+  const [by, bm, bd] = dobIso.split('-').map(Number);
+  const [ry, rm, rd] = refIso.split('-').map(Number);
+  return ry - by - ((rm < bm || (rm === bm && rd < bd)) ? 1 : 0);
+}
+
+// A date is only a birth date when a birth cue says so; an old date alone may be a deed, policy or trust date
+function classify(text: string, start: number): DateKind {
+  const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+  let before = text.slice(Math.max(lineStart, start - 40), start);
+  // Cues from a previous sentence or clause don't apply
+  const boundary = /.*(?:;|\.\s+(?=[A-Z]))/s.exec(before);
+  if (boundary) before = before.slice(boundary[0].length);
+
+  let kind: DateKind | null = null, at = -1;
+  for (const [k, re] of CUES) {
+    re.lastIndex = 0; let m: RegExpExecArray | null;
+    while ((m = re.exec(before))) if (m.index > at) { at = m.index; kind = k; }
+  }
+  return kind ?? 'OTHER';
+}
+
+/**
+ * Finds numeric (03/11/1984, 03.11.84), ISO (1984-11-03) and month-name
+ * (3 November 1984, Nov 3, 1984) dates and classifies each as a birth date,
+ * the document/meeting date, or neither.
+ */
+export function findDates(text: string, today = new Date()): DateMatch[] {
+  const refYear = today.getFullYear();
+  const found: DateMatch[] = [];
+
+  const add = (m: RegExpExecArray, y: number, mo: number, d: number) => {
+    if (!isRealDate(y, mo, d)) return;
+    const start = m.index, end = m.index + m[0].length;
+    if (found.some(f => start < f.end && end > f.start)) return;
+    found.push({ text: m[0], start, end, iso: toIso(y, mo, d), kind: classify(text, start) });
+  };
+
+  const each = (re: RegExp, fx: (m: RegExpExecArray) => void) => {
+    re.lastIndex = 0; let m: RegExpExecArray | null;
+    while ((m = re.exec(text))) fx(m);
+  };
+
+  each(RX.DATE_ISO,     m => add(m, +m[1], +m[2], +m[3]));
+  each(RX.DATE_NUMERIC, m => add(m, expandYear(m[4], refYear), +m[3], +m[1]));
+  each(RX.DATE_DMY,     m => add(m, +m[3], MONTHS[m[2].slice(0,3).toLowerCase()], +m[1]));
+  each(RX.DATE_MDY,     m => add(m, +m[3], MONTHS[m[1].slice(0,3).toLowerCase()], +m[2]));
+
+  return found.sort((a, b) => a.start - b.start);
+}
+
+const todayIso = (today: Date) => toIso(today.getFullYear(), today.getMonth() + 1, today.getDate());
+
+/** DOB entities carrying the parsed birth date, the document date and the age at that date. */
+export function detectDates(text: string, today = new Date()): Entity[] {
+  const dates = findDates(text, today);
+  const documentDate = dates.find(d => d.kind === 'DOCUMENT')?.iso;
+  const refIso = documentDate ?? todayIso(today);
+
+  return dates
+    .filter(d => d.kind === 'DOB')
+    .map(d => ({
+      text: d.text,
+      label: 'DOB' as const,
+      start: d.start,
+      end: d.end,
+      source: 'regex' as const,
+      metadata: { calculatedDOB: d.iso, documentDate, age: ageAt(d.iso, refIso) },
+    }));
+}
+
+const MAX_AGE = 120;
+
+/**
+ * AGE quasi-identifiers ("aged 67", "67 years old", "turns 60 next year").
+ * The span covers the whole phrase so a bare number elsewhere is never redacted,
+ * and calculatedDOB holds the implied birth year relative to the document date
+ * (the latest possible year, as the birthday may not have passed yet).
+ */
+export function detectAges(text: string, today = new Date()): Entity[] {
+  const documentDate = findDates(text, today).find(d => d.kind === 'DOCUMENT')?.iso;
+  const refYear = Number((documentDate ?? todayIso(today)).slice(0, 4));
+  const out: Entity[] = [];
+
+  RX.AGE.lastIndex = 0; let m: RegExpExecArray | null;
+  while ((m = RX.AGE.exec(text))) {
+    const [, aged, years, turning, when] = m;
+    let age: number, birthYear: number;
+    if (turning) {
+      const yearTurning = /next/i.test(when) ? refYear + 1 : refYear;
+      age = Number(turning) - (yearTurning > refYear ? 1 : 0);
+      birthYear = yearTurning - Number(turning);
+    } else {
+      age = Number(aged ?? years);
+      birthYear = refYear - age;
+    }
+    if (age < 1 || age > MAX_AGE) continue;
+    out.push({
+      text: m[0],
+      label: 'AGE',
+      start: m.index,
+      end: m.index + m[0].length,
+      source: 'regex',
+      metadata: { age, calculatedDOB: String(birthYear), documentDate },
+    });
+  }
+  return out;
+}
@@ -1,49 +1,65 @@
 import { RX } from './regex-au';
-import { isValidABN, isValidTFN, isValidMedicare, luhnValid } from './validators';
+import { detectDates, detectAges } from './dates';
+import { detectSalutations } from './salutations';
+import { LOCALE_PACKS, DEFAULT_LOCALES, type LocaleId, type PatternRule } from './locales';
+import { toPatternRule, type CustomRule } from './customRules';
+import { luhnValid, isValidE164, isValidIPv6, isValidIBAN, isValidBIC } from './validators';
 import type { Entity } from './types';
 
-export function detectStructured(text: string): Entity[] {
-  const out: Entity[] = [];
+export interface StructuredOptions {
+  locales?: LocaleId[];
+  customRules?: CustomRule[];
+}
 
-  const push = (m: RegExpExecArray, label: Entity['label'], ok = true) => {
-    if (!ok) return;
-    out.push({ text: m[0], label, start: m.index, end: m.index + m[0].length, source:'regex' });
-  };
+// Identifiers that look the same everywhere, run whichever locale packs are active
+const COMMON_RULES: PatternRule[] = [
+  { re: RX.CREDIT_CARD, label: 'CREDIT_CARD', validate: luhnValid },
+  { re: RX.PHONE_INTL,  label: 'PHONE',       validate: isValidE164 },
+  { re: RX.IPV6,        label: 'IP_ADDRESS',  validate: isValidIPv6 },
+  { re: RX.IBAN,        label: 'IBAN',        validate: isValidIBAN },
+  { re: RX.SWIFT_BIC,   label: 'SWIFT_BIC',   cued: true, validate: isValidBIC },
+  { re: RX.EMAIL,       label: 'EMAIL' },
+  { re: RX.IPV4,        label: 'IP_ADDRESS' },
+  { re: RX.PROFILE_URL, label: 'URL' },
+  { re: RX.URL_CUE,     label: 'URL', cued: true },
+  { re: RX.HANDLE,      label: 'HANDLE' },
+];
 
-  const scan = (re: RegExp, fx: (s: string)=>boolean, label: Entity['label']) => {
+/** Runs pattern rules over the text, appending hits to `out`. */
+export function matchRules(text: string, rules: PatternRule[], out: Entity[] = []): Entity[] {
+  for (const { re, label, validate, cued, score } of rules) {
     re.lastIndex = 0; let m: RegExpExecArray | null;
-    while ((m = re.exec(text))) push(m, label, fx(m[0]));
-  };
-
-  scan(RX.ABN,        isValidABN, 'ABN');
-  scan(RX.TFN,        isValidTFN, 'TFN');
-  scan(RX.MEDICARE,   isValidMedicare, 'MEDICARE');
-  scan(RX.CREDIT_CARD,luhnValid, 'CREDIT_CARD');
-
-  // AFSL/AR: only when label cue present
-  RX.AFSL_AR.lastIndex = 0; { let m: RegExpExecArray | null;
-    while ((m = RX.AFSL_AR.exec(text))) {
-      const num = m[1];
-      out.push({
-        text: num,
-        label: /AFSL/i.test(m[0]) ? 'AFSL' : 'AR',
-        start: m.index,
-        end: m.index + m[0].length,
-        source:'regex'
-      });
+    while ((m = re.exec(text))) {
+      if (!m[0]) { re.lastIndex++; continue; }
+      const value = cued ? m[1] : m[0];
+      if (validate && !validate(value, m, text)) continue;
+      const start = cued ? m.index + m[0].lastIndexOf(value) : m.index;
+      const l = typeof label === 'function' ? label(m) : label;
+      if (cued && out.some(o => o.label === l && o.start === start)) continue;
+      out.push({ text: value, label: l, start, end: start + value.length, source:'regex', ...(score !== undefined && { score }) });
     }
   }
+  return out;
+}
 
-  // Looser items without checksums but still useful
-  const loose = (re: RegExp, label: Entity['label']) => {
-    re.lastIndex = 0; let m: RegExpExecArray | null;
-    while ((m = re.exec(text))) push(m, label, true);
-  };
-  loose(RX.EMAIL, 'EMAIL');
-  loose(RX.PHONE, 'PHONE');
-  loose(RX.DOB,   'DOB');
-  loose(RX.ADDRESS, 'ADDRESS');
-  loose(RX.ORG_SUFFIX, 'ORG');
+export function detectStructured(text: string, options: StructuredOptions = {}): Entity[] {
+  const { locales = DEFAULT_LOCALES, customRules = [] } = options;
+  const out: Entity[] = [];
+
+  const packs = locales.map(id => LOCALE_PACKS[id]);
+  for (const pack of packs) matchRules(text, pack.rules, out);
+  matchRules(text, COMMON_RULES, out);
+  matchRules(text, customRules.map(toPatternRule).filter((r): r is PatternRule => r !== null), out);
+  for (const pack of packs) if (pack.detect) out.push(...pack.detect(text));
+  matchRules(text, [{ re: RX.ORG_SUFFIX, label: 'ORG' }], out);
+
+  // Birth dates only; meeting/document dates are not PII but anchor the age.
+  // Stated ages are quasi-identifiers that imply a birth year, so they go with DOBs.
+  out.push(...detectDates(text));
+  out.push(...detectAges(text));
+
+  // Names placed by "Mrs …", "Dear …" or a sign-off, which the model often misses
+  out.push(...detectSalutations(text));
 
   return out;
 }
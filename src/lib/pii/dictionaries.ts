@@ -0,0 +1,181 @@
+import { overrideWith } from './reconcile';
+import { escapeRegExp } from './semanticUtils';
+import { loadJSON, saveJSON } from './storage';
+import type { Entity, Label } from './types';
+
+export type DictionaryKind = 'allow' | 'deny';
+export type DictionaryScope = 'all' | 'names';
+
+/**
+ * Allowlist entries suppress detections whose whole text matches; denylist entries
+ * force-redact every occurrence in the document. `*` matches any text and `?` one
+ * character; a `*` standing alone between spaces also matches no words at all, so
+ * "* card *" allows any entity containing the word "card".
+ *
+ * Allow entries scoped to 'names' only veto detectPII()'s name checks (the
+ * name-database supplement and its model PERSON validation), not detectAll() output,
+ * so a month or "long" can stop a lone word counting as a name without dropping
+ * "June Smith" or "Long Nguyen" found by the models.
+ */
+export interface DictionaryEntry {
+  term: string;
+  label: Label | '*';     // '*' applies an allow entry to every label
+  kind: DictionaryKind;
+  caseSensitive: boolean;
+  scope?: DictionaryScope;  // allow entries only; 'all' when omitted
+}
+
+const allow = (label: Label, terms: string[], scope: DictionaryScope = 'all'): DictionaryEntry[] =>
+  terms.map(term => ({ term, label, kind: 'allow' as const, caseSensitive: false, ...(scope === 'names' ? { scope } : {}) }));
+
+// Seed entries for first use: common capitalised words and business terms the model
+// mistakes for names (name checks only, as the lists they replace were), and
+// low-signal ORG fragments
+export const DEFAULT_DICTIONARY: DictionaryEntry[] = [
+  ...allow('PERSON', [
+    'Balance', 'Fund', 'Super', 'Investment', 'Option', 'Proposed', 'Action',
+    'Current', 'Growth', 'Balanced', 'Conservative', 'Aggressive', 'Moderate',
+    'Account', 'Portfolio', 'Asset', 'Liability', 'Income', 'Expense', 'Credit',
+    'Card', 'Net', 'Risk', 'Keep', 'Client', 'Model', 'Daily', 'Market', 'Plan',
+    'Step', 'Fees', 'Service', 'Fee', 'Gains', 'Mix', 'Sample', 'Form', 'Total',
+    'Amount', 'Value', 'Price', 'Cost', 'Rate', 'Return', 'Profit', 'Loss',
+    'Stock', 'Bond', 'Cash', 'Property', 'Trust', 'Company', 'Business',
+    'Australian', 'Australia', 'Sydney', 'Melbourne', 'Brisbane', 'Perth',
+    'Street', 'Road', 'Avenue', 'Drive', 'Lane', 'Court', 'Place',
+    'January', 'February', 'March', 'April', 'May', 'June', 'July', 'August',
+    'September', 'October', 'November', 'December', 'Monday', 'Tuesday',
+    'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday',
+    'Owner', 'Teacher', 'Manager', 'Director', 'Engineer', 'Consultant',
+  ], 'names'),
+  ...allow('PERSON', [
+    'card', 'credit', 'debit', 'account', 'balance', 'fund', 'funds',
+    'plan', 'service', 'services', 'analysis', 'action', 'adviser', 'advisor',
+    'client', 'mortgage', 'retain', 'current', 'growth', 'model', 'balanced',
+    'considerations', 'market', 'implementation', 'capital', 'gains',
+    'remuneration', 'ongoing', 'disclosures', 'proceed', 'form', 'solutions',
+    'school', 'secondary', 'long', 'dear', 'fees', 'july', 'august', 'january',
+    'representative', 'authorised', 'authorized', 'orion', 'advice', 'engineering',
+    'street', 'strategic', 'pty', 'ltd',
+  ].map(w => `* ${w} *`), 'names'),
+  ...allow('ORG', [
+    'Australian', 'Ethical', 'Mitchell', 'Lara', 'Superannuation', 'Details', 'Client',
+    'Fund', 'Managed', 'Super', 'Life', 'TPD', 'Income', 'Protection', 'Balance', 'Option',
+  ]),
+];
+
+// Allow entries match a whole entity; deny entries search the document, so their
+// wildcards stay on one line and match as little as possible
+function compile(e: DictionaryEntry): RegExp {
+  const search = e.kind === 'deny';
+  const any = search ? '[^\\n]*?' : '.*';
+  const opt = search ? '??' : '?';
+  const body = e.term.trim().split(/(\s*\*\s*|\?|\s+)/).map(part => {
+    if (!part) return '';
+    if (part.includes('*')) {
+      const before = /^\s/.test(part), after = /\s$/.test(part);
+      if (before && after) return `(?:\\s+|\\s+${any}\\s+)`;
+      if (before) return `(?:\\s+${any})${opt}`;
+      if (after) return `(?:${any}\\s+)${opt}`;
+      return any;
+    }
+    if (part === '?') return '.';
+    if (/^\s+$/.test(part)) return '\\s+';
+    return escapeRegExp(part);
+  }).join('');
+  const flags = e.caseSensitive ? '' : 'i';
+  return e.kind === 'allow'
+    ? new RegExp(`^${body}$`, flags)
+    : new RegExp(`(?<!\\w)${body}(?!\\w)`, flags + 'g');
+}
+
+/** Why an entry can't be used, or null when it is valid. */
+export function entryError(e: DictionaryEntry): string | null {
+  if (!e.term.trim() || !e.term.replace(/[*?\s]/g, '')) return 'Term must contain some text';
+  if (e.label !== '*' && !/^[A-Z][A-Z0-9_]*$/.test(e.label)) return `Invalid label "${e.label}"`;
+  if (e.kind === 'deny' && e.label === '*') return 'Denylist entries need a label to redact as';
+  if (e.kind !== 'allow' && e.kind !== 'deny') return `Unknown kind "${e.kind}"`;
+  if (e.scope !== undefined && e.scope !== 'all' && e.scope !== 'names') return `Unknown scope "${e.scope}"`;
+  if (e.kind === 'deny' && e.scope === 'names') return 'Only allowlist entries can be limited to name checks';
+  return null;
+}
+
+interface CompiledEntry { entry: DictionaryEntry; re: RegExp }
+
+// Compiled once per dictionary array: isAllowed() runs once per candidate entity
+const compiledCache = new WeakMap<DictionaryEntry[], CompiledEntry[]>();
+
+function compiled(entries: DictionaryEntry[]): CompiledEntry[] {
+  let list = compiledCache.get(entries);
+  if (!list) {
+    list = entries.filter(e => !entryError(e)).map(entry => ({ entry, re: compile(entry) }));
+    compiledCache.set(entries, list);
+  }
+  return list;
+}
+
+const allowsFor = (label: Label, c: CompiledEntry) =>
+  c.entry.kind === 'allow' && (c.entry.label === '*' || c.entry.label === label);
+
+/** True when an allowlist entry of either scope covers this text for this label (detectPII()'s name checks). */
+export function isAllowed(text: string, label: Label, entries: DictionaryEntry[]): boolean {
+  const t = text.trim();
+  return compiled(entries).some(c => allowsFor(label, c) && c.re.test(t));
+}
+
+/**
+ * Applied after reconcile(): drops detections allowlisted for all output, then adds
+ * every denylisted occurrence, which replaces any detection it overlaps.
+ */
+export function applyDictionaries(text: string, entities: Entity[], entries: DictionaryEntry[]): Entity[] {
+  const list = compiled(entries);
+  const allows = list.filter(c => (c.entry.scope ?? 'all') === 'all');
+  const kept = entities.filter(ent => !allows.some(c => allowsFor(ent.label, c) && c.re.test(ent.text.trim())));
+
+  const forced: Entity[] = [];
+  for (const { entry: e, re } of list.filter(c => c.entry.kind === 'deny')) {
+    re.lastIndex = 0; let m: RegExpExecArray | null;
+    while ((m = re.exec(text))) {
+      if (!m[0]) { re.lastIndex++; continue; }
+      const start = m.index, end = m.index + m[0].length;
+      if (forced.some(f => start < f.end && f.start < end)) continue;
+      forced.push({ text: m[0], label: e.label as Label, start, end, source: 'regex' });
+    }
+  }
+
+  return overrideWith(kept, forced);
+}
+
+const STORAGE_KEY = 'pii_dictionary';
+
+export const loadDictionary = (): DictionaryEntry[] => loadJSON(STORAGE_KEY, DEFAULT_DICTIONARY, parseDictionary);
+
+export const saveDictionary = (entries: DictionaryEntry[]) => saveJSON(STORAGE_KEY, entries, serializeDictionary);
+
+export function serializeDictionary(entries: DictionaryEntry[]): string {
+  return JSON.stringify({ version: 2, entries }, null, 2);
+}
+
+// Version 1 files predate scopes: their copies of the seeded name-check entries get it back
+const seedKey = (e: DictionaryEntry) => `${e.kind}|${e.label}|${e.caseSensitive}|${e.term}`;
+const NAME_SEEDS = new Set(DEFAULT_DICTIONARY.filter(e => e.scope === 'names').map(seedKey));
+
+/** Parses a shared dictionary file; throws with a readable message on the first bad entry. */
+export function parseDictionary(json: string): DictionaryEntry[] {
+  const data = JSON.parse(json);
+  if (!data || !Array.isArray(data.entries)) throw new Error('Invalid dictionary format');
+  const legacy = !(data.version >= 2);
+
+  return data.entries.map((raw: Partial<DictionaryEntry>, i: number) => {
+    const entry: DictionaryEntry = {
+      term: String(raw.term ?? ''),
+      label: (raw.label ?? '*') as DictionaryEntry['label'],
+      kind: raw.kind ?? 'allow',
+      caseSensitive: !!raw.caseSensitive,
+    };
+    if (raw.scope !== undefined) entry.scope = raw.scope;
+    else if (legacy && NAME_SEEDS.has(seedKey(entry))) entry.scope = 'names';
+    const err = entryError(entry);
+    if (err) throw new Error(`Entry ${i + 1} (${entry.term || 'empty'}): ${err}`);
+    return entry;
+  });
+}
@@ -0,0 +1,81 @@
+import { loadJSON, saveJSON } from './storage';
+import type { Entity, Label } from './types';
+
+export interface EnsembleSettings {
+  weights: Record<string, Partial<Record<Label, number>>>;  // model id -> label -> vote weight (1 when unset)
+  agreement: Partial<Record<Label, number>>;                 // share of the vote an entity needs (DEFAULT_AGREEMENT when unset)
+}
+
+// Half the vote: with two equal models either one is enough, with three it takes two
+export const DEFAULT_AGREEMENT = 0.5;
+
+export const DEFAULT_ENSEMBLE: EnsembleSettings = { weights: {}, agreement: {} };
+
+/** One model's merged output over the whole text. */
+export interface ModelRun {
+  model: string;     // NerModel id
+  labels: Label[];   // labels the model can produce: only these models vote on a label
+  entities: Entity[];
+}
+
+export const voteWeight = (settings: EnsembleSettings, model: string, label: Label) =>
+  Math.max(0, settings.weights[model]?.[label] ?? 1);
+
+export const agreementFor = (settings: EnsembleSettings, label: Label) =>
+  settings.agreement[label] ?? DEFAULT_AGREEMENT;
+
+/**
+ * Weighted vote across models. Same-label entities that overlap form one candidate;
+ * it is kept when the models that found it hold at least the label's agreement share
+ * of the weight of every model able to produce that label. The kept entity takes the
+ * longest span any model found, the agreeing models' weighted mean confidence, and
+ * lists those models in `agreed`.
+ */
+export function voteEntities(runs: ModelRun[], settings: EnsembleSettings = DEFAULT_ENSEMBLE): Entity[] {
+  if (runs.length === 1) return runs[0].entities;
+
+  const byLabel = new Map<Label, Array<{ model: string; entity: Entity }>>();
+  for (const run of runs) {
+    for (const entity of run.entities) {
+      const hits = byLabel.get(entity.label) ?? [];
+      hits.push({ model: run.model, entity });
+      byLabel.set(entity.label, hits);
+    }
+  }
+
+  const out: Entity[] = [];
+  for (const [label, hits] of byLabel) {
+    const total = runs.filter(r => r.labels.includes(label)).reduce((sum, r) => sum + voteWeight(settings, r.model, label), 0);
+    if (total === 0) continue;
+
+    hits.sort((a, b) => a.entity.start - b.entity.start);
+    for (let i = 0; i < hits.length;) {
+      // Overlapping hits, chained: "John" + "Smith" from one model meet "John Smith" from another
+      let end = hits[i].entity.end, j = i + 1;
+      while (j < hits.length && hits[j].entity.start < end) end = Math.max(end, hits[j++].entity.end);
+      const group = hits.slice(i, j);
+      i = j;
+
+      const best = new Map<string, number>();  // model -> its highest score in the group
+      for (const { model, entity } of group) best.set(model, Math.max(best.get(model) ?? 0, entity.score ?? 1));
+      const votes = [...best.keys()].reduce((sum, m) => sum + voteWeight(settings, m, label), 0);
+      if (votes === 0 || votes / total + 1e-9 < agreementFor(settings, label)) continue;
+
+      const span = group.reduce((a, b) => (b.entity.end - b.entity.start) > (a.entity.end - a.entity.start) ? b : a);
+      const score = [...best].reduce((sum, [m, s]) => sum + voteWeight(settings, m, label) * s, 0) / votes;
+      out.push({ ...span.entity, score, agreed: [...best.keys()] });
+    }
+  }
+  return out.sort((a, b) => a.start - b.start);
+}
+
+const STORAGE_KEY = 'pii_ensemble';
+
+export const loadEnsemble = (): EnsembleSettings => loadJSON(STORAGE_KEY, DEFAULT_ENSEMBLE, json => {
+  const stored = JSON.parse(json);
+  return stored && typeof stored === 'object'
+    ? { weights: stored.weights ?? {}, agreement: stored.agreement ?? {} }
+    : DEFAULT_ENSEMBLE;
+});
+
+export const saveEnsemble = (settings: EnsembleSettings) => saveJSON(STORAGE_KEY, settings);
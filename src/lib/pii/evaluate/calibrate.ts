@@ -0,0 +1,94 @@
+import type { BrowserPIIDetector, DetectControl, DetectOptions } from '@/lib/pii-detector';
+import { fitLabel, type CalibrationProfile, type LabelCalibration, type ScoredCandidate } from '@/lib/pii/calibration';
+import type { Label } from '@/lib/pii/types';
+
+export interface AnnotatedDocument {
+  id: string;
+  text: string;
+  annotations: Array<{ label: Label; start: number; end: number }>;
+}
+
+/**
+ * Parses an annotated corpus:
+ * { "version": 1, "documents": [{ "id": "soa-1", "text": "...", "annotations": [...] }] }
+ * Each annotation is { "label": "PERSON", "start": 10, "end": 20 }, or
+ * { "label": "PERSON", "text": "Jane Citizen" } to mark every occurrence.
+ */
+export function parseCorpus(json: string): AnnotatedDocument[] {
+  const data = JSON.parse(json);
+  if (!data || !Array.isArray(data.documents)) throw new Error('Invalid corpus format');
+
+  return data.documents.map((doc: { id?: string; text?: string; annotations?: unknown[] }, i: number) => {
+    const id = String(doc.id ?? `doc-${i + 1}`);
+    if (typeof doc.text !== 'string') throw new Error(`Document ${id}: missing text`);
+    const text = doc.text;
+    const annotations: AnnotatedDocument['annotations'] = [];
+    for (const raw of (doc.annotations ?? []) as Array<{ label?: string; start?: number; end?: number; text?: string }>) {
+      const label = String(raw.label ?? '') as Label;
+      if (!/^[A-Z][A-Z0-9_]*$/.test(label)) throw new Error(`Document ${id}: invalid label "${raw.label}"`);
+      if (typeof raw.start === 'number' && typeof raw.end === 'number') {
+        if (raw.start < 0 || raw.end > text.length || raw.start >= raw.end) throw new Error(`Document ${id}: span ${raw.start}-${raw.end} is outside the text`);
+        annotations.push({ label, start: raw.start, end: raw.end });
+      } else if (raw.text) {
+        let at = text.indexOf(raw.text);
+        if (at < 0) throw new Error(`Document ${id}: "${raw.text}" not found`);
+        for (; at >= 0; at = text.indexOf(raw.text, at + raw.text.length)) {
+          annotations.push({ label, start: at, end: at + raw.text.length });
+        }
+      } else {
+        throw new Error(`Document ${id}: an annotation needs start/end or text`);
+      }
+    }
+    return { id, text, annotations };
+  });
+}
+
+/**
+ * Runs the detector's models over the corpus with the given detection options (ensemble
+ * weights, context cues), matches each model detection to an annotation of the same
+ * label it overlaps, and fits a threshold/temperature per label that reaches
+ * targetRecall. Runs in the detection worker (DetectorClient.calibrate()), on the
+ * models already loaded there; progress counts documents.
+ */
+export async function runCalibration(
+  detector: BrowserPIIDetector,
+  corpus: AnnotatedDocument[],
+  targetRecall: number,
+  options: DetectOptions = {},
+  control: DetectControl = {},
+): Promise<CalibrationProfile> {
+  const candidates = new Map<Label, ScoredCandidate[]>();
+  const support = new Map<Label, number>();
+  let goldIds = 0;
+
+  for (const [i, doc] of corpus.entries()) {
+    control.signal?.throwIfAborted();
+    control.onProgress?.(i, corpus.length);
+    const gold = doc.annotations.map(a => ({ ...a, id: goldIds++ }));
+    for (const a of gold) support.set(a.label, (support.get(a.label) ?? 0) + 1);
+
+    for (const e of await detector.modelCandidates(doc.text, options, { signal: control.signal })) {
+      const overlap = (a: { start: number; end: number }) => Math.min(a.end, e.end) - Math.max(a.start, e.start);
+      const match = gold
+        .filter(a => a.label === e.label && overlap(a) > 0)
+        .sort((a, b) => overlap(b) - overlap(a))[0];
+      const list = candidates.get(e.label) ?? [];
+      list.push({ score: e.score ?? 0, gold: match ? match.id : null });
+      candidates.set(e.label, list);
+    }
+  }
+  control.onProgress?.(corpus.length, corpus.length);
+
+  const labels: Partial<Record<Label, LabelCalibration>> = {};
+  for (const [label, list] of candidates) {
+    const fitted = fitLabel(list, support.get(label) ?? 0, targetRecall);
+    if (fitted) labels[label] = fitted;
+  }
+  return {
+    version: 1,
+    created: new Date().toISOString(),
+    targetRecall,
+    models: detector.models.map(m => m.id),
+    labels,
+  };
+}
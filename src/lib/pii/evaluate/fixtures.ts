@@ -1,4 +1,17 @@
-export const FIXTURES = [
+import type { LocaleId } from '../locales';
+import type { CustomRule } from '../customRules';
+import type { DictionaryEntry } from '../dictionaries';
+
+export const FIXTURES: Array<{
+  id: string;
+  text: string;
+  expect: Record<string, number>;
+  locales?: LocaleId[];
+  customRules?: CustomRule[];
+  dictionary?: DictionaryEntry[];
+  roster?: string;   // CSV, as imported in the UI
+  notDetected?: string[];  // entity texts that must not appear, e.g. a name with a job title attached
+}> = [
   {
     id: 'abn-tfn-valid',
     text: 'Client ABN is 83 914 571 673 and TFN 123 456 782.',
@@ -18,5 +31,169 @@ export const FIXTURES = [
     id: 'email-phone-dob',
     text: 'Email daniel@example.com, phone 0412 345 678, DOB 03/11/1984.',
     expect: { EMAIL:1, PHONE:1, DOB:1 }
+  },
+  {
+    id: 'bsb-bank-acct',
+    text: 'Direct debit from BSB 062-000 Account 1234 5678.',
+    expect: { BSB:1, BANK_ACCT:1 }
+  },
+  {
+    id: 'licence-passport',
+    text: 'NSW Driver Licence 12345678, card number 2012345678, passport PA1234567.',
+    expect: { DRIVERS_LICENCE:1, LICENCE_CARD:1, PASSPORT:1 }
+  },
+  {
+    id: 'acn-vs-tfn',
+    text: 'Trustee: Arcadia Nominees ACN 004 085 796, member TFN 123 456 782.',
+    expect: { ACN:1, TFN:1 }
+  },
+  {
+    id: 'centrelink-dva-ihi',
+    text: 'Centrelink CRN 123 456 789A, DVA file no. NX123456, IHI 8003 6012 3456 7894.',
+    expect: { CRN:1, DVA:1, IHI:1 }
+  },
+  {
+    id: 'super-rollover',
+    text: 'Roll over to fund USI 83 914 571 673 001 (SPIN AMP0100AU), Member No. 10457789.',
+    expect: { USI:1, SPIN:1, SUPER_MEMBER:1 }
+  },
+  {
+    id: 'hin-srn',
+    text: 'Holdings sponsored under HIN X0012345678; BHP shares on SRN I00098765432.',
+    expect: { HIN:1, SRN:1 }
+  },
+  {
+    id: 'investment-acct',
+    text: 'Platform Account No: 400123987, Trading Account CS-2291774.',
+    expect: { INVESTMENT_ACCT:2 }
+  },
+  {
+    id: 'dob-long-form',
+    text: 'Meeting held 14 March 2025. Client born 3 November 1984; partner DOB Nov 3, 1986.',
+    expect: { DOB:2 }
+  },
+  {
+    id: 'age-quasi-identifier',
+    text: 'Statement dated 1 July 2025. Client aged 67; spouse turns 60 next year.',
+    expect: { AGE:2 }
+  },
+  {
+    id: 'address-grammar',
+    text: 'Post to PO Box 123, Toowong QLD 4066. Deliveries go to Unit 4/12 Smith St.',
+    expect: { ADDRESS:2 }
+  },
+  {
+    id: 'gazetteer-locality',
+    text: 'Client resides in Ballarat. Postal: Marrickville NSW 2204.',
+    expect: { ADDRESS:2 }
+  },
+  {
+    id: 'intl-online-ids',
+    text: 'London mobile +44 7700 900123, profile linkedin.com/in/dan-orourke, @dan_orourke, last login 203.0.113.45.',
+    expect: { PHONE:1, URL:1, HANDLE:1, IP_ADDRESS:1 }
+  },
+  {
+    id: 'nz-uk-us-ids',
+    text: 'IRD number 49-091-850, NHI ZZZ0016. NI number AB 12 34 56 C, NHS No 943 476 5919. SSN 123-45-6789, ITIN 912-70-1234.',
+    expect: { IRD:1, NHI:1, NINO:1, NHS:1, SSN:1, ITIN:1 },
+    locales: ['AU', 'NZ', 'UK', 'US']
+  },
+  {
+    id: 'iban-swift',
+    text: 'Transfer to IBAN GB82 WEST 1234 5698 7654 32, SWIFT code NWBKGB2L. Second payee DE89370400440532013000.',
+    expect: { IBAN:2, SWIFT_BIC:1 }
+  },
+  {
+    id: 'custom-rule',
+    text: 'CRM client ref CL-004512. Invoice numbers like CL-998877 are not client specific.',
+    expect: { CUSTOM_CLIENT_ID:1 },
+    customRules: [{
+      id: 'client-id', label: 'Client ID', pattern: 'CL-\\d{6}', caseInsensitive: false,
+      cues: ['client'], confidence: 0.9, enabled: true,
+    }]
+  },
+  {
+    id: 'allow-deny-lists',
+    text: 'File note: Quokka asked Meridian Services to call Quokka back.',
+    expect: { ORG:2 },
+    dictionary: [
+      { term: 'Quokka', label: 'ORG', kind: 'deny', caseSensitive: true },
+      { term: 'Meridian *', label: 'ORG', kind: 'allow', caseSensitive: false },
+    ]
+  },
+  {
+    id: 'client-roster',
+    text: 'Spoke with Priya today; Ms Ramaswamy confirmed P. Ramaswamy is the trustee.',
+    expect: { PERSON:3 },
+    roster: 'First Name,Surname\nPriya,Ramaswamy\n'
+  },
+  {
+    id: 'salutations',
+    text: "Dear Margaret,\n\nThank you for meeting Mrs O'Brien-Smith and Dr van der Berg about the trust.\n\nKind regards,\nJane\n",
+    expect: { PERSON:4 }
+  },
+  {
+    id: 'account-cue-negatives',
+    text: 'Account balance $150,000; Account Based Pension balance 250000. Account manager phone 0412 345 678.',
+    expect: { PHONE:1, BANK_ACCT:0 }
+  },
+  {
+    id: 'address-ambiguous-street-types',
+    text: 'Hold $50,000 Cash Reserve per the 12 Month Outlook. Client lives at 14 Banksia Reserve, Mudgee NSW 2850.',
+    expect: { ADDRESS:1 }
+  },
+  {
+    id: 'names-that-are-words',
+    text: 'Meeting notes: June Smith and her brother Long Nguyen attended; May Chen sent apologies.',
+    expect: { PERSON:9 }  // each full name plus its first and last name parts
+  },
+  {
+    id: 'honorific-job-titles',
+    text: 'Prepared by Mr John Smith Financial Adviser for Mrs Priya Shah Senior Partner.',
+    expect: { PERSON:6 },
+    notDetected: ['John Smith Financial Adviser', 'Priya Shah Senior Partner', 'Smith Financial Adviser', 'Shah Senior Partner']
+  },
+  {
+    id: 'dva-crn-negatives',
+    text: 'Her DVA file sent 12 May. Veterans Affairs card to 45 people. Invoice 123456789A paid.',
+    expect: { DVA:0, CRN:0 }
+  },
+  {
+    id: 'bank-acct-year-range',
+    text: 'Account 2024-2025 review complete.',
+    expect: { BANK_ACCT:0 }
+  },
+  {
+    id: 'old-date-without-birth-cue',
+    text: 'The trust was established on 12/03/1995 by deed.',
+    expect: { DOB:0 }
+  },
+  {
+    id: 'nhs-needs-cue',
+    text: 'Call the office on 943 476 5919 after lunch.',
+    expect: { NHS:0 },
+    locales: ['AU', 'UK']
+  },
+  {
+    id: 'title-in-place-name',
+    text: 'Lord Howe Island trip booked. Dinner with Lady Jane Smith on Friday.',
+    expect: { PERSON:3 },
+    notDetected: ['Howe Island', 'Howe']
+  },
+  {
+    id: 'residence-cue-negatives',
+    text: 'The firm is based in Katherine Street. The client lives in Sydney and works near Ballarat.',
+    expect: { ADDRESS:0 }
+  },
+  {
+    id: 'locality-own-postcode',
+    text: 'Postal: Marrickville NSW 2000. Office: Mudgee NSW 2850.',
+    expect: { ADDRESS:1 },
+    notDetected: ['Marrickville NSW 2000']
+  },
+  {
+    id: 'common-names',
+    text: 'Attendees: Philip Walsh, Stuart Kelly, Roger Hughes, Carl Jensen, Warren Doyle, Gordon Hayes, Dennis Murphy and Lindsay Cole.',
+    expect: { PERSON:24 }
   }
 ];
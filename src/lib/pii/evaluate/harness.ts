@@ -1,16 +1,26 @@
-import { BrowserPIIDetector } from '@/lib/pii-detector';
+import type { DetectorClient } from '@/lib/detector-client';
+import type { EnsembleSettings } from '@/lib/pii/ensemble';
+import { parseRosterCsv } from '@/lib/pii/roster';
 import { FIXTURES } from './fixtures';
 
-export async function runEval() {
-  const detector = new BrowserPIIDetector();
-  await detector.initialize();
-  
+/**
+ * Scores the fixtures against the models loaded in the detector's worker, so setups
+ * can be compared. A detection started meanwhile cancels the run.
+ */
+export async function runEval(detector: DetectorClient, ensemble?: EnsembleSettings) {
   const results = [];
   for (const f of FIXTURES) {
-    const ents = await detector.detectAll(f.text);
+    const ents = await detector.detectAll(f.text, {
+      locales: f.locales,
+      customRules: f.customRules,
+      dictionary: f.dictionary,
+      roster: f.roster ? parseRosterCsv(f.roster) : undefined,
+      ensemble,
+    });
     const counts: Record<string, number> = {};
     for (const e of ents) counts[e.label] = (counts[e.label] || 0) + 1;
-    const ok = Object.entries(f.expect).every(([k,v]) => counts[k]===v);
+    const ok = Object.entries(f.expect).every(([k,v]) => (counts[k] ?? 0) === v)
+      && !ents.some(e => f.notDetected?.includes(e.text));
     results.push({ id: f.id, ok, counts, expect: f.expect });
   }
   return results;
@@ -0,0 +1,3841 @@
+// Bundled offline gazetteer: "Suburb|STATE|postcode" records, one per line.
+// Localities are the Australian places in the GeoNames gazetteer (population over
+// 1,000 or an administrative seat; geonames.org, CC BY 4.0), taken from the
+// cities.json 1.1.64 package. GeoNames has no postcodes: those recorded here are
+// for capital-city suburbs and regional centres, and the postcode→state ranges in
+// gazetteer.ts validate the rest.
+export const GAZETTEER_VERSION = '2';
+
+export const SUBURBS = `
+Abbotsbury|NSW
+Abbotsford|NSW
+Abercrombie|NSW
+Aberdare|NSW
+Aberdeen|NSW
+Aberglasslyn|NSW
+Abermain|NSW
+Acacia Gardens|NSW
+Adamstown|NSW
+Adamstown Heights|NSW
+Airds|NSW
+Albion Park|NSW
+Albion Park Rail|NSW
+Albury|NSW|2640
+Aldavilla|NSW
+Alexandria|NSW|2015
+Alfords Point|NSW
+Allambie Heights|NSW
+Allawah|NSW
+Alstonville|NSW
+Ambarvale|NSW
+Anna Bay|NSW
+Annandale|NSW
+Annangrove|NSW
+Appin|NSW
+Arcadia|NSW
+Arcadia vale|NSW
+Argenton|NSW
+Armidale|NSW|2350
+Arncliffe|NSW
+Artarmon|NSW
+Ashbury|NSW
+Ashcroft|NSW
+Ashfield|NSW|2131
+Ashmont|NSW
+Ashtonfield|NSW
+Asquith|NSW
+Auburn|NSW
+Austinmer|NSW
+Austral|NSW
+Avoca Beach|NSW
+Avondale|NSW
+Balgowlah|NSW
+Balgowlah Heights|NSW
+Balgownie|NSW
+Ballina|NSW
+Balmain|NSW|2041
+Balmain East|NSW
+Balranald|NSW
+Bangalow|NSW
+Bangor|NSW
+Banksia|NSW
+Bankstown|NSW|2200
+Banora Point|NSW
+Bar Beach|NSW
+Barden Ridge|NSW
+Bardia|NSW
+Bardwell Park|NSW
+Bardwell Valley|NSW
+Bargo|NSW
+Barham|NSW
+Barnsley|NSW
+Barooga|NSW
+Barraba|NSW
+Barrack Heights|NSW
+Basin View|NSW
+Bass Hill|NSW
+Bateau Bay|NSW
+Batehaven|NSW
+Batemans Bay|NSW
+Bathurst|NSW|2795
+Bathurst city centre|NSW
+Batlow|NSW
+Baulkham Hills|NSW|2153
+Bay View|NSW
+Beacon Hill|NSW
+Beaumont Hills|NSW
+Beecroft|NSW
+Bega|NSW
+Belfield|NSW
+Bella Vista|NSW
+Bellambi|NSW
+Bellbird|NSW
+Bellevue Hill|NSW
+Bellingen|NSW
+Belmont|NSW
+Belmont North|NSW
+Belmont South|NSW
+Belmore|NSW
+Belrose|NSW
+Bensville|NSW
+Berala|NSW
+Beresfield|NSW
+Berkeley|NSW
+Berkeley Vale|NSW
+Berkshire Park|NSW
+Bermagui|NSW
+Berowra|NSW
+Berowra Heights|NSW
+Berridale|NSW
+Berrigan|NSW
+Berry|NSW
+Beverley Park|NSW
+Beverly Hills|NSW
+Bexley|NSW
+Bexley North|NSW
+Bidwill|NSW
+Bilambil Heights|NSW
+Bilgola Plateau|NSW
+Bingara|NSW
+Birchgrove|NSW
+Birmingham Gardens|NSW
+Birrong|NSW
+Blackalls Park|NSW
+Blackbutt|NSW
+Blackett|NSW
+Blackheath|NSW
+Blacksmiths|NSW
+Blacktown|NSW|2148
+Blackwall|NSW
+Blair Athol|NSW
+Blakehurst|NSW
+Blaxland|NSW
+Blayney|NSW
+Bligh Park|NSW
+Blue Bay|NSW
+Blue Haven|NSW
+Blue Mountains|NSW
+Boambee|NSW
+Boambee East|NSW
+Bogangar|NSW
+Boggabri|NSW
+Bolton Point|NSW
+Bolwarra Heights|NSW
+Bomaderry|NSW
+Bombala|NSW
+Bondi|NSW|2026
+Bondi Beach|NSW|2026
+Bondi Junction|NSW|2022
+Bonnells Bay|NSW
+Bonnet Bay|NSW
+Bonny Hills|NSW
+Bonnyrigg|NSW
+Bonnyrigg Heights|NSW
+Bonville|NSW
+Booker Bay|NSW
+Booragul|NSW
+Boorowa|NSW
+Bossley Park|NSW
+Botany|NSW
+Bourke|NSW
+Bourkelands|NSW
+Bow Bowing|NSW
+Bowen Mountain|NSW
+Bowenfels|NSW
+Bowral|NSW
+Bowraville|NSW
+Bradbury|NSW
+Braidwood|NSW
+Branxton|NSW
+Breakfast Point|NSW
+Brewarrina|NSW
+Brighton-Le-Sands|NSW
+Bringelly|NSW
+Broadmeadow|NSW
+Broken Hill|NSW|2880
+Bronte|NSW
+Brookvale|NSW
+Broulee|NSW
+Brunswick Heads|NSW
+Budgewoi|NSW
+Buff Point|NSW
+Bulahdelah|NSW
+Bullaburra|NSW
+Bulli|NSW
+Bundanoon|NSW
+Bundeena|NSW
+Bungarribee|NSW
+Bungendore|NSW
+Buronga|NSW
+Burradoo|NSW
+Burraneer|NSW
+Burrill Lake|NSW
+Burwood|NSW|2134
+Busby|NSW
+Buttaba|NSW
+Buxton|NSW
+Byron Bay|NSW|2481
+Bywong|NSW
+Cabarita|NSW
+Cabramatta|NSW
+Cabramatta West|NSW
+Caddens|NSW
+Calala|NSW
+Callaghan|NSW
+Callala Bay|NSW
+Cambewarra Village|NSW
+Cambridge Gardens|NSW
+Cambridge Park|NSW
+Camden|NSW
+Camden Haven|NSW
+Camden South|NSW
+Cameron Park|NSW
+Cammeray|NSW
+Campbelltown|NSW|2560
+Camperdown|NSW
+Campsie|NSW
+Canada Bay|NSW
+Canley Heights|NSW
+Canley Vale|NSW
+Canowindra|NSW
+Canterbury|NSW
+Canton Beach|NSW
+Cardiff|NSW
+Cardiff Heights|NSW
+Cardiff South|NSW
+Caringbah|NSW
+Caringbah South|NSW
+Carlingford|NSW
+Carlton|NSW
+Carnes Hill|NSW
+Carramar|NSW
+Carrington|NSW
+Carrolls Creek|NSW
+Carss Park|NSW
+Cartwright|NSW
+Carwoola|NSW
+Casino|NSW
+Castle Cove|NSW
+Castle Hill|NSW|2154
+Castlecrag|NSW
+Castlereagh|NSW
+Casuarina|NSW
+Casula|NSW
+Catalina|NSW
+Catherine Field|NSW
+Caves Beach|NSW
+Cecil Hills|NSW
+Centennial Park|NSW
+Central Coast|NSW
+Cessnock|NSW
+Chain Valley Bay|NSW
+Charlestown|NSW
+Charmhaven|NSW
+Chatswood|NSW|2067
+Chatswood West|NSW
+Cheltenham|NSW
+Cherrybrook|NSW
+Chester Hill|NSW
+Chifley|NSW
+Chinderah|NSW
+Chippendale|NSW
+Chipping Norton|NSW
+Chisholm|NSW
+Chiswick|NSW
+Chittaway Bay|NSW
+Claremont Meadows|NSW
+Clarence Town|NSW
+Claymore|NSW
+Clemton Park|NSW
+Clontarf|NSW
+Clovelly|NSW
+Coal Point|NSW
+Cobar|NSW
+Cobbitty|NSW
+Coffs Harbour|NSW|2450
+Coleambally|NSW
+Colebee|NSW
+Coledale|NSW
+Collaroy|NSW
+Collaroy Plateau|NSW
+Colo Vale|NSW
+Colyton|NSW
+Como|NSW
+Concord|NSW
+Concord West|NSW
+Condell Park|NSW
+Condobolin|NSW
+Coniston|NSW
+Connells Point|NSW
+Constitution Hill|NSW
+Coogee|NSW|2034
+Cooks Hill|NSW
+Coolah|NSW
+Coolamon|NSW
+Cooma|NSW
+Coonabarabran|NSW
+Coonamble|NSW
+Cooranbong|NSW
+Cootamundra|NSW
+Copacabana|NSW
+Coraki|NSW
+Cordeaux Heights|NSW
+Corindi Beach|NSW
+Corlette|NSW
+Corowa|NSW
+Corrimal|NSW
+Coutts Crossing|NSW
+Cowra|NSW
+Cranebrook|NSW
+Cremorne|NSW
+Cremorne Point|NSW
+Crescent Head|NSW
+Crestwood|NSW
+Cringila|NSW
+Cromer|NSW
+Cronulla|NSW|2230
+Crookwell|NSW
+Crows Nest|NSW
+Croydon|NSW
+Culburra Beach|NSW
+Culcairn|NSW
+Cumbalum|NSW
+Cundletown|NSW
+Curl Curl|NSW
+Currans Hill|NSW
+Daceyville|NSW
+Dalmeny|NSW
+Dapto|NSW
+Darling Point|NSW
+Darlinghurst|NSW|2010
+Darlington|NSW
+Darlington Point|NSW
+Davidson|NSW
+Davistown|NSW
+Dean Park|NSW
+Dee Why|NSW|2099
+Denham Court|NSW
+Deniliquin|NSW
+Denistone|NSW
+Denistone East|NSW
+Denman|NSW
+Dharruk|NSW
+Dolls Point|NSW
+Doonside|NSW
+Dora Creek|NSW
+Dorrigo|NSW
+Double Bay|NSW
+Douglas Park|NSW
+Dover Heights|NSW
+Drummoyne|NSW
+Dubbo|NSW|2830
+Dudley|NSW
+Dulwich Hill|NSW
+Dundas Valley|NSW
+Dunedoo|NSW
+Dungog|NSW
+Dural|NSW
+Eagle Vale|NSW
+Earlwood|NSW
+East Albury|NSW
+East Ballina|NSW
+East Branxton|NSW
+East Corrimal|NSW
+East Gosford|NSW
+East Hills|NSW
+East Jindabyne|NSW
+East Kempsey|NSW
+East Killara|NSW
+East Kurrajong|NSW
+East Lindfield|NSW
+East Lismore|NSW
+East Maitland|NSW
+East Ryde|NSW
+East Tamworth|NSW
+Eastlakes|NSW
+Eastwood|NSW
+Eden|NSW
+Edensor Park|NSW
+Edgecliff|NSW
+Edgeworth|NSW
+Edmondson Park|NSW
+Eglinton|NSW
+Elanora Heights|NSW
+Elderslie|NSW
+Eleebana|NSW
+Elermore Vale|NSW
+Elizabeth Bay|NSW
+Elizabeth Hills|NSW
+Ellalong|NSW
+Emerald Beach|NSW
+Emerton|NSW
+Empire Bay|NSW
+Emu Heights|NSW
+Emu Plains|NSW
+Enfield|NSW
+Engadine|NSW
+Enmore|NSW
+Epping|NSW|2121
+Erina|NSW
+Ermington|NSW
+Erskine Park|NSW
+Erskineville|NSW
+Eschol Park|NSW
+Estella|NSW
+Ettalong|NSW
+Ettalong Beach|NSW
+Eulomogo|NSW
+Evans Head|NSW
+Fairfield|NSW
+Fairfield East|NSW
+Fairfield Heights|NSW
+Fairfield West|NSW
+Fairlight|NSW
+Fairy Meadow|NSW
+Farmborough Heights|NSW
+Faulconbridge|NSW
+Fennell Bay|NSW
+Fern Bay|NSW
+Fern Hill|NSW
+Figtree|NSW
+Fingal Bay|NSW
+Finley|NSW
+Five Dock|NSW
+Fletcher|NSW
+Flinders|NSW
+Floraville|NSW
+Forbes|NSW
+Forest Hill|NSW
+Forest Lodge|NSW
+Forestville|NSW
+Forresters Beach|NSW
+Forster|NSW
+Frederickton|NSW
+Freemans Reach|NSW
+Frenchs Forest|NSW
+Freshwater|NSW
+Galston|NSW
+Garden Suburb|NSW
+Gateshead|NSW
+Georges Hall|NSW
+Georgetown|NSW
+Gerringong|NSW
+Gilgandra|NSW
+Gillieston Heights|NSW
+Girards Hill|NSW
+Girraween|NSW
+Gladesville|NSW
+Glebe|NSW|2037
+Glen Alpine|NSW
+Glen Innes|NSW
+Glenbrook|NSW
+Glendale|NSW
+Glendenning|NSW
+Glenfield|NSW
+Glenfield Park|NSW
+Glenhaven|NSW
+Glenmore Park|NSW
+Glenning Valley|NSW
+Glenorie|NSW
+Glenroy|NSW
+Glenwood|NSW
+Glossodia|NSW
+Gloucester|NSW
+Gol Gol|NSW
+Googong|NSW
+Goonellabah|NSW
+Gordon|NSW
+Gorokan|NSW
+Gosford|NSW|2250
+Goulburn|NSW|2580
+Grafton|NSW
+Granville|NSW
+Grasmere|NSW
+Grays Point|NSW
+Green Point|NSW
+Green Valley|NSW
+Greenacre|NSW
+Greenfield Park|NSW
+Greenwell Point|NSW
+Greenwich|NSW
+Gregory Hills|NSW
+Grenfell|NSW
+Greta|NSW
+Greystanes|NSW
+Griffith|NSW
+Grose Vale|NSW
+Guildford West|NSW
+Gulgong|NSW
+Gulmarrad|NSW
+Gundagai|NSW
+Gundaroo|NSW
+Gunnedah|NSW
+Guyra|NSW
+Gwandalan|NSW
+Gwynneville|NSW
+Gymea|NSW
+Gymea Bay|NSW
+Haberfield|NSW
+Halekulani|NSW
+Hamilton|NSW
+Hamlyn Terrace|NSW
+Hammondville|NSW
+Hanwood|NSW
+Harrington|NSW
+Harrington Park|NSW
+Harris Park|NSW
+Hassall Grove|NSW
+Hawks Nest|NSW
+Hay|NSW
+Haymarket|NSW|2000
+Hazelbrook|NSW
+Heathcote|NSW
+Hebersham|NSW
+Heckenberg|NSW
+Heddon Greta|NSW
+Helensburgh|NSW
+Henty|NSW
+Hill Top|NSW
+Hillsdale|NSW
+Hillston|NSW
+Hillvue|NSW
+Hinchinbrook|NSW
+Hobartville|NSW
+Holbrook|NSW
+Holmesville|NSW
+Holroyd|NSW
+Holsworthy|NSW
+Homebush|NSW
+Homebush West|NSW
+Horningsea Park|NSW
+Hornsby|NSW|2077
+Hornsby Heights|NSW
+Horsley|NSW
+Horsley Park|NSW
+Howlong|NSW
+Hoxton Park|NSW
+Hunters Hill|NSW
+Hunterview|NSW
+Hurlstone Park|NSW
+Hurstville|NSW|2220
+Hurstville Grove|NSW
+Illawong|NSW
+Iluka|NSW
+Ingleburn|NSW
+Inverell|NSW
+Islington|NSW
+Jamberoo|NSW
+Jamisontown|NSW
+Jannali|NSW
+Jerilderie|NSW
+Jerrabomberra|NSW
+Jesmond|NSW
+Jewells|NSW
+Jilliby|NSW
+Jindabyne|NSW
+Jindera|NSW
+Jordan Springs|NSW
+Junction Hill|NSW
+Junee|NSW
+Kahibah|NSW
+Kanahooka|NSW
+Kandos|NSW
+Kanwal|NSW
+Kapooka|NSW
+Karabar|NSW
+Kareela|NSW
+Kariong|NSW
+Karuah|NSW
+Katoomba|NSW|2780
+Kearns|NSW
+Keiraville|NSW
+Kellyville|NSW
+Kellyville Ridge|NSW
+Kelso|NSW
+Kemps Creek|NSW
+Kempsey|NSW
+Kendall|NSW
+Kensington|NSW
+Kenthurst|NSW
+Kew|NSW
+Kiama|NSW|2533
+Kiama Downs|NSW
+Kilaben Bay|NSW
+Killara|NSW
+Killarney Heights|NSW
+Killarney Vale|NSW
+King Creek|NSW
+Kings Langley|NSW
+Kings Park|NSW
+Kingscliff|NSW
+Kingsford|NSW
+Kingsgrove|NSW
+Kingswood Park|NSW
+Kirrawee|NSW
+Kirribilli|NSW
+Kogarah|NSW
+Kogarah Bay|NSW
+Koonawarra|NSW
+Kooringal|NSW
+Kootingal|NSW
+Korora|NSW
+Kosciuszko National Park|NSW
+Kotara|NSW
+Kotara South|NSW
+Kurnell|NSW
+Kurraba Point|NSW
+Kurrajong|NSW
+Kurrajong Heights|NSW
+Kurri Kurri|NSW
+Kyle Bay|NSW
+Kyogle|NSW
+Lake Albert|NSW
+Lake Cargelligo|NSW
+Lake Cathie|NSW
+Lake Haven|NSW
+Lake Heights|NSW
+Lake Illawarra|NSW
+Lake Munmorah|NSW
+Lakelands|NSW
+Lakemba|NSW
+Lakewood|NSW
+Lalor Park|NSW
+Lambton|NSW
+Lane Cove|NSW
+Lane Cove North|NSW
+Lane Cove West|NSW
+Lansvale|NSW
+Largs|NSW
+Lavington|NSW
+Lawrence|NSW
+Lawson|NSW
+Leeton|NSW
+Leichhardt|NSW|2040
+Lemon Tree Passage|NSW
+Lennox Head|NSW
+Leonay|NSW
+Leppington|NSW
+Lethbridge Park|NSW
+Leumeah|NSW
+Leura|NSW
+Lewisham|NSW
+Liberty Grove|NSW
+Lidcombe|NSW
+Lightning Ridge|NSW
+Lilli Pilli|NSW
+Lilyfield|NSW
+Lindfield|NSW
+Lisarow|NSW
+Lismore|NSW|2480
+Lismore Heights|NSW
+Lithgow|NSW
+Little Bay|NSW
+Liverpool|NSW|2170
+Llanarth|NSW
+Llandilo|NSW
+Lockhart|NSW
+Loftus|NSW
+Londonderry|NSW
+Long Beach|NSW
+Long Jetty|NSW
+Longueville|NSW
+Lorn|NSW
+Luddenham|NSW
+Lugarno|NSW
+Lurnea|NSW
+Macksville|NSW
+Maclean|NSW
+Macmasters Beach|NSW
+Macquarie Fields|NSW
+Macquarie Hills|NSW
+Macquarie Links|NSW
+Macquarie Park|NSW
+Maitland|NSW|2320
+Maitland city centre|NSW
+Malabar|NSW
+Malua Bay|NSW
+Mangerton|NSW
+Manilla|NSW
+Manly|NSW|2095
+Manly Vale|NSW
+Mannering Park|NSW
+Maraylya|NSW
+Marayong|NSW
+Mardi|NSW
+Marks Point|NSW
+Maroubra|NSW|2035
+Marrickville|NSW|2204
+Marsfield|NSW
+Marulan|NSW
+Maryland|NSW
+Maryville|NSW
+Mascot|NSW|2020
+Matraville|NSW
+Mayfield|NSW
+Mayfield East|NSW
+Mayfield West|NSW
+McGraths Hill|NSW
+McMahons Point|NSW
+Meadowbank|NSW
+Medowie|NSW
+Melrose Park|NSW
+Menai|NSW
+Menangle|NSW
+Merewether|NSW
+Merewether Heights|NSW
+Merimbula|NSW
+Merriwa|NSW
+Merrylands|NSW
+Merrylands West|NSW
+Metford|NSW
+Middle Cove|NSW
+Middleton Grange|NSW
+Miller|NSW
+Millers Point|NSW
+Millthorpe|NSW
+Milperra|NSW
+Milsons Point|NSW
+Milton|NSW
+Minchinbury|NSW
+Minto|NSW
+Miranda|NSW
+Mitchell|NSW
+Mittagong|NSW
+Moama|NSW
+Mollymook|NSW
+Mollymook Beach|NSW
+Molong|NSW
+Mona Vale|NSW
+Monterey|NSW
+Moonbi|NSW
+Moonee Beach|NSW
+Moorebank|NSW
+Moree|NSW
+Morisset|NSW
+Morpeth|NSW
+Mortdale|NSW
+Mortlake|NSW
+Moruya|NSW
+Mosman|NSW|2088
+Moss Vale|NSW
+Mount Annan|NSW
+Mount Austin|NSW
+Mount Colah|NSW
+Mount Druitt|NSW
+Mount Hutton|NSW
+Mount Keira|NSW
+Mount Kembla|NSW
+Mount Kuring-Gai|NSW
+Mount Lewis|NSW
+Mount Ousley|NSW
+Mount Pleasant|NSW
+Mount Pritchard|NSW
+Mount Riverview|NSW
+Mount Saint Thomas|NSW
+Mount Vernon|NSW
+Mount Warrigal|NSW
+Mudgee|NSW
+Mulgoa|NSW
+Mullumbimby|NSW
+Mulwala|NSW
+Murrumbateman|NSW
+Murrurundi|NSW
+Murwillumbah|NSW
+Muswellbrook|NSW
+Nabiac|NSW
+Nambucca|NSW
+Nambucca Heads|NSW
+Nana Glen|NSW
+Narara|NSW
+Narellan|NSW
+Narellan Vale|NSW
+Naremburn|NSW
+Narooma|NSW
+Narrabeen|NSW
+Narrabri|NSW
+Narrandera|NSW
+Narrawallee|NSW
+Narraweena|NSW
+Narromine|NSW
+Narwee|NSW
+Nelson Bay|NSW
+Neutral Bay|NSW
+New Lambton|NSW
+New Lambton Heights|NSW
+Newcastle|NSW|2300
+Newcastle East|NSW
+Newington|NSW
+Newport|NSW
+Newtown|NSW|2042
+Niagara Park|NSW
+Nimbin|NSW
+Noraville|NSW
+Normanhurst|NSW
+North Albury|NSW
+North Avoca|NSW
+North Balgowlah|NSW
+North Boambee Valley|NSW
+North Bondi|NSW
+North Curl Curl|NSW
+North Epping|NSW
+North Gosford|NSW
+North Haven|NSW
+North Lambton|NSW
+North Manly|NSW
+North Narrabeen|NSW
+North Nowra|NSW
+North Parramatta|NSW
+North Richmond|NSW
+North Rocks|NSW
+North Ryde|NSW
+North St Marys|NSW
+North Strathfield|NSW
+North Sydney|NSW|2060
+North Tamworth|NSW
+North Turramurra|NSW
+North Wahroonga|NSW
+North Willoughby|NSW
+North Wollongong|NSW
+Northbridge|NSW
+Northmead|NSW
+Nowra|NSW|2541
+Nowra Hill|NSW
+Nyngan|NSW
+Oak Flats|NSW
+Oakdale|NSW
+Oakhurst|NSW
+Oakville|NSW
+Oatlands|NSW
+Oatley|NSW
+Oberon|NSW
+Ocean Shores|NSW
+Old Bar|NSW
+Old Erowal Bay|NSW
+Old Guildford|NSW
+Old Toongabbie|NSW
+Oran Park|NSW
+Orange|NSW|2800
+Orangeville|NSW
+Orchard Hills|NSW
+Ourimbah|NSW
+Oxley Park|NSW
+Oxley Vale|NSW
+Oyster Bay|NSW
+Paddington|NSW|2021
+Padstow|NSW
+Padstow Heights|NSW
+Pagewood|NSW
+Palm Beach|NSW
+Panania|NSW
+Parkes|NSW
+Parklea|NSW
+Parramatta|NSW|2150
+Peakhurst|NSW
+Peakhurst Heights|NSW
+Pemulwuy|NSW
+Pendle Hill|NSW
+Pennant Hills|NSW
+Penrith|NSW|2750
+Penshurst|NSW
+Petersham|NSW
+Phillip|NSW
+Picnic Point|NSW
+Picton|NSW
+Pitt Town|NSW
+Pittwater|NSW
+Plumpton|NSW
+Point Clare|NSW
+Point Frederick|NSW
+Point Piper|NSW
+Pokolbin|NSW
+Port Hacking|NSW
+Port Kembla|NSW
+Port Macquarie|NSW|2444
+Portland|NSW
+Potts Point|NSW
+Pottsville|NSW
+Pottsville Beach|NSW
+Prairiewood|NSW
+Prestons|NSW
+Primbee|NSW
+Prospect|NSW
+Punchbowl|NSW
+Putney|NSW
+Pymble|NSW
+Pyrmont|NSW
+Quakers Hill|NSW
+Queanbeyan|NSW|2620
+Queanbeyan East|NSW
+Queanbeyan West|NSW
+Queens Park|NSW
+Queenscliff|NSW
+Quirindi|NSW
+Raby|NSW
+Raglan|NSW
+Ramsgate|NSW
+Ramsgate Beach|NSW
+Randwick|NSW|2031
+Rankin Park|NSW
+Rathmines|NSW
+Raworth|NSW
+Raymond Terrace|NSW
+Razorback|NSW
+Redfern|NSW|2016
+Redhead|NSW
+Regents Park|NSW
+Revesby|NSW
+Revesby Heights|NSW
+Rhodes|NSW
+Richmond|NSW|2753
+Riverstone|NSW
+Riverview|NSW
+Riverwood|NSW
+Robertson|NSW
+Rockdale|NSW
+Rodd Point|NSW
+Rooty Hill|NSW
+Ropes Crossing|NSW
+Rose Bay|NSW
+Rosehill|NSW
+Roselands|NSW
+Rosemeadow|NSW
+Roseville|NSW
+Roseville Chase|NSW
+Rossmore|NSW
+Rouse Hill|NSW
+Rozelle|NSW
+Ruse|NSW
+Rushcutters Bay|NSW
+Russell Lea|NSW
+Russell Vale|NSW
+Rutherford|NSW
+Rydalmere|NSW
+Ryde|NSW|2112
+Sadleir|NSW
+Saint Ives|NSW
+Saint Peters|NSW
+Salamander Bay|NSW
+Salt Ash|NSW
+San Remo|NSW
+Sanctuary Point|NSW
+Sandringham|NSW
+Sandy Beach|NSW
+Sans Souci|NSW
+Sapphire Beach|NSW
+Saratoga|NSW
+Sawtell|NSW
+Schofields|NSW
+Scone|NSW
+Seaforth|NSW
+Sefton|NSW
+Seven Hills|NSW
+Shalvey|NSW
+Shell Cove|NSW
+Shellharbour|NSW
+Shelly Beach|NSW
+Shoal Bay|NSW
+Shoalhaven Heads|NSW
+Shortland|NSW
+Silverdale|NSW
+Silverwater|NSW
+Singleton|NSW
+Singleton Heights|NSW
+Skennars Head|NSW
+Smithfield|NSW
+Smiths Lake|NSW
+Soldiers Point|NSW
+Somersby|NSW
+South Albury|NSW
+South Bathurst|NSW
+South Bowenfels|NSW
+South Coogee|NSW
+South Grafton|NSW
+South Granville|NSW
+South Hurstville|NSW
+South Kempsey|NSW
+South Lismore|NSW
+South Murwillumbah|NSW
+South Nowra|NSW
+South Penrith|NSW
+South Tamworth|NSW
+South Turramurra|NSW
+South Wentworthville|NSW
+South West Rocks|NSW
+South Windsor|NSW
+Speers Point|NSW
+Spring Farm|NSW
+Springdale Heights|NSW
+Springvale|NSW
+Springwood|NSW
+St Andrews|NSW
+St Clair|NSW
+St Helens Park|NSW
+St Huberts Island|NSW
+St Ives Chase|NSW
+St Johns Park|NSW
+St Leonards|NSW
+St. Georges Basin|NSW
+Stanhope Gardens|NSW
+Stanmore|NSW
+Stanwell Park|NSW
+Stockton|NSW
+Strathfield|NSW|2135
+Strathfield South|NSW
+Suffolk Park|NSW
+Summer Hill|NSW
+Summerland Point|NSW
+Sunshine Bay|NSW
+Surfside|NSW
+Surry Hills|NSW|2010
+Sussex Inlet|NSW
+Sutherland|NSW|2232
+Sutton|NSW
+Swansea|NSW
+Sydenham|NSW
+Sydney|NSW|2000
+Sydney Central Business District|NSW
+Sydney Olympic Park|NSW
+Sylvania|NSW
+Sylvania Waters|NSW
+Table Top|NSW
+Tahmoor|NSW
+Tamarama|NSW
+Tamworth|NSW|2340
+Tanilba Bay|NSW
+Taree|NSW
+Taren Point|NSW
+Tarrawanna|NSW
+Tarro|NSW
+Tascott|NSW
+Tathra|NSW
+Tatton|NSW
+Tea Gardens|NSW
+Telarah|NSW
+Telopea|NSW
+Temora|NSW
+Tempe|NSW
+Tenambit|NSW
+Tennyson Point|NSW
+Tenterfield|NSW
+Teralba|NSW
+Terranora|NSW
+Terrigal|NSW
+Terry Hills|NSW
+The Entrance|NSW
+The Entrance North|NSW
+The Hill|NSW
+The Junction|NSW
+The Oaks|NSW
+The Ponds|NSW
+The Rock|NSW
+The Rocks|NSW|2000
+Thirlmere|NSW
+Thirroul|NSW
+Thornleigh|NSW
+Thornton|NSW
+Thurgoona|NSW
+Tighes Hill|NSW
+Tingira Heights|NSW
+Tinonee|NSW
+Tocumwal|NSW
+Tolland|NSW
+Tomakin|NSW
+Tomerong|NSW
+Toongabbie|NSW
+Toongabbie West|NSW
+Toormina|NSW
+Toronto|NSW
+Toukley|NSW
+Towradgi|NSW
+Trangie|NSW
+Tregear|NSW
+Tuggerawong|NSW
+Tumbarumba|NSW
+Tumbi Vmbi|NSW
+Tumut|NSW
+Tuncurry|NSW
+Tura Beach|NSW
+Tuross Head|NSW
+Turramurra|NSW
+Turrella|NSW
+Turvey Park|NSW
+Tweed Heads|NSW
+Tweed Heads South|NSW
+Tweed Heads West|NSW
+Ulladulla|NSW
+Ultimo|NSW
+Umina Beach|NSW
+Unanderra|NSW
+Uralla|NSW
+Urunga|NSW
+Valentine|NSW
+Valla Beach|NSW
+Valley Heights|NSW
+Vaucluse|NSW
+Villawood|NSW
+Vincentia|NSW
+Vineyard|NSW
+Voyager Point|NSW
+Wadalba|NSW
+Wagga Wagga|NSW|2650
+Wahroonga|NSW
+Waitara|NSW
+Wakeley|NSW
+Walcha|NSW
+Walgett|NSW
+Wallacia|NSW
+Wallalong|NSW
+Wallerawang|NSW
+Wallsend|NSW
+Wamberal|NSW
+Wamboin|NSW
+Wangi Wangi|NSW
+Warabrook|NSW
+Waratah|NSW
+Waratah West|NSW
+Wareemba|NSW
+Warialda|NSW
+Warilla|NSW
+Warners Bay|NSW
+Warragamba|NSW
+Warrawee|NSW
+Warrawong|NSW
+Warren|NSW
+Warriewood|NSW
+Warrimoo|NSW
+Warwick Farm|NSW
+Watanobbi|NSW
+Waterview Heights|NSW
+Wattle Grove|NSW
+Wattle Ponds|NSW
+Wauchope|NSW
+Waverton|NSW
+Wee Waa|NSW
+Wellington|NSW
+Wentworth|NSW
+Wentworth Falls|NSW
+Wentworth Point|NSW
+Wentworthville|NSW
+Werrington|NSW
+Werrington County|NSW
+Werrington Downs|NSW
+Werris Creek|NSW
+West Albury|NSW
+West Ballina|NSW
+West Bathurst|NSW
+West Gosford|NSW
+West Haven|NSW
+West Hoxton|NSW
+West Kempsey|NSW
+West Nowra|NSW
+West Pennant Hills|NSW
+West Pymble|NSW
+West Ryde|NSW
+West Tamworth|NSW
+West Wallsend|NSW
+West Wollongong|NSW
+West Wyalong|NSW
+Westdale|NSW
+Westleigh|NSW
+Westmead|NSW
+Wetherill Park|NSW
+Whalan|NSW
+Wheeler Heights|NSW
+Whitebridge|NSW
+Wickham|NSW
+Wilberforce|NSW
+Wiley Park|NSW
+Williamtown|NSW
+Willmot|NSW
+Willoughby|NSW
+Willoughby East|NSW
+Wilton|NSW
+Windale|NSW
+Windang|NSW
+Windradyne|NSW
+Windsor|NSW
+Windsor Downs|NSW
+Wingham|NSW
+Winmalee|NSW
+Winston Hills|NSW
+Wolli Creek|NSW
+Wollongbar|NSW
+Wollongong|NSW|2500
+Wollongong city centre|NSW
+Wollstonecraft|NSW
+Woodberry|NSW
+Woodbine|NSW
+Woodcroft|NSW
+Woodford|NSW
+Woodpark|NSW
+Woodrising|NSW
+Woolgoolga|NSW
+Woollahra|NSW
+Woolloomooloo|NSW
+Woolooware|NSW
+Woongarrah|NSW
+Woonona|NSW
+Woronora|NSW
+Woronora Heights|NSW
+Worrigee|NSW
+Woy Woy|NSW
+Wyee|NSW
+Wyee Point|NSW
+Wyoming|NSW
+Wyong|NSW
+Wyongah|NSW
+Yagoona|NSW
+Yamba|NSW
+Yarravel|NSW
+Yarrawarrah|NSW
+Yass|NSW
+Yenda|NSW
+Yennora|NSW
+Yerrinbool|NSW
+Yoogali|NSW
+Young|NSW
+Yowie Bay|NSW
+Zetland|NSW
+Acton|ACT
+Ainslie|ACT
+Amaroo|ACT
+Aranda|ACT
+Banks|ACT
+Barton|ACT|2600
+Belconnen|ACT|2617
+Bonner|ACT
+Bonython|ACT
+Braddon|ACT|2612
+Bruce|ACT
+Calwell|ACT
+Campbell|ACT
+Canberra|ACT|2600
+Canberra City|ACT
+Casey|ACT
+Chapman|ACT
+Charnwood|ACT
+Chifley|ACT
+Chisholm|ACT
+Conder|ACT
+Cook|ACT
+Coombs|ACT
+Crace|ACT
+Curtin|ACT
+Deakin|ACT
+Dickson|ACT|2602
+Downer|ACT
+Duffy|ACT
+Dunlop|ACT
+Evatt|ACT
+Fadden|ACT
+Farrer|ACT
+Fisher|ACT
+Florey|ACT
+Flynn|ACT
+Forde|ACT
+Forrest|ACT
+Franklin|ACT
+Fraser|ACT
+Fyshwick|ACT|2609
+Garran|ACT
+Gilmore|ACT
+Giralang|ACT
+Gordon|ACT
+Gowrie|ACT
+Greenway|ACT
+Griffith|ACT|2603
+Gungahlin|ACT|2912
+Hackett|ACT
+Harrison|ACT
+Hawker|ACT
+Higgins|ACT
+Holder|ACT
+Holt|ACT
+Hughes|ACT
+Isaacs|ACT
+Isabella Plains|ACT
+Kaleen|ACT
+Kambah|ACT
+Kingston|ACT|2604
+Latham|ACT
+Lyneham|ACT
+Lyons|ACT
+Macarthur|ACT
+Macgregor|ACT
+Macquarie|ACT
+Mawson|ACT
+McKellar|ACT
+Melba|ACT
+Mitchell|ACT|2911
+Monash|ACT
+Narrabundah|ACT
+Ngunnawal|ACT
+Nicholls|ACT
+O'Connor|ACT
+Oxley|ACT
+Page|ACT
+Palmerston|ACT
+Pearce|ACT
+Phillip|ACT
+Red Hill|ACT
+Reid|ACT
+Richardson|ACT
+Rivett|ACT
+Scullin|ACT
+Spence|ACT
+Stirling|ACT
+Theodore|ACT
+Torrens|ACT
+Tuggeranong|ACT|2900
+Turner|ACT
+Wanniassa|ACT
+Waramanga|ACT
+Watson|ACT
+Weetangera|ACT
+Weston|ACT
+Woden|ACT|2606
+Wright|ACT
+Yarralumla|ACT
+Abbotsford|VIC
+Aberfeldie|VIC
+Aintree|VIC
+Airport West|VIC
+Albanvale|VIC
+Albert Park|VIC
+Albion|VIC
+Alexandra|VIC
+Alfredton|VIC
+Allansford|VIC
+Alphington|VIC
+Altona|VIC
+Altona Meadows|VIC
+Altona North|VIC
+Anglesea|VIC
+Apollo Bay|VIC
+Ararat|VIC
+Ardeer|VIC
+Armadale|VIC
+Armstrong Creek|VIC
+Ascot|VIC
+Ascot Vale|VIC
+Ashburton|VIC
+Ashwood|VIC
+Aspendale|VIC
+Aspendale Gardens|VIC
+Attwood|VIC
+Avenel|VIC
+Avoca|VIC
+Avondale Heights|VIC
+Bacchus Marsh|VIC
+Badger Creek|VIC
+Bairnsdale|VIC
+Balaclava|VIC
+Ballan|VIC
+Ballarat|VIC|3350
+Ballarat Central|VIC
+Ballarat East|VIC
+Ballarat North|VIC
+Balnarring|VIC
+Balwyn|VIC
+Balwyn North|VIC
+Bannockburn|VIC
+Baranduda|VIC
+Barwon Heads|VIC
+Baxter|VIC
+Bayswater|VIC
+Bayswater North|VIC
+Beaconsfield|VIC
+Beaconsfield Upper|VIC
+Beaufort|VIC
+Beaumaris|VIC
+Beechworth|VIC
+Belgrave|VIC
+Belgrave Heights|VIC
+Belgrave South|VIC
+Bell Park|VIC
+Bell Post Hill|VIC
+Bellfield|VIC
+Belmont|VIC
+Benalla|VIC
+Bendigo|VIC|3550
+Bendigo city centre|VIC
+Bentleigh|VIC
+Bentleigh East|VIC
+Berwick|VIC
+Beveridge|VIC
+Bittern|VIC
+Black Hill|VIC
+Black Rock|VIC
+Blackburn|VIC
+Blackburn North|VIC
+Blackburn South|VIC
+Blairgowrie|VIC
+Blind Bight|VIC
+Bonbeach|VIC
+Boronia|VIC
+Botanic Ridge|VIC
+Box Hill|VIC|3128
+Box Hill North|VIC
+Box Hill South|VIC
+Braybrook|VIC
+Briagolong|VIC
+Briar Hill|VIC
+Bright|VIC
+Brighton|VIC|3186
+Brighton East|VIC
+Broadford|VIC
+Broadmeadows|VIC
+Brookfield|VIC
+Brooklyn|VIC
+Brown Hill|VIC
+Brunswick|VIC|3056
+Brunswick East|VIC
+Brunswick West|VIC
+Bulleen|VIC
+Bundoora|VIC
+Buninyong|VIC
+Bunyip|VIC
+Burnside|VIC
+Burnside Heights|VIC
+Burwood|VIC
+Burwood East|VIC
+Cairnlea|VIC
+California Gully|VIC
+Camberwell|VIC|3124
+Campbellfield|VIC
+Campbells Creek|VIC
+Camperdown|VIC
+Canadian|VIC
+Canterbury|VIC
+Cape Woolamai|VIC
+Capel Sound|VIC
+Carisbrook|VIC
+Carlton|VIC|3053
+Carlton North|VIC
+Carnegie|VIC
+Caroline Springs|VIC
+Carrum|VIC
+Carrum Downs|VIC
+Casterton|VIC
+Castlemaine|VIC
+Caulfield|VIC
+Caulfield East|VIC
+Caulfield North|VIC
+Caulfield South|VIC
+Chadstone|VIC
+Charlton|VIC
+Chelsea|VIC
+Chelsea Heights|VIC
+Cheltenham|VIC
+Chewton|VIC
+Chiltern|VIC
+Chirnside Park|VIC
+Churchill|VIC
+Clarinda|VIC
+Clayton|VIC|3168
+Clayton South|VIC
+Clifton Hill|VIC
+Clifton Springs|VIC
+Clunes|VIC
+Clyde|VIC
+Clyde North|VIC
+Cobblebank|VIC
+Cobden|VIC
+Cobram|VIC
+Coburg|VIC|3058
+Coburg North|VIC
+Cockatoo|VIC
+Cohuna|VIC
+Colac|VIC
+Coldstream|VIC
+Collingwood|VIC|3066
+Coolaroo|VIC
+Corio|VIC
+Corryong|VIC
+Cowes|VIC
+Craigieburn|VIC
+Cranbourne|VIC
+Cranbourne East|VIC
+Cranbourne North|VIC
+Cranbourne South|VIC
+Cranbourne West|VIC
+Cremorne|VIC
+Creswick|VIC
+Crib Point|VIC
+Croydon|VIC
+Croydon Hills|VIC
+Croydon North|VIC
+Croydon South|VIC
+Dallas|VIC
+Dandenong|VIC|3175
+Dandenong North|VIC
+Darley|VIC
+Daylesford|VIC
+Deer Park|VIC
+Delacombe|VIC
+Delahey|VIC
+Dennington|VIC
+Derrimut|VIC
+Devon Meadows|VIC
+Diamond Creek|VIC
+Diggers Rest|VIC
+Dimboola|VIC
+Dingley Village|VIC
+Dinner Plain|VIC
+Docklands|VIC|3008
+Donald|VIC
+Doncaster|VIC|3108
+Doncaster East|VIC
+Donvale|VIC
+Doreen|VIC
+Doveton|VIC
+Dromana|VIC
+Drouin|VIC
+Drysdale|VIC
+Eagle Point|VIC
+Eaglehawk|VIC
+Eaglemont|VIC
+East Bairnsdale|VIC
+East Bendigo|VIC
+East Geelong|VIC
+East Melbourne|VIC
+Echuca|VIC
+Eden Park|VIC
+Edithvale|VIC
+Elliminyt|VIC
+Elsternwick|VIC
+Eltham|VIC
+Eltham North|VIC
+Elwood|VIC
+Emerald|VIC
+Endeavour Hills|VIC
+Epping|VIC
+Epsom|VIC
+Essendon|VIC|3040
+Essendon North|VIC
+Essendon West|VIC
+Eumemmerring|VIC
+Euroa|VIC
+Eynesbury|VIC
+Fairfield|VIC
+Falls Creek|VIC
+Fawkner|VIC
+Ferntree Gully|VIC
+Ferny Creek|VIC
+Fitzroy|VIC|3065
+Fitzroy North|VIC
+Flemington|VIC
+Flora Hill|VIC
+Footscray|VIC|3011
+Forest Hill|VIC
+Foster|VIC
+Frankston|VIC|3199
+Frankston East|VIC
+Frankston North|VIC
+Frankston South|VIC
+Garfield|VIC
+Geelong|VIC|3220
+Geelong West|VIC
+Geelong city centre|VIC
+Gembrook|VIC
+Gisborne|VIC
+Gladstone Park|VIC
+Glen Huntly|VIC
+Glen Iris|VIC
+Glen Waverley|VIC|3150
+Glenferrie|VIC
+Glengarry|VIC
+Glenroy|VIC
+Golden Point|VIC
+Golden Square|VIC
+Gordon|VIC
+Gowanbrae|VIC
+Greensborough|VIC
+Greenvale|VIC
+Grovedale|VIC
+Haddon|VIC
+Hadfield|VIC
+Hallam|VIC
+Hamilton|VIC
+Hamlyn Heights|VIC
+Hampton|VIC
+Hampton East|VIC
+Hampton Park|VIC
+Hastings|VIC
+Haven|VIC
+Hawthorn|VIC|3122
+Hawthorn East|VIC
+Hawthorn South|VIC
+Hazelwood North|VIC
+Healesville|VIC
+Heathcote|VIC
+Heatherton|VIC
+Heathmont|VIC
+Heidelberg|VIC
+Heidelberg Heights|VIC
+Heidelberg West|VIC
+Herne Hill|VIC
+Heyfield|VIC
+Heywood|VIC
+Highett|VIC
+Highton|VIC
+Hillside|VIC
+Hmas Cerberus|VIC
+Hoppers Crossing|VIC
+Horsham|VIC|3400
+Hotham Heights|VIC
+Hughesdale|VIC
+Huntingdale|VIC
+Huntly|VIC
+Hurstbridge|VIC
+Indented Head|VIC
+Inverleigh|VIC
+Inverloch|VIC
+Invermay Park|VIC
+Ironbark|VIC
+Irymple|VIC
+Ivanhoe|VIC
+Ivanhoe East|VIC
+Jacana|VIC
+Jackass Flat|VIC
+Jan Juc|VIC
+Jolimont|VIC
+Junction Village|VIC
+Junortoun|VIC
+Kalimna|VIC
+Kallista|VIC
+Kalorama|VIC
+Kangaroo Flat|VIC
+Kangaroo Ground|VIC
+Kealba|VIC
+Keilor|VIC
+Keilor Downs|VIC
+Keilor East|VIC
+Keilor Lodge|VIC
+Keilor Park|VIC
+Kennington|VIC
+Kensington|VIC
+Kerang|VIC
+Kew|VIC|3101
+Kew East|VIC
+Keysborough|VIC
+Kialla|VIC
+Kilmore|VIC
+Kilsyth|VIC
+Kilsyth South|VIC
+Kinglake|VIC
+Kinglake West|VIC
+Kings Park|VIC
+Kingsbury|VIC
+Kingsville|VIC
+Knoxfield|VIC
+Koo-Wee-Rup|VIC
+Koroit|VIC
+Korumburra|VIC
+Kurunjang|VIC
+Kyabram|VIC
+Kyneton|VIC
+Lake Gardens|VIC
+Lake Wendouree|VIC
+Lakes Entrance|VIC
+Lalor|VIC
+Lancefield|VIC
+Lang Lang|VIC
+Langwarrin|VIC
+Langwarrin South|VIC
+Lara|VIC
+Launching Place|VIC
+Laverton|VIC
+Leongatha|VIC
+Leopold|VIC
+Lilydale|VIC
+Little River|VIC
+Long Gully|VIC
+Longford|VIC
+Longwarry|VIC
+Lorne|VIC
+Lovely Banks|VIC
+Lower Plenty|VIC
+Lucknow|VIC
+Lynbrook|VIC
+Lysterfield|VIC
+Macedon|VIC
+Macleod|VIC
+Maddingley|VIC
+Maffra|VIC
+Maiden Gully|VIC
+Maidstone|VIC
+Maldon|VIC
+Mallacoota|VIC
+Malvern|VIC
+Malvern East|VIC
+Manifold Heights|VIC
+Mansfield|VIC
+Maribyrnong|VIC
+Marong|VIC
+Maryborough|VIC
+McCrae|VIC
+McKinnon|VIC
+Meadow Heights|VIC
+Melbourne|VIC|3000
+Melbourne City Centre|VIC
+Melton|VIC
+Melton South|VIC
+Melton West|VIC
+Mentone|VIC
+Merbein|VIC
+Mernda|VIC
+Metung|VIC
+Mickleham|VIC
+Middle Park|VIC
+Mildura|VIC|3500
+Mill Park|VIC
+Millgrove|VIC
+Miners Rest|VIC
+Mirboo North|VIC
+Mitcham|VIC
+Moe|VIC
+Monbulk|VIC
+Mont Albert|VIC
+Mont Albert North|VIC
+Montmorency|VIC
+Montrose|VIC
+Moolap|VIC
+Moonee Ponds|VIC|3039
+Moorabbin|VIC
+Moorooduc|VIC
+Mooroolbark|VIC
+Mooroopna|VIC
+Mordialloc|VIC
+Mornington|VIC
+Mortlake|VIC
+Morwell|VIC
+Mount Buller|VIC
+Mount Clear|VIC
+Mount Dandenong|VIC
+Mount Duneed|VIC
+Mount Eliza|VIC
+Mount Evelyn|VIC
+Mount Helen|VIC
+Mount Macedon|VIC
+Mount Martha|VIC
+Mount Pleasant|VIC
+Mount Waverley|VIC
+Mulgrave|VIC
+Murrumbeena|VIC
+Myrtleford|VIC
+Nagambie|VIC
+Narre Warren|VIC
+Narre Warren North|VIC
+Narre Warren South|VIC
+Nathalia|VIC
+Neerim South|VIC
+New Gisborne|VIC
+Newborough|VIC
+Newcomb|VIC
+Newington|VIC
+Newport|VIC
+Newtown|VIC
+Nhill|VIC
+Nichols Point|VIC
+Nicholson|VIC
+Niddrie|VIC
+Noble Park|VIC
+Noble Park North|VIC
+Norlane|VIC
+North Bendigo|VIC
+North Brighton|VIC
+North Geelong|VIC
+North Melbourne|VIC
+North Warrandyte|VIC
+North Wonthaggi|VIC
+Northcote|VIC|3070
+Notting Hill|VIC
+Numurkah|VIC
+Nunawading|VIC
+Nyora|VIC
+Oak Park|VIC
+Oakleigh|VIC
+Oakleigh East|VIC
+Oakleigh South|VIC
+Ocean Grove|VIC
+Officer|VIC
+Olinda|VIC
+Orbost|VIC
+Ormond|VIC
+Ouyen|VIC
+Pakenham|VIC
+Pakenham Upper|VIC
+Panton Hill|VIC
+Park Orchards|VIC
+Parkdale|VIC
+Parkville|VIC
+Pascoe Vale|VIC
+Pascoe Vale South|VIC
+Patterson Lakes|VIC
+Paynesville|VIC
+Pearcedale|VIC
+Phillip Island|VIC
+Plenty|VIC
+Plumpton|VIC
+Point Cook|VIC
+Point Lonsdale|VIC
+Porepunkah|VIC
+Port Fairy|VIC
+Port Melbourne|VIC
+Portarlington|VIC
+Portland|VIC
+Prahran|VIC|3181
+Preston|VIC|3072
+Princes Hill|VIC
+Puckapunyal|VIC
+Quarry Hill|VIC
+Queenscliff|VIC
+Ravenhall|VIC
+Red Cliffs|VIC
+Redan|VIC
+Research|VIC
+Reservoir|VIC
+Richmond|VIC|3121
+Ringwood|VIC|3134
+Ringwood East|VIC
+Ringwood North|VIC
+Ripponlea|VIC
+Robinvale|VIC
+Rochester|VIC
+Rockbank|VIC
+Romsey|VIC
+Rosanna|VIC
+Rosebud|VIC
+Rosebud West|VIC
+Rosedale|VIC
+Ross Creek|VIC
+Rowville|VIC
+Roxburgh Park|VIC
+Rushworth|VIC
+Rutherglen|VIC
+Rye|VIC
+Safety Beach|VIC
+Saint Albans|VIC
+Saint Andrews|VIC
+Saint Andrews Beach|VIC
+Saint Helena|VIC
+Saint Kilda|VIC
+Saint Leonards|VIC
+Sale|VIC|3850
+San Remo|VIC
+Sandhurst|VIC
+Sandringham|VIC
+Sassafras|VIC
+Scoresby|VIC
+Seabrook|VIC
+Seaford|VIC
+Seaholme|VIC
+Sebastopol|VIC
+Seddon|VIC
+Selby|VIC
+Seville|VIC
+Seymour|VIC
+Shepparton|VIC|3630
+Shepparton East|VIC
+Silvan|VIC
+Skye|VIC
+Smythes Creek|VIC
+Smythesdale|VIC
+Soldiers Hill|VIC
+Somers|VIC
+Somerville|VIC
+Sorrento|VIC
+South Kingsville|VIC
+South Melbourne|VIC
+South Morang|VIC
+South Yarra|VIC|3141
+Southbank|VIC|3006
+Spotswood|VIC
+Springvale|VIC
+Springvale South|VIC
+St Albans|VIC
+St Albans Park|VIC
+St Helena|VIC
+St Kilda|VIC|3182
+St Kilda East|VIC
+St Kilda West|VIC
+Stawell|VIC
+Stratford|VIC
+Strathdale|VIC
+Strathfieldsaye|VIC
+Strathmerton|VIC
+Strathmore|VIC
+Sunbury|VIC
+Sunshine|VIC
+Sunshine North|VIC
+Sunshine West|VIC
+Surrey Hills|VIC
+Swan Hill|VIC
+Sydenham|VIC
+Tallangatta|VIC
+Tarneit|VIC
+Tatura|VIC
+Taylors Hill|VIC
+Taylors Lakes|VIC
+Tecoma|VIC
+Teesdale|VIC
+Templestowe|VIC
+Templestowe Lower|VIC
+Terang|VIC
+The Basin|VIC
+The Patch|VIC
+Thomastown|VIC
+Thomson|VIC
+Thornbury|VIC
+Timboon|VIC
+Tongala|VIC
+Tooradin|VIC
+Toorak|VIC|3142
+Tootgarook|VIC
+Torquay|VIC
+Trafalgar|VIC
+Traralgon|VIC|3844
+Travancore|VIC
+Trentham|VIC
+Truganina|VIC
+Tullamarine|VIC
+Tyabb|VIC
+Upwey|VIC
+Vermont|VIC
+Vermont South|VIC
+Viewbank|VIC
+Wahgunyah|VIC
+Wallan|VIC
+Wallington|VIC
+Wandana Heights|VIC
+Wandin North|VIC
+Wandong|VIC
+Wangaratta|VIC
+Wantirna|VIC
+Wantirna South|VIC
+Warburton|VIC
+Warracknabeal|VIC
+Warragul|VIC
+Warrandyte|VIC
+Warranwood|VIC
+Warrnambool|VIC|3280
+Waterways|VIC
+Watsonia|VIC
+Watsonia North|VIC
+Wattleglen|VIC
+Waurn Ponds|VIC
+Weir Views|VIC
+Wendouree|VIC
+Werribee|VIC
+Werribee South|VIC
+Wesburn|VIC
+West Footscray|VIC
+West Melbourne|VIC
+West Wodonga|VIC
+Westmeadows|VIC
+Wheelers Hill|VIC
+White Hills|VIC
+Whittington|VIC
+Whittlesea|VIC
+Williams Landing|VIC
+Williamstown|VIC|3016
+Williamstown North|VIC
+Winchelsea|VIC
+Windsor|VIC
+Wodonga|VIC|3690
+Wollert|VIC
+Wonga Park|VIC
+Wonthaggi|VIC
+Woodend|VIC
+Woori Yallock|VIC
+Wurruk|VIC
+Wy Yung|VIC
+Wyndham Vale|VIC
+Yackandandah|VIC
+Yallambie|VIC
+Yallourn North|VIC
+Yarra Glen|VIC
+Yarra Junction|VIC
+Yarragon|VIC
+Yarram|VIC
+Yarrambat|VIC
+Yarraville|VIC
+Yarrawonga|VIC
+Yea|VIC
+Acacia Ridge|QLD
+Agnes Water|QLD
+Airlie Beach|QLD
+Aitkenvale|QLD
+Albany Creek|QLD
+Alderley|QLD
+Aldershot|QLD
+Alexandra Headland|QLD
+Alexandra Hills|QLD
+Algester|QLD
+Alice River|QLD
+Allenstown|QLD
+Alligator Creek|QLD
+Allora|QLD
+Alton Downs|QLD
+Andergrove|QLD
+Annandale|QLD
+Annerley|QLD
+Anstead|QLD
+Arana Hills|QLD
+Aroona|QLD
+Arundel|QLD
+Ascot|QLD
+Ashgrove|QLD
+Ashmore|QLD
+Aspley|QLD
+Atherton|QLD
+Auchenflower|QLD
+Augustine Heights|QLD
+Aurukun|QLD
+Avenell Heights|QLD
+Avoca|QLD
+Ayr|QLD
+Babinda|QLD
+Bahrs Scrub|QLD
+Bakers Creek|QLD
+Bald Hills|QLD
+Balmoral|QLD
+Bamaga|QLD
+Banksia Beach|QLD
+Banyo|QLD
+Barcaldine|QLD
+Bardon|QLD
+Barellan Point|QLD
+Bargara|QLD
+Barney Point|QLD
+Battery Hill|QLD
+Bayview Heights|QLD
+Beachmere|QLD
+Beaconsfield|QLD
+Beaudesert|QLD
+Beenleigh|QLD
+Beerwah|QLD
+Belgian Gardens|QLD
+Bellara|QLD
+Bellbird Park|QLD
+Bellbowrie|QLD
+Bellmere|QLD
+Belmont|QLD
+Benaraby|QLD
+Benowa|QLD
+Bentley Park|QLD
+Berrinba|QLD
+Berserker|QLD
+Biggera Waters|QLD
+Bilinga|QLD
+Biloela|QLD
+Birkdale|QLD
+Birtinya|QLD
+Black Mountain|QLD
+Black River|QLD
+Blackall|QLD
+Blacks Beach|QLD
+Blackwater|QLD
+Bli Bli|QLD
+Bluewater|QLD
+Bohle Plains|QLD
+Bokarina|QLD
+Bongaree|QLD
+Bonogin|QLD
+Booie|QLD
+Boonah|QLD
+Boondall|QLD
+Booral|QLD
+Booval|QLD
+Boronia Heights|QLD
+Bouldercombe|QLD
+Bowen|QLD
+Bowen Hills|QLD
+Boyne Island|QLD
+Bracken Ridge|QLD
+Brandon|QLD
+Branyan|QLD
+Brassall|QLD
+Bray Park|QLD
+Brendale|QLD
+Bridgeman Downs|QLD
+Brighton|QLD
+Brinsmead|QLD
+Brisbane|QLD|4000
+Broadbeach|QLD|4218
+Broadbeach Waters|QLD
+Brookfield|QLD
+Brookwater|QLD
+Bucasia|QLD
+Bucca|QLD
+Buccan|QLD
+Buddina|QLD
+Buderim|QLD
+Bulimba|QLD
+Bundaberg|QLD|4670
+Bundaberg East|QLD
+Bundaberg North|QLD
+Bundaberg South|QLD
+Bundaberg West|QLD
+Bundall|QLD
+Bundamba|QLD
+Bungalow|QLD
+Bunya|QLD
+Burbank|QLD
+Burdell|QLD
+Burleigh Heads|QLD|4220
+Burleigh Waters|QLD
+Burnett Heads|QLD
+Burnside|QLD
+Burpengary|QLD
+Burpengary East|QLD
+Burrum Heads|QLD
+Bushland Beach|QLD
+Cabarlah|QLD
+Caboolture|QLD
+Caboolture South|QLD
+Cairns|QLD|4870
+Cairns City|QLD
+Cairns North|QLD
+Calamvale|QLD
+Calliope|QLD
+Caloundra|QLD|4551
+Caloundra West|QLD
+Cambooya|QLD
+Camira|QLD
+Camp Hill|QLD
+Camp Mountain|QLD
+Cannon Hill|QLD
+Cannonvale|QLD
+Canungra|QLD
+Capalaba|QLD
+Capella|QLD
+Caravonica|QLD
+Carbrook|QLD
+Cardwell|QLD
+Carina Heights|QLD
+Carindale|QLD|4152
+Carrara|QLD
+Carseldine|QLD
+Cashmere|QLD
+Cedar Grove|QLD
+Cedar Vale|QLD
+Centenary Heights|QLD
+Chambers Flat|QLD
+Chandler|QLD
+Chapel Hill|QLD
+Charleville|QLD
+Charters Towers|QLD
+Charters Towers City|QLD
+Chatsworth|QLD
+Chelmer|QLD
+Cherbourg|QLD
+Chermside|QLD|4032
+Chermside West|QLD
+Childers|QLD
+Chinchilla|QLD
+Churchill|QLD
+Chuwar|QLD
+Clayfield|QLD
+Clear Island Waters|QLD
+Clermont|QLD
+Cleveland|QLD
+Clifton|QLD
+Clifton Beach|QLD
+Clinton|QLD
+Cloncurry|QLD
+Clontarf|QLD
+Coes Creek|QLD
+Collingwood Park|QLD
+Collinsville|QLD
+Condon|QLD
+Cooee Bay|QLD
+Cooktown|QLD
+Coolangatta|QLD|4225
+Cooloola Cove|QLD
+Coolum Beach|QLD
+Coombabah|QLD
+Coomera|QLD
+Coominya|QLD
+Coopers Plains|QLD
+Cooran|QLD
+Cooroibah|QLD
+Cooroy|QLD
+Coorparoo|QLD
+Coppabella|QLD
+Coral Cove|QLD
+Corinda|QLD
+Cornubia|QLD
+Cotswold Hills|QLD
+Craiglie|QLD
+Craignish|QLD
+Cranbrook|QLD
+Cranley|QLD
+Crestmead|QLD
+Crows Nest|QLD
+Cunnamulla|QLD
+Curra|QLD
+Currajong|QLD
+Currimundi|QLD
+Currumbin|QLD
+Currumbin Valley|QLD
+Currumbin Waters|QLD
+Daisy Hill|QLD
+Dakabin|QLD
+Dalby|QLD
+Darling Heights|QLD
+Darra|QLD
+Dayboro|QLD
+Deagon|QLD
+Deception Bay|QLD
+Deebing Heights|QLD
+Deeragun|QLD
+Delaneys Creek|QLD
+Depot Hill|QLD
+Dicky Beach|QLD
+Diddillibah|QLD
+Dimbulah|QLD
+Doolandella|QLD
+Doomadgee|QLD
+Doonan|QLD
+Douglas|QLD
+Drayton|QLD
+Drewvale|QLD
+Dundowran Beach|QLD
+Durack|QLD
+Dutton Park|QLD
+Dysart|QLD
+D’Aguilar|QLD
+Eagleby|QLD
+Earlville|QLD
+East Brisbane|QLD
+East Innisfail|QLD
+East Ipswich|QLD
+East Mackay|QLD
+East Toowoomba|QLD
+Eastern Heights|QLD
+Eatons Hill|QLD
+Edens Landing|QLD
+Edge Hill|QLD
+Edmonton|QLD
+Eight Mile Plains|QLD
+Eimeo|QLD
+Elanora|QLD
+Eli Waters|QLD
+Elimbah|QLD
+Ellen Grove|QLD
+Elliott Heads|QLD
+Emerald|QLD
+Emu Park|QLD
+Enoggera|QLD
+Esk|QLD
+Eudlo|QLD
+Eumundi|QLD
+Everton Hills|QLD
+Everton Park|QLD
+Fairfield|QLD
+Fernvale|QLD
+Ferny Grove|QLD
+Ferny Hills|QLD
+Fig Tree Pocket|QLD
+Fitzgibbon|QLD
+Flinders View|QLD
+Forest Glen|QLD
+Forest Lake|QLD
+Forestdale|QLD
+Fortitude Valley|QLD|4006
+Frenchville|QLD
+Freshwater|QLD
+Gailes|QLD
+Garbutt|QLD
+Gatton|QLD
+Gaven|QLD
+Gayndah|QLD
+Gaythorne|QLD
+Geebung|QLD
+Gilston|QLD
+Gin Gin|QLD
+Gladstone|QLD|4680
+Gladstone Central|QLD
+Glass House Mountains|QLD
+Glen Eden|QLD
+Gleneagle|QLD
+Glenella|QLD
+Glenvale|QLD
+Glenview|QLD
+Gold Coast|QLD
+Golden Beach|QLD
+Gooburrum|QLD
+Goodna|QLD
+Goondiwindi|QLD
+Gordon Park|QLD
+Gordonvale|QLD
+Gowrie Junction|QLD
+Gracemere|QLD
+Graceville|QLD
+Grange|QLD
+Granville|QLD
+Greenbank|QLD
+Greenslopes|QLD
+Griffin|QLD
+Gulliver|QLD
+Gumdale|QLD
+Gympie|QLD
+Hamilton|QLD
+Harlaxton|QLD
+Harristown|QLD
+Hatton Vale|QLD
+Hawthorne|QLD
+Hay Point|QLD
+Healy|QLD
+Heathwood|QLD
+Heatley|QLD
+Helensvale|QLD
+Helidon|QLD
+Hemmant|QLD
+Hendra|QLD
+Heritage Park|QLD
+Hermit Park|QLD
+Herston|QLD
+Hervey Bay|QLD|4655
+Highfields|QLD
+Highgate Hill|QLD
+Highland Park|QLD
+Highvale|QLD
+Hillcrest|QLD
+Hodgson Vale|QLD
+Holland Park|QLD
+Holland Park West|QLD
+Holloways Beach|QLD
+Hollywell|QLD
+Holmview|QLD
+Home Hill|QLD
+Hope Island|QLD
+Hope Vale|QLD
+Howard|QLD
+Hughenden|QLD
+Hyde Park|QLD
+Idalia|QLD
+Inala|QLD
+Indooroopilly|QLD|4068
+Ingham|QLD
+Innes Park|QLD
+Innisfail|QLD
+Innisfail Estate|QLD
+Ipswich|QLD|4305
+Jacobs Well|QLD
+Jamboree Heights|QLD
+Jandowae|QLD
+Jensen|QLD
+Jimboomba|QLD
+Jindalee|QLD
+Joyner|QLD
+Jubilee Pocket|QLD
+Julatten|QLD
+Kalbar|QLD
+Kalinga|QLD
+Kalkie|QLD
+Kallangur|QLD
+Kamerunga|QLD
+Kangaroo Point|QLD
+Kanimbla|QLD
+Karalee|QLD
+Karana Downs|QLD
+Karumba|QLD
+Kawana|QLD
+Kawungan|QLD
+Kearneys Spring|QLD
+Kedron|QLD
+Kelso|QLD
+Kelvin Grove|QLD
+Kenmore|QLD
+Kenmore Hills|QLD
+Kensington Grove|QLD
+Keperra|QLD
+Kepnock|QLD
+Kewarra Beach|QLD
+Kilcoy|QLD
+Kin Kora|QLD
+Kingaroy|QLD
+Kings Beach|QLD
+Kingsthorpe|QLD
+Kingston|QLD
+Kippa-Ring|QLD
+Kirkwood|QLD
+Kirwan|QLD
+Kleinton|QLD
+Koongal|QLD
+Kooralbyn|QLD
+Kuluin|QLD
+Kuraby|QLD
+Kuranda|QLD
+Kurwongbah|QLD
+Labrador|QLD
+Laidley|QLD
+Lake Macdonald|QLD
+Lammermoor|QLD
+Landsborough|QLD
+Lawnton|QLD
+Leichhardt|QLD
+Little Mountain|QLD
+Logan Central|QLD
+Logan City|QLD
+Logan Reserve|QLD
+Logan Village|QLD
+Loganholme|QLD
+Loganlea|QLD
+Longreach|QLD
+Lota|QLD
+Lower Beechmont|QLD
+Lowood|QLD
+Lutwyche|QLD
+Macgregor|QLD
+Machans Beach|QLD
+Mackay|QLD|4740
+Mackay City|QLD
+Mackenzie|QLD
+Macleay Island|QLD
+Magnetic Island|QLD
+Main Beach|QLD
+Malanda|QLD
+Maleny|QLD
+Mango Hill|QLD
+Manly West|QLD
+Manoora|QLD
+Mansfield|QLD
+Manunda|QLD
+Mapleton|QLD
+Marcoola|QLD
+Mareeba|QLD
+Margate|QLD
+Marian|QLD
+Maroochy River|QLD
+Maroochydore|QLD|4558
+Marsden|QLD
+Maryborough|QLD
+Maudsland|QLD
+McDowall|QLD
+Meadowbrook|QLD
+Menzies|QLD
+Meridan Plains|QLD
+Meringandan West|QLD
+Mermaid Beach|QLD
+Mermaid Waters|QLD
+Merrimac|QLD
+Miami|QLD
+Middle Park|QLD
+Middle Ridge|QLD
+Middlemount|QLD
+Miles|QLD
+Millbank|QLD
+Millmerran|QLD
+Millstream|QLD
+Milton|QLD
+Minden|QLD
+Minyama|QLD
+Mirani|QLD
+Mission Beach|QLD
+Mission River|QLD
+Mitchell|QLD
+Mitchelton|QLD
+Moffat Beach|QLD
+Moggill|QLD
+Molendinar|QLD
+Monkland|QLD
+Monto|QLD
+Montville|QLD
+Mooloolaba|QLD
+Moore Park Beach|QLD
+Mooroobool|QLD
+Moorooka|QLD
+Moranbah|QLD
+Morayfield|QLD
+Morningside|QLD
+Mornington|QLD
+Mossman|QLD
+Mount Coolum|QLD
+Mount Cotton|QLD
+Mount Crosby|QLD
+Mount Gravatt|QLD
+Mount Gravatt East|QLD
+Mount Isa|QLD|4825
+Mount Lofty|QLD
+Mount Louisa|QLD
+Mount Low|QLD
+Mount Morgan|QLD
+Mount Nathan|QLD
+Mount Ommaney|QLD
+Mount Pleasant|QLD
+Mount Sheridan|QLD
+Mount Warren Park|QLD
+Mountain Creek|QLD
+Moura|QLD
+Mudgeeraba|QLD
+Mudjimba|QLD
+Mulambin|QLD
+Mundingburra|QLD
+Mundoolun|QLD
+Mundubbera|QLD
+Munruben|QLD
+Murarrie|QLD
+Murgon|QLD
+Murray|QLD
+Murrumba Downs|QLD
+Nambour|QLD
+Nanango|QLD
+Nanum|QLD
+Narangba|QLD
+Nathan|QLD
+Nebo|QLD
+Nelly Bay|QLD
+Nerang|QLD
+New Auckland|QLD
+New Beith|QLD
+New Farm|QLD|4005
+Newmarket|QLD
+Newport|QLD
+Newstead|QLD
+Newtown|QLD
+Ninderry|QLD
+Ningi|QLD
+Nome|QLD
+Noosa Heads|QLD|4567
+Noosaville|QLD
+Norman Gardens|QLD
+Norman Park|QLD
+Normanton|QLD
+North Booval|QLD
+North Ipswich|QLD
+North Lakes|QLD
+North Mackay|QLD
+North Maclean|QLD
+North Toowoomba|QLD
+North Ward|QLD
+Norville|QLD
+Nudgee|QLD
+Nundah|QLD
+Oakey|QLD
+Oakhurst|QLD
+One Mile|QLD
+Oonoonba|QLD
+Ooralea|QLD
+Ormeau|QLD
+Ormeau Hills|QLD
+Ormiston|QLD
+Oxenford|QLD
+Oxley|QLD
+Pacific Paradise|QLD
+Pacific Pines|QLD
+Paddington|QLD|4064
+Palm Beach|QLD
+Palm Cove|QLD
+Palm Island|QLD
+Palmwoods|QLD
+Paradise Point|QLD
+Park Avenue|QLD
+Park Ridge|QLD
+Park Ridge South|QLD
+Parkhurst|QLD
+Parkinson|QLD
+Parkside|QLD
+Parkwood|QLD
+Parramatta Park|QLD
+Parrearra|QLD
+Peachester|QLD
+Pelican Waters|QLD
+Peregian Beach|QLD
+Peregian Springs|QLD
+Petrie|QLD
+Petrie Terrace|QLD
+Pialba|QLD
+Pie Creek|QLD
+Pimlico|QLD
+Pimpama|QLD
+Pine Mountain|QLD
+Pioneer|QLD
+Pittsworth|QLD
+Plainland|QLD
+Point Vernon|QLD
+Pomona|QLD
+Port Douglas|QLD
+Proserpine|QLD
+Pullenvale|QLD
+Queenton|QLD
+Raceview|QLD
+Railway Estate|QLD
+Rainbow Beach|QLD
+Rangeville|QLD
+Rangewood|QLD
+Rasmussen|QLD
+Ravenshoe|QLD
+Red Hill|QLD
+Redbank|QLD
+Redbank Plains|QLD
+Redcliffe|QLD|4020
+Redland Bay|QLD
+Redlynch|QLD
+Reedy Creek|QLD
+Regency Downs|QLD
+Regents Park|QLD
+Richlands|QLD
+River Heads|QLD
+Riverhills|QLD
+Riverview|QLD
+Robertson|QLD
+Robina|QLD
+Rochedale|QLD
+Rochedale South|QLD
+Rockhampton|QLD|4700
+Rocklea|QLD
+Rockville|QLD
+Roma|QLD
+Rosemount|QLD
+Rosenthal Heights|QLD
+Rosewood|QLD
+Rosslea|QLD
+Rothwell|QLD
+Runaway Bay|QLD
+Runcorn|QLD
+Rural View|QLD
+Russell Island|QLD
+Sadliers Crossing|QLD
+Salisbury|QLD
+Samford Valley|QLD
+Sandgate|QLD
+Sandstone Point|QLD
+Sarina|QLD
+Scarborough|QLD
+Scarness|QLD
+Seven Hills|QLD
+Seventeen Mile Rocks|QLD
+Shailer Park|QLD
+Sharon|QLD
+Sheldon|QLD
+Shorncliffe|QLD
+Silkstone|QLD
+Sinnamon Park|QLD
+Sippy Downs|QLD
+Slacks Creek|QLD
+Slade Point|QLD
+Soldiers Hill|QLD
+South Brisbane|QLD|4101
+South Gladstone|QLD
+South Kolan|QLD
+South Mackay|QLD
+South Maclean|QLD
+South Toowoomba|QLD
+South Townsville|QLD
+Southport|QLD|4215
+Southside|QLD
+Spring Hill|QLD|4000
+Springfield|QLD
+Springfield Lakes|QLD
+Springsure|QLD
+Springwood|QLD
+St George|QLD
+St Lucia|QLD|4067
+Stafford|QLD
+Stafford Heights|QLD
+Stanthorpe|QLD
+Strathpine|QLD
+Stretton|QLD
+Stuart|QLD
+Sun Valley|QLD
+Sunnybank|QLD
+Sunnybank Hills|QLD
+Sunrise Beach|QLD
+Sunset|QLD
+Sunshine Beach|QLD
+Sunshine Coast|QLD
+Surfers Paradise|QLD|4217
+Svensson Heights|QLD
+Taigum|QLD
+Tallai|QLD
+Tallebudgera|QLD
+Tallebudgera Valley|QLD
+Tamborine|QLD
+Tamborine Mountain|QLD
+Tanah Merah|QLD
+Tanawha|QLD
+Tannum Sands|QLD
+Tara|QLD
+Taranganba|QLD
+Taringa|QLD
+Tarragindi|QLD
+Telina|QLD
+Teneriffe|QLD
+Tewantin|QLD
+Thabeban|QLD
+The Gap|QLD
+The Gemfields|QLD
+The Range|QLD
+Thorneside|QLD
+Thornlands|QLD
+Thursday Island|QLD
+Tieri|QLD
+Tin Can Bay|QLD
+Tinana|QLD
+Tingalpa|QLD
+Tivoli|QLD
+Tolga|QLD
+Toogoolawah|QLD
+Toogoom|QLD
+Toowong|QLD|4066
+Toowoomba|QLD|4350
+Torquay|QLD
+Townsville|QLD|4810
+Townview|QLD
+Trinity Beach|QLD
+Trinity Park|QLD
+Trunding|QLD
+Tugun|QLD
+Tully|QLD
+Twin Waters|QLD
+Underwood|QLD
+Upper Caboolture|QLD
+Upper Coomera|QLD
+Upper Kedron|QLD
+Upper Mount Gravatt|QLD
+Urangan|QLD
+Urraween|QLD
+Varsity Lakes|QLD
+Victoria Point|QLD
+Vincent|QLD
+Virginia|QLD
+Wacol|QLD
+Wakerley|QLD
+Walkerston|QLD
+Walkervale|QLD
+Walloon|QLD
+Wamuran|QLD
+Wandal|QLD
+Wandoan|QLD
+Warana|QLD
+Warner|QLD
+Warwick|QLD
+Waterford West|QLD
+Wavell Heights|QLD
+Weipa|QLD
+Wellesley Islands|QLD
+Wellington Point|QLD
+West End|QLD|4101
+West Gladstone|QLD
+West Mackay|QLD
+West Rockhampton|QLD
+West Woombye|QLD
+Westbrook|QLD
+Westcourt|QLD
+Westlake|QLD
+White Rock|QLD
+Whitfield|QLD
+Whitsundays|QLD
+Willow Vale|QLD
+Willowbank|QLD
+Wilsonton|QLD
+Wilsonton Heights|QLD
+Wilston|QLD
+Windaroo|QLD
+Windsor|QLD
+Winston|QLD
+Winton|QLD
+Wishart|QLD
+Withcott|QLD
+Witta|QLD
+Wondai|QLD
+Wondunna|QLD
+Wongaling Beach|QLD
+Wongawallan|QLD
+Woodend|QLD
+Woodford|QLD
+Woodgate|QLD
+Woodridge|QLD
+Woody Point|QLD
+Woolloongabba|QLD
+Wooloowin|QLD
+Woombye|QLD
+Woorim|QLD
+Woree|QLD
+Worongary|QLD
+Wulguru|QLD
+Wulkuraka|QLD
+Wurtulla|QLD
+Wynnum|QLD
+Wynnum West|QLD
+Wyreema|QLD
+Yamanto|QLD
+Yandina|QLD
+Yaroomba|QLD
+Yarrabah|QLD
+Yarrabilba|QLD
+Yarraman|QLD
+Yatala|QLD
+Yeerongpilly|QLD
+Yeppoon|QLD
+Yeppoon city centre|QLD
+Yeronga|QLD
+Yorkeys Knob|QLD
+Yungaburra|QLD
+Zillmere|QLD
+Zilzie|QLD
+Aberfoyle Park|SA
+Adelaide|SA|5000
+Adelaide Hills|SA
+Adelaide city centre|SA
+Albert Park|SA
+Alberton|SA
+Aldgate|SA
+Aldinga Beach|SA
+Allenby Gardens|SA
+Andrews Farm|SA
+Angaston|SA
+Angle Park|SA
+Angle Vale|SA
+Ardrossan|SA
+Ascot Park|SA
+Ashford|SA
+Athelstone|SA
+Athol Park|SA
+Balaklava|SA
+Balhannah|SA
+Banksia Park|SA
+Barmera|SA
+Beaumont|SA
+Bedford Park|SA
+Belair|SA
+Bellevue Heights|SA
+Berri|SA
+Beulah Park|SA
+Beverley|SA
+Birkenhead|SA
+Black Forest|SA
+Blackwood|SA
+Blair Athol|SA
+Blakeview|SA
+Bordertown|SA
+Brahma Lodge|SA
+Bridgewater|SA
+Brighton|SA
+Broadview|SA
+Brompton|SA
+Brooklyn Park|SA
+Burra|SA
+Burton|SA
+Camden Park|SA
+Campbelltown|SA
+Ceduna|SA
+Cheltenham|SA
+Christie Downs|SA
+Christies Beach|SA
+Clapham|SA
+Clare|SA
+Clarence Gardens|SA
+Clarence Park|SA
+Clearview|SA
+Cleve|SA
+Clovelly Park|SA
+Collinswood|SA
+Colonel Light Gardens|SA
+Coober Pedy|SA
+Coromandel Valley|SA
+Cowandilla|SA
+Cowell|SA
+Crafers|SA
+Crafers West|SA
+Craigburn Farm|SA
+Craigmore|SA
+Croydon Park|SA
+Crystal Brook|SA
+Cumberland Park|SA
+Darlington|SA
+Davoren Park|SA
+Daw Park|SA
+Dernancourt|SA
+Dover Gardens|SA
+Dulwich|SA
+Echunga|SA
+Eden Hills|SA
+Edwardstown|SA
+Elizabeth Downs|SA
+Elizabeth East|SA
+Elizabeth Grove|SA
+Elizabeth North|SA
+Elizabeth Park|SA
+Elizabeth South|SA
+Elizabeth Vale|SA
+Encounter Bay|SA
+Enfield|SA
+Erindale|SA
+Ethelton|SA
+Evandale|SA
+Evanston|SA
+Evanston Gardens|SA
+Evanston Park|SA
+Everard Park|SA
+Exeter|SA
+Fairview Park|SA
+Felixstow|SA
+Ferryden Park|SA
+Findon|SA
+Firle|SA
+Flagstaff Hill|SA
+Flinders Park|SA
+Forestville|SA
+Freeling|SA
+Fulham|SA
+Fulham Gardens|SA
+Fullarton|SA
+Gawler|SA
+Gawler East|SA
+Gawler South|SA
+Gilberton|SA
+Gilles Plains|SA
+Glandore|SA
+Glen Osmond|SA
+Glenalta|SA
+Glenelg|SA|5045
+Glenelg East|SA
+Glenelg North|SA
+Glenelg South|SA
+Glengowrie|SA
+Glenside|SA
+Glenunga|SA
+Glynde|SA
+Golden Grove|SA
+Goodwood|SA
+Goolwa|SA
+Goolwa Beach|SA
+Grange|SA
+Greenacres|SA
+Greenock|SA
+Greenwith|SA
+Gulfview Heights|SA
+Hackham|SA
+Hackham West|SA
+Hahndorf|SA
+Hallett Cove|SA
+Hampstead Gardens|SA
+Happy Valley|SA
+Hawthorn|SA
+Hawthorndene|SA
+Hayborough|SA
+Hazelwood Park|SA
+Hectorville|SA
+Henley Beach|SA
+Henley Beach South|SA
+Hewett|SA
+Highbury|SA
+Highgate|SA
+Hillbank|SA
+Hillcrest|SA
+Hindmarsh Island|SA
+Holden Hill|SA
+Hope Valley|SA
+Hove|SA
+Huntfield Heights|SA
+Hyde Park|SA
+Ingle Farm|SA
+Jamestown|SA
+Joslin|SA
+Kadina|SA
+Kapunda|SA
+Keith|SA
+Kensington Gardens|SA
+Kensington Park|SA
+Kent Town|SA
+Kersbrook|SA
+Kidman Park|SA
+Kilburn|SA
+Kilkenny|SA
+Kingscote|SA
+Kingston|SA
+Kingston South East|SA
+Klemzig|SA
+Kurralta Park|SA
+Largs Bay|SA
+Largs North|SA
+Leabrook|SA
+Lewiston|SA
+Linden Park|SA
+Littlehampton|SA
+Lobethal|SA
+Lockleys|SA
+Lower Mitcham|SA
+Loxton|SA
+Lyndoch|SA
+Macclesfield|SA
+Magill|SA
+Maitland|SA
+Malvern|SA
+Manningham|SA
+Mannum|SA
+Mansfield Park|SA
+Marden|SA
+Marino|SA
+Marion|SA
+Marleston|SA
+Maslin Beach|SA
+Mawson Lakes|SA
+Maylands|SA
+McCracken|SA
+McLaren Flat|SA
+McLaren Vale|SA
+Meadows|SA
+Medindie|SA
+Melrose Park|SA
+Meningie|SA
+Middleton|SA
+Mile End|SA
+Millicent|SA
+Millswood|SA
+Minlaton|SA
+Mitcham|SA
+Mitchell Park|SA
+Moana|SA
+Modbury|SA
+Modbury Heights|SA
+Modbury North|SA
+Monash|SA
+Moonta Bay|SA
+Moorak|SA
+Morphett Vale|SA
+Morphettville|SA
+Mount Barker|SA
+Mount Compass|SA
+Mount Gambier|SA|5290
+Munno Para|SA
+Munno Para West|SA
+Murray Bridge|SA|5253
+Mylor|SA
+Myrtle Bank|SA
+Nailsworth|SA
+Nairne|SA
+Naracoorte|SA
+Netherby|SA
+Netley|SA
+Newton|SA
+Noarlunga Downs|SA
+Normanville|SA
+North Adelaide|SA|5006
+North Brighton|SA
+North Haven|SA
+North Plympton|SA
+Northfield|SA
+Northgate|SA
+Norwood|SA|5067
+Novar Gardens|SA
+Nuriootpa|SA
+O'Sullivan Beach|SA
+Oakden|SA
+Oaklands Park|SA
+Old Noarlunga|SA
+Old Reynella|SA
+One Tree Hill|SA
+Onkaparinga Hills|SA
+Osborne|SA
+Ottoway|SA
+O’Halloran Hill|SA
+Panorama|SA
+Para Hills|SA
+Para Hills West|SA
+Para Vista|SA
+Paradise|SA
+Parafield Gardens|SA
+Paralowie|SA
+Paringa|SA
+Park Holme|SA
+Parkside|SA
+Pasadena|SA
+Payneham|SA
+Payneham South|SA
+Pennington|SA
+Penola|SA
+Peterborough|SA
+Peterhead|SA
+Plympton|SA
+Plympton Park|SA
+Pooraka|SA
+Port Adelaide|SA|5015
+Port Augusta|SA|5700
+Port Augusta West|SA
+Port Broughton|SA
+Port Elliot|SA
+Port Lincoln|SA|5606
+Port Noarlunga|SA
+Port Noarlunga South|SA
+Port Pirie|SA
+Port Pirie South|SA
+Port Pirie West|SA
+Port Willunga|SA
+Prospect|SA|5082
+Queenstown|SA
+Quorn|SA
+Redwood Park|SA
+Renmark|SA
+Renmark West|SA
+Renown Park|SA
+Reynella|SA
+Reynella East|SA
+Richmond|SA
+Ridgehaven|SA
+Ridleyton|SA
+Risdon Park|SA
+Risdon Park South|SA
+Robe|SA
+Rose Park|SA
+Rosewater|SA
+Rosslyn Park|SA
+Rostrevor|SA
+Roxby Downs|SA
+Royal Park|SA
+Royston Park|SA
+Salisbury|SA
+Salisbury Downs|SA
+Salisbury East|SA
+Salisbury Heights|SA
+Salisbury North|SA
+Salisbury Park|SA
+Salisbury Plain|SA
+Seacliff|SA
+Seacliff Park|SA
+Seacombe Gardens|SA
+Seacombe Heights|SA
+Seaford|SA
+Seaford Meadows|SA
+Seaford Rise|SA
+Seaton|SA
+Seaview Downs|SA
+Sefton Park|SA
+Sellicks Beach|SA
+Semaphore|SA
+Semaphore Park|SA
+Semaphore South|SA
+Sheidow Park|SA
+Smithfield|SA
+Smithfield Plains|SA
+Solomontown|SA
+Somerton Park|SA
+South Brighton|SA
+South Plympton|SA
+St Agnes|SA
+St Clair|SA
+St Georges|SA
+St Marys|SA
+St Morris|SA
+St Peters|SA
+Stirling|SA
+Stirling North|SA
+Stonyfell|SA
+Strathalbyn|SA
+Streaky Bay|SA
+Sturt|SA
+Surrey Downs|SA
+Tailem Bend|SA
+Tanunda|SA
+Taperoo|SA
+Tea Tree Gully|SA
+Tennyson|SA
+Thebarton|SA
+Toorak Gardens|SA
+Torrens Park|SA
+Torrensville|SA
+Tranmere|SA
+Trinity Gardens|SA
+Trott Park|SA
+Tumby Bay|SA
+Tusmore|SA
+Two Wells|SA
+Underdale|SA
+Unley|SA|5061
+Unley Park|SA
+Vale Park|SA
+Valley View|SA
+Victor Harbor|SA|5211
+Virginia|SA
+Waikerie|SA
+Walkley Heights|SA
+Wallaroo|SA
+Warradale|SA
+Waterloo Corner|SA
+Wattle Park|SA
+Wayville|SA
+West Beach|SA
+West Croydon|SA
+West Hindmarsh|SA
+West Lakes|SA
+West Lakes Shore|SA
+Westbourne Park|SA
+Whyalla|SA|5600
+Whyalla Jenkins|SA
+Whyalla Norrie|SA
+Whyalla Playford|SA
+Whyalla Stuart|SA
+Willaston|SA
+Williamstown|SA
+Willunga|SA
+Windsor Gardens|SA
+Woodcroft|SA
+Woodside|SA
+Woodville|SA
+Woodville Gardens|SA
+Woodville North|SA
+Woodville Park|SA
+Woodville South|SA
+Woodville West|SA
+Wynn Vale|SA
+Abbey|WA
+Albany|WA|6330
+Albany city centre|WA
+Alexander Heights|WA
+Alfred Cove|WA
+Alkimos|WA
+Applecross|WA
+Ardross|WA
+Armadale|WA|6112
+Ascot|WA
+Ashby|WA
+Ashfield|WA
+Attadale|WA
+Atwell|WA
+Aubin Grove|WA
+Augusta|WA
+Australind|WA
+Aveley|WA
+Bakers Hill|WA
+Balcatta|WA
+Baldivis|WA
+Balga|WA
+Ballajura|WA
+Banjup|WA
+Banksia Grove|WA
+Bassendean|WA
+Bateman|WA
+Baynton|WA
+Bayonet Head|WA
+Bayswater|WA
+Beachlands|WA
+Beaconsfield|WA
+Beckenham|WA
+Bedford|WA
+Bedfordale|WA
+Beechboro|WA
+Beeliar|WA
+Beldon|WA
+Bellevue|WA
+Belmont|WA
+Bennett Springs|WA
+Bentley|WA
+Beresford|WA
+Bertram|WA
+Bibra Lake|WA
+Bicton|WA
+Bilingurr|WA
+Bindoon|WA
+Binningup|WA
+Bluff Point|WA
+Boddington|WA
+Booragoon|WA
+Boulder|WA
+Boyanup|WA
+Brabham|WA
+Brentwood|WA
+Bridgetown|WA
+Broadwater|WA
+Brockman|WA
+Brookdale|WA
+Broome|WA|6725
+Brunswick|WA
+Bulgarra|WA
+Bull Creek|WA
+Bullsbrook|WA
+Bunbury|WA|6230
+Burns Beach|WA
+Burswood|WA
+Busselton|WA|6280
+Busselton city centre|WA
+Butler|WA
+Byford|WA
+Cable Beach|WA
+Calista|WA
+Camillo|WA
+Canning Vale|WA
+Cannington|WA
+Capel|WA
+Cardup|WA
+Carey Park|WA
+Carine|WA
+Carlisle|WA
+Carnarvon|WA
+Carramar|WA
+Castletown|WA
+Casuarina|WA
+Caversham|WA
+Champion Lakes|WA
+Chidlow|WA
+Churchlands|WA
+City Beach|WA
+Claremont|WA|6010
+Clarkson|WA
+Cloverdale|WA
+Cockburn Central|WA
+College Grove|WA
+Collie|WA
+Como|WA
+Connolly|WA
+Coodanup|WA
+Coogee|WA
+Coolbellup|WA
+Coolbinia|WA
+Cooloongup|WA
+Cottesloe|WA|6011
+Cowaramup|WA
+Craigie|WA
+Crawley|WA
+Currambine|WA
+Daglish|WA
+Dalkeith|WA
+Dalyellup|WA
+Dampier|WA
+Dampier Peninsula|WA
+Darch|WA
+Darling Downs|WA
+Darlington|WA
+Dawesville|WA
+Dayton|WA
+Denmark|WA
+Derby|WA
+Dianella|WA
+Djugun|WA
+Dongara|WA
+Donnybrook|WA
+Doubleview|WA
+Drummond Cove|WA
+Dudley Park|WA
+Duncraig|WA
+Dunsborough|WA
+East Bunbury|WA
+East Cannington|WA
+East Carnarvon|WA
+East Fremantle|WA
+East Perth|WA|6004
+East Victoria Park|WA
+Eaton|WA
+Eden Hill|WA
+Edgewater|WA
+Eglinton|WA
+Ellenbrook|WA
+Embleton|WA
+Erskine|WA
+Esperance|WA
+Exmouth|WA
+Falcon|WA
+Ferndale|WA
+Fitzroy Crossing|WA
+Floreat|WA
+Forrestdale|WA
+Forrestfield|WA
+Fremantle|WA|6160
+Garden Island|WA
+Gelorup|WA
+Geographe|WA
+Geraldton|WA|6530
+Geraldton city centre|WA
+Gidgegannup|WA
+Girrawheen|WA
+Glen Forrest|WA
+Glen Iris|WA
+Glendalough|WA
+Gnangara|WA
+Golden Bay|WA
+Gooseberry Hill|WA
+Gosnells|WA
+Grasmere|WA
+Greenfields|WA
+Greenmount|WA
+Greenwood|WA
+Guildford|WA
+Gwelup|WA
+Halls Creek|WA
+Halls Head|WA
+Hamersley|WA
+Hamilton Hill|WA
+Hammond Park|WA
+Hannans|WA
+Harrisdale|WA
+Harvey|WA
+Heathridge|WA
+Helena Valley|WA
+Henley Brook|WA
+Herne Hill|WA
+High Wycombe|WA
+Highgate|WA
+Hilbert|WA
+Hillarys|WA
+Hillman|WA
+Hilton|WA
+Hocking|WA
+Huntingdale|WA
+Iluka|WA
+Inglewood|WA
+Innaloo|WA
+Jandakot|WA
+Jane Brook|WA
+Jarrahdale|WA
+Jindalee|WA
+Jolimont|WA
+Joondalup|WA|6027
+Joondanna|WA
+Jurien Bay|WA
+Kalamunda|WA
+Kalbarri|WA
+Kalgoorlie|WA|6430
+Kallaroo|WA
+Kambalda East|WA
+Kambalda West|WA
+Karawara|WA
+Kardinya|WA
+Karnup|WA
+Karratha|WA|6714
+Karrinyup|WA
+Katanning|WA
+Kelmscott|WA
+Kenwick|WA
+Kewdale|WA
+Kiara|WA
+Kingsley|WA
+Kinross|WA
+Kojonup|WA
+Koondoola|WA
+Kununurra|WA
+Kwinana|WA
+Lakelands|WA
+Lamington|WA
+Landsdale|WA
+Langford|WA
+Lathlain|WA
+Laverton|WA
+Leda|WA
+Leederville|WA
+Leeming|WA
+Leinster|WA
+Leonora|WA
+Leschenault|WA
+Lesmurdie|WA
+Little Grove|WA
+Lockridge|WA
+Lockyer|WA
+Lower Chittering|WA
+Lower King|WA
+Lynwood|WA
+Maddington|WA
+Madeley|WA
+Madora Bay|WA
+Maida Vale|WA
+Mandurah|WA|6210
+Mandurah city centre|WA
+Manjimup|WA
+Manning|WA
+Marangaroo|WA
+Margaret River|WA
+Marmion|WA
+Martin|WA
+Maylands|WA
+McKail|WA
+Meadow Springs|WA
+Medina|WA
+Melville|WA
+Menora|WA
+Merredin|WA
+Merriwa|WA
+Middle Swan|WA
+Midland|WA|6056
+Midvale|WA
+Millars Well|WA
+Millbridge|WA
+Mindarie|WA
+Mira Mar|WA
+Mirrabooka|WA
+Moora|WA
+Morley|WA
+Mosman Park|WA
+Mount Barker|WA
+Mount Claremont|WA
+Mount Hawthorn|WA
+Mount Helena|WA
+Mount Lawley|WA
+Mount Melville|WA
+Mount Nasura|WA
+Mount Pleasant|WA
+Mount Richon|WA
+Mount Tarcoola|WA
+Mullaloo|WA
+Mundaring|WA
+Mundijong|WA
+Munster|WA
+Murdoch|WA
+Myaree|WA
+Narrogin|WA
+Nedlands|WA|6009
+Newman|WA
+Nickol|WA
+Nollamara|WA
+Noranda|WA
+North Beach|WA
+North Coogee|WA
+North Fremantle|WA
+North Lake|WA
+North Perth|WA
+Northam|WA
+Northbridge|WA|6003
+Nullagine|WA
+Nulsen|WA
+Oakford|WA
+Ocean Reef|WA
+Onslow|WA
+Orana|WA
+Orelia|WA
+Osborne Park|WA
+Padbury|WA
+Palmyra|WA
+Paraburdoo|WA
+Parkerville|WA
+Parkwood|WA
+Parmelia|WA
+Pearce|WA
+Pearsall|WA
+Pegs Creek|WA
+Pemberton|WA
+Peppermint Grove|WA
+Perth|WA|6000
+Perth city centre|WA
+Piara Waters|WA
+Piccadilly|WA
+Pinjarra|WA
+Port Denison|WA
+Port Hedland|WA|6721
+Port Kennedy|WA
+Queens Park|WA
+Quindalup|WA
+Quinns Rocks|WA
+Rangeway|WA
+Ravenswood|WA
+Redcliffe|WA
+Ridgewood|WA
+Riverton|WA
+Rivervale|WA
+Rockingham|WA|6168
+Rockingham city centre|WA
+Roebuck|WA
+Roleystone|WA
+Rossmoyne|WA
+Safety Bay|WA
+Salter Point|WA
+Samson|WA
+Scarborough|WA|6019
+Secret Harbour|WA
+Serpentine|WA
+Seville Grove|WA
+Shelley|WA
+Shenton Park|WA
+Shoalwater|WA
+Silver Sands|WA
+Sinagra|WA
+Singleton|WA
+Somerville|WA
+Sorrento|WA
+South Bunbury|WA
+South Carnarvon|WA
+South Fremantle|WA
+South Guildford|WA
+South Hedland|WA
+South Kalgoorlie|WA
+South Lake|WA
+South Perth|WA
+South Yunderup|WA
+Southern River|WA
+Spalding|WA
+Spearwood|WA
+Spencer Park|WA
+St George Ranges|WA
+St James|WA
+Stirling|WA
+Stoneville|WA
+Strathalbyn|WA
+Stratton|WA
+Subiaco|WA|6008
+Success|WA
+Sunset Beach|WA
+Swan View|WA
+Swanbourne|WA
+Tapping|WA
+Tarcoola Beach|WA
+The Vines|WA
+Thornlie|WA
+Tom Price|WA
+Toodyay|WA
+Trigg|WA
+Tuart Hill|WA
+Two Rocks|WA
+Usher|WA
+Utakarra|WA
+Vasse|WA
+Victoria Park|WA
+Viveash|WA
+Waggrakine|WA
+Wagin|WA
+Waikiki|WA
+Wandi|WA
+Wandina|WA
+Wannanup|WA
+Wanneroo|WA
+Warnbro|WA
+Waroona|WA
+Warwick|WA
+Waterford|WA
+Watermans Bay|WA
+Wattle Grove|WA
+Wellard|WA
+Wembley|WA
+Wembley Downs|WA
+West Beach|WA
+West Busselton|WA
+West Lamington|WA
+West Leederville|WA
+West Perth|WA|6005
+Westminster|WA
+White Gum Valley|WA
+Wickham|WA
+Willagee|WA
+Willetton|WA
+Wilson|WA
+Winthrop|WA
+Withers|WA
+Wonthella|WA
+Woodbridge|WA
+Woodvale|WA
+Wooroloo|WA
+Woorree|WA
+Wundowie|WA
+Yakamia|WA
+Yallingup|WA
+Yalyalup|WA
+Yanchep|WA
+Yangebup|WA
+Yokine|WA
+York|WA
+Acton Park|TAS
+Austins Ferry|TAS
+Bagdad|TAS
+Battery Point|TAS|7004
+Beaconsfield|TAS
+Beauty Point|TAS
+Bellerive|TAS
+Berriedale|TAS
+Blackmans Bay|TAS
+Blackstone Heights|TAS
+Bridgewater|TAS
+Bridport|TAS
+Brighton|TAS
+Burnie|TAS|7320
+Cambridge|TAS
+Chigwell|TAS
+Claremont|TAS
+Clarendon Vale|TAS
+Cressy|TAS
+Currie|TAS
+Cygnet|TAS
+Deloraine|TAS
+Devonport|TAS|7310
+Dodges Ferry|TAS
+Dynnyrne|TAS
+East Devonport|TAS
+East Launceston|TAS
+Evandale|TAS
+Franklin|TAS
+Gagebrook|TAS
+Geeveston|TAS
+Geilston Bay|TAS
+George Town|TAS
+Glenorchy|TAS|7010
+Goodwood|TAS
+Granton|TAS
+Hadspen|TAS
+Herdsmans Cove|TAS
+Hillcrest|TAS
+Hobart|TAS|7000
+Hobart city centre|TAS
+Howrah|TAS
+Huonville|TAS
+Invermay|TAS
+Kings Meadows|TAS
+Kingston|TAS|7050
+Kingston Beach|TAS
+Latrobe|TAS
+Lauderdale|TAS
+Launceston|TAS|7250
+Launceston city centre|TAS
+Legana|TAS
+Lenah Valley|TAS
+Lindisfarne|TAS
+Longford|TAS
+Lutana|TAS
+Margate|TAS
+Mayfield|TAS
+Miandetta|TAS
+Midway Point|TAS
+Montello|TAS
+Montrose|TAS
+Moonah|TAS
+Mornington|TAS
+Mount Nelson|TAS
+Mount Stuart|TAS
+Mowbray|TAS
+New Norfolk|TAS
+New Town|TAS
+Newnham|TAS
+Newstead|TAS
+North Hobart|TAS
+Norwood|TAS
+Oakdowns|TAS
+Old Beach|TAS
+Park Grove|TAS
+Penguin|TAS
+Perth|TAS
+Port Sorell|TAS
+Prospect Vale|TAS
+Queenstown|TAS
+Ranelagh|TAS
+Ravenswood|TAS
+Richmond|TAS
+Risdon Vale|TAS
+Riverside|TAS
+Rocherlea|TAS
+Rokeby|TAS
+Romaine|TAS
+Rosetta|TAS
+Saint Leonards|TAS
+Sandford|TAS
+Sandy Bay|TAS|7005
+Scottsdale|TAS
+Seven Mile Beach|TAS
+Shearwater|TAS
+Sheffield|TAS
+Shorewell Park|TAS
+Smithton|TAS
+Snug|TAS
+Somerset|TAS
+Sorell|TAS
+South Hobart|TAS
+South Launceston|TAS
+Spreyton|TAS
+St Helens|TAS
+Summerhill|TAS
+Taroona|TAS
+Tranmere|TAS
+Trevallyn|TAS
+Turners Beach|TAS
+Ulverstone|TAS
+Upper Burnie|TAS
+Warrane|TAS
+Waverley|TAS
+West Hobart|TAS
+West Launceston|TAS
+West Moonah|TAS
+West Ulverstone|TAS
+Westbury|TAS
+Wynyard|TAS
+Youngtown|TAS
+Alawa|NT
+Alice Springs|NT|0870
+Alyangula|NT
+Anula|NT
+Araluen|NT
+Bakewell|NT
+Bellamack|NT
+Berrimah|NT
+Braitling|NT
+Brinkin|NT
+Casuarina|NT|0810
+Coconut Grove|NT
+Cossack|NT
+Darwin|NT|0800
+Desert Springs|NT
+Driver|NT
+Durack|NT
+East Side|NT
+Fannie Bay|NT
+Farrar|NT
+Galiwinku|NT
+Gillen|NT
+Girraween|NT
+Gray|NT
+Gunbalanya|NT
+Gunn|NT
+Herbert|NT
+Holtze|NT
+Howard Springs|NT
+Humpty Doo|NT
+Jabiru|NT
+Jingili|NT
+Johnston|NT
+Karama|NT
+Katherine|NT|0850
+Katherine East|NT
+Katherine South|NT
+Larapinta|NT
+Larrakeyah|NT
+Leanyer|NT
+Ludmilla|NT
+Lyons|NT
+Malak|NT
+Maningrida|NT
+Marrara|NT
+Milingimbi|NT
+Millner|NT
+Moil|NT
+Moulden|NT
+Muirhead|NT
+Nakara|NT
+Ngukurr|NT
+Nhulunbuy|NT
+Nightcliff|NT
+Palmerston|NT|0830
+Parap|NT
+Rapid Creek|NT
+Rosebery|NT
+Ross|NT
+Sadadeen|NT
+Stuart Park|NT
+Tennant Creek|NT|0860
+The Gap|NT
+Tiwi|NT
+Virginia|NT
+Wadeye|NT
+Wagaman|NT
+Wanguri|NT
+Woodroffe|NT
+Wulagi|NT
+Wurrumiyanga|NT
+Yulara|NT
+Zuccoli|NT
+`;
@@ -0,0 +1,109 @@
+import { SUBURBS } from './gazetteer-data';
+import { STREET_TYPES } from './address';
+import { toState } from './validators';
+import type { AUState } from './validators';
+import type { Entity } from './types';
+
+export interface Locality {
+  suburb: string;
+  state: AUState;
+  postcode?: string;      // only where the gazetteer records one
+}
+
+// Australia Post postcode ranges per state (delivery and PO box ranges)
+const POSTCODE_RANGES: Record<AUState, Array<[number, number]>> = {
+  NSW: [[1000, 2599], [2619, 2899], [2921, 2999]],
+  ACT: [[200, 299], [2600, 2618], [2900, 2920]],
+  VIC: [[3000, 3999], [8000, 8999]],
+  QLD: [[4000, 4999], [9000, 9999]],
+  SA:  [[5000, 5999]],
+  WA:  [[6000, 6797], [6800, 6999]],
+  TAS: [[7000, 7999]],
+  NT:  [[800, 999]],
+};
+
+const BY_NAME = new Map<string, Locality[]>();
+for (const line of SUBURBS.trim().split('\n')) {
+  const [suburb, state, postcode] = line.split('|');
+  const key = suburb.toLowerCase();
+  BY_NAME.set(key, [...(BY_NAME.get(key) ?? []), { suburb, state: state as AUState, postcode }]);
+}
+
+export const lookupSuburb = (name: string): Locality[] =>
+  BY_NAME.get(name.trim().replace(/\s+/g, ' ').toLowerCase()) ?? [];
+
+export const postcodeState = (postcode: string): AUState | undefined => {
+  if (!/^\d{4}$/.test(postcode)) return undefined;
+  const n = Number(postcode);
+  return (Object.keys(POSTCODE_RANGES) as AUState[])
+    .find(s => POSTCODE_RANGES[s].some(([lo, hi]) => n >= lo && n <= hi));
+};
+
+export const isValidPostcodeForState = (postcode: string, state: AUState): boolean =>
+  POSTCODE_RANGES[state].some(([lo, hi]) => { const n = Number(postcode); return n >= lo && n <= hi; });
+
+/**
+ * A suburb/state/postcode triple is valid when the postcode falls in the state's
+ * ranges and, if the suburb is in the gazetteer, it is listed for that state with
+ * that postcode (or with no postcode recorded).
+ */
+export function isValidLocality(suburb: string, state: AUState, postcode: string): boolean {
+  if (!isValidPostcodeForState(postcode, state)) return false;
+  const known = lookupSuburb(suburb);
+  return known.length === 0 || known.some(l => l.state === state && (!l.postcode || l.postcode === postcode));
+}
+
+// Longest trailing run of words that names a known suburb ("Address Surry Hills" → "Surry Hills")
+function knownSuffix(words: string[]): number {
+  for (let i = 0; i < words.length; i++)
+    if (lookupSuburb(words.slice(i).join(' ')).length) return i;
+  return -1;
+}
+
+// Longest leading run of words that names a known suburb ("Ballarat East" → "Ballarat")
+function knownPrefix(words: string[]): number {
+  for (let n = words.length; n > 0; n--)
+    if (lookupSuburb(words.slice(0, n).join(' ')).length) return n;
+  return 0;
+}
+
+const WORDS = "[A-Z][A-Za-z'’-]+(?:\\s+[A-Z][A-Za-z'’-]+){0,2}";
+const STATES = 'NSW|VIC|Vic|QLD|Qld|WA|SA|TAS|Tas|ACT|NT';
+const LOCALITY_RX = new RegExp(`\\b(${WORDS})\\s*,?\\s+(${STATES})\\s*,?\\s+(\\d{4})\\b`, 'g');
+// Bare suburb mentions need a residence cue and must be in the gazetteer
+const RESIDENCE_RX = new RegExp(`\\b(?:lives?|living|resides?|residing|based|located|moved|relocated)\\s+(?:in\\s+|to\\s+|at\\s+)?(${WORDS})`, 'g');
+// "based in Katherine Street" names a street, not the suburb
+const STREET_AFTER = new RegExp(`^\\s+(?:${STREET_TYPES.join('|')})\\b`);
+// A state capital alone is too broad to identify anyone ("lives in Sydney")
+const CAPITALS = new Set(['sydney', 'melbourne', 'brisbane', 'perth', 'adelaide', 'hobart', 'darwin', 'canberra']);
+
+/** "Marrickville NSW 2204" triples (postcode/state validated) and cued "lives in Ballarat" mentions. */
+export function detectLocations(text: string): Entity[] {
+  const out: Entity[] = [];
+
+  LOCALITY_RX.lastIndex = 0; let m: RegExpExecArray | null;
+  while ((m = LOCALITY_RX.exec(text))) {
+    const state = toState(m[2].toUpperCase());
+    if (!state) continue;
+    const words = m[1].split(/\s+/);
+    const from = knownSuffix(words);
+    const suburb = from >= 0 ? words.slice(from).join(' ') : words[words.length - 1];
+    if (!isValidLocality(suburb, state, m[3])) continue;
+    const start = m.index + m[0].indexOf(suburb, m[1].length - suburb.length);
+    out.push({ text: text.slice(start, m.index + m[0].length), label: 'ADDRESS', start, end: m.index + m[0].length, source: 'regex' });
+  }
+
+  RESIDENCE_RX.lastIndex = 0;
+  while ((m = RESIDENCE_RX.exec(text))) {
+    const words = m[1].split(/\s+/);
+    const n = knownPrefix(words);
+    if (!n) continue;
+    const suburb = words.slice(0, n).join(' ');
+    const start = m.index + m[0].lastIndexOf(m[1]);
+    if (CAPITALS.has(suburb.toLowerCase()) || STREET_AFTER.test(text.slice(start + suburb.length))) continue;
+    if (out.some(o => start >= o.start && start < o.end)) continue;
+    out.push({ text: suburb, label: 'ADDRESS', start, end: start + suburb.length, source: 'regex' });
+  }
+
+  return out;
+}
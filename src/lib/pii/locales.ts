@@ -0,0 +1,142 @@
+import { RX } from './regex-au';
+import { RX_NZ } from './regex-nz';
+import { RX_UK } from './regex-uk';
+import { RX_US } from './regex-us';
+import { detectLocations } from './gazetteer';
+import {
+  isValidABN, isValidTFN, isValidACN, isValidMedicare, isValidBSB,
+  isValidCRN, isValidDVA, isValidIHI, isValidUSI, isValidSPIN, isValidMemberNumber,
+  isValidHIN, isValidSRN, isValidLicence, isValidLicenceCard, isValidPassport, toState,
+  isValidIRD, isValidNHI, isValidNINO, isValidNHS, isValidSSN, isValidITIN,
+} from './validators';
+import { loadJSON, saveJSON } from './storage';
+import type { Entity, Label } from './types';
+
+export type LocaleId = 'AU' | 'NZ' | 'UK' | 'US';
+
+/**
+ * One structured pattern. Plain rules take the whole match as the value;
+ * cued rules carry the cue in the regex and group 1 (which ends the match) is the value.
+ */
+export interface PatternRule {
+  re: RegExp;
+  label: Label | ((m: RegExpExecArray) => Label);
+  validate?: (value: string, m: RegExpExecArray, text: string) => boolean;
+  cued?: boolean;
+  score?: number;   // only for rules less certain than a checksum (user-defined rules)
+}
+
+export interface LocalePack {
+  id: LocaleId;
+  name: string;
+  labels: Label[];
+  rules: PatternRule[];
+  detect?: (text: string) => Entity[];   // detectors that aren't a single pattern (grammars, gazetteers)
+}
+
+// Licences are validated against the issuing state's format when one is named nearby
+const nearbyState = (m: RegExpExecArray, text: string) => {
+  const from = Math.max(0, m.index - 60), to = m.index + m[0].length + 60;
+  const around = text.slice(from, to);
+  const mid = m.index - from + m[0].length / 2;
+  let best: RegExpExecArray | null = null;
+  const re = new RegExp(RX.STATE.source, 'g'); let s: RegExpExecArray | null;
+  while ((s = re.exec(around)))
+    if (!best || Math.abs(s.index - mid) < Math.abs(best.index - mid)) best = s;
+  return best ? toState(best[0]) : undefined;
+};
+const licenceContext = (m: RegExpExecArray, text: string) =>
+  /\b(?:Licen[cs]e|DL)\b/i.test(text.slice(Math.max(0, m.index - 80), m.index));
+
+const AU: LocalePack = {
+  id: 'AU',
+  name: 'Australia',
+  labels: [
+    'ABN', 'TFN', 'ACN', 'ARBN', 'ARSN', 'MEDICARE', 'AFSL', 'AR', 'CRN', 'DVA', 'IHI',
+    'USI', 'SPIN', 'SUPER_MEMBER', 'HIN', 'SRN', 'INVESTMENT_ACCT', 'BSB', 'BANK_ACCT',
+    'DRIVERS_LICENCE', 'LICENCE_CARD', 'PASSPORT', 'PHONE', 'ADDRESS',
+  ],
+  rules: [
+    { re: RX.ABN,      label: 'ABN',      validate: isValidABN },
+    { re: RX.TFN,      label: 'TFN',      validate: isValidTFN },
+    { re: RX.MEDICARE, label: 'MEDICARE', validate: isValidMedicare },
+    { re: RX.IHI,      label: 'IHI',      validate: isValidIHI },
+    { re: RX.CRN,      label: 'CRN',      cued: true, validate: isValidCRN },
+    { re: RX.BSB,      label: 'BSB',      validate: isValidBSB },
+    { re: RX.BSB_CUE,   label: 'BSB',       cued: true },
+    // Not a bare BSB, nor a year range ("Account 2024-2025 review")
+    { re: RX.BANK_ACCT, label: 'BANK_ACCT', cued: true, validate: s => !/^\d{3}-\d{3}$/.test(s) && !/^(?:19|20)\d\d\s*-\s*(?:19|20)\d\d$/.test(s) },
+
+    // Superannuation rollover/consolidation identifiers
+    { re: RX.USI,          label: 'USI',          cued: true, validate: isValidUSI },
+    { re: RX.SPIN,         label: 'SPIN',         cued: true, validate: isValidSPIN },
+    { re: RX.SUPER_MEMBER, label: 'SUPER_MEMBER', cued: true, validate: isValidMemberNumber },
+
+    // Share registry and investment platform identifiers (cue optional for HIN/SRN: the prefix is distinctive)
+    { re: RX.HIN_SRN,         label: 'HIN',             cued: true, validate: isValidHIN },
+    { re: RX.HIN_SRN,         label: 'SRN',             cued: true, validate: isValidSRN },
+    { re: RX.INVESTMENT_ACCT, label: 'INVESTMENT_ACCT', cued: true, validate: isValidMemberNumber },
+
+    { re: RX.DRIVERS_LICENCE, label: 'DRIVERS_LICENCE', cued: true,
+      validate: (s, m, text) => isValidLicence(s, nearbyState(m, text)) },
+    { re: RX.LICENCE_CARD,    label: 'LICENCE_CARD',    cued: true,
+      validate: (s, m, text) => licenceContext(m, text) && isValidLicenceCard(s, nearbyState(m, text)) },
+    { re: RX.PASSPORT,        label: 'PASSPORT',        cued: true, validate: isValidPassport },
+    { re: RX.DVA,             label: 'DVA',             cued: true, validate: isValidDVA },
+
+    // AFSL/AR: only when label cue present
+    { re: RX.AFSL_AR, label: m => /AFSL/i.test(m[0]) ? 'AFSL' : 'AR', cued: true },
+    // ACN/ARBN/ARSN: same 9-digit shape as a TFN, so only with a label cue
+    { re: RX.ACN_ARBN_ARSN, cued: true, validate: isValidACN,
+      label: m => /ARBN/i.test(m[0]) ? 'ARBN' : /ARSN/i.test(m[0]) ? 'ARSN' : 'ACN' },
+
+    { re: RX.PHONE,   label: 'PHONE' },
+    { re: RX.ADDRESS, label: 'ADDRESS' },
+  ],
+  detect: detectLocations,
+};
+
+const NZ: LocalePack = {
+  id: 'NZ',
+  name: 'New Zealand',
+  labels: ['IRD', 'NHI'],
+  rules: [
+    { re: RX_NZ.IRD, label: 'IRD', cued: true, validate: isValidIRD },
+    { re: RX_NZ.NHI, label: 'NHI', validate: isValidNHI },
+  ],
+};
+
+const UK: LocalePack = {
+  id: 'UK',
+  name: 'United Kingdom',
+  labels: ['NINO', 'NHS'],
+  rules: [
+    { re: RX_UK.NINO, label: 'NINO', validate: isValidNINO },
+    { re: RX_UK.NHS,  label: 'NHS',  cued: true, validate: isValidNHS },
+  ],
+};
+
+const US: LocalePack = {
+  id: 'US',
+  name: 'United States',
+  labels: ['SSN', 'ITIN'],
+  rules: [
+    { re: RX_US.SSN_ITIN,     label: 'SSN',  validate: isValidSSN },
+    { re: RX_US.SSN_ITIN,     label: 'ITIN', validate: isValidITIN },
+    { re: RX_US.SSN_ITIN_CUE, label: 'SSN',  cued: true, validate: isValidSSN },
+    { re: RX_US.SSN_ITIN_CUE, label: 'ITIN', cued: true, validate: isValidITIN },
+  ],
+};
+
+export const LOCALE_PACKS: Record<LocaleId, LocalePack> = { AU, NZ, UK, US };
+
+export const DEFAULT_LOCALES: LocaleId[] = ['AU'];
+
+const STORAGE_KEY = 'pii_active_locales';
+
+export const loadActiveLocales = (): LocaleId[] => loadJSON(STORAGE_KEY, DEFAULT_LOCALES, json => {
+  const stored = JSON.parse(json);
+  return Array.isArray(stored) ? stored.filter((id): id is LocaleId => id in LOCALE_PACKS) : DEFAULT_LOCALES;
+});
+
+export const saveActiveLocales = (ids: LocaleId[]) => saveJSON(STORAGE_KEY, ids);
@@ -0,0 +1,127 @@
+// Formal given names and their common diminutives (English-speaking usage).
+// A name may sit in several families: "Alex" is short for Alexander and Alexandra.
+const NICKNAMES: Record<string, string[]> = {
+  Abigail: ['Abby', 'Abbie', 'Gail'],
+  Albert: ['Al', 'Bert', 'Bertie'],
+  Alexander: ['Alex', 'Alec', 'Sandy', 'Xander', 'Lex'],
+  Alexandra: ['Alex', 'Alexa', 'Lexi', 'Sandra', 'Sandy'],
+  Alfred: ['Alf', 'Alfie', 'Fred'],
+  Amanda: ['Mandy', 'Manda'],
+  Andrew: ['Andy', 'Drew'],
+  Angela: ['Angie'],
+  Anthony: ['Tony', 'Ant'],
+  Arthur: ['Art', 'Artie'],
+  Barbara: ['Barb', 'Barbie', 'Babs'],
+  Benjamin: ['Ben', 'Benny', 'Benji'],
+  Bernard: ['Bernie'],
+  Beverley: ['Bev'],
+  Bradley: ['Brad'],
+  Catherine: ['Cathy', 'Cath', 'Kate', 'Katie', 'Kathy'],
+  Charles: ['Charlie', 'Chuck', 'Chas'],
+  Charlotte: ['Charlie', 'Lottie', 'Lotte'],
+  Christina: ['Chris', 'Chrissy', 'Tina'],
+  Christine: ['Chris', 'Chrissy', 'Tina'],
+  Christopher: ['Chris', 'Topher', 'Kit'],
+  Cynthia: ['Cindy'],
+  Daniel: ['Dan', 'Danny'],
+  David: ['Dave', 'Davey', 'Davo'],
+  Deborah: ['Deb', 'Debbie', 'Debra'],
+  Dominic: ['Dom'],
+  Donald: ['Don', 'Donny'],
+  Dorothy: ['Dot', 'Dottie', 'Dolly'],
+  Douglas: ['Doug'],
+  Edward: ['Ed', 'Eddie', 'Ted', 'Teddy', 'Ned'],
+  Elizabeth: ['Liz', 'Lizzie', 'Beth', 'Betty', 'Eliza', 'Libby', 'Bess'],
+  Emily: ['Em', 'Emmy'],
+  Eugene: ['Gene'],
+  Frances: ['Fran', 'Frankie'],
+  Francis: ['Frank', 'Frankie'],
+  Frederick: ['Fred', 'Freddie', 'Freddy'],
+  Gabriel: ['Gabe'],
+  Gabrielle: ['Gabby', 'Gabi'],
+  Geoffrey: ['Geoff'],
+  Gerald: ['Gerry', 'Jerry'],
+  Gregory: ['Greg'],
+  Harold: ['Harry', 'Hal'],
+  Henry: ['Harry', 'Hank', 'Hal'],
+  Isabella: ['Bella', 'Izzy', 'Isabel'],
+  Jacob: ['Jake'],
+  James: ['Jim', 'Jimmy', 'Jamie'],
+  Janet: ['Jan'],
+  Jacqueline: ['Jackie', 'Jacqui'],
+  Jennifer: ['Jen', 'Jenny', 'Jenn'],
+  Jessica: ['Jess', 'Jessie'],
+  John: ['Jack', 'Johnny', 'Jon'],
+  Jonathan: ['Jon', 'Jonny', 'Nathan'],
+  Joseph: ['Joe', 'Joey'],
+  Josephine: ['Jo', 'Josie'],
+  Joshua: ['Josh'],
+  Judith: ['Judy', 'Jude'],
+  Katherine: ['Kate', 'Katie', 'Kathy', 'Kath', 'Kat'],
+  Kenneth: ['Ken', 'Kenny'],
+  Kimberley: ['Kim', 'Kimmy'],
+  Lawrence: ['Larry', 'Laurie'],
+  Leonard: ['Len', 'Lenny', 'Leo'],
+  Margaret: ['Maggie', 'Meg', 'Peggy', 'Marge', 'Margie'],
+  Matthew: ['Matt', 'Matty'],
+  Melissa: ['Mel', 'Missy'],
+  Michael: ['Mike', 'Mick', 'Mikey', 'Micky'],
+  Michelle: ['Shell', 'Chelle'],
+  Nathaniel: ['Nate', 'Nat', 'Nathan'],
+  Nicholas: ['Nick', 'Nicky', 'Nico'],
+  Nicola: ['Nicky', 'Nic'],
+  Oliver: ['Ollie', 'Olly'],
+  Olivia: ['Liv', 'Livvy', 'Ollie'],
+  Pamela: ['Pam'],
+  Patricia: ['Pat', 'Patty', 'Trish', 'Tricia'],
+  Patrick: ['Pat', 'Paddy', 'Rick'],
+  Peter: ['Pete'],
+  Philip: ['Phil', 'Pip'],
+  Rebecca: ['Becky', 'Bec', 'Becca'],
+  Richard: ['Rich', 'Rick', 'Ricky', 'Dick'],
+  Robert: ['Rob', 'Robbie', 'Bob', 'Bobby', 'Bert'],
+  Ronald: ['Ron', 'Ronnie'],
+  Samantha: ['Sam', 'Sammy'],
+  Samuel: ['Sam', 'Sammy'],
+  Sarah: ['Sally', 'Sadie'],
+  Stephanie: ['Steph'],
+  Stephen: ['Steve', 'Stevie'],
+  Steven: ['Steve', 'Stevie'],
+  Susan: ['Sue', 'Susie', 'Suzy'],
+  Theodore: ['Theo', 'Ted', 'Teddy'],
+  Thomas: ['Tom', 'Tommy'],
+  Timothy: ['Tim', 'Timmy'],
+  Valerie: ['Val'],
+  Victoria: ['Vicky', 'Tori', 'Vic'],
+  Vincent: ['Vince', 'Vinnie'],
+  William: ['Will', 'Bill', 'Billy', 'Liam', 'Willy'],
+  Zachary: ['Zach', 'Zack'],
+};
+
+// name (lowercase) -> every name sharing a family with it
+const FAMILIES = new Map<string, Set<string>>();
+for (const [formal, nicks] of Object.entries(NICKNAMES)) {
+  const family = [formal, ...nicks];
+  for (const name of family) {
+    const key = name.toLowerCase();
+    const set = FAMILIES.get(key) ?? new Set<string>();
+    family.forEach(n => set.add(n));
+    FAMILIES.set(key, set);
+  }
+}
+
+/** Other given names the same person may go by: "Daniel" -> Dan, Danny; "Dan" -> Daniel, Danny. */
+export function nameForms(first: string): string[] {
+  const key = first.toLowerCase();
+  return [...FAMILIES.get(key) ?? []].filter(n => n.toLowerCase() !== key);
+}
+
+/** True when two given names can belong to the same person ("Dan" / "Daniel"). */
+export function sameGivenName(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase() || nameForms(a).some(n => n.toLowerCase() === b.toLowerCase());
+}
+
+/** "D", "D." or "D.J." as the initial(s) of the given name. */
+export function isInitialOf(token: string, first: string): boolean {
+  return /^(?:[A-Z]\.?)+$/.test(token) && token[0] === first[0]?.toUpperCase();
+}
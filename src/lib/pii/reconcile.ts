@@ -1,15 +1,6 @@
+import { passesCalibration, type CalibrationProfile } from './calibration';
 import type { Entity } from './types';
 
-const labelMap: Record<string,string> = {
-  PER: 'PERSON',
-  PERSON: 'PERSON',
-  ORG: 'ORG',
-  ORGANIZATION: 'ORG',
-  MISC: 'ORG',
-  LOC: 'ADDRESS',
-  LOCATION: 'ADDRESS',
-};
-
 const THRESH: Record<string, number> = {
   PERSON: 0.55,
   ORG: 0.70,
@@ -17,6 +8,17 @@ const THRESH: Record<string, number> = {
   LOC: 0.70
 };
 
+// Two regex hits on the same span: the cue-confirmed label beats a bare checksum match
+// (e.g. "ACN 004 085 796" also passes the TFN check)
+const REGEX_PRIORITY: Partial<Record<Entity['label'], number>> = {
+  ACN: 2, ARBN: 2, ARSN: 2,
+  DRIVERS_LICENCE: 2, LICENCE_CARD: 2, PASSPORT: 2, BSB: 2, BANK_ACCT: 2,
+  IHI: 2, CRN: 2, DVA: 2, USI: 2, SPIN: 2, SUPER_MEMBER: 2, HIN: 2, SRN: 2, IRD: 2,
+  IBAN: 2, SWIFT_BIC: 2,  // an IBAN's digit run can pass Luhn as a CREDIT_CARD
+  INVESTMENT_ACCT: 3,  // "Platform Account No" also satisfies the generic BANK_ACCT cue
+  PHONE: 3,  // a phone number after "Account" is still a phone number, not a cue-only BANK_ACCT
+};
+
 export function normalizeEntity(e: Entity): Entity | null {
   let t = e.text.replace(/\s+/g,' ').trim();
 
@@ -33,32 +35,34 @@ export function normalizeEntity(e: Entity): Entity | null {
   // Reject ALLCAPS single token as PERSON (likely codes)
   if (e.label==='PERSON' && /^\p{Lu}{2,}$/u.test(t)) return null;
 
-  // Drop fund-related ORG fragments (low-signal broken pieces)
-  if (e.label === 'ORG' && /^(Australian|Ethical|Mitchell|Lara|Superannuation|Details|Client|Fund|Managed|Super|Life|TPD|Income|Protection|Balance|Option)$/i.test(t)) 
-    return null;
-
   // TEMP: Disable business term filtering for PERSON to capture more names
   // const businessTerms = /\b(Australian|Managed|Fund|Super|TPD|Life|Income|Protection|Details|Client|Balance|Option|Contributions?|Account|Portfolio)\b/i;
   // if (e.label==='PERSON' && businessTerms.test(t)) return null;
 
   // Keep honorifics but normalise spacing
   t = t.replace(/\b(Mr|Mrs|Ms|Dr|Prof)\.?\s+/i, '$1 ');
-  
-  // Remap label using labelMap
-  e.label = (labelMap[e.label] || e.label) as Entity['label'];
-  
+
   return { ...e, text: t };
 }
 
-export function filterByConfidence(e: Entity): boolean {
+/** Model hits must clear their label's threshold: the calibration profile's when it covers the label. */
+export function filterByConfidence(e: Entity, calibration?: CalibrationProfile | null): boolean {
   if (e.source === 'regex') return true;
+  const calibrated = passesCalibration(e.label, e.score ?? 0, calibration);
+  if (calibrated !== undefined) return calibrated;
   const thr = THRESH[e.label] ?? 0.80;
   return (e.score ?? 0) >= thr;
 }
 
+/** Forced hits (denylist entries, roster values) replace whatever detections they overlap. */
+export function overrideWith(entities: Entity[], forced: Entity[]): Entity[] {
+  return [...entities.filter(e => !forced.some(f => e.start < f.end && f.start < e.end)), ...forced]
+    .sort((a, b) => a.start - b.start);
+}
+
 // Prefer validated regex over model hits on overlap
-export function reconcile(entities: Entity[]): Entity[] {
-  const norm = entities.map(normalizeEntity).filter(Boolean).filter(filterByConfidence) as Entity[];
+export function reconcile(entities: Entity[], calibration?: CalibrationProfile | null): Entity[] {
+  const norm = (entities.map(normalizeEntity).filter(Boolean) as Entity[]).filter(e => filterByConfidence(e, calibration));
   norm.sort((a,b)=> a.start - b.start);
 
   const out: Entity[] = [];
@@ -79,8 +83,13 @@ export function reconcile(entities: Entity[]): Entity[] {
       if (e.label !== o.label && (e.label === 'PERSON' && eTokens >= 2)) continue;
       if (e.label !== o.label && (o.label === 'PERSON' && oTokens >= 2)) continue;
 
-      // Rule C: When conflict remains, prefer regex-validated structured over model; else higher score
-      const eWins = (e.source === 'regex' && o.source === 'model') || ((e.score ?? 0) > (o.score ?? 0));
+      // Rule C: When conflict remains, prefer regex-validated structured over model; else higher score.
+      // Regex vs regex is settled by REGEX_PRIORITY, then by score (user-defined rules carry
+      // their confidence, built-ins count as 1), so a custom rule never displaces a checksum hit.
+      const rank = (x: Entity) => (REGEX_PRIORITY[x.label] ?? 1) + (x.score ?? 1) / 10;
+      const eWins = (e.source === 'regex' && o.source === 'regex')
+        ? rank(e) > rank(o)
+        : (e.source === 'regex' && o.source === 'model') || ((e.score ?? 0) > (o.score ?? 0));
       if (eWins) { out[i] = e; replaced = true; break; } else { replaced = true; break; }
     }
     if (!replaced) out.push(e);
@@ -147,7 +156,8 @@ export function reconcile(entities: Entity[]): Entity[] {
     expanded.push(e);
     if (e.label === 'PERSON') {
       const parts = e.text.trim().split(/\s+/);
-      if (parts.length > 1) {
+      // "van der Berg" is one surname, not a first name "van"
+      if (parts.length > 1 && !/^\p{Ll}/u.test(parts[0])) {
         const [first, ...rest] = parts;
         const last = rest.join(' ');
         // Add synthetic standalone PERSON tokens if they differ from full name
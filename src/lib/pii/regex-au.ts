@@ -1,12 +1,54 @@
+import { ADDRESS } from './address';
+
 export const RX = {
   ABN: /(?<!\d)\d{2}\s?\d{3}\s?\d{3}\s?\d{3}(?!\d)/g,
   TFN: /(?<!\d)\d{3}\s?\d{3}\s?\d{3}(?!\d)/g,
   MEDICARE: /(?<!\d)\d{4}\s?\d{5}\s?\d(?!\d)/g,
+  // Centrelink CRN: 9 digits and a letter, the shape of many invoice/reference numbers, so cue required
+  CRN: /\b(?:CRN|Centrelink(?:\s+(?:Customer\s+Reference\s+)?(?:CRN|No\.?|Number|#))?|Customer\s+Reference\s+Number)\s*[:#-]?\s*(\d{3}\s?\d{3}\s?\d{3}\s?[A-Z])(?![\dA-Za-z])/gi,
+  IHI: /(?<!\d)8003\s?60\d{2}\s?\d{4}\s?\d{4}(?!\d)/g,
+  // Cue words in either case; the file number itself is capitals only, so "file sent 12" isn't one
+  DVA: /\b(?:DVA|[Vv]eterans['’]?\s+[Aa]ffairs)(?:\s+(?:[Ff]ile|[Gg]old\s+[Cc]ard|[Ww]hite\s+[Cc]ard|[Cc]ard))?(?:\s+(?:[Nn]o\.?|[Nn]umber|#))?\s*[:#-]?\s*\b([NVQWST][A-Z]{0,3}\s?\d{1,6}[A-Z]?)\b/g,
+  AGE: /\b(?:aged?\s*[:-]?\s*(\d{1,3})|(\d{1,3})[\s-]*(?:years?|yrs?)[\s-]*old|turn(?:s|ing)\s+(\d{1,3})\s+(next|this)\s+year)\b/gi,
   AFSL_AR: /\b(?:AFSL|A\.?F\.?S\.?L\.?|Authorised\s+Representative(?:\s+Number)?|AR)\s*[:#-]?\s*(\d{6,8})\b/gi,
-  DOB: /\b(?:0?[1-9]|[12]\d|3[01])\/(?:0?[1-9]|1[0-2])\/(?:19|20)\d{2}\b/g,
+  ACN_ARBN_ARSN: /\b(?:ACN|A\.C\.N\.?|ARBN|ARSN)\s*[:#-]?\s*(\d{3}\s?\d{3}\s?\d{3})(?!\d)/gi,
+  // Dates: numeric forms are day-first (AU order), ISO and month-name forms parsed in dates.ts
+  DATE_NUMERIC: /\b(0?[1-9]|[12]\d|3[01])([/.-])(0?[1-9]|1[0-2])\2((?:19|20)?\d{2})\b/g,
+  DATE_ISO: /\b((?:19|20)\d{2})-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])\b/g,
+  DATE_DMY: /\b(0?[1-9]|[12]\d|3[01])(?:st|nd|rd|th)?\s+(?:of\s+)?(Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sep(?:t(?:ember)?)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)\.?,?\s+((?:19|20)\d{2})\b/gi,
+  DATE_MDY: /\b(Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sep(?:t(?:ember)?)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)\.?\s+(0?[1-9]|[12]\d|3[01])(?:st|nd|rd|th)?,?\s+((?:19|20)\d{2})\b/gi,
   EMAIL: /\b[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}\b/gi,
   PHONE: /\b(?:\+?61\s?|0)([2-478])\s?\d{2,4}\s?\d{3}\s?\d{3}\b/g,
+  // International numbers in E.164 form ("+44 20 7946 0958") or AU IDD form ("0011 44 ..."); +61 is PHONE above
+  PHONE_INTL: /(?<![\w+])(?:\+|\b0011[\s-]?)(?!61)[1-9](?:[\s.()-]{0,2}\d){6,14}(?!\d)/g,
+  // Network and online identifiers
+  IPV4: /(?<![\d.])(?:(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)(?![\d.]*\d)/g,
+  IPV6: /(?<![\w:.])(?=[0-9a-f]*:[0-9a-f]*:)[0-9a-f:]{2,39}(?![\w:])/gi,
+  PROFILE_URL: /\b(?:https?:\/\/)?(?:www\.)?(?:linkedin\.com\/in|facebook\.com|instagram\.com|twitter\.com|x\.com|github\.com|tiktok\.com)\/@?[A-Za-z0-9._-]{2,60}\/?/gi,
+  URL_CUE: /\b(?:website|web\s*site|personal\s+site|blog|homepage|portfolio|url)\s*[:-]?\s*((?:https?:\/\/)?(?:www\.)?[a-z0-9-]+(?:\.[a-z0-9-]+)+(?:\/[^\s)]*)?)/gi,
+  HANDLE: /(?<![\w@.])@[A-Za-z0-9_]{2,30}(?!\w|\.\w)/g,
+  // Offshore banking: IBANs in print (groups of four) or electronic form, SWIFT/BIC only after a cue
+  IBAN: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g,
+  SWIFT_BIC: /\b(?:SWIFT|Swift|BIC|Bank\s+Identifier\s+Code)(?:\s*\/\s*BIC)?(?:\s+(?:[Cc]ode|No\.?|[Nn]umber|#))?\s*[:#-]?\s*([A-Z]{6}[A-Z0-9]{2}(?:[A-Z0-9]{3})?)\b/g,
   CREDIT_CARD: /\b(?:\d[ -]?){12,19}\b/g,
-  ADDRESS: /\b\d+\s+[A-Z][a-zA-Z]+\s+(?:Street|St|Road|Rd|Avenue|Ave|Boulevard|Blvd|Close|Lane|Way|Place|Cres|Court|Ct|Drive|Dr|Parade)\b[^\n]{0,120}?\b(?:NSW|QLD|VIC|WA|SA|TAS|ACT|NT)\s*\d{4}\b/g,
+  // BSB: bare NNN-NNN (bank prefix checked), or any 6 digits straight after a "BSB" cue
+  BSB: /(?<![\d-])\d{3}-\d{3}(?![\d-])/g,
+  BSB_CUE: /\bBSB\b[^\d\n]{0,10}?(\d{3}[- ]?\d{3})(?![\d-])/gi,
+  // Bank account: 6–10 digits straight after an account cue ("Account No:", "A/C") or a BSB;
+  // no words in between, so balances and phone numbers further along don't qualify
+  BANK_ACCT: /\b(?:(?:Account|Acct|A\/C)(?:\s+(?:No\.?|Number|#))?|BSB\b[^\d\n]{0,10}?\d{3}[- ]?\d{3}[,;]?(?:\s*(?:Account|Acct|A\/C)(?:\s+(?:No\.?|Number|#))?)?)\s*[:#-]?\s*(\d(?:[ -]?\d){5,9})(?![ -]?\d)/gi,
+  // Superannuation: fund USI/SPIN and member numbers, cue words required
+  USI: /\bUSI(?:\s+(?:No\.?|Number|#))?\s*[:#-]?\s*(\d{2}\s?\d{3}\s?\d{3}\s?\d{3}\s?\d{3}|[A-Z]{3}\d{4}[A-Z]{2})(?![\dA-Z])/gi,
+  SPIN: /\bSPIN(?:\s+(?:No\.?|Number|#))?\s*[:#-]?\s*([A-Z]{3}\d{4}[A-Z]{2})\b/gi,
+  SUPER_MEMBER: /\b(?:Member(?:ship)?|Super(?:annuation)?\s+Account)\s*(?:No\.?|Number|#|ID)\s*[:#-]?\s*([A-Z0-9]{5,12})\b/gi,
+  // Share registry: CHESS HIN (X + 10 digits), issuer-sponsored SRN (I + 11 digits), broker/platform accounts
+  HIN_SRN: /\b(?:(?:HIN|SRN|Holder\s+(?:Identification|Reference)\s+Number)\s*[:#-]?\s*)?([XI]\s?\d{10,11})(?!\d)/g,
+  INVESTMENT_ACCT: /\b(?:Broker(?:age)?|Trading|Platform|Wrap|Portfolio|Investor|Investment)\s+(?:Account|Acct|ID|Reference)(?:\s+(?:No\.?|Number|#))?\s*[:#-]?\s*([A-Z0-9][A-Z0-9-]{4,14})\b/gi,
+  // Licences/passports: cue words required, group 1 is the document number
+  DRIVERS_LICENCE: /\b(?:(?:Driver[’']?s?|Driving)\s+Licen[cs]e|(?:NSW|VIC|QLD|WA|SA|TAS|ACT|NT)\s+Licen[cs]e|DL)(?:\s+(?:No\.?|Number|#))?\s*[:#-]?\s*([A-Z0-9]{1,10})\b/gi,
+  LICENCE_CARD: /\bCard\s*(?:No\.?|Number|#)\s*[:#-]?\s*([A-Z0-9]{6,10})\b/gi,
+  PASSPORT: /\bPassport(?:\s+(?:No\.?|Number|#))?\s*[:#-]?\s*([A-Z]{1,2}\d{7})\b/gi,
+  STATE: /\b(?:NSW|VIC|QLD|WA|SA|TAS|ACT|NT|New South Wales|Victoria|Queensland|Western Australia|South Australia|Tasmania|Australian Capital Territory|Northern Territory)\b/g,
+  ADDRESS,
   ORG_SUFFIX: /\b(?!(?:Australian|Managed|Life|TPD|Income|Client|Option|Details|Balance|Contributions?)\b)[A-Z][a-z]+(?:\s+[A-Z][a-z]+){0,3}\s+(?:Pty\s+Ltd|Ltd|Trust|Fund|Super|Superannuation|Bank|Council|Department|Engineering|Solutions|Services)\b/g,
 };
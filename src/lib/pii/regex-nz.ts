@@ -0,0 +1,6 @@
+export const RX_NZ = {
+  // IRD numbers share the 8–9 digit shape of a TFN, so only with a cue
+  IRD: /\b(?:IRD|Inland\s+Revenue)(?:\s+(?:No\.?|Number|#))?\s*[:#-]?\s*(\d{2,3}[-\s]?\d{3}[-\s]?\d{3})(?![\d-])/gi,
+  // National Health Index (AAANNNC), check digit validated
+  NHI: /\b[A-HJ-NP-Z]{3}\s?\d{4}\b/g,
+};
@@ -0,0 +1,6 @@
+export const RX_UK = {
+  NINO: /\b[A-CEGHJ-PR-TW-Z][A-CEGHJ-NPR-TW-Z]\s?\d{2}\s?\d{2}\s?\d{2}\s?[A-D]\b/g,
+  // NHS numbers are written 3-3-4; mod-11 validated. Any 10-digit phone or account number
+  // passes the check 1 time in 11, so an "NHS" cue is required
+  NHS: /\bNHS(?:\s+(?:No\.?|Number|#))?\s*[:#-]?\s*(\d{3}[\s-]?\d{3}[\s-]?\d{4})(?![\d-])/gi,
+};
@@ -0,0 +1,6 @@
+export const RX_US = {
+  // SSN and ITIN share the AAA-GG-SSSS shape; the area/group ranges tell them apart
+  SSN_ITIN: /(?<![\d-])\d{3}-\d{2}-\d{4}(?![\d-])/g,
+  // Unformatted 9 digits only with a cue
+  SSN_ITIN_CUE: /\b(?:SSN|ITIN|Social\s+Security|Taxpayer\s+Identification)(?:\s+(?:No\.?|Number|#))?\s*[:#-]?\s*(\d{3}[-\s]?\d{2}[-\s]?\d{4})(?![\d-])/gi,
+};
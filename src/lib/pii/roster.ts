@@ -0,0 +1,165 @@
+import { findDates } from './dates';
+import { LOCALE_PACKS } from './locales';
+import { escapeRegExp } from './semanticUtils';
+import type { Entity, Label } from './types';
+
+export interface RosterValue {
+  label: Label;
+  value: string;
+}
+
+/** One CSV row: a known individual or entity and everything the CRM holds on them. */
+export type RosterRecord = RosterValue[];
+
+export interface Roster {
+  records: RosterRecord[];
+  ignoredColumns: string[];
+}
+
+type Column = Label | 'FIRST' | 'LAST';
+
+const COLUMN_NAMES: Array<[RegExp, Column]> = [
+  [/^(?:full\s*)?name$|^client(?:\s*name)?$|^person$|^contact(?:\s*name)?$/i, 'PERSON'],
+  [/^(?:first|given|preferred)\s*names?$|^first$/i, 'FIRST'],
+  [/^(?:last|family)\s*name$|^surname$/i, 'LAST'],
+  [/^(?:organi[sz]ation|company|entity|business|employer|trust|fund)(?:\s*name)?$/i, 'ORG'],
+  [/^(?:dob|d\.o\.b\.?|date\s*of\s*birth|birth\s*date)$/i, 'DOB'],
+  [/^(?:(?:street|postal|residential|home)\s*)?address$/i, 'ADDRESS'],
+  [/^e-?mail(?:\s*address)?$/i, 'EMAIL'],
+  [/^(?:phone|mobile|telephone|tel|home\s*phone|work\s*phone)(?:\s*(?:number|no\.?))?$/i, 'PHONE'],
+];
+
+// Identifier columns can also be headed by the label itself ("TFN", "Medicare Number")
+const ID_LABELS = new Set<string>([
+  ...Object.values(LOCALE_PACKS).flatMap(p => p.labels),
+  'CREDIT_CARD', 'IBAN', 'SWIFT_BIC', 'IP_ADDRESS', 'URL', 'HANDLE',
+]);
+
+function columnLabel(header: string): Column | null {
+  const named = COLUMN_NAMES.find(([re]) => re.test(header.trim()));
+  if (named) return named[1];
+  const id = header.trim().toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/_(?:NUMBER|NO|NUM|ID)$/, '');
+  return ID_LABELS.has(id) ? id as Label : null;
+}
+
+// RFC 4180: quoted fields may hold commas, newlines and doubled quotes
+function parseCsv(csv: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [], field = '', quoted = false;
+  for (let i = 0; i < csv.length; i++) {
+    const ch = csv[i];
+    if (quoted) {
+      if (ch === '"' && csv[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ',') { row.push(field); field = ''; }
+    else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && csv[i + 1] === '\n') i++;
+      row.push(field); rows.push(row); row = []; field = '';
+    } else field += ch;
+  }
+  if (field || row.length) { row.push(field); rows.push(row); }
+  return rows.filter(r => r.some(f => f.trim()));
+}
+
+/** Reads a CRM export: one row per individual or entity, columns recognised by header. */
+export function parseRosterCsv(csv: string): Roster {
+  const [header, ...rows] = parseCsv(csv.replace(/^\uFEFF/, ''));
+  if (!header) throw new Error('Roster is empty');
+  const columns = header.map(columnLabel);
+  if (columns.every(c => c === null)) throw new Error('No recognised columns (expected e.g. Name, DOB, Address, TFN)');
+
+  const records = rows.map(row => {
+    const values: RosterValue[] = [];
+    let first = '', last = '';
+    row.forEach((cell, i) => {
+      const value = cell.trim(), col = columns[i];
+      if (!value || !col) return;
+      if (col === 'FIRST') first = value;
+      else if (col === 'LAST') last = value;
+      else values.push({ label: col, value });
+    });
+    if (first || last) values.push({ label: 'PERSON', value: [first, last].filter(Boolean).join(' ') });
+    return values;
+  }).filter(r => r.length > 0);
+
+  return { records, ignoredColumns: header.filter((_, i) => columns[i] === null) };
+}
+
+const NAME_BOUNDARY_START = "(?<![\\p{L}'’-])";
+const NAME_BOUNDARY_END = "(?![\\p{L}'’-])";
+
+const namePattern = (s: string) =>
+  escapeRegExp(s).replace(/\s+/g, '\\s+').replace(/['’]/g, "['’]").replace(/\\\./g, '\\.?');
+
+/**
+ * Ways a known person is written: full name, "Surname, First", initial and surname,
+ * and the first or last name alone. Single names match in their own case (or
+ * all-caps) only, so "May" or "Long" never match ordinary words.
+ */
+export function nameVariants(full: string): Array<{ text: string; caseSensitive: boolean }> {
+  const parts = full.trim().split(/\s+/);
+  if (parts.length < 2) return [{ text: full.trim(), caseSensitive: true }];
+  const first = parts[0], last = parts.slice(1).join(' ');
+  return [
+    { text: full.trim(), caseSensitive: false },
+    { text: `${last}, ${first}`, caseSensitive: false },
+    { text: `${first[0]}. ${last}`, caseSensitive: false },
+    { text: first, caseSensitive: true },
+    { text: last, caseSensitive: true },
+  ];
+}
+
+function valueRegex(v: RosterValue): RegExp[] {
+  if (v.label === 'PERSON') {
+    return nameVariants(v.value).flatMap(({ text, caseSensitive }) => {
+      const body = `${NAME_BOUNDARY_START}${namePattern(text)}${NAME_BOUNDARY_END}`;
+      return caseSensitive
+        ? [new RegExp(body, 'gu'), new RegExp(`${NAME_BOUNDARY_START}${namePattern(text.toUpperCase())}${NAME_BOUNDARY_END}`, 'gu')]
+        : [new RegExp(body, 'giu')];
+    });
+  }
+  const compact = v.value.replace(/[\s.-]+/g, '');
+  // Identifiers and numbers: same characters, any spacing or punctuation between them
+  if (/\d/.test(compact) && compact.replace(/\D/g, '').length >= compact.length / 2 && compact.length >= 5) {
+    const body = compact.split('').map(escapeRegExp).join('[\\s.-]?');
+    return [new RegExp(`(?<![\\w])${body}(?![\\w])`, 'gi')];
+  }
+  return [new RegExp(`(?<![\\w])${escapeRegExp(v.value).replace(/\s+/g, '\\s+')}(?![\\w])`, 'gi')];
+}
+
+/**
+ * Every occurrence of every roster value. Name variants carry the full name as
+ * metadata.canonical so they share one RedactionMap key with the full name.
+ */
+export function matchRoster(text: string, roster: Roster): Entity[] {
+  const found: Entity[] = [];
+  const dates = findDates(text);
+
+  for (const record of roster.records) {
+    for (const v of record) {
+      if (v.label === 'DOB') {
+        // Birth dates match in any written form
+        const iso = findDates(v.value)[0]?.iso;
+        for (const d of dates) if (d.iso === iso) found.push({ text: d.text, label: 'DOB', start: d.start, end: d.end, source: 'regex' });
+        if (iso) continue;
+      }
+      for (const re of valueRegex(v)) {
+        let m: RegExpExecArray | null;
+        while ((m = re.exec(text))) {
+          found.push({
+            text: m[0], label: v.label, start: m.index, end: m.index + m[0].length, source: 'regex',
+            ...(v.label === 'PERSON' && m[0] !== v.value && { metadata: { canonical: v.value } }),
+          });
+        }
+      }
+    }
+  }
+
+  // Longest match wins where variants overlap ("Daniel O'Rourke" over "Daniel")
+  found.sort((a, b) => (b.end - b.start) - (a.end - a.start));
+  const kept: Entity[] = [];
+  for (const e of found) if (!kept.some(k => e.start < k.end && k.start < e.end)) kept.push(e);
+  return kept.sort((a, b) => a.start - b.start);
+}
@@ -0,0 +1,89 @@
+import type { Entity } from './types';
+
+// One capitalised name part: Smith, O'Rourke, D'Arcy, McDonald, DeVito
+const WORD = String.raw`\p{Lu}\p{Ll}*(?:['’]?\p{Lu}\p{Ll}+)*`;
+// Lowercase surname particles: van der Berg, de la Cruz, bin Salleh
+const PARTICLE = String.raw`(?:van|von|der|den|de|du|da|di|del|della|la|le|ter|ten|bin|binti|al)`;
+const SURNAME = String.raw`(?:${PARTICLE}\s+)*${WORD}(?:-${WORD})*`;
+// Given name, optional initials, optional surname: "Jane", "Jane Smith", "Jane M. van der Berg"
+const NAME = String.raw`${WORD}(?:-${WORD})?(?:[ \t]+(?:\p{Lu}\.?[ \t]+)*${SURNAME})?`;
+
+const TITLES = 'Mr|Mrs|Ms|Miss|Mx|Dr|Prof|Professor|Sir|Dame|Lady|Lord|Rev|Hon';
+// "Dr" after a street name is Drive: "12 Smith Dr Marrickville"
+const NOT_STREET = String.raw`(?<!\d{1,5}\s+(?:\p{Lu}\p{Ll}+\s+){1,3})`;
+
+// "Mr Daniel O'Rourke", "Mrs O'Brien-Smith", "Dr J. M. van der Berg": up to two given
+// names or initials before the surname; the title itself is not captured
+const HONORIFIC = new RegExp(
+  String.raw`${NOT_STREET}\b(?:${TITLES})\.?[ \t]+((?:(?:${WORD}|\p{Lu}\.?)[ \t]+){0,2}${SURNAME})`, 'gu');
+
+// Capitalised words that follow a name without being part of it: job titles and
+// business names ("Mr John Smith Financial Adviser", "Ms Lee Wealth Partners")
+const NOT_A_NAME_PART = new Set([
+  'financial', 'adviser', 'advisers', 'advisor', 'advisors', 'planner', 'planners', 'wealth', 'advice',
+  'private', 'client', 'clients', 'services', 'solutions', 'partners', 'partner', 'associates', 'associate',
+  'group', 'holdings', 'consulting', 'consultant', 'director', 'directors', 'manager', 'principal',
+  'senior', 'chief', 'executive', 'officer', 'head', 'lead', 'accountant', 'accountants', 'solicitor',
+  'lawyer', 'lawyers', 'broker', 'agent', 'secretary', 'chair', 'chairman', 'president', 'trustee',
+  'relationship', 'account', 'business', 'development', 'investment', 'investments', 'insurance',
+  'superannuation', 'super', 'tax', 'company', 'bank', 'trust', 'fund', 'pty', 'ltd', 'limited',
+  'authorised', 'authorized', 'representative', 'team', 'office', 'department',
+]);
+
+// Capitalised words that make the title part of a place name: "Lord Howe Island",
+// "Lady Elliot Island", "Dame Mary Gilmore Park", "Lord Street"
+const PLACE_NOUN = new Set([
+  'island', 'islands', 'isle', 'river', 'creek', 'lake', 'bay', 'beach', 'harbour', 'point', 'heads',
+  'mount', 'hill', 'hills', 'range', 'valley', 'park', 'reserve', 'gardens', 'bridge', 'station',
+  'street', 'road', 'avenue', 'drive', 'lane', 'place', 'crescent', 'court', 'parade', 'terrace',
+  'highway', 'square',
+]);
+
+/**
+ * The name up to the first word that starts a title or business name; '' when nothing
+ * is left or when the words, or the one just after them, make it a place name.
+ */
+function nameOnly(name: string, next = ''): string {
+  const words = name.split(/([ \t]+)/);
+  if ([...words, next].some(w => PLACE_NOUN.has(w.toLowerCase()))) return '';
+  const stop = words.findIndex((w, i) => i % 2 === 0 && NOT_A_NAME_PART.has(w.toLowerCase()));
+  return stop < 0 ? name : words.slice(0, Math.max(0, stop - 1)).join('');
+}
+
+// Addressees that are not people
+const NOT_A_NAME = /^(?:The|Sirs?|Madam|Client|Clients|Customer|Member|Members|Investor|Investors|Team|All|Colleagues|Friends|Valued|Trustee|Trustees|Shareholder|Shareholders|Applicant)\b/;
+
+// "Dear Margaret," / "Dear Anna and Tom,"; "Dear Mr Smith" is left to HONORIFIC
+const DEAR = new RegExp(
+  String.raw`\bDear[ \t]+(?!(?:${TITLES})\b)(${NAME})(?:[ \t]+(?:and|&)[ \t]+(?!(?:${TITLES})\b)(${NAME}))?(?=[ \t]*(?:[,:;!\n]|$))`,
+  'gu');
+
+// A sign-off followed by a line holding only the name: "Kind regards,\nJane"
+const SIGN_OFF = new RegExp(
+  String.raw`\b(?:(?:Kind|Best|Warm|Warmest|With)[ \t]+regards|Regards|Yours[ \t]+(?:sincerely|faithfully|truly)|Sincerely|Many[ \t]+thanks|Thanks|Thank[ \t]+you|Cheers)[ \t]*[,.!]?[ \t]*\r?\n[ \t]*(?:\r?\n[ \t]*)?(${NAME})[ \t]*(?=\r?\n|$)`,
+  'gu');
+
+/**
+ * PERSON names placed by a title, a greeting or a sign-off, where the context alone
+ * says "this is a person" even when the model misses the name. Spans cover the name
+ * only, so "Mrs [PERSON]" still reads naturally once redacted.
+ */
+export function detectSalutations(text: string): Entity[] {
+  const out: Entity[] = [];
+  for (const re of [HONORIFIC, DEAR, SIGN_OFF]) {
+    re.lastIndex = 0; let m: RegExpExecArray | null;
+    while ((m = re.exec(text))) {
+      let from = 0;
+      for (const captured of m.slice(1)) {
+        if (!captured) continue;
+        const start = m.index + m[0].indexOf(captured, from);
+        from = start - m.index + captured.length;
+        const next = /^[ \t]+(\p{L}+)/u.exec(text.slice(start + captured.length))?.[1];
+        const name = nameOnly(captured, next);
+        if (!name || NOT_A_NAME.test(name) || out.some(e => start < e.end && e.start < start + name.length)) continue;
+        out.push({ text: name, label: 'PERSON', start, end: start + name.length, source: 'regex' });
+      }
+    }
+  }
+  return out;
+}
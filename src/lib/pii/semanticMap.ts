@@ -1,28 +1,59 @@
-import { Entity, Label, RedactionMap, RedactionEntry } from './semanticTypes';
+import { Entity, Label, RedactionMap, RedactionEntry, PersonRedactionEntry } from './semanticTypes';
 import { normalizeForKey, stableId } from './semanticUtils';
+import { isInitialOf, sameGivenName } from './nicknames';
 
 function buildRedactionEntry(text: string, label: Label, canonical: string): RedactionEntry {
   if (label === 'PERSON') {
     const parts = text.trim().split(/\s+/);
-    const first = parts[0] ?? text;
-    const last = parts.length > 1 ? parts.slice(1).join(' ') : '';
+    // A surname with a lowercase particle ("van der Berg") is kept whole
+    const whole = parts.length < 2 || /^\p{Ll}/u.test(parts[0]);
+    const first = whole ? text.trim() : parts[0];
+    const last = whole ? '' : parts.slice(1).join(' ');
     return { label: 'PERSON', full: text, first, last, canonical };
   }
   return { label, full: text, canonical };
 }
 
+/**
+ * Whether a PERSON mention is another way of writing this full name: the first or
+ * last name alone, a nickname ("Dan", "Danny"), or initials with the surname
+ * ("D. O'Rourke", "Dan O'Rourke").
+ */
+function isNameVariant(text: string, entry: PersonRedactionEntry): boolean {
+  if (!entry.last) return false;
+  const same = (a: string, b: string) => normalizeForKey(a) === normalizeForKey(b);
+  const parts = text.trim().split(/\s+/);
+  if (parts.length === 1) {
+    return sameGivenName(parts[0], entry.first) || same(parts[0], entry.last);
+  }
+  const [given, ...rest] = parts;
+  const initialled = isInitialOf(given, entry.first);
+  // "D. J. O'Rourke": further initials may follow the first one
+  while (initialled && rest.length > 1 && /^[A-Z]\.?$/.test(rest[0])) rest.shift();
+  return same(rest.join(' '), entry.last) && (initialled || sameGivenName(given, entry.first));
+}
+
 export function createRedactionMap(entities: Entity[]): RedactionMap {
   const map: RedactionMap = {};
+  const words = (e: Entity) => e.label === 'PERSON' ? (e.metadata?.canonical ?? e.text).trim().split(/\s+/).length : 0;
 
-  for (const e of entities) {
-    const canonical = normalizeForKey(e.text);
+  // Longest names first, so "Dan" or "D. O'Rourke" can link to "Daniel O'Rourke"
+  for (const e of [...entities].sort((a, b) => words(b) - words(a))) {
+    // A partial mention ("Daniel" from a roster) keys under the full value it belongs to
+    const full = e.metadata?.canonical ?? e.text;
+    const canonical = normalizeForKey(full);
     // ID derived ONLY from normalized full value (not label), so repetitions map consistently.
     const id = stableId(canonical, 6);
     const key = `${e.label}_${id}`;
+    if (map[key]) continue;
 
-    if (!map[key]) {
-      map[key] = buildRedactionEntry(e.text, e.label, canonical);
+    if (e.label === 'PERSON') {
+      // Link to an existing person only when exactly one could be meant
+      const people = Object.values(map).filter((v): v is PersonRedactionEntry =>
+        v.label === 'PERSON' && v.canonical !== canonical && isNameVariant(full, v));
+      if (people.length === 1) continue;
     }
+    map[key] = buildRedactionEntry(full, e.label, canonical);
   }
 
   return map;
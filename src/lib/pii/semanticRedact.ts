@@ -1,23 +1,78 @@
-import { Entity, RedactionMap, VariantKey, RedactOptions } from './semanticTypes';
+import { Entity, RedactionMap, RedactionEntry, VariantKey, RedactOptions, PersonRedactionEntry } from './semanticTypes';
 import { createRedactionMap } from './semanticMap';
-import { escapeRegExp, embedFrontMatter } from './semanticUtils';
+import { escapeRegExp, embedFrontMatter, normalizeForKey } from './semanticUtils';
+import { nameForms } from './nicknames';
 
 /**
  * Placeholder format: [LABEL_ID:VARIANT]
- *   PERSON variants: FULL | FIRST | LAST
+ *   PERSON variants: FULL | FIRST | LAST | INITIALS, INITIALS2… | NICK, NICK2…
  *   Others: FULL
  */
 function placeholder(labelAndId: string, variant: VariantKey = 'FULL') {
   return `[${labelAndId}:${variant}]`;
 }
 
-function replaceAllWordBoundary(haystack: string, needle: string, replacement: string, caseInsensitive = true) {
+// A name followed by an apostrophe is only itself before a possessive 's: "Don't" is not Don
+const NOT_CONTRACTION = "(?!['’](?!s\\b)[a-z])";
+
+function replaceAllWordBoundary(haystack: string, needle: string, replacement: (match: string) => string, caseInsensitive = true) {
   if (!needle) return haystack;
   const flags = caseInsensitive ? 'gi' : 'g';
-  const rx = new RegExp(`\\b${escapeRegExp(needle)}\\b`, flags);
+  // \b only applies at word characters: "+44 …", "@handle" or ".../in/name/" would never match
+  const pre = /^\w/.test(needle) ? '\\b' : '';
+  const post = /\w$/.test(needle) ? `\\b${NOT_CONTRACTION}` : '';
+  // Straight and curly apostrophes are the same name ("O'Rourke" / "O’Rourke")
+  const body = escapeRegExp(needle).replace(/['’]/g, "['’]");
+  // Never inside an earlier placeholder: a first name "Nick" must not match "[PERSON_…:NICK]"
+  const rx = new RegExp(`(?<!\\[[A-Z0-9_]+:)${pre}${body}${post}`, flags);
   return haystack.replace(rx, replacement);
 }
 
+type VariantKind = 'FULL' | 'FIRST' | 'LAST' | 'INITIALS' | 'NICK';
+
+// Records a form of the name as it appeared (restored verbatim) and returns its variant key.
+// FULL/FIRST/LAST written as stored keep the plain key; other spellings ("O’Rourke" for
+// "O'Rourke", "DANIEL") are numbered from 2.
+function addVariant(entry: RedactionEntry, kind: VariantKind, text: string): VariantKey {
+  const base = kind === 'FULL' ? entry.full
+    : entry.label !== 'PERSON' ? undefined
+    : kind === 'FIRST' ? entry.first : kind === 'LAST' ? entry.last : undefined;
+  if (text === base) return kind;
+  const variants = entry.variants ??= {};
+  const same = Object.keys(variants).filter(k => k.replace(/\d+$/, '') === kind);
+  const existing = same.find(k => variants[k] === text);
+  if (existing) return existing as VariantKey;
+  const n = same.length + (base === undefined ? 1 : 2);
+  const key = (n === 1 ? kind : `${kind}${n}`) as VariantKey;
+  variants[key] = text;
+  return key;
+}
+
+/**
+ * Detected PERSON mentions that use a nickname of a person in the map ("Dan", or
+ * "Danny O'Rourke" for Daniel O'Rourke): the nickname's span and the person's key.
+ * Only these are replaced, so a nickname that is also a word ("Will you sign?") or
+ * part of a contraction ("Don't") stays as written.
+ */
+function nicknameSpans(text: string, entities: Entity[], people: Array<[string, PersonRedactionEntry]>) {
+  // A nickname that is also another person's own first name stays with that person
+  const taken = new Set(people.map(([, p]) => normalizeForKey(p.first)));
+  const spans: Array<{ start: number; end: number; key: string }> = [];
+  for (const e of entities) {
+    if (e.label !== 'PERSON' || e.start === undefined || e.end === undefined) continue;
+    if (text.slice(e.start, e.end) !== e.text) continue;  // offsets from another text
+    const [given, ...rest] = e.text.trim().split(/\s+/);
+    if (!given || taken.has(normalizeForKey(given))) continue;
+    const owners = people.filter(([, p]) =>
+      p.last && nameForms(p.first).includes(given) &&
+      (rest.length === 0 || normalizeForKey(rest.join(' ')) === normalizeForKey(p.last)));
+    if (owners.length !== 1) continue;
+    const start = e.start + e.text.indexOf(given), end = start + given.length;
+    if (new RegExp(`^${NOT_CONTRACTION}`).test(text.slice(end))) spans.push({ start, end, key: owners[0][0] });
+  }
+  return spans;
+}
+
 /**
  * Semantic, index-free redaction.
  * Returns redacted text + map. Optionally embeds YAML front-matter with the map.
@@ -30,25 +85,42 @@ export function redactTextSemantic(
   const map = createRedactionMap(entities);
   let out = text;
 
-  // First pass: FULL replacements (longest strings first to avoid partial overlap issues).
   const entries = Object.entries(map).sort((a, b) => (b[1].full.length - a[1].full.length));
+  const people = entries.filter((e): e is [string, PersonRedactionEntry] => e[1].label === 'PERSON');
+
+  // Nicknames go by the detected spans, while the text still matches the entities' offsets
+  if (options.redactPersonFirstLast) {
+    const spans = nicknameSpans(text, entities, people).sort((a, b) => b.start - a.start);
+    for (const [i, { start, end, key }] of spans.entries()) {
+      if (i > 0 && spans[i - 1].start < end) continue;  // overlapping mention, already replaced
+      out = out.slice(0, start) + placeholder(key, addVariant(map[key], 'NICK', out.slice(start, end))) + out.slice(end);
+    }
+  }
 
+  // FULL replacements for every entry (longest strings first to avoid partial overlap
+  // issues), so one person's first name never eats into another's full name.
   for (const [key, entry] of entries) {
-    const fullPh = placeholder(key, 'FULL');
-    out = replaceAllWordBoundary(out, entry.full, fullPh, options.caseInsensitive);
+    out = replaceAllWordBoundary(out, entry.full, m => placeholder(key, addVariant(entry, 'FULL', m)), options.caseInsensitive);
+  }
+
+  if (options.redactPersonFirstLast) {
+    for (const [key, entry] of people) {
+      if (entry.last) {
+        // "D. O'Rourke", "D.J. O'Rourke" - before LAST, which would split them. Initials are
+        // capitals, so the surname is matched as written or in capitals rather than with /i
+        const last = [entry.last, entry.last.toUpperCase()].map(l => escapeRegExp(l).replace(/['’]/g, "['’]"));
+        const initials = new RegExp(
+          `(?<![\\p{L}'’-])${escapeRegExp(entry.first[0].toUpperCase())}(?:\\.\\s*|\\s+)(?:\\p{Lu}(?:\\.\\s*|\\s+))*` +
+          `(?:${last.join('|')})(?![\\p{L}'’-])`, 'gu');
+        out = out.replace(initials, m => placeholder(key, addVariant(entry, 'INITIALS', m)));
+      }
 
-    if (entry.label === 'PERSON' && options.redactPersonFirstLast) {
       // Replace FIRST & LAST after FULL to avoid re-replacing inside placeholders
-      const first = 'first' in entry ? entry.first : '';
-      const last = 'last' in entry ? entry.last : '';
-      
-      if (first && first !== entry.full) {
-        const firstPh = placeholder(key, 'FIRST');
-        out = replaceAllWordBoundary(out, first, firstPh, options.caseInsensitive);
+      if (entry.first && entry.first !== entry.full) {
+        out = replaceAllWordBoundary(out, entry.first, m => placeholder(key, addVariant(entry, 'FIRST', m)), options.caseInsensitive);
       }
-      if (last && last !== entry.full) {
-        const lastPh = placeholder(key, 'LAST');
-        out = replaceAllWordBoundary(out, last, lastPh, options.caseInsensitive);
+      if (entry.last && entry.last !== entry.full) {
+        out = replaceAllWordBoundary(out, entry.last, m => placeholder(key, addVariant(entry, 'LAST', m)), options.caseInsensitive);
       }
     }
   }
@@ -1,13 +1,20 @@
 export type Label =
   | 'PERSON' | 'ORG' | 'LOC' | 'ADDRESS'
-  | 'ABN' | 'TFN' | 'MEDICARE' | 'AFSL' | 'AR'
-  | 'EMAIL' | 'PHONE' | 'CREDIT_CARD' | 'BSB' | 'BANK_ACCT' | 'DOB' | 'OTHER';
+  | 'ABN' | 'TFN' | 'ACN' | 'ARBN' | 'ARSN' | 'MEDICARE' | 'AFSL' | 'AR'
+  | 'CRN' | 'DVA' | 'IHI' | 'USI' | 'SPIN' | 'SUPER_MEMBER'
+  | 'HIN' | 'SRN' | 'INVESTMENT_ACCT'
+  | 'EMAIL' | 'PHONE' | 'CREDIT_CARD' | 'BSB' | 'BANK_ACCT' | 'IBAN' | 'SWIFT_BIC' | 'DOB' | 'AGE'
+  | 'IP_ADDRESS' | 'URL' | 'HANDLE'
+  | 'DRIVERS_LICENCE' | 'LICENCE_CARD' | 'PASSPORT'
+  | 'IRD' | 'NHI' | 'NINO' | 'NHS' | 'SSN' | 'ITIN' | 'OTHER'
+  | `CUSTOM_${string}`;
 
 export interface Entity {
   label: Label;
   text: string;
   start?: number; // not needed for semantic mode, but harmless to keep
   end?: number;
+  metadata?: { canonical?: string }; // partial mentions key under the full value
 }
 
 export type PersonRedactionEntry = {
@@ -16,20 +23,23 @@ export type PersonRedactionEntry = {
   first: string;
   last: string;
   canonical: string;
+  variants?: Record<string, string>; // INITIALS, NICK, NICK2, FULL2, …: other forms found in the text, verbatim
 };
 
 export type DefaultRedactionEntry = {
   label: Exclude<Label, 'PERSON'>;
   full: string;
   canonical: string;
+  variants?: Record<string, string>; // FULL2, …: spellings that differ from `full` (case, apostrophes)
 };
 
 export type RedactionEntry = PersonRedactionEntry | DefaultRedactionEntry;
 
 export type RedactionMap = Record<string, RedactionEntry>; // key = `${LABEL}_${ID}`
 
-export type PersonVariantKey = 'FULL' | 'FIRST' | 'LAST';
-export type DefaultVariantKey = 'FULL';
+export type PersonVariantKey =
+  `FULL${'' | number}` | `FIRST${'' | number}` | `LAST${'' | number}` | `INITIALS${'' | number}` | `NICK${'' | number}`;
+export type DefaultVariantKey = `FULL${'' | number}`;
 export type VariantKey = PersonVariantKey | DefaultVariantKey;
 
 export interface RedactOptions {
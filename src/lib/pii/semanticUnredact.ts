@@ -23,27 +23,26 @@ export function unredactTextSemantic(
   let out = body;
 
   // Build fast lookup:
-  // key = LABEL_ID, value = { FULL, FIRST?, LAST? }
-  const lookup: Record<string, Record<VariantKey, string>> = {};
+  // key = LABEL_ID, value = { FULL, FIRST?, LAST?, INITIALS?, NICK?, NICK2?, FULL2?, … }
+  const lookup: Record<string, Partial<Record<VariantKey, string>> & { FULL: string }> = {};
   for (const [key, entry] of Object.entries(map)) {
-    const variants: Record<VariantKey, string> = { FULL: entry.full } as any;
-    if ('first' in entry && entry.first) variants.FIRST = (entry as any).first;
-    if ('last' in entry && entry.last) variants.LAST = (entry as any).last;
+    const variants: Partial<Record<VariantKey, string>> & { FULL: string } = { FULL: entry.full };
+    if (entry.label === 'PERSON') {
+      if (entry.first) variants.FIRST = entry.first;
+      if (entry.last) variants.LAST = entry.last;
+    }
+    Object.assign(variants, entry.variants);
     lookup[key] = variants;
   }
 
-  // One pass per variant ensures we don't partially replace tokens inside other tokens.
-  const variants: VariantKey[] = ['FULL', 'FIRST', 'LAST'];
-
-  for (const variant of variants) {
-    // Replace tokens like [PERSON_A1B2C3:FULL]
-    const rx = new RegExp(String.raw`\[([A-Z]+_[A-F0-9]{2,}):${variant}\]`, 'g');
-    out = out.replace(rx, (_m, labelId: string) => {
-      const vset = lookup[labelId];
-      if (!vset) return _m; // unknown mapping: leave token as-is
-      return vset[variant] ?? vset.FULL;
-    });
-  }
+  // A single pass: restored values are never rescanned, so a name can't be mistaken for a token.
+  // Tokens look like [PERSON_A1B2C3:FULL], [PERSON_A1B2C3:NICK2] or [SWIFT_BIC_A1B2C3:FULL]
+  const rx = /\[([A-Z0-9_]+_[A-F0-9]{2,}):([A-Z]+\d*)\]/g;
+  out = out.replace(rx, (_m, labelId: string, variant: VariantKey) => {
+    const vset = lookup[labelId];
+    if (!vset) return _m; // unknown mapping: leave token as-is
+    return vset[variant] ?? vset.FULL;
+  });
 
   return { unredacted: out, usedMap: map };
 }
@@ -0,0 +1,24 @@
+// Settings kept in localStorage between sessions. Storage can be disabled (private
+// browsing), full, or hold a value an older version wrote, so reads fall back to a
+// default and writes fail quietly: the setting then lasts for this session only.
+
+/** The value stored under key, read by parse; the fallback when missing, unreadable or rejected by parse. */
+export function loadJSON<T>(key: string, fallback: T, parse: (json: string) => T = JSON.parse): T {
+  try {
+    const stored = localStorage.getItem(key);
+    if (stored !== null) return parse(stored);
+  } catch {
+    // Unavailable or corrupt storage: the fallback applies
+  }
+  return fallback;
+}
+
+/** Stores value under key as written by serialize; null removes the key. */
+export function saveJSON<T>(key: string, value: T | null, serialize: (value: T) => string = JSON.stringify): void {
+  try {
+    if (value === null) localStorage.removeItem(key);
+    else localStorage.setItem(key, serialize(value));
+  } catch {
+    // Full or disabled storage: nothing to do
+  }
+}
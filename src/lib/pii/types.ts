@@ -1,7 +1,24 @@
+// Hits from user-defined pattern rules are labelled CUSTOM_<NAME> (see customRules.ts)
+export type CustomLabel = `CUSTOM_${string}`;
+
 export type Label =
   | 'PERSON' | 'ORG' | 'LOC' | 'ADDRESS'
-  | 'ABN' | 'TFN' | 'MEDICARE' | 'AFSL' | 'AR'
-  | 'EMAIL' | 'PHONE' | 'CREDIT_CARD' | 'BSB' | 'BANK_ACCT' | 'DOB';
+  | 'ABN' | 'TFN' | 'ACN' | 'ARBN' | 'ARSN' | 'MEDICARE' | 'AFSL' | 'AR'
+  | 'CRN' | 'DVA' | 'IHI' | 'USI' | 'SPIN' | 'SUPER_MEMBER'
+  | 'HIN' | 'SRN' | 'INVESTMENT_ACCT'
+  | 'EMAIL' | 'PHONE' | 'CREDIT_CARD' | 'BSB' | 'BANK_ACCT' | 'IBAN' | 'SWIFT_BIC' | 'DOB' | 'AGE'
+  | 'IP_ADDRESS' | 'URL' | 'HANDLE'
+  | 'DRIVERS_LICENCE' | 'LICENCE_CARD' | 'PASSPORT'
+  | 'IRD' | 'NHI' | 'NINO' | 'NHS' | 'SSN' | 'ITIN'
+  | CustomLabel;
+
+export interface EntityMetadata {
+  calculatedDOB?: string; // ISO birth date (or year) the entity implies
+  documentDate?: string;  // ISO date the document is dated, used as the age reference
+  age?: number;
+  canonical?: string;     // full value a partial mention belongs to ("Dan" → "Daniel O'Rourke")
+  context?: string[];     // cues that moved a model score: "+Client name", "-Fund" (see context.ts)
+}
 
 export interface Entity {
   text: string;
@@ -10,6 +27,9 @@ export interface Entity {
   end: number;
   score?: number;         // Model confidence
   source: 'regex' | 'model';
+  model?: string;         // NerModel id that produced a source 'model' entity
+  agreed?: string[];      // ensemble runs: ids of every model that found it
+  metadata?: EntityMetadata;
 }
 
 export interface RedactionOptions {
@@ -14,6 +14,15 @@ export const isValidTFN = (raw: string): boolean => {
   return s.split('').map(Number).reduce((a,n,i)=>a+n*w[i],0) % 11 === 0;
 };
 
+// ASIC modulus 10 check digit, shared by ACN, ARBN and ARSN
+export const isValidACN = (raw: string): boolean => {
+  const s = raw.replace(/\s+/g,'');
+  if (!/^\d{9}$/.test(s)) return false;
+  const w=[8,7,6,5,4,3,2,1];
+  const sum = s.slice(0,8).split('').map(Number).reduce((a,n,i)=>a+n*w[i],0);
+  return (10 - sum % 10) % 10 === Number(s[8]);
+};
+
 export const isValidMedicare = (raw: string): boolean => {
   const s = raw.replace(/\s+/g,'');
   if (!/^\d{10,11}$/.test(s)) return false;
@@ -22,9 +31,48 @@ export const isValidMedicare = (raw: string): boolean => {
   return (sum % 10) === Number(s[8]);
 };
 
+// Fund USI: the fund's ABN plus a 3-digit product suffix, or a SPIN-style code (e.g. AMP0100AU)
+export const isValidSPIN = (raw: string): boolean =>
+  /^[A-Z]{3}\d{4}[A-Z]{2}$/.test(raw.replace(/\s+/g,'').toUpperCase());
+
+export const isValidUSI = (raw: string): boolean => {
+  const s = raw.replace(/\s+/g,'');
+  if (/^\d{14}$/.test(s)) return isValidABN(s.slice(0, 11));
+  return isValidSPIN(s);
+};
+
+// Member numbers vary by fund; require enough digits to be an identifier rather than a word
+export const isValidMemberNumber = (raw: string): boolean =>
+  raw.replace(/\D/g,'').length >= 5;
+
+// CHESS Holder Identification Number and issuer-sponsored Securityholder Reference Number
+export const isValidHIN = (raw: string): boolean => /^X\d{10}$/.test(raw.replace(/\s+/g,''));
+export const isValidSRN = (raw: string): boolean => /^I\d{11}$/.test(raw.replace(/\s+/g,''));
+
+// Centrelink Customer Reference Number: 9 digits then a check letter
+export const isValidCRN = (raw: string): boolean =>
+  /^\d{9}[A-Z]$/.test(raw.replace(/\s+/g,''));
+
+// DVA file number: state code, up to 3 war-code letters, up to 6 digits, optional segment letter
+export const isValidDVA = (raw: string): boolean => {
+  const s = raw.replace(/\s+/g,'');
+  return s.length <= 9 && /^[NVQWST][A-Z]{0,3}\d{1,6}[A-Z]?$/.test(s);
+};
+
+// Individual Healthcare Identifier: 800360 prefix + Luhn over all 16 digits
+export const isValidIHI = (raw: string): boolean => {
+  const s = raw.replace(/\s+/g,'');
+  return /^800360\d{10}$/.test(s) && luhnValid(s);
+};
+
 export const luhnValid = (raw: string): boolean => {
   const s = raw.replace(/\s+/g,'');
-  if (!/^\d{12,19}$/.test(s)) return false;
+  return /^\d{12,19}$/.test(s) && luhnChecksum(s);
+};
+
+// Luhn over any digit string (check digit last)
+export const luhnChecksum = (s: string): boolean => {
+  if (!/^\d+$/.test(s)) return false;
   let sum=0, dbl=false;
   for (let i=s.length-1;i>=0;i--) {
     let d = +s[i];
@@ -33,3 +81,208 @@ export const luhnValid = (raw: string): boolean => {
   }
   return sum % 10 === 0;
 };
+
+// APCA-allocated BSB institution prefixes (first two digits) for the major issuers
+const BSB_PREFIXES: Record<string, string> = {
+  '01':'ANZ', '03':'Westpac', '04':'Westpac', '06':'CBA', '08':'NAB', '09':'RBA',
+  '10':'BankSA', '11':'St.George', '12':'BOQ', '14':'Rabobank', '18':'Macquarie',
+  '19':'Bank of Melbourne', '21':'JPMorgan', '23':'Bank of America', '24':'Citibank',
+  '25':'BNP Paribas', '26':'Westpac', '29':'MUFG', '30':'Bankwest', '33':'St.George',
+  '34':'HSBC', '35':'Bank of China', '40':'CBA', '41':'Deutsche Bank', '48':'Suncorp',
+  '55':'Bank of Melbourne', '57':'ASL', '61':'Adelaide Bank', '63':'Bendigo Bank',
+  '64':'MOQ', '70':'Indue', '73':'Westpac', '76':'CBA', '80':'Cuscal', '90':'Australia Post',
+};
+
+export const bsbInstitution = (raw: string): string | undefined =>
+  BSB_PREFIXES[raw.replace(/[\s-]+/g,'').slice(0,2)];
+
+export const isValidBSB = (raw: string): boolean => {
+  const s = raw.replace(/[\s-]+/g,'');
+  return /^\d{6}$/.test(s) && bsbInstitution(s) !== undefined;
+};
+
+export type AUState = 'NSW' | 'VIC' | 'QLD' | 'WA' | 'SA' | 'TAS' | 'ACT' | 'NT';
+
+const STATE_NAMES: Record<string, AUState> = {
+  'new south wales':'NSW', 'victoria':'VIC', 'queensland':'QLD', 'western australia':'WA',
+  'south australia':'SA', 'tasmania':'TAS', 'australian capital territory':'ACT', 'northern territory':'NT',
+};
+
+export const toState = (raw: string): AUState | undefined => {
+  const s = raw.trim();
+  if (/^(NSW|VIC|QLD|WA|SA|TAS|ACT|NT)$/.test(s)) return s as AUState;
+  return STATE_NAMES[s.toLowerCase()];
+};
+
+// Licence and licence card number formats per issuing state (as used by the DVS)
+const LICENCE_FORMATS: Record<AUState, { licence: RegExp; card: RegExp }> = {
+  ACT: { licence: /^\d{1,10}$/,      card: /^[A-Z0-9]{10}$/ },
+  NSW: { licence: /^[A-Z0-9]{6,8}$/, card: /^\d{10}$/ },
+  NT:  { licence: /^\d{1,10}$/,      card: /^\d{6,8}$/ },
+  QLD: { licence: /^\d{8,9}$/,       card: /^[A-Z0-9]{10}$/ },
+  SA:  { licence: /^[A-Z0-9]{6}$/,   card: /^[A-Z0-9]{9}$/ },
+  TAS: { licence: /^[A-Z0-9]{6,8}$/, card: /^[A-Z0-9]{9}$/ },
+  VIC: { licence: /^\d{1,10}$/,      card: /^[A-Z0-9]{8}$/ },
+  WA:  { licence: /^\d{7}$/,         card: /^[A-Z0-9]{8,10}$/ },
+};
+
+const matchesLicence = (raw: string, kind: 'licence' | 'card', state?: AUState): boolean => {
+  const s = raw.replace(/\s+/g,'').toUpperCase();
+  if (s.replace(/\D/g,'').length < 4) return false;  // too short to identify anyone
+  const formats = state ? [LICENCE_FORMATS[state]] : Object.values(LICENCE_FORMATS);
+  return formats.some(f => f[kind].test(s));
+};
+
+export const isValidLicence = (raw: string, state?: AUState): boolean =>
+  matchesLicence(raw, 'licence', state);
+
+export const isValidLicenceCard = (raw: string, state?: AUState): boolean =>
+  matchesLicence(raw, 'card', state);
+
+export const isValidPassport = (raw: string): boolean =>
+  /^[A-Z]{1,2}\d{7}$/.test(raw.replace(/\s+/g,'').toUpperCase());
+
+// E.164 country calling codes: 1 and 7 are single-digit, these two-digit codes
+// are assigned, and the remaining zones use three digits
+const CC_TWO_DIGIT = new Set([
+  '20','27','30','31','32','33','34','36','39','40','41','43','44','45','46','47','48','49',
+  '51','52','53','54','55','56','57','58','60','61','62','63','64','65','66','81','82','84',
+  '86','90','91','92','93','94','95','98',
+]);
+const CC_THREE_DIGIT_ZONES = new Set([
+  '21','22','23','24','25','26','29','35','37','38','42','50','59','67','68','69','85','87',
+  '88','96','97','99',
+]);
+
+export const callingCode = (digits: string): string | undefined => {
+  if (/^[17]/.test(digits)) return digits[0];
+  if (CC_TWO_DIGIT.has(digits.slice(0,2))) return digits.slice(0,2);
+  if (CC_THREE_DIGIT_ZONES.has(digits.slice(0,2))) return digits.slice(0,3);
+  return undefined;
+};
+
+// International number: an assigned calling code and 8–15 digits in total
+export const isValidE164 = (raw: string): boolean => {
+  const digits = raw.trim().replace(/^(?:\+|0011)/,'').replace(/\D/g,'');
+  return digits.length >= 8 && digits.length <= 15 && callingCode(digits) !== undefined;
+};
+
+export const isValidIPv6 = (raw: string): boolean => {
+  const s = raw.toLowerCase();
+  const halves = s.split('::');
+  if (halves.length > 2) return false;
+  const groups = halves.flatMap(h => h ? h.split(':') : []);
+  if (!groups.every(g => /^[0-9a-f]{1,4}$/.test(g))) return false;
+  return halves.length === 2 ? groups.length < 8 && groups.length >= 1 : groups.length === 8;
+};
+
+// NZ IRD: 8–9 digits in the issued range, mod-11 check digit with a secondary
+// weighting when the primary one gives 10
+export const isValidIRD = (raw: string): boolean => {
+  const s = raw.replace(/[\s-]+/g,'');
+  if (!/^\d{8,9}$/.test(s)) return false;
+  const n = Number(s);
+  if (n <= 10000000 || n >= 150000000) return false;
+  const base = s.slice(0,-1).padStart(8,'0').split('').map(Number);
+  const check = (w: number[]) => {
+    const r = base.reduce((a,d,i)=>a+d*w[i],0) % 11;
+    return r === 0 ? 0 : 11 - r;
+  };
+  let c = check([3,2,7,6,5,4,3,2]);
+  if (c === 10) c = check([7,4,3,2,5,2,7,6]);
+  return c !== 10 && c === Number(s[s.length-1]);
+};
+
+// NZ NHI (AAANNNC): letters exclude I and O and count A=1..Z=24, mod-11 check digit
+const NHI_ALPHA = 'ABCDEFGHJKLMNPQRSTUVWXYZ';
+export const isValidNHI = (raw: string): boolean => {
+  const s = raw.replace(/\s+/g,'').toUpperCase();
+  if (!/^[A-HJ-NP-Z]{3}\d{4}$/.test(s)) return false;
+  const v = s.split('').map((ch,i) => i < 3 ? NHI_ALPHA.indexOf(ch) + 1 : Number(ch));
+  const r = v.slice(0,6).reduce((a,n,i)=>a+n*(7-i),0) % 11;
+  if (r === 0) return false;
+  return (11 - r) % 10 === v[6];
+};
+
+// UK National Insurance number: restricted prefix letters, suffix A–D
+export const isValidNINO = (raw: string): boolean => {
+  const s = raw.replace(/\s+/g,'').toUpperCase();
+  if (!/^[A-CEGHJ-PR-TW-Z][A-CEGHJ-NPR-TW-Z]\d{6}[A-D]$/.test(s)) return false;
+  return !['BG','GB','NK','KN','TN','NT','ZZ'].includes(s.slice(0,2));
+};
+
+// Weighted mod-11 over any digit string: weights n..1 from the left, check digit included
+export const mod11Checksum = (s: string): boolean =>
+  /^\d+$/.test(s) && s.split('').map(Number).reduce((a,n,i)=>a+n*(s.length-i),0) % 11 === 0;
+
+// NHS number: 10 digits, mod-11 check digit (weights 10..2), a result of 10 is never issued
+export const isValidNHS = (raw: string): boolean => {
+  const s = raw.replace(/[\s-]+/g,'');
+  if (!/^\d{10}$/.test(s) || /^(\d)\1{9}$/.test(s)) return false;
+  const r = s.slice(0,9).split('').map(Number).reduce((a,n,i)=>a+n*(10-i),0) % 11;
+  const c = 11 - r;
+  return c !== 10 && c % 11 === Number(s[9]);
+};
+
+// US SSN: area 001–899 except 666, group and serial never all zeros
+export const isValidSSN = (raw: string): boolean => {
+  const s = raw.replace(/[\s-]+/g,'');
+  if (!/^\d{9}$/.test(s)) return false;
+  const area = Number(s.slice(0,3));
+  return area !== 0 && area !== 666 && area < 900 && s.slice(3,5) !== '00' && s.slice(5) !== '0000';
+};
+
+// US ITIN: area 9xx with the group in the IRS-assigned ranges
+export const isValidITIN = (raw: string): boolean => {
+  const s = raw.replace(/[\s-]+/g,'');
+  if (!/^9\d{8}$/.test(s)) return false;
+  const g = Number(s.slice(3,5));
+  return (g >= 50 && g <= 65) || (g >= 70 && g <= 88) || (g >= 90 && g <= 92) || (g >= 94 && g <= 99);
+};
+
+// IBAN lengths by country (SWIFT IBAN registry)
+const IBAN_LENGTHS: Record<string, number> = {
+  AD:24, AE:23, AL:28, AT:20, AZ:28, BA:20, BE:16, BG:22, BH:22, BI:27, BR:29, BY:28,
+  CH:21, CR:22, CY:28, CZ:24, DE:22, DJ:27, DK:18, DO:28, EE:20, EG:29, ES:24, FI:18,
+  FK:18, FO:18, FR:27, GB:22, GE:22, GI:23, GL:18, GR:27, GT:28, HR:21, HU:28, IE:22,
+  IL:23, IQ:23, IS:26, IT:27, JO:30, KW:30, KZ:20, LB:28, LC:32, LI:21, LT:20, LU:20,
+  LV:21, LY:25, MC:27, MD:24, ME:22, MK:19, MN:20, MR:27, MT:31, MU:30, NI:28, NL:18,
+  NO:15, OM:23, PK:24, PL:28, PS:29, PT:25, QA:29, RO:24, RS:22, RU:33, SA:24, SC:31,
+  SD:18, SE:24, SI:19, SK:24, SM:27, SO:23, ST:25, SV:28, TL:23, TN:24, TR:26, UA:29,
+  VA:22, VG:24, XK:20, YE:30,
+};
+
+// ISO 7064 mod-97-10: letters become 10..35 and the number must leave remainder 1
+// (computed piecewise to stay within a double)
+export const mod97Checksum = (raw: string): boolean => {
+  const s = raw.toUpperCase();
+  if (!/^[A-Z0-9]+$/.test(s)) return false;
+  const digits = s.replace(/[A-Z]/g, ch => String(ch.charCodeAt(0) - 55));
+  let r = 0;
+  for (let i = 0; i < digits.length; i += 7) r = Number(String(r) + digits.slice(i, i + 7)) % 97;
+  return r === 1;
+};
+
+// IBANs move the country code and check digits to the end before the mod-97 check
+export const isValidIBAN = (raw: string): boolean => {
+  const s = raw.replace(/\s+/g,'').toUpperCase();
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]+$/.test(s) || IBAN_LENGTHS[s.slice(0,2)] !== s.length) return false;
+  return mod97Checksum(s.slice(4) + s.slice(0,4));
+};
+
+const ISO_COUNTRIES = new Set((
+  'AD AE AF AG AI AL AM AO AQ AR AS AT AU AW AX AZ BA BB BD BE BF BG BH BI BJ BL BM BN BO BQ BR BS ' +
+  'BT BV BW BY BZ CA CC CD CF CG CH CI CK CL CM CN CO CR CU CV CW CX CY CZ DE DJ DK DM DO DZ EC EE ' +
+  'EG EH ER ES ET FI FJ FK FM FO FR GA GB GD GE GF GG GH GI GL GM GN GP GQ GR GS GT GU GW GY HK HM ' +
+  'HN HR HT HU ID IE IL IM IN IO IQ IR IS IT JE JM JO JP KE KG KH KI KM KN KP KR KW KY KZ LA LB LC ' +
+  'LI LK LR LS LT LU LV LY MA MC MD ME MF MG MH MK ML MM MN MO MP MQ MR MS MT MU MV MW MX MY MZ NA ' +
+  'NC NE NF NG NI NL NO NP NR NU NZ OM PA PE PF PG PH PK PL PM PN PR PS PT PW PY QA RE RO RS RU RW ' +
+  'SA SB SC SD SE SG SH SI SJ SK SL SM SN SO SR SS ST SV SX SY SZ TC TD TF TG TH TJ TK TL TM TN TO ' +
+  'TR TT TV TW TZ UA UG UM US UY UZ VA VC VE VG VI VN VU WF WS XK YE YT ZA ZM ZW'
+).split(' '));
+
+// SWIFT/BIC: 4-letter bank, ISO country, 2-character location, optional 3-character branch
+export const isValidBIC = (raw: string): boolean => {
+  const s = raw.replace(/\s+/g,'').toUpperCase();
+  return /^[A-Z]{4}[A-Z]{2}[A-Z0-9]{2}(?:[A-Z0-9]{3})?$/.test(s) && ISO_COUNTRIES.has(s.slice(4,6));
+};